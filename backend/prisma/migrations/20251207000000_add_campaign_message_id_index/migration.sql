@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "campaign_messages_message_id_idx" ON "campaign_messages"("message_id");
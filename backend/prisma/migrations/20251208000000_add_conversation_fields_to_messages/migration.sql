@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "messages" ALTER COLUMN "connection_id" DROP NOT NULL;
+ALTER TABLE "messages" ALTER COLUMN "provider_message_id" DROP NOT NULL;
+ALTER TABLE "messages"
+ADD COLUMN "session_id" TEXT,
+ADD COLUMN "tenant_id" TEXT,
+ADD COLUMN "contact_id" TEXT,
+ADD COLUMN "contact_phone" TEXT,
+ADD COLUMN "source" TEXT,
+ADD COLUMN "campaign_id" TEXT,
+ADD COLUMN "sent_by_user_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "messages_tenant_id_contact_phone_timestamp_idx" ON "messages"("tenant_id", "contact_phone", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "messages_contact_id_idx" ON "messages"("contact_id");
+
+-- CreateIndex
+CREATE INDEX "messages_session_id_idx" ON "messages"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "whatsapp_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_contact_id_fkey" FOREIGN KEY ("contact_id") REFERENCES "contacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "jobs" (
+    "id" TEXT NOT NULL,
+    "queue" TEXT NOT NULL,
+    "payload" JSONB NOT NULL DEFAULT '{}',
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "run_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "group_key" TEXT,
+    "unique_key" TEXT,
+    "locked_at" TIMESTAMP(3),
+    "locked_by" TEXT,
+    "last_error" TEXT,
+    "completed_at" TIMESTAMP(3),
+    "tenant_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "jobs_unique_key_key" ON "jobs"("unique_key");
+
+-- CreateIndex
+CREATE INDEX "jobs_queue_status_run_at_idx" ON "jobs"("queue", "status", "run_at");
+
+-- CreateIndex
+CREATE INDEX "jobs_group_key_status_idx" ON "jobs"("group_key", "status");
+
+-- CreateIndex
+CREATE INDEX "jobs_tenant_id_idx" ON "jobs"("tenant_id");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "interactive_campaign_sessions" ADD COLUMN "wake_up_at" TIMESTAMP(3),
+ADD COLUMN "wake_up_node_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "interactive_campaign_sessions_status_wake_up_at_idx" ON "interactive_campaign_sessions"("status", "wake_up_at");
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "contacts" ADD COLUMN "custom_fields" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "contact_fields" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'text',
+    "options" TEXT[],
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "criado_em" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "atualizado_em" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contact_fields_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contact_fields_tenant_id_idx" ON "contact_fields"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_fields_tenant_id_key_key" ON "contact_fields"("tenant_id", "key");
+
+-- AddForeignKey
+ALTER TABLE "contact_fields" ADD CONSTRAINT "contact_fields_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
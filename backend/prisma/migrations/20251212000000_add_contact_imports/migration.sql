@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "contact_imports" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "file_path" TEXT NOT NULL,
+    "separator" TEXT NOT NULL DEFAULT ',',
+    "columns" TEXT[],
+    "total_rows" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'UPLOADED',
+    "mapping" JSONB,
+    "strategy" TEXT NOT NULL DEFAULT 'SKIP',
+    "category_id" TEXT,
+    "processed_rows" INTEGER NOT NULL DEFAULT 0,
+    "created_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_count" INTEGER NOT NULL DEFAULT 0,
+    "skipped_count" INTEGER NOT NULL DEFAULT 0,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "error_message" TEXT,
+    "created_by" TEXT,
+    "criado_em" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "contact_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "contact_import_errors" (
+    "id" TEXT NOT NULL,
+    "import_id" TEXT NOT NULL,
+    "row_number" INTEGER NOT NULL,
+    "error" TEXT NOT NULL,
+    "row_data" JSONB NOT NULL,
+    "criado_em" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contact_import_errors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contact_imports_tenant_id_criado_em_idx" ON "contact_imports"("tenant_id", "criado_em");
+
+-- CreateIndex
+CREATE INDEX "contact_import_errors_import_id_row_number_idx" ON "contact_import_errors"("import_id", "row_number");
+
+-- AddForeignKey
+ALTER TABLE "contact_imports" ADD CONSTRAINT "contact_imports_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contact_import_errors" ADD CONSTRAINT "contact_import_errors_import_id_fkey" FOREIGN KEY ("import_id") REFERENCES "contact_imports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "tenant_settings" ADD COLUMN "opt_out_keywords" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "suppressed_contacts" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "reason" TEXT NOT NULL DEFAULT 'KEYWORD',
+    "keyword" TEXT,
+    "note" TEXT,
+    "created_by" TEXT,
+    "criado_em" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "suppressed_contacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "suppressed_contacts_tenant_id_phone_key" ON "suppressed_contacts"("tenant_id", "phone");
+
+-- AddForeignKey
+ALTER TABLE "suppressed_contacts" ADD CONSTRAINT "suppressed_contacts_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
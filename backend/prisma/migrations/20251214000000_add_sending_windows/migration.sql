@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN "sending_window" JSONB;
+
+-- AlterTable
+ALTER TABLE "tenant_settings" ADD COLUMN "sending_window" JSONB;
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN "recurring_campaign_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "recurring_campaigns" (
+    "id" TEXT NOT NULL,
+    "nome" TEXT NOT NULL,
+    "target_tags" TEXT NOT NULL,
+    "session_names" TEXT NOT NULL,
+    "message_type" TEXT NOT NULL,
+    "message_content" TEXT NOT NULL,
+    "random_delay" INTEGER NOT NULL,
+    "sending_window" JSONB,
+    "schedule_type" TEXT NOT NULL,
+    "schedule_expression" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'America/Sao_Paulo',
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "next_run_at" TIMESTAMP(3),
+    "last_run_at" TIMESTAMP(3),
+    "run_count" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "created_by" TEXT,
+    "created_by_name" TEXT,
+    "tenant_id" TEXT NOT NULL,
+    "criado_em" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "atualizado_em" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recurring_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recurring_campaigns_tenant_id_idx" ON "recurring_campaigns"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "recurring_campaigns_active_next_run_at_idx" ON "recurring_campaigns"("active", "next_run_at");
+
+-- CreateIndex
+CREATE INDEX "campaigns_recurring_campaign_id_idx" ON "campaigns"("recurring_campaign_id");
+
+-- AddForeignKey
+ALTER TABLE "recurring_campaigns" ADD CONSTRAINT "recurring_campaigns_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_recurring_campaign_id_fkey" FOREIGN KEY ("recurring_campaign_id") REFERENCES "recurring_campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
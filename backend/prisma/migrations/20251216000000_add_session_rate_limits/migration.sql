@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "whatsapp_sessions" ADD COLUMN "rate_limit_per_minute" INTEGER,
+ADD COLUMN "rate_limit_per_hour" INTEGER,
+ADD COLUMN "rate_limit_per_day" INTEGER,
+ADD COLUMN "warmup_plan" JSONB,
+ADD COLUMN "warmup_started_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "session_send_buckets" (
+    "session_id" TEXT NOT NULL,
+    "bucket_start" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "session_send_buckets_pkey" PRIMARY KEY ("session_id","bucket_start")
+);
+
+-- CreateIndex
+CREATE INDEX "session_send_buckets_bucket_start_idx" ON "session_send_buckets"("bucket_start");
+
+-- AddForeignKey
+ALTER TABLE "session_send_buckets" ADD CONSTRAINT "session_send_buckets_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "whatsapp_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "whatsapp_sessions" ADD COLUMN "health_score" INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN "health_status" TEXT NOT NULL DEFAULT 'HEALTHY',
+ADD COLUMN "quarantined_until" TIMESTAMP(3),
+ADD COLUMN "last_observed_status" TEXT;
+
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN "pause_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "session_health_events" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "detail" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_health_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_health_events_session_id_created_at_idx" ON "session_health_events"("session_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "session_health_events_created_at_idx" ON "session_health_events"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "session_health_events" ADD CONSTRAINT "session_health_events_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "whatsapp_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN "retry_policy" JSONB;
+
+-- AlterTable
+ALTER TABLE "campaign_messages" ADD COLUMN "failure_class" TEXT;
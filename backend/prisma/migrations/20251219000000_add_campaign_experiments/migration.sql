@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN "experiment" JSONB,
+ADD COLUMN "experiment_test_ends_at" TIMESTAMP(3),
+ADD COLUMN "winner_variant_id" TEXT,
+ADD COLUMN "winner_selected_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "campaign_messages" ADD COLUMN "variant_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "campaign_variants" (
+    "id" TEXT NOT NULL,
+    "campaign_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL DEFAULT 1,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "message_type" TEXT NOT NULL,
+    "message_content" TEXT NOT NULL,
+    "criado_em" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "campaign_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "campaign_variants_campaign_id_idx" ON "campaign_variants"("campaign_id");
+
+-- CreateIndex
+CREATE INDEX "campaign_messages_variant_id_idx" ON "campaign_messages"("variant_id");
+
+-- AddForeignKey
+ALTER TABLE "campaign_variants" ADD CONSTRAINT "campaign_variants_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_messages" ADD CONSTRAINT "campaign_messages_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "campaign_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
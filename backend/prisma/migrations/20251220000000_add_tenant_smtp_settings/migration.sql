@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "tenant_settings" ADD COLUMN "smtp_host" TEXT,
+ADD COLUMN "smtp_port" INTEGER,
+ADD COLUMN "smtp_secure" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "smtp_user" TEXT,
+ADD COLUMN "smtp_password" TEXT,
+ADD COLUMN "smtp_from" TEXT;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "global_settings" ADD COLUMN "cloud_api_graph_url" TEXT NOT NULL DEFAULT 'https://graph.facebook.com/v21.0',
+ADD COLUMN "cloud_api_app_secret" TEXT NOT NULL DEFAULT '',
+ADD COLUMN "cloud_api_verify_token" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "whatsapp_sessions" ADD COLUMN "cloud_phone_number_id" TEXT,
+ADD COLUMN "cloud_access_token" TEXT,
+ADD COLUMN "cloud_waba_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "tenants" ALTER COLUMN "allowed_providers" SET DEFAULT ARRAY['WAHA', 'EVOLUTION', 'QUEPASA', 'CLOUD_API']::TEXT[];
+
+-- CreateIndex
+CREATE UNIQUE INDEX "whatsapp_sessions_cloud_phone_number_id_key" ON "whatsapp_sessions"("cloud_phone_number_id");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "whatsapp_sessions" ADD COLUMN "sandbox_config" JSONB;
+
+-- CreateTable
+CREATE TABLE "sandbox_messages" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'text',
+    "content" TEXT,
+    "payload" JSONB NOT NULL,
+    "provider_message_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'SENT',
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sandbox_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sandbox_messages_provider_message_id_key" ON "sandbox_messages"("provider_message_id");
+
+-- CreateIndex
+CREATE INDEX "sandbox_messages_session_id_created_at_idx" ON "sandbox_messages"("session_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "sandbox_messages" ADD CONSTRAINT "sandbox_messages_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "whatsapp_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
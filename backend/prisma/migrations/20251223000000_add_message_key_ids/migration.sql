@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "campaign_messages" ADD COLUMN "message_key_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "provider_key_id" TEXT;
+
+-- Backfill: ids serializados do WAHA ("true_5511999999999@c.us_3EB0...") guardam a chave no último segmento
+UPDATE "campaign_messages"
+SET "message_key_id" = CASE WHEN "message_id" LIKE '%@%' THEN regexp_replace("message_id", '^.*_', '') ELSE "message_id" END
+WHERE "message_id" IS NOT NULL;
+
+UPDATE "messages"
+SET "provider_key_id" = CASE WHEN "provider_message_id" LIKE '%@%' THEN regexp_replace("provider_message_id", '^.*_', '') ELSE "provider_message_id" END
+WHERE "provider_message_id" IS NOT NULL AND "direction" = 'OUTBOUND';
+
+-- CreateIndex
+CREATE INDEX "campaign_messages_message_key_id_idx" ON "campaign_messages"("message_key_id");
+
+-- CreateIndex
+CREATE INDEX "messages_provider_key_id_idx" ON "messages"("provider_key_id");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "interactive_campaign_sessions" ADD COLUMN "wake_up_attempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "interactive_campaign_sessions" ADD COLUMN "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill: sessões existentes começaram quando foram criadas
+UPDATE "interactive_campaign_sessions" SET "started_at" = "created_at";
@@ -1,9 +1,13 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import { ContactService } from '../services/contactService';
 import { CategoryService } from '../services/categoryService';
 import { AuthenticatedRequest } from '../middleware/auth';
+import campaignScheduler from '../services/campaignSchedulerService';
+import { sendingWindowService } from '../services/sendingWindowService';
+import { campaignRetryService } from '../services/campaignRetryService';
+import { campaignExperimentService } from '../services/campaignExperimentService';
 
 const prisma = new PrismaClient();
 
@@ -12,11 +16,29 @@ export const campaignValidation = [
   body('nome').notEmpty().withMessage('Nome da campanha é obrigatório'),
   body('targetTags').isArray().withMessage('Categorias dos contatos devem ser um array'),
   body('sessionNames').isArray({ min: 1 }).withMessage('Pelo menos uma sessão WhatsApp deve ser selecionada'),
-  body('messageType').isIn(['text', 'image', 'video', 'audio', 'document', 'sequence', 'openai', 'groq', 'wait']).withMessage('Tipo de mensagem inválido'),
+  body('messageType').isIn(['text', 'image', 'video', 'audio', 'document', 'sequence', 'openai', 'groq', 'wait', 'template', 'buttons', 'list', 'poll', 'location', 'contact', 'reaction']).withMessage('Tipo de mensagem inválido'),
   body('messageContent').notEmpty().withMessage('Conteúdo da mensagem é obrigatório'),
   body('randomDelay').isInt({ min: 0 }).withMessage('Delay deve ser um número positivo'),
   body('startImmediately').isBoolean().withMessage('StartImmediately deve ser boolean'),
-  body('scheduledFor').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Data de agendamento deve ser válida')
+  body('scheduledFor').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Data de agendamento deve ser válida'),
+  body('sendingWindow').optional({ nullable: true }).custom((value) => {
+    sendingWindowService.normalize(value);
+    return true;
+  }),
+  body('retryPolicy').optional({ nullable: true }).custom((value) => {
+    campaignRetryService.normalize(value);
+    return true;
+  }),
+  body('variants').optional({ nullable: true }).custom((value) => {
+    campaignExperimentService.normalizeVariants(value);
+    return true;
+  }),
+  body('experiment').optional({ nullable: true }).custom((value, { req }) => {
+    if (campaignExperimentService.normalizeExperiment(value) && campaignExperimentService.normalizeVariants(req.body.variants).length === 0) {
+      throw new Error('Fase de teste exige ao menos duas variantes');
+    }
+    return true;
+  })
 ];
 
 // List all campaigns
@@ -125,11 +147,15 @@ export const getCampaign = async (req: AuthenticatedRequest, res: Response) => {
     }
 
     // Parse JSON fields
+    const sessionNames = campaign.sessionNames ? JSON.parse(campaign.sessionNames) : [];
+    const pendingCount = campaign.messages.filter(m => m.status === 'PENDING' || m.status === 'PROCESSING').length;
+
     const campaignWithParsedData = {
       ...campaign,
       targetTags: JSON.parse(campaign.targetTags),
-      sessionNames: campaign.sessionNames ? JSON.parse(campaign.sessionNames) : [],
-      messageContent: JSON.parse(campaign.messageContent)
+      sessionNames,
+      messageContent: JSON.parse(campaign.messageContent),
+      sendingWindowStatus: await sendingWindowService.describeCampaign(campaign, pendingCount, Math.max(sessionNames.length, 1))
     };
 
     res.json(campaignWithParsedData);
@@ -155,7 +181,11 @@ export const createCampaign = async (req: AuthenticatedRequest, res: Response) =
       messageContent,
       randomDelay,
       startImmediately,
-      scheduledFor
+      scheduledFor,
+      sendingWindow,
+      retryPolicy,
+      variants,
+      experiment
     } = req.body;
 
     // Log detalhado da criação de campanha
@@ -224,6 +254,9 @@ export const createCampaign = async (req: AuthenticatedRequest, res: Response) =
       return res.status(400).json({ error: 'Nenhum contato encontrado com as categorias selecionadas' });
     }
 
+    const experimentVariants = campaignExperimentService.normalizeVariants(variants);
+    const experimentConfig = experimentVariants.length > 0 ? campaignExperimentService.normalizeExperiment(experiment) : null;
+
     // Criar campanha
     const campaign = await prisma.campaign.create({
       data: {
@@ -236,6 +269,9 @@ export const createCampaign = async (req: AuthenticatedRequest, res: Response) =
         randomDelay,
         startImmediately,
         scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
+        sendingWindow: (sendingWindowService.normalize(sendingWindow) as any) ?? undefined,
+        retryPolicy: (campaignRetryService.normalize(retryPolicy) as any) ?? undefined,
+        experiment: (experimentConfig as any) ?? undefined,
         totalContacts: filteredContacts.length,
         status: startImmediately ? 'RUNNING' : 'PENDING',
         startedAt: startImmediately ? new Date() : null,
@@ -258,6 +294,16 @@ export const createCampaign = async (req: AuthenticatedRequest, res: Response) =
       data: campaignMessages
     });
 
+    // Teste A/B: variantes precisam estar atribuídas antes do primeiro enfileiramento
+    if (experimentVariants.length > 0) {
+      await campaignExperimentService.setupVariants(campaign.id, experimentVariants, experimentConfig);
+    }
+
+    // Início imediato: enfileirar já, sem esperar o próximo ciclo do scheduler
+    if (startImmediately) {
+      await campaignScheduler.enqueueCampaignMessages(campaign.id);
+    }
+
     res.status(201).json({
       message: 'Campanha criada com sucesso',
       campaign: {
@@ -279,6 +325,10 @@ export const updateCampaign = async (req: AuthenticatedRequest, res: Response) =
     const { id } = req.params;
     const updateData = req.body;
 
+    // Variantes e fase de teste do A/B são definidas apenas na criação
+    delete updateData.variants;
+    delete updateData.experiment;
+
     // Se há targetTags, converter para JSON
     if (updateData.targetTags) {
       updateData.targetTags = JSON.stringify(updateData.targetTags);
@@ -299,6 +349,24 @@ export const updateCampaign = async (req: AuthenticatedRequest, res: Response) =
       updateData.scheduledFor = new Date(updateData.scheduledFor);
     }
 
+    // Janela de envio: null volta a usar a padrão do tenant
+    if (updateData.sendingWindow !== undefined) {
+      try {
+        updateData.sendingWindow = sendingWindowService.normalize(updateData.sendingWindow) ?? Prisma.DbNull;
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Janela de envio inválida' });
+      }
+    }
+
+    // Política de retentativa: null volta a usar a padrão (vale para as mensagens enfileiradas depois)
+    if (updateData.retryPolicy !== undefined) {
+      try {
+        updateData.retryPolicy = (campaignRetryService.normalize(updateData.retryPolicy) as any) ?? Prisma.DbNull;
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Política de retentativa inválida' });
+      }
+    }
+
     const campaign = await prisma.campaign.update({
       where: { id },
       data: updateData
@@ -366,10 +434,15 @@ export const toggleCampaign = async (req: AuthenticatedRequest, res: Response) =
       where: { id },
       data: {
         status: newStatus,
+        pauseReason: null, // Ação manual substitui a pausa automática por falta de sessão
         startedAt: action === 'resume' && !campaign.startedAt ? new Date() : campaign.startedAt
       }
     });
 
+    if (newStatus === 'RUNNING') {
+      await campaignScheduler.enqueueCampaignMessages(id);
+    }
+
     res.json({
       message: `Campanha ${action === 'pause' ? 'pausada' : 'retomada'} com sucesso`,
       campaign: updatedCampaign
@@ -380,6 +453,28 @@ export const toggleCampaign = async (req: AuthenticatedRequest, res: Response) =
   }
 };
 
+// Re-queue failed messages whose failure class is retryable by the campaign policy
+export const retryFailedMessages = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const result = await campaignRetryService.retryFailedMessages(id, req.tenantId);
+
+    if (result.requeued > 0 && result.status === 'RUNNING') {
+      await campaignScheduler.enqueueCampaignMessages(id);
+    }
+
+    res.json({
+      message: result.requeued > 0
+        ? `${result.requeued} mensagem(ns) com falha retentável reenfileirada(s)`
+        : 'Nenhuma mensagem com falha retentável para reenviar',
+      ...result
+    });
+  } catch (error) {
+    console.error('Erro ao reenviar mensagens com falha:', error);
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Erro ao reenviar mensagens com falha' });
+  }
+};
+
 // Get campaign report
 export const getCampaignReport = async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -403,6 +498,7 @@ export const getCampaignReport = async (req: AuthenticatedRequest, res: Response
             errorMessage: true,
             sessionName: true,
             selectedVariation: true,
+            variantId: true,
             criadoEm: true
           }
         },
@@ -533,6 +629,12 @@ export const getCampaignReport = async (req: AuthenticatedRequest, res: Response
       messageContent = {};
     }
 
+    const sendingWindowStatus = await sendingWindowService.describeCampaign(
+      campaign,
+      messagesWithProvider.filter(m => m.status === 'PENDING' || m.status === 'PROCESSING').length,
+      Math.max(sessionNamesArray.length, 1)
+    );
+
     const campaignWithParsedData = {
       ...campaign,
       targetTags,
@@ -547,6 +649,9 @@ export const getCampaignReport = async (req: AuthenticatedRequest, res: Response
       messagesByStatus,
       messagesBySession,
       sessionsInfo: sessionProviderMap, // Adiciona informações das sessões
+      sendingWindowStatus,
+      failureSummary: await campaignRetryService.getFailureSummary(campaign.id, campaign.retryPolicy),
+      experiment: await campaignExperimentService.getReport(campaign),
       generatedAt: new Date().toISOString()
     };
 
@@ -627,7 +732,8 @@ export const downloadCampaignReport = async (req: AuthenticatedRequest, res: Res
             errorMessage: true,
             sessionName: true,
             selectedVariation: true,
-            criadoEm: true
+            criadoEm: true,
+            variant: { select: { name: true } }
           }
         }
       }
@@ -644,6 +750,7 @@ export const downloadCampaignReport = async (req: AuthenticatedRequest, res: Res
       'Status': msg.status === 'SENT' ? 'Enviado' : msg.status === 'FAILED' ? 'Falhou' : 'Pendente',
       'Data de Envio': msg.sentAt ? new Date(msg.sentAt).toLocaleString('pt-BR') : 'N/A',
       'Sessão': msg.sessionName || 'N/A',
+      'Variante A/B': msg.variant?.name || 'N/A',
       'Variação': msg.selectedVariation !== null && msg.selectedVariation !== undefined ? msg.selectedVariation.toString() : 'N/A',
       'Erro': msg.errorMessage || 'N/A'
     }));
@@ -659,12 +766,13 @@ export const downloadCampaignReport = async (req: AuthenticatedRequest, res: Res
       { wch: 12 },  // Status
       { wch: 20 },  // Data de Envio
       { wch: 25 },  // Sessão
+      { wch: 15 },  // Variante A/B
       { wch: 10 },  // Variação
       { wch: 50 }   // Erro
     ];
 
-    // Aplicar estilos ao cabeçalho (células A1 até G1)
-    const headerCells = ['A1', 'B1', 'C1', 'D1', 'E1', 'F1', 'G1'];
+    // Aplicar estilos ao cabeçalho (células A1 até H1)
+    const headerCells = ['A1', 'B1', 'C1', 'D1', 'E1', 'F1', 'G1', 'H1'];
     headerCells.forEach(cell => {
       if (ws[cell]) {
         ws[cell].s = {
@@ -0,0 +1,79 @@
+import { Response } from 'express';
+import { ContactFieldService } from '../services/contactFieldService';
+import { ContactFieldInput } from '../types';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+const NOT_FOUND_MESSAGE = 'Campo personalizado não encontrado';
+
+export class ContactFieldController {
+  static async getFields(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId) {
+        return res.status(400).json({ error: 'Tenant não identificado' });
+      }
+
+      const fields = await ContactFieldService.getFields(tenantId);
+      res.json(fields);
+    } catch (error) {
+      console.error('Erro ao buscar campos personalizados:', error);
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  static async createField(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId) {
+        return res.status(400).json({ error: 'Tenant não identificado' });
+      }
+
+      const fieldData: ContactFieldInput = req.body;
+      const field = await ContactFieldService.createField(fieldData, tenantId);
+      res.status(201).json(field);
+    } catch (error) {
+      console.error('Erro ao criar campo personalizado:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Erro ao criar campo' });
+    }
+  }
+
+  static async updateField(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId) {
+        return res.status(400).json({ error: 'Tenant não identificado' });
+      }
+
+      const { id } = req.params;
+      const fieldData: ContactFieldInput = req.body;
+      const field = await ContactFieldService.updateField(id, fieldData, tenantId);
+      res.json(field);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro ao atualizar campo';
+      if (message !== NOT_FOUND_MESSAGE) {
+        console.error('Erro ao atualizar campo personalizado:', error);
+      }
+      res.status(message === NOT_FOUND_MESSAGE ? 404 : 400).json({ error: message });
+    }
+  }
+
+  static async deleteField(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId) {
+        return res.status(400).json({ error: 'Tenant não identificado' });
+      }
+
+      const { id } = req.params;
+      await ContactFieldService.deleteField(id, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof Error && error.message === NOT_FOUND_MESSAGE) {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error('Erro ao deletar campo personalizado:', error);
+        res.status(500).json({ error: 'Erro interno do servidor' });
+      }
+    }
+  }
+}
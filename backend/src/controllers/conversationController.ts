@@ -0,0 +1,89 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { conversationService } from '../services/conversationService';
+
+export const conversationController = {
+  /**
+   * GET /api/conversations
+   * Lista conversas do tenant (uma por contato), mais recentes primeiro
+   */
+  async list(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { search, page = '1', pageSize = '30' } = req.query;
+
+      const result = await conversationService.listConversations(req.tenantId, {
+        search: search as string,
+        page: parseInt(page as string),
+        pageSize: parseInt(pageSize as string),
+      });
+
+      return res.json(result);
+    } catch (error: any) {
+      console.error('Error listing conversations:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * GET /api/conversations/:phone/messages
+   * Lista mensagens de uma conversa
+   */
+  async getMessages(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { phone } = req.params;
+      const { before, limit } = req.query;
+
+      const result = await conversationService.getConversationMessages(req.tenantId, phone, {
+        before: before as string,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+
+      return res.json(result);
+    } catch (error: any) {
+      console.error('Error getting conversation messages:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * POST /api/conversations/:phone/messages
+   * Envia uma resposta manual para o contato
+   */
+  async reply(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { phone } = req.params;
+      const { content, sessionId } = req.body;
+
+      if (!content || !String(content).trim()) {
+        return res.status(400).json({ error: 'content é obrigatório' });
+      }
+
+      const message = await conversationService.sendManualReply(
+        req.tenantId,
+        phone,
+        { content: String(content), sessionId },
+        req.user?.id
+      );
+
+      return res.status(201).json(message);
+    } catch (error: any) {
+      console.error('Error sending conversation reply:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * POST /api/conversations/:phone/read
+   * Marca as mensagens recebidas da conversa como lidas
+   */
+  async markAsRead(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { phone } = req.params;
+      const count = await conversationService.markAsRead(req.tenantId, phone);
+      return res.json({ success: true, count });
+    } catch (error: any) {
+      console.error('Error marking conversation as read:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+};
@@ -3,6 +3,7 @@ import { AuthenticatedRequest } from '../middleware/auth';
 import multer from 'multer';
 import * as path from 'path';
 import { CSVImportService } from '../services/csvImportService';
+import { ContactFieldService } from '../services/contactFieldService';
 import { ApiError } from '../types';
 
 // Configurar multer para upload de arquivos
@@ -30,12 +31,16 @@ export const upload = multer({
   storage,
   fileFilter,
   limits: {
-    fileSize: 5 * 1024 * 1024 // 5MB max
+    fileSize: 20 * 1024 * 1024 // 20MB max (processado em streaming)
   }
 });
 
 export class CSVImportController {
-  static async importContacts(req: AuthenticatedRequest, res: Response) {
+  /**
+   * POST /api/csv/imports
+   * Etapa 1: recebe o arquivo e devolve colunas detectadas, linhas de exemplo e sugestão de mapeamento
+   */
+  static async uploadImport(req: AuthenticatedRequest, res: Response) {
     try {
       if (!req.file) {
         const apiError: ApiError = {
@@ -53,41 +58,132 @@ export class CSVImportController {
         return res.status(403).json(apiError);
       }
 
-      const categoryId = req.body?.categoryId as string | undefined;
+      console.log('📤 Upload recebido:', req.file.originalname, req.file.filename, 'tenantId:', tenantId);
 
-      console.log('📤 Upload recebido:', req.file.originalname, req.file.filename, 'tenantId:', tenantId, 'categoryId:', categoryId || 'nenhuma');
+      const preview = await CSVImportService.createImport(req.file, tenantId, req.user?.id);
+      res.status(201).json(preview);
+    } catch (error) {
+      console.error('❌ Erro ao ler arquivo CSV:', error);
+      const apiError: ApiError = {
+        error: error instanceof Error ? error.message : 'Erro ao processar arquivo CSV'
+      };
+      res.status(400).json(apiError);
+    }
+  }
 
-      const result = await CSVImportService.importContacts(req.file.path, tenantId, categoryId);
+  /**
+   * POST /api/csv/imports/:id/start
+   * Etapa 2: recebe o mapeamento de colunas e a estratégia para telefones já cadastrados
+   */
+  static async startImport(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId) {
+        return res.status(403).json({ error: 'Tenant não identificado' } as ApiError);
+      }
+
+      const { mapping, strategy, categoryId } = req.body || {};
+      const contactImport = await CSVImportService.startImport(req.params.id, tenantId, {
+        mapping: mapping || {},
+        strategy: strategy || 'SKIP',
+        categoryId: categoryId || undefined
+      });
 
-      if (result.success) {
-        res.json({
-          message: 'Importação concluída com sucesso',
-          ...result
-        });
-      } else {
-        res.status(207).json({ // 207 Multi-Status para importações parciais
-          message: 'Importação concluída com alguns erros',
-          ...result
-        });
+      res.json(contactImport);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro ao iniciar importação';
+      const status = message === 'Importação não encontrada' ? 404 : 400;
+      res.status(status).json({ error: message } as ApiError);
+    }
+  }
+
+  /**
+   * GET /api/csv/imports
+   */
+  static async listImports(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId) {
+        return res.status(403).json({ error: 'Tenant não identificado' } as ApiError);
       }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      res.json(await CSVImportService.listImports(tenantId, limit));
     } catch (error) {
-      console.error('❌ Erro na importação CSV:', error);
-      const apiError: ApiError = {
-        error: 'Erro ao processar arquivo CSV',
-        details: error instanceof Error ? error.message : error
-      };
-      res.status(500).json(apiError);
+      console.error('❌ Erro ao listar importações:', error);
+      res.status(500).json({ error: 'Erro ao listar importações' } as ApiError);
+    }
+  }
+
+  /**
+   * GET /api/csv/imports/:id
+   * Status e contadores da importação (usado para acompanhar o progresso)
+   */
+  static async getImport(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId) {
+        return res.status(403).json({ error: 'Tenant não identificado' } as ApiError);
+      }
+
+      res.json(await CSVImportService.getImport(req.params.id, tenantId));
+    } catch (error) {
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Importação não encontrada' } as ApiError);
+    }
+  }
+
+  /**
+   * DELETE /api/csv/imports/:id
+   * Descarta uma importação enviada mas não iniciada
+   */
+  static async cancelImport(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId) {
+        return res.status(403).json({ error: 'Tenant não identificado' } as ApiError);
+      }
+
+      await CSVImportService.cancelImport(req.params.id, tenantId);
+      res.status(204).send();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro ao cancelar importação';
+      const status = message === 'Importação não encontrada' ? 404 : 400;
+      res.status(status).json({ error: message } as ApiError);
+    }
+  }
+
+  /**
+   * GET /api/csv/imports/:id/errors
+   * Relatório CSV com as linhas que falharam e o motivo
+   */
+  static async downloadErrorReport(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = req.tenantId;
+      if (!tenantId) {
+        return res.status(403).json({ error: 'Tenant não identificado' } as ApiError);
+      }
+
+      const report = await CSVImportService.buildErrorReport(req.params.id, tenantId);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="erros-importacao-${req.params.id}.csv"`);
+      res.send('\uFEFF' + report); // BOM para o Excel reconhecer UTF-8
+    } catch (error) {
+      res.status(404).json({ error: error instanceof Error ? error.message : 'Importação não encontrada' } as ApiError);
     }
   }
 
   static async downloadTemplate(req: AuthenticatedRequest, res: Response) {
     try {
-      // CSV template com cabeçalhos em português
-      const csvTemplate = `nome,telefone,email,observacoes
-João Silva,+5511999999999,joao@email.com,Cliente desde 2020
-Maria Santos,+5511888888888,maria@email.com,Fornecedor de materiais
-Pedro Oliveira,+5511777777777,pedro@email.com,
-Ana Costa,+5511666666666,ana@email.com,Parceiro estratégico`;
+      // CSV template com cabeçalhos em português + colunas dos campos personalizados do tenant
+      const customFields = req.tenantId ? await ContactFieldService.getFields(req.tenantId) : [];
+      const customHeader = customFields.map(field => `,${field.key}`).join('');
+      const customEmpty = ','.repeat(customFields.length);
+      const csvTemplate = `nome,telefone,email,observacoes${customHeader}
+João Silva,+5511999999999,joao@email.com,Cliente desde 2020${customEmpty}
+Maria Santos,+5511888888888,maria@email.com,Fornecedor de materiais${customEmpty}
+Pedro Oliveira,+5511777777777,pedro@email.com,${customEmpty}
+Ana Costa,+5511666666666,ana@email.com,Parceiro estratégico${customEmpty}`;
 
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', 'attachment; filename="template-contatos.csv"');
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { interactiveCampaignService } from '../services/interactiveCampaignService';
+import { interactiveCampaignSimulatorService } from '../services/interactiveCampaignSimulatorService';
 
 export const interactiveCampaignController = {
   /**
@@ -147,14 +148,10 @@ export const interactiveCampaignController = {
       // Se não há agendamento, dispara imediatamente
       if (!scheduledDateTime) {
         console.log(`🚀 Triggering immediate dispatch for campaign ${id}`);
-        const { interactiveCampaignDispatchService } = await import('../services/interactiveCampaignDispatchService');
+        const { default: campaignScheduler } = await import('../services/campaignSchedulerService');
 
-        // Dispara em background para não bloquear resposta
-        setImmediate(() => {
-          interactiveCampaignDispatchService.dispatchCampaign(id).catch(error => {
-            console.error(`❌ Error dispatching campaign ${id}:`, error);
-          });
-        });
+        // Disparo pela fila de jobs para não bloquear a resposta (e sobreviver a reinícios)
+        await campaignScheduler.enqueueInteractiveDispatch(campaign);
       } else {
         console.log(`📅 Campaign ${id} scheduled for ${scheduledDateTime.toISOString()}`);
       }
@@ -222,17 +219,20 @@ export const interactiveCampaignController = {
 
   /**
    * POST /api/interactive-campaigns/:id/simulate
-   * Simula execução de uma mensagem no fluxo (com validação de tenant)
+   * Executa o fluxo da campanha em modo dry-run com uma conversa roteirizada (com validação de tenant)
    */
   async simulate(req: Request, res: Response) {
     try {
       const { id } = req.params;
-      const { from, text } = req.body;
+      const { from, text, messages, contactName, variables, executeExternal, graph } = req.body;
       const tenantId = (req as any).user?.tenantId;
 
-      if (!from || !text) {
+      // Compatibilidade: aceita uma única mensagem em "text"
+      const inboundMessages: string[] = Array.isArray(messages) ? messages : (text ? [text] : []);
+
+      if (inboundMessages.some((message) => typeof message !== 'string')) {
         return res.status(400).json({
-          error: 'from e text são obrigatórios',
+          error: 'messages deve ser uma lista de textos',
         });
       }
 
@@ -242,26 +242,20 @@ export const interactiveCampaignController = {
         return res.status(404).json({ error: 'Campanha não encontrada' });
       }
 
-      // TODO: Implementar simulação usando flowEngineService
-      // Por enquanto, retornar mock
-      const executionTrace = [
-        {
-          nodeId: 'trigger-1',
-          nodeType: 'trigger',
-          result: 'matched',
-          message: 'Mensagem recebida e trigger ativado',
-        },
-        {
-          nodeId: 'action-1',
-          nodeType: 'action',
-          result: 'executed',
-          message: 'Ação de envio de mensagem executada',
-        },
-      ];
+      // Permite simular o rascunho do Flow Builder antes de salvar
+      const simulatedCampaign = graph?.nodes ? { ...campaign, graph } : campaign;
+
+      const simulation = await interactiveCampaignSimulatorService.simulate(simulatedCampaign, inboundMessages, {
+        contactName,
+        contactPhone: from,
+        variables,
+        executeExternal: executeExternal === true,
+      });
 
       return res.json({
-        success: true,
-        executionTrace,
+        success: simulation.status !== 'ERROR',
+        ...simulation,
+        executionTrace: simulation.steps.flatMap((step) => step.visitedNodes),
         message: 'Simulação executada com sucesso',
       });
     } catch (error: any) {
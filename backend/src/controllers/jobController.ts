@@ -0,0 +1,53 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { jobQueueService } from '../services/jobQueueService';
+
+export const jobController = {
+  /**
+   * GET /api/jobs/stats
+   * Quantidade de jobs por fila e status
+   */
+  async stats(req: AuthenticatedRequest, res: Response) {
+    try {
+      const stats = await jobQueueService.getStats(req.tenantId);
+      return res.json(stats);
+    } catch (error: any) {
+      console.error('Error getting job stats:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * GET /api/jobs/dead
+   * Lista jobs na dead-letter
+   */
+  async listDead(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { queue, limit } = req.query;
+      const jobs = await jobQueueService.listDeadJobs(
+        req.tenantId,
+        queue as string | undefined,
+        limit ? parseInt(limit as string) : undefined
+      );
+      return res.json(jobs);
+    } catch (error: any) {
+      console.error('Error listing dead jobs:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * POST /api/jobs/dead/retry
+   * Devolve jobs da dead-letter para a fila (todos ou os ids informados)
+   */
+  async retryDead(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { jobIds } = req.body || {};
+      const count = await jobQueueService.retryDeadJobs(req.tenantId, Array.isArray(jobIds) ? jobIds : undefined);
+      return res.json({ success: true, count });
+    } catch (error: any) {
+      console.error('Error retrying dead jobs:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+};
@@ -0,0 +1,159 @@
+import { Response } from 'express';
+import multer from 'multer';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { optOutService } from '../services/optOutService';
+
+// Listas de supressão são pequenas: leitura direto da memória
+export const optOutUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+});
+
+function requireTenant(req: AuthenticatedRequest, res: Response): string | null {
+  if (!req.tenantId) {
+    res.status(403).json({ error: 'Tenant não identificado' });
+    return null;
+  }
+  return req.tenantId;
+}
+
+export const optOutController = {
+  /**
+   * GET /api/opt-outs
+   * Lista paginada de telefones descadastrados
+   */
+  async list(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      const { search, page = '1', pageSize = '30' } = req.query;
+      const result = await optOutService.list(tenantId, {
+        search: search as string,
+        page: parseInt(page as string),
+        pageSize: parseInt(pageSize as string),
+      });
+
+      return res.json(result);
+    } catch (error: any) {
+      console.error('Error listing opt-outs:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * POST /api/opt-outs
+   * Adiciona manualmente um telefone à lista
+   */
+  async create(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      const { phone, note } = req.body || {};
+      if (!phone) {
+        return res.status(400).json({ error: 'Telefone é obrigatório' });
+      }
+
+      const entry = await optOutService.suppress(tenantId, phone, {
+        reason: 'MANUAL',
+        note,
+        createdBy: req.user?.id,
+      });
+      return res.status(201).json(entry);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+  },
+
+  /**
+   * DELETE /api/opt-outs/:id
+   * Remove um telefone da lista (contato volta a receber mensagens)
+   */
+  async remove(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      await optOutService.remove(req.params.id, tenantId);
+      return res.status(204).send();
+    } catch (error: any) {
+      return res.status(404).json({ error: error.message });
+    }
+  },
+
+  /**
+   * POST /api/opt-outs/import
+   * Importa telefones de um arquivo CSV (campo "file")
+   */
+  async import(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      if (!req.file) {
+        return res.status(400).json({ error: 'Nenhum arquivo foi enviado' });
+      }
+
+      const result = await optOutService.importFromCsv(tenantId, req.file.buffer.toString('utf-8'), req.user?.id);
+      return res.json(result);
+    } catch (error: any) {
+      console.error('Error importing opt-outs:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * GET /api/opt-outs/export
+   * Exporta a lista completa em CSV
+   */
+  async export(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      const csv = await optOutService.exportCsv(tenantId);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="lista-supressao.csv"');
+      return res.send('\uFEFF' + csv); // BOM para o Excel reconhecer UTF-8
+    } catch (error: any) {
+      console.error('Error exporting opt-outs:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * GET /api/opt-outs/keywords
+   * Palavras que descadastram o contato quando recebidas
+   */
+  async getKeywords(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      return res.json({ keywords: await optOutService.getKeywords(tenantId) });
+    } catch (error: any) {
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * PUT /api/opt-outs/keywords
+   * Lista vazia volta para as palavras padrão
+   */
+  async updateKeywords(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      const { keywords } = req.body || {};
+      if (!Array.isArray(keywords)) {
+        return res.status(400).json({ error: 'keywords deve ser uma lista' });
+      }
+
+      return res.json({ keywords: await optOutService.updateKeywords(tenantId, keywords) });
+    } catch (error: any) {
+      return res.status(500).json({ error: error.message });
+    }
+  },
+};
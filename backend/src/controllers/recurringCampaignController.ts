@@ -0,0 +1,149 @@
+import { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { recurringCampaignService } from '../services/recurringCampaignService';
+import { DEFAULT_SENDING_TIMEZONE } from '../services/sendingWindowService';
+
+export const recurringCampaignValidation = [
+  body('nome').notEmpty().withMessage('Nome da campanha é obrigatório'),
+  body('targetTags').isArray({ min: 1 }).withMessage('Selecione pelo menos uma categoria de contatos'),
+  body('sessionNames').isArray({ min: 1 }).withMessage('Pelo menos uma sessão WhatsApp deve ser selecionada'),
+  body('messageType').isIn(['text', 'image', 'video', 'audio', 'document', 'sequence', 'openai', 'groq', 'wait', 'template', 'buttons', 'list', 'poll', 'location', 'contact', 'reaction']).withMessage('Tipo de mensagem inválido'),
+  body('messageContent').notEmpty().withMessage('Conteúdo da mensagem é obrigatório'),
+  body('randomDelay').isInt({ min: 0 }).withMessage('Delay deve ser um número positivo'),
+  body('scheduleType').isIn(['CRON', 'RRULE']).withMessage('Tipo de recorrência deve ser CRON ou RRULE'),
+  body('scheduleExpression').notEmpty().withMessage('Expressão de recorrência é obrigatória'),
+  body('startDate').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Data de início deve ser válida'),
+  body('endDate').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Data de fim deve ser válida')
+];
+
+function requireTenant(req: AuthenticatedRequest, res: Response): string | null {
+  if (!req.tenantId) {
+    res.status(403).json({ error: 'Tenant não identificado' });
+    return null;
+  }
+  return req.tenantId;
+}
+
+export const recurringCampaignController = {
+  /**
+   * GET /api/recurring-campaigns
+   */
+  async list(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      return res.json(await recurringCampaignService.list(tenantId));
+    } catch (error: any) {
+      console.error('Error listing recurring campaigns:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * GET /api/recurring-campaigns/:id
+   * Definição com histórico de execuções e métricas
+   */
+  async get(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      const definition = await recurringCampaignService.get(req.params.id, tenantId);
+      if (!definition) {
+        return res.status(404).json({ error: 'Campanha recorrente não encontrada' });
+      }
+      return res.json(definition);
+    } catch (error: any) {
+      console.error('Error getting recurring campaign:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * POST /api/recurring-campaigns/preview
+   * Próximas ocorrências de uma expressão (valida cron/RRULE antes de salvar)
+   */
+  async preview(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { scheduleType, scheduleExpression, timezone, startDate, endDate } = req.body || {};
+      const occurrences = recurringCampaignService.previewOccurrences({
+        scheduleType,
+        scheduleExpression: String(scheduleExpression || ''),
+        timezone: timezone || DEFAULT_SENDING_TIMEZONE,
+        startDate: startDate ? new Date(startDate) : new Date(),
+        endDate: endDate ? new Date(endDate) : null,
+      });
+      return res.json({ occurrences });
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+  },
+
+  /**
+   * POST /api/recurring-campaigns
+   */
+  async create(req: AuthenticatedRequest, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      const definition = await recurringCampaignService.create(tenantId, req.body, { id: req.user?.id, nome: req.user?.nome });
+      return res.status(201).json(definition);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+  },
+
+  /**
+   * PUT /api/recurring-campaigns/:id
+   * Alterações valem para as próximas execuções
+   */
+  async update(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      return res.json(await recurringCampaignService.update(req.params.id, tenantId, req.body || {}));
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+  },
+
+  /**
+   * PATCH /api/recurring-campaigns/:id/toggle
+   * Body: { active: boolean }
+   */
+  async toggle(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      return res.json(await recurringCampaignService.setActive(req.params.id, tenantId, req.body?.active !== false));
+    } catch (error: any) {
+      return res.status(404).json({ error: error.message });
+    }
+  },
+
+  /**
+   * DELETE /api/recurring-campaigns/:id
+   * As campanhas já executadas são mantidas
+   */
+  async remove(req: AuthenticatedRequest, res: Response) {
+    try {
+      const tenantId = requireTenant(req, res);
+      if (!tenantId) return;
+
+      await recurringCampaignService.remove(req.params.id, tenantId);
+      return res.status(204).send();
+    } catch (error: any) {
+      return res.status(404).json({ error: error.message });
+    }
+  },
+};
@@ -0,0 +1,168 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { sandboxService } from '../services/sandboxService';
+import { processSessionWebhook } from '../routes/incomingWebhookRoutes';
+import type { AckStatus } from '../services/whatsappProviders';
+
+const MANUAL_ACK_STATUSES: AckStatus[] = ['DELIVERED', 'READ', 'FAILED'];
+
+/**
+ * Sessão SANDBOX do tenant (SUPERADMIN acessa qualquer uma); responde 404 quando não existe
+ */
+async function findSandboxSession(req: AuthenticatedRequest, res: Response) {
+  const tenantId = req.user?.role === 'SUPERADMIN' ? undefined : req.tenantId;
+
+  const session = await prisma.whatsAppSession.findFirst({
+    where: { name: req.params.sessionName, provider: 'SANDBOX', ...(tenantId ? { tenantId } : {}) },
+  });
+
+  if (!session) {
+    res.status(404).json({ error: 'Sessão sandbox não encontrada' });
+    return null;
+  }
+  return session;
+}
+
+export const sandboxController = {
+  /**
+   * GET /api/sandbox/sessions/:sessionName/messages
+   * Caixa de saída e respostas simuladas, mais recentes primeiro
+   */
+  async listMessages(req: AuthenticatedRequest, res: Response) {
+    try {
+      const session = await findSandboxSession(req, res);
+      if (!session) return;
+
+      const { direction, phone, limit } = req.query;
+      const messages = await sandboxService.listMessages(session.id, {
+        direction: direction as string,
+        phone: phone as string,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+
+      return res.json(messages);
+    } catch (error: any) {
+      console.error('Erro ao listar mensagens do sandbox:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * DELETE /api/sandbox/sessions/:sessionName/messages
+   * Limpa a caixa de saída da sessão
+   */
+  async clearMessages(req: AuthenticatedRequest, res: Response) {
+    try {
+      const session = await findSandboxSession(req, res);
+      if (!session) return;
+
+      const deleted = await sandboxService.clearMessages(session.id);
+      return res.json({ deleted });
+    } catch (error: any) {
+      console.error('Erro ao limpar mensagens do sandbox:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * GET /api/sandbox/sessions/:sessionName/config
+   */
+  async getConfig(req: AuthenticatedRequest, res: Response) {
+    try {
+      const session = await findSandboxSession(req, res);
+      if (!session) return;
+
+      return res.json(sandboxService.getAckConfig(session));
+    } catch (error: any) {
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * PUT /api/sandbox/sessions/:sessionName/config
+   * Atrasos dos acks de entrega/leitura e taxa de falha simulada
+   */
+  async updateConfig(req: AuthenticatedRequest, res: Response) {
+    try {
+      const session = await findSandboxSession(req, res);
+      if (!session) return;
+
+      const config = await sandboxService.updateAckConfig(session.id, req.body);
+      return res.json(config);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+  },
+
+  /**
+   * POST /api/sandbox/sessions/:sessionName/inbound
+   * Simula uma mensagem do contato: { from, text, fromName?, selectionId?, media? }. Passa pelo mesmo processamento
+   * dos webhooks reais (caixa de entrada, opt-out, fluxos interativos e automações).
+   * selectionId simula a escolha de um botão, linha de lista ou opção de enquete.
+   * media simula um anexo: { type, url?, mimetype?, fileName?, latitude?, longitude? } (o texto vira a legenda).
+   */
+  async injectInbound(req: AuthenticatedRequest, res: Response) {
+    try {
+      const session = await findSandboxSession(req, res);
+      if (!session) return;
+
+      const { from, text, fromName, selectionId, media } = req.body || {};
+      if (!from || (!media && (typeof text !== 'string' || !text.trim()))) {
+        return res.status(400).json({ error: 'Telefone (from) e texto (ou mídia) são obrigatórios' });
+      }
+
+      let injected;
+      try {
+        injected = await sandboxService.recordInbound(session, {
+          from: String(from),
+          text: typeof text === 'string' ? text : '',
+          fromName,
+          selectionId: selectionId ? String(selectionId) : undefined,
+          media,
+        });
+      } catch (validationError: any) {
+        return res.status(400).json({ error: validationError.message });
+      }
+
+      const result = await processSessionWebhook(session, injected.payload);
+      return res.status(result.status).json({ message: injected.record, result: result.body });
+    } catch (error: any) {
+      console.error('Erro ao injetar mensagem no sandbox:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+
+  /**
+   * POST /api/sandbox/sessions/:sessionName/messages/:messageId/ack
+   * Gera manualmente um ack { status: DELIVERED | READ | FAILED, error? } para um envio
+   */
+  async ack(req: AuthenticatedRequest, res: Response) {
+    try {
+      const session = await findSandboxSession(req, res);
+      if (!session) return;
+
+      const { status, error } = req.body || {};
+      if (!MANUAL_ACK_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Status deve ser ${MANUAL_ACK_STATUSES.join(', ')}` });
+      }
+
+      const message = await prisma.sandboxMessage.findFirst({
+        where: { id: req.params.messageId, sessionId: session.id, direction: 'OUTBOUND' },
+      });
+      if (!message) {
+        return res.status(404).json({ error: 'Mensagem não encontrada' });
+      }
+
+      const applied = await sandboxService.emitAck(session.name, message.providerMessageId, status, error);
+      if (!applied) {
+        return res.status(409).json({ error: `Mensagem já está com status ${message.status}` });
+      }
+
+      return res.json(await prisma.sandboxMessage.findUnique({ where: { id: message.id } }));
+    } catch (error: any) {
+      console.error('Erro ao gerar ack no sandbox:', error);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+};
@@ -1,7 +1,10 @@
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { body, validationResult } from 'express-validator';
 import { settingsService } from '../services/settingsService';
 import { TenantSettingsService } from '../services/tenantSettingsService';
+import { sendingWindowService } from '../services/sendingWindowService';
+import { emailService } from '../services/emailService';
 import { AuthenticatedRequest } from '../middleware/auth';
 import multer from 'multer';
 import path from 'path';
@@ -93,6 +96,26 @@ export const settingsValidation = [
       throw new Error('API Key Evolution deve ter pelo menos 10 caracteres');
     }
     return true;
+  }),
+  body('cloudApiGraphUrl').optional().custom((value) => {
+    if (!value || value === '') return true;
+    if (!/^https?:\/\/.+/.test(value)) {
+      throw new Error('URL da Graph API deve ser uma URL válida');
+    }
+    return true;
+  }),
+  body('sendingWindow').optional({ nullable: true }).custom((value) => {
+    sendingWindowService.normalize(value);
+    return true;
+  }),
+  body('smtpPort').optional({ nullable: true, checkFalsy: true }).isInt({ min: 1, max: 65535 }).withMessage('Porta SMTP inválida'),
+  body('smtpSecure').optional().isBoolean().withMessage('smtpSecure deve ser boolean'),
+  body('smtpFrom').optional({ nullable: true, checkFalsy: true }).custom((value) => {
+    // Aceita "email@dominio" ou "Nome <email@dominio>"
+    if (!/^([^<>]*<)?[^\s@<>]+@[^\s@<>]+>?$/.test(String(value).trim())) {
+      throw new Error('Remetente SMTP inválido');
+    }
+    return true;
   })
 ];
 
@@ -128,7 +151,14 @@ export const getSettings = async (req: AuthenticatedRequest, res: Response) => {
       chatwootAccountId: tenantSettings?.chatwootAccountId || null,
       chatwootApiToken: tenantSettings?.chatwootApiToken || null,
       perfexUrl: tenantSettings?.perfexUrl || null,
-      perfexToken: tenantSettings?.perfexToken || null
+      perfexToken: tenantSettings?.perfexToken || null,
+      sendingWindow: tenantSettings?.sendingWindow || null,
+      smtpHost: tenantSettings?.smtpHost || null,
+      smtpPort: tenantSettings?.smtpPort || null,
+      smtpSecure: tenantSettings?.smtpSecure || false,
+      smtpUser: tenantSettings?.smtpUser || null,
+      smtpPassword: tenantSettings?.smtpPassword || null,
+      smtpFrom: tenantSettings?.smtpFrom || null
     };
 
     res.json(combinedSettings);
@@ -138,6 +168,26 @@ export const getSettings = async (req: AuthenticatedRequest, res: Response) => {
   }
 };
 
+// Testar conexão com o SMTP do tenant (usado pelas ações SEND_EMAIL das automações)
+export const testSmtp = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    let effectiveTenantId = req.tenantId;
+    if (req.user?.role === 'SUPERADMIN') {
+      effectiveTenantId = req.body.tenantId || req.tenantId;
+    }
+
+    if (!effectiveTenantId) {
+      return res.status(400).json({ error: 'Tenant não informado' });
+    }
+
+    await emailService.verify(effectiveTenantId);
+    res.json({ message: 'Conexão SMTP realizada com sucesso' });
+  } catch (error) {
+    console.error('Erro ao testar SMTP:', error);
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Erro ao conectar ao SMTP' });
+  }
+};
+
 // Get public settings (favicon, page title, icon and company name, no auth required)
 export const getPublicSettings = async (req: Request, res: Response) => {
   try {
@@ -162,9 +212,9 @@ export const updateSettings = async (req: AuthenticatedRequest, res: Response) =
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { wahaHost, wahaApiKey, evolutionHost, evolutionApiKey, quepasaUrl, quepasaLogin, quepasaPassword, companyName, pageTitle, openaiApiKey, groqApiKey, chatwootUrl, chatwootAccountId, chatwootApiToken, perfexUrl, perfexToken, tenantId } = req.body;
+    const { wahaHost, wahaApiKey, evolutionHost, evolutionApiKey, quepasaUrl, quepasaLogin, quepasaPassword, cloudApiGraphUrl, cloudApiAppSecret, cloudApiVerifyToken, companyName, pageTitle, openaiApiKey, groqApiKey, chatwootUrl, chatwootAccountId, chatwootApiToken, perfexUrl, perfexToken, sendingWindow, smtpHost, smtpPort, smtpSecure, smtpUser, smtpPassword, smtpFrom, tenantId } = req.body;
 
-    // Atualizar configurações globais (WAHA, Evolution, Quepasa são globais)
+    // Atualizar configurações globais (WAHA, Evolution, Quepasa e Cloud API são globais)
     const globalSettings = await settingsService.updateSettings({
       wahaHost,
       wahaApiKey,
@@ -173,6 +223,9 @@ export const updateSettings = async (req: AuthenticatedRequest, res: Response) =
       quepasaUrl,
       quepasaLogin,
       quepasaPassword,
+      cloudApiGraphUrl,
+      cloudApiAppSecret,
+      cloudApiVerifyToken,
       companyName,
       pageTitle
     });
@@ -184,9 +237,10 @@ export const updateSettings = async (req: AuthenticatedRequest, res: Response) =
       effectiveTenantId = tenantId || req.tenantId;
     }
 
-    // Atualizar configurações do tenant (APIs de IA, Chatwoot e Perfex)
+    // Atualizar configurações do tenant (APIs de IA, Chatwoot, Perfex, janela de envio e SMTP)
+    const smtpFieldsChanged = [smtpHost, smtpPort, smtpSecure, smtpUser, smtpPassword, smtpFrom].some(value => value !== undefined);
     let tenantSettings = null;
-    if (effectiveTenantId && (openaiApiKey !== undefined || groqApiKey !== undefined || chatwootUrl !== undefined || chatwootAccountId !== undefined || chatwootApiToken !== undefined || perfexUrl !== undefined || perfexToken !== undefined)) {
+    if (effectiveTenantId && (openaiApiKey !== undefined || groqApiKey !== undefined || chatwootUrl !== undefined || chatwootAccountId !== undefined || chatwootApiToken !== undefined || perfexUrl !== undefined || perfexToken !== undefined || sendingWindow !== undefined || smtpFieldsChanged)) {
       tenantSettings = await tenantSettingsService.updateTenantSettings(effectiveTenantId, {
         openaiApiKey,
         groqApiKey,
@@ -194,7 +248,15 @@ export const updateSettings = async (req: AuthenticatedRequest, res: Response) =
         chatwootAccountId,
         chatwootApiToken,
         perfexUrl,
-        perfexToken
+        perfexToken,
+        // null remove a janela padrão (campanhas voltam a enviar a qualquer hora)
+        sendingWindow: sendingWindow === undefined ? undefined : sendingWindowService.normalize(sendingWindow) ?? Prisma.DbNull,
+        smtpHost: smtpHost === undefined ? undefined : smtpHost || null,
+        smtpPort: smtpPort === undefined ? undefined : smtpPort ? Number(smtpPort) : null,
+        smtpSecure,
+        smtpUser: smtpUser === undefined ? undefined : smtpUser || null,
+        smtpPassword: smtpPassword === undefined ? undefined : smtpPassword || null,
+        smtpFrom: smtpFrom === undefined ? undefined : smtpFrom || null
       });
     }
 
@@ -207,7 +269,14 @@ export const updateSettings = async (req: AuthenticatedRequest, res: Response) =
       chatwootAccountId: tenantSettings?.chatwootAccountId || null,
       chatwootApiToken: tenantSettings?.chatwootApiToken || null,
       perfexUrl: tenantSettings?.perfexUrl || null,
-      perfexToken: tenantSettings?.perfexToken || null
+      perfexToken: tenantSettings?.perfexToken || null,
+      sendingWindow: tenantSettings?.sendingWindow || null,
+      smtpHost: tenantSettings?.smtpHost || null,
+      smtpPort: tenantSettings?.smtpPort || null,
+      smtpSecure: tenantSettings?.smtpSecure || false,
+      smtpUser: tenantSettings?.smtpUser || null,
+      smtpPassword: tenantSettings?.smtpPassword || null,
+      smtpFrom: tenantSettings?.smtpFrom || null
     };
 
     res.json({
@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { isSupportedProvider, SUPPORTED_PROVIDERS } from '../services/whatsappProviders';
 import bcrypt from 'bcryptjs';
 
 const prisma = new PrismaClient();
@@ -20,7 +21,7 @@ export class TenantController {
         // Se não há tenant, retornar todos os provedores (para superadmin sem tenant selecionado)
         return res.json({
           success: true,
-          allowedProviders: ['WAHA', 'EVOLUTION', 'QUEPASA']
+          allowedProviders: SUPPORTED_PROVIDERS
         });
       }
 
@@ -38,7 +39,7 @@ export class TenantController {
 
       res.json({
         success: true,
-        allowedProviders: tenant.allowedProviders || ['WAHA', 'EVOLUTION', 'QUEPASA']
+        allowedProviders: tenant.allowedProviders || SUPPORTED_PROVIDERS
       });
     } catch (error) {
       console.error('❌ TenantController.getAllowedProviders - erro:', error);
@@ -148,10 +149,9 @@ export class TenantController {
       }
 
       // Validar provedores permitidos (se não informado, usar todos)
-      const validProviders = ['WAHA', 'EVOLUTION', 'QUEPASA'];
       const providers = Array.isArray(allowedProviders) && allowedProviders.length > 0
-        ? allowedProviders.filter((p: string) => validProviders.includes(p))
-        : validProviders;
+        ? allowedProviders.filter(isSupportedProvider)
+        : SUPPORTED_PROVIDERS;
 
       // Gerar slug automaticamente a partir do nome
       let baseSlug = name
@@ -344,9 +344,8 @@ export class TenantController {
       }
 
       // Validar provedores permitidos se fornecido
-      const validProviders = ['WAHA', 'EVOLUTION', 'QUEPASA'];
       const providers = Array.isArray(allowedProviders)
-        ? allowedProviders.filter((p: string) => validProviders.includes(p))
+        ? allowedProviders.filter(isSupportedProvider)
         : undefined;
 
       // Usar transação para atualizar tenant e quotas
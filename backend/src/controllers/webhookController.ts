@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { connectionService } from '../services/connectionService';
 import { messageService, IncomingMessageDto } from '../services/messageService';
+import { messageAckService } from '../services/messageAckService';
 
 export const webhookController = {
   /**
@@ -40,6 +41,11 @@ export const webhookController = {
         return res.status(401).json({ error: 'Assinatura inválida' });
       }
 
+      // Confirmações de entrega/leitura atualizam o status das mensagens de campanha
+      if (await messageAckService.handleWebhookAck(connection.provider, req.body)) {
+        return res.status(200).json({ ok: true });
+      }
+
       // Normalizar mensagem de diferentes provedores
       const messageData = normalizeWebhookPayload(req.body, connection.provider);
 
@@ -53,7 +59,8 @@ export const webhookController = {
       // Salvar mensagem (com idempotência)
       const { message, isNew } = await messageService.saveMessage(
         connectionId,
-        messageData
+        messageData,
+        connection.tenantId
       );
 
       // Se mensagem nova E inbound, processar fluxos
@@ -67,6 +74,7 @@ export const webhookController = {
           messageProcessorService.processInboundMessage({
             messageId: message.id,
             connectionId,
+            tenantId: connection.tenantId,
             from: messageData.from,
             to: messageData.to,
             content: messageData.content,
@@ -112,7 +120,7 @@ function normalizeWebhookPayload(
       };
     }
 
-    // Outros eventos (status, typing, etc) - ignorar
+    // Outros eventos (typing, presença, etc) - ignorar
     return null;
   } catch (error) {
     console.error('Error normalizing webhook payload:', error);
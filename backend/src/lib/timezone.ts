@@ -0,0 +1,69 @@
+/**
+ * Conversões entre horário local de um fuso IANA e timestamps UTC (sem dependências externas)
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Data/hora local no fuso informado
+ */
+export function getZonedParts(timestamp: number, timezone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+function getOffsetMs(timestamp: number, timezone: string): number {
+  const local = getZonedParts(timestamp, timezone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return asUtc - (timestamp - (timestamp % 1000));
+}
+
+/**
+ * Converte um horário local (dia + minutos desde a meia-noite) para timestamp UTC,
+ * reajustando uma vez para cobrir mudanças de horário de verão. Horário repetido (fim do horário
+ * de verão) usa a primeira ocorrência; horário inexistente (início) avança junto com o relógio.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, minutesOfDay: number, timezone: string): number {
+  const guess = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+  const firstOffset = getOffsetMs(guess, timezone);
+  const candidate = guess - firstOffset;
+  const secondOffset = getOffsetMs(candidate, timezone);
+  if (secondOffset === firstOffset) {
+    return candidate;
+  }
+
+  const adjusted = guess - secondOffset;
+  return getOffsetMs(adjusted, timezone) === secondOffset ? adjusted : candidate;
+}
@@ -383,7 +383,8 @@ function getTriggerDescription(type: TriggerType): string {
     [TriggerType.TIME_BASED]: 'Disparado em horários específicos (cron)',
     [TriggerType.WEBHOOK_RECEIVED]: 'Disparado quando um webhook é recebido',
     [TriggerType.TAG_ADDED]: 'Disparado quando uma tag é adicionada a um contato',
-    [TriggerType.TAG_REMOVED]: 'Disparado quando uma tag é removida de um contato'
+    [TriggerType.TAG_REMOVED]: 'Disparado quando uma tag é removida de um contato',
+    [TriggerType.MESSAGE_RECEIVED]: 'Disparado quando um contato envia uma mensagem fora de um fluxo interativo (palavra-chave, regex ou sessão)'
   };
 
   return descriptions[type] || 'Descrição não disponível';
@@ -400,7 +401,8 @@ function getActionDescription(type: ActionType): string {
     [ActionType.UPDATE_CONTACT]: 'Atualizar dados do contato',
     [ActionType.CREATE_NOTIFICATION]: 'Criar notificação no sistema',
     [ActionType.DELAY]: 'Aguardar um período de tempo',
-    [ActionType.CONDITIONAL_BRANCH]: 'Executar ação condicional'
+    [ActionType.CONDITIONAL_BRANCH]: 'Executar ação condicional',
+    [ActionType.START_INTERACTIVE_CAMPAIGN]: 'Iniciar o fluxo de uma campanha interativa para o contato'
   };
 
   return descriptions[type] || 'Descrição não disponível';
@@ -427,8 +429,10 @@ function getConditionDescription(type: ConditionType): string {
 function getActionConfigSchema(type: ActionType): any {
   const schemas: { [key in ActionType]: any } = {
     [ActionType.SEND_MESSAGE]: {
-      message: { type: 'string', required: true },
-      template: { type: 'string', required: false }
+      message: { type: 'string', required: false },
+      template: { type: 'string', required: false },
+      to: { type: 'string', required: false },
+      sessionName: { type: 'string', required: false }
     },
     [ActionType.ADD_TAG]: {
       tag: { type: 'string', required: true }
@@ -442,9 +446,10 @@ function getActionConfigSchema(type: ActionType): any {
       targets: { type: 'array', required: true }
     },
     [ActionType.SEND_EMAIL]: {
-      to: { type: 'string', required: true },
+      to: { type: 'string', required: false },
       subject: { type: 'string', required: true },
-      body: { type: 'string', required: true }
+      body: { type: 'string', required: true },
+      isHtml: { type: 'boolean', required: false }
     },
     [ActionType.WEBHOOK_CALL]: {
       url: { type: 'string', required: true },
@@ -466,6 +471,9 @@ function getActionConfigSchema(type: ActionType): any {
       conditions: { type: 'array', required: true },
       trueActions: { type: 'array', required: true },
       falseActions: { type: 'array', required: false }
+    },
+    [ActionType.START_INTERACTIVE_CAMPAIGN]: {
+      campaignId: { type: 'string', required: true }
     }
   };
 
@@ -6,6 +6,7 @@ import {
   updateCampaign,
   deleteCampaign,
   toggleCampaign,
+  retryFailedMessages,
   getCampaignReport,
   downloadCampaignReport,
   getContactTags,
@@ -28,5 +29,6 @@ router.post('/', authMiddleware, campaignValidation, checkCampaignQuota, createC
 router.put('/:id', authMiddleware, updateCampaign);
 router.delete('/:id', authMiddleware, deleteCampaign);
 router.patch('/:id/toggle', authMiddleware, toggleCampaign);
+router.post('/:id/retry-failed', authMiddleware, retryFailedMessages);
 
 export default router;
\ No newline at end of file
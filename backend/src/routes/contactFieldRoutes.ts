@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { ContactFieldController } from '../controllers/contactFieldController';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+// Apply authentication middleware to all contact field routes
+router.use(authMiddleware);
+
+router.get('/', ContactFieldController.getFields);
+router.post('/', ContactFieldController.createField);
+router.put('/:id', ContactFieldController.updateField);
+router.delete('/:id', ContactFieldController.deleteField);
+
+export { router as contactFieldRoutes };
@@ -11,7 +11,8 @@ const contactValidation = [
   body('email').optional().isEmail().withMessage('Email deve ter formato válido'),
   body('tags').optional().isArray().withMessage('Tags deve ser um array'),
   body('observacoes').optional().isString(),
-  body('categoriaId').optional().isString().withMessage('CategoriaId deve ser uma string')
+  body('categoriaId').optional().isString().withMessage('CategoriaId deve ser uma string'),
+  body('customFields').optional().isObject().withMessage('Campos personalizados devem ser um objeto')
 ];
 
 router.get('/', ContactController.getContacts);
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { conversationController } from '../controllers/conversationController';
+
+const router = Router();
+
+router.get('/', conversationController.list);
+router.get('/:phone/messages', conversationController.getMessages);
+router.post('/:phone/messages', conversationController.reply);
+router.post('/:phone/read', conversationController.markAsRead);
+
+export default router;
@@ -3,8 +3,13 @@ import { CSVImportController, upload } from '../controllers/csvImportController'
 
 const router = Router();
 
-// Rota para importar contatos via CSV
-router.post('/import', upload.single('csv'), CSVImportController.importContacts);
+// Importação em duas etapas: upload com pré-visualização -> mapeamento e início do processamento
+router.get('/imports', CSVImportController.listImports);
+router.post('/imports', upload.single('csv'), CSVImportController.uploadImport);
+router.get('/imports/:id', CSVImportController.getImport);
+router.post('/imports/:id/start', CSVImportController.startImport);
+router.delete('/imports/:id', CSVImportController.cancelImport);
+router.get('/imports/:id/errors', CSVImportController.downloadErrorReport);
 
 // Rota para baixar template CSV
 router.get('/template', CSVImportController.downloadTemplate);
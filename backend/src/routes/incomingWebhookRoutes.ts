@@ -1,11 +1,176 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, WhatsAppSession } from '@prisma/client';
 import crypto from 'crypto';
 import { interactiveCampaignFlowEngine } from '../services/interactiveCampaignFlowEngine';
+import { messageAckService } from '../services/messageAckService';
+import { conversationService } from '../services/conversationService';
+import { optOutService } from '../services/optOutService';
+import { domainEvents } from '../services/domainEventService';
+import { getProvider, isSupportedProvider } from '../services/whatsappProviders';
+import { verifyCloudApiSignature, splitCloudApiWebhook } from '../services/whatsappProviders/cloudApiProvider';
+import { settingsService } from '../services/settingsService';
+import { inboundMediaService, ReceivedMedia } from '../services/inboundMediaService';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+export interface WebhookOutcome {
+  status: number;
+  body: any;
+}
+
+function outcome(status: number, body: any): WebhookOutcome {
+  return { status, body };
+}
+
+/**
+ * Processa um evento de webhook de uma sessão: acks, caixa de entrada, opt-out, fluxo interativo e automações.
+ * Também usado pelo sandbox para injetar respostas simuladas de contatos.
+ */
+export async function processSessionWebhook(session: WhatsAppSession, payload: any): Promise<WebhookOutcome> {
+  // Verificar se campanha interativa está habilitada
+  if (!session.interactiveCampaignEnabled) {
+    console.warn(`[WEBHOOK-INCOMING] ⚠️ interactiveCampaignEnabled=false para sessão ${session.id} (${session.name}). Ativando automaticamente...`);
+    // Ativar automaticamente ao receber primeiro webhook válido
+    try {
+      await prisma.whatsAppSession.update({
+        where: { id: session.id },
+        data: { interactiveCampaignEnabled: true },
+      });
+      console.log(`[WEBHOOK-INCOMING] ✅ interactiveCampaignEnabled ativado automaticamente para sessão ${session.name}`);
+    } catch (updateError: any) {
+      console.error(`[WEBHOOK-INCOMING] ❌ Erro ao ativar interactiveCampaignEnabled: ${updateError.message}`);
+    }
+  }
+
+  console.log(`✅ Webhook válido para sessão: ${session.name} (${session.displayName})`);
+
+  // Confirmações de entrega/leitura atualizam o status das mensagens de campanha
+  const isAck = await messageAckService.handleWebhookAck(session.provider, payload);
+  if (isAck) {
+    console.log(`[WEBHOOK-INCOMING] 📬 Ack processado - event: ${payload?.event || payload?.type || 'unknown'}`);
+    return outcome(200, { success: true, message: 'Ack processed' });
+  }
+
+  // Interpretar a mensagem pelo adaptador do provider da sessão
+  if (!isSupportedProvider(session.provider)) {
+    console.error(`❌ Provider desconhecido: ${session.provider}`);
+    return outcome(400, { error: 'Unknown provider' });
+  }
+
+  const messageData = getProvider(session.provider).parseInbound(payload);
+
+  if (!messageData) {
+    console.warn(`[WEBHOOK-INCOMING] ⚠️ Payload não reconhecido - event: ${payload?.event}, keys: ${Object.keys(payload || {}).join(',')}`);
+    return outcome(200, { message: 'Message ignored' });
+  }
+
+  console.log(`[WEBHOOK-INCOMING] 📝 Mensagem extraída - from: ${messageData.fromNumber}, fromMe: ${messageData.isFromMe}, content: "${(messageData.content || '').substring(0, 50)}"`);
+
+  // Ignorar mensagens enviadas pelo bot (isFromMe = true)
+  if (messageData.isFromMe) {
+    console.log(`[WEBHOOK-INCOMING] ⏭️ Ignorando mensagem do bot (fromMe=true)`);
+    return outcome(200, {
+      success: true,
+      message: 'Message from bot ignored',
+    });
+  }
+
+  // Registrar mensagem na conversa do contato (caixa de entrada)
+  let isNewMessage = true;
+  let recordedMessageId: string | null = null;
+  try {
+    const recorded = await conversationService.recordInbound({
+      session,
+      providerMessageId: messageData.messageId,
+      fromNumber: messageData.fromNumber,
+      type: messageData.type,
+      content: messageData.content,
+      timestamp: messageData.timestamp,
+      raw: payload,
+    });
+    isNewMessage = recorded.isNew;
+    recordedMessageId = recorded.message.id;
+  } catch (recordError: any) {
+    console.error(`[WEBHOOK-INCOMING] ⚠️ Erro ao registrar mensagem na conversa: ${recordError.message}`);
+  }
+
+  // Palavra de descadastro: adicionar à lista de supressão e não seguir com o fluxo
+  try {
+    if (await optOutService.handleInboundMessage(session.tenantId, messageData.fromNumber, messageData.content)) {
+      return outcome(200, { success: true, message: 'Opt-out registered' });
+    }
+  } catch (optOutError: any) {
+    console.error(`[WEBHOOK-INCOMING] ⚠️ Erro ao verificar opt-out: ${optOutError.message}`);
+  }
+
+  // Mídia recebida: baixar para o armazenamento do tenant só na primeira entrega do webhook
+  let media: ReceivedMedia | null = null;
+  if (messageData.media) {
+    media = isNewMessage
+      ? await inboundMediaService.store(session, messageData)
+      : inboundMediaService.describe(messageData.media);
+  }
+
+  // Processar mensagem no flow engine
+  console.log(`[WEBHOOK-INCOMING] 🔄 Chamando flow engine para ${messageData.fromNumber}...`);
+  try {
+    const result = await interactiveCampaignFlowEngine.processIncomingMessage({
+      contactPhone: messageData.fromNumber,
+      messageContent: messageData.content,
+      selectionId: messageData.selectionId,
+      media,
+      sessionId: session.id,
+    });
+
+    console.log(`[WEBHOOK-INCOMING] ✅ Flow engine result:`, JSON.stringify(result));
+
+    // Fora de uma sessão interativa: automações por mensagem recebida (ex.: bots por palavra-chave)
+    if (!result.processed && isNewMessage && session.tenantId) {
+      const contact = await conversationService.findContactByPhone(session.tenantId, messageData.fromNumber);
+      domainEvents.publish('MESSAGE_RECEIVED', {
+        tenantId: session.tenantId,
+        contactId: contact?.id || null,
+        contactPhone: conversationService.normalizePhone(messageData.fromNumber),
+        contactName: contact?.nome || null,
+        sessionName: session.name,
+        content: messageData.content || '',
+        messageType: messageData.type || 'text',
+        messageId: recordedMessageId,
+        timestamp: new Date(),
+      });
+    }
+
+    return outcome(200, {
+      success: true,
+      message: 'Webhook received and processed',
+      sessionName: session.name,
+      provider: session.provider,
+      flowResult: result,
+    });
+  } catch (flowError: any) {
+    console.error(`❌ Error processing flow:`, flowError);
+    // Retornar 200 mesmo com erro para não fazer o provider reenviar
+    return outcome(200, {
+      success: true,
+      message: 'Webhook received but flow processing failed',
+      error: flowError.message,
+    });
+  }
+}
+
+/**
+ * Compara o segredo da URL com o da sessão em tempo constante; sessões sem segredo não aceitam webhooks
+ */
+function isValidWebhookSecret(expected: string | null, received: string): boolean {
+  if (!expected || !received) {
+    return false;
+  }
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
 /**
  * Endpoint para receber webhooks de mensagens dos providers
  * URL: /api/webhooks/incoming/:sessionId/:webhookSecret
@@ -27,92 +192,14 @@ router.post('/incoming/:sessionId/:webhookSecret', async (req: Request, res: Res
       return res.status(404).json({ error: 'Session not found' });
     }
 
-    // Validar webhook secret (temporariamente desabilitado para debug)
-    // if (session.webhookSecret !== webhookSecret) {
-    //   console.error(`❌ Webhook secret inválido para sessão: ${sessionId}`);
-    //   console.error(`Expected: ${session.webhookSecret}, Got: ${webhookSecret}`);
-    //   return res.status(401).json({ error: 'Invalid webhook secret' });
-    // }
-
-    // Verificar se campanha interativa está habilitada
-    if (!session.interactiveCampaignEnabled) {
-      console.warn(`[WEBHOOK-INCOMING] ⚠️ interactiveCampaignEnabled=false para sessão ${sessionId} (${session.name}). Ativando automaticamente...`);
-      // Ativar automaticamente ao receber primeiro webhook válido
-      try {
-        await prisma.whatsAppSession.update({
-          where: { id: sessionId },
-          data: { interactiveCampaignEnabled: true },
-        });
-        console.log(`[WEBHOOK-INCOMING] ✅ interactiveCampaignEnabled ativado automaticamente para sessão ${session.name}`);
-      } catch (updateError: any) {
-        console.error(`[WEBHOOK-INCOMING] ❌ Erro ao ativar interactiveCampaignEnabled: ${updateError.message}`);
-      }
-    }
-
-    console.log(`✅ Webhook válido para sessão: ${session.name} (${session.displayName})`);
-
-    // Processar mensagem baseado no provider
-    let messageData;
-
-    switch (session.provider) {
-      case 'EVOLUTION':
-        messageData = extractEvolutionMessage(payload);
-        break;
-      case 'WAHA':
-        messageData = extractWahaMessage(payload);
-        break;
-      case 'QUEPASA':
-        messageData = extractQuepasaMessage(payload);
-        break;
-      default:
-        console.error(`❌ Provider desconhecido: ${session.provider}`);
-        return res.status(400).json({ error: 'Unknown provider' });
-    }
-
-    if (!messageData) {
-      console.warn(`[WEBHOOK-INCOMING] ⚠️ Payload não reconhecido - event: ${payload?.event}, keys: ${Object.keys(payload || {}).join(',')}`);
-      return res.status(200).json({ message: 'Message ignored' });
-    }
-
-    console.log(`[WEBHOOK-INCOMING] 📝 Mensagem extraída - from: ${messageData.fromNumber}, fromMe: ${messageData.isFromMe}, content: "${(messageData.content || '').substring(0, 50)}"`);
-
-    // Ignorar mensagens enviadas pelo bot (isFromMe = true)
-    if (messageData.isFromMe) {
-      console.log(`[WEBHOOK-INCOMING] ⏭️ Ignorando mensagem do bot (fromMe=true)`);
-      return res.status(200).json({
-        success: true,
-        message: 'Message from bot ignored',
-      });
-    }
-
-    // Processar mensagem no flow engine
-    console.log(`[WEBHOOK-INCOMING] 🔄 Chamando flow engine para ${messageData.fromNumber}...`);
-    try {
-      const result = await interactiveCampaignFlowEngine.processIncomingMessage({
-        contactPhone: messageData.fromNumber,
-        messageContent: messageData.content,
-        sessionId: session.id,
-      });
-
-      console.log(`[WEBHOOK-INCOMING] ✅ Flow engine result:`, JSON.stringify(result));
-
-      res.status(200).json({
-        success: true,
-        message: 'Webhook received and processed',
-        sessionName: session.name,
-        provider: session.provider,
-        flowResult: result,
-      });
-    } catch (flowError: any) {
-      console.error(`❌ Error processing flow:`, flowError);
-      // Retornar 200 mesmo com erro para não fazer o provider reenviar
-      res.status(200).json({
-        success: true,
-        message: 'Webhook received but flow processing failed',
-        error: flowError.message,
-      });
+    // Validar webhook secret: acks, opt-outs e respostas alteram dados e não podem ser forjados por quem só conhece o id da sessão
+    if (!isValidWebhookSecret(session.webhookSecret, webhookSecret)) {
+      console.error(`❌ Webhook secret inválido para sessão: ${sessionId}`);
+      return res.status(401).json({ error: 'Invalid webhook secret' });
     }
 
+    const result = await processSessionWebhook(session, payload);
+    res.status(result.status).json(result.body);
   } catch (error) {
     console.error('❌ Erro ao processar webhook:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -120,120 +207,69 @@ router.post('/incoming/:sessionId/:webhookSecret', async (req: Request, res: Res
 });
 
 /**
- * Extrai dados de mensagem do payload da Evolution API
+ * Verificação do webhook da WhatsApp Cloud API (Meta): ecoa o hub.challenge quando o verify token confere
+ * URL: /api/webhooks/cloud-api
  */
-function extractEvolutionMessage(payload: any) {
+router.get('/cloud-api', async (req: Request, res: Response) => {
   try {
-    // Evolution API format: { event: 'messages.upsert', data: { ... } }
-    if (payload.event === 'messages.upsert' && payload.data) {
-      const message = payload.data;
-      return {
-        messageId: message.key?.id,
-        from: message.key?.remoteJid,
-        fromNumber: message.key?.remoteJid?.split('@')[0],
-        timestamp: message.messageTimestamp,
-        type: message.messageType || 'text',
-        content: message.message?.conversation ||
-                 message.message?.extendedTextMessage?.text ||
-                 message.message?.imageMessage?.caption ||
-                 '',
-        isFromMe: message.key?.fromMe || false,
-        raw: payload
-      };
-    }
-    return null;
-  } catch (error) {
-    console.error('Erro ao extrair mensagem Evolution:', error);
-    return null;
-  }
-}
+    const { verifyToken } = await settingsService.getCloudApiConfig();
 
-/**
- * Extrai dados de mensagem do payload da WAHA
- */
-function extractWahaMessage(payload: any) {
-  try {
-    // WAHA format: { event: 'message.any', session: '...', payload: { ... } }
-    if (payload.event === 'message.any' && payload.payload) {
-      const message = payload.payload;
-      return {
-        messageId: message.id,
-        from: message.from,
-        fromNumber: message.from?.split('@')[0],
-        timestamp: message.timestamp,
-        type: message.type || 'text',
-        content: message.body || message.caption || '',
-        isFromMe: message.fromMe || false,
-        raw: payload
-      };
+    if (req.query['hub.mode'] === 'subscribe' && verifyToken && req.query['hub.verify_token'] === verifyToken) {
+      console.log('[WEBHOOK-CLOUD-API] ✅ Webhook verificado pela Meta');
+      return res.status(200).send(String(req.query['hub.challenge'] || ''));
     }
-    return null;
+
+    console.warn('[WEBHOOK-CLOUD-API] ⚠️ Verify token inválido na verificação do webhook');
+    res.status(403).json({ error: 'Invalid verify token' });
   } catch (error) {
-    console.error('Erro ao extrair mensagem WAHA:', error);
-    return null;
+    console.error('❌ Erro na verificação do webhook Cloud API:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-}
+});
 
 /**
- * Extrai dados de mensagem do payload do QuePasa
- *
- * Formato real do QuePasa:
- * {
- *   "id": "3EB08C1240B8974B5F48B6",
- *   "timestamp": "2025-12-10T09:24:19...",
- *   "type": "text",
- *   "chat": {
- *     "id": "556196878959@s.whatsapp.net",
- *     "phone": "+556196878959",
- *     "title": "Raphael"
- *   },
- *   "text": "oi",
- *   "fromme": false,
- *   "frominternal": false,
- *   "wid": "556793363369:3@s.whatsapp.net"
- * }
+ * Webhook único do app da Meta para mensagens e status de todos os números.
+ * A assinatura X-Hub-Signature-256 é validada com o App Secret e cada evento é roteado
+ * para a sessão pelo phone_number_id.
  */
-function extractQuepasaMessage(payload: any) {
+router.post('/cloud-api', async (req: Request, res: Response) => {
   try {
-    // Formato direto do QuePasa (novo formato)
-    if (payload.chat && payload.id) {
-      const fromNumber = payload.chat.phone
-        ? payload.chat.phone.replace(/\D/g, '') // Remove +, -, espaços
-        : payload.chat.id?.split('@')[0];
-
-      return {
-        messageId: payload.id,
-        from: payload.chat.id,
-        fromNumber: fromNumber,
-        timestamp: payload.timestamp || Date.now(),
-        type: payload.type || 'text',
-        content: payload.text || payload.caption || '',
-        isFromMe: payload.fromme === true || payload.frominternal === true,
-        raw: payload
-      };
+    const { appSecret } = await settingsService.getCloudApiConfig();
+    const rawBody = (req as any).rawBody || JSON.stringify(req.body || {});
+
+    if (!verifyCloudApiSignature(rawBody, req.get('X-Hub-Signature-256'), appSecret)) {
+      console.error('[WEBHOOK-CLOUD-API] ❌ Assinatura inválida');
+      return res.status(401).json({ error: 'Invalid signature' });
     }
 
-    // Formato antigo (fallback): { message: { ... }, source: { ... } }
-    if (payload.message) {
-      const message = payload.message;
-      return {
-        messageId: message.id,
-        from: message.wid || message.chatId,
-        fromNumber: (message.wid || message.chatId)?.split('@')[0],
-        timestamp: message.timestamp || Date.now(),
-        type: message.type || 'text',
-        content: message.text || message.caption || '',
-        isFromMe: message.fromme === true,
-        raw: payload
-      };
+    const events = splitCloudApiWebhook(req.body);
+    console.log(`[WEBHOOK-CLOUD-API] 📨 ${events.length} evento(s) recebido(s)`);
+
+    let processed = 0;
+    for (const event of events) {
+      const session = await prisma.whatsAppSession.findUnique({
+        where: { cloudPhoneNumberId: event.phoneNumberId }
+      });
+
+      if (!session) {
+        console.warn(`[WEBHOOK-CLOUD-API] ⚠️ Nenhuma sessão para o phone_number_id ${event.phoneNumberId}`);
+        continue;
+      }
+
+      try {
+        await processSessionWebhook(session, event.payload);
+        processed++;
+      } catch (eventError: any) {
+        // Um evento com erro não deve fazer a Meta reenviar os demais
+        console.error(`[WEBHOOK-CLOUD-API] ❌ Erro ao processar evento da sessão ${session.name}: ${eventError.message}`);
+      }
     }
 
-    console.warn('⚠️ Formato de payload QuePasa não reconhecido:', JSON.stringify(payload, null, 2));
-    return null;
+    res.status(200).json({ success: true, processed });
   } catch (error) {
-    console.error('Erro ao extrair mensagem QuePasa:', error);
-    return null;
+    console.error('❌ Erro ao processar webhook Cloud API:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-}
+});
 
 export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { jobController } from '../controllers/jobController';
+
+const router = Router();
+
+router.get('/stats', jobController.stats);
+router.get('/dead', jobController.listDead);
+router.post('/dead/retry', jobController.retryDead);
+
+export default router;
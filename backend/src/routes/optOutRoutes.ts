@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { optOutController, optOutUpload } from '../controllers/optOutController';
+
+const router = Router();
+
+router.get('/', optOutController.list);
+router.post('/', optOutController.create);
+router.get('/export', optOutController.export);
+router.post('/import', optOutUpload.single('file'), optOutController.import);
+router.get('/keywords', optOutController.getKeywords);
+router.put('/keywords', optOutController.updateKeywords);
+router.delete('/:id', optOutController.remove);
+
+export default router;
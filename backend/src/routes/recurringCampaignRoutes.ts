@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { recurringCampaignController, recurringCampaignValidation } from '../controllers/recurringCampaignController';
+
+const router = Router();
+
+router.get('/', recurringCampaignController.list);
+router.post('/', recurringCampaignValidation, recurringCampaignController.create);
+router.post('/preview', recurringCampaignController.preview);
+router.get('/:id', recurringCampaignController.get);
+router.put('/:id', recurringCampaignController.update);
+router.patch('/:id/toggle', recurringCampaignController.toggle);
+router.delete('/:id', recurringCampaignController.remove);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { sandboxController } from '../controllers/sandboxController';
+
+const router = Router();
+
+router.get('/sessions/:sessionName/messages', sandboxController.listMessages);
+router.delete('/sessions/:sessionName/messages', sandboxController.clearMessages);
+router.post('/sessions/:sessionName/messages/:messageId/ack', sandboxController.ack);
+router.post('/sessions/:sessionName/inbound', sandboxController.injectInbound);
+router.get('/sessions/:sessionName/config', sandboxController.getConfig);
+router.put('/sessions/:sessionName/config', sandboxController.updateConfig);
+
+export default router;
@@ -9,6 +9,7 @@ import {
   removeFavicon,
   uploadIcon,
   removeIcon,
+  testSmtp,
   settingsValidation
 } from '../controllers/settingsController';
 import { authMiddleware } from '../middleware/auth';
@@ -24,6 +25,9 @@ router.get('/', authMiddleware, getSettings);
 // PUT /api/settings - Atualizar configurações (protegida)
 router.put('/', authMiddleware, settingsValidation, updateSettings);
 
+// POST /api/settings/smtp/test - Testar conexão SMTP do tenant (protegida)
+router.post('/smtp/test', authMiddleware, testSmtp);
+
 // POST /api/settings/logo - Upload de logo (protegida)
 router.post('/logo', authMiddleware, uploadLogo);
 
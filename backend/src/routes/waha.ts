@@ -9,15 +9,12 @@ import { Response } from 'express';
 import { checkConnectionQuota } from '../middleware/quotaMiddleware';
 import { prisma } from '../lib/prisma';
 import { wahaRequest } from '../lib/wahaRequest';
+import { sessionRateLimitService } from '../services/sessionRateLimitService';
+import { getProvider, isSupportedProvider, SUPPORTED_PROVIDERS, QrCodeUnavailableError, QR_CODE_TTL_MS, WhatsAppProviderName } from '../services/whatsappProviders';
 
 const fetch = require('node-fetch');
 const crypto = require('crypto');
 
-// Função para gerar token aleatório para sessões Quepasa
-function generateQuepasaToken(): string {
-  return crypto.randomBytes(32).toString('hex');
-}
-
 // Função para gerar webhook secret para campanhas interativas
 function generateWebhookSecret(): string {
   return crypto.randomBytes(32).toString('hex');
@@ -405,6 +402,49 @@ router.post('/sessions/sync', authMiddleware, async (req: AuthenticatedRequest,
   }
 });
 
+// Orçamento de envio (limites e consumo) das sessões do tenant
+router.get('/rate-limits', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await sessionRateLimitService.getBudgets(req.tenantId));
+  } catch (error) {
+    console.error('Erro ao obter limites de envio:', error);
+    res.status(500).json({ error: 'Erro ao obter limites de envio das sessões' });
+  }
+});
+
+// Configurar limites de envio e plano de aquecimento de uma sessão
+router.put('/sessions/:sessionName/rate-limit', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sessionName } = req.params;
+    const tenantId = req.user?.role === 'SUPERADMIN' ? undefined : req.tenantId;
+
+    const session = await prisma.whatsAppSession.findFirst({
+      where: { name: sessionName, ...(tenantId ? { tenantId } : {}) },
+      select: { id: true, warmupPlan: true, warmupStartedAt: true }
+    });
+
+    if (!session) {
+      return res.status(404).json({ error: 'Sessão não encontrada' });
+    }
+
+    let data;
+    try {
+      data = sessionRateLimitService.normalizeLimits(req.body, session);
+    } catch (validationError: any) {
+      return res.status(400).json({ error: validationError.message });
+    }
+
+    await prisma.whatsAppSession.update({ where: { id: session.id }, data });
+    console.log(`✅ Limites de envio atualizados para a sessão ${sessionName}`);
+
+    const budgets = await sessionRateLimitService.getBudgets(tenantId);
+    res.json(budgets.find(budget => budget.sessionName === sessionName) || null);
+  } catch (error) {
+    console.error('Erro ao atualizar limites de envio:', error);
+    res.status(500).json({ error: 'Erro ao atualizar limites de envio da sessão' });
+  }
+});
+
 // Obter informações de uma sessão específica
 router.get('/sessions/:sessionName', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -503,8 +543,15 @@ router.post('/sessions', authMiddleware, checkConnectionQuota, async (req: Authe
       return res.status(400).json({ error: 'Nome da sessão é obrigatório' });
     }
 
-    if (!['WAHA', 'EVOLUTION', 'QUEPASA'].includes(provider)) {
-      return res.status(400).json({ error: 'Provedor deve ser WAHA, EVOLUTION ou QUEPASA' });
+    if (!isSupportedProvider(provider)) {
+      return res.status(400).json({ error: `Provedor deve ser ${SUPPORTED_PROVIDERS.join(', ')}` });
+    }
+
+    // WhatsApp Cloud API: sessão identificada pelo ID do número e autenticada pelo token do System User
+    const cloudPhoneNumberId = provider === 'CLOUD_API' ? String(req.body.cloudPhoneNumberId || '').trim() : '';
+    const cloudAccessToken = provider === 'CLOUD_API' ? String(req.body.cloudAccessToken || '').trim() : '';
+    if (provider === 'CLOUD_API' && (!cloudPhoneNumberId || !cloudAccessToken)) {
+      return res.status(400).json({ error: 'ID do número e token de acesso são obrigatórios para a WhatsApp Cloud API' });
     }
 
     // Usar tenantId do usuário autenticado (SUPERADMIN pode especificar tenant no body se necessário)
@@ -532,7 +579,16 @@ router.post('/sessions', authMiddleware, checkConnectionQuota, async (req: Authe
       return res.status(409).json({ error: 'Já existe uma conexão com este nome' });
     }
 
-    let result;
+    if (cloudPhoneNumberId) {
+      const existingNumber = await prisma.whatsAppSession.findUnique({
+        where: { cloudPhoneNumberId }
+      });
+
+      if (existingNumber) {
+        return res.status(409).json({ error: 'Este número da Cloud API já está conectado em outra sessão' });
+      }
+    }
+
     let webhookSecret: string | undefined;
     let webhookUrl: string | undefined;
 
@@ -542,123 +598,32 @@ router.post('/sessions', authMiddleware, checkConnectionQuota, async (req: Authe
       console.log(`🔑 Webhook secret gerado para sessão ${realName}: ${webhookSecret.substring(0, 16)}...`);
     }
 
-    if (provider === 'EVOLUTION') {
-      const { evolutionApiService } = await import('../services/evolutionApiService');
-
-      // Se campanha interativa habilitada, construir URL do webhook
-      // Nota: sessionId será gerado após criar a sessão no banco
-      const tempSession = await prisma.whatsAppSession.create({
-        data: {
-          name: realName,
-          displayName,
-          status: 'SCAN_QR_CODE',
-          provider: 'EVOLUTION',
-          tenantId,
-          interactiveCampaignEnabled,
-          webhookSecret
-        }
-      });
-
-      if (interactiveCampaignEnabled && webhookSecret) {
-        const baseUrl = await settingsService.getAppBaseUrl();
-        webhookUrl = `${baseUrl}/api/webhooks/incoming/${tempSession.id}/${webhookSecret}`;
-        console.log(`🔗 Webhook URL para Evolution: ${webhookUrl}`);
-      }
-
-      result = await evolutionApiService.createInstance(realName, webhookUrl);
-
-      // Extrair QR code da resposta da criação (se disponível)
-      let qrCode: string | undefined;
-      let qrExpiresAt: Date | undefined;
-
-      if (result.qrcode?.base64) {
-        // QR code veio na resposta
-        qrCode = result.qrcode.base64.startsWith('data:image/')
-          ? result.qrcode.base64
-          : `data:image/png;base64,${result.qrcode.base64}`;
-        qrExpiresAt = new Date(Date.now() + 300000); // 5 minutos
-        console.log(`✅ QR Code Evolution recebido na criação para ${realName}`);
-      }
-
-      // Atualizar sessão com QR code
-      await WhatsAppSessionService.createOrUpdateSession({
+    // Criar a sessão no banco primeiro: o ID faz parte da URL do webhook
+    const createdSession = await prisma.whatsAppSession.create({
+      data: {
         name: realName,
         displayName,
-        status: 'SCAN_QR_CODE',
-        provider: 'EVOLUTION',
+        status: 'STOPPED',
+        provider,
         tenantId,
-        qr: qrCode,
-        qrExpiresAt: qrExpiresAt,
         interactiveCampaignEnabled,
-        webhookSecret
-      });
-    } else if (provider === 'QUEPASA') {
-      // Quepasa - criar sessão e gerar token único
-      // O QR code será gerado quando o usuário clicar para conectar
-      const quepasaToken = generateQuepasaToken();
-      console.log(`🔑 Token único gerado para sessão QuePasa ${realName}: ${quepasaToken.substring(0, 16)}...`);
-
-      // Primeiro criar sessão no banco para obter o ID
-      const tempSession = await prisma.whatsAppSession.create({
-        data: {
-          name: realName,
-          displayName,
-          status: 'STOPPED',
-          provider: 'QUEPASA',
-          tenantId,
-          quepasaToken,
-          interactiveCampaignEnabled,
-          webhookSecret
-        }
-      });
-
-      // Se campanha interativa habilitada, gerar webhook URL
-      if (interactiveCampaignEnabled && webhookSecret) {
-        const baseUrl = await settingsService.getAppBaseUrl();
-        webhookUrl = `${baseUrl}/api/webhooks/incoming/${tempSession.id}/${webhookSecret}`;
-        console.log(`🔗 Webhook URL para QuePasa: ${webhookUrl}`);
-
-        // Nota: O webhook será configurado na API QuePasa quando a sessão conectar (status WORKING)
-        // porque precisamos do token válido e sessão ativa
-      }
-
-      result = { name: realName, status: 'STOPPED', provider: 'QUEPASA', token: quepasaToken, webhookUrl };
-
-    } else {
-      // WAHA (comportamento original)
-      // Se campanha interativa habilitada, criar sessão primeiro para obter ID
-      const tempSession = await prisma.whatsAppSession.create({
-        data: {
-          name: realName,
-          displayName,
-          status: 'SCAN_QR_CODE',
-          provider: 'WAHA',
-          tenantId,
-          interactiveCampaignEnabled,
-          webhookSecret
-        }
-      });
-
-      if (interactiveCampaignEnabled && webhookSecret) {
-        const baseUrl = await settingsService.getAppBaseUrl();
-        webhookUrl = `${baseUrl}/api/webhooks/incoming/${tempSession.id}/${webhookSecret}`;
-        console.log(`🔗 Webhook URL para WAHA: ${webhookUrl}`);
+        webhookSecret,
+        ...(cloudPhoneNumberId && {
+          cloudPhoneNumberId,
+          cloudAccessToken,
+          cloudWabaId: String(req.body.cloudWabaId || '').trim() || null
+        })
       }
+    });
 
-      result = await WahaSyncService.createSession(realName, webhookUrl);
-
-      // Atualizar sessão
-      await WhatsAppSessionService.createOrUpdateSession({
-        name: realName,
-        displayName,
-        status: 'SCAN_QR_CODE',
-        provider: 'WAHA',
-        tenantId,
-        interactiveCampaignEnabled,
-        webhookSecret
-      });
+    if (interactiveCampaignEnabled && webhookSecret) {
+      const baseUrl = await settingsService.getAppBaseUrl();
+      webhookUrl = `${baseUrl}/api/webhooks/incoming/${createdSession.id}/${webhookSecret}`;
+      console.log(`🔗 Webhook URL para ${provider}: ${webhookUrl}`);
     }
 
+    const result = await getProvider(provider).createSession(createdSession, webhookUrl);
+
     console.log('✅ Sessão criada:', realName, '(display:', displayName, ') tenant:', tenantId);
 
     res.json(result);
@@ -677,148 +642,18 @@ router.post('/sessions/:sessionName/start', authMiddleware, async (req: Authenti
     // SUPERADMIN pode iniciar qualquer sessão, outros usuários só do seu tenant
     const tenantId = req.user?.role === 'SUPERADMIN' ? undefined : req.tenantId;
 
-    // Verificar o provedor da sessão
-    let sessionProvider = 'WAHA'; // Default para WAHA (compatibilidade)
     let sessionData: any;
     try {
       sessionData = await WhatsAppSessionService.getSession(sessionName, tenantId);
-      sessionProvider = sessionData.provider || 'WAHA';
     } catch (error) {
       console.error('❌ Sessão não encontrada ou não pertence ao tenant:', error);
       return res.status(404).json({ error: 'Sessão não encontrada' });
     }
 
-    console.log(`▶️ Iniciando sessão ${sessionName} via ${sessionProvider}`);
-
-    let result;
-    if (sessionProvider === 'EVOLUTION') {
-      // Verificar se sessão tem credenciais customizadas (importada de Evolution externa)
-      const customCreds = getEvolutionCredentialsFromSession(sessionData);
-
-      try {
-        let qrCodeData: string;
-
-        if (customCreds) {
-          // Sessão importada: usar credenciais customizadas
-          console.log(`🔄 Conectando instância Evolution importada ${sessionName} (${customCreds.url})...`);
-          const connectRes = await evolutionRequestWithCredentials(
-            customCreds.url,
-            customCreds.apiKey,
-            `/instance/connect/${sessionName}`
-          );
-          if (!connectRes.ok) {
-            const errText = await connectRes.text();
-            throw new Error(`Evolution API Error: ${connectRes.status} - ${errText}`);
-          }
-          const data = await connectRes.json();
-          qrCodeData = data.base64
-            ? (data.base64.startsWith('data:image/') ? data.base64 : `data:image/png;base64,${data.base64}`)
-            : data.code || '';
-        } else {
-          // Sessão global: usar evolutionApiService normalmente
-          console.log(`🔄 Conectando instância Evolution ${sessionName}...`);
-          qrCodeData = await evolutionApiService.getQRCode(sessionName);
-        }
-
-        // Se conseguiu obter QR, salvar no banco
-        if (qrCodeData) {
-          const qrExpiresAt = new Date(Date.now() + 300000); // 5 minutos
-
-          await WhatsAppSessionService.createOrUpdateSession({
-            name: sessionName,
-            status: 'SCAN_QR_CODE',
-            provider: 'EVOLUTION',
-            tenantId: sessionData.tenantId,
-            qr: qrCodeData,
-            qrExpiresAt: qrExpiresAt
-          });
-
-          console.log(`✅ Sessão Evolution ${sessionName} iniciada com QR Code salvo`);
-        }
-
-        // Retornar o QR code para o frontend
-        result = { qr: qrCodeData, status: 'SCAN_QR_CODE' };
-      } catch (error: any) {
-        console.error(`❌ Erro ao conectar instância Evolution ${sessionName}:`, error.message);
-        throw new Error(`Erro ao iniciar sessão WhatsApp: ${error.message}`);
-      }
-    } else if (sessionProvider === 'QUEPASA') {
-      // Usar Quepasa API - gerar QR Code
-      try {
-        console.log(`🔄 Conectando instância Quepasa ${sessionName}...`);
-
-        // Buscar configurações do Quepasa
-        const quepasaConfig = await settingsService.getQuepasaConfig();
-
-        if (!quepasaConfig.url || !quepasaConfig.login) {
-          throw new Error('Configure as credenciais Quepasa nas configurações do sistema');
-        }
-
-        // Usar APENAS o token da sessão (não usar token global)
-        let sessionToken = sessionData.quepasaToken;
-
-        // Se não tiver token, gerar e salvar um novo (para sessões criadas antes da implementação)
-        if (!sessionToken) {
-          sessionToken = generateQuepasaToken();
-          console.log(`🔑 Gerando novo token para sessão ${sessionName} (sessão sem token): ${sessionToken.substring(0, 16)}...`);
-
-          await WhatsAppSessionService.createOrUpdateSession({
-            name: sessionName,
-            status: sessionData.status,
-            provider: 'QUEPASA',
-            tenantId: sessionData.tenantId,
-            quepasaToken: sessionToken
-          });
-          console.log(`💾 Token salvo para sessão ${sessionName}`);
-        }
-
-        console.log(`🔑 Usando token da sessão para ${sessionName}`);
+    const provider = getProvider(sessionData.provider);
+    console.log(`▶️ Iniciando sessão ${sessionName} via ${provider.name}`);
 
-        // Fazer requisição para gerar QR Code
-        const qrResponse = await fetch(`${quepasaConfig.url}/scan`, {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'X-QUEPASA-USER': quepasaConfig.login,
-            'X-QUEPASA-TOKEN': sessionToken
-          }
-        });
-
-        if (!qrResponse.ok) {
-          throw new Error(`Erro ao gerar QR Code Quepasa: ${qrResponse.status} ${qrResponse.statusText}`);
-        }
-
-        // Converter resposta para base64
-        const imageBuffer = await qrResponse.arrayBuffer();
-        const base64Image = Buffer.from(imageBuffer).toString('base64');
-        const qrBase64 = `data:image/png;base64,${base64Image}`;
-
-        const qrExpiresAt = new Date(Date.now() + 300000); // 5 minutos
-
-        // Salvar QR no banco (preservando o token!)
-        await WhatsAppSessionService.createOrUpdateSession({
-          name: sessionName,
-          status: 'SCAN_QR_CODE',
-          provider: 'QUEPASA',
-          tenantId: sessionData.tenantId,
-          quepasaToken: sessionToken, // IMPORTANTE: preservar o token
-          qr: qrBase64,
-          qrExpiresAt: qrExpiresAt
-        });
-
-        console.log(`✅ Sessão Quepasa ${sessionName} iniciada com QR Code salvo (token: ${sessionToken.substring(0, 16)}...)`);
-
-        result = { qr: qrBase64, status: 'SCAN_QR_CODE' };
-      } catch (error: any) {
-        console.error(`❌ Erro ao conectar instância Quepasa ${sessionName}:`, error.message);
-        throw new Error(`Erro ao iniciar sessão Quepasa: ${error.message}`);
-      }
-    } else {
-      // Usar WAHA com chamada direta
-      result = await wahaRequest(`/api/sessions/${sessionName}/start`, {
-        method: 'POST'
-      });
-    }
+    const result = await provider.startSession(sessionData);
 
     res.json(result);
   } catch (error) {
@@ -836,32 +671,18 @@ router.post('/sessions/:sessionName/stop', authMiddleware, async (req: Authentic
     // SUPERADMIN pode parar qualquer sessão, outros usuários só do seu tenant
     const tenantId = req.user?.role === 'SUPERADMIN' ? undefined : req.tenantId;
 
-    // Verificar o provedor da sessão
-    let sessionProvider = 'WAHA';
     let sessionData: any;
     try {
       sessionData = await WhatsAppSessionService.getSession(sessionName, tenantId);
-      sessionProvider = sessionData.provider || 'WAHA';
     } catch (error) {
       console.error('❌ Sessão não encontrada ou não pertence ao tenant:', error);
       return res.status(404).json({ error: 'Sessão não encontrada' });
     }
 
-    console.log(`⏹️ Parando sessão ${sessionName} via ${sessionProvider}`);
+    const provider = getProvider(sessionData.provider);
+    console.log(`⏹️ Parando sessão ${sessionName} via ${provider.name}`);
 
-    let result;
-    if (sessionProvider === 'EVOLUTION') {
-      // Para Evolution API, não há stop específico, apenas deletar
-      result = { message: 'Sessão Evolution parada (conceitual)' };
-      await WhatsAppSessionService.createOrUpdateSession({
-        name: sessionName,
-        status: 'STOPPED',
-        provider: 'EVOLUTION',
-        tenantId: sessionData.tenantId
-      });
-    } else {
-      result = await WahaSyncService.stopSession(sessionName);
-    }
+    const result = await provider.stopSession(sessionData);
 
     res.json(result);
   } catch (error) {
@@ -875,51 +696,13 @@ router.post('/sessions/:sessionName/restart', async (req, res) => {
   try {
     const { sessionName } = req.params;
 
-    // Verificar o provedor da sessão
-    let sessionProvider = 'WAHA';
-    try {
-      const savedSession = await WhatsAppSessionService.getSession(sessionName);
-      sessionProvider = (savedSession as any).provider || 'WAHA';
-    } catch (error) {
-      // Se sessão não existe no banco, assumir WAHA
-    }
+    // Se sessão não existe no banco, assumir WAHA
+    const savedSession = await WhatsAppSessionService.getSession(sessionName).catch(() => null);
+    const provider = getProvider(savedSession?.provider);
 
-    console.log(`🔄 Reiniciando sessão ${sessionName} via ${sessionProvider}`);
-
-    let result;
-    if (sessionProvider === 'EVOLUTION') {
-      // Verificar se sessão tem credenciais customizadas (importada de Evolution externa)
-      const savedSession = await prisma.whatsAppSession.findFirst({ where: { name: sessionName }, select: { config: true, tenantId: true } });
-      const customCreds = getEvolutionCredentialsFromSession(savedSession || {});
-
-      if (customCreds) {
-        // Sessão importada: usar credenciais customizadas
-        console.log(`🔄 Reiniciando instância Evolution importada ${sessionName} (${customCreds.url})...`);
-        const restartRes = await evolutionRequestWithCredentials(
-          customCreds.url,
-          customCreds.apiKey,
-          `/instance/restart/${sessionName}`,
-          { method: 'PUT' }
-        );
-        if (!restartRes.ok) {
-          const errText = await restartRes.text();
-          throw new Error(`Evolution API Error: ${restartRes.status} - ${errText}`);
-        }
-        result = await restartRes.json().catch(() => ({ message: 'Instance restarted' }));
-      } else {
-        // Sessão global: usar evolutionApiService normalmente
-        result = await evolutionApiService.restartInstance(sessionName);
-      }
+    console.log(`🔄 Reiniciando sessão ${sessionName} via ${provider.name}`);
 
-      await WhatsAppSessionService.createOrUpdateSession({
-        name: sessionName,
-        status: 'SCAN_QR_CODE',
-        provider: 'EVOLUTION',
-        tenantId: savedSession?.tenantId || undefined
-      });
-    } else {
-      result = await WahaSyncService.restartSession(sessionName);
-    }
+    const result = await provider.restartSession(savedSession || { name: sessionName });
 
     res.json(result);
   } catch (error) {
@@ -937,112 +720,21 @@ router.delete('/sessions/:sessionName', authMiddleware, async (req: Authenticate
     // SUPERADMIN pode deletar qualquer sessão, outros usuários só do seu tenant
     const tenantId = req.user?.role === 'SUPERADMIN' ? undefined : req.tenantId;
 
-    // Verificar o provedor da sessão
-    let sessionProvider: 'WAHA' | 'EVOLUTION' | 'QUEPASA' = 'WAHA';
+    let savedSession: any;
     try {
-      const savedSession = await WhatsAppSessionService.getSession(sessionName, tenantId);
-      sessionProvider = (savedSession.provider as 'WAHA' | 'EVOLUTION' | 'QUEPASA') || 'WAHA';
+      savedSession = await WhatsAppSessionService.getSession(sessionName, tenantId);
     } catch (error) {
       console.error('❌ Sessão não encontrada ou não pertence ao tenant:', error);
       return res.status(404).json({ error: 'Sessão não encontrada' });
     }
 
-    console.log(`🗑️ Deletando sessão ${sessionName} via ${sessionProvider}`);
-
-    // Deletar da API correspondente
-    if (sessionProvider === 'EVOLUTION') {
-      // Verificar se sessão tem credenciais customizadas (importada de Evolution externa)
-      const savedSessionData = await prisma.whatsAppSession.findFirst({ where: { name: sessionName }, select: { config: true } });
-      const customCreds = getEvolutionCredentialsFromSession(savedSessionData || {});
-
-      try {
-        if (customCreds) {
-          // Sessão importada: usar credenciais customizadas para deletar
-          console.log(`🗑️ Deletando instância Evolution importada ${sessionName} (${customCreds.url})...`);
-          const deleteRes = await evolutionRequestWithCredentials(
-            customCreds.url,
-            customCreds.apiKey,
-            `/instance/delete/${sessionName}`,
-            { method: 'DELETE' }
-          );
-          if (!deleteRes.ok) {
-            const errText = await deleteRes.text();
-            console.warn(`⚠️ Erro ao deletar ${sessionName} da Evolution externa: ${deleteRes.status} - ${errText}`);
-          } else {
-            console.log(`✅ Sessão ${sessionName} deletada da Evolution API externa`);
-          }
-        } else {
-          // Sessão global: usar evolutionApiService normalmente
-          await evolutionApiService.deleteInstance(sessionName);
-          console.log(`✅ Sessão ${sessionName} deletada da Evolution API`);
-        }
-      } catch (error) {
-        console.warn(`⚠️ Erro ao deletar ${sessionName} da Evolution API:`, error);
-      }
-      // Deletar do banco também
-      try {
-        await WhatsAppSessionService.deleteSession(sessionName, tenantId);
-        console.log(`✅ Sessão ${sessionName} removida do banco de dados`);
-      } catch (error) {
-        console.warn(`⚠️ Erro ao deletar ${sessionName} do banco:`, error);
-      }
-    } else if (sessionProvider === 'QUEPASA') {
-      try {
-        // Buscar configurações do Quepasa e dados da sessão
-        const quepasaConfig = await settingsService.getQuepasaConfig();
-        const savedSession = await WhatsAppSessionService.getSession(sessionName, tenantId);
-
-        if (quepasaConfig.url && quepasaConfig.login) {
-          // Usar o token da sessão salvo no banco
-          let sessionToken = (savedSession as any).quepasaToken;
-
-          console.log(`🗑️ Deletando servidor Quepasa - Token: ${sessionToken ? sessionToken.substring(0, 16) + '...' : 'SEM TOKEN'}`);
-
-          if (!sessionToken) {
-            console.warn(`⚠️ Sessão ${sessionName} não tem token Quepasa salvo, pulando deleção na API`);
-          } else {
-            console.log(`🗑️ Deletando servidor Quepasa via API DELETE /info...`);
-
-            // Deletar o servidor no Quepasa usando DELETE /info
-            const deleteResponse = await fetch(`${quepasaConfig.url}/info`, {
-              method: 'DELETE',
-              headers: {
-                'Accept': 'application/json',
-                'X-QUEPASA-TOKEN': sessionToken
-              }
-            });
-
-            console.log(`📡 Delete response status: ${deleteResponse.status} ${deleteResponse.statusText}`);
-
-            if (deleteResponse.ok) {
-              try {
-                const deleteData = await deleteResponse.json();
-                console.log(`✅ Servidor Quepasa deletado com sucesso:`, JSON.stringify(deleteData, null, 2));
-              } catch (jsonError) {
-                // Algumas APIs retornam 200 sem body
-                console.log(`✅ Servidor Quepasa deletado (resposta sem JSON)`);
-              }
-            } else {
-              const errorText = await deleteResponse.text();
-              console.warn(`⚠️ Erro ao deletar do Quepasa: ${deleteResponse.status} - ${errorText}`);
-            }
-          }
-        }
-      } catch (quepasaError) {
-        console.warn(`⚠️ Erro ao deletar ${sessionName} do Quepasa:`, quepasaError);
-      }
+    const provider = getProvider(savedSession.provider);
+    console.log(`🗑️ Deletando sessão ${sessionName} via ${provider.name}`);
 
-      // Deletar do banco de dados
-      try {
-        await WhatsAppSessionService.deleteSession(sessionName, tenantId);
-        console.log(`✅ Sessão ${sessionName} removida do banco de dados`);
-      } catch (error) {
-        console.warn(`⚠️ Erro ao deletar ${sessionName} do banco:`, error);
-      }
-    } else {
-      // Deletar via WAHA (já remove do banco também)
-      await WahaSyncService.deleteSession(sessionName);
-    }
+    // Remover da API do provider (falhas são apenas registradas) e depois do banco
+    await provider.deleteSession(savedSession);
+    await WhatsAppSessionService.deleteSession(sessionName, tenantId);
+    console.log(`✅ Sessão ${sessionName} removida do banco de dados`);
 
     res.json({ success: true, message: 'Sessão removida com sucesso' });
   } catch (error) {
@@ -1061,8 +753,9 @@ router.get('/sessions/:sessionName/auth/qr', authMiddleware, async (req: Authent
     const tenantId = req.user?.role === 'SUPERADMIN' ? undefined : req.tenantId;
 
     // Primeiro, verificar se existe QR salvo no banco com tenant isolation
+    let savedSession: any;
     try {
-      const savedSession = await WhatsAppSessionService.getSession(sessionName, tenantId);
+      savedSession = await WhatsAppSessionService.getSession(sessionName, tenantId);
 
       if (savedSession.qr && savedSession.qrExpiresAt && savedSession.qrExpiresAt > new Date()) {
         console.log(`💾 Retornando QR salvo do banco para ${sessionName}`);
@@ -1074,281 +767,49 @@ router.get('/sessions/:sessionName/auth/qr', authMiddleware, async (req: Authent
         });
       }
     } catch (dbError) {
-      console.log(`📋 Sessão ${sessionName} não encontrada no banco ou não pertence ao tenant, verificando WAHA API...`);
-      return res.status(404).json({ error: 'Sessão não encontrada' });
-    }
-
-    // Verificar o provedor da sessão para rotear corretamente
-    let sessionProvider: 'WAHA' | 'EVOLUTION' | 'QUEPASA' = 'WAHA'; // Default para WAHA (compatibilidade)
-    let sessionData: any;
-    try {
-      sessionData = await WhatsAppSessionService.getSession(sessionName, tenantId);
-      console.log(`🔍 Sessão ${sessionName} encontrada no banco:`, {
-        provider: sessionData.provider,
-        status: sessionData.status
-      });
-      sessionProvider = (sessionData.provider as 'WAHA' | 'EVOLUTION' | 'QUEPASA') || 'WAHA';
-    } catch (error) {
-      console.log(`⚠️ Sessão ${sessionName} não encontrada no banco ou não pertence ao tenant, assumindo WAHA`);
+      console.log(`📋 Sessão ${sessionName} não encontrada no banco ou não pertence ao tenant`);
       return res.status(404).json({ error: 'Sessão não encontrada' });
     }
 
-    console.log(`🔍 Processando QR para sessão ${sessionName} via ${sessionProvider}`);
-
-    // Se for Evolution API, usar o serviço específico
-    if (sessionProvider === 'EVOLUTION') {
-      try {
-        // Verificar se sessão tem credenciais customizadas (importada de Evolution externa)
-        const customCreds = getEvolutionCredentialsFromSession(sessionData);
-        let qrCodeData: string;
-
-        if (customCreds) {
-          // Sessão importada: usar credenciais customizadas
-          console.log(`🔍 Obtendo QR code da Evolution importada ${sessionName} (${customCreds.url})...`);
-          const connectRes = await evolutionRequestWithCredentials(
-            customCreds.url,
-            customCreds.apiKey,
-            `/instance/connect/${sessionName}`
-          );
-          if (!connectRes.ok) {
-            const errText = await connectRes.text();
-            throw new Error(`Evolution API Error: ${connectRes.status} - ${errText}`);
-          }
-          const data = await connectRes.json();
-          qrCodeData = data.base64
-            ? (data.base64.startsWith('data:image/') ? data.base64 : `data:image/png;base64,${data.base64}`)
-            : data.code || '';
-        } else {
-          // Sessão global: usar evolutionApiService normalmente
-          qrCodeData = await evolutionApiService.getQRCode(sessionName);
-        }
-
-        const expiresAt = new Date(Date.now() + 300000); // 5 minutos
-
-        // Salvar o QR code no banco de dados
-        await WhatsAppSessionService.createOrUpdateSession({
-          name: sessionName,
-          status: 'SCAN_QR_CODE',
-          provider: 'EVOLUTION',
-          qr: qrCodeData,
-          qrExpiresAt: expiresAt,
-          tenantId: sessionData.tenantId
-        });
-
-        console.log(`💾 QR code Evolution salvo no banco para sessão ${sessionName}`);
-
-        return res.json({
-          qr: qrCodeData,
-          expiresAt: expiresAt,
-          status: 'SCAN_QR_CODE',
-          provider: 'EVOLUTION',
-          message: "QR code gerado via Evolution API"
-        });
-      } catch (evolutionError: any) {
-        console.error(`❌ Erro ao obter QR da Evolution API:`, evolutionError);
-        return res.status(500).json({
-          error: 'Erro ao obter QR Code da Evolution API',
-          details: evolutionError.message
-        });
-      }
-    } else if (sessionProvider === 'QUEPASA') {
-      try {
-        // Buscar configurações do Quepasa
-        const quepasaConfig = await settingsService.getQuepasaConfig();
-
-        if (!quepasaConfig.url || !quepasaConfig.login) {
-          throw new Error('Configure as credenciais Quepasa nas configurações do sistema');
-        }
-
-        // Usar APENAS o token da sessão (não usar token global)
-        let sessionToken = sessionData.quepasaToken;
-
-        // Se não tiver token, gerar e salvar um novo (para sessões criadas antes da implementação)
-        if (!sessionToken) {
-          sessionToken = generateQuepasaToken();
-          console.log(`🔑 Gerando novo token para sessão ${sessionName} (sessão sem token): ${sessionToken.substring(0, 16)}...`);
-
-          await WhatsAppSessionService.createOrUpdateSession({
-            name: sessionName,
-            status: sessionData.status,
-            provider: 'QUEPASA',
-            tenantId: sessionData.tenantId,
-            quepasaToken: sessionToken
-          });
-          console.log(`💾 Token salvo para sessão ${sessionName}`);
-        }
-
-        console.log(`🔑 Usando token da sessão para ${sessionName}`);
-
-        // Fazer requisição para gerar QR Code
-        const qrResponse = await fetch(`${quepasaConfig.url}/scan`, {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'X-QUEPASA-USER': quepasaConfig.login,
-            'X-QUEPASA-TOKEN': sessionToken
-          }
-        });
-
-        if (!qrResponse.ok) {
-          throw new Error(`Erro ao gerar QR Code Quepasa: ${qrResponse.status} ${qrResponse.statusText}`);
-        }
-
-        // Converter resposta para base64
-        const imageBuffer = await qrResponse.arrayBuffer();
-        const base64Image = Buffer.from(imageBuffer).toString('base64');
-        const qrBase64 = `data:image/png;base64,${base64Image}`;
-
-        const expiresAt = new Date(Date.now() + 300000); // 5 minutos
-
-        // Salvar o QR code no banco de dados (preservando o token!)
-        await WhatsAppSessionService.createOrUpdateSession({
-          name: sessionName,
-          status: 'SCAN_QR_CODE',
-          provider: 'QUEPASA',
-          quepasaToken: sessionToken, // IMPORTANTE: preservar o token
-          qr: qrBase64,
-          qrExpiresAt: expiresAt,
-          tenantId: sessionData.tenantId
-        });
-
-        console.log(`💾 QR code Quepasa salvo no banco para sessão ${sessionName} (token: ${sessionToken.substring(0, 16)}...)`);
+    const provider = getProvider(savedSession.provider);
+    console.log(`🔍 Processando QR para sessão ${sessionName} via ${provider.name}`);
 
-        return res.json({
-          qr: qrBase64,
-          expiresAt: expiresAt,
-          status: 'SCAN_QR_CODE',
-          provider: 'QUEPASA',
-          message: "QR code gerado via Quepasa API"
-        });
-      } catch (quepasaError: any) {
-        console.error(`❌ Erro ao obter QR da Quepasa API:`, quepasaError);
-        return res.status(500).json({
-          error: 'Erro ao obter QR Code da Quepasa API',
-          details: quepasaError.message
-        });
-      }
-    } else {
-      // Para WAHA, manter lógica original
-    let sessionStatus;
     try {
-      sessionStatus = await wahaRequest(`/api/sessions/${sessionName}`);
-      console.log(`🔍 Status da sessão ${sessionName}:`, sessionStatus.status);
-    } catch (wahaError: any) {
-      console.error(`❌ Erro ao consultar status da sessão ${sessionName} na WAHA:`, wahaError.message);
-      // Se não conseguir acessar WAHA, mas temos a sessão no banco com status SCAN_QR_CODE,
-      // vamos tentar gerar o QR usando apenas a URL
-      if (sessionData.status === 'SCAN_QR_CODE') {
-        console.log(`🔄 Tentando gerar QR com base no banco (status: ${sessionData.status})`);
-        sessionStatus = { status: 'SCAN_QR_CODE' };
-      } else {
-        return res.status(400).json({
-          error: 'Não foi possível acessar a API WAHA para verificar o status da sessão',
-          details: wahaError.message
-        });
-      }
-    }
-
-    // Priorizar status do banco se for SCAN_QR_CODE, senão usar status da WAHA
-    const effectiveStatus = sessionData.status === 'SCAN_QR_CODE' ? 'SCAN_QR_CODE' : sessionStatus.status;
-    console.log(`🔄 Status efetivo para ${sessionName}: ${effectiveStatus} (banco: ${sessionData.status}, WAHA: ${sessionStatus.status})`);
-
-    if (effectiveStatus === 'SCAN_QR_CODE') {
-      // Sessão está aguardando QR code - buscar QR da WAHA API
-      console.log(`📱 Buscando QR code da WAHA API para sessão ${sessionName}`);
-
-      try {
-        // Buscar configurações WAHA
-        const config = await settingsService.getWahaConfig();
-        const WAHA_BASE_URL = config.host || process.env.WAHA_BASE_URL || process.env.DEFAULT_WAHA_HOST || '';
-        const WAHA_API_KEY = config.apiKey || process.env.WAHA_API_KEY || process.env.DEFAULT_WAHA_API_KEY || '';
-
-        // Buscar QR como imagem e converter para base64
-        const qrImageUrl = `${WAHA_BASE_URL}/api/${sessionName}/auth/qr?format=image`;
-        console.log(`📱 Buscando QR image da WAHA: ${qrImageUrl}`);
+      const qr = await provider.getQR(savedSession);
+      const expiresAt = new Date(Date.now() + QR_CODE_TTL_MS);
 
-        const response = await fetch(qrImageUrl, {
-          headers: {
-            'X-API-KEY': WAHA_API_KEY,
-            'Accept': 'image/png'
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error(`Erro ao buscar QR da WAHA: ${response.status} ${response.statusText}`);
-        }
-
-        // Converter para base64
-        const imageBuffer = await response.arrayBuffer();
-        const base64Image = Buffer.from(imageBuffer).toString('base64');
-        const qrBase64 = `data:image/png;base64,${base64Image}`;
-
-        console.log(`📱 QR convertido para base64, tamanho: ${qrBase64.length} caracteres`);
-
-        const expiresAt = new Date(Date.now() + 300000); // 5 minutos
-
-        // Salvar o QR base64 no banco de dados
-        await WhatsAppSessionService.createOrUpdateSession({
-          name: sessionName,
-          status: 'SCAN_QR_CODE',
-          provider: 'WAHA',
-          qr: qrBase64,
-          qrExpiresAt: expiresAt,
-          tenantId: sessionData.tenantId
-        });
-
-        console.log(`💾 QR WAHA base64 salvo no banco para sessão ${sessionName}`);
-
-        res.json({
-          qr: qrBase64,
-          expiresAt: expiresAt,
-          status: 'SCAN_QR_CODE',
-          provider: 'WAHA',
-          message: "QR code obtido da WAHA API e convertido para base64"
-        });
-
-      } catch (qrError: any) {
-        console.error('❌ Erro ao buscar QR da WAHA:', qrError);
+      // Salvar o QR code no banco de dados (mantendo token, credenciais e demais dados da sessão)
+      await WhatsAppSessionService.updateStatusFast(sessionName, 'SCAN_QR_CODE', undefined, {
+        qr,
+        qrExpiresAt: expiresAt
+      });
 
-        res.status(500).json({
-          error: 'Erro ao obter QR Code da WAHA API',
-          details: qrError.message
-        });
-      }
+      console.log(`💾 QR code ${provider.name} salvo no banco para sessão ${sessionName}`);
 
-    } else if (effectiveStatus === 'WORKING') {
-      console.log(`✅ Sessão ${sessionName} já está conectada`);
-      res.status(400).json({
-        error: 'Sessão já está conectada',
-        status: effectiveStatus
+      return res.json({
+        qr,
+        expiresAt,
+        status: 'SCAN_QR_CODE',
+        provider: provider.name,
+        message: `QR code gerado via ${provider.name}`
       });
-
-    } else {
-      // Para outros status (FAILED, STOPPED), ainda retornar QR se existe no banco
-      try {
-        if (sessionData.qr && sessionData.qrExpiresAt && sessionData.qrExpiresAt > new Date()) {
-          console.log(`📋 Retornando QR existente do banco para sessão ${sessionName} (status: ${effectiveStatus})`);
-          return res.json({
-            qr: sessionData.qr,
-            expiresAt: sessionData.qrExpiresAt,
-            status: effectiveStatus,
-            message: "QR code retornado do banco (sessão não disponível)"
-          });
-        }
-      } catch (dbError) {
-        // Continua para gerar erro abaixo
+    } catch (qrError: any) {
+      if (qrError instanceof QrCodeUnavailableError) {
+        console.log(`❌ Sessão ${sessionName} não está disponível para QR code (status: ${qrError.sessionStatus})`);
+        return res.status(400).json({
+          error: qrError.message,
+          status: qrError.sessionStatus
+        });
       }
 
-      console.log(`❌ Sessão ${sessionName} não está disponível para QR code`);
-      res.status(400).json({
-        error: 'Sessão não está disponível para QR code',
-        status: effectiveStatus
+      console.error(`❌ Erro ao obter QR da ${provider.name}:`, qrError);
+      return res.status(500).json({
+        error: `Erro ao obter QR Code da ${provider.name} API`,
+        details: qrError.message
       });
     }
-    }
-
   } catch (error) {
-    console.error('Erro ao obter QR Code da WAHA:', error);
+    console.error('Erro ao obter QR Code:', error);
     res.status(500).json({ error: 'Erro ao obter QR Code' });
   }
 });
@@ -1428,7 +889,7 @@ router.patch('/sessions/:sessionName/assign-tenant', authMiddleware, async (req:
     await WhatsAppSessionService.createOrUpdateSession({
       name: sessionName,
       status: session.status as any,
-      provider: session.provider as 'WAHA' | 'EVOLUTION',
+      provider: session.provider as WhatsAppProviderName,
       me: session.me ? {
         id: session.me.id,
         pushName: session.me.pushName,
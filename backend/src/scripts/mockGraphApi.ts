@@ -0,0 +1,134 @@
+/**
+ * Mock local da Graph API (WhatsApp Cloud API) para testar o provider CLOUD_API sem a Meta.
+ *
+ * Uso: npm run mock:graph
+ * Em Configurações, aponte "URL da Graph API" para http://localhost:4010 (com ou sem /v21.0).
+ *
+ * Variáveis de ambiente:
+ *   MOCK_GRAPH_PORT   porta do mock (padrão 4010)
+ *   MOCK_WEBHOOK_URL  webhook do backend (ex.: http://localhost:3001/api/webhooks/cloud-api) para receber status e respostas
+ *   MOCK_APP_SECRET   App Secret configurado no sistema, usado para assinar os webhooks
+ */
+
+import express from 'express';
+import crypto from 'crypto';
+
+const fetch = require('node-fetch');
+
+const PORT = Number(process.env.MOCK_GRAPH_PORT || 4010);
+const WEBHOOK_URL = process.env.MOCK_WEBHOOK_URL || '';
+const APP_SECRET = process.env.MOCK_APP_SECRET || '';
+
+const app = express();
+app.use(express.json());
+
+const sentMessages: any[] = [];
+
+// Aceitar a URL com a versão da API (ex.: /v21.0/123/messages)
+app.use((req, _res, next) => {
+  req.url = req.url.replace(/^\/v\d+\.\d+(?=\/)/, '');
+  next();
+});
+
+function graphError(res: express.Response, status: number, code: number, message: string) {
+  return res.status(status).json({ error: { message, type: 'OAuthException', code, fbtrace_id: 'mock' } });
+}
+
+async function postWebhook(phoneNumberId: string, value: any) {
+  if (!WEBHOOK_URL) return;
+
+  const body = JSON.stringify({
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: 'mock-waba',
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: { display_phone_number: '5511900000000', phone_number_id: phoneNumberId },
+          ...value
+        }
+      }]
+    }]
+  });
+  const signature = `sha256=${crypto.createHmac('sha256', APP_SECRET).update(body).digest('hex')}`;
+
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': signature },
+      body
+    });
+    console.log(`🔔 Webhook enviado (${response.status})`);
+  } catch (error: any) {
+    console.error(`❌ Erro ao enviar webhook: ${error.message}`);
+  }
+}
+
+app.use((req, res, next) => {
+  if (req.path.startsWith('/_mock')) return next();
+  if (!String(req.get('Authorization') || '').startsWith('Bearer ')) {
+    return graphError(res, 401, 190, 'Invalid OAuth access token');
+  }
+  next();
+});
+
+// Inspecionar as mensagens recebidas pelo mock
+app.get('/_mock/messages', (_req, res) => {
+  res.json(sentMessages);
+});
+
+// Simular uma resposta do contato: { phoneNumberId, from, text }
+app.post('/_mock/inbound', async (req, res) => {
+  const { phoneNumberId, from, text } = req.body;
+  const id = `wamid.MOCK${crypto.randomBytes(8).toString('hex')}`;
+
+  await postWebhook(phoneNumberId, {
+    contacts: [{ profile: { name: 'Contato Mock' }, wa_id: from }],
+    messages: [{ from, id, timestamp: String(Math.floor(Date.now() / 1000)), type: 'text', text: { body: text } }]
+  });
+  res.json({ id });
+});
+
+app.get('/:phoneNumberId', (req, res) => {
+  res.json({
+    id: req.params.phoneNumberId,
+    display_phone_number: '+55 11 90000-0000',
+    verified_name: 'Empresa Mock'
+  });
+});
+
+app.post('/:phoneNumberId/messages', (req, res) => {
+  const { phoneNumberId } = req.params;
+  const { to, type } = req.body || {};
+
+  if (!to || !type) {
+    return graphError(res, 400, 100, 'Invalid parameter');
+  }
+
+  const id = `wamid.MOCK${crypto.randomBytes(8).toString('hex')}`;
+  sentMessages.push({ id, phoneNumberId, receivedAt: new Date().toISOString(), ...req.body });
+  console.log(`📤 [${phoneNumberId}] ${type} para ${to}${type === 'template' ? ` (${req.body.template?.name})` : ''}`);
+
+  // Status de entrega e leitura chegam depois, como na Meta
+  ['delivered', 'read'].forEach((status, index) => {
+    setTimeout(() => {
+      postWebhook(phoneNumberId, {
+        statuses: [{ id, status, timestamp: String(Math.floor(Date.now() / 1000)), recipient_id: to }]
+      });
+    }, (index + 1) * 2000);
+  });
+
+  res.json({
+    messaging_product: 'whatsapp',
+    contacts: [{ input: to, wa_id: to }],
+    messages: [{ id }]
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`🧪 Mock da Graph API ouvindo em http://localhost:${PORT}`);
+  if (!WEBHOOK_URL) {
+    console.log('ℹ️ MOCK_WEBHOOK_URL não definido: status e respostas não serão enviados ao backend');
+  }
+});
@@ -6,6 +6,7 @@ import cors from 'cors';
 import * as fs from 'fs';
 import { contactRoutes } from './routes/contactRoutes';
 import { categoryRoutes } from './routes/categoryRoutes';
+import { contactFieldRoutes } from './routes/contactFieldRoutes';
 import { mockRoutes } from './routes/mockRoutes';
 import { csvImportRoutes } from './routes/csvImportRoutes';
 import wahaRoutes from './routes/waha';
@@ -31,10 +32,16 @@ import webhookRoutes from './routes/webhookRoutes';
 import incomingWebhookRoutes from './routes/incomingWebhookRoutes';
 import interactiveCampaignRoutes from './routes/interactiveCampaignRoutes';
 import httpProxyRoutes from './routes/httpProxyRoutes';
+import conversationRoutes from './routes/conversationRoutes';
+import jobRoutes from './routes/jobRoutes';
+import optOutRoutes from './routes/optOutRoutes';
+import recurringCampaignRoutes from './routes/recurringCampaignRoutes';
+import sandboxRoutes from './routes/sandboxRoutes';
 // import integrationsRoutes from './routes/integrations';
 // import cacheRoutes from './routes/cache';
 import { authMiddleware } from './middleware/auth';
 import './services/campaignSchedulerService'; // Inicializar scheduler
+import './services/interactiveCampaignDelayScheduler'; // Retomar fluxos após nós de delay
 import { initializeAlertsMonitoring } from './services/alertsMonitoringService'; // Inicializar monitoramento de alertas
 import { initializeBackupService } from './services/backupService'; // Inicializar serviço de backup
 import { websocketService } from './services/websocketService'; // Inicializar WebSocket
@@ -118,7 +125,15 @@ app.use((req, res, next) => {
   if (req.path.includes('/media/upload')) {
     return next();
   }
-  express.json({ limit: '50mb' })(req, res, next);
+  express.json({
+    limit: '50mb',
+    // Corpo bruto dos webhooks para validar assinaturas (ex.: X-Hub-Signature-256 da Cloud API)
+    verify: (request, _response, buffer) => {
+      if (request.url?.startsWith('/api/webhooks/')) {
+        (request as any).rawBody = buffer;
+      }
+    }
+  })(req, res, next);
 });
 
 app.use((req, res, next) => {
@@ -139,6 +154,14 @@ app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
+// Mídias recebidas dos contatos: sempre baixadas como anexo, sem o navegador deduzir o tipo
+app.use('/api/uploads/inbound', express.static('/app/uploads/inbound', {
+  setHeaders: (res) => {
+    res.setHeader('Content-Disposition', 'attachment');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+  }
+}));
+
 // Servir uploads estaticamente (público)
 app.use('/api/uploads', express.static('/app/uploads'));
 
@@ -155,9 +178,11 @@ app.use('/api/webhooks', incomingWebhookRoutes);
 // Rotas protegidas (requerem autenticação)
 app.use('/api/contatos', authMiddleware, contactRoutes);
 app.use('/api/categorias', authMiddleware, categoryRoutes);
+app.use('/api/campos-personalizados', authMiddleware, contactFieldRoutes); // Campos personalizados de contato
 app.use('/api/csv', authMiddleware, csvImportRoutes);
 app.use('/api/waha', authMiddleware, wahaRoutes);
 app.use('/api/campaigns', authMiddleware, campaignRoutes);
+app.use('/api/recurring-campaigns', authMiddleware, recurringCampaignRoutes); // Recurring campaign definitions (cron/RRULE)
 app.use('/api/users', authMiddleware, usersRoutes);
 app.use('/api/tenants', authMiddleware, tenantRoutes); // SUPERADMIN only
 app.use('/api/user-tenants', authMiddleware, userTenantsRoutes);
@@ -177,6 +202,10 @@ app.use('/api/media', authMiddleware, mediaRoutes); // Upload de arquivos de mí
 app.use('/api/connections', authMiddleware, connectionRoutes); // Interactive campaigns - Connections
 app.use('/api/interactive-campaigns', authMiddleware, interactiveCampaignRoutes); // Interactive campaigns
 app.use('/api/http-proxy', authMiddleware, httpProxyRoutes); // HTTP REST proxy to avoid CORS
+app.use('/api/conversations', authMiddleware, conversationRoutes); // Unified conversation inbox
+app.use('/api/jobs', authMiddleware, jobRoutes); // Durable job queue monitoring
+app.use('/api/opt-outs', authMiddleware, optOutRoutes); // Tenant suppression list (opt-out)
+app.use('/api/sandbox', authMiddleware, sandboxRoutes); // SANDBOX provider: outbox, simulated acks and inbound replies
 app.use('/api', authMiddleware, mockRoutes);
 
 server.listen(PORT, () => {
@@ -1,9 +1,51 @@
 import { PrismaClient } from '@prisma/client';
 import { websocketService } from './websocketService';
 import * as cron from 'node-cron';
+import { jobQueueService, QueueJob, JobDeferredError } from './jobQueueService';
+import { messageTemplateService } from './messageTemplateService';
+import { templateVariableService, TemplateVariables } from './templateVariableService';
+import { conversationService } from './conversationService';
+import { optOutService } from './optOutService';
+import { sessionHealthService } from './sessionHealthService';
+import { sessionRateLimitService } from './sessionRateLimitService';
+import { emailService } from './emailService';
+import { ContactService } from './contactService';
+import { interactiveCampaignFlowEngine } from './interactiveCampaignFlowEngine';
+import { domainEvents, DomainEventType } from './domainEventService';
+import { getProvider, SendResult } from './whatsappProviders';
+import { RE2 } from 're2-wasm';
 
 const prisma = new PrismaClient();
 
+// Fila que retoma execuções após DELAY / delay de ação (sobrevive a reinícios)
+export const AUTOMATION_STEP_QUEUE = 'automation-step';
+
+// Proteção contra laços em fluxos mal configurados
+const MAX_STEPS_PER_RUN = 200;
+
+// Regex do trigger MESSAGE_RECEIVED roda em toda mensagem recebida, no caminho do webhook:
+// é avaliada pelo RE2 (tempo linear, sem backtracking) e padrão e texto avaliado são limitados
+const MAX_TRIGGER_PATTERN_LENGTH = 200;
+const MAX_PATTERN_INPUT_LENGTH = 1000;
+// Padrões compilados ficam em cache (a memória do RE2 fica no módulo WASM e só é liberada com delete())
+const MAX_COMPILED_PATTERNS = 500;
+
+// Fluxos ativos por tenant/trigger ficam em cache: importações publicam um evento por contato
+const FLOW_CACHE_TTL_MS = 30 * 1000;
+
+// Eventos de domínio que disparam automações (mesmo nome do TriggerType)
+const EVENT_TRIGGERS: DomainEventType[] = [
+  'CONTACT_CREATED',
+  'CONTACT_UPDATED',
+  'TAG_ADDED',
+  'TAG_REMOVED',
+  'MESSAGE_DELIVERED',
+  'MESSAGE_READ',
+  'MESSAGE_FAILED',
+  'MESSAGE_RECEIVED',
+  'CAMPAIGN_COMPLETED'
+];
+
 // Tipos de triggers disponíveis
 export enum TriggerType {
   CONTACT_CREATED = 'CONTACT_CREATED',
@@ -15,7 +57,8 @@ export enum TriggerType {
   TIME_BASED = 'TIME_BASED',
   WEBHOOK_RECEIVED = 'WEBHOOK_RECEIVED',
   TAG_ADDED = 'TAG_ADDED',
-  TAG_REMOVED = 'TAG_REMOVED'
+  TAG_REMOVED = 'TAG_REMOVED',
+  MESSAGE_RECEIVED = 'MESSAGE_RECEIVED'
 }
 
 // Tipos de condições
@@ -44,7 +87,8 @@ export enum ActionType {
   UPDATE_CONTACT = 'UPDATE_CONTACT',
   CREATE_NOTIFICATION = 'CREATE_NOTIFICATION',
   DELAY = 'DELAY',
-  CONDITIONAL_BRANCH = 'CONDITIONAL_BRANCH'
+  CONDITIONAL_BRANCH = 'CONDITIONAL_BRANCH',
+  START_INTERACTIVE_CAMPAIGN = 'START_INTERACTIVE_CAMPAIGN'
 }
 
 interface AutomationFlow {
@@ -78,6 +122,28 @@ interface FlowAction {
   delay?: number; // Delay em minutos antes da execução
 }
 
+// Instrução do programa de uma execução: as ações do fluxo com as ramificações achatadas em saltos
+interface ProgramInstruction {
+  path: string; // Posição da ação no fluxo (ex.: "2", "2.true.0")
+  type: ActionType | 'JUMP';
+  config: any;
+  delay?: number;
+  target?: number; // CONDITIONAL_BRANCH: início do ramo falso; JUMP: destino
+}
+
+interface ExecutionStep {
+  path: string;
+  type: ActionType;
+  status: 'SUCCESS' | 'FAILED' | 'WAITING' | 'SKIPPED';
+  at: string;
+  detail?: string;
+}
+
+interface StepResult {
+  detail: string;
+  skipped?: boolean;
+}
+
 interface ExecutionContext {
   flowId: string;
   tenantId: string;
@@ -85,14 +151,32 @@ interface ExecutionContext {
   contactId?: string;
   campaignId?: string;
   variables: { [key: string]: any };
+  program?: ProgramInstruction[];
+  pc?: number; // Próxima instrução a executar
+  delayServed?: boolean; // A espera da instrução atual já foi cumprida
+  steps?: ExecutionStep[];
+}
+
+interface AutomationStepJobPayload {
+  executionId: string;
 }
 
 export class AutomationService {
   private static instance: AutomationService;
   private flowExecutions: Map<string, any> = new Map();
   private scheduledJobs: Map<string, cron.ScheduledTask> = new Map();
+  private flowCache: Map<string, { flows: any[]; expiresAt: number }> = new Map();
+  private compiledPatterns: Map<string, RE2> = new Map();
 
   private constructor() {
+    jobQueueService.registerHandler<AutomationStepJobPayload>(
+      AUTOMATION_STEP_QUEUE,
+      (job) => this.resumeExecution(job),
+      { concurrency: parseInt(process.env.AUTOMATION_QUEUE_CONCURRENCY || '5') }
+    );
+    for (const eventType of EVENT_TRIGGERS) {
+      domainEvents.subscribe(eventType, (payload) => this.executeTrigger(eventType as TriggerType, payload));
+    }
     this.initializeActiveFlows();
   }
 
@@ -151,6 +235,7 @@ export class AutomationService {
       });
 
       // Registrar fluxo se estiver ativo
+      this.flowCache.clear();
       if (flow.active) {
         await this.registerFlow(flow);
       }
@@ -175,12 +260,20 @@ export class AutomationService {
   // Atualizar fluxo existente
   public async updateFlow(flowId: string, tenantId: string, updateData: Partial<AutomationFlow>): Promise<any> {
     try {
+      if (updateData.trigger?.config?.pattern) {
+        const patternError = this.validateTriggerPattern(updateData.trigger.config.pattern);
+        if (patternError) {
+          throw new Error(`Fluxo inválido: ${patternError}`);
+        }
+      }
+
       const flow = await prisma.automationFlow.update({
         where: { id: flowId, tenantId },
         data: updateData as any
       });
 
       // Re-registrar fluxo
+      this.flowCache.clear();
       await this.unregisterFlow(flowId);
       if (flow.active) {
         await this.registerFlow(flow);
@@ -203,16 +296,26 @@ export class AutomationService {
   // Executar trigger do fluxo
   public async executeTrigger(triggerType: TriggerType, data: any): Promise<void> {
     try {
-      // Buscar fluxos que respondem a este trigger
-      const matchingFlows = await prisma.automationFlow.findMany({
-        where: {
-          active: true,
-          trigger: {
-            path: ['type'],
-            equals: triggerType
-          }
-        }
-      });
+      // Webhooks apontam para um fluxo; os demais triggers só alcançam fluxos do tenant do evento
+      if (!data?.flowId && !data?.tenantId) {
+        console.warn(`⚠️ Trigger ${triggerType} ignorado: evento sem tenant`);
+        return;
+      }
+
+      const flows = data.flowId
+        ? await prisma.automationFlow.findMany({
+            where: { id: data.flowId, active: true, trigger: { path: ['type'], equals: triggerType } }
+          })
+        : await this.getActiveFlows(data.tenantId, triggerType);
+
+      // Um fluxo não reage às alterações que ele mesmo fez (ex.: ADD_TAG em fluxo de TAG_ADDED)
+      const matchingFlows = flows.filter(flow =>
+        flow.id !== data.originFlowId && this.matchesTriggerConfig(flow.trigger?.config, data)
+      );
+
+      if (matchingFlows.length === 0) {
+        return;
+      }
 
       console.log(`🔥 Trigger ${triggerType} executado - ${matchingFlows.length} fluxos encontrados`);
 
@@ -225,17 +328,137 @@ export class AutomationService {
     }
   }
 
-  // Executar fluxo específico
-  private async executeFlow(flow: any, triggerData: any): Promise<void> {
+  private async getActiveFlows(tenantId: string, triggerType: TriggerType): Promise<any[]> {
+    const key = `${tenantId}:${triggerType}`;
+    const cached = this.flowCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.flows;
+    }
+
+    const flows = await prisma.automationFlow.findMany({
+      where: {
+        tenantId,
+        active: true,
+        trigger: {
+          path: ['type'],
+          equals: triggerType
+        }
+      }
+    });
+
+    this.flowCache.set(key, { flows, expiresAt: Date.now() + FLOW_CACHE_TTL_MS });
+    return flows;
+  }
+
+  /**
+   * Filtros opcionais do trigger: tag (TAG_ADDED/TAG_REMOVED), campanha (MESSAGE_*, CAMPAIGN_COMPLETED),
+   * origem da alteração e campos alterados (CONTACT_UPDATED), palavras-chave/regex/sessões (MESSAGE_RECEIVED)
+   */
+  private matchesTriggerConfig(config: any, data: any): boolean {
+    if (!config) {
+      return true;
+    }
+    if (Array.isArray(config.sessionNames) && config.sessionNames.length > 0 && !config.sessionNames.includes(data.sessionName)) {
+      return false;
+    }
+    if (Array.isArray(config.keywords) && config.keywords.length > 0 && !this.matchesKeywords(config.keywords, config.matchMode, data.content)) {
+      return false;
+    }
+    if (config.pattern && !this.matchesPattern(config.pattern, data.content)) {
+      return false;
+    }
+    if (config.tag && data.tag !== config.tag) {
+      return false;
+    }
+    if (config.campaignId && data.campaignId !== config.campaignId) {
+      return false;
+    }
+    if (Array.isArray(config.sources) && config.sources.length > 0 && !config.sources.includes(data.source)) {
+      return false;
+    }
+    if (Array.isArray(config.fields) && config.fields.length > 0
+      && !config.fields.some((field: string) => data.changedFields?.includes(field))) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Compara o texto recebido com as palavras-chave (sem diferenciar maiúsculas/acentos).
+   * matchMode: EXACT (padrão), CONTAINS ou STARTS_WITH
+   */
+  private matchesKeywords(keywords: string[], matchMode: string | undefined, content: any): boolean {
+    const normalize = (value: any) => String(value ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+    const text = normalize(content);
+    if (!text) {
+      return false;
+    }
+
+    return keywords.map(normalize).filter(Boolean).some(keyword => {
+      switch (matchMode) {
+        case 'CONTAINS':
+          return text.includes(keyword);
+        case 'STARTS_WITH':
+          return text.startsWith(keyword);
+        default:
+          return text === keyword;
+      }
+    });
+  }
+
+  private matchesPattern(pattern: string, content: any): boolean {
+    // Fluxos salvos antes da validação podem ter padrões que o RE2 não aceita: não são avaliados
+    if (this.validateTriggerPattern(pattern)) {
+      console.warn(`⚠️ Regex inválida no trigger: ${pattern}`);
+      return false;
+    }
+    return this.compilePattern(pattern).test(String(content ?? '').slice(0, MAX_PATTERN_INPUT_LENGTH));
+  }
+
+  /**
+   * Retorna o motivo pelo qual o padrão do trigger não pode ser usado, ou null se for válido
+   */
+  private validateTriggerPattern(pattern: any): string | null {
+    if (typeof pattern !== 'string' || pattern.length > MAX_TRIGGER_PATTERN_LENGTH) {
+      return `Expressão regular do trigger deve ter até ${MAX_TRIGGER_PATTERN_LENGTH} caracteres`;
+    }
     try {
-      const executionId = `${flow.id}_${Date.now()}`;
+      this.compilePattern(pattern);
+    } catch (error) {
+      // RE2 não aceita referências a grupos (\1) nem lookarounds ((?=...), (?<!...))
+      return 'Expressão regular do trigger inválida (referências a grupos e lookarounds não são suportados)';
+    }
+    return null;
+  }
 
-      console.log(`⚙️ Executando fluxo: ${flow.name} (${executionId})`);
+  /**
+   * Compila o padrão no RE2 (sem diferenciar maiúsculas), reaproveitando o cache
+   */
+  private compilePattern(pattern: string): RE2 {
+    let compiled = this.compiledPatterns.get(pattern);
+    if (!compiled) {
+      compiled = new RE2(pattern, 'iu');
+      if (this.compiledPatterns.size >= MAX_COMPILED_PATTERNS) {
+        const [oldestPattern, oldest] = this.compiledPatterns.entries().next().value!;
+        this.compiledPatterns.delete(oldestPattern);
+        oldest['wrapper'].delete();
+      }
+      this.compiledPatterns.set(pattern, compiled);
+    }
+    return compiled;
+  }
 
+  // Executar fluxo específico
+  private async executeFlow(flow: any, triggerData: any): Promise<void> {
+    let executionId: string | null = null;
+
+    try {
       const context: ExecutionContext = {
         flowId: flow.id,
         tenantId: flow.tenantId,
         triggerData,
+        contactId: triggerData?.contactId,
+        campaignId: triggerData?.campaignId,
         variables: { ...triggerData }
       };
 
@@ -248,17 +471,217 @@ export class AutomationService {
         }
       }
 
-      // Executar ações sequencialmente
-      await this.executeActions(flow.actions, context);
+      // O programa fica salvo na execução: uma edição do fluxo não altera execuções em espera
+      context.program = this.compileActions(flow.actions);
+      context.pc = 0;
+      context.steps = [];
 
-      // Registrar execução bem-sucedida
-      await this.logExecution(executionId, flow.id, 'SUCCESS', context);
+      const execution = await prisma.automationExecution.create({
+        data: {
+          flowId: flow.id,
+          status: 'RUNNING',
+          executedAt: new Date(),
+          context: context as any
+        }
+      });
+      executionId = execution.id;
+
+      console.log(`⚙️ Executando fluxo: ${flow.name} (${executionId})`);
 
-      console.log(`✅ Fluxo executado com sucesso: ${flow.name}`);
+      await this.runExecution(execution.id, execution.executedAt, context);
 
     } catch (error) {
       console.error(`❌ Erro ao executar fluxo ${flow.name}:`, error);
-      await this.logExecution(`${flow.id}_${Date.now()}`, flow.id, 'FAILED', null, error);
+      if (executionId) {
+        await this.finishExecution(executionId, 'FAILED', null, error);
+      }
+    }
+  }
+
+  /**
+   * Converte as ações (ordenadas, com CONDITIONAL_BRANCH aninhados) em uma lista linear:
+   * [BRANCH → falso] [ações do ramo verdadeiro] [JUMP → fim] [ações do ramo falso]
+   */
+  private compileActions(actions: FlowAction[] = [], prefix = ''): ProgramInstruction[] {
+    const program: ProgramInstruction[] = [];
+
+    // Saltos das sub-listas são relativos ao início delas
+    const append = (instructions: ProgramInstruction[]) => {
+      const offset = program.length;
+      for (const instruction of instructions) {
+        program.push(instruction.target !== undefined ? { ...instruction, target: instruction.target + offset } : instruction);
+      }
+    };
+
+    const sorted = [...actions].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+    sorted.forEach((action, index) => {
+      const path = prefix ? `${prefix}.${index}` : String(index);
+
+      if (action.type !== ActionType.CONDITIONAL_BRANCH) {
+        program.push({ path, type: action.type, config: action.config || {}, delay: action.delay });
+        return;
+      }
+
+      const trueProgram = this.compileActions(action.config?.trueActions || [], `${path}.true`);
+      const falseProgram = this.compileActions(action.config?.falseActions || [], `${path}.false`);
+      const branch: ProgramInstruction = { path, type: action.type, config: { conditions: action.config?.conditions || [] }, delay: action.delay };
+
+      program.push(branch);
+      append(trueProgram);
+      if (falseProgram.length > 0) {
+        const jump: ProgramInstruction = { path, type: 'JUMP', config: {} };
+        program.push(jump);
+        branch.target = program.length;
+        append(falseProgram);
+        jump.target = program.length;
+      } else {
+        branch.target = program.length;
+      }
+    });
+
+    return program;
+  }
+
+  /**
+   * Executa o programa a partir de context.pc, gravando cada passo em AutomationExecution.context.
+   * Esperas (DELAY, delay da ação ou limite de envio da sessão) suspendem a execução em WAITING
+   * e agendam a retomada na fila persistente.
+   */
+  private async runExecution(executionId: string, executedAt: Date, context: ExecutionContext): Promise<void> {
+    const program = context.program || [];
+    context.steps = context.steps || [];
+    let executedSteps = 0;
+
+    while ((context.pc ?? 0) < program.length) {
+      if (++executedSteps > MAX_STEPS_PER_RUN) {
+        throw new Error(`Limite de ${MAX_STEPS_PER_RUN} passos por execução atingido`);
+      }
+
+      const pc = context.pc ?? 0;
+      const instruction = program[pc];
+
+      if (instruction.type === 'JUMP') {
+        context.pc = instruction.target ?? program.length;
+        continue;
+      }
+
+      const waitMinutes = instruction.type === ActionType.DELAY
+        ? Number(instruction.config?.minutes || 0)
+        : Number(instruction.delay || 0);
+
+      if (waitMinutes > 0 && !context.delayServed) {
+        const resumeAt = new Date(Date.now() + waitMinutes * 60 * 1000);
+        await this.suspendExecution(executionId, context, instruction, resumeAt, `Aguardando ${waitMinutes} minuto(s)`);
+        return;
+      }
+
+      let result: StepResult | void;
+      try {
+        if (instruction.type === ActionType.CONDITIONAL_BRANCH) {
+          const conditionsMet = await this.evaluateConditions(instruction.config.conditions || [], context);
+          result = { detail: conditionsMet ? 'Condição verdadeira' : 'Condição falsa' };
+          context.pc = conditionsMet ? pc + 1 : instruction.target ?? program.length;
+        } else if (instruction.type === ActionType.DELAY) {
+          result = { detail: 'Espera concluída' };
+          context.pc = pc + 1;
+        } else {
+          result = await this.executeAction({ type: instruction.type as ActionType, config: instruction.config }, context);
+          context.pc = pc + 1;
+        }
+      } catch (error) {
+        // Sessão sem orçamento de envio: tentar de novo quando liberar, sem repetir a espera já cumprida
+        if (error instanceof JobDeferredError) {
+          await this.suspendExecution(executionId, context, instruction, error.runAt, error.message);
+          return;
+        }
+
+        this.recordStep(context, instruction, 'FAILED', error instanceof Error ? error.message : String(error));
+        throw error;
+      }
+
+      context.delayServed = false;
+      this.recordStep(context, instruction, result?.skipped ? 'SKIPPED' : 'SUCCESS', result?.detail);
+      await prisma.automationExecution.update({
+        where: { id: executionId },
+        data: { context: context as any }
+      });
+    }
+
+    await this.finishExecution(executionId, 'SUCCESS', context, undefined, executedAt);
+    console.log(`✅ Execução ${executionId} do fluxo ${context.flowId} concluída`);
+  }
+
+  private recordStep(context: ExecutionContext, instruction: ProgramInstruction, status: ExecutionStep['status'], detail?: string) {
+    context.steps = context.steps || [];
+    context.steps.push({
+      path: instruction.path,
+      type: instruction.type as ActionType,
+      status,
+      at: new Date().toISOString(),
+      ...(detail ? { detail } : {})
+    });
+  }
+
+  private async suspendExecution(executionId: string, context: ExecutionContext, instruction: ProgramInstruction, resumeAt: Date, detail: string) {
+    context.delayServed = true;
+    this.recordStep(context, instruction, 'WAITING', `${detail} (retomada em ${resumeAt.toISOString()})`);
+
+    await prisma.automationExecution.update({
+      where: { id: executionId },
+      data: { status: 'WAITING', context: context as any }
+    });
+
+    await jobQueueService.enqueue(
+      AUTOMATION_STEP_QUEUE,
+      { executionId },
+      {
+        runAt: resumeAt,
+        uniqueKey: `automation-execution:${executionId}:${context.steps?.length || 0}`,
+        tenantId: context.tenantId
+      }
+    );
+
+    console.log(`⏳ Execução ${executionId} aguardando até ${resumeAt.toISOString()}: ${detail}`);
+  }
+
+  /**
+   * Handler da fila: retoma uma execução em espera
+   */
+  private async resumeExecution(job: QueueJob<AutomationStepJobPayload>): Promise<void> {
+    const { executionId } = job.payload;
+
+    const execution = await prisma.automationExecution.findUnique({
+      where: { id: executionId },
+      include: { flow: { select: { active: true, name: true } } }
+    });
+
+    if (!execution || execution.status !== 'WAITING') {
+      return;
+    }
+
+    if (!execution.flow.active) {
+      await this.finishExecution(executionId, 'CANCELLED', null, 'Fluxo desativado durante a espera', execution.executedAt);
+      return;
+    }
+
+    // Condicionado ao status para não retomar a mesma execução duas vezes
+    const { count } = await prisma.automationExecution.updateMany({
+      where: { id: executionId, status: 'WAITING' },
+      data: { status: 'RUNNING' }
+    });
+    if (count === 0) {
+      return;
+    }
+
+    console.log(`▶️ Retomando execução ${executionId} do fluxo ${execution.flow.name}`);
+
+    const context = execution.context as unknown as ExecutionContext;
+    try {
+      await this.runExecution(executionId, execution.executedAt, context);
+    } catch (error) {
+      console.error(`❌ Erro ao retomar execução ${executionId}:`, error);
+      await this.finishExecution(executionId, 'FAILED', context, error, execution.executedAt);
     }
   }
 
@@ -313,31 +736,18 @@ export class AutomationService {
     }
   }
 
-  // Executar ações do fluxo
-  private async executeActions(actions: FlowAction[], context: ExecutionContext): Promise<void> {
-    // Ordenar ações por ordem
-    const sortedActions = actions.sort((a, b) => a.order - b.order);
-
-    for (const action of sortedActions) {
-      // Aplicar delay se configurado
-      if (action.delay && action.delay > 0) {
-        console.log(`⏳ Aguardando ${action.delay} minutos antes da próxima ação...`);
-        await new Promise(resolve => setTimeout(resolve, (action.delay || 0) * 60 * 1000));
-      }
-
-      await this.executeAction(action, context);
-    }
-  }
-
   // Executar ação específica
-  private async executeAction(action: FlowAction, context: ExecutionContext): Promise<void> {
+  private async executeAction(action: Pick<FlowAction, 'type' | 'config'>, context: ExecutionContext): Promise<StepResult | void> {
     try {
       console.log(`🎯 Executando ação: ${action.type}`);
 
       switch (action.type) {
         case ActionType.SEND_MESSAGE:
-          await this.executeSendMessageAction(action.config, context);
-          break;
+          return await this.executeSendMessageAction(action.config, context);
+        case ActionType.SEND_EMAIL:
+          return await this.executeSendEmailAction(action.config, context);
+        case ActionType.START_INTERACTIVE_CAMPAIGN:
+          return await this.executeStartInteractiveCampaignAction(action.config, context);
         case ActionType.ADD_TAG:
           await this.executeAddTagAction(action.config, context);
           break;
@@ -360,45 +770,230 @@ export class AutomationService {
           console.log(`⚠️ Tipo de ação não implementado: ${action.type}`);
       }
     } catch (error) {
-      console.error(`❌ Erro ao executar ação ${action.type}:`, error);
+      // Espera por orçamento de envio não é erro da ação
+      if (!(error instanceof JobDeferredError)) {
+        console.error(`❌ Erro ao executar ação ${action.type}:`, error);
+      }
       throw error;
     }
   }
 
   // Implementações específicas das ações
-  private async executeSendMessageAction(config: any, context: ExecutionContext): Promise<void> {
-    // Implementar envio de mensagem individual
-    console.log('📤 Enviando mensagem automática:', config);
+  private async executeSendMessageAction(config: any, context: ExecutionContext): Promise<StepResult> {
+    const contact = await this.loadContact(context);
+    const variables = await this.buildVariables(context, contact);
+
+    const phone = conversationService.normalizePhone(
+      templateVariableService.render(String(config.to || ''), variables).trim() || contact?.telefone || context.variables.contactPhone || ''
+    );
+    if (!phone) {
+      throw new Error('Contato sem telefone para envio da mensagem');
+    }
+
+    if (await optOutService.isSuppressed(context.tenantId, phone)) {
+      return { detail: `Contato ${phone} descadastrado (opt-out) - mensagem não enviada`, skipped: true };
+    }
+
+    const payload = config.template
+      ? await this.buildTemplatePayload(config.template, context, contact, variables)
+      : { text: templateVariableService.render(String(config.message || ''), variables) };
+
+    if (!config.template && !payload.text) {
+      throw new Error('Mensagem ou template é obrigatório');
+    }
+
+    // Sessões do tenant conectadas e fora de quarentena (ou a sessão fixada na ação)
+    const tenantSessions = await prisma.whatsAppSession.findMany({
+      where: { tenantId: context.tenantId, ...(config.sessionName ? { name: config.sessionName } : {}) },
+      select: { name: true }
+    });
+    const sessions = await prisma.whatsAppSession.findMany({
+      where: sessionHealthService.availableSessionsWhere(tenantSessions.map(session => session.name)),
+      orderBy: { healthScore: 'desc' }
+    });
+
+    if (sessions.length === 0) {
+      throw new Error(config.sessionName ? `Sessão ${config.sessionName} indisponível` : 'Nenhuma sessão WhatsApp disponível para o tenant');
+    }
+
+    const reservation = await sessionRateLimitService.reserveFirstAvailable(sessions.map(session => session.name));
+    if (!reservation.allowed) {
+      throw new JobDeferredError(
+        reservation.retryAt,
+        `Limite ${sessionRateLimitService.describeWindow(reservation.window)} da sessão ${reservation.sessionName} atingido`
+      );
+    }
+
+    const session = sessions.find(item => item.name === reservation.sessionName)!;
+
+    let result: SendResult;
+    try {
+      result = await getProvider(session.provider).sendMessage(session, phone, payload);
+    } catch (error) {
+      await sessionHealthService.recordEvent(session.name, 'SEND_FAILURE', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
+    await conversationService.recordOutbound({
+      tenantId: context.tenantId,
+      sessionId: session.id,
+      sessionName: session.name,
+      contactPhone: phone,
+      contactId: contact?.id,
+      payload,
+      providerMessageId: result.messageId,
+      source: 'AUTOMATION'
+    });
+
+    console.log(`📤 Mensagem automática enviada para ${phone} via ${session.name}`);
+    return { detail: `Mensagem enviada para ${phone} via ${session.name}` };
+  }
+
+  /**
+   * Monta o payload do provider a partir de um MessageTemplate (texto ou mídia com legenda)
+   */
+  private async buildTemplatePayload(templateId: string, context: ExecutionContext, contact: any, variables: TemplateVariables): Promise<any> {
+    const template = await messageTemplateService.getTemplate(templateId, context.tenantId);
+    if (!template) {
+      throw new Error('Template não encontrado');
+    }
+
+    const processed = await messageTemplateService.processTemplate(templateId, context.tenantId, contact, variables);
+
+    if (template.messageType === 'TEXT') {
+      return { text: processed.content };
+    }
+
+    if (!processed.mediaUrl) {
+      throw new Error(`Template "${template.name}" sem URL de mídia`);
+    }
+
+    switch (template.messageType) {
+      case 'IMAGE':
+        return { image: { url: processed.mediaUrl }, caption: processed.content };
+      case 'VIDEO':
+        return { video: { url: processed.mediaUrl }, caption: processed.content };
+      case 'AUDIO':
+        return { audio: { url: processed.mediaUrl } };
+      default:
+        return { document: { url: processed.mediaUrl }, caption: processed.content, fileName: template.name };
+    }
+  }
+
+  private async executeSendEmailAction(config: any, context: ExecutionContext): Promise<StepResult> {
+    const contact = await this.loadContact(context);
+    const variables = await this.buildVariables(context, contact);
+
+    const to = templateVariableService.render(String(config.to || ''), variables).trim() || contact?.email;
+    if (!to) {
+      throw new Error('Destinatário do email não informado');
+    }
+
+    const subject = templateVariableService.render(String(config.subject || ''), variables).trim();
+    if (!subject) {
+      throw new Error('Assunto do email é obrigatório');
+    }
+
+    const body = templateVariableService.render(String(config.body || ''), variables);
+    await emailService.send(context.tenantId, {
+      to,
+      subject,
+      ...(config.isHtml ? { html: body } : { text: body })
+    });
+
+    return { detail: `Email enviado para ${to}` };
+  }
+
+  private async executeStartInteractiveCampaignAction(config: any, context: ExecutionContext): Promise<StepResult> {
+    if (!config.campaignId) {
+      throw new Error('Campanha interativa não informada');
+    }
+
+    let contact: any = await this.loadContact(context);
+    const phone = conversationService.normalizePhone(contact?.telefone || context.variables.contactPhone || '');
+    if (!phone) {
+      throw new Error('Contato sem telefone para iniciar a campanha interativa');
+    }
+
+    if (await optOutService.isSuppressed(context.tenantId, phone)) {
+      return { detail: `Contato ${phone} descadastrado (opt-out) - fluxo não iniciado`, skipped: true };
+    }
+
+    // Bots atendem também números ainda não cadastrados
+    if (!contact) {
+      contact = await ContactService.createContact({
+        nome: context.variables.contactName || phone,
+        telefone: phone,
+        tenantId: context.tenantId
+      }, 'AUTOMATION');
+      context.contactId = contact.id;
+    }
+
+    const result = await interactiveCampaignFlowEngine.startSession(config.campaignId, context.tenantId, contact, phone);
+    if (!result.started) {
+      return { detail: `Contato ${phone} já está em um fluxo interativo`, skipped: true };
+    }
+
+    return { detail: `Fluxo interativo iniciado para ${phone} (sessão ${result.sessionId})` };
+  }
+
+  private async loadContact(context: ExecutionContext) {
+    if (!context.contactId) {
+      return null;
+    }
+
+    return prisma.contact.findFirst({
+      where: { id: context.contactId, tenantId: context.tenantId },
+      include: { categoria: true }
+    });
+  }
+
+  /**
+   * Variáveis para {{...}}: dados do trigger (valores simples) e campos do contato
+   */
+  private async buildVariables(context: ExecutionContext, contact: any): Promise<TemplateVariables> {
+    const variables: TemplateVariables = {};
+
+    for (const [key, value] of Object.entries(context.variables || {})) {
+      if (value !== null && value !== undefined && typeof value !== 'object') {
+        variables[key.toLowerCase()] = String(value);
+      }
+    }
+
+    if (contact) {
+      Object.assign(variables, await templateVariableService.getContactVariables(contact, context.tenantId));
+    }
+
+    return variables;
   }
 
   private async executeAddTagAction(config: any, context: ExecutionContext): Promise<void> {
-    if (context.contactId) {
-      await prisma.contact.update({
-        where: { id: context.contactId },
+    const contact = await this.loadContact(context);
+    if (contact && !contact.tags.includes(config.tag)) {
+      const updatedContact = await prisma.contact.update({
+        where: { id: contact.id },
         data: {
           tags: {
             push: config.tag
           }
         }
       });
+      domainEvents.contactUpdated(contact, updatedContact, 'AUTOMATION', context.flowId);
       console.log(`🏷️ Tag adicionada: ${config.tag}`);
     }
   }
 
   private async executeRemoveTagAction(config: any, context: ExecutionContext): Promise<void> {
-    if (context.contactId) {
-      const contact = await prisma.contact.findUnique({
-        where: { id: context.contactId }
-      });
+    const contact = await this.loadContact(context);
 
-      if (contact) {
-        const newTags = contact.tags.filter(tag => tag !== config.tag);
-        await prisma.contact.update({
-          where: { id: context.contactId },
-          data: { tags: newTags }
-        });
-        console.log(`🏷️ Tag removida: ${config.tag}`);
-      }
+    if (contact && contact.tags.includes(config.tag)) {
+      const newTags = contact.tags.filter(tag => tag !== config.tag);
+      const updatedContact = await prisma.contact.update({
+        where: { id: contact.id },
+        data: { tags: newTags }
+      });
+      domainEvents.contactUpdated(contact, updatedContact, 'AUTOMATION', context.flowId);
+      console.log(`🏷️ Tag removida: ${config.tag}`);
     }
   }
 
@@ -437,12 +1032,14 @@ export class AutomationService {
   }
 
   private async executeUpdateContactAction(config: any, context: ExecutionContext): Promise<void> {
-    if (context.contactId && config.fields) {
+    const contact = config.fields ? await this.loadContact(context) : null;
+    if (contact) {
       try {
-        await prisma.contact.update({
-          where: { id: context.contactId },
+        const updatedContact = await prisma.contact.update({
+          where: { id: contact.id },
           data: config.fields
         });
+        domainEvents.contactUpdated(contact, updatedContact, 'AUTOMATION', context.flowId);
         console.log('📝 Contato atualizado:', context.contactId);
       } catch (error) {
         console.error('❌ Erro ao atualizar contato:', error);
@@ -543,22 +1140,28 @@ export class AutomationService {
       errors.push('Pelo menos uma ação é obrigatória');
     }
 
+    if (flow.trigger?.config?.pattern) {
+      const patternError = this.validateTriggerPattern(flow.trigger.config.pattern);
+      if (patternError) {
+        errors.push(patternError);
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors
     };
   }
 
-  private async logExecution(executionId: string, flowId: string, status: string, context: ExecutionContext | null, error?: any): Promise<void> {
+  private async finishExecution(executionId: string, status: string, context: ExecutionContext | null, error?: any, executedAt?: Date): Promise<void> {
     try {
-      await prisma.automationExecution.create({
+      await prisma.automationExecution.update({
+        where: { id: executionId },
         data: {
-          id: executionId,
-          flowId,
           status,
-          executedAt: new Date(),
-          context: context as any,
-          error: error ? String(error) : null
+          ...(context ? { context: context as any } : {}),
+          error: error ? (error instanceof Error ? error.message : String(error)) : null,
+          duration: executedAt ? Date.now() - executedAt.getTime() : undefined
         }
       });
     } catch (logError) {
@@ -602,6 +1205,7 @@ export class AutomationService {
     await prisma.automationFlow.delete({
       where: { id: flowId, tenantId }
     });
+    this.flowCache.clear();
 
     return true;
   }
@@ -0,0 +1,389 @@
+/**
+ * Campaign Experiment Service
+ * Testes A/B de campanhas: variantes nomeadas com peso no tráfego, métricas por variante
+ * e fase de teste opcional, ao fim da qual a variante vencedora segue para os contatos restantes.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { websocketService } from './websocketService';
+
+const prisma = new PrismaClient();
+
+export const WINNER_METRICS = ['DELIVERED', 'READ', 'REPLIED', 'OPTED_OUT'] as const;
+
+export type WinnerMetric = typeof WINNER_METRICS[number];
+
+export interface ExperimentConfig {
+  testPercentage: number; // Percentual dos contatos que recebe as variantes na fase de teste
+  waitMinutes: number; // Espera após o último envio de teste antes de escolher o vencedor
+  winnerMetric: WinnerMetric; // OPTED_OUT: vence a menor taxa
+}
+
+export interface VariantInput {
+  name: string;
+  weight: number;
+  messageType: string;
+  messageContent: any;
+}
+
+export interface VariantMetrics {
+  assigned: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  optedOut: number;
+}
+
+const MIN_VARIANTS = 2;
+const MAX_VARIANTS = 5;
+const MAX_WEIGHT = 100;
+const MAX_WAIT_MINUTES = 7 * 24 * 60;
+const MESSAGE_TYPES = ['text', 'image', 'video', 'audio', 'document', 'sequence', 'openai', 'groq', 'wait', 'template', 'buttons', 'list', 'poll', 'location', 'contact', 'reaction'];
+
+const METRIC_FIELDS: Record<WinnerMetric, keyof VariantMetrics> = {
+  DELIVERED: 'delivered',
+  READ: 'read',
+  REPLIED: 'replied',
+  OPTED_OUT: 'optedOut',
+};
+
+/**
+ * Distribui `total` itens proporcionalmente aos pesos (maiores restos recebem as sobras)
+ */
+function allocateByWeight(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  const exact = weights.map(weight => (total * weight) / sum);
+  const counts = exact.map(Math.floor);
+  let remaining = total - counts.reduce((acc, count) => acc + count, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (let i = 0; remaining > 0; i = (i + 1) % byRemainder.length, remaining--) {
+    counts[byRemainder[i].index]++;
+  }
+
+  return counts;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function rate(count: number, sent: number): number {
+  return sent > 0 ? Math.round((count / sent) * 10000) / 100 : 0;
+}
+
+export const campaignExperimentService = {
+  /**
+   * Valida as variantes enviadas pela API (lista vazia = campanha sem teste A/B)
+   */
+  normalizeVariants(input: any): VariantInput[] {
+    if (input === undefined || input === null) {
+      return [];
+    }
+    if (!Array.isArray(input)) {
+      throw new Error('Variantes devem ser uma lista');
+    }
+    if (input.length === 0) {
+      return [];
+    }
+    if (input.length < MIN_VARIANTS || input.length > MAX_VARIANTS) {
+      throw new Error(`Teste A/B deve ter de ${MIN_VARIANTS} a ${MAX_VARIANTS} variantes`);
+    }
+
+    const variants = input.map((variant: any, index: number) => {
+      const name = String(variant?.name || '').trim() || `Variante ${String.fromCharCode(65 + index)}`;
+      const weight = Number(variant?.weight ?? 1);
+      if (!Number.isInteger(weight) || weight < 1 || weight > MAX_WEIGHT) {
+        throw new Error(`Peso da variante "${name}" deve estar entre 1 e ${MAX_WEIGHT}`);
+      }
+      if (!MESSAGE_TYPES.includes(variant?.messageType)) {
+        throw new Error(`Tipo de mensagem inválido na variante "${name}"`);
+      }
+      if (!variant.messageContent) {
+        throw new Error(`Conteúdo da mensagem é obrigatório na variante "${name}"`);
+      }
+      return { name, weight, messageType: variant.messageType, messageContent: variant.messageContent };
+    });
+
+    if (new Set(variants.map(v => v.name.toLowerCase())).size !== variants.length) {
+      throw new Error('Nomes das variantes devem ser diferentes');
+    }
+
+    return variants;
+  },
+
+  /**
+   * Valida a fase de teste (null = todos os contatos divididos pelos pesos, sem vencedor)
+   */
+  normalizeExperiment(input: any): ExperimentConfig | null {
+    if (input === undefined || input === null || input === '') {
+      return null;
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      throw new Error('Configuração do teste A/B inválida');
+    }
+
+    const testPercentage = Number(input.testPercentage);
+    if (!Number.isInteger(testPercentage) || testPercentage < 1 || testPercentage > 99) {
+      throw new Error('Percentual da fase de teste deve estar entre 1 e 99');
+    }
+
+    const waitMinutes = Number(input.waitMinutes ?? 60);
+    if (!Number.isInteger(waitMinutes) || waitMinutes < 0 || waitMinutes > MAX_WAIT_MINUTES) {
+      throw new Error('Espera pelo resultado do teste deve ser de 0 minutos a 7 dias');
+    }
+
+    if (!WINNER_METRICS.includes(input.winnerMetric)) {
+      throw new Error(`Métrica do vencedor deve ser uma de: ${WINNER_METRICS.join(', ')}`);
+    }
+
+    return { testPercentage, waitMinutes, winnerMetric: input.winnerMetric };
+  },
+
+  /**
+   * Cria as variantes da campanha e distribui as mensagens entre elas conforme o peso.
+   * Com fase de teste, só a amostra de teste recebe variante; o restante aguarda o vencedor.
+   */
+  async setupVariants(campaignId: string, variants: VariantInput[], experiment: ExperimentConfig | null) {
+    const created = [];
+    for (let i = 0; i < variants.length; i++) {
+      created.push(await prisma.campaignVariant.create({
+        data: {
+          campaignId,
+          name: variants[i].name,
+          weight: variants[i].weight,
+          position: i,
+          messageType: variants[i].messageType,
+          messageContent: JSON.stringify(variants[i].messageContent),
+        },
+      }));
+    }
+
+    const messages = shuffle(await prisma.campaignMessage.findMany({
+      where: { campaignId },
+      select: { id: true },
+    }));
+
+    // A amostra de teste tem ao menos um contato por variante
+    const sampleSize = experiment
+      ? Math.min(messages.length, Math.max(created.length, Math.ceil((messages.length * experiment.testPercentage) / 100)))
+      : messages.length;
+    const counts = allocateByWeight(sampleSize, created.map(variant => variant.weight));
+
+    let offset = 0;
+    for (let i = 0; i < created.length; i++) {
+      const ids = messages.slice(offset, offset + counts[i]).map(message => message.id);
+      offset += counts[i];
+      if (ids.length > 0) {
+        await prisma.campaignMessage.updateMany({
+          where: { id: { in: ids } },
+          data: { variantId: created[i].id },
+        });
+      }
+    }
+
+    console.log(`🧪 Campanha ${campaignId}: ${sampleSize} contatos distribuídos entre ${created.length} variantes (${counts.join('/')})`);
+    return created;
+  },
+
+  /**
+   * Campanha com fase de teste ainda sem vencedor: mensagens sem variante ficam retidas
+   */
+  isHoldingForWinner(campaign: { experiment: unknown; winnerVariantId: string | null }): boolean {
+    return !!campaign.experiment && !campaign.winnerVariantId;
+  },
+
+  /**
+   * Métricas de cada variante. Respostas e descadastros contam quando chegam depois do envio.
+   */
+  async getVariantMetrics(campaignId: string): Promise<Map<string, VariantMetrics>> {
+    const rows = await prisma.$queryRaw<Array<{ variant_id: string } & VariantMetrics>>`
+      SELECT cm.variant_id,
+        COUNT(*)::int AS "assigned",
+        COUNT(cm.sent_at)::int AS "sent",
+        COUNT(cm.delivered_at)::int AS "delivered",
+        COUNT(cm.read_at)::int AS "read",
+        COUNT(*) FILTER (WHERE cm.sent_at IS NOT NULL AND EXISTS (
+          SELECT 1 FROM messages m
+          WHERE m.direction = 'INBOUND'
+            AND m.tenant_id IS NOT DISTINCT FROM cm.tenant_id
+            AND m.contact_phone = regexp_replace(cm.contact_phone, '\\D', '', 'g')
+            AND m.timestamp > cm.sent_at
+        ))::int AS "replied",
+        COUNT(*) FILTER (WHERE cm.sent_at IS NOT NULL AND EXISTS (
+          SELECT 1 FROM suppressed_contacts s
+          WHERE s.tenant_id = cm.tenant_id
+            AND s.phone = regexp_replace(cm.contact_phone, '\\D', '', 'g')
+            AND s.criado_em >= cm.sent_at
+        ))::int AS "optedOut"
+      FROM campaign_messages cm
+      WHERE cm.campaign_id = ${campaignId} AND cm.variant_id IS NOT NULL
+      GROUP BY cm.variant_id
+    `;
+
+    return new Map(rows.map(({ variant_id, ...metrics }) => [variant_id, metrics]));
+  },
+
+  /**
+   * Variantes com métricas e taxas (sobre os enviados) para o relatório da campanha
+   */
+  async getReport(campaign: { id: string; experiment: unknown; experimentTestEndsAt: Date | null; winnerVariantId: string | null; winnerSelectedAt: Date | null }) {
+    const variants = await prisma.campaignVariant.findMany({
+      where: { campaignId: campaign.id },
+      orderBy: { position: 'asc' },
+    });
+
+    if (variants.length === 0) {
+      return null;
+    }
+
+    const metrics = await this.getVariantMetrics(campaign.id);
+    const heldCount = this.isHoldingForWinner(campaign)
+      ? await prisma.campaignMessage.count({ where: { campaignId: campaign.id, variantId: null, status: 'PENDING' } })
+      : 0;
+
+    return {
+      config: campaign.experiment as ExperimentConfig | null,
+      testEndsAt: campaign.experimentTestEndsAt,
+      winnerVariantId: campaign.winnerVariantId,
+      winnerSelectedAt: campaign.winnerSelectedAt,
+      heldCount,
+      variants: variants.map(variant => {
+        const counts = metrics.get(variant.id) || { assigned: 0, sent: 0, delivered: 0, read: 0, replied: 0, optedOut: 0 };
+        let messageContent: any = {};
+        try {
+          messageContent = JSON.parse(variant.messageContent);
+        } catch {
+          messageContent = {};
+        }
+
+        return {
+          id: variant.id,
+          name: variant.name,
+          weight: variant.weight,
+          messageType: variant.messageType,
+          messageContent,
+          isWinner: variant.id === campaign.winnerVariantId,
+          metrics: counts,
+          rates: {
+            delivered: rate(counts.delivered, counts.sent),
+            read: rate(counts.read, counts.sent),
+            replied: rate(counts.replied, counts.sent),
+            optedOut: rate(counts.optedOut, counts.sent),
+          },
+        };
+      }),
+    };
+  },
+
+  /**
+   * Ciclo da fase de teste (chamado pelo scheduler para campanhas em execução):
+   * encerrados os envios de teste, aguarda a espera configurada e escolhe o vencedor.
+   * Retorna true quando o vencedor acabou de ser definido.
+   */
+  async processTestPhase(campaignId: string, now: Date = new Date()): Promise<boolean> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { id: true, nome: true, tenantId: true, experiment: true, experimentTestEndsAt: true, winnerVariantId: true },
+    });
+
+    if (!campaign || !this.isHoldingForWinner(campaign)) {
+      return false;
+    }
+
+    const config = this.normalizeExperiment(campaign.experiment);
+    if (!config) {
+      return false;
+    }
+
+    if (!campaign.experimentTestEndsAt) {
+      const activeTestMessages = await prisma.campaignMessage.count({
+        where: { campaignId, variantId: { not: null }, status: { in: ['PENDING', 'PROCESSING'] } },
+      });
+      if (activeTestMessages > 0) {
+        return false;
+      }
+
+      const testEndsAt = new Date(now.getTime() + config.waitMinutes * 60 * 1000);
+      await prisma.campaign.update({ where: { id: campaignId }, data: { experimentTestEndsAt: testEndsAt } });
+      console.log(`🧪 Envios de teste da campanha ${campaignId} concluídos - vencedor será escolhido em ${testEndsAt.toISOString()}`);
+
+      if (testEndsAt > now) {
+        return false;
+      }
+    } else if (campaign.experimentTestEndsAt > now) {
+      return false;
+    }
+
+    const winner = await this.pickWinner(campaignId, config.winnerMetric);
+    if (!winner) {
+      return false;
+    }
+
+    // Condicionado à ausência de vencedor para não escolher duas vezes em ciclos concorrentes
+    const { count } = await prisma.campaign.updateMany({
+      where: { id: campaignId, winnerVariantId: null },
+      data: { winnerVariantId: winner.id, winnerSelectedAt: now },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    const { count: remaining } = await prisma.campaignMessage.updateMany({
+      where: { campaignId, variantId: null },
+      data: { variantId: winner.id },
+    });
+
+    console.log(`🏆 Campanha ${campaignId}: variante "${winner.name}" venceu por ${config.winnerMetric} - ${remaining} contatos restantes`);
+
+    if (campaign.tenantId && websocketService.isInitialized) {
+      await websocketService.notifyTenant(campaign.tenantId, {
+        title: 'Teste A/B Concluído',
+        message: `A variante "${winner.name}" venceu o teste da campanha "${campaign.nome}" e será enviada aos ${remaining} contatos restantes.`,
+        type: 'CAMPAIGN',
+        data: { campaignId, campaignName: campaign.nome, winnerVariantId: winner.id }
+      });
+    }
+
+    return true;
+  },
+
+  /**
+   * Maior taxa da métrica sobre os enviados (menor, para descadastros). Empate fica com a primeira variante.
+   */
+  async pickWinner(campaignId: string, winnerMetric: WinnerMetric) {
+    const variants = await prisma.campaignVariant.findMany({
+      where: { campaignId },
+      orderBy: { position: 'asc' },
+    });
+    const metrics = await this.getVariantMetrics(campaignId);
+    const field = METRIC_FIELDS[winnerMetric];
+    const direction = winnerMetric === 'OPTED_OUT' ? -1 : 1;
+
+    let winner: typeof variants[number] | null = null;
+    let bestScore = -Infinity;
+
+    for (const variant of variants) {
+      const counts = metrics.get(variant.id);
+      if (!counts || counts.sent === 0) continue;
+
+      const score = direction * (counts[field] / counts.sent);
+      if (score > bestScore) {
+        bestScore = score;
+        winner = variant;
+      }
+    }
+
+    // Nenhum envio de teste bem-sucedido: segue com a primeira variante
+    return winner || variants[0] || null;
+  },
+};
@@ -0,0 +1,194 @@
+/**
+ * Campaign Retry Service
+ * Classificação estruturada das falhas de envio e política de retentativa por campanha
+ * (tentativas, backoff e quais classes de falha são retentáveis).
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const FAILURE_CLASSES = [
+  'INVALID_NUMBER',
+  'PROVIDER_TIMEOUT',
+  'SESSION_DISCONNECTED',
+  'MEDIA_FETCH_ERROR',
+  'AI_GENERATION_ERROR',
+  'PROVIDER_ERROR',
+  'DUPLICATE_CONTACT',
+  'SERVICE_WINDOW_CLOSED',
+] as const;
+
+export type FailureClass = typeof FAILURE_CLASSES[number];
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoffSeconds: number; // Espera antes da 2ª tentativa; dobra a cada nova tentativa
+  backoffMaxSeconds: number;
+  retryableClasses: FailureClass[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  backoffSeconds: 30,
+  backoffMaxSeconds: 30 * 60,
+  retryableClasses: ['PROVIDER_TIMEOUT', 'SESSION_DISCONNECTED', 'MEDIA_FETCH_ERROR', 'AI_GENERATION_ERROR', 'PROVIDER_ERROR'],
+};
+
+const MAX_ATTEMPTS_LIMIT = 20;
+const MAX_BACKOFF_SECONDS = 24 * 60 * 60;
+
+/**
+ * Falha já classificada no ponto em que ocorreu (ex.: geração de IA, número inexistente)
+ */
+export class CampaignMessageError extends Error {
+  constructor(public failureClass: FailureClass, message: string) {
+    super(message);
+    this.name = 'CampaignMessageError';
+  }
+}
+
+// Padrões das mensagens de erro dos provedores (WAHA, Evolution, QuePasa, Cloud API) e do node-fetch
+const CLASSIFICATION_PATTERNS: Array<[FailureClass, RegExp]> = [
+  ['PROVIDER_TIMEOUT', /timeout|timed out|ETIMEDOUT|ESOCKETTIMEDOUT|ECONNABORTED|\b504\b|\b408\b/i],
+  ['SESSION_DISCONNECTED', /not connected|disconnected|session.*(not found|stopped|closed|failed)|connection closed|\bSTOPPED\b|SCAN_QR_CODE|ECONNREFUSED|\b503\b/i],
+  ['MEDIA_FETCH_ERROR', /media|download|file.*(not found|fetch)|ENOTFOUND.*\.(jpg|jpeg|png|gif|mp4|mp3|ogg|pdf)/i],
+  ['INVALID_NUMBER', /não existe no whatsapp|not on whatsapp|invalid (number|phone|jid)|number.*does not exist/i],
+  ['SERVICE_WINDOW_CLOSED', /janela de atendimento|re-engagement|\(131047\)/i],
+];
+
+export const campaignRetryService = {
+  classifyError(error: unknown): FailureClass {
+    if (error instanceof CampaignMessageError) {
+      return error.failureClass;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const match = CLASSIFICATION_PATTERNS.find(([, pattern]) => pattern.test(message));
+    return match ? match[0] : 'PROVIDER_ERROR';
+  },
+
+  /**
+   * Valida a política enviada pela API (null = usar a padrão)
+   */
+  normalize(input: any): RetryPolicy | null {
+    if (input === undefined || input === null || input === '') {
+      return null;
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      throw new Error('Política de retentativa inválida');
+    }
+
+    const maxAttempts = Number(input.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts);
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_ATTEMPTS_LIMIT) {
+      throw new Error(`Número de tentativas deve estar entre 1 e ${MAX_ATTEMPTS_LIMIT}`);
+    }
+
+    const backoffSeconds = Number(input.backoffSeconds ?? DEFAULT_RETRY_POLICY.backoffSeconds);
+    const backoffMaxSeconds = Number(input.backoffMaxSeconds ?? Math.max(backoffSeconds, DEFAULT_RETRY_POLICY.backoffMaxSeconds));
+    if (!Number.isInteger(backoffSeconds) || backoffSeconds < 1 || backoffSeconds > MAX_BACKOFF_SECONDS) {
+      throw new Error('Intervalo entre tentativas deve ser de 1 segundo a 24 horas');
+    }
+    if (!Number.isInteger(backoffMaxSeconds) || backoffMaxSeconds < backoffSeconds || backoffMaxSeconds > MAX_BACKOFF_SECONDS) {
+      throw new Error('Intervalo máximo entre tentativas deve ser maior que o inicial e de até 24 horas');
+    }
+
+    const retryableClasses = input.retryableClasses ?? DEFAULT_RETRY_POLICY.retryableClasses;
+    if (!Array.isArray(retryableClasses) || retryableClasses.some((c: any) => !FAILURE_CLASSES.includes(c))) {
+      throw new Error(`Classes de falha retentáveis devem estar entre: ${FAILURE_CLASSES.join(', ')}`);
+    }
+
+    return {
+      maxAttempts,
+      backoffSeconds,
+      backoffMaxSeconds,
+      retryableClasses: Array.from(new Set(retryableClasses as FailureClass[])),
+    };
+  },
+
+  /**
+   * Política efetiva da campanha (tolerante a JSON inválido gravado anteriormente)
+   */
+  resolve(json: unknown): RetryPolicy {
+    try {
+      return this.normalize(json) || DEFAULT_RETRY_POLICY;
+    } catch {
+      return DEFAULT_RETRY_POLICY;
+    }
+  },
+
+  isRetryable(policy: RetryPolicy, failureClass: FailureClass | string | null): boolean {
+    return !!failureClass && policy.retryableClasses.includes(failureClass as FailureClass);
+  },
+
+  /**
+   * Reenfileira as mensagens FAILED da campanha cuja classe de falha é retentável pela política.
+   * Campanhas já concluídas voltam para RUNNING.
+   */
+  async retryFailedMessages(campaignId: string, tenantId?: string) {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: campaignId, ...(tenantId ? { tenantId } : {}) },
+      select: { id: true, status: true, retryPolicy: true },
+    });
+
+    if (!campaign) {
+      throw new Error('Campanha não encontrada');
+    }
+    if (campaign.status === 'PENDING') {
+      throw new Error('Campanha ainda não foi iniciada');
+    }
+
+    const policy = this.resolve(campaign.retryPolicy);
+
+    const { count } = await prisma.campaignMessage.updateMany({
+      where: { campaignId, status: 'FAILED', failureClass: { in: policy.retryableClasses } },
+      data: { status: 'PENDING', errorMessage: null, failureClass: null },
+    });
+
+    if (count === 0) {
+      return { requeued: 0, status: campaign.status };
+    }
+
+    // Campanha pausada continua pausada; as mensagens entram na fila ao retomar
+    const status = ['COMPLETED', 'FAILED'].includes(campaign.status) ? 'RUNNING' : campaign.status;
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: {
+        status,
+        failedCount: { decrement: count },
+        ...(status !== campaign.status ? { completedAt: null } : {}),
+      },
+    });
+
+    console.log(`🔁 ${count} mensagens com falha retentável da campanha ${campaignId} devolvidas para a fila`);
+    return { requeued: count, status };
+  },
+
+  /**
+   * Resumo das falhas da campanha por classe, indicando quais a política permite reenviar
+   */
+  async getFailureSummary(campaignId: string, retryPolicy: unknown) {
+    const policy = this.resolve(retryPolicy);
+    const rows = await prisma.campaignMessage.groupBy({
+      by: ['failureClass'],
+      where: { campaignId, status: 'FAILED' },
+      _count: { _all: true },
+    });
+
+    return {
+      policy,
+      byClass: rows.map(row => ({
+        failureClass: row.failureClass || 'UNCLASSIFIED',
+        count: row._count._all,
+        retryable: this.isRetryable(policy, row.failureClass),
+      })),
+      retryableCount: rows
+        .filter(row => this.isRetryable(policy, row.failureClass))
+        .reduce((sum, row) => sum + row._count._all, 0),
+    };
+  },
+
+  backoffFor(policy: RetryPolicy) {
+    return { backoffBaseMs: policy.backoffSeconds * 1000, backoffMaxMs: policy.backoffMaxSeconds * 1000 };
+  },
+};
@@ -1,15 +1,36 @@
-import { PrismaClient } from '@prisma/client';
-import { sendMessage, checkContactExists } from './wahaApiService';
-import { sendMessageViaEvolution, checkContactExistsEvolution } from './evolutionMessageService';
-import { sendMessageViaQuepasa, checkContactExistsQuepasa } from './quepasaMessageService';
-import { ContactService } from './contactService';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { openaiService } from './openaiService';
 import { groqService } from './groqService';
 import { websocketService } from './websocketService';
-import { automationService, TriggerType } from './automationService';
+import { domainEvents } from './domainEventService';
+import { conversationService } from './conversationService';
+import { jobQueueService, QueueJob, JobDeferredError, JobFailedError } from './jobQueueService';
+import { templateVariableService } from './templateVariableService';
+import { optOutService, OPT_OUT_STATUS } from './optOutService';
+import { sendingWindowService } from './sendingWindowService';
+import { recurringCampaignService } from './recurringCampaignService';
+import { sessionRateLimitService } from './sessionRateLimitService';
+import { sessionHealthService, NO_HEALTHY_SESSION_PAUSE_REASON } from './sessionHealthService';
+import { campaignRetryService, CampaignMessageError } from './campaignRetryService';
+import { campaignExperimentService } from './campaignExperimentService';
+import { getProvider, WhatsAppProvider, ProviderSession, TemplateMessage, buildInteractiveMessage } from './whatsappProviders';
+import { providerMessageKeyId } from './whatsappProviders/utils';
 
 const prisma = new PrismaClient();
 
+export const CAMPAIGN_MESSAGE_QUEUE = 'campaign-message';
+export const INTERACTIVE_DISPATCH_QUEUE = 'interactive-campaign-dispatch';
+
+interface CampaignMessageJobPayload {
+  campaignId: string;
+  messageId: string;
+}
+
+interface InteractiveDispatchJobPayload {
+  campaignId: string;
+  requestedAt: string; // Início do disparo (ISO), usado para retomar após adiamentos
+}
+
 class CampaignSchedulerService {
   private isRunning = false;
   private intervalId: NodeJS.Timeout | null = null;
@@ -24,7 +45,25 @@ class CampaignSchedulerService {
     console.log('Starting campaign scheduler...');
     this.isRunning = true;
 
-    // Verificar campanhas a cada 30 segundos
+    // Envio das mensagens é feito pela fila persistente (sobrevive a reinícios)
+    jobQueueService.registerHandler<CampaignMessageJobPayload>(
+      CAMPAIGN_MESSAGE_QUEUE,
+      (job) => this.processMessageJob(job),
+      {
+        concurrency: parseInt(process.env.CAMPAIGN_QUEUE_CONCURRENCY || '10'),
+        perGroupConcurrency: parseInt(process.env.CAMPAIGN_SESSION_CONCURRENCY || '1'),
+        onDead: (job, error) => this.handleDeadMessageJob(job, error),
+      }
+    );
+    // Disparo das campanhas interativas: adiado pela fila quando as conexões estão sem orçamento de envio
+    jobQueueService.registerHandler<InteractiveDispatchJobPayload>(
+      INTERACTIVE_DISPATCH_QUEUE,
+      (job) => this.processInteractiveDispatchJob(job),
+      { concurrency: parseInt(process.env.INTERACTIVE_DISPATCH_CONCURRENCY || '2') }
+    );
+    jobQueueService.start();
+
+    // Verificar agendamentos e campanhas em execução a cada 30 segundos
     this.intervalId = setInterval(async () => {
       await this.processCampaigns();
     }, 30000);
@@ -45,10 +84,15 @@ class CampaignSchedulerService {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+
+    jobQueueService.stop();
   }
 
   private async processCampaigns() {
     try {
+      // Saúde das sessões: quedas, quarentena e retomada das campanhas pausadas por falta de sessão
+      await sessionHealthService.process();
+
       // Buscar campanhas que devem ser iniciadas (apenas agendadas cujo horário já chegou)
       const campaignsToStart = await prisma.campaign.findMany({
         where: {
@@ -80,34 +124,24 @@ class CampaignSchedulerService {
         await this.dispatchInteractiveCampaign(interactiveCampaign);
       }
 
-      // Processar campanhas em execução
+      // Materializar as ocorrências vencidas das campanhas recorrentes (já entram como RUNNING)
+      await recurringCampaignService.processDueRuns();
+
+      // Garantir que as mensagens pendentes das campanhas em execução estão na fila
       const runningCampaigns = await prisma.campaign.findMany({
         where: { status: 'RUNNING' },
-        include: {
-          session: true,
-          messages: {
-            where: { status: 'PENDING' }, // Only PENDING, not PROCESSING to avoid duplicates
-            orderBy: { criadoEm: 'asc' },
-            take: 1 // Processar uma mensagem por vez
-          }
-        }
+        select: { id: true, experiment: true, winnerVariantId: true }
       });
 
       for (const campaign of runningCampaigns) {
-        if (campaign.messages.length > 0) {
-          await this.processNextMessage(campaign, campaign.messages[0]);
-        } else {
-          // Verificar se todas as mensagens foram processadas (excluindo PROCESSING e PENDING)
-          const activeCount = await prisma.campaignMessage.count({
-            where: {
-              campaignId: campaign.id,
-              status: { in: ['PENDING', 'PROCESSING'] }
-            }
-          });
+        // Teste A/B: escolher o vencedor ao fim da fase de teste libera os contatos retidos
+        if (campaignExperimentService.isHoldingForWinner(campaign)) {
+          await campaignExperimentService.processTestPhase(campaign.id);
+        }
 
-          if (activeCount === 0) {
-            await this.completeCampaign(campaign.id);
-          }
+        const enqueued = await this.enqueueCampaignMessages(campaign.id);
+        if (enqueued === 0) {
+          await this.checkCampaignCompletion(campaign.id);
         }
       }
     } catch (error) {
@@ -115,15 +149,184 @@ class CampaignSchedulerService {
     }
   }
 
+  /**
+   * Enfileira as mensagens PENDING da campanha que ainda não têm job ativo.
+   * Cada mensagem recebe uma sessão (round-robin) e um horário de execução escalonado
+   * pelo delay aleatório da campanha, mantendo o intervalo entre envios de cada sessão.
+   * Horários fora da janela de envio são empurrados para a próxima abertura.
+   * Durante a fase de teste A/B só entram as mensagens com variante atribuída.
+   */
+  async enqueueCampaignMessages(campaignId: string): Promise<number> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { id: true, status: true, sessionName: true, sessionNames: true, randomDelay: true, tenantId: true, sendingWindow: true, retryPolicy: true, experiment: true, winnerVariantId: true }
+    });
+
+    if (!campaign || campaign.status !== 'RUNNING') {
+      return 0;
+    }
+
+    const pendingMessages = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT cm.id FROM campaign_messages cm
+      WHERE cm.campaign_id = ${campaignId}
+        AND cm.status = 'PENDING'
+        ${campaignExperimentService.isHoldingForWinner(campaign) ? Prisma.sql`AND cm.variant_id IS NOT NULL` : Prisma.empty}
+        AND NOT EXISTS (
+          SELECT 1 FROM jobs j
+          WHERE j.unique_key = 'campaign-message:' || cm.id
+            AND j.status IN ('PENDING', 'RUNNING')
+        )
+      ORDER BY cm.criado_em ASC
+    `;
+
+    if (pendingMessages.length === 0) {
+      return 0;
+    }
+
+    const window = await sendingWindowService.resolveForCampaign(campaign);
+    if (window && !sendingWindowService.nextOpening(window)) {
+      console.warn(`⚠️ Janela de envio da campanha ${campaign.id} não abre no próximo ano - mensagens não enfileiradas`);
+      return 0;
+    }
+
+    const sessionNames: string[] = campaign.sessionNames ? JSON.parse(campaign.sessionNames) : [campaign.sessionName];
+    const validSessionNames = sessionNames.filter(Boolean);
+    const retryPolicy = campaignRetryService.resolve(campaign.retryPolicy);
+    const nextRunBySession = new Map<string, number>();
+    const now = Date.now();
+
+    for (let i = 0; i < pendingMessages.length; i++) {
+      const sessionName = validSessionNames.length > 0 ? validSessionNames[i % validSessionNames.length] : null;
+      const sessionKey = sessionName || campaign.id;
+      let runAt = nextRunBySession.get(sessionKey) ?? now;
+      if (window) {
+        runAt = (sendingWindowService.nextOpening(window, new Date(runAt)) || new Date(runAt)).getTime();
+      }
+      nextRunBySession.set(sessionKey, runAt + Math.floor(Math.random() * (campaign.randomDelay || 0) * 1000));
+
+      await jobQueueService.enqueue(
+        CAMPAIGN_MESSAGE_QUEUE,
+        { campaignId: campaign.id, messageId: pendingMessages[i].id },
+        {
+          runAt: new Date(runAt),
+          groupKey: sessionName ? `session:${sessionName}` : null,
+          uniqueKey: `campaign-message:${pendingMessages[i].id}`,
+          maxAttempts: retryPolicy.maxAttempts,
+          tenantId: campaign.tenantId,
+        }
+      );
+    }
+
+    console.log(`📥 ${pendingMessages.length} mensagens da campanha ${campaign.id} enfileiradas`);
+    return pendingMessages.length;
+  }
+
+  /**
+   * Handler da fila: envia uma mensagem de campanha
+   */
+  private async processMessageJob(job: QueueJob<CampaignMessageJobPayload>) {
+    const { campaignId, messageId } = job.payload;
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: { session: true }
+    });
+
+    // Campanha pausada/cancelada: a mensagem continua PENDING e volta para a fila ao retomar
+    if (!campaign || campaign.status !== 'RUNNING') {
+      return;
+    }
+
+    // Fora da janela (ex.: janela alterada depois do enfileiramento): o próximo ciclo reagenda para a abertura
+    const window = await sendingWindowService.resolveForCampaign(campaign);
+    if (!sendingWindowService.isOpen(window)) {
+      console.log(`🌙 Campanha ${campaignId} fora da janela de envio - mensagem ${messageId} aguardando próxima abertura`);
+      return;
+    }
+
+    const message = await prisma.campaignMessage.findUnique({ where: { id: messageId } });
+
+    // PROCESSING aparece quando uma tentativa anterior foi interrompida
+    if (!message || !['PENDING', 'PROCESSING'].includes(message.status)) {
+      return;
+    }
+
+    const preferredSession = job.groupKey?.startsWith('session:') ? job.groupKey.slice('session:'.length) : undefined;
+    await this.processNextMessage(campaign, message, preferredSession);
+    await this.checkCampaignCompletion(campaignId);
+  }
+
+  /**
+   * Mensagem esgotou as tentativas na fila: registrar a falha definitiva
+   */
+  private async handleDeadMessageJob(job: QueueJob<CampaignMessageJobPayload>, error: string) {
+    const { campaignId, messageId } = job.payload;
+
+    // A classe registrada na última tentativa prevalece (ex.: job interrompido não tem classificação)
+    const message = await prisma.campaignMessage.findUnique({ where: { id: messageId }, select: { failureClass: true } });
+    const result = await prisma.campaignMessage.updateMany({
+      where: { id: messageId, status: { in: ['PENDING', 'PROCESSING'] } },
+      data: {
+        status: 'FAILED',
+        errorMessage: error,
+        failureClass: message?.failureClass || campaignRetryService.classifyError(new Error(error))
+      }
+    });
+
+    if (result.count > 0) {
+      await prisma.campaign.update({
+        where: { id: campaignId },
+        data: { failedCount: { increment: 1 } }
+      });
+      await this.publishMessageFailed(messageId);
+    }
+
+    await this.checkCampaignCompletion(campaignId);
+  }
+
+  private async publishMessageFailed(messageId: string) {
+    const message = await prisma.campaignMessage.findUnique({ where: { id: messageId } });
+    if (!message?.tenantId) {
+      return;
+    }
+
+    domainEvents.publish('MESSAGE_FAILED', {
+      campaignId: message.campaignId,
+      campaignMessageId: message.id,
+      contactId: message.contactId,
+      contactPhone: message.contactPhone,
+      contactName: message.contactName,
+      tenantId: message.tenantId,
+      messageId: message.messageId,
+      status: 'FAILED',
+      failureClass: message.failureClass,
+      error: message.errorMessage,
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Conclui a campanha quando não há mais mensagens PENDING/PROCESSING
+   */
+  private async checkCampaignCompletion(campaignId: string) {
+    const activeCount = await prisma.campaignMessage.count({
+      where: {
+        campaignId,
+        status: { in: ['PENDING', 'PROCESSING'] }
+      }
+    });
+
+    if (activeCount === 0) {
+      await this.completeCampaign(campaignId);
+    }
+  }
+
   // Função para obter próxima sessão de forma sequencial (round-robin) com informações do provedor
-  private async getNextSequentialSession(campaignId: string, sessionNames: string[]): Promise<{name: string, provider: string} | null> {
+  private async getNextSequentialSession(campaignId: string, sessionNames: string[], preferredSession?: string): Promise<{name: string, provider: string} | null> {
     try {
-      // Buscar sessões ativas
+      // Buscar sessões ativas (sessões em quarentena por falhas recentes ficam fora da rotação)
       const activeSessions = await prisma.whatsAppSession.findMany({
-        where: {
-          name: { in: sessionNames },
-          status: 'WORKING'
-        },
+        where: sessionHealthService.availableSessionsWhere(sessionNames),
         select: {
           name: true,
           status: true,
@@ -139,6 +342,15 @@ class CampaignSchedulerService {
         return null;
       }
 
+      // Usar a sessão atribuída ao job enquanto ela estiver ativa
+      const preferred = preferredSession ? activeSessions.find(session => session.name === preferredSession) : undefined;
+      if (preferred) {
+        return {
+          name: preferred.name,
+          provider: preferred.provider || 'WAHA'
+        };
+      }
+
       // Obter índice atual da campanha (ou inicializar em 0)
       const currentIndex = this.campaignSessionIndexes.get(campaignId) || 0;
 
@@ -200,11 +412,21 @@ class CampaignSchedulerService {
     }
   }
 
-  private async processNextMessage(campaign: any, message: any) {
+  private async processNextMessage(campaign: any, message: any, preferredSession?: string) {
     let selectedSessionInfo: {name: string, provider: string} | null = null;
     let selectedVariationInfo: string | null = null;
 
     try {
+      // Contato descadastrado (opt-out): não enviar
+      if (await optOutService.isSuppressed(campaign.tenantId, message.contactPhone)) {
+        console.log(`🚫 Contato ${message.contactPhone} está na lista de supressão. Pulando mensagem ${message.id}.`);
+        await prisma.campaignMessage.update({
+          where: { id: message.id },
+          data: { status: OPT_OUT_STATUS, errorMessage: 'Contato descadastrado (opt-out)' }
+        });
+        return;
+      }
+
       // IMMEDIATELY mark message as PROCESSING to prevent duplicate processing
       console.log(`🔄 Marking message ${message.id} as PROCESSING to prevent duplication`);
       await prisma.campaignMessage.update({
@@ -216,13 +438,13 @@ class CampaignSchedulerService {
       const sessionNames = campaign.sessionNames ? JSON.parse(campaign.sessionNames) : [campaign.sessionName];
 
       // Escolher próxima sessão de forma sequencial (round-robin)
-      selectedSessionInfo = await this.getNextSequentialSession(campaign.id, sessionNames);
+      selectedSessionInfo = await this.getNextSequentialSession(campaign.id, sessionNames, preferredSession);
 
       if (!selectedSessionInfo) {
-        console.log(`❌ Nenhuma sessão ativa disponível para a campanha ${campaign.id}. Pausando campanha.`);
+        console.log(`❌ Nenhuma sessão ativa disponível para a campanha ${campaign.id}. Pausando campanha até uma sessão voltar.`);
         await prisma.campaign.update({
           where: { id: campaign.id },
-          data: { status: 'PAUSED' }
+          data: { status: 'PAUSED', pauseReason: NO_HEALTHY_SESSION_PAUSE_REASON }
         });
         // Revert message status back to PENDING since we couldn't process it
         await prisma.campaignMessage.update({
@@ -235,28 +457,23 @@ class CampaignSchedulerService {
       const { name: selectedSession, provider } = selectedSessionInfo;
       console.log(`🚀 Distribuição sequencial - Usando sessão: ${selectedSession} (${provider}) para mensagem ${message.id}`);
 
-      // Buscar dados completos da sessão para obter o token QuePasa (se aplicável)
-      let sessionToken: string | undefined;
-      if (provider === 'QUEPASA') {
-        const sessionData = await prisma.whatsAppSession.findUnique({
-          where: { name: selectedSession },
-          select: { quepasaToken: true }
-        });
-        sessionToken = sessionData?.quepasaToken || undefined;
-        console.log(`🔑 Token QuePasa ${sessionToken ? 'encontrado' : 'não encontrado'} para sessão ${selectedSession}`);
-      }
-
-      // Aplicar delay randomizado
-      if (campaign.randomDelay > 0) {
-        const randomDelay = Math.floor(Math.random() * campaign.randomDelay * 1000);
-        console.log(`Applying random delay of ${randomDelay}ms for message ${message.id}`);
-        await new Promise(resolve => setTimeout(resolve, randomDelay));
-      }
+      // Dados da sessão usados pelo adaptador do provider (token QuePasa, credenciais Evolution importadas e da Cloud API)
+      const providerSession: ProviderSession = await prisma.whatsAppSession.findUnique({
+        where: { name: selectedSession },
+        select: { id: true, name: true, provider: true, config: true, quepasaToken: true, cloudPhoneNumberId: true, cloudAccessToken: true }
+      }) || { name: selectedSession, provider };
+      const whatsappProvider = getProvider(provider);
 
       console.log(`🔍 DEBUGGING - Message ${message.id} for contact ${message.contactId}`);
 
+      // Teste A/B: a variante atribuída ao contato define o conteúdo enviado
+      const variant = message.variantId
+        ? await prisma.campaignVariant.findUnique({ where: { id: message.variantId } })
+        : null;
+      const messageType = variant?.messageType ?? campaign.messageType;
+
       // Preparar conteúdo da mensagem e selecionar variações ANTES dos outros processamentos
-      const messageContent = JSON.parse(campaign.messageContent);
+      const messageContent = JSON.parse(variant?.messageContent ?? campaign.messageContent);
       console.log(`🔍 MESSAGE CONTENT:`, messageContent);
 
       // Primeiro selecionar variação aleatória se houver
@@ -281,6 +498,7 @@ class CampaignSchedulerService {
           where: { id: message.id },
           data: {
             status: 'FAILED',
+            failureClass: 'DUPLICATE_CONTACT',
             errorMessage: `Contato já processado nesta campanha (mensagem ${alreadyProcessed.id})`,
             sessionName: selectedSession,
             selectedVariation: selectedVariationInfo
@@ -290,36 +508,32 @@ class CampaignSchedulerService {
         return; // Pular este envio
       }
 
-      // Buscar dados do contato para variáveis dinâmicas usando ContactService
-      const contactsResponse = await ContactService.getContacts();
-      const contact = contactsResponse.contacts.find((c: any) => c.id === message.contactId);
+      // Buscar dados do contato para variáveis dinâmicas
+      const contact = await prisma.contact.findUnique({
+        where: { id: message.contactId },
+        include: { categoria: true }
+      });
 
       console.log(`🔍 CONTACT FOUND:`, contact);
 
-      // Depois aplicar variáveis dinâmicas se houver contato
-      const processedContent = contact ? this.processVariables(contentWithSelectedVariation, contact) : contentWithSelectedVariation;
+      // Depois aplicar variáveis dinâmicas (campos nativos e personalizados) se houver contato
+      const processedContent = contact ? await this.processVariables(contentWithSelectedVariation, contact, campaign.tenantId) : contentWithSelectedVariation;
 
       console.log(`🔍 PROCESSED CONTENT:`, processedContent);
 
-      // Verificar se o número existe no WhatsApp antes de enviar usando provedor correto
-      let contactCheck: any = { exists: false };
-
-      if (provider === 'EVOLUTION') {
-        contactCheck = await checkContactExistsEvolution(selectedSession, message.contactPhone);
-      } else if (provider === 'QUEPASA') {
-        contactCheck = await checkContactExistsQuepasa(selectedSession, message.contactPhone, sessionToken);
-      } else {
-        contactCheck = await checkContactExists(selectedSession, message.contactPhone);
-      }
+      // Verificar se o número existe no WhatsApp antes de enviar
+      const contactCheck = await whatsappProvider.checkNumber(providerSession, message.contactPhone);
 
       if (!contactCheck.exists) {
         console.log(`❌ Contact ${message.contactPhone} does not exist on WhatsApp (${provider}). Skipping message.`);
+        await sessionHealthService.recordEvent(selectedSession, 'CONTACT_NOT_FOUND', message.contactPhone);
 
         // Marcar como falha por número inexistente
         await prisma.campaignMessage.update({
           where: { id: message.id },
           data: {
             status: 'FAILED',
+            failureClass: 'INVALID_NUMBER',
             errorMessage: `Número não existe no WhatsApp (${provider})`,
             selectedVariation: selectedVariationInfo
           }
@@ -332,51 +546,38 @@ class CampaignSchedulerService {
             failedCount: { increment: 1 }
           }
         });
+        await this.publishMessageFailed(message.id);
 
         return;
       }
 
-      if (provider === 'EVOLUTION') {
-        console.log(`✅ Contact ${message.contactPhone} exists on Evolution. Using validated phone: ${contactCheck.validPhone}`);
-      } else if (provider === 'QUEPASA') {
-        console.log(`✅ Contact ${message.contactPhone} exists on Quepasa. Using validated phone: ${contactCheck.validPhone}`);
-      } else {
-        console.log(`✅ Contact ${message.contactPhone} exists on WAHA. Using chatId: ${contactCheck.chatId}`);
-      }
+      console.log(`✅ Contact ${message.contactPhone} exists on ${provider}. Using recipient: ${contactCheck.recipient || message.contactPhone}`);
 
-      // Enviar mensagem usando o provedor correto
-      let result: any;
-      if (provider === 'EVOLUTION') {
-        result = await this.sendMessageViaEvolution(
-          selectedSession,
-          contactCheck.validPhone || message.contactPhone,
-          campaign.messageType,
-          processedContent,
-          contact,
-          campaign.tenantId
-        );
-      } else if (provider === 'QUEPASA') {
-        result = await this.sendMessageViaQuepasa(
-          selectedSession,
-          contactCheck.validPhone || message.contactPhone,
-          campaign.messageType,
-          processedContent,
-          contact,
-          campaign.tenantId,
-          sessionToken
-        );
-      } else {
-        result = await this.sendMessageViaWaha(
-          selectedSession,
-          message.contactPhone,
-          campaign.messageType,
-          processedContent,
-          contactCheck.chatId,
-          contact,
-          campaign.tenantId
+      // Orçamento de envio da sessão esgotado: a mensagem volta para PENDING e o job é adiado
+      // (reservado só agora: duplicados e números inexistentes não consomem o orçamento)
+      const reservation = await sessionRateLimitService.reserve(selectedSession);
+      if (!reservation.allowed) {
+        await prisma.campaignMessage.update({
+          where: { id: message.id },
+          data: { status: 'PENDING' }
+        });
+        throw new JobDeferredError(
+          reservation.retryAt,
+          `Limite ${sessionRateLimitService.describeWindow(reservation.window)} da sessão ${selectedSession} atingido`
         );
       }
 
+      // Enviar mensagem pelo adaptador do provider da sessão
+      const result = await this.sendCampaignContent(
+        whatsappProvider,
+        providerSession,
+        contactCheck.recipient || message.contactPhone,
+        messageType,
+        processedContent,
+        contact,
+        campaign.tenantId
+      );
+
       if (result.success) {
         // Atualizar status da mensagem
         await prisma.campaignMessage.update({
@@ -384,7 +585,9 @@ class CampaignSchedulerService {
           data: {
             status: 'SENT',
             sentAt: new Date(),
+            failureClass: null, // Limpa a falha de uma tentativa anterior
             messageId: result.messageId,
+            messageKeyId: result.messageId ? providerMessageKeyId(result.messageId) : null,
             sessionName: selectedSession, // Registrar qual sessão foi usada
             selectedVariation: selectedVariationInfo // Registrar qual variação foi selecionada
           }
@@ -398,90 +601,69 @@ class CampaignSchedulerService {
           }
         });
 
+        // Registrar mensagens enviadas na conversa do contato (caixa de entrada)
+        const sentPayloads = result.payloads || [];
+        for (let i = 0; i < sentPayloads.length; i++) {
+          const isLast = i === sentPayloads.length - 1;
+          await conversationService.recordOutbound({
+            tenantId: campaign.tenantId,
+            sessionName: selectedSession,
+            contactPhone: message.contactPhone,
+            contactId: message.contactId,
+            payload: sentPayloads[i],
+            providerMessageId: isLast && result.messageId !== 'wait-delay' ? result.messageId : null,
+            source: 'CAMPAIGN',
+            campaignId: campaign.id,
+          });
+        }
+
         console.log(`Message sent successfully to ${message.contactPhone}`);
       } else {
-        // Marcar como falha
-        await prisma.campaignMessage.update({
-          where: { id: message.id },
-          data: {
-            status: 'FAILED',
-            errorMessage: result.error,
-            sessionName: selectedSession, // Registrar qual sessão foi tentada
-            selectedVariation: selectedVariationInfo // Registrar qual variação foi selecionada
-          }
-        });
-
-        // Atualizar contador de falhas
-        await prisma.campaign.update({
-          where: { id: campaign.id },
-          data: {
-            failedCount: { increment: 1 }
-          }
-        });
-
-        console.error(`Failed to send message to ${message.contactPhone}: ${result.error}`);
+        throw new Error(result.error || 'Falha no envio');
       }
     } catch (error) {
+      if (error instanceof JobDeferredError) {
+        throw error;
+      }
+
       console.error(`Error processing message ${message.id}:`, error);
 
-      // Check if message was marked as PROCESSING - if so, mark as FAILED
-      // If it's still PENDING somehow, mark as FAILED
+      if (selectedSessionInfo) {
+        await sessionHealthService.recordEvent(
+          selectedSessionInfo.name,
+          'SEND_FAILURE',
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+
+      // Devolver a mensagem para PENDING: a fila tenta novamente conforme a política de retentativa
+      // da campanha e, esgotadas as tentativas ou com falha não retentável, marca como FAILED (handleDeadMessageJob)
+      const failureClass = campaignRetryService.classifyError(error);
+      const retryPolicy = campaignRetryService.resolve(campaign.retryPolicy);
+
       await prisma.campaignMessage.update({
         where: { id: message.id },
         data: {
-          status: 'FAILED',
+          status: 'PENDING',
+          failureClass,
           errorMessage: error instanceof Error ? error.message : 'Unknown error',
           sessionName: selectedSessionInfo?.name || 'N/A', // Registrar a sessão se disponível
           selectedVariation: selectedVariationInfo || null // Registrar variação se disponível
         }
       });
 
-      await prisma.campaign.update({
-        where: { id: campaign.id },
-        data: {
-          failedCount: { increment: 1 }
-        }
+      throw new JobFailedError(error instanceof Error ? error.message : String(error), {
+        retryable: campaignRetryService.isRetryable(retryPolicy, failureClass),
+        ...campaignRetryService.backoffFor(retryPolicy)
       });
     }
   }
 
-  private processVariables(content: any, contact: any): any {
-    console.log(`🔧 PROCESSING VARIABLES for contact:`, contact);
-
-    const replaceVariables = (text: string): string => {
-      if (typeof text !== 'string') return text;
-
-      console.log(`🔧 Original text:`, text);
-
-      let result = text;
-      // Usar replace simples ao invés de regex
-      result = result.replace(/\{\{nome\}\}/g, contact.nome || '');
-      result = result.replace(/\{\{telefone\}\}/g, contact.telefone || '');
-      result = result.replace(/\{\{email\}\}/g, contact.email || '');
-      result = result.replace(/\{\{observacoes\}\}/g, contact.observacoes || '');
-      result = result.replace(/\{\{categoria\}\}/g, ''); // Por enquanto vazio
+  private async processVariables(content: any, contact: any, tenantId?: string | null): Promise<any> {
+    console.log(`🔧 PROCESSING VARIABLES for contact:`, contact.id);
 
-      console.log(`🔧 Processed text:`, result);
-
-      return result;
-    };
-
-    const processObject = (obj: any): any => {
-      if (typeof obj === 'string') {
-        return replaceVariables(obj);
-      } else if (Array.isArray(obj)) {
-        return obj.map(item => processObject(item));
-      } else if (obj && typeof obj === 'object') {
-        const processed: any = {};
-        for (const [key, value] of Object.entries(obj)) {
-          processed[key] = processObject(value);
-        }
-        return processed;
-      }
-      return obj;
-    };
-
-    return processObject(content);
+    const variables = await templateVariableService.getContactVariables(contact, tenantId);
+    return templateVariableService.renderContent(content, variables);
   }
 
   private selectRandomVariation(content: any): { processedContent: any; variationInfo: string | null } {
@@ -600,198 +782,122 @@ class CampaignSchedulerService {
     };
   }
 
-  private async sendMessageViaEvolution(instanceName: string, phone: string, messageType: string, content: any, contactData?: any, tenantId?: string): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  /**
+   * Envia o conteúdo da campanha (texto, mídia, interativo, IA ou sequência) pelo provider da sessão
+   */
+  private async sendCampaignContent(provider: WhatsAppProvider, session: ProviderSession, to: string, messageType: string, content: any, contactData?: any, tenantId?: string): Promise<{ success: boolean; messageId?: string | null; error?: string; payloads?: any[] }> {
+    // Payloads efetivamente enviados (registrados depois na conversa do contato)
+    const sentPayloads: any[] = [];
+    const send = async (payload: any) => {
+      sentPayloads.push(payload);
+      const result = await provider.sendMessage(session, to, payload);
+      // A reserva da mensagem cobre o primeiro envio; os demais itens de uma sequência também consomem o orçamento
+      if (sentPayloads.length > 1) {
+        await sessionRateLimitService.recordSend(session.name);
+      }
+      return result;
+    };
+
     try {
       let result;
 
+      // Template aprovado da Cloud API usado quando a janela de 24h do contato está fechada
+      const template = this.buildTemplate(content?.template);
+
       switch (messageType) {
         case 'text':
-          result = await sendMessageViaEvolution(instanceName, phone, { text: content.text });
+          result = await send({ text: content.text, template });
+          break;
+
+        case 'template':
+          // Template aprovado pela Meta: somente a WhatsApp Cloud API (e o sandbox, que a simula) envia templates
+          if (provider.name !== 'CLOUD_API' && provider.name !== 'SANDBOX') {
+            throw new Error(`Mensagens template não são suportadas por ${provider.name}`);
+          }
+          if (!template) {
+            throw new Error('Template sem nome configurado');
+          }
+          result = await send({ template });
           break;
 
         case 'image':
-          result = await sendMessageViaEvolution(instanceName, phone, {
+          result = await send({
             image: { url: content.url },
             caption: content.caption || '',
-            fileName: 'imagem.png'
+            template
           });
           break;
 
         case 'video':
-          result = await sendMessageViaEvolution(instanceName, phone, {
+          result = await send({
             video: { url: content.url },
             caption: content.caption || '',
-            fileName: 'video.mp4'
+            template
           });
           break;
 
         case 'audio':
-          result = await sendMessageViaEvolution(instanceName, phone, {
+          result = await send({
             audio: { url: content.url },
-            fileName: 'audio.ogg'
+            template
           });
           break;
 
         case 'document':
-          result = await sendMessageViaEvolution(instanceName, phone, {
+          result = await send({
             document: { url: content.url },
             fileName: content.fileName || 'documento.pdf',
-            caption: content.caption || ''
+            caption: content.caption || '',
+            template
           });
           break;
 
-        case 'openai':
-          // Gerar mensagem usando OpenAI
-          console.log('🤖 Gerando mensagem com OpenAI (Evolution)...', content);
-
-          const openaiResult = await openaiService.generateMessage(content, contactData, tenantId);
-
-          if (!openaiResult.success) {
-            throw new Error(`OpenAI error: ${openaiResult.error}`);
-          }
-
-          console.log('✅ Mensagem gerada pela OpenAI (Evolution):', openaiResult.message);
-
-          // Enviar a mensagem gerada como texto
-          result = await sendMessageViaEvolution(instanceName, phone, { text: openaiResult.message });
+        case 'buttons':
+        case 'list':
+        case 'poll':
+        case 'location':
+        case 'contact':
+          // Conteúdo já vem com as variáveis do contato aplicadas
+          result = await send({ ...buildInteractiveMessage(messageType, content), template });
           break;
 
-        case 'groq':
-          // Gerar mensagem usando Groq
-          console.log('⚡ Gerando mensagem com Groq (Evolution)...', content);
-
-          const groqResult = await groqService.generateMessage(content, contactData, tenantId);
-
-          if (!groqResult.success) {
-            throw new Error(`Groq error: ${groqResult.error}`);
-          }
-
-          console.log('✅ Mensagem gerada pela Groq (Evolution):', groqResult.message);
-
-          // Enviar a mensagem gerada como texto
-          result = await sendMessageViaEvolution(instanceName, phone, { text: groqResult.message });
-          break;
-
-        case 'sequence':
-          // Para sequência, enviar todos os itens com delay entre eles
-          if (!content.sequence || content.sequence.length === 0) {
-            throw new Error('Sequence is empty');
-          }
-
-          let lastResult;
-          for (let i = 0; i < content.sequence.length; i++) {
-            const item = content.sequence[i];
-
-            // Tratar tipo 'wait' como delay personalizado
-            if (item.type === 'wait') {
-              const waitTime = item.content?.waitTime || 30; // Default 30 segundos se não especificado
-              console.log(`⏰ Aplicando espera personalizada de ${waitTime} segundos...`);
-              await new Promise(resolve => setTimeout(resolve, waitTime * 1000));
-
-              // Para o wait, consideramos como "sucesso" para continuar a sequência
-              lastResult = { success: true, messageId: 'wait-delay' };
-              console.log(`✅ Espera de ${waitTime} segundos concluída`);
-              continue; // Pular para próximo item da sequência
-            }
-
-            lastResult = await this.sendMessageViaEvolution(instanceName, phone, item.type, item.content, contactData, tenantId);
-
-            if (!lastResult.success) {
-              throw new Error(`Failed to send sequence item ${i + 1}: ${lastResult.error}`);
-            }
-
-            // Adicionar delay de 2-5 segundos entre mensagens da sequência para evitar spam (apenas entre mensagens reais)
-            if (i < content.sequence.length - 1 && content.sequence[i + 1].type !== 'wait') {
-              const sequenceDelay = Math.floor(Math.random() * 3000) + 2000; // 2-5 segundos
-              await new Promise(resolve => setTimeout(resolve, sequenceDelay));
-            }
-          }
-          result = lastResult;
-          break;
-
-        default:
-          throw new Error(`Unsupported message type for Evolution: ${messageType}`);
-      }
-
-      return {
-        success: true,
-        messageId: (result as any)?.key?.id || (result as any)?.id || null
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
-  }
-
-  private async sendMessageViaQuepasa(sessionName: string, phone: string, messageType: string, content: any, contactData?: any, tenantId?: string, sessionToken?: string): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    try {
-      let result;
-
-      switch (messageType) {
-        case 'text':
-          result = await sendMessageViaQuepasa(sessionName, phone, { text: content.text }, sessionToken);
-          break;
-
-        case 'image':
-          result = await sendMessageViaQuepasa(sessionName, phone, {
-            image: { url: content.url },
-            caption: content.caption || ''
-          }, sessionToken);
-          break;
-
-        case 'video':
-          result = await sendMessageViaQuepasa(sessionName, phone, {
-            video: { url: content.url },
-            caption: content.caption || ''
-          }, sessionToken);
-          break;
-
-        case 'audio':
-          result = await sendMessageViaQuepasa(sessionName, phone, {
-            audio: { url: content.url }
-          }, sessionToken);
-          break;
-
-        case 'document':
-          result = await sendMessageViaQuepasa(sessionName, phone, {
-            document: { url: content.url },
-            fileName: content.fileName || 'documento.pdf',
-            caption: content.caption || ''
-          }, sessionToken);
+        case 'reaction': {
+          // Reação à última mensagem recebida do contato (sem mensagem anterior não há o que reagir)
+          const targetId = await conversationService.findLastInboundProviderMessageId(tenantId, to);
+          result = await send(buildInteractiveMessage('reaction', content, undefined, targetId));
           break;
+        }
 
         case 'openai':
           // Gerar mensagem usando OpenAI
-          console.log('🤖 Gerando mensagem com OpenAI (Quepasa)...', content);
+          console.log(`🤖 Gerando mensagem com OpenAI (${provider.name})...`, content);
 
           const openaiResult = await openaiService.generateMessage(content, contactData, tenantId);
 
           if (!openaiResult.success) {
-            throw new Error(`OpenAI error: ${openaiResult.error}`);
+            throw new CampaignMessageError('AI_GENERATION_ERROR', `OpenAI error: ${openaiResult.error}`);
           }
 
-          console.log('✅ Mensagem gerada pela OpenAI (Quepasa):', openaiResult.message);
+          console.log(`✅ Mensagem gerada pela OpenAI (${provider.name}):`, openaiResult.message);
 
           // Enviar a mensagem gerada como texto
-          result = await sendMessageViaQuepasa(sessionName, phone, { text: openaiResult.message }, sessionToken);
+          result = await send({ text: openaiResult.message });
           break;
 
         case 'groq':
           // Gerar mensagem usando Groq
-          console.log('⚡ Gerando mensagem com Groq (Quepasa)...', content);
+          console.log(`⚡ Gerando mensagem com Groq (${provider.name})...`, content);
 
           const groqResult = await groqService.generateMessage(content, contactData, tenantId);
 
           if (!groqResult.success) {
-            throw new Error(`Groq error: ${groqResult.error}`);
+            throw new CampaignMessageError('AI_GENERATION_ERROR', `Groq error: ${groqResult.error}`);
           }
 
-          console.log('✅ Mensagem gerada pela Groq (Quepasa):', groqResult.message);
+          console.log(`✅ Mensagem gerada pela Groq (${provider.name}):`, groqResult.message);
 
           // Enviar a mensagem gerada como texto
-          result = await sendMessageViaQuepasa(sessionName, phone, { text: groqResult.message }, sessionToken);
+          result = await send({ text: groqResult.message });
           break;
 
         case 'sequence':
@@ -807,20 +913,21 @@ class CampaignSchedulerService {
             // Tratar tipo 'wait' como delay personalizado
             if (item.type === 'wait') {
               const waitTime = item.content?.waitTime || 30; // Default 30 segundos se não especificado
-              console.log(`⏰ Aplicando espera personalizada de ${waitTime} segundos (Quepasa)...`);
+              console.log(`⏰ Aplicando espera personalizada de ${waitTime} segundos (${provider.name})...`);
               await new Promise(resolve => setTimeout(resolve, waitTime * 1000));
 
               // Para o wait, consideramos como "sucesso" para continuar a sequência
               lastResult = { success: true, messageId: 'wait-delay' };
-              console.log(`✅ Espera de ${waitTime} segundos concluída (Quepasa)`);
+              console.log(`✅ Espera de ${waitTime} segundos concluída (${provider.name})`);
               continue; // Pular para próximo item da sequência
             }
 
-            lastResult = await this.sendMessageViaQuepasa(sessionName, phone, item.type, item.content, contactData, tenantId, sessionToken);
+            lastResult = await this.sendCampaignContent(provider, session, to, item.type, item.content, contactData, tenantId);
 
             if (!lastResult.success) {
               throw new Error(`Failed to send sequence item ${i + 1}: ${lastResult.error}`);
             }
+            sentPayloads.push(...(lastResult.payloads || []));
 
             // Adicionar delay de 2-5 segundos entre mensagens da sequência para evitar spam (apenas entre mensagens reais)
             if (i < content.sequence.length - 1 && content.sequence[i + 1].type !== 'wait') {
@@ -832,12 +939,13 @@ class CampaignSchedulerService {
           break;
 
         default:
-          throw new Error(`Unsupported message type for Quepasa: ${messageType}`);
+          throw new Error(`Unsupported message type for ${provider.name}: ${messageType}`);
       }
 
       return {
         success: true,
-        messageId: (result as any)?.id || null
+        messageId: result?.messageId || null,
+        payloads: sentPayloads
       };
     } catch (error) {
       return {
@@ -847,125 +955,24 @@ class CampaignSchedulerService {
     }
   }
 
-  private async sendMessageViaWaha(sessionName: string, phone: string, messageType: string, content: any, validatedChatId?: string, contactData?: any, tenantId?: string): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    try {
-      let result;
-
-      switch (messageType) {
-        case 'text':
-          result = await sendMessage(sessionName, phone, { text: content.text }, validatedChatId);
-          break;
-
-        case 'image':
-          result = await sendMessage(sessionName, phone, {
-            image: { url: content.url },
-            caption: content.caption || ''
-          }, validatedChatId);
-          break;
-
-        case 'video':
-          result = await sendMessage(sessionName, phone, {
-            video: { url: content.url },
-            caption: content.caption || ''
-          }, validatedChatId);
-          break;
-
-        case 'audio':
-          result = await sendMessage(sessionName, phone, {
-            audio: { url: content.url }
-          }, validatedChatId);
-          break;
-
-        case 'document':
-          result = await sendMessage(sessionName, phone, {
-            document: { url: content.url },
-            fileName: content.fileName || 'document'
-          }, validatedChatId);
-          break;
-
-        case 'openai':
-          // Gerar mensagem usando OpenAI
-          console.log('🤖 Gerando mensagem com OpenAI...', content);
-
-          const openaiResult = await openaiService.generateMessage(content, contactData, tenantId);
-
-          if (!openaiResult.success) {
-            throw new Error(`OpenAI error: ${openaiResult.error}`);
-          }
-
-          console.log('✅ Mensagem gerada pela OpenAI:', openaiResult.message);
-
-          // Enviar a mensagem gerada como texto
-          result = await sendMessage(sessionName, phone, { text: openaiResult.message }, validatedChatId);
-          break;
-
-        case 'groq':
-          // Gerar mensagem usando Groq
-          console.log('⚡ Gerando mensagem com Groq...', content);
-
-          const groqResult = await groqService.generateMessage(content, contactData, tenantId);
-
-          if (!groqResult.success) {
-            throw new Error(`Groq error: ${groqResult.error}`);
-          }
-
-          console.log('✅ Mensagem gerada pela Groq:', groqResult.message);
-
-          // Enviar a mensagem gerada como texto
-          result = await sendMessage(sessionName, phone, { text: groqResult.message }, validatedChatId);
-          break;
-
-        case 'sequence':
-          // Para sequência, enviar todos os itens com delay entre eles
-          if (!content.sequence || content.sequence.length === 0) {
-            throw new Error('Sequence is empty');
-          }
-
-          let lastResult;
-          for (let i = 0; i < content.sequence.length; i++) {
-            const item = content.sequence[i];
-
-            // Tratar tipo 'wait' como delay personalizado
-            if (item.type === 'wait') {
-              const waitTime = item.content?.waitTime || 30; // Default 30 segundos se não especificado
-              console.log(`⏰ Aplicando espera personalizada de ${waitTime} segundos (WAHA)...`);
-              await new Promise(resolve => setTimeout(resolve, waitTime * 1000));
-
-              // Para o wait, consideramos como "sucesso" para continuar a sequência
-              lastResult = { success: true, messageId: 'wait-delay' };
-              console.log(`✅ Espera de ${waitTime} segundos concluída (WAHA)`);
-              continue; // Pular para próximo item da sequência
-            }
-
-            lastResult = await this.sendMessageViaWaha(sessionName, phone, item.type, item.content, validatedChatId, contactData, tenantId);
-
-            if (!lastResult.success) {
-              throw new Error(`Failed to send sequence item ${i + 1}: ${lastResult.error}`);
-            }
-
-            // Adicionar delay de 2-5 segundos entre mensagens da sequência para evitar spam (apenas entre mensagens reais)
-            if (i < content.sequence.length - 1 && content.sequence[i + 1].type !== 'wait') {
-              const sequenceDelay = Math.floor(Math.random() * 3000) + 2000; // 2-5 segundos
-              await new Promise(resolve => setTimeout(resolve, sequenceDelay));
-            }
-          }
-          result = lastResult;
-          break;
-
-        default:
-          throw new Error(`Unsupported message type: ${messageType}`);
-      }
+  /**
+   * Normaliza o template configurado na campanha ({ name, language, parameters }); parâmetros vazios são descartados no fim
+   */
+  private buildTemplate(template: any): TemplateMessage | undefined {
+    if (!template?.name || !String(template.name).trim()) {
+      return undefined;
+    }
 
-      return {
-        success: true,
-        messageId: (result as any)?.id || null
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+    const parameters: string[] = Array.isArray(template.parameters) ? template.parameters.map((value: any) => String(value ?? '')) : [];
+    while (parameters.length > 0 && !parameters[parameters.length - 1].trim()) {
+      parameters.pop();
     }
+
+    return {
+      name: String(template.name).trim(),
+      language: String(template.language || 'pt_BR').trim(),
+      parameters
+    };
   }
 
   private async completeCampaign(campaignId: string) {
@@ -975,25 +982,30 @@ class CampaignSchedulerService {
         select: { nome: true, tenantId: true, totalContacts: true, sentCount: true, failedCount: true }
       });
 
-      await prisma.campaign.update({
-        where: { id: campaignId },
+      // Somente a partir de RUNNING: vários workers podem terminar a última mensagem ao mesmo tempo
+      const updated = await prisma.campaign.updateMany({
+        where: { id: campaignId, status: 'RUNNING' },
         data: {
           status: 'COMPLETED',
           completedAt: new Date()
         }
       });
 
+      if (updated.count === 0) {
+        return;
+      }
+
       // Limpar índice da campanha do cache
       this.campaignSessionIndexes.delete(campaignId);
 
       console.log(`Campaign ${campaignId} completed`);
 
+      const successRate = campaign && campaign.totalContacts > 0
+        ? Math.round(((campaign.sentCount || 0) / campaign.totalContacts) * 100)
+        : 0;
+
       // Notificar via WebSocket a conclusão da campanha
       if (campaign && campaign.tenantId && websocketService.isInitialized) {
-        const successRate = campaign.totalContacts > 0
-          ? Math.round(((campaign.sentCount || 0) / campaign.totalContacts) * 100)
-          : 0;
-
         await websocketService.notifyTenant(campaign.tenantId, {
           title: 'Campanha Concluída',
           message: `A campanha "${campaign.nome}" foi concluída. Taxa de sucesso: ${successRate}%`,
@@ -1008,9 +1020,11 @@ class CampaignSchedulerService {
             successRate
           }
         });
+      }
 
-        // Disparar trigger de automação para campanha concluída
-        await automationService.executeTrigger(TriggerType.CAMPAIGN_COMPLETED, {
+      // Disparar automações de campanha concluída
+      if (campaign && campaign.tenantId) {
+        domainEvents.publish('CAMPAIGN_COMPLETED', {
           campaignId,
           campaignName: campaign.nome,
           tenantId: campaign.tenantId,
@@ -1026,6 +1040,21 @@ class CampaignSchedulerService {
     }
   }
 
+  /**
+   * Coloca na fila o disparo de uma campanha interativa (publicação imediata ou agendamento vencido)
+   */
+  async enqueueInteractiveDispatch(campaign: { id: string; tenantId?: string | null }) {
+    await jobQueueService.enqueue(
+      INTERACTIVE_DISPATCH_QUEUE,
+      { campaignId: campaign.id, requestedAt: new Date().toISOString() },
+      {
+        uniqueKey: `interactive-dispatch:${campaign.id}`,
+        maxAttempts: 3, // Retentativas só para disparos interrompidos (reinício); retomam dos contatos pendentes
+        tenantId: campaign.tenantId || null
+      }
+    );
+  }
+
   /**
    * Dispara campanha interativa agendada
    */
@@ -1033,11 +1062,7 @@ class CampaignSchedulerService {
     try {
       console.log(`📅 Dispatching scheduled interactive campaign: ${campaign.name} (${campaign.id})`);
 
-      const { interactiveCampaignDispatchService } = await import('./interactiveCampaignDispatchService');
-
-      const result = await interactiveCampaignDispatchService.dispatchCampaign(campaign.id);
-
-      // Atualizar status para STARTED e limpar scheduledDate
+      // Atualizar status para STARTED e limpar scheduledDate antes do disparo (não é pego de novo pelo ciclo)
       await prisma.interactiveCampaign.update({
         where: { id: campaign.id },
         data: {
@@ -1046,7 +1071,35 @@ class CampaignSchedulerService {
         }
       });
 
-      console.log(`✅ Interactive campaign ${campaign.id} dispatched successfully:`, result);
+      await this.enqueueInteractiveDispatch(campaign);
+    } catch (error) {
+      console.error(`Error dispatching interactive campaign ${campaign.id}:`, error);
+    }
+  }
+
+  /**
+   * Handler da fila: envia as mensagens iniciais da campanha interativa
+   */
+  private async processInteractiveDispatchJob(job: QueueJob<InteractiveDispatchJobPayload>) {
+    const { campaignId, requestedAt } = job.payload;
+
+    const campaign = await prisma.interactiveCampaign.findUnique({ where: { id: campaignId } });
+
+    // Campanha pausada/cancelada enquanto o disparo aguardava orçamento
+    if (!campaign || !['STARTED', 'SCHEDULED'].includes(campaign.status)) {
+      console.log(`⏹️ Interactive campaign ${campaignId} is no longer started - dispatch dropped`);
+      return;
+    }
+
+    const { interactiveCampaignDispatchService } = await import('./interactiveCampaignDispatchService');
+
+    try {
+      const result = await interactiveCampaignDispatchService.dispatchCampaign(campaignId, {
+        resumeSince: new Date(requestedAt),
+        heartbeat: () => jobQueueService.heartbeat(job.id)
+      });
+
+      console.log(`✅ Interactive campaign ${campaignId} dispatched successfully:`, result);
 
       // Notificar via WebSocket
       if (result && campaign.tenantId && websocketService.isInitialized) {
@@ -1064,7 +1117,9 @@ class CampaignSchedulerService {
         });
       }
     } catch (error) {
-      console.error(`Error dispatching interactive campaign ${campaign.id}:`, error);
+      if (error instanceof JobDeferredError) {
+        throw error;
+      }
 
       // Notificar falha via WebSocket
       if (campaign.tenantId && websocketService.isInitialized) {
@@ -1079,6 +1134,9 @@ class CampaignSchedulerService {
           }
         });
       }
+
+      // Sem retentativa: um novo disparo reenviaria para os contatos que falharam
+      throw new JobFailedError(error instanceof Error ? error.message : String(error), { retryable: false });
     }
   }
 }
@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import axios from 'axios';
 import { parsePhoneNumberFromString } from 'libphonenumber-js';
+import { domainEvents } from './domainEventService';
 
 const prisma = new PrismaClient();
 
@@ -165,7 +166,7 @@ export class ChatwootService {
 
           if (existingContact) {
             // Atualizar contato existente
-            await prisma.contact.update({
+            const updatedContact = await prisma.contact.update({
               where: { id: existingContact.id },
               data: {
                 nome: contact.name || existingContact.nome,
@@ -176,10 +177,11 @@ export class ChatwootService {
                   : `Importado do Chatwoot - Tag: ${mapping.chatwootTag}`
               }
             });
+            domainEvents.contactUpdated(existingContact, updatedContact, 'CHATWOOT');
             updated++;
           } else {
             // Criar novo contato
-            await prisma.contact.create({
+            const createdContact = await prisma.contact.create({
               data: {
                 tenantId,
                 nome: contact.name || 'Sem nome',
@@ -189,6 +191,7 @@ export class ChatwootService {
                 observacoes: `Importado do Chatwoot - Tag: ${mapping.chatwootTag}`
               }
             });
+            domainEvents.contactCreated(createdContact, 'CHATWOOT');
             imported++;
           }
         }
@@ -1,9 +1,10 @@
 import { prisma } from '../lib/prisma';
 import crypto from 'crypto';
 import { settingsService } from './settingsService';
+import { WhatsAppProviderName } from './whatsappProviders';
 
 export interface CreateConnectionDto {
-  provider: 'EVOLUTION' | 'WAHA' | 'QUEPASA';
+  provider: WhatsAppProviderName;
   instanceName: string;
   phoneNumber: string;
   tenantId?: string;
@@ -0,0 +1,210 @@
+import { PrismaClient } from '@prisma/client';
+import { ContactFieldInput, ContactFieldType } from '../types';
+
+const prisma = new PrismaClient();
+
+const FIELD_TYPES: ContactFieldType[] = ['text', 'number', 'date', 'select'];
+
+// Variáveis nativas do contato: não podem ser usadas como chave de campo personalizado
+export const BUILT_IN_CONTACT_VARIABLES = ['nome', 'telefone', 'email', 'observacoes', 'categoria'];
+
+// Cache curto das definições por tenant (consultadas a cada mensagem renderizada)
+const FIELDS_CACHE_TTL_MS = 30000;
+const fieldsCache = new Map<string, { fields: any[]; expiresAt: number }>();
+
+export class ContactFieldService {
+  /**
+   * Gera a chave da variável a partir de um texto (ex: "Data de Nascimento" -> data_de_nascimento)
+   */
+  static normalizeKey(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '');
+  }
+
+  static async getFields(tenantId: string) {
+    return prisma.contactField.findMany({
+      where: { tenantId },
+      orderBy: [{ order: 'asc' }, { criadoEm: 'asc' }]
+    });
+  }
+
+  /**
+   * Definições do tenant com cache, para uso na renderização de mensagens
+   */
+  static async getCachedFields(tenantId?: string | null): Promise<any[]> {
+    if (!tenantId) {
+      return [];
+    }
+
+    const cached = fieldsCache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.fields;
+    }
+
+    const fields = await this.getFields(tenantId);
+    fieldsCache.set(tenantId, { fields, expiresAt: Date.now() + FIELDS_CACHE_TTL_MS });
+    return fields;
+  }
+
+  static async getFieldById(id: string, tenantId: string) {
+    const field = await prisma.contactField.findFirst({ where: { id, tenantId } });
+
+    if (!field) {
+      throw new Error('Campo personalizado não encontrado');
+    }
+
+    return field;
+  }
+
+  static async createField(data: ContactFieldInput, tenantId: string) {
+    const key = this.normalizeKey(data.key || data.label);
+    this.validateDefinition(key, data);
+
+    const existing = await prisma.contactField.findUnique({
+      where: { tenantId_key: { tenantId, key } }
+    });
+    if (existing) {
+      throw new Error(`Já existe um campo com a chave "${key}"`);
+    }
+
+    const field = await prisma.contactField.create({
+      data: {
+        tenantId,
+        key,
+        label: data.label.trim(),
+        type: data.type,
+        options: data.type === 'select' ? this.cleanOptions(data.options) : [],
+        required: data.required || false,
+        order: data.order ?? 0
+      }
+    });
+
+    fieldsCache.delete(tenantId);
+    console.log(`✅ ContactFieldService.createField - campo criado: ${key} (tenant: ${tenantId})`);
+    return field;
+  }
+
+  /**
+   * Atualiza um campo. A chave não muda, pois já pode estar referenciada em mensagens e nos contatos.
+   */
+  static async updateField(id: string, data: ContactFieldInput, tenantId: string) {
+    const existing = await this.getFieldById(id, tenantId);
+    this.validateDefinition(existing.key, data);
+
+    const field = await prisma.contactField.update({
+      where: { id },
+      data: {
+        label: data.label.trim(),
+        type: data.type,
+        options: data.type === 'select' ? this.cleanOptions(data.options) : [],
+        required: data.required || false,
+        order: data.order ?? existing.order
+      }
+    });
+
+    fieldsCache.delete(tenantId);
+    return field;
+  }
+
+  static async deleteField(id: string, tenantId: string) {
+    await this.getFieldById(id, tenantId);
+    await prisma.contactField.delete({ where: { id } });
+    fieldsCache.delete(tenantId);
+  }
+
+  /**
+   * Valida e normaliza os valores dos campos personalizados de um contato.
+   * Chaves sem definição no tenant são descartadas; valores vazios são removidos.
+   * Com partial = true, campos obrigatórios ausentes não geram erro (ex: atualização em massa).
+   */
+  static async normalizeValues(
+    tenantId: string | null | undefined,
+    values: Record<string, any> | null | undefined,
+    options: { partial?: boolean } = {}
+  ): Promise<Record<string, string | number>> {
+    const fields = await this.getCachedFields(tenantId);
+    const input = values || {};
+    const normalized: Record<string, string | number> = {};
+
+    for (const field of fields) {
+      const raw = input[field.key];
+      const isEmpty = raw === undefined || raw === null || String(raw).trim() === '';
+
+      if (isEmpty) {
+        if (field.required && !options.partial) {
+          throw new Error(`O campo "${field.label}" é obrigatório`);
+        }
+        continue;
+      }
+
+      normalized[field.key] = this.normalizeValue(field, raw);
+    }
+
+    return normalized;
+  }
+
+  private static normalizeValue(field: any, raw: any): string | number {
+    const value = String(raw).trim();
+
+    switch (field.type) {
+      case 'number': {
+        const parsed = Number(value.replace(',', '.'));
+        if (Number.isNaN(parsed)) {
+          throw new Error(`O campo "${field.label}" deve ser numérico`);
+        }
+        return parsed;
+      }
+
+      case 'date': {
+        // Aceita AAAA-MM-DD ou DD/MM/AAAA; armazena sempre como AAAA-MM-DD
+        const brMatch = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+        const isoValue = brMatch
+          ? `${brMatch[3]}-${brMatch[2].padStart(2, '0')}-${brMatch[1].padStart(2, '0')}`
+          : value.slice(0, 10);
+        const date = new Date(`${isoValue}T00:00:00Z`);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(isoValue) || Number.isNaN(date.getTime())) {
+          throw new Error(`O campo "${field.label}" deve ser uma data válida`);
+        }
+        return isoValue;
+      }
+
+      case 'select': {
+        const option = (field.options || []).find((opt: string) => opt.toLowerCase() === value.toLowerCase());
+        if (!option) {
+          throw new Error(`Valor "${value}" inválido para o campo "${field.label}"`);
+        }
+        return option;
+      }
+
+      default:
+        return value;
+    }
+  }
+
+  private static validateDefinition(key: string, data: ContactFieldInput) {
+    if (!data.label || !data.label.trim()) {
+      throw new Error('Nome do campo é obrigatório');
+    }
+    if (!key) {
+      throw new Error('Chave do campo inválida');
+    }
+    if (BUILT_IN_CONTACT_VARIABLES.includes(key)) {
+      throw new Error(`A chave "${key}" é reservada`);
+    }
+    if (!FIELD_TYPES.includes(data.type)) {
+      throw new Error(`Tipo de campo inválido: ${data.type}`);
+    }
+    if (data.type === 'select' && this.cleanOptions(data.options).length === 0) {
+      throw new Error('Campos do tipo seleção precisam de ao menos uma opção');
+    }
+  }
+
+  private static cleanOptions(options?: string[]): string[] {
+    return Array.from(new Set((options || []).map(option => String(option).trim()).filter(Boolean)));
+  }
+}
@@ -4,6 +4,8 @@ import { ContactInput, ContactsResponse } from '../types';
 import * as fs from 'fs';
 import * as path from 'path';
 import { CategoryService } from './categoryService';
+import { ContactFieldService } from './contactFieldService';
+import { domainEvents, ContactEventSource } from './domainEventService';
 
 const prisma = new PrismaClient();
 
@@ -175,10 +177,14 @@ export class ContactService {
     }
   }
 
-  static async createContact(data: ContactInput) {
+  static async createContact(data: ContactInput, source: ContactEventSource = 'MANUAL') {
     try {
       console.log('📝 ContactService.createContact - data recebido:', JSON.stringify(data, null, 2));
       const normalizedPhone = this.normalizePhone(data.telefone);
+      // Integrações que não enviam campos personalizados não são bloqueadas por campos obrigatórios
+      const customFields = await ContactFieldService.normalizeValues(data.tenantId, data.customFields, {
+        partial: data.customFields === undefined
+      });
 
       const newContact = await prisma.contact.create({
         data: {
@@ -188,7 +194,8 @@ export class ContactService {
           observacoes: data.observacoes || null,
           tags: data.tags || [],
           categoriaId: data.categoriaId || null,
-          tenantId: data.tenantId || null
+          tenantId: data.tenantId || null,
+          customFields
         },
         include: {
           categoria: true
@@ -196,6 +203,7 @@ export class ContactService {
       });
 
       console.log('✅ ContactService.createContact - contato criado:', newContact.id);
+      domainEvents.contactCreated(newContact, source);
       return newContact;
     } catch (error) {
       console.error('❌ ContactService.createContact - erro:', error);
@@ -203,7 +211,7 @@ export class ContactService {
     }
   }
 
-  static async updateContact(id: string, data: ContactInput, tenantId?: string) {
+  static async updateContact(id: string, data: ContactInput, tenantId?: string, source: ContactEventSource = 'MANUAL') {
     try {
       const normalizedPhone = this.normalizePhone(data.telefone);
 
@@ -219,6 +227,11 @@ export class ContactService {
         throw new Error('Contato não encontrado');
       }
 
+      // Campos personalizados só são alterados quando enviados
+      const customFields = data.customFields !== undefined
+        ? await ContactFieldService.normalizeValues(existingContact.tenantId, data.customFields)
+        : undefined;
+
       const updatedContact = await prisma.contact.update({
         where: { id },
         data: {
@@ -227,7 +240,8 @@ export class ContactService {
           email: data.email || null,
           observacoes: data.observacoes || null,
           tags: data.tags || [],
-          categoriaId: data.categoriaId || null
+          categoriaId: data.categoriaId || null,
+          customFields
         },
         include: {
           categoria: true
@@ -235,6 +249,7 @@ export class ContactService {
       });
 
       console.log('✅ ContactService.updateContact - contato atualizado:', id);
+      domainEvents.contactUpdated(existingContact, updatedContact, source);
       return updatedContact;
     } catch (error) {
       console.error('❌ ContactService.updateContact - erro:', error);
@@ -279,9 +294,9 @@ export class ContactService {
         where.tenantId = tenantId;
       }
 
-      // Verificar quantos contatos existem e pertencem ao tenant
-      const existingContacts = await prisma.contact.count({ where });
-      if (existingContacts === 0) {
+      // Verificar quais contatos existem e pertencem ao tenant (estado anterior para os eventos)
+      const existingContacts = await prisma.contact.findMany({ where });
+      if (existingContacts.length === 0) {
         throw new Error('Nenhum contato encontrado para atualizar');
       }
 
@@ -304,6 +319,9 @@ export class ContactService {
       });
 
       console.log('✅ ContactService.bulkUpdateContacts - contatos atualizados:', result.count);
+      for (const contact of existingContacts) {
+        domainEvents.contactUpdated(contact, { ...contact, ...updateData }, 'BULK_UPDATE');
+      }
       return {
         message: `${result.count} contato(s) atualizado(s) com sucesso`,
         count: result.count
@@ -0,0 +1,379 @@
+import { PrismaClient } from '@prisma/client';
+import { getProvider, describeInteractive } from './whatsappProviders';
+import { providerMessageKeyId } from './whatsappProviders/utils';
+import { sessionRateLimitService } from './sessionRateLimitService';
+
+const prisma = new PrismaClient();
+
+export type MessageSource = 'CONTACT' | 'CAMPAIGN' | 'INTERACTIVE_CAMPAIGN' | 'MANUAL' | 'AUTOMATION';
+
+export interface InboundMessageDto {
+  session: { id: string; name: string; tenantId: string | null; meJid?: string | null };
+  providerMessageId?: string | null;
+  fromNumber: string;
+  type?: string;
+  content?: string | null;
+  timestamp?: any;
+  raw?: any;
+}
+
+export interface OutboundMessageDto {
+  tenantId?: string | null;
+  sessionId?: string | null;
+  sessionName?: string | null;
+  contactPhone: string;
+  contactId?: string | null;
+  payload: any; // Payload no formato usado pelos providers ({ text } | { image, caption } ...)
+  providerMessageId?: string | null;
+  source: MessageSource;
+  campaignId?: string | null;
+  sentByUserId?: string | null;
+  status?: string;
+}
+
+/**
+ * Converte timestamps dos providers (segundos, milissegundos ou ISO) para Date
+ */
+function parseTimestamp(value: any): Date {
+  if (!value) return new Date();
+  const numeric = Number(value);
+  if (!isNaN(numeric)) {
+    return new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+  }
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? new Date() : parsed;
+}
+
+/**
+ * Descreve o tipo e o conteúdo textual de um payload de envio
+ */
+function describePayload(payload: any): { type: string; content: string | null } {
+  const interactive = payload ? describeInteractive(payload) : null;
+  if (interactive) return interactive;
+  if (payload?.image) return { type: 'image', content: payload.caption || null };
+  if (payload?.video) return { type: 'video', content: payload.caption || null };
+  if (payload?.audio) return { type: 'audio', content: null };
+  if (payload?.document) return { type: 'document', content: payload.fileName || null };
+  return { type: 'text', content: payload?.text ?? null };
+}
+
+export const conversationService = {
+  /**
+   * Normaliza o telefone para a chave da conversa (somente dígitos).
+   * Celulares brasileiros sem o nono dígito recebem o 9 para que envios e respostas caiam na mesma conversa.
+   */
+  normalizePhone(phone: string): string {
+    const digits = String(phone || '').split('@')[0].replace(/\D/g, '');
+    if (digits.length === 12 && digits.startsWith('55') && /[6-9]/.test(digits[4])) {
+      return `${digits.slice(0, 4)}9${digits.slice(4)}`;
+    }
+    return digits;
+  },
+
+  /**
+   * Busca o contato do tenant pelo telefone, considerando os formatos mais comuns de cadastro
+   */
+  async findContactByPhone(tenantId: string | null | undefined, phone: string) {
+    const normalized = this.normalizePhone(phone);
+    if (!normalized) return null;
+
+    const variants = new Set<string>([normalized]);
+    // Sem o nono dígito e sem o código do país
+    if (normalized.length === 13 && normalized.startsWith('55')) {
+      variants.add(`${normalized.slice(0, 4)}${normalized.slice(5)}`);
+    }
+    Array.from(variants).forEach(variant => {
+      variants.add(`+${variant}`);
+      if (variant.startsWith('55')) {
+        variants.add(variant.slice(2));
+      }
+    });
+
+    return prisma.contact.findFirst({
+      where: {
+        tenantId: tenantId || null,
+        telefone: { in: Array.from(variants) },
+      },
+    });
+  },
+
+  /**
+   * Registra uma mensagem recebida de um contato (idempotente por providerMessageId).
+   * isNew = false quando o provider reenviou uma mensagem já registrada.
+   */
+  async recordInbound(data: InboundMessageDto) {
+    const contactPhone = this.normalizePhone(data.fromNumber);
+
+    if (data.providerMessageId) {
+      const existing = await prisma.message.findUnique({
+        where: { providerMessageId: data.providerMessageId },
+      });
+      if (existing) {
+        return { message: existing, isNew: false };
+      }
+    }
+
+    const contact = await this.findContactByPhone(data.session.tenantId, contactPhone);
+
+    const message = await prisma.message.create({
+      data: {
+        sessionId: data.session.id,
+        tenantId: data.session.tenantId,
+        contactId: contact?.id,
+        contactPhone,
+        direction: 'INBOUND',
+        type: data.type || 'text',
+        providerMessageId: data.providerMessageId || null,
+        fromNumber: contactPhone,
+        toNumber: data.session.meJid?.split('@')[0] || data.session.name,
+        content: data.content || null,
+        payload: data.raw || {},
+        status: 'received',
+        source: 'CONTACT',
+        timestamp: parseTimestamp(data.timestamp),
+      },
+    });
+
+    console.log(`💬 Mensagem recebida registrada na conversa ${contactPhone} (sessão ${data.session.name})`);
+    return { message, isNew: true };
+  },
+
+  /**
+   * Id no provider da última mensagem recebida do contato (alvo das reações enviadas por fluxos e campanhas)
+   */
+  async findLastInboundProviderMessageId(tenantId: string | null | undefined, phone: string): Promise<string | null> {
+    const message = await prisma.message.findFirst({
+      where: {
+        tenantId: tenantId || null,
+        contactPhone: this.normalizePhone(phone),
+        direction: 'INBOUND',
+        providerMessageId: { not: null },
+      },
+      orderBy: { timestamp: 'desc' },
+      select: { providerMessageId: true },
+    });
+    return message?.providerMessageId || null;
+  },
+
+  /**
+   * Registra uma mensagem enviada para um contato (campanhas, fluxos ou resposta manual).
+   * Falhas ao registrar nunca devem interromper o envio, por isso os erros são apenas logados.
+   */
+  async recordOutbound(data: OutboundMessageDto) {
+    try {
+      const contactPhone = this.normalizePhone(data.contactPhone);
+      let sessionId = data.sessionId || null;
+      let tenantId = data.tenantId || null;
+      let ownNumber = data.sessionName || '';
+
+      if (!sessionId && data.sessionName) {
+        const session = await prisma.whatsAppSession.findUnique({
+          where: { name: data.sessionName },
+          select: { id: true, tenantId: true, meJid: true },
+        });
+        sessionId = session?.id || null;
+        tenantId = tenantId || session?.tenantId || null;
+        ownNumber = session?.meJid?.split('@')[0] || ownNumber;
+      }
+
+      const contactId = data.contactId || (await this.findContactByPhone(tenantId, contactPhone))?.id || null;
+      const { type, content } = describePayload(data.payload);
+
+      return await prisma.message.create({
+        data: {
+          sessionId,
+          tenantId,
+          contactId,
+          contactPhone,
+          direction: 'OUTBOUND',
+          type,
+          providerMessageId: data.providerMessageId || null,
+          providerKeyId: data.providerMessageId ? providerMessageKeyId(data.providerMessageId) : null,
+          fromNumber: ownNumber,
+          toNumber: contactPhone,
+          content,
+          payload: data.payload || {},
+          status: data.status || 'sent',
+          source: data.source,
+          campaignId: data.campaignId || null,
+          sentByUserId: data.sentByUserId || null,
+          timestamp: new Date(),
+        },
+      });
+    } catch (error: any) {
+      console.error(`⚠️ Erro ao registrar mensagem enviada para ${data.contactPhone}:`, error.message);
+      return null;
+    }
+  },
+
+  /**
+   * Lista conversas do tenant (uma por telefone), da mais recente para a mais antiga
+   */
+  async listConversations(tenantId: string | undefined, params: { search?: string; page?: number; pageSize?: number } = {}) {
+    const page = params.page || 1;
+    const pageSize = Math.min(params.pageSize || 30, 100);
+    const where: any = { tenantId: tenantId || null, contactPhone: { not: null } };
+
+    if (params.search) {
+      const searchDigits = params.search.replace(/\D/g, '');
+      where.OR = [
+        { contact: { nome: { contains: params.search, mode: 'insensitive' } } },
+        ...(searchDigits ? [{ contactPhone: { contains: searchDigits } }] : []),
+      ];
+    }
+
+    const threads = await prisma.message.groupBy({
+      by: ['contactPhone'],
+      where,
+      _max: { timestamp: true },
+      orderBy: { _max: { timestamp: 'desc' } },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    });
+
+    const phones = threads.map(thread => thread.contactPhone as string);
+
+    const [lastMessages, unreadCounts] = await Promise.all([
+      Promise.all(phones.map(phone =>
+        prisma.message.findFirst({
+          where: { tenantId: tenantId || null, contactPhone: phone },
+          orderBy: { timestamp: 'desc' },
+          include: {
+            contact: { select: { id: true, nome: true, telefone: true, tags: true } },
+            session: { select: { id: true, name: true, displayName: true, provider: true } },
+          },
+        })
+      )),
+      prisma.message.groupBy({
+        by: ['contactPhone'],
+        where: { tenantId: tenantId || null, contactPhone: { in: phones }, direction: 'INBOUND', status: 'received' },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const unreadByPhone = new Map(unreadCounts.map(item => [item.contactPhone, item._count._all]));
+
+    return {
+      conversations: lastMessages
+        .filter((message): message is NonNullable<typeof message> => !!message)
+        .map(message => ({
+          contactPhone: message.contactPhone,
+          contact: message.contact,
+          session: message.session,
+          lastMessage: {
+            id: message.id,
+            direction: message.direction,
+            type: message.type,
+            content: message.content,
+            status: message.status,
+            timestamp: message.timestamp,
+          },
+          unreadCount: unreadByPhone.get(message.contactPhone) || 0,
+        })),
+      page,
+      pageSize,
+    };
+  },
+
+  /**
+   * Lista mensagens de uma conversa (paginação por cursor de data, mais antigas antes)
+   */
+  async getConversationMessages(tenantId: string | undefined, phone: string, params: { before?: string; limit?: number } = {}) {
+    const contactPhone = this.normalizePhone(phone);
+    const limit = Math.min(params.limit || 50, 200);
+
+    const messages = await prisma.message.findMany({
+      where: {
+        tenantId: tenantId || null,
+        contactPhone,
+        ...(params.before ? { timestamp: { lt: new Date(params.before) } } : {}),
+      },
+      orderBy: { timestamp: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        direction: true,
+        type: true,
+        content: true,
+        status: true,
+        source: true,
+        campaignId: true,
+        sentByUserId: true,
+        timestamp: true,
+        session: { select: { id: true, name: true, displayName: true, provider: true } },
+      },
+    });
+
+    const contact = await this.findContactByPhone(tenantId, contactPhone);
+
+    return {
+      contactPhone,
+      contact,
+      messages: messages.reverse(),
+      hasMore: messages.length === limit,
+    };
+  },
+
+  /**
+   * Marca as mensagens recebidas de uma conversa como lidas
+   */
+  async markAsRead(tenantId: string | undefined, phone: string) {
+    const result = await prisma.message.updateMany({
+      where: {
+        tenantId: tenantId || null,
+        contactPhone: this.normalizePhone(phone),
+        direction: 'INBOUND',
+        status: 'received',
+      },
+      data: { status: 'read' },
+    });
+    return result.count;
+  },
+
+  /**
+   * Envia uma resposta manual pela mesma sessão da conversa (ou pela sessão informada)
+   */
+  async sendManualReply(tenantId: string | undefined, phone: string, data: { content: string; sessionId?: string }, userId?: string) {
+    const contactPhone = this.normalizePhone(phone);
+
+    let sessionId = data.sessionId;
+    if (!sessionId) {
+      // Usar a sessão da última mensagem da conversa
+      const lastMessage = await prisma.message.findFirst({
+        where: { tenantId: tenantId || null, contactPhone, sessionId: { not: null } },
+        orderBy: { timestamp: 'desc' },
+        select: { sessionId: true },
+      });
+      sessionId = lastMessage?.sessionId || undefined;
+    }
+
+    if (!sessionId) {
+      throw new Error('Nenhuma sessão WhatsApp disponível para esta conversa');
+    }
+
+    const session = await prisma.whatsAppSession.findFirst({
+      where: { id: sessionId, ...(tenantId ? { tenantId } : {}) },
+    });
+
+    if (!session) {
+      throw new Error('Sessão WhatsApp não encontrada');
+    }
+
+    const payload = { text: data.content };
+    const result = await getProvider(session.provider).sendMessage(session, contactPhone, payload);
+
+    console.log(`✉️ Resposta manual enviada para ${contactPhone} via ${session.name} (${session.provider})`);
+    await sessionRateLimitService.recordSend(session.name);
+
+    return this.recordOutbound({
+      tenantId: session.tenantId,
+      sessionId: session.id,
+      sessionName: session.name,
+      contactPhone,
+      payload,
+      providerMessageId: result.messageId,
+      source: 'MANUAL',
+      sentByUserId: userId,
+    });
+  },
+};
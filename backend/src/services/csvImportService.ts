@@ -1,25 +1,62 @@
 import * as fs from 'fs';
+import * as path from 'path';
 import csvParser from 'csv-parser';
 import { PrismaClient } from '@prisma/client';
 import { ContactService } from './contactService';
-import { ContactInput, ImportResult } from '../types';
+import { ContactFieldService } from './contactFieldService';
+import { jobQueueService, QueueJob } from './jobQueueService';
+import { domainEvents } from './domainEventService';
+import { ContactImportOptions, ContactImportStrategy } from '../types';
 
 const prisma = new PrismaClient();
 
-interface CSVRow {
+export const CONTACT_IMPORT_QUEUE = 'contact-import';
+
+// Arquivos ficam fora de /app/uploads (servido publicamente) até o processamento terminar
+export const CONTACT_IMPORT_DIR = process.env.CONTACT_IMPORT_DIR || '/app/data/imports';
+
+const PREVIEW_ROWS = 5;
+const PROGRESS_UPDATE_EVERY = 50;
+const STRATEGIES: ContactImportStrategy[] = ['SKIP', 'UPDATE', 'MERGE_TAGS'];
+const CONTACT_TARGETS = ['nome', 'telefone', 'email', 'observacoes', 'tags', 'categoria'];
+const CUSTOM_FIELD_PREFIX = 'custom:';
+
+type CSVRow = Record<string, string>;
+
+interface ContactImportJobPayload {
+  importId: string;
+}
+
+interface MappedRow {
   nome?: string;
   telefone?: string;
   email?: string;
   observacoes?: string;
-  tags?: string;
-  categoriaid?: string; // CSV parser converte para lowercase
+  tags: string[];
+  categoria?: string;
+  customFields: Record<string, string>;
 }
 
+interface ImportContext {
+  tenantId: string;
+  mapping: Record<string, string>;
+  strategy: ContactImportStrategy;
+  categoryId?: string;
+  categoriesByKey: Map<string, string>; // id ou nome (minúsculo) -> id
+  remainingQuota: number;
+}
+
+// Erro de validação da linha (vai para o relatório sem poluir o log)
+class RowError extends Error {}
+
+// Cabeçalhos mantêm a grafia original (o usuário mapeia pelo nome exibido), só removendo BOM e espaços
+const normalizeHeader = ({ header }: { header: string }) => header.replace(/^\uFEFF/, '').trim();
+
 export class CSVImportService {
   /**
-   * Verifica se o tenant tem quota disponível para importar os contatos
+   * Contatos que ainda cabem na quota do tenant (Infinity quando não há quota configurada)
    */
-  static async checkQuotaForImport(tenantId: string, contactsToImport: number): Promise<{ allowed: boolean; message?: string; remaining?: number }> {
+  static async getRemainingQuota(tenantId: string): Promise<number> {
     const tenantQuota = await prisma.tenantQuota.findUnique({
       where: { tenantId },
       include: {
@@ -34,22 +71,10 @@ export class CSVImportService {
     });
 
     if (!tenantQuota) {
-      return { allowed: false, message: 'Configuração de quotas não encontrada para este tenant.' };
+      return Infinity;
     }
 
-    const currentContacts = tenantQuota.tenant._count.contacts;
-    const maxContacts = tenantQuota.maxContacts;
-    const remaining = maxContacts - currentContacts;
-
-    if (contactsToImport > remaining) {
-      return {
-        allowed: false,
-        message: `Limite de contatos seria excedido. Atual: ${currentContacts}/${maxContacts}. Tentando importar: ${contactsToImport}. Disponível: ${remaining}.`,
-        remaining
-      };
-    }
-
-    return { allowed: true, remaining };
+    return Math.max(tenantQuota.maxContacts - tenantQuota.tenant._count.contacts, 0);
   }
 
   /**
@@ -80,145 +105,467 @@ export class CSVImportService {
     });
   }
 
-  static async importContacts(filePath: string, tenantId: string, categoryId?: string): Promise<ImportResult> {
-    const results: CSVRow[] = [];
-    const errors: string[] = [];
-    let successfulImports = 0;
-    let failedImports = 0;
+  /**
+   * Lê o arquivo em streaming, linha a linha, sem carregá-lo inteiro em memória
+   */
+  private static async *readRows(filePath: string, separator: string): AsyncGenerator<CSVRow> {
+    const parser = fs.createReadStream(filePath).pipe(csvParser({
+      separator,
+      mapHeaders: normalizeHeader
+    }));
 
-    const separator = await CSVImportService.detectSeparator(filePath);
+    for await (const row of parser) {
+      yield row as CSVRow;
+    }
+  }
 
-    return new Promise((resolve, reject) => {
-      fs.createReadStream(filePath)
-        .pipe(csvParser({
+  /**
+   * Etapa 1: registra o arquivo enviado e devolve as colunas detectadas, linhas de exemplo
+   * e uma sugestão de mapeamento para o usuário revisar.
+   */
+  static async createImport(file: { path: string; originalname: string }, tenantId: string, userId?: string) {
+    fs.mkdirSync(CONTACT_IMPORT_DIR, { recursive: true });
+    const filePath = path.join(CONTACT_IMPORT_DIR, path.basename(file.path));
+    // Cópia em vez de rename: o upload temporário pode estar em outro sistema de arquivos
+    fs.copyFileSync(file.path, filePath);
+    this.removeFile(file.path);
+
+    try {
+      const separator = await this.detectSeparator(filePath);
+      const sampleRows: CSVRow[] = [];
+      let columns: string[] = [];
+      let totalRows = 0;
+
+      const parser = fs.createReadStream(filePath).pipe(csvParser({
+        separator,
+        mapHeaders: normalizeHeader
+      }));
+      parser.on('headers', (headers: string[]) => {
+        columns = headers.filter(Boolean);
+      });
+
+      for await (const row of parser) {
+        if (totalRows < PREVIEW_ROWS) {
+          sampleRows.push(row as CSVRow);
+        }
+        totalRows++;
+      }
+
+      if (columns.length === 0) {
+        throw new Error('Não foi possível identificar as colunas do arquivo');
+      }
+
+      const contactImport = await prisma.contactImport.create({
+        data: {
+          tenantId,
+          fileName: file.originalname,
+          filePath,
           separator,
-          mapHeaders: ({ header }: { header: string }) => header.toLowerCase().trim()
-        }))
-        .on('data', (data: CSVRow) => {
-          results.push(data);
-        })
-        .on('end', async () => {
-          console.log(`📊 CSVImportService - Processando ${results.length} linhas do CSV para tenantId: ${tenantId}, categoryId: ${categoryId || 'nenhuma'}`);
-
-          // Verificar quota ANTES de importar
-          const quotaCheck = await CSVImportService.checkQuotaForImport(tenantId, results.length);
-          if (!quotaCheck.allowed) {
-            console.log(`❌ CSVImportService - Quota excedida: ${quotaCheck.message}`);
-            // Limpar arquivo temporário
-            try {
-              fs.unlinkSync(filePath);
-            } catch (error) {
-              console.warn('Erro ao limpar arquivo temporário:', error);
-            }
-            resolve({
-              success: false,
-              totalRows: results.length,
-              successfulImports: 0,
-              failedImports: results.length,
-              errors: [quotaCheck.message || 'Limite de contatos excedido']
-            });
-            return;
-          }
+          columns,
+          totalRows,
+          createdBy: userId || null
+        }
+      });
 
-          console.log(`✅ CSVImportService - Quota verificada. Disponível: ${quotaCheck.remaining} contatos`);
-
-          // Validar categoryId global uma vez antes do loop
-          let validatedCategoryId: string | undefined = undefined;
-          if (categoryId) {
-            const categoryExists = await prisma.category.findUnique({
-              where: { id: categoryId }
-            });
-            if (categoryExists) {
-              validatedCategoryId = categoryId;
-              console.log(`📂 CSVImportService - Categoria global validada: ${categoryExists.nome} (${categoryId})`);
-            } else {
-              console.log(`⚠️ CSVImportService - Categoria global "${categoryId}" não encontrada, ignorando`);
-            }
-          }
+      console.log(`📤 CSVImportService - Importação ${contactImport.id} criada: ${totalRows} linhas, colunas: ${columns.join(', ')}`);
 
-          for (let i = 0; i < results.length; i++) {
-            const row = results[i];
-            const rowNumber = i + 2; // +2 porque CSV tem header e arrays começam em 0
-
-            console.log(`🔍 Linha ${rowNumber} - Dados parseados:`, JSON.stringify(row));
-            console.log(`📋 Headers disponíveis:`, Object.keys(row));
-
-            try {
-              // Validar campos obrigatórios
-              if (!row.nome || !row.telefone) {
-                console.log(`❌ Linha ${rowNumber} - nome: "${row.nome}", telefone: "${row.telefone}"`);
-                errors.push(`Linha ${rowNumber}: Nome e telefone são obrigatórios`);
-                failedImports++;
-                continue;
-              }
-
-              // Preparar dados do contato incluindo tenantId
-              const tags = row.tags ? row.tags.split(',').map((tag: string) => tag.trim()) : [];
-
-              // Categoria global tem prioridade sobre a do CSV
-              let categoriaId: string | undefined = validatedCategoryId;
-              if (!categoriaId) {
-                const rawCategoriaId = row.categoriaid?.trim();
-                if (rawCategoriaId) {
-                  const categoriaExists = await prisma.category.findUnique({
-                    where: { id: rawCategoriaId }
-                  });
-                  if (categoriaExists) {
-                    categoriaId = rawCategoriaId;
-                  } else {
-                    console.log(`⚠️ Linha ${rowNumber} - categoriaId "${rawCategoriaId}" não encontrada, ignorando`);
-                  }
-                }
-              }
-
-              const contactData: ContactInput = {
-                nome: row.nome.trim(),
-                telefone: row.telefone.trim(),
-                email: row.email?.trim() || undefined,
-                observacoes: row.observacoes?.trim() || undefined,
-                tags: tags,
-                categoriaId: categoriaId,
-                tenantId: tenantId
-              };
-
-              console.log(`🏷️ Linha ${rowNumber} - Tags extraídas:`, tags);
-              console.log(`📂 Linha ${rowNumber} - CategoriaId:`, row.categoriaid);
-
-              // Criar contato
-              await ContactService.createContact(contactData);
-              successfulImports++;
-              console.log(`✅ Linha ${rowNumber} importada: ${contactData.nome} (tenant: ${tenantId})`);
-
-            } catch (error) {
-              const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
-              errors.push(`Linha ${rowNumber}: ${errorMessage}`);
-              failedImports++;
-              console.log(`❌ Erro na linha ${rowNumber}: ${errorMessage}`);
-            }
-          }
+      return {
+        import: contactImport,
+        columns,
+        sampleRows,
+        suggestedMapping: await this.suggestMapping(columns, tenantId)
+      };
+    } catch (error) {
+      this.removeFile(filePath);
+      throw error;
+    }
+  }
 
-          // Limpar arquivo temporário
-          try {
-            fs.unlinkSync(filePath);
-          } catch (error) {
-            console.warn('Erro ao limpar arquivo temporário:', error);
-          }
+  /**
+   * Mapeia automaticamente colunas cujo nome coincide com um campo do contato ou campo personalizado
+   */
+  static async suggestMapping(columns: string[], tenantId: string): Promise<Record<string, string>> {
+    const aliases: Record<string, string> = {
+      nome: 'nome', name: 'nome',
+      telefone: 'telefone', phone: 'telefone', celular: 'telefone', whatsapp: 'telefone',
+      email: 'email', e_mail: 'email',
+      observacoes: 'observacoes', observacao: 'observacoes', notes: 'observacoes',
+      tags: 'tags',
+      categoria: 'categoria', categoriaid: 'categoria', category: 'categoria'
+    };
+
+    const customFields = await ContactFieldService.getFields(tenantId);
+    for (const field of customFields) {
+      aliases[field.key] = `${CUSTOM_FIELD_PREFIX}${field.key}`;
+      aliases[ContactFieldService.normalizeKey(field.label)] = `${CUSTOM_FIELD_PREFIX}${field.key}`;
+    }
+
+    const mapping: Record<string, string> = {};
+    for (const column of columns) {
+      mapping[column] = aliases[ContactFieldService.normalizeKey(column)] || '';
+    }
+    return mapping;
+  }
+
+  /**
+   * Etapa 2: salva o mapeamento escolhido e coloca a importação na fila
+   */
+  static async startImport(importId: string, tenantId: string, options: ContactImportOptions) {
+    const contactImport = await this.getImport(importId, tenantId);
+
+    if (contactImport.status !== 'UPLOADED') {
+      throw new Error('Esta importação já foi iniciada');
+    }
+
+    const mapping = await this.validateOptions(contactImport.columns, tenantId, options);
+
+    const updated = await prisma.contactImport.update({
+      where: { id: importId },
+      data: {
+        mapping,
+        strategy: options.strategy,
+        categoryId: options.categoryId || null,
+        status: 'QUEUED'
+      }
+    });
+
+    await jobQueueService.enqueue(CONTACT_IMPORT_QUEUE, { importId } as ContactImportJobPayload, {
+      uniqueKey: `contact-import:${importId}`,
+      maxAttempts: 3,
+      tenantId
+    });
+
+    return updated;
+  }
+
+  private static async validateOptions(columns: string[], tenantId: string, options: ContactImportOptions) {
+    if (!STRATEGIES.includes(options.strategy)) {
+      throw new Error(`Estratégia inválida: ${options.strategy}`);
+    }
+
+    if (options.categoryId) {
+      const category = await prisma.category.findFirst({ where: { id: options.categoryId, tenantId } });
+      if (!category) {
+        throw new Error('Categoria não encontrada');
+      }
+    }
+
+    const customFieldKeys = new Set((await ContactFieldService.getFields(tenantId)).map(field => field.key));
+    const mapping: Record<string, string> = {};
+
+    for (const [column, target] of Object.entries(options.mapping || {})) {
+      if (!target) {
+        continue;
+      }
+      if (!columns.includes(column)) {
+        throw new Error(`Coluna "${column}" não existe no arquivo`);
+      }
+      const isCustomField = target.startsWith(CUSTOM_FIELD_PREFIX) && customFieldKeys.has(target.slice(CUSTOM_FIELD_PREFIX.length));
+      if (!CONTACT_TARGETS.includes(target) && !isCustomField) {
+        throw new Error(`Campo de destino inválido para a coluna "${column}": ${target}`);
+      }
+      mapping[column] = target;
+    }
+
+    const targets = Object.values(mapping);
+    if (!targets.includes('telefone')) {
+      throw new Error('Mapeie uma coluna para o telefone');
+    }
+    if (!targets.includes('nome') && options.strategy === 'SKIP') {
+      throw new Error('Mapeie uma coluna para o nome');
+    }
+
+    return mapping;
+  }
+
+  static async getImport(importId: string, tenantId: string) {
+    const contactImport = await prisma.contactImport.findFirst({ where: { id: importId, tenantId } });
+
+    if (!contactImport) {
+      throw new Error('Importação não encontrada');
+    }
+
+    return contactImport;
+  }
+
+  static async listImports(tenantId: string, limit = 20) {
+    return prisma.contactImport.findMany({
+      where: { tenantId },
+      orderBy: { criadoEm: 'desc' },
+      take: Math.min(limit, 100)
+    });
+  }
 
-          const result: ImportResult = {
-            success: errors.length === 0,
-            totalRows: results.length,
-            successfulImports,
-            failedImports,
-            errors
-          };
-
-          console.log('📈 Resultado da importação:', result);
-          resolve(result);
-        })
-        .on('error', (error: any) => {
-          console.error('❌ Erro ao processar CSV:', error);
-          reject(error);
+  /**
+   * Remove uma importação que ainda não foi iniciada (e o arquivo enviado)
+   */
+  static async cancelImport(importId: string, tenantId: string) {
+    const contactImport = await this.getImport(importId, tenantId);
+
+    if (contactImport.status !== 'UPLOADED') {
+      throw new Error('Somente importações não iniciadas podem ser canceladas');
+    }
+
+    this.removeFile(contactImport.filePath);
+    await prisma.contactImport.delete({ where: { id: importId } });
+  }
+
+  /**
+   * Relatório de erros em CSV: colunas originais + linha e motivo, pronto para corrigir e reimportar
+   */
+  static async buildErrorReport(importId: string, tenantId: string): Promise<string> {
+    const contactImport = await this.getImport(importId, tenantId);
+    const rowErrors = await prisma.contactImportError.findMany({
+      where: { importId },
+      orderBy: { rowNumber: 'asc' }
+    });
+
+    const separator = contactImport.separator;
+    const escape = (value: unknown) => {
+      const raw = value === undefined || value === null ? '' : String(value);
+      // Célula iniciada por =, +, -, @ (ou tab/CR) vira fórmula no Excel/Sheets: prefixa com ' para abrir como texto
+      const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+      return /["\r\n]/.test(text) || text.includes(separator) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = ['linha', 'erro', ...contactImport.columns];
+    const lines = [header.map(escape).join(separator)];
+    for (const rowError of rowErrors) {
+      const rowData = (rowError.rowData || {}) as CSVRow;
+      lines.push([rowError.rowNumber, rowError.error, ...contactImport.columns.map(column => rowData[column])].map(escape).join(separator));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Processa a importação na fila. Em caso de nova tentativa, continua a partir da última linha registrada.
+   */
+  static async processImportJob(job: QueueJob<ContactImportJobPayload>) {
+    const contactImport = await prisma.contactImport.findUnique({ where: { id: job.payload.importId } });
+
+    if (!contactImport || ['COMPLETED', 'FAILED'].includes(contactImport.status)) {
+      return;
+    }
+
+    if (!fs.existsSync(contactImport.filePath)) {
+      await this.finishImport(contactImport.id, 'FAILED', 'Arquivo da importação não encontrado');
+      return;
+    }
+
+    await prisma.contactImport.update({
+      where: { id: contactImport.id },
+      data: { status: 'PROCESSING', startedAt: contactImport.startedAt || new Date() }
+    });
+
+    const categories = await prisma.category.findMany({ where: { tenantId: contactImport.tenantId } });
+    const categoriesByKey = new Map<string, string>();
+    for (const category of categories) {
+      categoriesByKey.set(category.id, category.id);
+      categoriesByKey.set(category.nome.toLowerCase().trim(), category.id);
+    }
+
+    const context: ImportContext = {
+      tenantId: contactImport.tenantId,
+      mapping: (contactImport.mapping || {}) as Record<string, string>,
+      strategy: contactImport.strategy as ContactImportStrategy,
+      categoryId: contactImport.categoryId || undefined,
+      categoriesByKey,
+      remainingQuota: await this.getRemainingQuota(contactImport.tenantId)
+    };
+
+    const counters = {
+      processedRows: contactImport.processedRows,
+      createdCount: contactImport.createdCount,
+      updatedCount: contactImport.updatedCount,
+      skippedCount: contactImport.skippedCount,
+      failedCount: contactImport.failedCount
+    };
+
+    console.log(`📊 CSVImportService - Processando importação ${contactImport.id} (${contactImport.totalRows} linhas, estratégia ${context.strategy}, retomando da linha ${counters.processedRows})`);
+
+    let index = 0;
+    for await (const row of this.readRows(contactImport.filePath, contactImport.separator)) {
+      index++;
+      if (index <= counters.processedRows) {
+        continue;
+      }
+
+      const rowNumber = index + 1; // +1 pelo cabeçalho
+
+      try {
+        const outcome = await this.importRow(row, context);
+        if (outcome === 'created') counters.createdCount++;
+        if (outcome === 'updated') counters.updatedCount++;
+        if (outcome === 'skipped') counters.skippedCount++;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+        counters.failedCount++;
+        await prisma.contactImportError.create({
+          data: { importId: contactImport.id, rowNumber, error: errorMessage, rowData: row }
+        });
+        if (!(error instanceof RowError)) {
+          console.log(`❌ Erro na linha ${rowNumber}: ${errorMessage}`);
+        }
+      }
+
+      counters.processedRows = index;
+      if (index % PROGRESS_UPDATE_EVERY === 0) {
+        await prisma.contactImport.update({ where: { id: contactImport.id }, data: counters });
+        await jobQueueService.heartbeat(job.id);
+      }
+    }
+
+    await prisma.contactImport.update({
+      where: { id: contactImport.id },
+      data: { ...counters, totalRows: Math.max(contactImport.totalRows, counters.processedRows) }
+    });
+    await this.finishImport(contactImport.id, 'COMPLETED');
+
+    console.log(`📈 Importação ${contactImport.id} concluída:`, counters);
+  }
+
+  /**
+   * Cria ou atualiza o contato de uma linha conforme a estratégia para telefones já cadastrados
+   */
+  private static async importRow(row: CSVRow, context: ImportContext): Promise<'created' | 'updated' | 'skipped'> {
+    const mapped = this.mapRow(row, context.mapping);
+
+    if (!mapped.telefone) {
+      throw new RowError('Telefone é obrigatório');
+    }
+
+    const telefone = ContactService.normalizePhone(mapped.telefone);
+    const categoriaId = context.categoryId || this.resolveCategory(mapped.categoria, context);
+
+    const existing = await prisma.contact.findFirst({ where: { tenantId: context.tenantId, telefone } });
+
+    if (existing) {
+      if (context.strategy === 'SKIP') {
+        return 'skipped';
+      }
+
+      if (context.strategy === 'MERGE_TAGS') {
+        const tags = Array.from(new Set([...existing.tags, ...mapped.tags]));
+        if (tags.length === existing.tags.length && (!categoriaId || existing.categoriaId)) {
+          return 'skipped';
+        }
+        const merged = await prisma.contact.update({
+          where: { id: existing.id },
+          data: { tags, categoriaId: existing.categoriaId || categoriaId || null }
         });
+        domainEvents.contactUpdated(existing, merged, 'CSV_IMPORT');
+        return 'updated';
+      }
+
+      // UPDATE: sobrescreve apenas os campos mapeados, mantendo o restante do contato
+      const customFields = await ContactFieldService.normalizeValues(
+        context.tenantId,
+        { ...((existing.customFields || {}) as Record<string, any>), ...mapped.customFields },
+        { partial: true }
+      );
+      const updated = await prisma.contact.update({
+        where: { id: existing.id },
+        data: {
+          nome: mapped.nome || existing.nome,
+          email: mapped.email ?? existing.email,
+          observacoes: mapped.observacoes ?? existing.observacoes,
+          tags: this.isMapped(context.mapping, 'tags') ? mapped.tags : existing.tags,
+          categoriaId: categoriaId || existing.categoriaId,
+          customFields
+        }
+      });
+      domainEvents.contactUpdated(existing, updated, 'CSV_IMPORT');
+      return 'updated';
+    }
+
+    if (!mapped.nome) {
+      throw new RowError('Nome é obrigatório');
+    }
+    if (context.remainingQuota <= 0) {
+      throw new RowError('Limite de contatos do plano atingido');
+    }
+
+    await ContactService.createContact({
+      nome: mapped.nome,
+      telefone,
+      email: mapped.email,
+      observacoes: mapped.observacoes,
+      tags: mapped.tags,
+      categoriaId,
+      tenantId: context.tenantId,
+      customFields: mapped.customFields
+    }, 'CSV_IMPORT');
+    context.remainingQuota--;
+    return 'created';
+  }
+
+  private static mapRow(row: CSVRow, mapping: Record<string, string>): MappedRow {
+    const mapped: MappedRow = { tags: [], customFields: {} };
+
+    for (const [column, target] of Object.entries(mapping)) {
+      const value = row[column]?.trim();
+      if (!value) {
+        continue;
+      }
+
+      if (target === 'tags') {
+        // Várias colunas podem ser mapeadas para tags; cada uma aceita valores separados por vírgula
+        const tags = value.split(/[,|]/).map(tag => tag.trim()).filter(Boolean);
+        mapped.tags = Array.from(new Set([...mapped.tags, ...tags]));
+      } else if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+        mapped.customFields[target.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+      } else {
+        mapped[target as 'nome' | 'telefone' | 'email' | 'observacoes' | 'categoria'] = value;
+      }
+    }
+
+    return mapped;
+  }
+
+  private static resolveCategory(value: string | undefined, context: ImportContext): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const categoryId = context.categoriesByKey.get(value) || context.categoriesByKey.get(value.toLowerCase());
+    if (!categoryId) {
+      throw new RowError(`Categoria "${value}" não encontrada`);
+    }
+    return categoryId;
+  }
+
+  private static isMapped(mapping: Record<string, string>, target: string) {
+    return Object.values(mapping).includes(target);
+  }
+
+  private static async finishImport(importId: string, status: 'COMPLETED' | 'FAILED', errorMessage?: string) {
+    const contactImport = await prisma.contactImport.update({
+      where: { id: importId },
+      data: { status, errorMessage: errorMessage || null, completedAt: new Date() }
     });
+    this.removeFile(contactImport.filePath);
+  }
+
+  private static removeFile(filePath: string) {
+    try {
+      fs.unlinkSync(filePath);
+    } catch (error) {
+      console.warn('Erro ao limpar arquivo da importação:', error);
+    }
+  }
+}
+
+jobQueueService.registerHandler<ContactImportJobPayload>(
+  CONTACT_IMPORT_QUEUE,
+  (job) => CSVImportService.processImportJob(job),
+  {
+    concurrency: parseInt(process.env.CONTACT_IMPORT_CONCURRENCY || '2'),
+    onDead: async (job, error) => {
+      await prisma.contactImport.updateMany({
+        where: { id: job.payload.importId },
+        data: { status: 'FAILED', errorMessage: error, completedAt: new Date() }
+      });
+    }
   }
-}
\ No newline at end of file
+);
@@ -0,0 +1,167 @@
+/**
+ * Domain Event Service
+ * Barramento interno de eventos de domínio (contatos, tags, mensagens e campanhas).
+ * Os serviços publicam o que aconteceu; consumidores como as automações se inscrevem
+ * sem que os módulos de origem precisem conhecê-los.
+ */
+
+import { EventEmitter } from 'events';
+
+export type ContactEventSource =
+  | 'MANUAL'
+  | 'CSV_IMPORT'
+  | 'PERFEX'
+  | 'CHATWOOT'
+  | 'BULK_UPDATE'
+  | 'AUTOMATION'
+  | 'INTERACTIVE_CAMPAIGN';
+
+interface ContactEventBase {
+  tenantId: string;
+  contactId: string;
+  contactPhone: string;
+  contactName: string;
+  source: ContactEventSource;
+  originFlowId?: string; // Fluxo de automação que causou a alteração (evita laços)
+}
+
+interface CampaignMessageEventBase {
+  tenantId: string;
+  campaignId: string;
+  campaignMessageId: string;
+  contactId: string;
+  contactPhone: string;
+  contactName: string;
+  messageId?: string | null;
+  timestamp: Date;
+}
+
+export interface DomainEventMap {
+  CONTACT_CREATED: ContactEventBase;
+  CONTACT_UPDATED: ContactEventBase & { changedFields: string[] };
+  TAG_ADDED: ContactEventBase & { tag: string };
+  TAG_REMOVED: ContactEventBase & { tag: string };
+  MESSAGE_DELIVERED: CampaignMessageEventBase & { status: 'DELIVERED' };
+  MESSAGE_READ: CampaignMessageEventBase & { status: 'READ' };
+  MESSAGE_FAILED: CampaignMessageEventBase & { status: 'FAILED'; failureClass?: string | null; error?: string | null };
+  // Mensagem recebida que não foi consumida por uma sessão de campanha interativa nem por opt-out
+  MESSAGE_RECEIVED: {
+    tenantId: string;
+    contactId: string | null;
+    contactPhone: string;
+    contactName: string | null;
+    sessionName: string;
+    content: string;
+    messageType: string;
+    messageId: string | null; // Mensagem registrada na caixa de entrada
+    timestamp: Date;
+  };
+  CAMPAIGN_COMPLETED: {
+    tenantId: string;
+    campaignId: string;
+    campaignName: string;
+    totalContacts: number;
+    sentCount: number;
+    failedCount: number;
+    successRate: number;
+    completedAt: Date;
+  };
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+// Campos do contato comparados para CONTACT_UPDATED
+interface ContactSnapshot {
+  id: string;
+  tenantId: string | null;
+  nome: string;
+  telefone: string;
+  email?: string | null;
+  observacoes?: string | null;
+  categoriaId?: string | null;
+  perfexLeadId?: string | null;
+  tags: string[];
+  customFields?: any;
+}
+
+const TRACKED_CONTACT_FIELDS: (keyof ContactSnapshot)[] = ['nome', 'telefone', 'email', 'observacoes', 'categoriaId', 'perfexLeadId', 'tags', 'customFields'];
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(50);
+
+function contactBase(contact: ContactSnapshot, source: ContactEventSource, originFlowId?: string): ContactEventBase {
+  return {
+    tenantId: contact.tenantId as string,
+    contactId: contact.id,
+    contactPhone: contact.telefone,
+    contactName: contact.nome,
+    source,
+    ...(originFlowId ? { originFlowId } : {})
+  };
+}
+
+function sameValue(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export const domainEvents = {
+  /**
+   * Publica um evento; os consumidores rodam depois, sem bloquear nem derrubar quem publicou
+   */
+  publish<T extends DomainEventType>(type: T, payload: DomainEventMap[T]): void {
+    // Sem tenant não há como isolar os consumidores (ex.: contatos legados sem tenant)
+    if (!payload.tenantId) {
+      return;
+    }
+
+    setImmediate(() => emitter.emit(type, payload));
+  },
+
+  subscribe<T extends DomainEventType>(type: T, handler: (payload: DomainEventMap[T]) => Promise<void> | void): () => void {
+    const listener = (payload: DomainEventMap[T]) => {
+      Promise.resolve()
+        .then(() => handler(payload))
+        .catch(error => console.error(`❌ Erro no consumidor do evento ${type}:`, error));
+    };
+
+    emitter.on(type, listener);
+    return () => {
+      emitter.off(type, listener);
+    };
+  },
+
+  contactCreated(contact: ContactSnapshot, source: ContactEventSource, originFlowId?: string): void {
+    const base = contactBase(contact, source, originFlowId);
+
+    this.publish('CONTACT_CREATED', base);
+    for (const tag of contact.tags || []) {
+      this.publish('TAG_ADDED', { ...base, tag });
+    }
+  },
+
+  /**
+   * Compara o contato antes/depois e publica CONTACT_UPDATED e TAG_ADDED/TAG_REMOVED do que mudou
+   */
+  contactUpdated(before: ContactSnapshot, after: ContactSnapshot, source: ContactEventSource, originFlowId?: string): void {
+    const changedFields = TRACKED_CONTACT_FIELDS.filter(field => !sameValue(before[field], after[field]));
+    if (changedFields.length === 0) {
+      return;
+    }
+
+    const base = contactBase(after, source, originFlowId);
+    this.publish('CONTACT_UPDATED', { ...base, changedFields });
+
+    const beforeTags = new Set(before.tags || []);
+    const afterTags = new Set(after.tags || []);
+    for (const tag of afterTags) {
+      if (!beforeTags.has(tag)) {
+        this.publish('TAG_ADDED', { ...base, tag });
+      }
+    }
+    for (const tag of beforeTags) {
+      if (!afterTags.has(tag)) {
+        this.publish('TAG_REMOVED', { ...base, tag });
+      }
+    }
+  }
+};
@@ -0,0 +1,103 @@
+/**
+ * Email Service
+ * Envio de emails pelo SMTP configurado no tenant (ou pelas variáveis SMTP_* do servidor)
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { tenantSettingsService } from './tenantSettingsService';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string | null;
+  password: string | null;
+  from: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+function envConfig(): SmtpConfig | null {
+  if (!process.env.SMTP_HOST) {
+    return null;
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || '587');
+  return {
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER || null,
+    password: process.env.SMTP_PASSWORD || null,
+    from: process.env.SMTP_FROM || process.env.SMTP_USER || '',
+  };
+}
+
+export const emailService = {
+  /**
+   * SMTP do tenant; sem host configurado, usa o SMTP do servidor
+   */
+  async getConfig(tenantId: string): Promise<SmtpConfig | null> {
+    const settings = await tenantSettingsService.getTenantSettings(tenantId);
+
+    if (settings.smtpHost) {
+      const port = settings.smtpPort || (settings.smtpSecure ? 465 : 587);
+      return {
+        host: settings.smtpHost,
+        port,
+        secure: settings.smtpSecure,
+        user: settings.smtpUser,
+        password: settings.smtpPassword,
+        from: settings.smtpFrom || settings.smtpUser || '',
+      };
+    }
+
+    return envConfig();
+  },
+
+  createTransport(config: SmtpConfig): Transporter {
+    return nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password || '' } : undefined,
+    });
+  },
+
+  async send(tenantId: string, message: EmailMessage): Promise<{ messageId: string }> {
+    const config = await this.getConfig(tenantId);
+    if (!config) {
+      throw new Error('SMTP não configurado para este tenant');
+    }
+    if (!config.from) {
+      throw new Error('Remetente (From) do SMTP não configurado');
+    }
+
+    const info = await this.createTransport(config).sendMail({
+      from: config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+
+    console.log(`📧 Email enviado para ${message.to} (tenant ${tenantId}): ${info.messageId}`);
+    return { messageId: info.messageId };
+  },
+
+  /**
+   * Testa a conexão e autenticação com o SMTP configurado
+   */
+  async verify(tenantId: string): Promise<void> {
+    const config = await this.getConfig(tenantId);
+    if (!config) {
+      throw new Error('SMTP não configurado para este tenant');
+    }
+    await this.createTransport(config).verify();
+  },
+};
@@ -30,6 +30,11 @@ interface EvolutionCreateInstanceResponse {
   };
 }
 
+interface EvolutionCredentials {
+  host: string;
+  apiKey: string;
+}
+
 interface EvolutionInstanceInfo {
   instanceName: string;
   status: string;
@@ -53,8 +58,9 @@ export class EvolutionApiService {
     return await settingsService.getEvolutionConfig();
   }
 
-  private async makeRequest(endpoint: string, options: RequestInit = {}) {
-    const config = await this.getConfig();
+  private async makeRequest(endpoint: string, options: RequestInit = {}, customConfig?: EvolutionCredentials) {
+    // Sessões importadas de uma Evolution externa usam as próprias credenciais
+    const config = customConfig || await this.getConfig();
 
     if (!config.host || !config.apiKey) {
       throw new Error('Configurações Evolution API não encontradas. Configure nas configurações do sistema.');
@@ -96,7 +102,7 @@ export class EvolutionApiService {
         headers: {
           'Content-Type': 'application/json'
         },
-        events: ['MESSAGES_UPSERT']
+        events: ['MESSAGES_UPSERT', 'MESSAGES_UPDATE']
       };
     }
 
@@ -119,9 +125,9 @@ export class EvolutionApiService {
     throw new Error(`Instância ${instanceName} não encontrada`);
   }
 
-  async getQRCode(instanceName: string): Promise<string> {
+  async getQRCode(instanceName: string, customConfig?: EvolutionCredentials): Promise<string> {
     try {
-      const response = await this.makeRequest(`/instance/connect/${instanceName}`);
+      const response = await this.makeRequest(`/instance/connect/${instanceName}`, {}, customConfig);
       const data = await response.json() as { base64?: string; code?: string; pairingCode?: string };
 
       // Evolution API pode retornar base64, code ou pairingCode
@@ -145,7 +151,7 @@ export class EvolutionApiService {
     }
   }
 
-  async setWebhook(instanceName: string, webhookUrl: string, customConfig?: { host: string; apiKey: string }): Promise<void> {
+  async setWebhook(instanceName: string, webhookUrl: string, customConfig?: EvolutionCredentials): Promise<void> {
     const config = customConfig || await this.getConfig();
 
     if (!config.host || !config.apiKey) {
@@ -162,7 +168,7 @@ export class EvolutionApiService {
         headers: {
           'Content-Type': 'application/json',
         },
-        events: ['MESSAGES_UPSERT'],
+        events: ['MESSAGES_UPSERT', 'MESSAGES_UPDATE'],
       },
     };
 
@@ -188,16 +194,16 @@ export class EvolutionApiService {
     console.log(`[WEBHOOK-SETUP] ✅ Webhook configurado para ${instanceName} - resposta: ${responseText}`);
   }
 
-  async deleteInstance(instanceName: string): Promise<void> {
+  async deleteInstance(instanceName: string, customConfig?: EvolutionCredentials): Promise<void> {
     await this.makeRequest(`/instance/delete/${instanceName}`, {
       method: 'DELETE'
-    });
+    }, customConfig);
   }
 
-  async restartInstance(instanceName: string): Promise<void> {
+  async restartInstance(instanceName: string, customConfig?: EvolutionCredentials): Promise<void> {
     await this.makeRequest(`/instance/restart/${instanceName}`, {
       method: 'PUT'
-    });
+    }, customConfig);
   }
 
   async getInstanceStatus(instanceName: string): Promise<string> {
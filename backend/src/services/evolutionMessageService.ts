@@ -1,4 +1,8 @@
 import { settingsService } from './settingsService';
+import { MAX_INBOUND_MEDIA_BYTES } from './whatsappProviders/utils';
+import type { ButtonsMessage, ListMessage, PollMessage, LocationMessage, ContactCardMessage, ReactionMessage } from './whatsappProviders/types';
+
+const nodeFetch = require('node-fetch');
 
 /**
  * Extrai credenciais Evolution de uma sessão importada (campo config JSON).
@@ -38,6 +42,12 @@ interface EvolutionMessage {
   document?: { url: string };
   fileName?: string;
   caption?: string;
+  buttons?: ButtonsMessage;
+  list?: ListMessage;
+  poll?: PollMessage;
+  location?: LocationMessage;
+  contact?: ContactCardMessage;
+  reaction?: ReactionMessage;
 }
 
 export async function sendMessageViaEvolution(instanceName: string, phone: string | number, message: EvolutionMessage, customConfig?: { host: string; apiKey: string }) {
@@ -54,7 +64,65 @@ export async function sendMessageViaEvolution(instanceName: string, phone: strin
       number: normalizedPhone
     };
 
-    if (message.text) {
+    if (message.buttons) {
+      endpoint = `/message/sendButtons/${instanceName}`;
+      requestBody = {
+        number: normalizedPhone,
+        title: '',
+        description: message.buttons.text,
+        footer: message.buttons.footer || '',
+        buttons: message.buttons.buttons.map(button => ({ type: 'reply', displayText: button.title, id: button.id }))
+      };
+    } else if (message.list) {
+      endpoint = `/message/sendList/${instanceName}`;
+      requestBody = {
+        number: normalizedPhone,
+        title: '',
+        description: message.list.text,
+        buttonText: message.list.buttonText,
+        footerText: message.list.footer || '',
+        sections: message.list.sections.map(section => ({
+          title: section.title || '',
+          rows: section.rows.map(row => ({ title: row.title, description: row.description || '', rowId: row.id }))
+        }))
+      };
+    } else if (message.poll) {
+      endpoint = `/message/sendPoll/${instanceName}`;
+      requestBody = {
+        number: normalizedPhone,
+        name: message.poll.name,
+        selectableCount: message.poll.selectableCount || 1,
+        values: message.poll.options.map(option => option.title)
+      };
+    } else if (message.location) {
+      endpoint = `/message/sendLocation/${instanceName}`;
+      requestBody = {
+        number: normalizedPhone,
+        name: message.location.name || '',
+        address: message.location.address || '',
+        latitude: message.location.latitude,
+        longitude: message.location.longitude
+      };
+    } else if (message.contact) {
+      endpoint = `/message/sendContact/${instanceName}`;
+      requestBody = {
+        number: normalizedPhone,
+        contact: [{
+          fullName: message.contact.fullName,
+          wuid: message.contact.phone,
+          phoneNumber: `+${message.contact.phone}`,
+          organization: message.contact.organization || '',
+          email: message.contact.email || ''
+        }]
+      };
+    } else if (message.reaction) {
+      // Reação é aplicada sobre uma mensagem recebida do contato
+      endpoint = `/message/sendReaction/${instanceName}`;
+      requestBody = {
+        key: { remoteJid: `${normalizedPhone}@s.whatsapp.net`, fromMe: false, id: message.reaction.messageId },
+        reaction: message.reaction.emoji
+      };
+    } else if (message.text) {
       endpoint = `/message/sendText/${instanceName}`;
       requestBody.text = message.text;
     } else if (message.image) {
@@ -130,6 +198,40 @@ export async function sendMessageViaEvolution(instanceName: string, phone: strin
   }
 }
 
+/**
+ * Baixa a mídia de uma mensagem recebida (base64), para instâncias sem webhook_base64
+ */
+export async function downloadMediaViaEvolution(instanceName: string, messageId: string, customConfig?: { host: string; apiKey: string }): Promise<{ base64: string; mimetype?: string; fileName?: string }> {
+  const config = customConfig || await settingsService.getEvolutionConfig();
+
+  if (!config.host || !config.apiKey) {
+    throw new Error('Configurações Evolution API não encontradas. Configure nas configurações do sistema.');
+  }
+
+  // node-fetch: limita o corpo da resposta (base64 ocupa ~4/3 do arquivo)
+  const response = await nodeFetch(`${config.host}/chat/getBase64FromMediaMessage/${instanceName}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': config.apiKey
+    },
+    body: JSON.stringify({ message: { key: { id: messageId } }, convertToMp4: false }),
+    size: Math.ceil(MAX_INBOUND_MEDIA_BYTES * 4 / 3) + 64 * 1024,
+    timeout: 120000
+  });
+
+  if (!response.ok) {
+    const responseText = await response.text();
+    throw new Error(`Evolution API error: ${response.status} ${response.statusText} - ${responseText}`);
+  }
+
+  const result: any = await response.json();
+  if (!result?.base64) {
+    throw new Error('Evolution API não retornou o conteúdo da mídia');
+  }
+  return result;
+}
+
 export async function checkContactExistsEvolution(instanceName: string, phone: string | number, customConfig?: { host: string; apiKey: string }): Promise<{exists: boolean, validPhone?: string}> {
   try {
     const config = customConfig || await settingsService.getEvolutionConfig();
@@ -1,5 +1,6 @@
 import { settingsService } from './settingsService';
 import { tenantSettingsService } from './tenantSettingsService';
+import { templateVariableService } from './templateVariableService';
 
 export interface GroqMessage {
   model: string;
@@ -44,19 +45,8 @@ export class GroqService {
       }
 
       // Substituir variáveis no prompt do usuário
-      let userPrompt = messageConfig.user;
-      const variables = {
-        '{{nome}}': contactData.nome || '',
-        '{{email}}': contactData.email || '',
-        '{{telefone}}': contactData.telefone || '',
-        '{{categoria}}': contactData.categoria || '',
-        '{{observacoes}}': contactData.observacoes || ''
-      };
-
-      // Aplicar substituições de variáveis
-      Object.entries(variables).forEach(([variable, value]) => {
-        userPrompt = userPrompt.replace(new RegExp(variable, 'g'), value);
-      });
+      const variables = await templateVariableService.getContactVariables(contactData, tenantId);
+      const userPrompt = templateVariableService.render(messageConfig.user, variables);
 
       // Preparar mensagens para a API do Groq
       const messages = [
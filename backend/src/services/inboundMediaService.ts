@@ -0,0 +1,155 @@
+/**
+ * Inbound Media Service
+ * Baixa as mídias recebidas dos contatos (fotos, áudios, vídeos, documentos) para o armazenamento
+ * do tenant e monta os dados da resposta expostos aos fluxos interativos.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { WhatsAppSession } from '@prisma/client';
+import { settingsService } from './settingsService';
+import { getProvider, InboundMessage, InboundMedia, InboundMediaType, DownloadedMedia } from './whatsappProviders';
+import { downloadFromUrl, MAX_INBOUND_MEDIA_BYTES } from './whatsappProviders/utils';
+
+// Servido estaticamente em /api/uploads (ver server.ts)
+const UPLOADS_DIR = '/app/uploads';
+const INBOUND_DIR = 'inbound';
+
+// Extensão do arquivo salvo: somente tipos conhecidos, o nome enviado pelo contato é ignorado
+// (os uploads são públicos e um .html/.svg vindo de fora seria servido pela própria aplicação)
+const EXTENSIONS_BY_MIMETYPE: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'audio/amr': '.amr',
+  'application/pdf': '.pdf',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'text/plain': '.txt',
+};
+
+/**
+ * Resposta recebida como exposta aos fluxos: tipo, arquivo salvo e coordenadas
+ */
+export interface ReceivedMedia {
+  type: InboundMediaType;
+  url: string | null; // URL pública do arquivo salvo; null quando o download falhou
+  mimetype: string | null;
+  fileName: string | null;
+  size: number | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+function fileExtension(mimetype: string | null | undefined): string {
+  const base = String(mimetype || '').split(';')[0].trim().toLowerCase();
+  return EXTENSIONS_BY_MIMETYPE[base] || '.bin';
+}
+
+// Diretório do tenant: o id vem do banco, mas não deve escapar da pasta de uploads
+function tenantFolder(tenantId: string | null | undefined): string {
+  return String(tenantId || 'shared').replace(/[^a-zA-Z0-9_-]/g, '') || 'shared';
+}
+
+export const inboundMediaService = {
+  /**
+   * Dados da mídia recebida com o arquivo salvo no armazenamento do tenant.
+   * Falhas no download são registradas e a resposta segue sem URL (o fluxo ainda conhece o tipo).
+   * Retorna null para mensagens sem mídia.
+   */
+  async store(session: WhatsAppSession, message: InboundMessage): Promise<ReceivedMedia | null> {
+    const media = message.media;
+    if (!media) {
+      return null;
+    }
+
+    const received = this.describe(media);
+    if (media.type === 'location' || media.type === 'contact') {
+      return received;
+    }
+
+    try {
+      const downloaded = await this.download(session, message);
+      if (!downloaded) {
+        console.warn(`⚠️ [INBOUND-MEDIA] Mídia ${media.type} de ${message.fromNumber} sem conteúdo para baixar`);
+        return received;
+      }
+      if (downloaded.buffer.length > MAX_INBOUND_MEDIA_BYTES) {
+        // base64 embutido no webhook não passa pelo limite do download
+        console.warn(`⚠️ [INBOUND-MEDIA] Mídia de ${message.fromNumber} excede 50MB (${downloaded.buffer.length} bytes), não salva`);
+        return received;
+      }
+
+      const mimetype = downloaded.mimetype || received.mimetype;
+      const fileName = downloaded.fileName || received.fileName;
+      const folder = tenantFolder(session.tenantId);
+      const storedName = `${Date.now()}_${crypto.randomBytes(6).toString('hex')}${fileExtension(mimetype)}`;
+      const directory = path.join(UPLOADS_DIR, INBOUND_DIR, folder);
+
+      await fs.promises.mkdir(directory, { recursive: true });
+      await fs.promises.writeFile(path.join(directory, storedName), downloaded.buffer);
+
+      // URL completa: a mídia pode ser reenviada pelos providers em nós seguintes do fluxo
+      const baseUrl = await settingsService.getAppBaseUrl();
+      received.url = `${baseUrl}/api/uploads/${INBOUND_DIR}/${folder}/${storedName}`;
+      received.mimetype = mimetype;
+      received.fileName = fileName;
+      received.size = downloaded.buffer.length;
+
+      console.log(`📥 [INBOUND-MEDIA] ${media.type} de ${message.fromNumber} salvo em ${received.url}`);
+    } catch (error: any) {
+      console.error(`❌ [INBOUND-MEDIA] Erro ao baixar ${media.type} de ${message.fromNumber}: ${error.message}`);
+    }
+
+    return received;
+  },
+
+  /**
+   * Dados da mídia sem o arquivo (tipo, mimetype e coordenadas), ex.: reentrega de um webhook já processado
+   */
+  describe(media: InboundMedia): ReceivedMedia {
+    return {
+      type: media.type,
+      url: null,
+      mimetype: media.mimetype || null,
+      fileName: media.fileName || null,
+      size: null,
+      latitude: Number.isFinite(media.latitude) ? media.latitude! : null,
+      longitude: Number.isFinite(media.longitude) ? media.longitude! : null,
+    };
+  },
+
+  /**
+   * Conteúdo do arquivo: base64 embutido no webhook, download pela API do provider ou pela URL informada
+   */
+  async download(session: WhatsAppSession, message: InboundMessage): Promise<DownloadedMedia | null> {
+    const media = message.media!;
+
+    if (media.base64) {
+      return { buffer: Buffer.from(media.base64.replace(/^data:[^,]*,/, ''), 'base64'), mimetype: media.mimetype, fileName: media.fileName };
+    }
+
+    const provider = getProvider(session.provider);
+    if (provider.downloadMedia) {
+      return provider.downloadMedia(session, message);
+    }
+
+    // URL informada fora do provider (ex.: sandbox): nunca acessa a rede interna
+    if (media.url) {
+      const downloaded = await downloadFromUrl(media.url, {}, { publicOnly: true });
+      return { ...downloaded, mimetype: media.mimetype || downloaded.mimetype, fileName: media.fileName || downloaded.fileName };
+    }
+
+    return null;
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * Interactive Campaign Delay Scheduler
+ * Retoma os fluxos de sessões paradas em nós de delay quando o horário agendado chega,
+ * dispara timeouts/lembretes de nós que aguardam resposta e expira sessões antigas.
+ * O agendamento fica salvo na sessão (wakeUpAt), então reinícios/deploys não perdem contatos;
+ * cada retomada é reservada por um lease e só é encerrada depois que o handler termina;
+ * retomadas que falham repetidamente marcam a sessão como falha.
+ */
+
+import { interactiveCampaignSessionService } from './interactiveCampaignSessionService';
+import { interactiveCampaignFlowEngine } from './interactiveCampaignFlowEngine';
+
+const POLL_INTERVAL_MS = parseInt(process.env.INTERACTIVE_DELAY_POLL_MS || '5000');
+const EXPIRY_INTERVAL_MS = 60000;
+
+class InteractiveCampaignDelayScheduler {
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private expiryIntervalId: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  start() {
+    if (this.isRunning) {
+      return;
+    }
+
+    console.log('⏰ Starting interactive campaign delay scheduler...');
+    this.isRunning = true;
+
+    this.intervalId = setInterval(() => this.processDueWakeUps(), POLL_INTERVAL_MS);
+    this.expiryIntervalId = setInterval(() => this.expireSessions(), EXPIRY_INTERVAL_MS);
+
+    // Executar imediatamente também (retoma delays vencidos durante o reinício)
+    this.processDueWakeUps();
+  }
+
+  stop() {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    if (this.expiryIntervalId) {
+      clearInterval(this.expiryIntervalId);
+      this.expiryIntervalId = null;
+    }
+  }
+
+  private async processDueWakeUps() {
+    if (this.processing) {
+      return;
+    }
+
+    this.processing = true;
+    try {
+      // Processar em lotes até não haver mais retomadas vencidas
+      while (this.isRunning) {
+        const wakeUps = await interactiveCampaignSessionService.claimDueWakeUps();
+
+        for (const wakeUp of wakeUps) {
+          try {
+            await interactiveCampaignFlowEngine.handleWakeUp(wakeUp.sessionId, wakeUp.nodeId);
+            await interactiveCampaignSessionService.completeWakeUp(wakeUp.sessionId, wakeUp.leaseUntil);
+          } catch (error) {
+            // Lease mantido: a sessão volta a vencer quando ele expirar (até o limite de tentativas)
+            console.error(`❌ Wake-up attempt ${wakeUp.attempts} failed for session ${wakeUp.sessionId}, retrying after lease:`, error);
+            await interactiveCampaignSessionService.releaseFailedWakeUp(wakeUp.sessionId, wakeUp.nodeId, wakeUp.leaseUntil, wakeUp.attempts);
+          }
+        }
+
+        if (wakeUps.length === 0) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error processing delayed sessions:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Expira sessões que passaram do tempo máximo de vida da campanha
+   */
+  private async expireSessions() {
+    try {
+      await interactiveCampaignFlowEngine.expireSessionsPastLifetime();
+    } catch (error) {
+      console.error('❌ Error expiring interactive campaign sessions:', error);
+    }
+  }
+}
+
+// Criar instância singleton
+const interactiveCampaignDelayScheduler = new InteractiveCampaignDelayScheduler();
+
+// Iniciar automaticamente quando o módulo for carregado
+interactiveCampaignDelayScheduler.start();
+
+export default interactiveCampaignDelayScheduler;
@@ -3,21 +3,39 @@
  * Envia mensagens iniciais de campanhas interativas para contatos configurados
  */
 
+import crypto from 'crypto';
 import { PrismaClient } from '@prisma/client';
-import { sendMessage, checkContactExists } from './wahaApiService';
-import { sendMessageViaEvolution, checkContactExistsEvolution, getEvolutionCredentialsFromSession } from './evolutionMessageService';
-import { sendMessageViaQuepasa, checkContactExistsQuepasa } from './quepasaMessageService';
 import { interactiveCampaignSessionService } from './interactiveCampaignSessionService';
-import { evolutionApiService } from './evolutionApiService';
+import { interactiveCampaignFlowEngine } from './interactiveCampaignFlowEngine';
 import { settingsService } from './settingsService';
+import { conversationService } from './conversationService';
+import { templateVariableService } from './templateVariableService';
+import { optOutService, OPT_OUT_STATUS } from './optOutService';
+import { sessionRateLimitService, SendReservation } from './sessionRateLimitService';
+import { JobDeferredError } from './jobQueueService';
+import { sessionHealthService } from './sessionHealthService';
+import {
+  getProvider,
+  connectionToProviderSession,
+  WhatsAppProviderName,
+  isInteractiveMessageType,
+  buildInteractiveMessage,
+} from './whatsappProviders';
 
 const prisma = new PrismaClient();
 
+export interface DispatchOptions {
+  resumeSince?: Date; // Início do disparo: contatos com sessão atualizada desde então já foram processados
+  heartbeat?: () => Promise<void>; // Renova o lock do job a cada contato
+}
+
 export const interactiveCampaignDispatchService = {
   /**
-   * Dispara campanha interativa quando publicada
+   * Dispara campanha interativa quando publicada (executado pela fila de jobs).
+   * Sem orçamento de envio em nenhuma conexão, lança JobDeferredError e o job retoma
+   * de onde parou quando a primeira sessão liberar.
    */
-  async dispatchCampaign(campaignId: string) {
+  async dispatchCampaign(campaignId: string, options: DispatchOptions = {}) {
     try {
       console.log(`📤 Starting dispatch for interactive campaign ${campaignId}`);
 
@@ -130,12 +148,31 @@ export const interactiveCampaignDispatchService = {
           messageTemplate = nodeConfig.message || nodeConfig.content;
           break;
 
+        case 'ai':
+          // Conteúdo gerado individualmente para cada contato no momento do envio
+          break;
+
+        case 'buttons':
+        case 'list':
+        case 'poll':
+        case 'location':
+        case 'contact':
+          // Montado para cada contato no momento do envio; validar a configuração antes do disparo
+          try {
+            buildInteractiveMessage(nodeType, nodeConfig);
+          } catch (error: any) {
+            console.warn(`⚠️ Primeiro nó ${nodeType} inválido: ${error.message}`);
+            return;
+          }
+          break;
+
         default:
+          // Reação precisa de uma mensagem do contato e não pode abrir o fluxo
           console.warn(`⚠️ Tipo de nó inicial não suportado para disparo: ${nodeType}`);
           return;
       }
 
-      if (!messageTemplate && !mediaUrl) {
+      if (!messageTemplate && !mediaUrl && nodeType !== 'ai' && !isInteractiveMessageType(nodeType)) {
         console.warn('⚠️ Primeiro nó não tem conteúdo configurado. Apenas ficará aguardando mensagens.');
         return;
       }
@@ -166,6 +203,20 @@ export const interactiveCampaignDispatchService = {
 
       console.log(`👥 Found ${contacts.length} contacts in selected categories`);
 
+      // Retomada após adiamento: pular contatos já processados neste disparo
+      let pendingContacts = contacts;
+      if (options.resumeSince) {
+        const processed = await prisma.interactiveCampaignSession.findMany({
+          where: { campaignId: campaign.id, updatedAt: { gte: options.resumeSince } },
+          select: { contactId: true },
+        });
+        const processedIds = new Set(processed.map(session => session.contactId));
+        pendingContacts = contacts.filter(contact => !processedIds.has(contact.id));
+        if (processedIds.size > 0) {
+          console.log(`⏩ Resuming dispatch: ${processedIds.size} contacts already processed, ${pendingContacts.length} remaining`);
+        }
+      }
+
       if (contacts.length === 0) {
         console.warn('⚠️ Nenhum contato encontrado nas categorias selecionadas');
         return;
@@ -198,7 +249,7 @@ export const interactiveCampaignDispatchService = {
       // Converter WhatsAppSession para formato de Connection
       const convertedOldConnections = connectionDataOld.map((session) => ({
         id: session.id,
-        provider: (session.provider || 'WAHA') as 'WAHA' | 'EVOLUTION' | 'QUEPASA',
+        provider: (session.provider || 'WAHA') as WhatsAppProviderName,
         instanceName: session.name,
         phoneNumber: session.meJid || session.name,
         status: 'ACTIVE' as const,
@@ -208,7 +259,7 @@ export const interactiveCampaignDispatchService = {
         createdAt: new Date(),
         updatedAt: new Date(),
         quepasaToken: session.quepasaToken, // Manter token para uso posterior
-        _sessionConfig: session.config, // Config da sessão importada (Evolution credentials)
+        config: session.config, // Config da sessão importada (Evolution credentials)
       }));
 
       // Mesclar conexões novas e antigas
@@ -220,11 +271,12 @@ export const interactiveCampaignDispatchService = {
 
       console.log(`📱 Active connections: ${connectionData.map(c => c.instanceName).join(', ')}`);
 
-      // Garantir que webhook está configurado para conexões Evolution
+      // Garantir que webhook está configurado nas conexões cujo provider permite apontá-lo
       const baseUrl = await settingsService.getAppBaseUrl();
       console.log(`🔗 Using base URL for webhooks: ${baseUrl}`);
       for (const conn of connectionData) {
-        if (conn.provider === 'EVOLUTION') {
+        const connProvider = getProvider(conn.provider);
+        if (connProvider.setWebhook) {
           try {
             // Buscar webhookSecret da sessão
             const whatsappSession = await prisma.whatsAppSession.findFirst({
@@ -233,9 +285,18 @@ export const interactiveCampaignDispatchService = {
             });
 
             if (whatsappSession) {
-              const webhookUrl = `${baseUrl}/api/webhooks/incoming/${whatsappSession.id}/${whatsappSession.webhookSecret || 'default'}`;
-              const evolutionCreds = getEvolutionCredentialsFromSession({ config: (conn as any)._sessionConfig });
-              await evolutionApiService.setWebhook(conn.instanceName, webhookUrl, evolutionCreds || undefined);
+              // Sessões antigas sem segredo recebem um agora (o webhook recusa chamadas sem segredo válido)
+              let webhookSecret = whatsappSession.webhookSecret;
+              if (!webhookSecret) {
+                webhookSecret = crypto.randomBytes(32).toString('hex');
+                await prisma.whatsAppSession.update({
+                  where: { id: whatsappSession.id },
+                  data: { webhookSecret },
+                });
+              }
+
+              const webhookUrl = `${baseUrl}/api/webhooks/incoming/${whatsappSession.id}/${webhookSecret}`;
+              await connProvider.setWebhook(connectionToProviderSession(conn as any), webhookUrl);
               console.log(`✅ Webhook configurado para ${conn.instanceName}: ${webhookUrl}`);
 
               // Ativar flag interactiveCampaignEnabled na sessão
@@ -255,47 +316,48 @@ export const interactiveCampaignDispatchService = {
       let connectionIndex = 0;
       let successCount = 0;
       let errorCount = 0;
+      let optOutCount = 0;
 
-      for (const contact of contacts) {
+      for (const contact of pendingContacts) {
+        let sendingSession: string | null = null;
+        await options.heartbeat?.();
         try {
-          // Distribuição round-robin entre conexões
-          const connection = connectionData[connectionIndex % connectionData.length];
+          // Contato descadastrado (opt-out): registrar a sessão como pulada e não enviar
+          if (await optOutService.isSuppressed(campaign.tenantId, contact.telefone)) {
+            console.log(`🚫 Contact ${contact.telefone} is in the suppression list. Skipping.`);
+            optOutCount++;
+            await interactiveCampaignSessionService.upsertSession({
+              campaignId: campaign.id,
+              contactId: contact.id,
+              contactPhone: contact.telefone,
+              currentNodeId: firstNode.id,
+              tenantId: campaign.tenantId || undefined,
+              status: OPT_OUT_STATUS,
+              variables: {
+                nome: contact.nome,
+                telefone: contact.telefone,
+              },
+            });
+            continue;
+          }
+
+          // Distribuição round-robin entre conexões, pulando as que estão sem orçamento de envio
+          const { connection, reservation } = await this.acquireConnection(connectionData, connectionIndex);
           connectionIndex++;
+          sendingSession = connection.instanceName;
 
           console.log(`📤 Processing ${contact.nome} (${contact.telefone}) via ${connection.instanceName} (${connection.provider})`);
 
           // VERIFICAR SE O NÚMERO EXISTE NO WHATSAPP (igual campanha normal)
-          let contactCheck: any = { exists: false };
-          let sessionToken: string | undefined;
-
-          // Buscar token QuePasa se for o caso
-          if (connection.provider === 'QUEPASA') {
-            // Verificar se o token já vem da conexão convertida
-            sessionToken = (connection as any).quepasaToken;
-
-            // Se não tiver, buscar na WhatsAppSession
-            if (!sessionToken) {
-              const quepasaSession = await prisma.whatsAppSession.findFirst({
-                where: { name: connection.instanceName },
-                select: { quepasaToken: true },
-              });
-              sessionToken = quepasaSession?.quepasaToken || undefined;
-            }
-          }
-
-          // Verificar existência do contato
-          if (connection.provider === 'EVOLUTION') {
-            const evolutionCreds = getEvolutionCredentialsFromSession({ config: (connection as any)._sessionConfig });
-            contactCheck = await checkContactExistsEvolution(connection.instanceName, contact.telefone, evolutionCreds || undefined);
-          } else if (connection.provider === 'QUEPASA') {
-            contactCheck = await checkContactExistsQuepasa(connection.instanceName, contact.telefone, sessionToken);
-          } else {
-            contactCheck = await checkContactExists(connection.instanceName, contact.telefone);
-          }
+          const provider = getProvider(connection.provider);
+          const providerSession = connectionToProviderSession(connection as any);
+          const contactCheck = await provider.checkNumber(providerSession, contact.telefone);
 
           if (!contactCheck.exists) {
             console.log(`❌ Contact ${contact.telefone} does not exist on WhatsApp (${connection.provider}). Skipping.`);
             errorCount++;
+            await sessionRateLimitService.release(reservation);
+            await sessionHealthService.recordEvent(connection.instanceName, 'CONTACT_NOT_FOUND', contact.telefone);
 
             // Criar sessão com status de ERRO para rastreamento
             try {
@@ -321,65 +383,85 @@ export const interactiveCampaignDispatchService = {
           }
 
           // Usar número validado pela API
-          const validatedPhone = contactCheck.validPhone || contactCheck.chatId || contact.telefone;
+          const validatedPhone = contactCheck.recipient || contact.telefone;
           console.log(`✅ Contact exists. Using validated phone: ${validatedPhone}`);
 
           // Personalizar mensagem
           console.log(`🔍 DEBUG replace - contact.nome="${contact.nome}", contact.telefone="${contact.telefone}", validatedPhone="${validatedPhone}"`);
-          let personalizedMessage = messageTemplate ? messageTemplate.replace(/\{\{nome\}\}/gi, contact.nome).replace(/\{\{telefone\}\}/gi, contact.telefone) : null;
-
-          console.log(`📤 Sending ${mediaUrl ? mediaType : 'text'} to ${contact.nome} (${validatedPhone})`);
-
-          // Preparar payload da mensagem
-          let messagePayload: any;
+          const contactVariables = await templateVariableService.getContactVariables(contact, campaign.tenantId);
+          let personalizedMessage = messageTemplate ? templateVariableService.render(messageTemplate, contactVariables) : null;
+
+          // Nó inicial de IA: gerar conteúdo para este contato
+          // Variáveis do contato (incluindo campos personalizados) ficam disponíveis em todo o fluxo
+          const initialVariables: Record<string, any> = {
+            ...contactVariables,
+            telefone: validatedPhone, // Usar número validado
+          };
+          let skipInitialSend = false;
+          let messagePayload: any = null;
+
+          if (nodeType === 'ai') {
+            let aiText: string;
+            try {
+              aiText = await interactiveCampaignFlowEngine.generateAINodeResponse(firstNode, {
+                tenantId: campaign.tenantId,
+                variables: initialVariables,
+                contact,
+              });
+            } catch (aiError) {
+              // Nada foi enviado: devolver a reserva ao orçamento da sessão
+              await sessionRateLimitService.release(reservation);
+              throw aiError;
+            }
 
-          if (mediaUrl) {
-            // Mensagem com mídia
-            messagePayload = {
-              media: {
-                url: mediaUrl,
-                caption: personalizedMessage || undefined,
-              },
-            };
-          } else {
-            // Mensagem de texto
-            messagePayload = { text: personalizedMessage };
+            if (nodeConfig.outputMode === 'variable') {
+              initialVariables[nodeConfig.outputVariable || 'resposta_ia'] = aiText;
+              skipInitialSend = true;
+              await sessionRateLimitService.release(reservation);
+            } else {
+              personalizedMessage = aiText;
+            }
           }
 
-          // Enviar baseado no provider usando número validado
-          switch (connection.provider) {
-            case 'WAHA':
-              // Para WAHA, passar o chatId validado diretamente
-              await sendMessage(
-                connection.instanceName,
-                contact.telefone, // Telefone original (não usado quando validatedChatId é fornecido)
-                messagePayload,
-                validatedPhone // chatId validado pela API
-              );
-              break;
+          if (!skipInitialSend) {
+            console.log(`📤 Sending ${mediaUrl ? mediaType : isInteractiveMessageType(nodeType) ? nodeType : 'text'} to ${contact.nome} (${validatedPhone})`);
+
+            // Preparar payload da mensagem
+            if (isInteractiveMessageType(nodeType)) {
+              messagePayload = buildInteractiveMessage(nodeType, nodeConfig, text => templateVariableService.render(text, initialVariables));
+            } else if (mediaUrl) {
+              // Mensagem com mídia
+              messagePayload = {
+                media: {
+                  url: mediaUrl,
+                  caption: personalizedMessage || undefined,
+                },
+              };
+            } else {
+              // Mensagem de texto
+              messagePayload = { text: personalizedMessage };
+            }
 
-            case 'EVOLUTION': {
-              const evolutionCreds = getEvolutionCredentialsFromSession({ config: (connection as any)._sessionConfig });
-              await sendMessageViaEvolution(
-                connection.instanceName,
-                validatedPhone,
-                messagePayload,
-                evolutionCreds || undefined
-              );
-              break;
+            // Cloud API: o primeiro envio costuma estar fora da janela de 24h e usa o template do nó
+            const template = interactiveCampaignFlowEngine.buildTemplateFallback(nodeConfig, initialVariables);
+            if (template) {
+              messagePayload.template = template;
             }
 
-            case 'QUEPASA':
-              await sendMessageViaQuepasa(
-                connection.instanceName,
-                validatedPhone,
-                messagePayload,
-                sessionToken
-              );
-              break;
+            // Enviar pelo adaptador do provider usando o destino validado
+            const sendResult = await provider.sendMessage(providerSession, validatedPhone, messagePayload);
 
-            default:
-              throw new Error(`Provider ${connection.provider} não suportado`);
+            // Registrar mensagem na conversa do contato (caixa de entrada)
+            await conversationService.recordOutbound({
+              tenantId: campaign.tenantId,
+              sessionName: connection.instanceName,
+              contactPhone: validatedPhone,
+              contactId: contact.id,
+              payload: messagePayload,
+              providerMessageId: sendResult.messageId,
+              source: 'INTERACTIVE_CAMPAIGN',
+              campaignId: campaign.id,
+            });
           }
 
           // Salvar sessão do contato (estado inicial = primeiro nó)
@@ -389,20 +471,19 @@ export const interactiveCampaignDispatchService = {
             contactPhone: validatedPhone, // Usar número validado
             currentNodeId: firstNode.id,
             tenantId: campaign.tenantId || undefined,
-            variables: {
-              nome: contact.nome,
-              telefone: validatedPhone, // Usar número validado
-            },
+            variables: initialVariables,
           });
 
           console.log(`✅ Session created for contact ${contact.nome} at node ${firstNode.id}`);
 
+          await interactiveCampaignFlowEngine.rememberSentOptions(session.id, messagePayload);
+
           // Registrar envio do primeiro nó
           try {
             await interactiveCampaignSessionService.addVisitedNode(
               session.id,
               firstNode.id,
-              true // sent = true
+              !skipInitialSend // sent = true quando houve envio
             );
             console.log(`✅ First node ${firstNode.id} tracked for ${contact.nome}`);
           } catch (trackError: any) {
@@ -410,7 +491,7 @@ export const interactiveCampaignDispatchService = {
           }
 
           // Enviar nós subsequentes automaticamente
-          await this.sendSubsequentNodes(graph, firstNode.id, contact, validatedPhone, connection, sessionToken, session.id);
+          await this.sendSubsequentNodes(graph, firstNode.id, contact, validatedPhone, connection, campaign.tenantId, session.id);
 
           successCount++;
 
@@ -428,9 +509,17 @@ export const interactiveCampaignDispatchService = {
           }
 
         } catch (error: any) {
+          if (error instanceof JobDeferredError) {
+            throw error;
+          }
+
           console.error(`❌ Error sending to ${contact.nome}:`, error.message);
           errorCount++;
 
+          if (sendingSession) {
+            await sessionHealthService.recordEvent(sendingSession, 'SEND_FAILURE', error.message);
+          }
+
           // Criar sessão com status de ERRO para rastreamento de falhas no envio
           try {
             await interactiveCampaignSessionService.upsertSession({
@@ -453,7 +542,7 @@ export const interactiveCampaignDispatchService = {
         }
       }
 
-      console.log(`✅ Dispatch completed - Success: ${successCount}, Errors: ${errorCount}`);
+      console.log(`✅ Dispatch completed - Success: ${successCount}, Errors: ${errorCount}, Opt-outs: ${optOutCount}`);
 
       // Verificar se há sessões ativas aguardando resposta (waitreply, condition, etc.)
       const activeSessions = await prisma.interactiveCampaignSession.count({
@@ -480,32 +569,67 @@ export const interactiveCampaignDispatchService = {
         totalContacts: contacts.length,
         successCount,
         errorCount,
+        optOutCount,
       };
 
     } catch (error: any) {
-      console.error(`❌ Error dispatching campaign ${campaignId}:`, error);
+      if (error instanceof JobDeferredError) {
+        console.log(`⏳ Dispatch of campaign ${campaignId} deferred until ${error.runAt.toISOString()}: ${error.message}`);
+      } else {
+        console.error(`❌ Error dispatching campaign ${campaignId}:`, error);
+      }
       throw error;
     }
   },
 
+  /**
+   * Reserva um envio na próxima conexão (round-robin) com orçamento disponível.
+   * Com todas esgotadas, adia o disparo até a primeira liberar (sem segurar o processo esperando).
+   */
+  async acquireConnection<T extends { instanceName: string }>(connectionData: T[], startIndex: number): Promise<{ connection: T; reservation: SendReservation }> {
+    const ordered = connectionData.map((_, i) => connectionData[(startIndex + i) % connectionData.length]);
+
+    const reservation = await sessionRateLimitService.reserveFirstAvailable(ordered.map(c => c.instanceName));
+    if (!reservation.allowed) {
+      throw new JobDeferredError(
+        reservation.retryAt,
+        `Limite ${sessionRateLimitService.describeWindow(reservation.window)} atingido em todas as conexões`
+      );
+    }
+
+    return { connection: ordered.find(c => c.instanceName === reservation.sessionName)!, reservation };
+  },
+
   /**
    * Envia nós subsequentes automaticamente (para nós conectados em sequência)
    */
-  async sendSubsequentNodes(graph: any, currentNodeId: string, contact: any, validatedPhone: string, connection: any, sessionToken?: string, sessionId?: string) {
+  async sendSubsequentNodes(graph: any, currentNodeId: string, contact: any, validatedPhone: string, connection: any, tenantId: string | null, sessionId?: string) {
     try {
       let nextNodeId = currentNodeId;
+      // Campanha da sessão, usada para registrar as mensagens na caixa de entrada
+      const campaignId = sessionId
+        ? (await prisma.interactiveCampaignSession.findUnique({ where: { id: sessionId }, select: { campaignId: true } }))?.campaignId
+        : undefined;
+      // Próximo nó já definido por um nó com múltiplas saídas (ex: HTTP REST success/error)
+      let branchNode: any = null;
+      const contactVariables = await templateVariableService.getContactVariables(contact, tenantId);
 
       // Percorrer todos os nós conectados em sequência
       while (true) {
-        // Buscar próxima edge
-        const nextEdge = graph.edges?.find((e: any) => e.source === nextNodeId);
+        let nextNode = branchNode;
+        branchNode = null;
 
-        if (!nextEdge) {
-          console.log(`🏁 No more nodes to send for ${contact.nome}`);
-          break;
-        }
+        if (!nextNode) {
+          // Buscar próxima edge
+          const nextEdge = graph.edges?.find((e: any) => e.source === nextNodeId);
 
-        const nextNode = graph.nodes?.find((n: any) => n.id === nextEdge.target);
+          if (!nextEdge) {
+            console.log(`🏁 No more nodes to send for ${contact.nome}`);
+            break;
+          }
+
+          nextNode = graph.nodes?.find((n: any) => n.id === nextEdge.target);
+        }
 
         if (!nextNode || !nextNode.data) {
           console.log(`⚠️ Next node not found or has no data`);
@@ -524,6 +648,7 @@ export const interactiveCampaignDispatchService = {
               await interactiveCampaignSessionService.updateSession(sessionId, {
                 currentNodeId: nextNode.id
               });
+              await interactiveCampaignFlowEngine.armReplyTimeout(sessionId, nextNode);
               console.log(`✅ Session updated to wait at ${nodeType} node ${nextNode.id}`);
             } catch (updateError: any) {
               console.error(`⚠️ Error updating session currentNodeId:`, updateError.message);
@@ -546,7 +671,7 @@ export const interactiveCampaignDispatchService = {
               type: 'text',
               timestamp: new Date(),
               contactTags: contact.tags,
-              tenantId: contact.tenantId || '',
+              tenantId: tenantId || '',
               phonenumber: contact.telefone,
               contactId: contact.id
             };
@@ -562,6 +687,51 @@ export const interactiveCampaignDispatchService = {
           continue;
         }
 
+        // Executar requisições HTTP REST e seguir pela saída de sucesso/erro
+        if (nodeType === 'httprest') {
+          console.log(`🌐 Processing HTTP REST node ${nextNode.id} for ${contact.nome}`);
+
+          if (!sessionId) {
+            nextNodeId = nextNode.id;
+            continue;
+          }
+
+          try {
+            const httpSession = await prisma.interactiveCampaignSession.findUnique({
+              where: { id: sessionId },
+            });
+
+            if (!httpSession) {
+              console.log(`⚠️ Session ${sessionId} not found for HTTP REST node`);
+              break;
+            }
+
+            const result = await interactiveCampaignFlowEngine.executeHttpRestNode(nextNode, httpSession);
+            branchNode = interactiveCampaignFlowEngine.getHttpRestNextNode(graph, nextNode, result.success);
+
+            if (!branchNode) {
+              console.log(`🏁 No ${result.success ? 'success' : 'error'} path after HTTP REST node for ${contact.nome}`);
+              break;
+            }
+          } catch (error: any) {
+            console.error(`❌ Error processing HTTP REST node ${nextNode.id}:`, error.message);
+            break;
+          }
+
+          nextNodeId = nextNode.id;
+          continue;
+        }
+
+        // Delay: agendar a retomada na sessão e parar a sequência
+        if (nodeType === 'delay' && sessionId && interactiveCampaignFlowEngine.getDelaySeconds(nextNode) > 0) {
+          await interactiveCampaignSessionService.updateSession(sessionId, {
+            currentNodeId: nextNode.id
+          });
+          await interactiveCampaignFlowEngine.processDelayNode(graph, nextNode, { id: sessionId }, validatedPhone);
+          console.log(`⏸️ Stopping at delay node ${nextNode.id} - flow resumes when the delay expires`);
+          break;
+        }
+
         // Ignorar nós que não são de envio de mensagem mas não requerem parada
         if (['trigger', 'delay'].includes(nodeType)) {
           console.log(`⏭️ Skipping node type ${nodeType}`);
@@ -580,18 +750,14 @@ export const interactiveCampaignDispatchService = {
         switch (nodeType) {
           case 'text':
             const textContent = nodeConfig.content || '';
-            const personalizedText = textContent
-              .replace(/\{\{nome\}\}/gi, contact.nome)
-              .replace(/\{\{telefone\}\}/gi, contact.telefone);
+            const personalizedText = templateVariableService.render(textContent, contactVariables);
             messagePayload = { text: personalizedText };
             break;
 
           case 'image':
             const imageUrl = nodeConfig.mediaUrl;
             const imageCaption = nodeConfig.caption || '';
-            const personalizedImageCaption = imageCaption
-              .replace(/\{\{nome\}\}/gi, contact.nome)
-              .replace(/\{\{telefone\}\}/gi, contact.telefone);
+            const personalizedImageCaption = templateVariableService.render(imageCaption, contactVariables);
             messagePayload = {
               image: { url: imageUrl },
               caption: personalizedImageCaption || undefined,
@@ -601,9 +767,7 @@ export const interactiveCampaignDispatchService = {
           case 'video':
             const videoUrl = nodeConfig.mediaUrl;
             const videoCaption = nodeConfig.caption || '';
-            const personalizedVideoCaption = videoCaption
-              .replace(/\{\{nome\}\}/gi, contact.nome)
-              .replace(/\{\{telefone\}\}/gi, contact.telefone);
+            const personalizedVideoCaption = templateVariableService.render(videoCaption, contactVariables);
             messagePayload = {
               video: { url: videoUrl },
               caption: personalizedVideoCaption || undefined,
@@ -626,16 +790,70 @@ export const interactiveCampaignDispatchService = {
             };
             break;
 
+          case 'ai':
+            try {
+              // Recarregar sessão para usar variáveis coletadas até aqui como contexto
+              const aiSession = sessionId
+                ? await prisma.interactiveCampaignSession.findUnique({
+                    where: { id: sessionId },
+                    include: { contact: true },
+                  })
+                : null;
+
+              const aiText = await interactiveCampaignFlowEngine.generateAINodeResponse(nextNode, aiSession || {
+                tenantId,
+                variables: { ...contactVariables, telefone: validatedPhone },
+                contact,
+              });
+
+              if (nodeConfig.outputMode === 'variable') {
+                const variableName = nodeConfig.outputVariable || 'resposta_ia';
+                if (sessionId) {
+                  await interactiveCampaignSessionService.updateSession(sessionId, {
+                    variables: { [variableName]: aiText },
+                  });
+                  await interactiveCampaignSessionService.addVisitedNode(sessionId, nextNode.id, false);
+                }
+                console.log(`📝 Saved AI response to variable {${variableName}} for ${contact.nome}`);
+                break;
+              }
+
+              messagePayload = { text: aiText };
+            } catch (aiError: any) {
+              console.error(`❌ Error generating AI response for ${contact.nome}:`, aiError.message);
+              if (sessionId) {
+                await interactiveCampaignSessionService.addVisitedNode(sessionId, nextNode.id, false, aiError.message);
+              }
+            }
+            break;
+
           case 'action':
             // Backward compatibility
             const actionContent = nodeConfig.message || nodeConfig.content || '';
-            const personalizedAction = actionContent
-              .replace(/\{\{nome\}\}/gi, contact.nome)
-              .replace(/\{\{telefone\}\}/gi, contact.telefone);
+            const personalizedAction = templateVariableService.render(actionContent, contactVariables);
             messagePayload = { text: personalizedAction };
             break;
 
           default:
+            if (isInteractiveMessageType(nodeType)) {
+              try {
+                const reactionTargetId = nodeType === 'reaction'
+                  ? await conversationService.findLastInboundProviderMessageId(tenantId, validatedPhone)
+                  : null;
+                messagePayload = buildInteractiveMessage(
+                  nodeType,
+                  nodeConfig,
+                  text => templateVariableService.render(text, contactVariables),
+                  reactionTargetId
+                );
+              } catch (buildError: any) {
+                console.error(`❌ Invalid ${nodeType} node ${nextNode.id}:`, buildError.message);
+                if (sessionId) {
+                  await interactiveCampaignSessionService.addVisitedNode(sessionId, nextNode.id, false, buildError.message);
+                }
+              }
+              break;
+            }
             console.log(`⚠️ Unsupported node type for auto-send: ${nodeType}`);
             break;
         }
@@ -646,47 +864,40 @@ export const interactiveCampaignDispatchService = {
           continue;
         }
 
+        const template = interactiveCampaignFlowEngine.buildTemplateFallback(nodeConfig, contactVariables);
+        if (template) {
+          messagePayload.template = template;
+        }
+
         // Enviar mensagem
         let sendSuccess = false;
         let sendError: string | undefined;
 
         try {
-          switch (connection.provider) {
-            case 'WAHA':
-              await sendMessage(
-                connection.instanceName,
-                contact.telefone,
-                messagePayload,
-                validatedPhone
-              );
-              break;
+          const sendResult = await getProvider(connection.provider).sendMessage(
+            connectionToProviderSession(connection),
+            validatedPhone,
+            messagePayload
+          );
 
-            case 'EVOLUTION': {
-              const evolutionCreds = getEvolutionCredentialsFromSession({ config: (connection as any)._sessionConfig });
-              await sendMessageViaEvolution(
-                connection.instanceName,
-                validatedPhone,
-                messagePayload,
-                evolutionCreds || undefined
-              );
-              break;
-            }
+          sendSuccess = true;
+          console.log(`✅ Sent ${nodeType} to ${contact.nome}`);
+          await sessionRateLimitService.recordSend(connection.instanceName);
 
-            case 'QUEPASA':
-              await sendMessageViaQuepasa(
-                connection.instanceName,
-                validatedPhone,
-                messagePayload,
-                sessionToken
-              );
-              break;
+          await conversationService.recordOutbound({
+            tenantId,
+            sessionName: connection.instanceName,
+            contactPhone: validatedPhone,
+            contactId: contact.id,
+            payload: messagePayload,
+            providerMessageId: sendResult.messageId,
+            source: 'INTERACTIVE_CAMPAIGN',
+            campaignId,
+          });
 
-            default:
-              throw new Error(`Provider ${connection.provider} not supported`);
+          if (sessionId) {
+            await interactiveCampaignFlowEngine.rememberSentOptions(sessionId, messagePayload);
           }
-
-          sendSuccess = true;
-          console.log(`✅ Sent ${nodeType} to ${contact.nome}`);
         } catch (error: any) {
           sendError = error.message;
           console.error(`❌ Error sending ${nodeType} to ${contact.nome}:`, error.message);
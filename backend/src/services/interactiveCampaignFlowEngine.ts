@@ -5,19 +5,67 @@
 
 import { PrismaClient } from '@prisma/client';
 import { interactiveCampaignSessionService } from './interactiveCampaignSessionService';
-import { sendMessage } from './wahaApiService';
-import { sendMessageViaEvolution, getEvolutionCredentialsFromSession } from './evolutionMessageService';
-import { sendMessageViaQuepasa } from './quepasaMessageService';
-import { settingsService } from './settingsService';
+import {
+  getProvider,
+  connectionToProviderSession,
+  WhatsAppProviderName,
+  TemplateMessage,
+  MessageOption,
+  INTERACTIVE_MESSAGE_TYPES,
+  isInteractiveMessageType,
+  buildInteractiveMessage,
+  getMessageOptions,
+} from './whatsappProviders';
+import { openaiService } from './openaiService';
+import { groqService } from './groqService';
+import { conversationService } from './conversationService';
+import { templateVariableService } from './templateVariableService';
+import { sessionRateLimitService } from './sessionRateLimitService';
+import type { ReceivedMedia } from './inboundMediaService';
 
 const prisma = new PrismaClient();
 
+// Saída "sem resposta" dos nós que aguardam o contato (waitreply/condition)
+export const NO_REPLY_HANDLE = 'timeout';
+const REPLY_WAITING_NODE_TYPES = ['waitreply', 'condition'];
+
+// Nós que enviam mensagem ao contato
+export const MESSAGE_NODE_TYPES: string[] = ['action', 'text', 'image', 'video', 'audio', 'document', 'ai', ...INTERACTIVE_MESSAGE_TYPES];
+
+// Tipos de resposta que trazem arquivo (valor "media" nas condições e no nó Aguardar Resposta)
+const FILE_REPLY_TYPES = ['image', 'video', 'audio', 'document', 'sticker'];
+
+// Respostas de nós HTTP REST ficam nas variáveis da sessão: corpo maior que isso é tratado como erro
+const HTTP_REST_MAX_RESPONSE_BYTES = parseInt(process.env.HTTP_REST_MAX_RESPONSE_BYTES || '102400');
+
+const UNIT_SECONDS: Record<string, number> = {
+  seconds: 1,
+  minutes: 60,
+  hours: 3600,
+  days: 86400,
+};
+
 interface ProcessMessageData {
   contactPhone: string;
   messageContent: string;
+  selectionId?: string | null; // Id do botão/linha/opção escolhida, quando o provider informa
+  media?: ReceivedMedia | null; // Mídia, localização ou contato enviado pelo contato
   sessionId?: string; // ID da sessão da conexão WhatsApp
 }
 
+export interface HttpRestResult {
+  success: boolean;
+  status?: number;
+  error?: string;
+  variables: Record<string, any>;
+}
+
+export interface ConditionBranch {
+  nextNode: any | null;
+  evaluation: Record<string, any>;
+  variables: Record<string, any>;
+}
+
 export const interactiveCampaignFlowEngine = {
   /**
    * Processa mensagem recebida de um contato
@@ -36,12 +84,6 @@ export const interactiveCampaignFlowEngine = {
 
       console.log(`[FLOW-ENGINE] ✅ Sessão encontrada - campanha: "${session.campaign.name}", nó atual: ${session.currentNodeId}, status campanha: ${session.campaign.status}`);
 
-      // Atualizar sessão com última resposta
-      await interactiveCampaignSessionService.updateSession(session.id, {
-        lastResponse: data.messageContent,
-        lastMessageAt: new Date(),
-      });
-
       // Buscar grafo da campanha
       const graph = session.campaign.graph as any;
       const currentNode = graph.nodes?.find((n: any) => n.id === session.currentNodeId);
@@ -53,23 +95,56 @@ export const interactiveCampaignFlowEngine = {
 
       console.log(`📍 Current node type: ${currentNode.data?.nodeType}, label: ${currentNode.data?.label}`);
 
+      const replyType = data.media?.type || 'text';
+
+      // Aguardar Resposta com tipo exigido (ex.: foto do comprovante): outras respostas não avançam o fluxo
+      const requiredReplyType = currentNode.data?.nodeType === 'waitreply' ? currentNode.data?.config?.requiredReplyType : null;
+      if (!this.matchesReplyType(replyType, requiredReplyType)) {
+        console.log(`⏳ Reply of type ${replyType} ignored: node ${currentNode.id} requires ${requiredReplyType}`);
+        if (currentNode.data?.config?.invalidReplyMessage) {
+          await this.sendNodeMessage({
+            id: currentNode.id,
+            data: { nodeType: 'text', config: { content: currentNode.data.config.invalidReplyMessage } },
+          }, session, data.contactPhone);
+        }
+        return { processed: true, waiting: true, reason: 'REPLY_TYPE_MISMATCH' };
+      }
+
+      // Resposta a botões/lista/enquete: identificar a opção escolhida (as opções valem só para esta resposta)
+      const selection = this.resolveSelection((session.variables as any)?.lastOptions, data.messageContent, data.selectionId);
+      if (selection) {
+        console.log(`🔘 Opção selecionada: ${selection.id} ("${selection.title}")`);
+      }
+
+      // Atualizar sessão com última resposta
+      await interactiveCampaignSessionService.updateSession(session.id, {
+        lastResponse: data.messageContent,
+        lastMessageAt: new Date(),
+        variables: {
+          lastOptions: null,
+          selectedOptionId: selection?.id ?? null,
+          selectedOptionTitle: selection?.title ?? null,
+          ...this.buildReplyVariables(data.media),
+        },
+      });
+
       // Se o nó atual é waitreply, salvar resposta na variável configurada
       if (currentNode.data?.nodeType === 'waitreply') {
         const variableName = currentNode.data?.config?.variableName;
         if (variableName) {
-          const currentVars = (session.variables as Record<string, any>) || {};
+          const replyValue = this.getReplyValue(data.messageContent, data.media);
+          // updateSession mescla com as variáveis já salvas (inclusive a opção selecionada acima)
           await interactiveCampaignSessionService.updateSession(session.id, {
             variables: {
-              ...currentVars,
-              [variableName]: data.messageContent,
+              [variableName]: replyValue,
             },
           });
-          console.log(`📝 Saved reply to variable {${variableName}}: "${data.messageContent.substring(0, 50)}"`);
+          console.log(`📝 Saved reply to variable {${variableName}}: "${replyValue.substring(0, 50)}"`);
         }
       }
 
       // Determinar próximo nó baseado no tipo do nó atual
-      const nextNode = await this.determineNextNode(graph, currentNode, data.messageContent, session);
+      const nextNode = await this.determineNextNode(graph, currentNode, data.messageContent, session, selection?.id, replyType);
 
       if (!nextNode) {
         console.log(`🏁 No next node found. Flow completed for contact ${data.contactPhone}`);
@@ -77,47 +152,129 @@ export const interactiveCampaignFlowEngine = {
         return { processed: true, completed: true };
       }
 
-      console.log(`➡️ Moving to next node: ${nextNode.id} (${nextNode.data?.nodeType})`);
+      return await this.advanceToNode(graph, nextNode, session, data.contactPhone);
 
-      // Atualizar nó atual da sessão
-      await interactiveCampaignSessionService.updateSession(session.id, {
-        currentNodeId: nextNode.id,
-      });
+    } catch (error: any) {
+      console.error(`❌ Error processing message from ${data.contactPhone}:`, error);
+      return { processed: false, error: error.message };
+    }
+  },
 
-      // Se o próximo nó é um delay, processar delay e avançar
-      if (nextNode.data?.nodeType === 'delay') {
-        await this.processDelayNode(graph, nextNode, session, data.contactPhone);
-        return { processed: true, nextNodeId: nextNode.id, delayed: true };
-      }
+  /**
+   * Move a sessão para o próximo nó e executa o fluxo até o próximo ponto de parada
+   */
+  async advanceToNode(graph: any, nextNode: any, session: any, contactPhone: string) {
+    console.log(`➡️ Moving to next node: ${nextNode.id} (${nextNode.data?.nodeType})`);
 
-      // Se o próximo nó é um tipo que envia mensagem, enviar
-      const messageNodeTypes = ['action', 'text', 'image', 'video', 'audio', 'document'];
-      if (messageNodeTypes.includes(nextNode.data?.nodeType)) {
-        // Recarregar sessão para ter variáveis atualizadas (ex: após waitreply salvar variável)
-        const updatedSession = await interactiveCampaignSessionService.getActiveSessionByPhone(data.contactPhone) || session;
-        await this.sendNodeMessage(nextNode, updatedSession, data.contactPhone);
+    // Atualizar nó atual da sessão
+    await interactiveCampaignSessionService.updateSession(session.id, {
+      currentNodeId: nextNode.id,
+    });
 
-        // Continuar auto-propagando o fluxo até o próximo ponto de parada
-        await this.continueFlowAfterMessage(graph, nextNode, updatedSession, data.contactPhone);
-      }
+    // Próximo nó aguarda outra resposta: agendar timeout/lembretes
+    if (REPLY_WAITING_NODE_TYPES.includes(nextNode.data?.nodeType)) {
+      await this.armReplyTimeout(session.id, nextNode);
+      return { processed: true, nextNodeId: nextNode.id };
+    }
+
+    // Se o próximo nó é um delay, processar delay e avançar
+    if (nextNode.data?.nodeType === 'delay') {
+      await this.processDelayNode(graph, nextNode, session, contactPhone);
+      return { processed: true, nextNodeId: nextNode.id, delayed: true };
+    }
 
+    // Se o próximo nó é uma requisição HTTP, executar e seguir pela saída de sucesso/erro
+    if (nextNode.data?.nodeType === 'httprest') {
+      const updatedSession = await interactiveCampaignSessionService.getActiveSessionByPhone(contactPhone) || session;
+      await this.processHttpRestNode(graph, nextNode, updatedSession, contactPhone);
       return { processed: true, nextNodeId: nextNode.id };
+    }
 
-    } catch (error: any) {
-      console.error(`❌ Error processing message from ${data.contactPhone}:`, error);
-      return { processed: false, error: error.message };
+    // Se o próximo nó é um tipo que envia mensagem, enviar
+    if (MESSAGE_NODE_TYPES.includes(nextNode.data?.nodeType)) {
+      // Recarregar sessão para ter variáveis atualizadas (ex: após waitreply salvar variável)
+      const updatedSession = await interactiveCampaignSessionService.getActiveSessionByPhone(contactPhone) || session;
+      await this.sendNodeMessage(nextNode, updatedSession, contactPhone);
+
+      // Continuar auto-propagando o fluxo até o próximo ponto de parada
+      await this.continueFlowAfterMessage(graph, nextNode, updatedSession, contactPhone);
+    }
+
+    return { processed: true, nextNodeId: nextNode.id };
+  },
+
+  /**
+   * Inicia o fluxo de uma campanha interativa para um contato fora do disparo da campanha
+   * (ex.: automação por palavra-chave). O contato entra no trigger e segue pela primeira saída.
+   */
+  async startSession(campaignId: string, tenantId: string, contact: any, contactPhone: string) {
+    const campaign = await prisma.interactiveCampaign.findFirst({
+      where: { id: campaignId, tenantId },
+    });
+
+    if (!campaign) {
+      throw new Error('Campanha interativa não encontrada');
+    }
+    if (campaign.status !== 'STARTED') {
+      throw new Error(`Campanha interativa "${campaign.name}" não está iniciada`);
+    }
+
+    // Um contato responde a uma sessão por vez: não interromper um fluxo em andamento
+    const activeSession = await interactiveCampaignSessionService.getActiveSessionByPhone(contactPhone);
+    if (activeSession) {
+      return { started: false, reason: 'ACTIVE_SESSION', sessionId: activeSession.id };
+    }
+
+    const graph = campaign.graph as any;
+    const triggerNode = graph.nodes?.find((n: any) => n.data?.nodeType === 'trigger');
+    if (!triggerNode) {
+      throw new Error('Campanha não tem nó Trigger');
+    }
+
+    const contactVariables = await templateVariableService.getContactVariables(contact, tenantId);
+    const created = await interactiveCampaignSessionService.upsertSession({
+      campaignId,
+      contactId: contact.id,
+      contactPhone,
+      currentNodeId: triggerNode.id,
+      tenantId,
+      variables: {
+        ...contactVariables,
+        telefone: contactPhone,
+      },
+    });
+    await interactiveCampaignSessionService.addVisitedNode(created.id, triggerNode.id, false);
+
+    console.log(`[FLOW-ENGINE] ▶️ Sessão iniciada para ${contactPhone} na campanha "${campaign.name}"`);
+
+    const session = await interactiveCampaignSessionService.getActiveSessionByPhone(contactPhone) || created;
+    const nextNode = await this.determineNextNode(graph, triggerNode, '', session);
+
+    if (!nextNode) {
+      await interactiveCampaignSessionService.completeSession(session.id);
+      return { started: true, sessionId: session.id, completed: true };
     }
+
+    await this.advanceToNode(graph, nextNode, session, contactPhone);
+    return { started: true, sessionId: session.id };
   },
 
   /**
    * Determina próximo nó baseado no tipo do nó atual e resposta do usuário
    */
-  async determineNextNode(graph: any, currentNode: any, userResponse: string, session: any) {
+  async determineNextNode(
+    graph: any,
+    currentNode: any,
+    userResponse: string,
+    session: any,
+    selectionId?: string | null,
+    replyType?: string | null
+  ) {
     const nodeType = currentNode.data?.nodeType;
 
     // Se o nó atual é uma ação, procurar próximo nó conectado
     if (nodeType === 'action') {
-      const outgoingEdge = graph.edges?.find((e: any) => e.source === currentNode.id);
+      const outgoingEdge = this.getReplyEdge(graph, currentNode.id);
       if (outgoingEdge) {
         return graph.nodes?.find((n: any) => n.id === outgoingEdge.target);
       }
@@ -125,11 +282,11 @@ export const interactiveCampaignFlowEngine = {
 
     // Se o nó atual é uma condição, avaliar a condição
     if (nodeType === 'condition') {
-      return await this.evaluateCondition(graph, currentNode, userResponse, session);
+      return await this.evaluateCondition(graph, currentNode, userResponse, session, selectionId, replyType);
     }
 
-    // Nó trigger ou desconhecido - procurar próximo
-    const outgoingEdge = graph.edges?.find((e: any) => e.source === currentNode.id);
+    // Nó trigger ou desconhecido - procurar próximo (a saída "sem resposta" só é usada no timeout)
+    const outgoingEdge = this.getReplyEdge(graph, currentNode.id);
     if (outgoingEdge) {
       return graph.nodes?.find((n: any) => n.id === outgoingEdge.target);
     }
@@ -138,211 +295,292 @@ export const interactiveCampaignFlowEngine = {
   },
 
   /**
-   * Avalia condição e retorna próximo nó baseado no resultado
+   * Avalia condição, salva o resultado nas variáveis da sessão e retorna o próximo nó
    */
-  async evaluateCondition(graph: any, conditionNode: any, userResponse: string, session: any) {
-    const config = conditionNode.data?.config;
-
-    if (!config) {
-      console.error(`❌ Condition node ${conditionNode.id} has no config`);
+  async evaluateCondition(
+    graph: any,
+    conditionNode: any,
+    userResponse: string,
+    session: any,
+    selectionId?: string | null,
+    replyType?: string | null
+  ) {
+    const branch = this.resolveConditionBranch(graph, conditionNode, userResponse, selectionId, replyType);
+
+    if (!branch) {
       return null;
     }
 
-    console.log(`🔍 Evaluating condition:`, config);
-
-    // Verificar se é modo switch
-    if (config.mode === 'switch' && config.cases) {
-      return await this.evaluateSwitchCondition(graph, conditionNode, userResponse, session, config);
-    }
+    // Salvar resultado da condição nas variáveis da sessão
+    await interactiveCampaignSessionService.updateSession(session.id, {
+      variables: branch.variables,
+    });
 
-    // Modo if/else tradicional
-    const { field, operator, value } = config;
+    return branch.nextNode;
+  },
 
-    // Normalizar resposta do usuário
+  /**
+   * Compara a resposta do usuário com o valor configurado usando o operador informado
+   */
+  matchesConditionOperator(userResponse: string, operator: string, value: string): boolean {
     const normalizedResponse = userResponse.toLowerCase().trim();
-    const normalizedValue = value?.toLowerCase().trim();
-
-    let conditionMet = false;
+    const normalizedValue = (value || '').toLowerCase().trim();
 
-    // Avaliar condição baseado no operador
     switch (operator) {
       case 'equals':
       case '==':
-        conditionMet = normalizedResponse === normalizedValue;
-        break;
+        return normalizedResponse === normalizedValue;
 
       case 'contains':
-        conditionMet = normalizedResponse.includes(normalizedValue);
-        break;
+        return normalizedResponse.includes(normalizedValue);
 
       case 'startsWith':
-        conditionMet = normalizedResponse.startsWith(normalizedValue);
-        break;
+        return normalizedResponse.startsWith(normalizedValue);
 
       case 'endsWith':
-        conditionMet = normalizedResponse.endsWith(normalizedValue);
-        break;
+        return normalizedResponse.endsWith(normalizedValue);
 
       case 'notEquals':
       case '!=':
-        conditionMet = normalizedResponse !== normalizedValue;
-        break;
+        return normalizedResponse !== normalizedValue;
 
       case 'regex':
         try {
           const regex = new RegExp(value, 'i');
-          conditionMet = regex.test(normalizedResponse);
+          return regex.test(normalizedResponse);
         } catch (e) {
           console.error(`❌ Invalid regex: ${value}`);
-          conditionMet = false;
+          return false;
         }
-        break;
 
       default:
         console.warn(`⚠️ Unknown operator: ${operator}, defaulting to equals`);
-        conditionMet = normalizedResponse === normalizedValue;
+        return normalizedResponse === normalizedValue;
     }
+  },
 
-    console.log(`📊 Condition result: ${conditionMet} (response: "${normalizedResponse}" ${operator} "${normalizedValue}")`);
+  /**
+   * Identifica a opção escolhida em resposta à última mensagem com botões, lista ou enquete:
+   * pelo id informado pelo provider, pelo título da opção ou pelo número (fallback em texto)
+   */
+  resolveSelection(options: MessageOption[] | null | undefined, content: string, selectionId?: string | null): MessageOption | null {
+    const sentOptions = Array.isArray(options) ? options : [];
 
-    // Salvar resultado da condição nas variáveis da sessão
-    await interactiveCampaignSessionService.updateSession(session.id, {
-      variables: {
-        [`condition_${conditionNode.id}`]: conditionMet,
-        lastConditionResult: conditionMet,
-      },
-    });
+    if (selectionId) {
+      return sentOptions.find(option => option.id === selectionId) || { id: selectionId, title: content || selectionId };
+    }
+    if (sentOptions.length === 0) {
+      return null;
+    }
 
-    // Procurar edge correspondente (true/false)
-    const edges = graph.edges?.filter((e: any) => e.source === conditionNode.id);
+    // Votos de enquete com várias opções chegam como "A, B": vale a primeira
+    const answers = [content, ...String(content || '').split(',')].map(answer => String(answer || '').trim().toLowerCase());
+    for (const answer of answers.filter(Boolean)) {
+      const byTitle = sentOptions.find(option => option.title.toLowerCase() === answer);
+      if (byTitle) return byTitle;
 
-    if (!edges || edges.length === 0) {
-      console.error(`❌ No edges found for condition node ${conditionNode.id}`);
-      return null;
+      if (/^\d+$/.test(answer) && sentOptions[Number(answer) - 1]) {
+        return sentOptions[Number(answer) - 1];
+      }
     }
+    return null;
+  },
 
-    // Procurar edge com label correspondente
-    const targetEdge = edges.find((e: any) => {
-      const label = e.label?.toLowerCase();
-      return conditionMet
-        ? (label === 'true' || label === 'sim' || label === 'yes' || label === 'verdadeiro')
-        : (label === 'false' || label === 'não' || label === 'no' || label === 'falso');
+  /**
+   * Guarda na sessão as opções da mensagem enviada (botões, lista, enquete) para reconhecer a resposta
+   */
+  async rememberSentOptions(sessionId: string, payload: any) {
+    const options = getMessageOptions(payload || {});
+    if (options.length === 0) {
+      return;
+    }
+    await interactiveCampaignSessionService.updateSession(sessionId, {
+      variables: { lastOptions: options.map(({ id, title }) => ({ id, title })) },
     });
+  },
 
-    if (targetEdge) {
-      return graph.nodes?.find((n: any) => n.id === targetEdge.target);
-    }
+  /**
+   * A opção escolhida pelo contato corresponde ao valor configurado no case/condição (ids de botões, linhas e enquetes)
+   */
+  matchesSelection(selectionId: string | null | undefined, value: string): boolean {
+    return !!selectionId && selectionId.toLowerCase() === String(value || '').toLowerCase().trim();
+  },
 
-    // Fallback: usar primeira edge se não encontrar label específico
-    console.warn(`⚠️ No specific edge found for condition result, using first edge`);
-    return graph.nodes?.find((n: any) => n.id === edges[0].target);
+  /**
+   * O tipo da resposta (text, image, audio, location...) atende ao tipo esperado.
+   * "media" aceita qualquer arquivo; sem tipo esperado (ou "any") qualquer resposta serve.
+   */
+  matchesReplyType(replyType: string | null | undefined, expected: string | null | undefined): boolean {
+    const type = replyType || 'text';
+    if (!expected || expected === 'any') return true;
+    if (expected === 'media') return FILE_REPLY_TYPES.includes(type);
+    return type === expected;
   },
 
   /**
-   * Avalia condição do tipo switch/case
+   * Variáveis da última resposta: tipo e, para mídias, o arquivo salvo e as coordenadas da localização
    */
-  async evaluateSwitchCondition(graph: any, conditionNode: any, userResponse: string, session: any, config: any) {
-    const normalizedResponse = userResponse.toLowerCase().trim();
+  buildReplyVariables(media: ReceivedMedia | null | undefined): Record<string, any> {
+    return {
+      lastReplyType: media?.type || 'text',
+      lastMediaUrl: media?.url ?? null,
+      lastMediaMimetype: media?.mimetype ?? null,
+      lastMediaFileName: media?.fileName ?? null,
+      lastLatitude: media?.latitude ?? null,
+      lastLongitude: media?.longitude ?? null,
+    };
+  },
 
-    console.log(`🔀 Evaluating SWITCH condition with ${config.cases?.length || 0} cases`);
-    console.log(`📝 User response: "${normalizedResponse}"`);
+  /**
+   * Valor salvo na variável do Aguardar Resposta: o texto (ou legenda), senão a URL da mídia ou as coordenadas
+   */
+  getReplyValue(content: string, media: ReceivedMedia | null | undefined): string {
+    if (content) return content;
+    if (media?.url) return media.url;
+    if (media?.latitude != null && media.longitude != null) return `${media.latitude},${media.longitude}`;
+    return '';
+  },
+
+  /**
+   * Avalia um nó de condição (if/else ou switch) sem efeitos colaterais.
+   * Retorna o próximo nó, o detalhe da avaliação e as variáveis a serem salvas na sessão.
+   * selectionId (opção escolhida em botões/lista/enquete) também casa com cases cujo valor é o id da opção;
+   * replyType é comparado nos cases/condições do tipo "replyType" (resposta é imagem, áudio, localização...).
+   */
+  resolveConditionBranch(
+    graph: any,
+    conditionNode: any,
+    userResponse: string,
+    selectionId?: string | null,
+    replyType?: string | null
+  ): ConditionBranch | null {
+    const config = conditionNode.data?.config;
 
-    // Procurar qual case corresponde à resposta
-    let matchedCaseIndex = -1;
+    if (!config) {
+      console.error(`❌ Condition node ${conditionNode.id} has no config`);
+      return null;
+    }
 
-    if (config.cases && Array.isArray(config.cases)) {
-      for (let i = 0; i < config.cases.length; i++) {
-        const caseConfig = config.cases[i];
-        const caseValue = caseConfig.value?.toLowerCase().trim();
-        const conditionType = caseConfig.conditionType || 'equals';
+    console.log(`🔍 Evaluating condition:`, config);
 
-        let matches = false;
+    const edges = graph.edges?.filter((e: any) => e.source === conditionNode.id && !this.isNoReplyEdge(e)) || [];
+    const findNode = (edge: any) => (edge ? graph.nodes?.find((n: any) => n.id === edge.target) || null : null);
 
-        switch (conditionType) {
-          case 'equals':
-            matches = normalizedResponse === caseValue;
-            break;
-          case 'contains':
-            matches = normalizedResponse.includes(caseValue);
-            break;
-          case 'startsWith':
-            matches = normalizedResponse.startsWith(caseValue);
-            break;
-          case 'endsWith':
-            matches = normalizedResponse.endsWith(caseValue);
+    // Modo switch: múltiplos cases com handles case-N e default
+    if (config.mode === 'switch' && config.cases) {
+      console.log(`🔀 Evaluating SWITCH condition with ${config.cases?.length || 0} cases`);
+      console.log(`📝 User response: "${userResponse.toLowerCase().trim()}"`);
+
+      let matchedCaseIndex = -1;
+
+      if (Array.isArray(config.cases)) {
+        for (let i = 0; i < config.cases.length; i++) {
+          const caseConfig = config.cases[i];
+          const conditionType = ['equals', 'contains', 'startsWith', 'endsWith'].includes(caseConfig.conditionType)
+            ? caseConfig.conditionType
+            : 'equals';
+          const matched = caseConfig.conditionType === 'replyType'
+            ? this.matchesReplyType(replyType, caseConfig.value || 'media')
+            : this.matchesSelection(selectionId, caseConfig.value) || this.matchesConditionOperator(userResponse, conditionType, caseConfig.value);
+
+          if (matched) {
+            matchedCaseIndex = i;
+            console.log(`✅ Matched case ${i}: "${caseConfig.label}" (value: "${caseConfig.value}")`);
             break;
-          default:
-            matches = normalizedResponse === caseValue;
-        }
-
-        if (matches) {
-          matchedCaseIndex = i;
-          console.log(`✅ Matched case ${i}: "${caseConfig.label}" (value: "${caseConfig.value}")`);
-          break;
+          }
         }
       }
-    }
 
-    if (matchedCaseIndex === -1) {
-      console.log(`❌ No case matched for response: "${userResponse}"`);
-
-      // Salvar que não houve match
-      await interactiveCampaignSessionService.updateSession(session.id, {
-        variables: {
-          [`switch_${conditionNode.id}`]: null,
-          lastSwitchResult: null,
-        },
-      });
+      if (matchedCaseIndex === -1) {
+        console.log(`❌ No case matched for response: "${userResponse}"`);
 
-      // Procurar edge default ou primeira edge
-      const edges = graph.edges?.filter((e: any) => e.source === conditionNode.id);
-      if (edges && edges.length > 0) {
+        // Procurar edge default ou primeira edge
         const defaultEdge = edges.find((e: any) => e.sourceHandle === 'default');
         const targetEdge = defaultEdge || edges[0];
-        console.log(`⚠️ Using ${defaultEdge ? 'default' : 'first'} edge as fallback`);
-        return graph.nodes?.find((n: any) => n.id === targetEdge.target);
-      }
+        if (targetEdge) {
+          console.log(`⚠️ Using ${defaultEdge ? 'default' : 'first'} edge as fallback`);
+        }
 
-      return null;
-    }
+        return {
+          nextNode: findNode(targetEdge),
+          evaluation: { mode: 'switch', input: userResponse, result: null, matchedCaseIndex: null, handle: targetEdge?.sourceHandle || null },
+          variables: {
+            [`switch_${conditionNode.id}`]: null,
+            lastSwitchResult: null,
+          },
+        };
+      }
 
-    // Salvar resultado do switch
-    await interactiveCampaignSessionService.updateSession(session.id, {
-      variables: {
+      const variables = {
         [`switch_${conditionNode.id}`]: matchedCaseIndex,
         lastSwitchResult: matchedCaseIndex,
         lastSwitchValue: config.cases[matchedCaseIndex].value,
-      },
-    });
+      };
 
-    // Procurar edge correspondente ao case (usando sourceHandle = case-N)
-    const edges = graph.edges?.filter((e: any) => e.source === conditionNode.id);
+      // Procurar edge com sourceHandle = case-N (onde N é o índice do case), senão default
+      const caseHandle = `case-${matchedCaseIndex}`;
+      let targetEdge = edges.find((e: any) => e.sourceHandle === caseHandle);
 
-    if (!edges || edges.length === 0) {
-      console.error(`❌ No edges found for switch node ${conditionNode.id}`);
-      return null;
+      if (targetEdge) {
+        console.log(`➡️ Following edge with handle: ${caseHandle}`);
+      } else {
+        console.warn(`⚠️ No edge found for case ${matchedCaseIndex}, checking for default edge`);
+        targetEdge = edges.find((e: any) => e.sourceHandle === 'default');
+        if (!targetEdge) {
+          console.error(`❌ No edge found for matched case ${matchedCaseIndex} and no default edge`);
+        }
+      }
+
+      return {
+        nextNode: findNode(targetEdge),
+        evaluation: {
+          mode: 'switch',
+          input: userResponse,
+          result: config.cases[matchedCaseIndex].value,
+          matchedCaseIndex,
+          handle: targetEdge?.sourceHandle || null,
+        },
+        variables,
+      };
     }
 
-    // Procurar edge com sourceHandle = case-N (onde N é o índice do case)
-    const caseHandle = `case-${matchedCaseIndex}`;
-    const targetEdge = edges.find((e: any) => e.sourceHandle === caseHandle);
+    // Modo if/else tradicional
+    const { operator, value } = config;
+    // O Flow Builder grava o tipo da condição em conditionType
+    const conditionMet = operator === 'replyType' || config.conditionType === 'replyType'
+      ? this.matchesReplyType(replyType, value || 'media')
+      : (['equals', '=='].includes(operator) && this.matchesSelection(selectionId, value)) ||
+        this.matchesConditionOperator(userResponse, operator, value);
+
+    console.log(`📊 Condition result: ${conditionMet} (response: "${userResponse.toLowerCase().trim()}" ${operator} "${value?.toLowerCase().trim()}")`);
+
+    const variables = {
+      [`condition_${conditionNode.id}`]: conditionMet,
+      lastConditionResult: conditionMet,
+    };
 
-    if (targetEdge) {
-      console.log(`➡️ Following edge with handle: ${caseHandle}`);
-      return graph.nodes?.find((n: any) => n.id === targetEdge.target);
+    if (edges.length === 0) {
+      console.error(`❌ No edges found for condition node ${conditionNode.id}`);
     }
 
-    console.warn(`⚠️ No edge found for case ${matchedCaseIndex}, checking for default edge`);
+    // Procurar edge com label correspondente (true/false), senão a primeira edge
+    let targetEdge = edges.find((e: any) => {
+      const label = e.label?.toLowerCase();
+      return conditionMet
+        ? (label === 'true' || label === 'sim' || label === 'yes' || label === 'verdadeiro')
+        : (label === 'false' || label === 'não' || label === 'no' || label === 'falso');
+    });
 
-    // Procurar edge default
-    const defaultEdge = edges.find((e: any) => e.sourceHandle === 'default');
-    if (defaultEdge) {
-      console.log(`➡️ Following default edge`);
-      return graph.nodes?.find((n: any) => n.id === defaultEdge.target);
+    if (!targetEdge && edges.length > 0) {
+      console.warn(`⚠️ No specific edge found for condition result, using first edge`);
+      targetEdge = edges[0];
     }
 
-    console.error(`❌ No edge found for matched case ${matchedCaseIndex} and no default edge`);
-    return null;
+    return {
+      nextNode: findNode(targetEdge),
+      evaluation: { mode: 'simple', input: userResponse, operator, value, result: conditionMet, handle: targetEdge?.sourceHandle || null },
+      variables,
+    };
   },
 
   /**
@@ -357,6 +595,31 @@ export const interactiveCampaignFlowEngine = {
       return;
     }
 
+    // Nó de IA: gerar resposta antes de decidir se envia ao contato ou salva em variável
+    let aiGeneratedText: string | null = null;
+    if (nodeType === 'ai') {
+      try {
+        aiGeneratedText = await this.generateAINodeResponse(node, session);
+      } catch (error: any) {
+        console.error(`❌ Error generating AI response for node ${node.id}:`, error.message);
+        await interactiveCampaignSessionService.addVisitedNode(session.id, node.id, false, error.message);
+        throw error;
+      }
+
+      if (config.outputMode === 'variable') {
+        const variableName = config.outputVariable || 'resposta_ia';
+        const updatedSession = await interactiveCampaignSessionService.updateSession(session.id, {
+          variables: { [variableName]: aiGeneratedText },
+        });
+        // Manter objeto da sessão em memória atualizado para os próximos nós do fluxo
+        session.variables = updatedSession.variables;
+        console.log(`📝 Saved AI response to variable {${variableName}}: "${aiGeneratedText.substring(0, 50)}"`);
+
+        await interactiveCampaignSessionService.addVisitedNode(session.id, node.id, false);
+        return;
+      }
+    }
+
     // Buscar conexão da campanha
     const campaign = await prisma.interactiveCampaign.findUnique({
       where: { id: session.campaignId },
@@ -406,7 +669,7 @@ export const interactiveCampaignFlowEngine = {
             // Converter para formato de Connection
             connection = {
               id: oldSession.id,
-              provider: (oldSession.provider || 'WAHA') as 'WAHA' | 'EVOLUTION' | 'QUEPASA',
+              provider: (oldSession.provider || 'WAHA') as WhatsAppProviderName,
               instanceName: oldSession.name,
               phoneNumber: oldSession.meJid || oldSession.name,
               status: 'ACTIVE' as const,
@@ -416,7 +679,7 @@ export const interactiveCampaignFlowEngine = {
               createdAt: new Date(),
               updatedAt: new Date(),
               quepasaToken: oldSession.quepasaToken,
-              _sessionConfig: oldSession.config,
+              config: oldSession.config,
             } as any;
             console.log(`[FLOW-ENGINE] ✅ Using connection from WhatsAppSession: ${oldSession.name} (${oldSession.provider})`);
           } else {
@@ -436,61 +699,24 @@ export const interactiveCampaignFlowEngine = {
     }
     const variables = (session.variables as Record<string, any>) || {};
 
-    // Preparar payload baseado no tipo de nó
-    let messagePayload: any = null;
+    // Reação: aplicada sobre a última mensagem recebida do contato
+    const reactionTargetId = nodeType === 'reaction'
+      ? await conversationService.findLastInboundProviderMessageId(session.tenantId || campaign.tenantId, contactPhone)
+      : null;
 
-    switch (nodeType) {
-      case 'text':
-      case 'action':
-        const textContent = config.content || config.message || '';
-        const personalizedText = this.replaceVariables(textContent, variables);
-        messagePayload = { text: personalizedText };
-        console.log(`📤 Sending text to ${contactPhone}: "${personalizedText.substring(0, 50)}..."`);
-        break;
-
-      case 'image':
-        const imageUrl = config.mediaUrl;
-        const imageCaption = config.caption || '';
-        const personalizedImageCaption = this.replaceVariables(imageCaption, variables);
-        messagePayload = {
-          image: { url: imageUrl },
-          caption: personalizedImageCaption || undefined,
-        };
-        console.log(`📤 Sending image to ${contactPhone}`);
-        break;
-
-      case 'video':
-        const videoUrl = config.mediaUrl;
-        const videoCaption = config.caption || '';
-        const personalizedVideoCaption = this.replaceVariables(videoCaption, variables);
-        messagePayload = {
-          video: { url: videoUrl },
-          caption: personalizedVideoCaption || undefined,
-        };
-        console.log(`📤 Sending video to ${contactPhone}`);
-        break;
-
-      case 'audio':
-        const audioUrl = config.mediaUrl;
-        messagePayload = {
-          audio: { url: audioUrl },
-        };
-        console.log(`📤 Sending audio to ${contactPhone}`);
-        break;
-
-      case 'document':
-        const documentUrl = config.mediaUrl;
-        const fileName = config.fileName;
-        messagePayload = {
-          document: { url: documentUrl },
-          fileName: fileName || 'document.pdf',
-        };
-        console.log(`📤 Sending document to ${contactPhone}: ${fileName}`);
-        break;
+    // Preparar payload baseado no tipo de nó
+    let messagePayload: any;
+    try {
+      messagePayload = this.buildMessagePayload(node, variables, aiGeneratedText, reactionTargetId);
+    } catch (error: any) {
+      console.error(`❌ Invalid ${nodeType} node ${node.id}:`, error.message);
+      await interactiveCampaignSessionService.addVisitedNode(session.id, node.id, false, error.message);
+      throw error;
+    }
 
-      default:
-        console.warn(`⚠️ Unsupported node type for sending: ${nodeType}`);
-        return;
+    if (messagePayload === undefined) {
+      console.warn(`⚠️ Unsupported node type for sending: ${nodeType}`);
+      return;
     }
 
     if (!messagePayload) {
@@ -498,56 +724,34 @@ export const interactiveCampaignFlowEngine = {
       return;
     }
 
-    // Enviar baseado no provider
-    try {
-      switch (connection.provider) {
-        case 'WAHA':
-          await sendMessage(connection.instanceName, contactPhone, messagePayload);
-          break;
-
-        case 'EVOLUTION': {
-          let evolutionCreds = getEvolutionCredentialsFromSession({ config: (connection as any)._sessionConfig });
-          if (!evolutionCreds) {
-            // Buscar credenciais globais do settings
-            const evoConfig = await settingsService.getEvolutionConfig();
-            if (evoConfig.host && evoConfig.apiKey) {
-              evolutionCreds = { host: evoConfig.host, apiKey: evoConfig.apiKey };
-              console.log(`[FLOW-ENGINE] 🔑 Using global Evolution credentials for ${connection.instanceName}`);
-            } else {
-              console.log(`[FLOW-ENGINE] 🔑 Using default Evolution credentials for ${connection.instanceName}`);
-            }
-          } else {
-            console.log(`[FLOW-ENGINE] 🔑 Using session-specific Evolution credentials for ${connection.instanceName}`);
-          }
-          await sendMessageViaEvolution(connection.instanceName, contactPhone, messagePayload, evolutionCreds || undefined);
-          break;
-        }
-
-        case 'QUEPASA':
-          // Buscar token QuePasa (pode vir da conexão convertida ou do banco)
-          let quepasaToken = (connection as any).quepasaToken;
+    console.log(`📤 Sending ${nodeType} to ${contactPhone}${messagePayload.text ? `: "${messagePayload.text.substring(0, 50)}..."` : ''}`);
 
-          if (!quepasaToken) {
-            const quepasaSession = await prisma.whatsAppSession.findFirst({
-              where: { name: connection.instanceName },
-              select: { quepasaToken: true },
-            });
-            quepasaToken = quepasaSession?.quepasaToken;
-          }
+    // Enviar pelo adaptador do provider da conexão
+    try {
+      const sendResult = await getProvider(connection.provider).sendMessage(
+        connectionToProviderSession(connection as any),
+        contactPhone,
+        messagePayload
+      );
 
-          await sendMessageViaQuepasa(
-            connection.instanceName,
-            contactPhone,
-            messagePayload,
-            quepasaToken || undefined
-          );
-          break;
+      console.log(`✅ Message sent successfully to ${contactPhone}`);
 
-        default:
-          console.error(`❌ Unknown provider: ${connection.provider}`);
-      }
+      // Respostas do fluxo, lembretes e avisos consomem o mesmo orçamento da sessão que os disparos
+      await sessionRateLimitService.recordSend(connection.instanceName);
+
+      // Registrar mensagem na conversa do contato (caixa de entrada)
+      await conversationService.recordOutbound({
+        tenantId: session.tenantId || campaign.tenantId,
+        sessionName: connection.instanceName,
+        contactPhone,
+        contactId: session.contactId,
+        payload: messagePayload,
+        providerMessageId: sendResult.messageId,
+        source: 'INTERACTIVE_CAMPAIGN',
+        campaignId: session.campaignId,
+      });
 
-      console.log(`✅ Message sent successfully to ${contactPhone}`);
+      await this.rememberSentOptions(session.id, messagePayload);
 
       // Registrar nó visitado
       await interactiveCampaignSessionService.addVisitedNode(
@@ -571,14 +775,132 @@ export const interactiveCampaignFlowEngine = {
   },
 
   /**
-   * Substitui variáveis no template de mensagem
+   * Monta o payload de envio de um nó de mensagem com as variáveis já substituídas.
+   * Retorna undefined para tipos de nó que não enviam mensagem; lança erro para nós interativos mal configurados.
+   */
+  buildMessagePayload(node: any, variables: Record<string, any>, aiGeneratedText?: string | null, reactionTargetId?: string | null): any {
+    const payload = this.buildNodeContent(node, variables, aiGeneratedText, reactionTargetId);
+    const template = this.buildTemplateFallback(node.data?.config, variables);
+    return payload && template ? { ...payload, template } : payload;
+  },
+
+  /**
+   * Template aprovado (Cloud API) configurado no nó para envios fora da janela de 24h
+   */
+  buildTemplateFallback(config: any, variables: Record<string, any>): TemplateMessage | undefined {
+    const template = config?.template;
+    if (!template?.name || !String(template.name).trim()) {
+      return undefined;
+    }
+
+    const parameters: string[] = (Array.isArray(template.parameters) ? template.parameters : [])
+      .map((value: any) => this.replaceVariables(String(value ?? ''), variables));
+
+    // Linhas vazias no fim do editor não são parâmetros
+    while (parameters.length && !parameters[parameters.length - 1].trim()) {
+      parameters.pop();
+    }
+
+    return {
+      name: String(template.name).trim(),
+      language: String(template.language || 'pt_BR').trim(),
+      parameters,
+    };
+  },
+
+  buildNodeContent(node: any, variables: Record<string, any>, aiGeneratedText?: string | null, reactionTargetId?: string | null): any {
+    const config = node.data?.config || {};
+    const nodeType = node.data?.nodeType;
+
+    // Botões, lista, enquete, localização, contato e reação
+    if (isInteractiveMessageType(nodeType)) {
+      return buildInteractiveMessage(nodeType, config, text => this.replaceVariables(text, variables), reactionTargetId);
+    }
+
+    switch (nodeType) {
+      case 'text':
+      case 'action':
+        return { text: this.replaceVariables(config.content || config.message || '', variables) };
+
+      case 'image':
+        return {
+          image: { url: config.mediaUrl },
+          caption: this.replaceVariables(config.caption || '', variables) || undefined,
+        };
+
+      case 'video':
+        return {
+          video: { url: config.mediaUrl },
+          caption: this.replaceVariables(config.caption || '', variables) || undefined,
+        };
+
+      case 'audio':
+        return { audio: { url: config.mediaUrl } };
+
+      case 'document':
+        return {
+          document: { url: config.mediaUrl },
+          fileName: config.fileName || 'document.pdf',
+        };
+
+      case 'ai':
+        return aiGeneratedText ? { text: aiGeneratedText } : null;
+
+      default:
+        return undefined;
+    }
+  },
+
+  /**
+   * Gera a resposta de um nó de IA (OpenAI/Groq) usando as variáveis da sessão
+   * e a última resposta do contato como contexto
+   */
+  async generateAINodeResponse(node: any, session: any): Promise<string> {
+    const config = node.data?.config || {};
+    const provider = config.aiProvider === 'groq' ? 'groq' : 'openai';
+    const providerLabel = provider === 'groq' ? 'Groq' : 'OpenAI';
+
+    const variables: Record<string, any> = {
+      ...((session.variables as Record<string, any>) || {}),
+      mensagem_usuario: session.lastResponse || '',
+    };
+
+    const messageConfig = {
+      model: config.model || (provider === 'groq' ? 'llama-3.1-8b-instant' : 'gpt-4o-mini'),
+      system: this.replaceVariables(config.systemPrompt || '', variables),
+      user: this.replaceVariables(config.prompt || '', variables),
+    };
+
+    if (!messageConfig.user.trim()) {
+      throw new Error('Prompt do nó de IA não configurado');
+    }
+
+    const contactData = session.contact || { nome: variables.nome, telefone: variables.telefone };
+    const tenantId = session.tenantId || session.campaign?.tenantId || undefined;
+
+    console.log(`🤖 Generating AI response with ${providerLabel} (${messageConfig.model}) for node ${node.id}`);
+
+    const result = provider === 'groq'
+      ? await groqService.generateMessage(messageConfig, contactData, tenantId)
+      : await openaiService.generateMessage(messageConfig, contactData, tenantId);
+
+    if (!result.success || !result.message) {
+      throw new Error(`${providerLabel} error: ${result.error || 'Resposta vazia'}`);
+    }
+
+    return result.message;
+  },
+
+  /**
+   * Substitui variáveis no template de mensagem.
+   * encode é aplicado a cada valor interpolado (ex: encodeURIComponent na URL de um nó HTTP REST).
    */
-  replaceVariables(template: string, variables: Record<string, any>): string {
+  replaceVariables(template: string, variables: Record<string, any>, encode: (value: string) => string = value => value): string {
     let result = template;
 
     // Substituir variáveis no formato {{variavel}} (dupla chave) e {variavel} (chave simples)
     Object.keys(variables).forEach(key => {
-      const value = String(variables[key] || '');
+      const value = encode(String(variables[key] || ''));
       // Primeiro substituir {{variavel}} (dupla chave)
       const doubleRegex = new RegExp(`\\{\\{${key}\\}\\}`, 'gi');
       result = result.replace(doubleRegex, value);
@@ -587,144 +909,573 @@ export const interactiveCampaignFlowEngine = {
       result = result.replace(singleRegex, value);
     });
 
+    // Substituir caminhos aninhados no formato {{variavel.campo}} (ex: respostas de HTTP REST)
+    result = result.replace(/\{\{(\w+(?:\.\w+)+)\}\}/g, (match, path: string) => {
+      const value = this.resolveJsonPath(variables, path);
+      if (value === undefined || value === null) return '';
+      return encode(typeof value === 'object' ? JSON.stringify(value) : String(value));
+    });
+
     console.log(`[FLOW-ENGINE] 🔍 replaceVariables - variables: ${JSON.stringify(variables)}`);
 
     return result;
   },
 
   /**
-   * Processa nó de delay e avança automaticamente após o tempo configurado
+   * Resolve um caminho no formato gerado pelo mapeamento do Flow Builder
+   * (ex: "data.user.name" ou "items.flatMap(item => item.id)")
    */
-  async processDelayNode(graph: any, delayNode: any, session: any, contactPhone: string) {
+  resolveJsonPath(data: any, path: string): any {
+    if (!path) return data;
+
+    const flatMapMatch = path.match(/^(.*?)\.?flatMap\(item => item\.(.+)\)$/);
+    if (flatMapMatch) {
+      const [, basePath, itemPath] = flatMapMatch;
+      const baseValue = this.resolveJsonPath(data, basePath);
+      if (!Array.isArray(baseValue)) return undefined;
+      return baseValue.flatMap((item: any) => {
+        const value = this.resolveJsonPath(item, itemPath);
+        return value === undefined ? [] : value;
+      });
+    }
+
+    return path.split('.').reduce((value: any, part: string) => {
+      if (value === undefined || value === null) return undefined;
+      return value[part];
+    }, data);
+  },
+
+  /**
+   * Executa a requisição configurada em um nó HTTP REST e mapeia a resposta para variáveis da sessão
+   */
+  async executeHttpRestNode(node: any, session: any): Promise<{ success: boolean; status?: number; error?: string }> {
+    const result = await this.performHttpRequest(node, (session.variables as Record<string, any>) || {});
+
+    const updatedSession = await interactiveCampaignSessionService.updateSession(session.id, {
+      variables: result.variables,
+    });
+    // Manter objeto da sessão em memória atualizado para os próximos nós do fluxo
+    session.variables = updatedSession.variables;
+
+    await interactiveCampaignSessionService.addVisitedNode(session.id, node.id, result.success, result.error);
+
+    return { success: result.success, status: result.status, error: result.error };
+  },
+
+  /**
+   * Faz a requisição de um nó HTTP REST sem alterar a sessão.
+   * Retorna o resultado e as variáveis geradas a partir da resposta.
+   */
+  async performHttpRequest(node: any, variables: Record<string, any>): Promise<HttpRestResult> {
+    const config = node.data?.config || {};
+    const method = (config.method || 'GET').toUpperCase();
+    const timeoutSeconds = Number(config.timeout) || 30;
+
+    // Valores interpolados em JSON precisam ser escapados para não quebrar o documento
+    const jsonEscapedVariables: Record<string, any> = {};
+    Object.entries(variables).forEach(([key, value]) => {
+      const text = value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value ?? '');
+      jsonEscapedVariables[key] = JSON.stringify(text).slice(1, -1);
+    });
+
+    let status: number | undefined;
+    let responseData: any = null;
+    let success = false;
+    let errorMessage: string | undefined;
+
     try {
-      const config = delayNode.data?.config;
-      const delaySeconds = config?.value || config?.delaySeconds || config?.seconds || config?.delay || 0;
-
-      console.log(`⏱️ Delay node: waiting ${delaySeconds} seconds before continuing`);
-
-      if (delaySeconds <= 0) {
-        console.warn(`⚠️ Invalid delay time: ${delaySeconds}s, skipping delay`);
-        // Avançar imediatamente para o próximo nó
-        const nextEdge = graph.edges?.find((e: any) => e.source === delayNode.id);
-        if (nextEdge) {
-          const nextNode = graph.nodes?.find((n: any) => n.id === nextEdge.target);
-          if (nextNode) {
-            await this.processNextNodeAfterDelay(graph, nextNode, session, contactPhone);
-          }
-        }
-        return;
+      if (!config.url) {
+        throw new Error('URL não configurada');
       }
 
-      // Agendar processamento do próximo nó após o delay
-      setTimeout(async () => {
+      // Respostas do contato não podem acrescentar caminhos ou parâmetros à URL
+      const url = this.replaceVariables(config.url, variables, encodeURIComponent);
+
+      let headers: Record<string, string> = {};
+      if (config.headers) {
+        const headersText = typeof config.headers === 'string'
+          ? this.replaceVariables(config.headers, jsonEscapedVariables)
+          : JSON.stringify(config.headers);
         try {
-          console.log(`⏰ Delay completed (${delaySeconds}s), continuing flow for ${contactPhone}`);
-
-          // Buscar próximo nó conectado ao delay
-          const nextEdge = graph.edges?.find((e: any) => e.source === delayNode.id);
-          if (!nextEdge) {
-            console.log(`🏁 No next node after delay, flow completed`);
-            await interactiveCampaignSessionService.completeSession(session.id);
-            return;
-          }
+          headers = JSON.parse(headersText);
+        } catch (e) {
+          throw new Error('Headers inválidos (JSON esperado)');
+        }
+      }
 
-          const nextNode = graph.nodes?.find((n: any) => n.id === nextEdge.target);
-          if (!nextNode) {
-            console.error(`❌ Next node not found after delay`);
-            return;
-          }
+      const fetchOptions: RequestInit = { method, headers };
 
-          await this.processNextNodeAfterDelay(graph, nextNode, session, contactPhone);
+      if (config.body && ['POST', 'PUT', 'PATCH'].includes(method)) {
+        const bodyTemplate = typeof config.body === 'string' ? config.body : JSON.stringify(config.body);
+        fetchOptions.body = this.replaceVariables(bodyTemplate, jsonEscapedVariables);
 
-        } catch (error: any) {
-          console.error(`❌ Error processing node after delay:`, error.message);
+        const hasContentType = Object.keys(headers).some(h => h.toLowerCase() === 'content-type');
+        if (!hasContentType) {
+          headers['Content-Type'] = 'application/json';
         }
-      }, delaySeconds * 1000);
+      }
 
+      console.log(`🌐 HTTP REST node ${node.id}: ${method} ${url}`);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+
+      try {
+        const response = await fetch(url, { ...fetchOptions, signal: controller.signal });
+        status = response.status;
+
+        const contentType = response.headers.get('content-type');
+        const responseText = await this.readLimitedBody(response, HTTP_REST_MAX_RESPONSE_BYTES);
+        responseData = contentType?.includes('application/json')
+          ? JSON.parse(responseText)
+          : responseText;
+
+        success = response.ok;
+        if (!success) {
+          errorMessage = `HTTP ${response.status} ${response.statusText}`;
+        }
+      } finally {
+        clearTimeout(timeoutId);
+      }
     } catch (error: any) {
-      console.error(`❌ Error processing delay node:`, error.message);
+      errorMessage = error.name === 'AbortError'
+        ? `Timeout após ${timeoutSeconds}s`
+        : error.message;
     }
+
+    console.log(`${success ? '✅' : '❌'} HTTP REST node ${node.id} result: ${status ?? 'sem resposta'}${errorMessage ? ` - ${errorMessage}` : ''}`);
+
+    // Mapear campos da resposta para variáveis da sessão
+    const newVariables: Record<string, any> = {
+      lastHttpStatus: status ?? null,
+      lastHttpSuccess: success,
+      lastHttpError: errorMessage ?? null,
+    };
+
+    if (config.responseVar) {
+      newVariables[config.responseVar] = responseData;
+    }
+
+    if (success && Array.isArray(config.variableMappings)) {
+      for (const mapping of config.variableMappings) {
+        if (!mapping?.variableName || !mapping?.jsonPath) continue;
+        const value = this.resolveJsonPath(responseData, mapping.jsonPath);
+        newVariables[mapping.variableName] = value ?? null;
+        console.log(`📝 Mapped ${mapping.jsonPath} -> {${mapping.variableName}}`);
+      }
+    }
+
+    return { success, status, error: errorMessage, variables: newVariables };
   },
 
   /**
-   * Processa próximo nó após um delay
+   * Lê o corpo da resposta até o limite de bytes, interrompendo o download quando ele é ultrapassado
    */
-  async processNextNodeAfterDelay(graph: any, nextNode: any, session: any, contactPhone: string) {
-    try {
-      console.log(`➡️ Processing next node after delay: ${nextNode.id} (${nextNode.data?.nodeType})`);
+  async readLimitedBody(response: Response, maxBytes: number): Promise<string> {
+    const tooLarge = () => new Error(`Resposta maior que ${Math.round(maxBytes / 1024)} KB`);
 
-      // Atualizar sessão para o novo nó
-      await interactiveCampaignSessionService.updateSession(session.id, {
-        currentNodeId: nextNode.id,
-      });
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      await response.body?.cancel();
+      throw tooLarge();
+    }
+    if (!response.body) {
+      return '';
+    }
 
-      // Se é outro delay, processar recursivamente
-      if (nextNode.data?.nodeType === 'delay') {
-        await this.processDelayNode(graph, nextNode, session, contactPhone);
-        return;
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let totalBytes = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      totalBytes += value.byteLength;
+      if (totalBytes > maxBytes) {
+        await reader.cancel();
+        throw tooLarge();
       }
+      chunks.push(value);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  },
+
+  /**
+   * Retorna o próximo nó após um HTTP REST de acordo com a saída (success/error).
+   * Conexões sem handle (fluxos antigos) são usadas como fallback.
+   */
+  getHttpRestNextNode(graph: any, node: any, success: boolean) {
+    const edges = graph.edges?.filter((e: any) => e.source === node.id) || [];
+    const targetEdge = edges.find((e: any) => e.sourceHandle === (success ? 'success' : 'error'))
+      || edges.find((e: any) => !e.sourceHandle);
+
+    if (!targetEdge) return null;
+    return graph.nodes?.find((n: any) => n.id === targetEdge.target) || null;
+  },
+
+  /**
+   * Executa um nó HTTP REST e continua o fluxo pela saída correspondente ao resultado
+   */
+  async processHttpRestNode(graph: any, httpNode: any, session: any, contactPhone: string) {
+    const result = await this.executeHttpRestNode(httpNode, session);
+    const nextNode = this.getHttpRestNextNode(graph, httpNode, result.success);
+
+    if (!nextNode) {
+      console.log(`🏁 No ${result.success ? 'success' : 'error'} path after HTTP REST node ${httpNode.id}`);
+      return;
+    }
+
+    await this.processNextNodeAfterDelay(graph, nextNode, session, contactPhone);
+  },
+
+  /**
+   * Processa nó de delay: agenda a retomada na sessão (persistida, sobrevive a reinícios).
+   * O interactiveCampaignDelayScheduler chama resumeAfterDelay quando o horário chega.
+   */
+  async processDelayNode(graph: any, delayNode: any, session: any, contactPhone: string) {
+    const delaySeconds = this.getDelaySeconds(delayNode);
 
-      // Se é um nó de mensagem, enviar
-      const messageNodeTypes = ['action', 'text', 'image', 'video', 'audio', 'document'];
-      if (messageNodeTypes.includes(nextNode.data?.nodeType)) {
-        await this.sendNodeMessage(nextNode, session, contactPhone);
+    console.log(`⏱️ Delay node: waiting ${delaySeconds} seconds before continuing`);
 
-        // Continuar processando nós subsequentes automaticamente
-        await this.continueFlowAfterMessage(graph, nextNode, session, contactPhone);
+    if (delaySeconds <= 0) {
+      console.warn(`⚠️ Invalid delay time: ${delaySeconds}s, skipping delay`);
+      // Avançar imediatamente para o próximo nó
+      const nextEdge = graph.edges?.find((e: any) => e.source === delayNode.id);
+      if (nextEdge) {
+        const nextNode = graph.nodes?.find((n: any) => n.id === nextEdge.target);
+        if (nextNode) {
+          await this.processNextNodeAfterDelay(graph, nextNode, session, contactPhone);
+        }
       }
+      return;
+    }
 
-    } catch (error: any) {
-      console.error(`❌ Error processing next node after delay:`, error.message);
+    await interactiveCampaignSessionService.scheduleWakeUp(
+      session.id,
+      delayNode.id,
+      new Date(Date.now() + delaySeconds * 1000)
+    );
+  },
+
+  /**
+   * Converte valor + unidade (seconds/minutes/hours/days) para segundos
+   */
+  durationToSeconds(value: any, unit: string = 'seconds'): number {
+    const amount = Number(value) || 0;
+    return amount * (UNIT_SECONDS[unit] || 1);
+  },
+
+  /**
+   * Tempo configurado no nó de delay, em segundos
+   */
+  getDelaySeconds(delayNode: any): number {
+    const config = delayNode.data?.config;
+    const value = config?.value || config?.delaySeconds || config?.seconds || config?.delay || 0;
+    return this.durationToSeconds(value, config?.value ? config?.unit || 'seconds' : 'seconds');
+  },
+
+  /**
+   * Timeout de resposta configurado em um nó waitreply/condition, em segundos (0 = sem timeout)
+   */
+  getReplyTimeoutSeconds(node: any): number {
+    const config = node.data?.config;
+    if (!config?.timeoutValue) return 0;
+    return this.durationToSeconds(config.timeoutValue, config.timeoutUnit || 'hours');
+  },
+
+  isNoReplyEdge(edge: any): boolean {
+    return edge?.sourceHandle === NO_REPLY_HANDLE;
+  },
+
+  /**
+   * Edge seguida quando o contato responde (ignora a saída "sem resposta")
+   */
+  getReplyEdge(graph: any, nodeId: string) {
+    return graph.edges?.find((e: any) => e.source === nodeId && !this.isNoReplyEdge(e));
+  },
+
+  /**
+   * Próximo nó pela saída "sem resposta"
+   */
+  getNoReplyNextNode(graph: any, node: any) {
+    const edge = graph.edges?.find((e: any) => e.source === node.id && this.isNoReplyEdge(e));
+    return edge ? graph.nodes?.find((n: any) => n.id === edge.target) || null : null;
+  },
+
+  /**
+   * Quantidade de lembretes configurada (só vale com mensagem de lembrete)
+   */
+  getReminderCount(node: any): number {
+    const config = node.data?.config;
+    // Lembrete sem texto não é enviado (nem consome o orçamento da sessão)
+    if (!String(config?.reminderMessage || '').trim()) return 0;
+    return Math.max(0, parseInt(config.reminderCount) || 0);
+  },
+
+  /**
+   * Agenda o timeout (e os lembretes) de um nó que aguarda resposta.
+   * Os lembretes são distribuídos igualmente dentro do tempo de timeout.
+   */
+  async armReplyTimeout(sessionId: string, node: any) {
+    const timeoutSeconds = this.getReplyTimeoutSeconds(node);
+    if (timeoutSeconds <= 0) {
+      return;
     }
+
+    const startedAt = Date.now();
+    const reminderCount = this.getReminderCount(node);
+
+    await interactiveCampaignSessionService.updateSession(sessionId, {
+      variables: { _replyWait: { nodeId: node.id, startedAt, remindersSent: 0 } },
+    });
+    await interactiveCampaignSessionService.scheduleWakeUp(
+      sessionId,
+      node.id,
+      new Date(startedAt + (timeoutSeconds * 1000) / (reminderCount + 1))
+    );
   },
 
   /**
-   * Continua o fluxo automaticamente após enviar uma mensagem (para delays encadeados)
+   * Chamado pelo scheduler quando a retomada agendada de uma sessão vence
    */
-  async continueFlowAfterMessage(graph: any, currentNode: any, session: any, contactPhone: string) {
+  async handleWakeUp(sessionId: string, nodeId: string) {
     try {
-      // Buscar próximo nó
-      const nextEdge = graph.edges?.find((e: any) => e.source === currentNode.id);
-      if (!nextEdge) {
-        return; // Sem próximo nó, aguardar resposta do usuário
-      }
+      const session = await prisma.interactiveCampaignSession.findUnique({
+        where: { id: sessionId },
+        include: { campaign: true },
+      });
 
-      const nextNode = graph.nodes?.find((n: any) => n.id === nextEdge.target);
-      if (!nextNode) {
+      if (!session || session.status !== 'ACTIVE' || session.currentNodeId !== nodeId) {
+        console.log(`⏭️ Session ${sessionId} is no longer waiting on node ${nodeId}`);
         return;
       }
 
-      // Se próximo nó é delay, processar
-      if (nextNode.data?.nodeType === 'delay') {
-        await interactiveCampaignSessionService.updateSession(session.id, {
-          currentNodeId: nextNode.id,
-        });
-        await this.processDelayNode(graph, nextNode, session, contactPhone);
-        return;
-      }
+      const graph = session.campaign.graph as any;
+      const node = graph.nodes?.find((n: any) => n.id === nodeId);
 
-      // Se próximo nó é mensagem, enviar (continuar sequência)
-      const messageNodeTypes = ['action', 'text', 'image', 'video', 'audio', 'document'];
-      if (messageNodeTypes.includes(nextNode.data?.nodeType)) {
-        await interactiveCampaignSessionService.updateSession(session.id, {
-          currentNodeId: nextNode.id,
-        });
-        await this.sendNodeMessage(nextNode, session, contactPhone);
-        // Continuar recursivamente
-        await this.continueFlowAfterMessage(graph, nextNode, session, contactPhone);
+      if (!node) {
+        console.error(`❌ Node ${nodeId} not found in campaign graph`);
         return;
       }
 
-      // Se é condição ou stop, parar e aguardar
-      if (['condition', 'stop', 'waitreply'].includes(nextNode.data?.nodeType)) {
-        await interactiveCampaignSessionService.updateSession(session.id, {
-          currentNodeId: nextNode.id,
-        });
+      if (REPLY_WAITING_NODE_TYPES.includes(node.data?.nodeType)) {
+        await this.handleReplyTimeout(graph, node, session);
         return;
       }
 
+      await this.resumeAfterDelay(graph, node, session);
+
     } catch (error: any) {
-      console.error(`❌ Error continuing flow after message:`, error.message);
+      console.error(`❌ Error processing scheduled wake-up for session ${sessionId}:`, error.message);
+      // Propaga para o scheduler manter o lease: a retomada é tentada de novo quando ele expira
+      throw error;
+    }
+  },
+
+  /**
+   * Retoma o fluxo de uma sessão cujo delay venceu
+   */
+  async resumeAfterDelay(graph: any, delayNode: any, session: any) {
+    console.log(`⏰ Delay completed, continuing flow for ${session.contactPhone}`);
+
+    // Buscar próximo nó conectado ao delay
+    const nextEdge = graph.edges?.find((e: any) => e.source === delayNode.id);
+    if (!nextEdge) {
+      console.log(`🏁 No next node after delay, flow completed`);
+      await interactiveCampaignSessionService.completeSession(session.id);
+      return;
+    }
+
+    const nextNode = graph.nodes?.find((n: any) => n.id === nextEdge.target);
+    if (!nextNode) {
+      console.error(`❌ Next node not found after delay`);
+      return;
+    }
+
+    await this.processNextNodeAfterDelay(graph, nextNode, session, session.contactPhone);
+  },
+
+  /**
+   * Contato não respondeu a tempo: envia o próximo lembrete ou, esgotados os lembretes,
+   * segue pela saída "sem resposta" (sem ela, a sessão expira)
+   */
+  async handleReplyTimeout(graph: any, node: any, session: any) {
+    const variables = (session.variables as Record<string, any>) || {};
+    const timeoutMs = this.getReplyTimeoutSeconds(node) * 1000;
+    const reminderCount = this.getReminderCount(node);
+    const wait = variables._replyWait?.nodeId === node.id ? variables._replyWait : null;
+    const remindersSent = wait?.remindersSent || 0;
+
+    if (wait && remindersSent < reminderCount) {
+      console.log(`🔔 Sending reminder ${remindersSent + 1}/${reminderCount} to ${session.contactPhone} (node ${node.id})`);
+
+      const reminderNode = {
+        id: node.id,
+        data: { nodeType: 'text', config: { content: node.data.config.reminderMessage } },
+      };
+      await this.sendNodeMessage(reminderNode, session, session.contactPhone);
+
+      await interactiveCampaignSessionService.updateSession(session.id, {
+        variables: { _replyWait: { ...wait, remindersSent: remindersSent + 1 } },
+      });
+      await interactiveCampaignSessionService.scheduleWakeUp(
+        session.id,
+        node.id,
+        new Date(wait.startedAt + (timeoutMs * (remindersSent + 2)) / (reminderCount + 1))
+      );
+      return;
+    }
+
+    console.log(`⌛ No reply from ${session.contactPhone} on node ${node.id}`);
+
+    await interactiveCampaignSessionService.updateSession(session.id, {
+      variables: { _replyWait: null, noReply: true, noReplyNodeId: node.id },
+    });
+
+    const nextNode = this.getNoReplyNextNode(graph, node);
+    if (!nextNode) {
+      console.log(`⌛ No "no reply" path on node ${node.id}, expiring session ${session.id}`);
+      await interactiveCampaignSessionService.expireSession(session.id);
+      return;
+    }
+
+    const updatedSession = await prisma.interactiveCampaignSession.findUnique({ where: { id: session.id } }) || session;
+    await this.processNextNodeAfterDelay(graph, nextNode, updatedSession, session.contactPhone);
+  },
+
+  /**
+   * Expira sessões que ultrapassaram o tempo máximo de vida configurado no trigger da campanha
+   */
+  async expireSessionsPastLifetime() {
+    const campaigns = await prisma.interactiveCampaign.findMany({
+      where: { status: { in: ['STARTED', 'PAUSED'] } },
+      select: { id: true, graph: true },
+    });
+
+    let expiredCount = 0;
+
+    for (const campaign of campaigns) {
+      const graph = campaign.graph as any;
+      const triggerConfig = graph?.nodes?.find((n: any) => n.data?.nodeType === 'trigger')?.data?.config;
+      const lifetimeSeconds = this.durationToSeconds(
+        triggerConfig?.sessionMaxLifetimeValue,
+        triggerConfig?.sessionMaxLifetimeUnit || 'hours'
+      );
+
+      if (lifetimeSeconds <= 0) {
+        continue;
+      }
+
+      const result = await prisma.interactiveCampaignSession.updateMany({
+        where: {
+          campaignId: campaign.id,
+          status: 'ACTIVE',
+          startedAt: { lt: new Date(Date.now() - lifetimeSeconds * 1000) },
+        },
+        data: { status: 'EXPIRED', wakeUpAt: null, wakeUpNodeId: null },
+      });
+
+      if (result.count > 0) {
+        expiredCount += result.count;
+        console.log(`⌛ Expired ${result.count} sessions past max lifetime in campaign ${campaign.id}`);
+        await interactiveCampaignSessionService.checkAndCompleteCampaign(campaign.id);
+      }
+    }
+
+    return expiredCount;
+  },
+
+  /**
+   * Processa próximo nó após um delay.
+   * Erros de envio propagam para quem chamou: a retomada agendada mantém o lease e é tentada de novo.
+   */
+  async processNextNodeAfterDelay(graph: any, nextNode: any, session: any, contactPhone: string) {
+    console.log(`➡️ Processing next node after delay: ${nextNode.id} (${nextNode.data?.nodeType})`);
+
+    // Atualizar sessão para o novo nó
+    await interactiveCampaignSessionService.updateSession(session.id, {
+      currentNodeId: nextNode.id,
+    });
+
+    // Nó que aguarda resposta: agendar timeout/lembretes e parar
+    if (REPLY_WAITING_NODE_TYPES.includes(nextNode.data?.nodeType)) {
+      await this.armReplyTimeout(session.id, nextNode);
+      return;
+    }
+
+    // Se é outro delay, processar recursivamente
+    if (nextNode.data?.nodeType === 'delay') {
+      await this.processDelayNode(graph, nextNode, session, contactPhone);
+      return;
+    }
+
+    // Se é uma requisição HTTP, executar e seguir pela saída correspondente
+    if (nextNode.data?.nodeType === 'httprest') {
+      await this.processHttpRestNode(graph, nextNode, session, contactPhone);
+      return;
+    }
+
+    // Se é um nó de mensagem, enviar
+    if (MESSAGE_NODE_TYPES.includes(nextNode.data?.nodeType)) {
+      await this.sendNodeMessage(nextNode, session, contactPhone);
+
+      // Continuar processando nós subsequentes automaticamente
+      await this.continueFlowAfterMessage(graph, nextNode, session, contactPhone);
+    }
+  },
+
+  /**
+   * Continua o fluxo automaticamente após enviar uma mensagem (para delays encadeados)
+   */
+  async continueFlowAfterMessage(graph: any, currentNode: any, session: any, contactPhone: string) {
+    // Buscar próximo nó
+    const nextEdge = graph.edges?.find((e: any) => e.source === currentNode.id);
+    if (!nextEdge) {
+      return; // Sem próximo nó, aguardar resposta do usuário
+    }
+
+    const nextNode = graph.nodes?.find((n: any) => n.id === nextEdge.target);
+    if (!nextNode) {
+      return;
+    }
+
+    // Se próximo nó é delay, processar
+    if (nextNode.data?.nodeType === 'delay') {
+      await interactiveCampaignSessionService.updateSession(session.id, {
+        currentNodeId: nextNode.id,
+      });
+      await this.processDelayNode(graph, nextNode, session, contactPhone);
+      return;
+    }
+
+    // Se próximo nó é requisição HTTP, executar e seguir pela saída correspondente
+    if (nextNode.data?.nodeType === 'httprest') {
+      await interactiveCampaignSessionService.updateSession(session.id, {
+        currentNodeId: nextNode.id,
+      });
+      await this.processHttpRestNode(graph, nextNode, session, contactPhone);
+      return;
+    }
+
+    // Se próximo nó é mensagem, enviar (continuar sequência)
+    if (MESSAGE_NODE_TYPES.includes(nextNode.data?.nodeType)) {
+      await interactiveCampaignSessionService.updateSession(session.id, {
+        currentNodeId: nextNode.id,
+      });
+      await this.sendNodeMessage(nextNode, session, contactPhone);
+      // Continuar recursivamente
+      await this.continueFlowAfterMessage(graph, nextNode, session, contactPhone);
+      return;
+    }
+
+    // Se é condição ou stop, parar e aguardar
+    if (['condition', 'stop', 'waitreply'].includes(nextNode.data?.nodeType)) {
+      await interactiveCampaignSessionService.updateSession(session.id, {
+        currentNodeId: nextNode.id,
+      });
+      await this.armReplyTimeout(session.id, nextNode);
+      return;
     }
   },
 };
@@ -1,4 +1,7 @@
 import { PrismaClient } from '@prisma/client';
+import { interactiveCampaignSessionService } from './interactiveCampaignSessionService';
+import { interactiveCampaignFlowEngine } from './interactiveCampaignFlowEngine';
+import { INTERACTIVE_MESSAGE_TYPES } from './whatsappProviders';
 
 const prisma = new PrismaClient();
 
@@ -339,7 +342,7 @@ export const interactiveCampaignService = {
     // Extrair nós do graph (apenas nós de envio de mensagem)
     const graph = campaign.graph as any;
     const flowNodes = (graph.nodes || [])
-      .filter((n: any) => ['text', 'image', 'video', 'audio', 'document', 'action'].includes(n.data?.nodeType))
+      .filter((n: any) => ['text', 'image', 'video', 'audio', 'document', 'action', ...INTERACTIVE_MESSAGE_TYPES].includes(n.data?.nodeType))
       .map((n: any) => ({
         id: n.id,
         type: n.data?.nodeType || 'unknown',
@@ -358,6 +361,24 @@ export const interactiveCampaignService = {
       expired: sessions.filter(s => s.status === 'EXPIRED').length,
     };
 
+    // Contatos aguardando em cada nó de delay (retomada agendada)
+    const graphDelayNodes = (graph.nodes || []).filter((n: any) => n.data?.nodeType === 'delay');
+    const waitingByNode = await interactiveCampaignSessionService.getWaitingByDelayNode(
+      campaign.id,
+      graphDelayNodes.map((n: any) => n.id)
+    );
+    const delayNodes = graphDelayNodes
+      .map((n: any) => {
+        const waiting = waitingByNode.find(item => item.nodeId === n.id);
+        return {
+          id: n.id,
+          label: n.data?.customLabel || n.data?.label || 'Delay',
+          delaySeconds: interactiveCampaignFlowEngine.getDelaySeconds(n),
+          waiting: waiting?.waiting || 0,
+          nextWakeUpAt: waiting?.nextWakeUpAt || null,
+        };
+      });
+
     // Preparar lista de sessões para exibição (similar ao formato de messages)
     const sessionsList = sessions.map(session => {
       const visitedNodes = (session.visitedNodes as any[]) || [];
@@ -381,6 +402,7 @@ export const interactiveCampaignService = {
         currentNodeId: session.currentNodeId,
         lastMessageAt: session.lastMessageAt,
         lastResponse: session.lastResponse,
+        wakeUpAt: session.wakeUpAt,
         createdAt: session.createdAt,
         updatedAt: session.updatedAt,
         visitedNodes: nodesMap, // Mapa de nodeId -> {sent, visitedAt, error}
@@ -417,6 +439,7 @@ export const interactiveCampaignService = {
       stats,
       sessionsByStatus,
       flowNodes, // Lista de nós do fluxo
+      delayNodes, // Nós de delay com contatos aguardando
     };
   },
 };
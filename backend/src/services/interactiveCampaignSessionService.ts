@@ -7,6 +7,11 @@ import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+// Tempo que uma retomada fica reservada para o processo que a pegou antes de poder ser tentada de novo
+const WAKE_UP_LEASE_MS = parseInt(process.env.INTERACTIVE_WAKE_UP_LEASE_MS || '300000');
+// Tentativas de uma retomada antes de a sessão ser marcada como falha
+const WAKE_UP_MAX_ATTEMPTS = parseInt(process.env.INTERACTIVE_WAKE_UP_MAX_ATTEMPTS || '5');
+
 export interface CreateSessionData {
   campaignId: string;
   contactId: string;
@@ -19,10 +24,13 @@ export interface CreateSessionData {
 
 export interface UpdateSessionData {
   currentNodeId?: string;
-  status?: 'ACTIVE' | 'COMPLETED' | 'FAILED' | 'EXPIRED';
+  status?: 'ACTIVE' | 'COMPLETED' | 'FAILED' | 'EXPIRED' | 'SKIPPED_OPTOUT';
   variables?: Record<string, any>;
   lastResponse?: string;
   lastMessageAt?: Date;
+  wakeUpAt?: Date | null;
+  wakeUpNodeId?: string | null;
+  wakeUpAttempts?: number;
 }
 
 export interface VisitedNode {
@@ -34,11 +42,15 @@ export interface VisitedNode {
 
 export const interactiveCampaignSessionService = {
   /**
-   * Cria ou atualiza uma sessão de contato em uma campanha
+   * Cria ou atualiza uma sessão de contato em uma campanha.
+   * Uma sessão antiga que volta a ficar ativa (contato entra de novo no fluxo) recomeça do zero:
+   * variáveis, nós visitados e retomadas da passagem anterior são descartados.
    */
   async upsertSession(data: CreateSessionData) {
     console.log(`📝 Creating/updating session for contact ${data.contactPhone} in campaign ${data.campaignId}`);
 
+    const status = data.status || 'ACTIVE';
+
     return prisma.interactiveCampaignSession.upsert({
       where: {
         campaignId_contactId: {
@@ -52,14 +64,24 @@ export const interactiveCampaignSessionService = {
         contactPhone: data.contactPhone,
         currentNodeId: data.currentNodeId,
         tenantId: data.tenantId,
-        status: data.status || 'ACTIVE',
+        status,
         variables: data.variables || {},
         lastMessageAt: new Date(),
       },
       update: {
         currentNodeId: data.currentNodeId,
         lastMessageAt: new Date(),
-        status: data.status || 'ACTIVE',
+        status,
+        ...(status === 'ACTIVE' && {
+          contactPhone: data.contactPhone,
+          startedAt: new Date(),
+          variables: data.variables || {},
+          visitedNodes: [],
+          lastResponse: null,
+          wakeUpAt: null,
+          wakeUpNodeId: null,
+          wakeUpAttempts: 0,
+        }),
       },
     });
   },
@@ -167,6 +189,21 @@ export const interactiveCampaignSessionService = {
 
     if (data.currentNodeId !== undefined) {
       updateData.currentNodeId = data.currentNodeId;
+      // Mudou de nó: uma retomada agendada pelo nó anterior deixa de valer
+      updateData.wakeUpAt = null;
+      updateData.wakeUpNodeId = null;
+    }
+
+    if (data.wakeUpAt !== undefined) {
+      updateData.wakeUpAt = data.wakeUpAt;
+    }
+
+    if (data.wakeUpNodeId !== undefined) {
+      updateData.wakeUpNodeId = data.wakeUpNodeId;
+    }
+
+    if (data.wakeUpAttempts !== undefined) {
+      updateData.wakeUpAttempts = data.wakeUpAttempts;
     }
 
     if (data.status !== undefined) {
@@ -261,6 +298,56 @@ export const interactiveCampaignSessionService = {
     return updatedSession;
   },
 
+  /**
+   * Marca sessão como expirada (contato não respondeu) e verifica se a campanha pode ser marcada como COMPLETED
+   */
+  async expireSession(sessionId: string) {
+    const updatedSession = await this.updateSession(sessionId, {
+      status: 'EXPIRED',
+      wakeUpAt: null,
+      wakeUpNodeId: null,
+    });
+
+    // Verificar se todas as sessões da campanha foram finalizadas
+    await this.checkAndCompleteCampaign(updatedSession.campaignId);
+
+    return updatedSession;
+  },
+
+  /**
+   * Encerra as sessões ativas de um contato que pediu descadastro (opt-out)
+   */
+  async stopSessionsForOptOut(tenantId: string, normalizedPhone: string) {
+    const variants = [normalizedPhone];
+    // Sessões podem ter sido criadas com o número sem o 9° dígito (formato do JID)
+    if (normalizedPhone.length === 13 && normalizedPhone.startsWith('55')) {
+      variants.push(`${normalizedPhone.slice(0, 4)}${normalizedPhone.slice(5)}`);
+    }
+
+    const sessions = await prisma.interactiveCampaignSession.findMany({
+      where: {
+        tenantId,
+        status: 'ACTIVE',
+        OR: variants.map(phone => ({ contactPhone: { startsWith: phone } })),
+      },
+      select: { id: true, campaignId: true },
+    });
+
+    for (const session of sessions) {
+      await this.updateSession(session.id, {
+        status: 'SKIPPED_OPTOUT',
+        wakeUpAt: null,
+        wakeUpNodeId: null,
+      });
+    }
+
+    for (const campaignId of new Set(sessions.map(session => session.campaignId))) {
+      await this.checkAndCompleteCampaign(campaignId);
+    }
+
+    return sessions.length;
+  },
+
   /**
    * Lista todas as sessões de uma campanha
    */
@@ -289,6 +376,7 @@ export const interactiveCampaignSessionService = {
     const result = await prisma.interactiveCampaignSession.updateMany({
       where: {
         status: 'ACTIVE',
+        wakeUpAt: null, // Sessões aguardando um delay não estão inativas
         updatedAt: {
           lt: expirationDate,
         },
@@ -302,6 +390,134 @@ export const interactiveCampaignSessionService = {
     return result;
   },
 
+  /**
+   * Agenda a retomada do fluxo da sessão (nó de delay)
+   */
+  async scheduleWakeUp(sessionId: string, nodeId: string, wakeUpAt: Date) {
+    console.log(`⏰ Session ${sessionId} will resume after node ${nodeId} at ${wakeUpAt.toISOString()}`);
+
+    return this.updateSession(sessionId, {
+      wakeUpAt,
+      wakeUpNodeId: nodeId,
+      wakeUpAttempts: 0,
+    });
+  },
+
+  /**
+   * Reserva as sessões cuja retomada já venceu. A reserva empurra o wakeUpAt para o fim de um lease,
+   * então cada sessão é retomada por um único processo; se o processo cair ou o handler falhar,
+   * a sessão volta a vencer quando o lease expira. completeWakeUp encerra a retomada.
+   * Cada reserva conta uma tentativa; esgotadas as tentativas, a sessão é marcada como falha.
+   */
+  async claimDueWakeUps(limit: number = 50) {
+    const now = new Date();
+    const dueSessions = await prisma.interactiveCampaignSession.findMany({
+      where: {
+        status: 'ACTIVE',
+        wakeUpAt: { lte: now },
+      },
+      select: { id: true, campaignId: true, wakeUpAt: true, wakeUpNodeId: true, wakeUpAttempts: true, currentNodeId: true },
+      orderBy: { wakeUpAt: 'asc' },
+      take: limit,
+    });
+
+    const claimed: Array<{ sessionId: string; nodeId: string; leaseUntil: Date; attempts: number }> = [];
+    const leaseUntil = new Date(now.getTime() + WAKE_UP_LEASE_MS);
+
+    for (const session of dueSessions) {
+      // Sessão que saiu do nó da retomada (ex: respondeu antes) não é retomada: apenas limpa o agendamento
+      if (!session.wakeUpNodeId || session.wakeUpNodeId !== session.currentNodeId) {
+        await prisma.interactiveCampaignSession.updateMany({
+          where: { id: session.id, wakeUpAt: session.wakeUpAt },
+          data: { wakeUpAt: null, wakeUpNodeId: null, wakeUpAttempts: 0 },
+        });
+        continue;
+      }
+
+      if (session.wakeUpAttempts >= WAKE_UP_MAX_ATTEMPTS) {
+        const result = await prisma.interactiveCampaignSession.updateMany({
+          where: { id: session.id, wakeUpAt: session.wakeUpAt },
+          data: { status: 'FAILED', wakeUpAt: null, wakeUpNodeId: null },
+        });
+
+        if (result.count === 1) {
+          console.error(`❌ Session ${session.id} failed after ${session.wakeUpAttempts} wake-up attempts on node ${session.wakeUpNodeId}`);
+          await this.checkAndCompleteCampaign(session.campaignId);
+        }
+        continue;
+      }
+
+      const attempts = session.wakeUpAttempts + 1;
+      const result = await prisma.interactiveCampaignSession.updateMany({
+        where: { id: session.id, wakeUpAt: session.wakeUpAt },
+        data: { wakeUpAt: leaseUntil, wakeUpAttempts: attempts },
+      });
+
+      if (result.count === 1) {
+        claimed.push({ sessionId: session.id, nodeId: session.wakeUpNodeId, leaseUntil, attempts });
+      }
+    }
+
+    return claimed;
+  },
+
+  /**
+   * Encerra uma retomada processada. Se o handler já agendou outra retomada ou mudou de nó,
+   * o wakeUpAt não é mais o do lease e nada é alterado.
+   */
+  async completeWakeUp(sessionId: string, leaseUntil: Date) {
+    await prisma.interactiveCampaignSession.updateMany({
+      where: { id: sessionId, wakeUpAt: leaseUntil },
+      data: { wakeUpAt: null, wakeUpNodeId: null, wakeUpAttempts: 0 },
+    });
+  },
+
+  /**
+   * Devolve uma retomada que falhou ao nó que a agendou, mantendo o lease: a sessão volta a vencer
+   * quando ele expira. O handler pode ter avançado de nó antes do erro (o que limpa o wakeUpAt);
+   * sem voltar ao nó da retomada, a sessão ficaria parada sem nada que a acordasse.
+   */
+  async releaseFailedWakeUp(sessionId: string, nodeId: string, leaseUntil: Date, attempts: number) {
+    await prisma.interactiveCampaignSession.updateMany({
+      where: {
+        id: sessionId,
+        status: 'ACTIVE',
+        OR: [{ wakeUpAt: leaseUntil }, { wakeUpAt: null }],
+      },
+      data: { currentNodeId: nodeId, wakeUpAt: leaseUntil, wakeUpNodeId: nodeId, wakeUpAttempts: attempts },
+    });
+  },
+
+  /**
+   * Quantidade de contatos aguardando em cada nó de delay de uma campanha.
+   * Timeouts de nós que aguardam resposta usam os mesmos campos e ficam de fora (somente os nós informados).
+   */
+  async getWaitingByDelayNode(campaignId: string, delayNodeIds: string[]) {
+    if (delayNodeIds.length === 0) {
+      return [];
+    }
+
+    const groups = await prisma.interactiveCampaignSession.groupBy({
+      by: ['wakeUpNodeId'],
+      where: {
+        campaignId,
+        status: 'ACTIVE',
+        wakeUpAt: { not: null },
+        wakeUpNodeId: { in: delayNodeIds },
+      },
+      _count: { _all: true },
+      _min: { wakeUpAt: true },
+    });
+
+    return groups
+      .filter(group => group.wakeUpNodeId)
+      .map(group => ({
+        nodeId: group.wakeUpNodeId as string,
+        waiting: group._count._all,
+        nextWakeUpAt: group._min.wakeUpAt,
+      }));
+  },
+
   /**
    * Registra que um nó foi visitado/enviado
    */
@@ -0,0 +1,392 @@
+/**
+ * Interactive Campaign Simulator
+ * Executa o grafo de uma campanha interativa em modo dry-run (sem enviar nada aos providers)
+ * seguindo as mesmas regras de navegação do dispatch e do flow engine
+ */
+
+import { interactiveCampaignFlowEngine, MESSAGE_NODE_TYPES } from './interactiveCampaignFlowEngine';
+import { getMessageOptions } from './whatsappProviders';
+
+// Id fictício da mensagem do contato que recebe os nós de reação na simulação
+const SIMULATED_REACTION_TARGET = 'simulated-inbound-message';
+const WAITING_NODE_TYPES = ['condition', 'stop', 'waitreply'];
+
+// Proteção contra ciclos no grafo (ex: nós de mensagem ligados em loop)
+const MAX_STEPS_PER_TURN = 100;
+
+export type SimulationStatus = 'WAITING' | 'COMPLETED' | 'ERROR';
+
+export interface SimulationOptions {
+  contactName?: string;
+  contactPhone?: string;
+  variables?: Record<string, any>;
+  executeExternal?: boolean; // Executar HTTP REST e IA de verdade (padrão: não)
+}
+
+export interface SimulatedVisit {
+  nodeId: string;
+  nodeType: string;
+  label?: string;
+  result: 'sent' | 'executed' | 'skipped' | 'waiting' | 'evaluated' | 'completed' | 'error';
+  message?: string;
+}
+
+export interface SimulatedMessage {
+  nodeId: string;
+  nodeType: string;
+  payload: any;
+}
+
+export interface SimulatedCondition {
+  nodeId: string;
+  label?: string;
+  evaluation: Record<string, any>;
+  nextNodeId: string | null;
+}
+
+export interface SimulationStep {
+  index: number;
+  input: string | null; // null = disparo inicial da campanha
+  visitedNodes: SimulatedVisit[];
+  messages: SimulatedMessage[];
+  conditions: SimulatedCondition[];
+  variables: Record<string, any>;
+  currentNodeId: string | null;
+  status: SimulationStatus;
+}
+
+interface SimulationState {
+  graph: any;
+  currentNodeId: string | null;
+  status: SimulationStatus;
+  variables: Record<string, any>;
+  lastResponse: string;
+  tenantId?: string | null;
+  options: SimulationOptions;
+}
+
+export const interactiveCampaignSimulatorService = {
+  /**
+   * Simula o disparo da campanha seguido de uma conversa roteirizada (mensagens do contato em ordem)
+   */
+  async simulate(campaign: any, inboundMessages: string[], options: SimulationOptions = {}) {
+    const graph = campaign.graph as any;
+    const state: SimulationState = {
+      graph,
+      currentNodeId: null,
+      status: 'WAITING',
+      variables: {
+        nome: options.contactName || 'Contato Teste',
+        telefone: options.contactPhone || '5500000000000',
+        ...(options.variables || {}),
+      },
+      lastResponse: '',
+      tenantId: campaign.tenantId,
+      options,
+    };
+
+    const steps: SimulationStep[] = [];
+    steps.push(await this.simulateDispatch(state));
+
+    for (const text of inboundMessages) {
+      if (state.status !== 'WAITING') {
+        break;
+      }
+      steps.push(await this.simulateInbound(state, text, steps.length));
+    }
+
+    return {
+      status: state.status,
+      currentNodeId: state.currentNodeId,
+      variables: state.variables,
+      steps,
+      unprocessedMessages: inboundMessages.slice(Math.max(steps.length - 1, 0)),
+    };
+  },
+
+  /**
+   * Simula o disparo inicial: primeiro nó após o trigger e nós subsequentes até um ponto de parada
+   */
+  async simulateDispatch(state: SimulationState): Promise<SimulationStep> {
+    const step = this.createStep(0, null);
+    const triggerNode = state.graph.nodes?.find((n: any) => n.data?.nodeType === 'trigger');
+
+    if (!triggerNode) {
+      state.status = 'ERROR';
+      step.visitedNodes.push({ nodeId: '', nodeType: 'trigger', result: 'error', message: 'Campanha não tem nó Trigger' });
+      return this.finishStep(step, state);
+    }
+
+    step.visitedNodes.push(this.visit(triggerNode, 'executed', 'Campanha disparada para o contato'));
+
+    const firstEdge = state.graph.edges?.find((e: any) => e.source === triggerNode.id);
+    const firstNode = firstEdge ? state.graph.nodes?.find((n: any) => n.id === firstEdge.target) : null;
+
+    if (!firstNode) {
+      // Sem nós conectados: a campanha apenas aguarda mensagens
+      state.currentNodeId = triggerNode.id;
+      return this.finishStep(step, state);
+    }
+
+    await this.walk(state, step, firstNode);
+    return this.finishStep(step, state);
+  },
+
+  /**
+   * Simula o recebimento de uma mensagem do contato (equivalente ao processIncomingMessage)
+   */
+  async simulateInbound(state: SimulationState, text: string, index: number): Promise<SimulationStep> {
+    const step = this.createStep(index, text);
+    const graph = state.graph;
+    const currentNode = graph.nodes?.find((n: any) => n.id === state.currentNodeId);
+
+    // A conversa roteirizada só tem textos: Aguardar Resposta que exige mídia continua aguardando
+    const requiredReplyType = currentNode?.data?.nodeType === 'waitreply' ? currentNode.data?.config?.requiredReplyType : null;
+    if (!interactiveCampaignFlowEngine.matchesReplyType('text', requiredReplyType)) {
+      step.visitedNodes.push(this.visit(currentNode, 'waiting', `Resposta em texto ignorada: o nó aguarda ${requiredReplyType}`));
+      if (currentNode.data?.config?.invalidReplyMessage) {
+        const invalidReplyNode = { id: currentNode.id, data: { nodeType: 'text', config: { content: currentNode.data.config.invalidReplyMessage } } };
+        const payload = interactiveCampaignFlowEngine.buildMessagePayload(invalidReplyNode, state.variables, null);
+        step.messages.push({ nodeId: currentNode.id, nodeType: 'text', payload });
+      }
+      return this.finishStep(step, state);
+    }
+
+    state.lastResponse = text;
+
+    // Resposta a botões/lista/enquete: número ou título da opção (a simulação não tem ids vindos do provider)
+    const selection = interactiveCampaignFlowEngine.resolveSelection(state.variables.lastOptions, text);
+    state.variables.lastOptions = null;
+    state.variables.selectedOptionId = selection?.id ?? null;
+    state.variables.selectedOptionTitle = selection?.title ?? null;
+    Object.assign(state.variables, interactiveCampaignFlowEngine.buildReplyVariables(null));
+
+    if (!currentNode) {
+      state.status = 'ERROR';
+      step.visitedNodes.push({ nodeId: state.currentNodeId || '', nodeType: 'unknown', result: 'error', message: 'Nó atual não encontrado no grafo' });
+      return this.finishStep(step, state);
+    }
+
+    const nodeType = currentNode.data?.nodeType;
+    let nextNode: any = null;
+
+    // Se o nó atual é waitreply, salvar resposta na variável configurada
+    if (nodeType === 'waitreply') {
+      const variableName = currentNode.data?.config?.variableName;
+      if (variableName) {
+        state.variables[variableName] = text;
+      }
+      step.visitedNodes.push(this.visit(currentNode, 'executed', variableName ? `Resposta salva em {{${variableName}}}` : 'Resposta recebida'));
+    }
+
+    if (nodeType === 'condition') {
+      const branch = interactiveCampaignFlowEngine.resolveConditionBranch(graph, currentNode, text, selection?.id, 'text');
+      nextNode = branch?.nextNode || null;
+
+      if (branch) {
+        Object.assign(state.variables, branch.variables);
+        step.conditions.push({
+          nodeId: currentNode.id,
+          label: currentNode.data?.customLabel || currentNode.data?.label,
+          evaluation: branch.evaluation,
+          nextNodeId: nextNode?.id || null,
+        });
+      }
+
+      step.visitedNodes.push(this.visit(currentNode, 'evaluated'));
+    } else {
+      const outgoingEdge = graph.edges?.find((e: any) => e.source === currentNode.id);
+      nextNode = outgoingEdge ? graph.nodes?.find((n: any) => n.id === outgoingEdge.target) : null;
+    }
+
+    if (!nextNode) {
+      state.status = 'COMPLETED';
+      return this.finishStep(step, state);
+    }
+
+    // Nós de espera alcançados por uma resposta aguardam a próxima mensagem
+    if (WAITING_NODE_TYPES.includes(nextNode.data?.nodeType)) {
+      this.stopAt(state, step, nextNode);
+      return this.finishStep(step, state);
+    }
+
+    await this.walk(state, step, nextNode);
+    return this.finishStep(step, state);
+  },
+
+  /**
+   * Percorre o fluxo a partir de um nó até encontrar um ponto de parada ou o fim do grafo
+   */
+  async walk(state: SimulationState, step: SimulationStep, startNode: any) {
+    const graph = state.graph;
+    let node: any = startNode;
+    let count = 0;
+
+    while (node) {
+      if (++count > MAX_STEPS_PER_TURN) {
+        state.status = 'ERROR';
+        step.visitedNodes.push(this.visit(node, 'error', `Limite de ${MAX_STEPS_PER_TURN} nós por interação atingido (possível loop)`));
+        return;
+      }
+
+      const nodeType = node.data?.nodeType;
+      state.currentNodeId = node.id;
+
+      if (WAITING_NODE_TYPES.includes(nodeType)) {
+        this.stopAt(state, step, node);
+        return;
+      }
+
+      let nextNode: any;
+
+      if (MESSAGE_NODE_TYPES.includes(nodeType)) {
+        await this.simulateMessageNode(state, step, node);
+        if (state.status === 'ERROR') return;
+        nextNode = this.getNextNode(graph, node);
+      } else if (nodeType === 'httprest') {
+        const success = await this.simulateHttpRestNode(state, step, node);
+        nextNode = interactiveCampaignFlowEngine.getHttpRestNextNode(graph, node, success);
+      } else if (nodeType === 'delay') {
+        const delaySeconds = interactiveCampaignFlowEngine.getDelaySeconds(node);
+        step.visitedNodes.push(this.visit(node, 'executed', `Aguardaria ${delaySeconds}s`));
+        nextNode = this.getNextNode(graph, node);
+      } else if (nodeType === 'integration_perfex' || nodeType === 'integration_chatwoot') {
+        step.visitedNodes.push(this.visit(node, 'skipped', 'Integração não executada na simulação'));
+        nextNode = this.getNextNode(graph, node);
+      } else {
+        step.visitedNodes.push(this.visit(node, 'skipped', `Tipo de nó não processado: ${nodeType}`));
+        nextNode = this.getNextNode(graph, node);
+      }
+
+      node = nextNode;
+    }
+
+    // Sem próximo nó: aguardar resposta no último nó (mesmo comportamento da sessão real)
+  },
+
+  /**
+   * Gera a mensagem que seria enviada por um nó de mensagem
+   */
+  async simulateMessageNode(state: SimulationState, step: SimulationStep, node: any) {
+    const config = node.data?.config;
+
+    if (!config) {
+      step.visitedNodes.push(this.visit(node, 'skipped', 'Nó não configurado'));
+      return;
+    }
+
+    let aiGeneratedText: string | null = null;
+
+    if (node.data?.nodeType === 'ai') {
+      if (state.options.executeExternal) {
+        try {
+          aiGeneratedText = await interactiveCampaignFlowEngine.generateAINodeResponse(node, {
+            variables: state.variables,
+            lastResponse: state.lastResponse,
+            tenantId: state.tenantId,
+          });
+        } catch (error: any) {
+          state.status = 'ERROR';
+          step.visitedNodes.push(this.visit(node, 'error', error.message));
+          return;
+        }
+      } else {
+        aiGeneratedText = `[Resposta da IA: ${interactiveCampaignFlowEngine.replaceVariables(config.prompt || '', {
+          ...state.variables,
+          mensagem_usuario: state.lastResponse,
+        })}]`;
+      }
+
+      if (config.outputMode === 'variable') {
+        const variableName = config.outputVariable || 'resposta_ia';
+        state.variables[variableName] = aiGeneratedText;
+        step.visitedNodes.push(this.visit(node, 'executed', `Resposta salva em {{${variableName}}}`));
+        return;
+      }
+    }
+
+    let payload: any;
+    try {
+      payload = interactiveCampaignFlowEngine.buildMessagePayload(node, state.variables, aiGeneratedText, SIMULATED_REACTION_TARGET);
+    } catch (error: any) {
+      state.status = 'ERROR';
+      step.visitedNodes.push(this.visit(node, 'error', error.message));
+      return;
+    }
+
+    if (!payload) {
+      step.visitedNodes.push(this.visit(node, 'skipped', 'Nenhuma mensagem gerada'));
+      return;
+    }
+
+    const options = getMessageOptions(payload);
+    if (options.length > 0) {
+      state.variables.lastOptions = options.map(({ id, title }) => ({ id, title }));
+    }
+
+    step.messages.push({ nodeId: node.id, nodeType: node.data?.nodeType, payload });
+    step.visitedNodes.push(this.visit(node, 'sent'));
+  },
+
+  /**
+   * Executa (ou simula) um nó HTTP REST e retorna se a saída é de sucesso
+   */
+  async simulateHttpRestNode(state: SimulationState, step: SimulationStep, node: any): Promise<boolean> {
+    if (!state.options.executeExternal) {
+      step.visitedNodes.push(this.visit(node, 'skipped', 'Requisição não executada na simulação, seguindo saída de sucesso'));
+      return true;
+    }
+
+    const result = await interactiveCampaignFlowEngine.performHttpRequest(node, state.variables);
+    Object.assign(state.variables, result.variables);
+    step.visitedNodes.push(this.visit(node, result.success ? 'executed' : 'error', result.error || `HTTP ${result.status}`));
+    return result.success;
+  },
+
+  stopAt(state: SimulationState, step: SimulationStep, node: any) {
+    state.currentNodeId = node.id;
+
+    if (node.data?.nodeType === 'stop') {
+      state.status = 'COMPLETED';
+      step.visitedNodes.push(this.visit(node, 'completed', 'Fim do fluxo'));
+      return;
+    }
+
+    step.visitedNodes.push(this.visit(node, 'waiting', 'Aguardando resposta do contato'));
+  },
+
+  getNextNode(graph: any, node: any) {
+    const edge = interactiveCampaignFlowEngine.getReplyEdge(graph, node.id);
+    return edge ? graph.nodes?.find((n: any) => n.id === edge.target) || null : null;
+  },
+
+  visit(node: any, result: SimulatedVisit['result'], message?: string): SimulatedVisit {
+    return {
+      nodeId: node.id,
+      nodeType: node.data?.nodeType,
+      label: node.data?.customLabel || node.data?.label,
+      result,
+      message,
+    };
+  },
+
+  createStep(index: number, input: string | null): SimulationStep {
+    return {
+      index,
+      input,
+      visitedNodes: [],
+      messages: [],
+      conditions: [],
+      variables: {},
+      currentNodeId: null,
+      status: 'WAITING',
+    };
+  },
+
+  finishStep(step: SimulationStep, state: SimulationState): SimulationStep {
+    step.variables = { ...state.variables };
+    step.currentNodeId = state.currentNodeId;
+    step.status = state.status;
+    return step;
+  },
+};
@@ -0,0 +1,513 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import os from 'os';
+
+const prisma = new PrismaClient();
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'DEAD';
+
+export interface QueueJob<T = any> {
+  id: string;
+  queue: string;
+  payload: T;
+  attempts: number;
+  maxAttempts: number;
+  groupKey: string | null;
+  tenantId: string | null;
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  delayMs?: number;
+  priority?: number;
+  maxAttempts?: number;
+  groupKey?: string | null;
+  uniqueKey?: string;
+  tenantId?: string | null;
+}
+
+export interface QueueHandlerOptions<T = any> {
+  concurrency?: number; // Jobs simultâneos desta fila neste processo
+  perGroupConcurrency?: number; // Jobs simultâneos por groupKey (ex: por sessão WhatsApp)
+  pollIntervalMs?: number;
+  backoffBaseMs?: number;
+  backoffMaxMs?: number;
+  onDead?: (job: QueueJob<T>, error: string) => Promise<void>; // Chamado quando o job esgota as tentativas
+}
+
+/**
+ * Lançado pelo handler quando o job ainda não pode rodar (ex.: orçamento de envio da sessão esgotado).
+ * O job volta para PENDING em runAt sem consumir tentativa.
+ */
+export class JobDeferredError extends Error {
+  constructor(public runAt: Date, message: string) {
+    super(message);
+    this.name = 'JobDeferredError';
+  }
+}
+
+/**
+ * Falha com política própria: sem retentativa (vai direto para a dead-letter) ou com backoff
+ * diferente do configurado na fila
+ */
+export class JobFailedError extends Error {
+  constructor(message: string, public retry: { retryable: boolean; backoffBaseMs?: number; backoffMaxMs?: number }) {
+    super(message);
+    this.name = 'JobFailedError';
+  }
+}
+
+type JobHandler<T = any> = (job: QueueJob<T>) => Promise<void>;
+
+interface RegisteredQueue {
+  handler: JobHandler;
+  options: Required<Omit<QueueHandlerOptions, 'onDead'>> & Pick<QueueHandlerOptions, 'onDead'>;
+  active: number;
+  polling: boolean;
+  timer: NodeJS.Timeout | null;
+}
+
+// Jobs RUNNING sem atualização há mais tempo que isso são considerados órfãos (processo reiniciado/caiu)
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '600000');
+const RECOVERY_INTERVAL_MS = 60000;
+// Jobs avaliados por reserva quando os primeiros estão em grupos já ocupados
+const CLAIM_CANDIDATES = 10;
+
+// Dono de um job RUNNING: a conclusão/falha só é gravada se o lock ainda for deste dono
+interface JobLock {
+  lockedBy: string | null;
+  lockedAt?: Date | null;
+}
+
+interface ClaimedJobRow {
+  id: string;
+  queue: string;
+  payload: any;
+  attempts: number;
+  maxAttempts: number;
+  groupKey: string | null;
+  tenantId: string | null;
+}
+
+class JobQueueService {
+  private queues: Map<string, RegisteredQueue> = new Map();
+  private isRunning = false;
+  private recoveryTimer: NodeJS.Timeout | null = null;
+  private workerId = `${os.hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+
+  /**
+   * Registra o handler de uma fila. Os workers começam a consumir após start().
+   */
+  registerHandler<T = any>(queue: string, handler: JobHandler<T>, options: QueueHandlerOptions<T> = {}) {
+    this.queues.set(queue, {
+      handler,
+      options: {
+        concurrency: options.concurrency ?? 5,
+        perGroupConcurrency: options.perGroupConcurrency ?? 1,
+        pollIntervalMs: options.pollIntervalMs ?? 2000,
+        backoffBaseMs: options.backoffBaseMs ?? 30000,
+        backoffMaxMs: options.backoffMaxMs ?? 30 * 60000,
+        onDead: options.onDead,
+      },
+      active: 0,
+      polling: false,
+      timer: null,
+    });
+
+    if (this.isRunning) {
+      this.startQueue(queue);
+    }
+  }
+
+  start() {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`🧵 Job queue iniciada (worker ${this.workerId})`);
+
+    // Devolver à fila jobs que ficaram presos em RUNNING por um processo anterior
+    this.recoverStaleJobs();
+    this.recoveryTimer = setInterval(() => this.recoverStaleJobs(), RECOVERY_INTERVAL_MS);
+
+    for (const queue of this.queues.keys()) {
+      this.startQueue(queue);
+    }
+  }
+
+  stop() {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    console.log('🧵 Job queue parada');
+
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+
+    for (const registered of this.queues.values()) {
+      if (registered.timer) {
+        clearInterval(registered.timer);
+        registered.timer = null;
+      }
+    }
+  }
+
+  /**
+   * Adiciona um job à fila. Com uniqueKey, um job ativo (PENDING/RUNNING) existente é reaproveitado
+   * e um job já finalizado é reagendado.
+   */
+  async enqueue(queue: string, payload: any, options: EnqueueOptions = {}) {
+    const runAt = options.runAt || new Date(Date.now() + (options.delayMs || 0));
+    const data = {
+      queue,
+      payload,
+      status: 'PENDING',
+      priority: options.priority ?? 0,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? 5,
+      runAt,
+      groupKey: options.groupKey ?? null,
+      tenantId: options.tenantId ?? null,
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      completedAt: null,
+    };
+
+    if (!options.uniqueKey) {
+      return prisma.job.create({ data });
+    }
+
+    const existing = await prisma.job.findUnique({ where: { uniqueKey: options.uniqueKey } });
+
+    if (existing && ['PENDING', 'RUNNING'].includes(existing.status)) {
+      return existing;
+    }
+
+    if (existing) {
+      return prisma.job.update({ where: { id: existing.id }, data });
+    }
+
+    try {
+      return await prisma.job.create({ data: { ...data, uniqueKey: options.uniqueKey } });
+    } catch (error) {
+      // Outro processo criou o mesmo job ao mesmo tempo
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.job.findUnique({ where: { uniqueKey: options.uniqueKey } });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Quantidade de jobs por fila e status (opcionalmente filtrado por tenant)
+   */
+  async getStats(tenantId?: string) {
+    const groups = await prisma.job.groupBy({
+      by: ['queue', 'status'],
+      where: tenantId ? { tenantId } : {},
+      _count: { _all: true },
+    });
+
+    const stats: Record<string, Record<string, number>> = {};
+    for (const group of groups) {
+      stats[group.queue] = stats[group.queue] || {};
+      stats[group.queue][group.status] = group._count._all;
+    }
+    return stats;
+  }
+
+  /**
+   * Lista jobs na dead-letter (esgotaram as tentativas)
+   */
+  async listDeadJobs(tenantId?: string, queue?: string, limit = 50) {
+    return prisma.job.findMany({
+      where: {
+        status: 'DEAD',
+        ...(tenantId ? { tenantId } : {}),
+        ...(queue ? { queue } : {}),
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: Math.min(limit, 200),
+    });
+  }
+
+  /**
+   * Devolve jobs DEAD para a fila com as tentativas zeradas
+   */
+  async retryDeadJobs(tenantId?: string, jobIds?: string[]) {
+    const result = await prisma.job.updateMany({
+      where: {
+        status: 'DEAD',
+        ...(tenantId ? { tenantId } : {}),
+        ...(jobIds && jobIds.length > 0 ? { id: { in: jobIds } } : {}),
+      },
+      data: { status: 'PENDING', attempts: 0, runAt: new Date(), lastError: null },
+    });
+
+    if (result.count > 0) {
+      console.log(`🔁 ${result.count} job(s) da dead-letter devolvidos à fila`);
+    }
+    return result.count;
+  }
+
+  /**
+   * Renova o lock de um job em execução. Jobs longos (ex: importações) devem chamar periodicamente
+   * para não serem considerados órfãos pela recuperação de locks.
+   */
+  async heartbeat(jobId: string) {
+    await prisma.job.updateMany({
+      where: { id: jobId, status: 'RUNNING', lockedBy: this.workerId },
+      data: { lockedAt: new Date() },
+    });
+  }
+
+  private startQueue(queue: string) {
+    const registered = this.queues.get(queue);
+    if (!registered || registered.timer) {
+      return;
+    }
+
+    registered.timer = setInterval(() => this.poll(queue), registered.options.pollIntervalMs);
+    this.poll(queue);
+  }
+
+  /**
+   * Preenche os slots livres da fila com jobs prontos para executar
+   */
+  private async poll(queue: string) {
+    const registered = this.queues.get(queue);
+    if (!registered || registered.polling || !this.isRunning) {
+      return;
+    }
+
+    registered.polling = true;
+    try {
+      while (this.isRunning && registered.active < registered.options.concurrency) {
+        const job = await this.claimNext(queue, registered.options.perGroupConcurrency);
+        if (!job) {
+          break;
+        }
+
+        registered.active++;
+        this.runJob(registered, job).finally(() => {
+          registered.active--;
+          // Slot liberado: buscar o próximo job sem esperar o intervalo
+          setImmediate(() => this.poll(queue));
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Erro ao buscar jobs da fila ${queue}:`, error);
+    } finally {
+      registered.polling = false;
+    }
+  }
+
+  /**
+   * Reserva atomicamente o próximo job da fila respeitando o limite por groupKey.
+   * SKIP LOCKED permite vários workers/processos consumindo a mesma fila; a contagem de jobs
+   * RUNNING do grupo é feita sob um advisory lock do grupo, então dois workers não ocupam a mesma vaga.
+   */
+  private async claimNext(queue: string, perGroupConcurrency: number): Promise<QueueJob | null> {
+    return prisma.$transaction(async (tx) => {
+      const candidates = await tx.$queryRaw<Array<{ id: string; groupKey: string | null }>>`
+        SELECT j.id, j.group_key AS "groupKey" FROM jobs j
+        WHERE j.queue = ${queue}
+          AND j.status = 'PENDING'
+          AND j.run_at <= NOW()
+          AND (
+            j.group_key IS NULL
+            OR (SELECT COUNT(*) FROM jobs r WHERE r.group_key = j.group_key AND r.status = 'RUNNING') < ${perGroupConcurrency}
+          )
+        ORDER BY j.priority DESC, j.run_at ASC
+        LIMIT ${CLAIM_CANDIDATES}
+        FOR UPDATE SKIP LOCKED
+      `;
+
+      for (const candidate of candidates) {
+        if (candidate.groupKey) {
+          // Outro worker reservando no mesmo grupo: tenta o próximo candidato (sem esperar, evita deadlock entre grupos)
+          const [lock] = await tx.$queryRaw<Array<{ locked: boolean }>>`
+            SELECT pg_try_advisory_xact_lock(hashtext(${candidate.groupKey})) AS locked
+          `;
+          if (!lock?.locked) {
+            continue;
+          }
+
+          const [group] = await tx.$queryRaw<Array<{ running: number }>>`
+            SELECT COUNT(*)::int AS running FROM jobs WHERE group_key = ${candidate.groupKey} AND status = 'RUNNING'
+          `;
+          if ((group?.running ?? 0) >= perGroupConcurrency) {
+            continue;
+          }
+        }
+
+        const rows = await tx.$queryRaw<ClaimedJobRow[]>`
+          UPDATE jobs
+          SET status = 'RUNNING', locked_at = NOW(), locked_by = ${this.workerId}, attempts = attempts + 1, updated_at = NOW()
+          WHERE id = ${candidate.id}
+          RETURNING id, queue, payload, attempts, max_attempts AS "maxAttempts", group_key AS "groupKey", tenant_id AS "tenantId"
+        `;
+
+        return rows[0] || null;
+      }
+
+      return null;
+    });
+  }
+
+  private async runJob(registered: RegisteredQueue, job: QueueJob) {
+    const lock: JobLock = { lockedBy: this.workerId };
+
+    try {
+      await registered.handler(job);
+
+      await this.updateLockedJob(job, lock, {
+        status: 'COMPLETED', completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null,
+      });
+    } catch (error: any) {
+      if (error instanceof JobDeferredError) {
+        await this.deferJob(job, lock, error);
+        return;
+      }
+      await this.failJob(registered, job, lock, error?.message || String(error), error instanceof JobFailedError ? error.retry : undefined);
+    }
+  }
+
+  /**
+   * Grava o resultado de um job RUNNING somente se ele ainda pertence ao lock informado.
+   * Se o lock venceu e a recuperação devolveu o job para a fila (ou outro worker o pegou),
+   * o resultado desta execução é descartado para não sobrescrever o estado da nova execução.
+   */
+  private async updateLockedJob(job: QueueJob, lock: JobLock, data: Prisma.JobUpdateManyMutationInput) {
+    const result = await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING', ...lock },
+      data,
+    });
+
+    if (result.count === 0) {
+      console.warn(`⚠️ Job ${job.id} (${job.queue}) perdeu o lock de ${lock.lockedBy || 'desconhecido'}: resultado descartado`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Reagenda o job sem contar a tentativa (claimNext já a incrementou)
+   */
+  private async deferJob(job: QueueJob, lock: JobLock, deferral: JobDeferredError) {
+    try {
+      const updated = await this.updateLockedJob(job, lock, {
+        status: 'PENDING',
+        runAt: deferral.runAt,
+        attempts: { decrement: 1 },
+        lockedAt: null,
+        lockedBy: null,
+        lastError: deferral.message,
+      });
+      if (!updated) {
+        return;
+      }
+      console.log(`⏳ Job ${job.id} (${job.queue}) adiado para ${deferral.runAt.toISOString()}: ${deferral.message}`);
+    } catch (error) {
+      console.error(`❌ Erro ao adiar job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Reagenda o job com backoff exponencial ou o move para a dead-letter
+   */
+  private async failJob(registered: RegisteredQueue, job: QueueJob, lock: JobLock, errorMessage: string, retry?: JobFailedError['retry']) {
+    try {
+      if (job.attempts >= job.maxAttempts || retry?.retryable === false) {
+        const updated = await this.updateLockedJob(job, lock, {
+          status: 'DEAD', lockedAt: null, lockedBy: null, lastError: errorMessage,
+        });
+        if (!updated) {
+          return;
+        }
+        console.error(`💀 Job ${job.id} (${job.queue}) movido para dead-letter após ${job.attempts} tentativa(s): ${errorMessage}`);
+
+        if (registered.options.onDead) {
+          await registered.options.onDead(job, errorMessage);
+        }
+        return;
+      }
+
+      const delay = this.getBackoffDelay(
+        job.attempts,
+        retry?.backoffBaseMs ?? registered.options.backoffBaseMs,
+        retry?.backoffMaxMs ?? registered.options.backoffMaxMs
+      );
+      const updated = await this.updateLockedJob(job, lock, {
+        status: 'PENDING',
+        runAt: new Date(Date.now() + delay),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: errorMessage,
+      });
+      if (!updated) {
+        return;
+      }
+      console.warn(`🔁 Job ${job.id} (${job.queue}) falhou (tentativa ${job.attempts}/${job.maxAttempts}), nova tentativa em ${Math.round(delay / 1000)}s: ${errorMessage}`);
+    } catch (error) {
+      console.error(`❌ Erro ao registrar falha do job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * base * 2^(tentativa-1), limitado ao máximo, com até 20% de jitter
+   */
+  private getBackoffDelay(attempts: number, baseMs: number, maxMs: number) {
+    const delay = Math.min(baseMs * Math.pow(2, Math.max(attempts - 1, 0)), maxMs);
+    return Math.round(delay + delay * 0.2 * Math.random());
+  }
+
+  /**
+   * Jobs travados em RUNNING (processo reiniciado durante a execução) voltam para a fila
+   */
+  private async recoverStaleJobs() {
+    try {
+      const staleJobs = await prisma.job.findMany({
+        where: {
+          status: 'RUNNING',
+          lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) },
+        },
+      });
+
+      for (const stale of staleJobs) {
+        const registered = this.queues.get(stale.queue);
+        const job: QueueJob = {
+          id: stale.id,
+          queue: stale.queue,
+          payload: stale.payload,
+          attempts: stale.attempts,
+          maxAttempts: stale.maxAttempts,
+          groupKey: stale.groupKey,
+          tenantId: stale.tenantId,
+        };
+
+        // Condicionado ao lock lido: um heartbeat ou a conclusão do worker nesse meio tempo prevalece
+        const lock: JobLock = { lockedBy: stale.lockedBy, lockedAt: stale.lockedAt };
+
+        if (registered) {
+          await this.failJob(registered, job, lock, `Job interrompido (worker ${stale.lockedBy || 'desconhecido'} não respondeu)`);
+        } else {
+          await this.updateLockedJob(job, lock, { status: 'PENDING', lockedAt: null, lockedBy: null });
+        }
+      }
+
+      if (staleJobs.length > 0) {
+        console.log(`♻️ ${staleJobs.length} job(s) órfão(s) recuperado(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Erro ao recuperar jobs órfãos:', error);
+    }
+  }
+}
+
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,207 @@
+import { PrismaClient, CampaignMessage } from '@prisma/client';
+import { domainEvents } from './domainEventService';
+import { campaignRetryService } from './campaignRetryService';
+import { getProvider, isSupportedProvider, MessageAck } from './whatsappProviders';
+import { providerMessageKeyId } from './whatsappProviders/utils';
+
+const prisma = new PrismaClient();
+
+// Ordem do funil: um ack nunca pode fazer o status da mensagem regredir
+const STATUS_RANK: Record<string, number> = {
+  PENDING: 0,
+  SENT: 1,
+  DELIVERED: 2,
+  READ: 3,
+};
+
+// Status a partir dos quais um ack pode avançar a mensagem (SENT ou acima, abaixo do status do ack)
+function statusesBelow(status: string): string[] {
+  return Object.keys(STATUS_RANK).filter(name => STATUS_RANK[name] >= STATUS_RANK.SENT && STATUS_RANK[name] < STATUS_RANK[status]);
+}
+
+// Falha de entrega só é aceita enquanto a mensagem não foi lida
+const FAILABLE_STATUSES = ['SENT', 'DELIVERED'];
+
+export const messageAckService = {
+  /**
+   * Extrai confirmações de entrega/leitura do payload de webhook de um provider.
+   * Retorna null quando o payload não é um evento de ack.
+   */
+  parseAck(provider: string, payload: any): MessageAck[] | null {
+    if (!isSupportedProvider(provider)) {
+      return null;
+    }
+
+    try {
+      return getProvider(provider).parseAck(payload);
+    } catch (error) {
+      console.error(`❌ Erro ao interpretar ack do provider ${provider}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * Aplica uma confirmação às mensagens de campanha com o mesmo messageId,
+   * avançando o status SENT → DELIVERED → READ (ou marcando FAILED) e disparando os triggers de automação
+   */
+  async applyAck(ack: MessageAck): Promise<number> {
+    // Ack e envio podem usar formatos diferentes do id (ex.: WAHA serializado x só a chave): casar pela chave indexada
+    const keyId = providerMessageKeyId(ack.messageId);
+
+    const messages = await prisma.campaignMessage.findMany({
+      where: {
+        OR: [
+          { messageId: ack.messageId },
+          { messageKeyId: keyId },
+        ],
+      },
+    });
+
+    await this.applyAckToConversation(ack, keyId);
+
+    let updatedCount = 0;
+
+    for (const message of messages) {
+      if (ack.status === 'FAILED') {
+        if (await this.applyFailedAck(message, ack)) {
+          updatedCount++;
+        }
+        continue;
+      }
+
+      if ((STATUS_RANK[message.status] ?? -1) < STATUS_RANK.SENT || STATUS_RANK[ack.status] <= STATUS_RANK[message.status]) {
+        continue;
+      }
+
+      const data: any = { status: ack.status };
+      if (!message.deliveredAt) {
+        data.deliveredAt = ack.timestamp;
+      }
+      if (ack.status === 'READ') {
+        data.readAt = ack.timestamp;
+      }
+
+      // Condicional no banco: acks simultâneos ou fora de ordem não fazem o status regredir (ex.: READ → DELIVERED)
+      const result = await prisma.campaignMessage.updateMany({
+        where: { id: message.id, status: { in: statusesBelow(ack.status) } },
+        data,
+      });
+      if (result.count === 0) {
+        continue;
+      }
+      updatedCount++;
+
+      console.log(`📬 CampaignMessage ${message.id} (${message.contactPhone}): ${message.status} → ${ack.status}`);
+
+      const eventData = {
+        campaignId: message.campaignId,
+        campaignMessageId: message.id,
+        contactId: message.contactId,
+        contactPhone: message.contactPhone,
+        contactName: message.contactName,
+        tenantId: message.tenantId as string,
+        messageId: message.messageId,
+        timestamp: ack.timestamp,
+      };
+
+      // Mensagem lida sem ack de entrega prévio também conta como entregue
+      if (message.status === 'SENT') {
+        domainEvents.publish('MESSAGE_DELIVERED', { ...eventData, status: 'DELIVERED' });
+      }
+      if (ack.status === 'READ') {
+        domainEvents.publish('MESSAGE_READ', { ...eventData, status: 'READ' });
+      }
+    }
+
+    return updatedCount;
+  },
+
+  /**
+   * Falha de entrega reportada depois do envio: a mensagem deixa de contar como enviada
+   */
+  async applyFailedAck(message: CampaignMessage, ack: MessageAck): Promise<boolean> {
+    const errorMessage = ack.error || 'Falha de entrega informada pelo provedor';
+    const failureClass = campaignRetryService.classifyError(new Error(errorMessage));
+
+    const result = await prisma.campaignMessage.updateMany({
+      where: { id: message.id, status: { in: FAILABLE_STATUSES } },
+      data: {
+        status: 'FAILED',
+        errorMessage,
+        failureClass,
+      },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    await prisma.campaign.update({
+      where: { id: message.campaignId },
+      data: {
+        sentCount: { decrement: 1 },
+        failedCount: { increment: 1 },
+      },
+    });
+
+    console.log(`📭 CampaignMessage ${message.id} (${message.contactPhone}): ${message.status} → FAILED (${errorMessage})`);
+
+    domainEvents.publish('MESSAGE_FAILED', {
+      campaignId: message.campaignId,
+      campaignMessageId: message.id,
+      contactId: message.contactId,
+      contactPhone: message.contactPhone,
+      contactName: message.contactName,
+      tenantId: message.tenantId as string,
+      messageId: message.messageId,
+      status: 'FAILED',
+      failureClass,
+      error: errorMessage,
+      timestamp: ack.timestamp,
+    });
+
+    return true;
+  },
+
+  /**
+   * Atualiza o status das mensagens de saída da caixa de entrada (sent → delivered → read | failed)
+   */
+  async applyAckToConversation(ack: MessageAck, keyId: string): Promise<number> {
+    const allowedFrom = ack.status === 'DELIVERED' ? ['sent'] : ['sent', 'delivered'];
+
+    const result = await prisma.message.updateMany({
+      where: {
+        direction: 'OUTBOUND',
+        status: { in: allowedFrom },
+        OR: [
+          { providerMessageId: ack.messageId },
+          { providerKeyId: keyId },
+        ],
+      },
+      data: { status: ack.status.toLowerCase() },
+    });
+
+    return result.count;
+  },
+
+  /**
+   * Interpreta e aplica os acks de um webhook. Retorna true se o payload era um evento de ack.
+   */
+  async handleWebhookAck(provider: string, payload: any): Promise<boolean> {
+    const acks = this.parseAck(provider, payload);
+
+    if (acks === null) {
+      return false;
+    }
+
+    for (const ack of acks) {
+      try {
+        await this.applyAck(ack);
+      } catch (error: any) {
+        console.error(`❌ Erro ao aplicar ack ${ack.status} para mensagem ${ack.messageId}:`, error.message);
+      }
+    }
+
+    return true;
+  },
+};
@@ -9,6 +9,9 @@
 import { interactiveCampaignService } from './interactiveCampaignService';
 import { flowEngineService } from './flowEngineService';
 import { interactiveCampaignFlowEngine } from './interactiveCampaignFlowEngine';
+import { optOutService } from './optOutService';
+import { domainEvents } from './domainEventService';
+import { conversationService } from './conversationService';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -16,6 +19,7 @@ const prisma = new PrismaClient();
 interface InboundMessage {
   messageId: string;
   connectionId: string;
+  tenantId?: string | null;
   from: string;
   to: string;
   content?: string;
@@ -36,6 +40,11 @@ export const messageProcessorService = {
       const contactPhone = message.from.replace(/@.*$/, '').replace(/[^0-9]/g, '');
       console.log(`[MSG-PROCESSOR] 📱 Telefone normalizado: ${message.from} -> ${contactPhone}`);
 
+      // Palavra de descadastro: registrar opt-out e não disparar fluxos
+      if (await optOutService.handleInboundMessage(message.tenantId, contactPhone, message.content)) {
+        return;
+      }
+
       try {
         console.log(`[MSG-PROCESSOR] 🔄 Verificando sessão waitreply para ${contactPhone}...`);
         const flowResult = await interactiveCampaignFlowEngine.processIncomingMessage({
@@ -55,6 +64,8 @@ export const messageProcessorService = {
         console.error(`[MSG-PROCESSOR] ⚠️ Erro no flow engine:`, flowError.message);
       }
 
+      await this.publishMessageReceived(message, contactPhone);
+
       // Buscar TODAS as campanhas iniciadas
       const allCampaigns = await prisma.interactiveCampaign.findMany({
         where: { status: 'STARTED' },
@@ -158,6 +169,36 @@ export const messageProcessorService = {
     }
   },
 
+  /**
+   * Publica a mensagem para as automações de MESSAGE_RECEIVED (bots por palavra-chave)
+   */
+  async publishMessageReceived(message: InboundMessage, contactPhone: string) {
+    if (!message.tenantId) {
+      return;
+    }
+
+    try {
+      const [connection, contact] = await Promise.all([
+        prisma.connection.findUnique({ where: { id: message.connectionId }, select: { instanceName: true } }),
+        conversationService.findContactByPhone(message.tenantId, contactPhone),
+      ]);
+
+      domainEvents.publish('MESSAGE_RECEIVED', {
+        tenantId: message.tenantId,
+        contactId: contact?.id || null,
+        contactPhone: conversationService.normalizePhone(contactPhone),
+        contactName: contact?.nome || null,
+        sessionName: connection?.instanceName || message.connectionId,
+        content: message.content || '',
+        messageType: message.type,
+        messageId: message.messageId,
+        timestamp: message.timestamp,
+      });
+    } catch (error: any) {
+      console.error(`[MSG-PROCESSOR] ⚠️ Erro ao publicar mensagem recebida:`, error.message);
+    }
+  },
+
   /**
    * Executa uma ação resultante do fluxo
    */
@@ -220,12 +261,13 @@ export const messageProcessorService = {
         // Adicionar tag se não existir
         const tags = contact.tags || [];
         if (!tags.includes(data.tag)) {
-          await prisma.contact.update({
+          const updatedContact = await prisma.contact.update({
             where: { id: contact.id },
             data: {
               tags: [...tags, data.tag],
             },
           });
+          domainEvents.contactUpdated(contact, updatedContact, 'INTERACTIVE_CAMPAIGN');
         }
       }
     } catch (error) {
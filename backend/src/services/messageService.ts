@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { conversationService } from './conversationService';
 
 const prisma = new PrismaClient();
 
@@ -17,7 +18,7 @@ export const messageService = {
   /**
    * Salva uma mensagem (com idempotência por providerMessageId)
    */
-  async saveMessage(connectionId: string, data: IncomingMessageDto) {
+  async saveMessage(connectionId: string, data: IncomingMessageDto, tenantId?: string | null) {
     // Verificar se já existe (idempotência)
     const existing = await prisma.message.findUnique({
       where: { providerMessageId: data.providerMessageId },
@@ -31,6 +32,9 @@ export const messageService = {
     const message = await prisma.message.create({
       data: {
         connectionId,
+        tenantId: tenantId || null,
+        contactPhone: conversationService.normalizePhone(data.direction === 'INBOUND' ? data.from : data.to),
+        source: data.direction === 'INBOUND' ? 'CONTACT' : null,
         direction: data.direction,
         type: data.type,
         providerMessageId: data.providerMessageId,
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { websocketService } from './websocketService';
+import { templateVariableService } from './templateVariableService';
 
 const prisma = new PrismaClient();
 
@@ -218,13 +219,14 @@ export class MessageTemplateService {
       let processedContent = template.content;
       const variablesUsed: { [key: string]: string } = {};
 
-      // Substituir variáveis do contato
+      // Substituir variáveis do contato (campos nativos e personalizados do tenant)
       if (contactData) {
+        const contactVariables = await templateVariableService.getContactVariables(contactData, tenantId);
         processedContent = processedContent.replace(/\{\{(\w+)\}\}/g, (match: string, varName: string) => {
-          const contactField = this.getContactField(contactData, varName);
-          if (contactField !== null) {
-            variablesUsed[varName] = contactField;
-            return contactField;
+          // Campo sem valor vira texto vazio (o {{campo}} não pode chegar ao contato)
+          if (Object.prototype.hasOwnProperty.call(contactVariables, varName)) {
+            variablesUsed[varName] = contactVariables[varName];
+            return contactVariables[varName];
           }
           return match; // Manter original se não encontrou
         });
@@ -349,18 +351,6 @@ export class MessageTemplateService {
     return variables;
   }
 
-  // Buscar campo do contato
-  private getContactField(contactData: any, fieldName: string): string | null {
-    const fieldMap: { [key: string]: string } = {
-      'nome': contactData.nome,
-      'telefone': contactData.telefone,
-      'email': contactData.email,
-      'observacoes': contactData.observacoes
-    };
-
-    return fieldMap[fieldName] || null;
-  }
-
   // Obter estatísticas de templates
   public async getTemplateStats(tenantId: string): Promise<any> {
     try {
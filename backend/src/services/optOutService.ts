@@ -0,0 +1,245 @@
+/**
+ * Opt-out Service
+ * Lista de supressão por tenant: contatos que pediram para não receber mais mensagens.
+ * Telefones são armazenados normalizados como a chave da conversa (somente dígitos).
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { conversationService } from './conversationService';
+import { ContactService } from './contactService';
+import { interactiveCampaignSessionService } from './interactiveCampaignSessionService';
+
+const prisma = new PrismaClient();
+
+export const DEFAULT_OPT_OUT_KEYWORDS = ['SAIR', 'PARAR', 'STOP', 'CANCELAR', 'DESCADASTRAR'];
+
+export type SuppressionReason = 'KEYWORD' | 'MANUAL' | 'IMPORT';
+
+// Status registrado em mensagens de campanha e sessões interativas não enviadas por opt-out
+export const OPT_OUT_STATUS = 'SKIPPED_OPTOUT';
+
+interface SuppressOptions {
+  reason?: SuppressionReason;
+  keyword?: string | null;
+  note?: string | null;
+  createdBy?: string | null;
+}
+
+/**
+ * Compara palavras sem acentos, caixa ou pontuação nas pontas ("Sair!" -> "SAIR")
+ */
+function normalizeKeyword(value: string): string {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .trim()
+    .replace(/^[^A-Z0-9]+|[^A-Z0-9]+$/g, '');
+}
+
+function escapeCsv(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const optOutService = {
+  /**
+   * Números digitados sem DDI (lista importada/manual) recebem o código do Brasil como no cadastro de contatos
+   */
+  normalizePhone(phone: string): string {
+    let value = String(phone || '');
+    try {
+      value = ContactService.normalizePhone(value);
+    } catch {
+      // Já vem no formato do provider (com DDI ou JID)
+    }
+    return conversationService.normalizePhone(value);
+  },
+
+  /**
+   * Palavras de descadastro do tenant (padrão do sistema quando não configuradas)
+   */
+  async getKeywords(tenantId: string): Promise<string[]> {
+    const settings = await prisma.tenantSettings.findUnique({
+      where: { tenantId },
+      select: { optOutKeywords: true },
+    });
+
+    return settings?.optOutKeywords?.length ? settings.optOutKeywords : DEFAULT_OPT_OUT_KEYWORDS;
+  },
+
+  async updateKeywords(tenantId: string, keywords: string[]): Promise<string[]> {
+    const cleaned = Array.from(new Set((keywords || []).map(normalizeKeyword).filter(Boolean)));
+
+    await prisma.tenantSettings.upsert({
+      where: { tenantId },
+      update: { optOutKeywords: cleaned },
+      create: { tenantId, optOutKeywords: cleaned },
+    });
+
+    return cleaned.length > 0 ? cleaned : DEFAULT_OPT_OUT_KEYWORDS;
+  },
+
+  /**
+   * Retorna a palavra de descadastro quando a mensagem inteira corresponde a uma delas
+   */
+  async matchKeyword(tenantId: string, content?: string | null): Promise<string | null> {
+    const normalized = normalizeKeyword(content || '');
+    if (!normalized) {
+      return null;
+    }
+
+    const keywords = await this.getKeywords(tenantId);
+    return keywords.find(keyword => normalizeKeyword(keyword) === normalized) || null;
+  },
+
+  /**
+   * Verifica uma mensagem recebida: se for uma palavra de descadastro, adiciona o telefone à lista
+   * e encerra as sessões interativas ativas do contato. Retorna true quando houve opt-out.
+   */
+  async handleInboundMessage(tenantId: string | null | undefined, fromNumber: string, content?: string | null): Promise<boolean> {
+    if (!tenantId) {
+      return false;
+    }
+
+    const keyword = await this.matchKeyword(tenantId, content);
+    if (!keyword) {
+      return false;
+    }
+
+    const phone = this.normalizePhone(fromNumber);
+    await this.suppress(tenantId, phone, { reason: 'KEYWORD', keyword });
+
+    const stopped = await interactiveCampaignSessionService.stopSessionsForOptOut(tenantId, phone);
+    console.log(`🚫 Opt-out recebido de ${phone} (palavra "${keyword}", tenant ${tenantId}) - ${stopped} sessão(ões) interativa(s) encerrada(s)`);
+
+    return true;
+  },
+
+  async isSuppressed(tenantId: string | null | undefined, phone: string): Promise<boolean> {
+    if (!tenantId) {
+      return false;
+    }
+
+    const normalized = this.normalizePhone(phone);
+    if (!normalized) {
+      return false;
+    }
+
+    const entry = await prisma.suppressedContact.findUnique({
+      where: { tenantId_phone: { tenantId, phone: normalized } },
+      select: { id: true },
+    });
+    return !!entry;
+  },
+
+  /**
+   * Adiciona um telefone à lista (idempotente: um registro existente é mantido como está)
+   */
+  async suppress(tenantId: string, phone: string, options: SuppressOptions = {}) {
+    const normalized = this.normalizePhone(phone);
+    if (normalized.length < 8) {
+      throw new Error('Telefone inválido');
+    }
+
+    return prisma.suppressedContact.upsert({
+      where: { tenantId_phone: { tenantId, phone: normalized } },
+      update: {},
+      create: {
+        tenantId,
+        phone: normalized,
+        reason: options.reason || 'MANUAL',
+        keyword: options.keyword || null,
+        note: options.note || null,
+        createdBy: options.createdBy || null,
+      },
+    });
+  },
+
+  async remove(id: string, tenantId: string) {
+    const result = await prisma.suppressedContact.deleteMany({ where: { id, tenantId } });
+    if (result.count === 0) {
+      throw new Error('Registro não encontrado');
+    }
+  },
+
+  async list(tenantId: string, options: { search?: string; page?: number; pageSize?: number } = {}) {
+    const page = Math.max(options.page || 1, 1);
+    const pageSize = Math.min(Math.max(options.pageSize || 30, 1), 200);
+    const digits = (options.search || '').replace(/\D/g, '');
+
+    const where: Prisma.SuppressedContactWhereInput = {
+      tenantId,
+      ...(digits ? { phone: { contains: digits } } : {}),
+    };
+
+    const [items, total] = await Promise.all([
+      prisma.suppressedContact.findMany({
+        where,
+        orderBy: { criadoEm: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.suppressedContact.count({ where }),
+    ]);
+
+    return { items, total, page, pageSize, totalPages: Math.ceil(total / pageSize) };
+  },
+
+  /**
+   * Importa telefones de um CSV/lista: usa a coluna "telefone"/"phone" quando houver cabeçalho,
+   * senão a primeira coluna de cada linha
+   */
+  async importFromCsv(tenantId: string, content: string, createdBy?: string) {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+    if (lines.length === 0) {
+      return { added: 0, existing: 0, invalid: 0 };
+    }
+
+    const separator = (lines[0].match(/;/g) || []).length > (lines[0].match(/,/g) || []).length ? ';' : ',';
+    const header = lines[0].split(separator).map(cell => cell.trim().replace(/^"|"$/g, '').toLowerCase());
+    const headerIndex = header.findIndex(cell => ['telefone', 'phone', 'celular', 'whatsapp'].includes(cell));
+    const hasHeader = headerIndex !== -1 || !/\d{8,}/.test(lines[0].replace(/\D/g, ''));
+    const column = Math.max(headerIndex, 0);
+
+    let added = 0;
+    let existing = 0;
+    let invalid = 0;
+
+    for (const line of lines.slice(hasHeader ? 1 : 0)) {
+      const cell = (line.split(separator)[column] || '').replace(/"/g, '');
+      const phone = this.normalizePhone(cell);
+
+      if (phone.length < 8) {
+        invalid++;
+        continue;
+      }
+
+      const created = await prisma.suppressedContact.createMany({
+        data: [{ tenantId, phone, reason: 'IMPORT', createdBy: createdBy || null }],
+        skipDuplicates: true,
+      });
+      if (created.count > 0) {
+        added++;
+      } else {
+        existing++;
+      }
+    }
+
+    console.log(`📥 Lista de supressão importada (tenant ${tenantId}): ${added} adicionados, ${existing} já existentes, ${invalid} inválidos`);
+    return { added, existing, invalid };
+  },
+
+  async exportCsv(tenantId: string): Promise<string> {
+    const items = await prisma.suppressedContact.findMany({
+      where: { tenantId },
+      orderBy: { criadoEm: 'asc' },
+    });
+
+    const lines = ['telefone,motivo,palavra,observacao,data'];
+    for (const item of items) {
+      lines.push([item.phone, item.reason, item.keyword, item.note, item.criadoEm.toISOString()].map(escapeCsv).join(','));
+    }
+    return lines.join('\n');
+  },
+};
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { tenantSettingsService } from './tenantSettingsService';
+import { domainEvents } from './domainEventService';
 
 interface PerfexLead {
   id: string;
@@ -204,7 +205,7 @@ export class PerfexService {
 
           if (existingContact) {
             // Atualizar contato existente
-            await prisma.contact.update({
+            const updatedContact = await prisma.contact.update({
               where: { id: existingContact.id },
               data: {
                 nome: lead.name || existingContact.nome,
@@ -216,11 +217,12 @@ export class PerfexService {
                 perfexLeadId: lead.id
               }
             });
+            domainEvents.contactUpdated(existingContact, updatedContact, 'PERFEX');
             updated++;
             console.log(`✅ Contato atualizado: ${lead.name || lead.email}`);
           } else {
             // Criar novo contato
-            await prisma.contact.create({
+            const createdContact = await prisma.contact.create({
               data: {
                 nome: lead.name || lead.email || 'Lead Perfex',
                 telefone: phonenumber || '',
@@ -232,6 +234,7 @@ export class PerfexService {
                 perfexLeadId: lead.id
               }
             });
+            domainEvents.contactCreated(createdContact, 'PERFEX');
             imported++;
             console.log(`✅ Contato importado: ${lead.name || lead.email}`);
           }
@@ -1,4 +1,6 @@
 import { settingsService } from './settingsService';
+import type { DownloadedMedia } from './whatsappProviders/types';
+import { downloadFromUrl } from './whatsappProviders/utils';
 
 /**
  * Detecta o mimetype baseado na URL do arquivo
@@ -105,6 +107,22 @@ export async function checkContactExistsQuepasa(sessionName: string, phone: stri
   }
 }
 
+/**
+ * Baixa o arquivo de uma mensagem recebida pelo id da mensagem
+ */
+export async function downloadMediaViaQuepasa(messageId: string, sessionToken: string): Promise<DownloadedMedia> {
+  const quepasaConfig = await settingsService.getQuepasaConfig();
+
+  if (!quepasaConfig.url || !quepasaConfig.login) {
+    throw new Error('Quepasa configuration is missing');
+  }
+
+  return downloadFromUrl(`${quepasaConfig.url}/download/${encodeURIComponent(messageId)}`, {
+    'X-QUEPASA-USER': quepasaConfig.login,
+    'X-QUEPASA-TOKEN': sessionToken
+  });
+}
+
 /**
  * Configura webhook no QuePasa após a conexão
  */
@@ -0,0 +1,595 @@
+/**
+ * Recurring Campaign Service
+ * Definições de campanhas recorrentes (cron ou RRULE). A cada ocorrência uma nova Campaign
+ * é materializada com os contatos das categorias no momento da execução; o envio segue
+ * pelo fluxo normal do campaignSchedulerService.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getZonedParts, isValidTimezone, zonedTimeToUtc } from '../lib/timezone';
+import { sendingWindowService, DEFAULT_SENDING_TIMEZONE } from './sendingWindowService';
+import { websocketService } from './websocketService';
+
+const prisma = new PrismaClient();
+
+export type RecurrenceScheduleType = 'CRON' | 'RRULE';
+
+export interface RecurrenceSchedule {
+  scheduleType: RecurrenceScheduleType;
+  scheduleExpression: string;
+  timezone: string;
+  startDate: Date;
+  endDate?: Date | null;
+}
+
+export interface RecurringCampaignInput {
+  nome?: string;
+  targetTags?: string[];
+  sessionNames?: string[];
+  messageType?: string;
+  messageContent?: any;
+  randomDelay?: number;
+  sendingWindow?: unknown;
+  scheduleType?: RecurrenceScheduleType;
+  scheduleExpression?: string;
+  timezone?: string;
+  startDate?: string | Date;
+  endDate?: string | Date | null;
+}
+
+interface CompiledSchedule {
+  matchesDay: (dayNumber: number, month: number, day: number, weekday: number) => boolean;
+  times: number[]; // minutos desde a meia-noite, ordenados
+  count?: number;
+  until?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Limite de busca da próxima ocorrência (expressões que quase nunca ocorrem)
+const MAX_LOOKAHEAD_DAYS = 5 * 366;
+
+const RRULE_WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+function parseIntStrict(value: string, label: string, min: number, max: number): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Valor inválido em ${label}: ${value}`);
+  }
+  const parsed = parseInt(value, 10);
+  if (parsed < min || parsed > max) {
+    throw new Error(`${label} deve estar entre ${min} e ${max}`);
+  }
+  return parsed;
+}
+
+/**
+ * Campo de cron com *, listas (1,3), intervalos (1-5) e passos (*\/15, 8-18/2)
+ */
+function parseCronField(field: string, label: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseIntStrict(stepText, label, 1, max);
+
+    let from = min;
+    let to = max;
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = parseIntStrict(start, label, min, max);
+      to = end !== undefined ? parseIntStrict(end, label, min, max) : stepText === undefined ? from : max;
+    }
+    if (to < from) {
+      throw new Error(`Intervalo inválido em ${label}: ${range}`);
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function compileCron(expression: string): CompiledSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Expressão cron deve ter 5 campos: minuto hora dia mês dia-da-semana');
+  }
+
+  const minutes = parseCronField(fields[0], 'minuto', 0, 59);
+  const hours = parseCronField(fields[1], 'hora', 0, 23);
+  const monthDays = parseCronField(fields[2], 'dia do mês', 1, 31);
+  const months = parseCronField(fields[3], 'mês', 1, 12);
+  const weekdays = new Set(Array.from(parseCronField(fields[4], 'dia da semana', 0, 7)).map(day => day % 7));
+  const monthDayRestricted = fields[2] !== '*';
+  const weekdayRestricted = fields[4] !== '*';
+
+  const times: number[] = [];
+  for (const hour of Array.from(hours).sort((a, b) => a - b)) {
+    for (const minute of Array.from(minutes).sort((a, b) => a - b)) {
+      times.push(hour * 60 + minute);
+    }
+  }
+
+  return {
+    times,
+    matchesDay: (_dayNumber, month, day, weekday) => {
+      if (!months.has(month)) return false;
+      // Semântica do cron: com dia do mês e dia da semana restritos, basta um deles
+      if (monthDayRestricted && weekdayRestricted) return monthDays.has(day) || weekdays.has(weekday);
+      if (monthDayRestricted) return monthDays.has(day);
+      if (weekdayRestricted) return weekdays.has(weekday);
+      return true;
+    },
+  };
+}
+
+/**
+ * Subconjunto de RRULE (RFC 5545): FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY, BYMONTHDAY,
+ * BYHOUR, BYMINUTE, COUNT e UNTIL. Valores ausentes herdam a data/hora de início.
+ */
+function compileRRule(expression: string, startDate: Date, timezone: string): CompiledSchedule {
+  const rule: Record<string, string> = {};
+  for (const part of expression.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Parte inválida na RRULE: ${part}`);
+    }
+    rule[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+
+  const supported = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYHOUR', 'BYMINUTE', 'COUNT', 'UNTIL', 'WKST'];
+  const unsupported = Object.keys(rule).find(key => !supported.includes(key));
+  if (unsupported) {
+    throw new Error(`Regra RRULE não suportada: ${unsupported}`);
+  }
+
+  const freq = rule.FREQ;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(freq)) {
+    throw new Error('FREQ da RRULE deve ser DAILY, WEEKLY ou MONTHLY');
+  }
+
+  const start = getZonedParts(startDate.getTime(), timezone);
+  const startDayNumber = Date.UTC(start.year, start.month - 1, start.day) / DAY_MS;
+  const startWeekday = new Date(startDayNumber * DAY_MS).getUTCDay();
+  const interval = rule.INTERVAL ? parseIntStrict(rule.INTERVAL, 'INTERVAL', 1, 366) : 1;
+
+  const byDay = rule.BYDAY
+    ? new Set(rule.BYDAY.split(',').map(day => {
+      if (!(day in RRULE_WEEKDAYS)) throw new Error(`BYDAY inválido: ${day}`);
+      return RRULE_WEEKDAYS[day];
+    }))
+    : null;
+  const byMonthDay = rule.BYMONTHDAY
+    ? new Set(rule.BYMONTHDAY.split(',').map(day => parseIntStrict(day, 'BYMONTHDAY', 1, 31)))
+    : null;
+  const hours = rule.BYHOUR ? rule.BYHOUR.split(',').map(hour => parseIntStrict(hour, 'BYHOUR', 0, 23)) : [start.hour];
+  const minutes = rule.BYMINUTE ? rule.BYMINUTE.split(',').map(minute => parseIntStrict(minute, 'BYMINUTE', 0, 59)) : [start.minute];
+
+  let until: number | undefined;
+  if (rule.UNTIL) {
+    const match = rule.UNTIL.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (!match) {
+      throw new Error('UNTIL da RRULE deve estar no formato AAAAMMDD ou AAAAMMDDTHHMMSSZ');
+    }
+    const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+    until = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  }
+
+  const mondayOf = (dayNumber: number) => dayNumber - ((new Date(dayNumber * DAY_MS).getUTCDay() + 6) % 7);
+
+  const times: number[] = [];
+  for (const hour of [...hours].sort((a, b) => a - b)) {
+    for (const minute of [...minutes].sort((a, b) => a - b)) {
+      times.push(hour * 60 + minute);
+    }
+  }
+
+  return {
+    times,
+    count: rule.COUNT ? parseIntStrict(rule.COUNT, 'COUNT', 1, 100000) : undefined,
+    until,
+    matchesDay: (dayNumber, month, day, weekday) => {
+      if (dayNumber < startDayNumber) return false;
+
+      if (freq === 'DAILY') {
+        return (dayNumber - startDayNumber) % interval === 0
+          && (!byDay || byDay.has(weekday))
+          && (!byMonthDay || byMonthDay.has(day));
+      }
+
+      if (freq === 'WEEKLY') {
+        return ((mondayOf(dayNumber) - mondayOf(startDayNumber)) / 7) % interval === 0
+          && (byDay || new Set([startWeekday])).has(weekday);
+      }
+
+      const monthDiff = (new Date(dayNumber * DAY_MS).getUTCFullYear() * 12 + month) - (start.year * 12 + start.month);
+      if (monthDiff % interval !== 0) return false;
+      if (byDay && !byMonthDay) return byDay.has(weekday);
+      return (byMonthDay || new Set([start.day])).has(day) && (!byDay || byDay.has(weekday));
+    },
+  };
+}
+
+function compileSchedule(schedule: RecurrenceSchedule): CompiledSchedule {
+  if (!isValidTimezone(schedule.timezone)) {
+    throw new Error(`Fuso horário inválido: ${schedule.timezone}`);
+  }
+  if (!schedule.scheduleExpression?.trim()) {
+    throw new Error('Informe a expressão de recorrência');
+  }
+
+  if (schedule.scheduleType === 'CRON') {
+    return compileCron(schedule.scheduleExpression);
+  }
+  if (schedule.scheduleType === 'RRULE') {
+    return compileRRule(schedule.scheduleExpression, schedule.startDate, schedule.timezone);
+  }
+  throw new Error('Tipo de recorrência deve ser CRON ou RRULE');
+}
+
+/**
+ * Primeira ocorrência estritamente depois de `after`, respeitando início, fim, UNTIL e COUNT
+ */
+function findNextOccurrence(schedule: RecurrenceSchedule, after: Date, runCount = 0): Date | null {
+  const compiled = compileSchedule(schedule);
+  if (compiled.count !== undefined && runCount >= compiled.count) {
+    return null;
+  }
+
+  const from = Math.max(after.getTime(), schedule.startDate.getTime() - 1);
+  const ends = [schedule.endDate?.getTime(), compiled.until].filter((value): value is number => value !== undefined);
+  const end = ends.length > 0 ? Math.min(...ends) : Infinity;
+  const local = getZonedParts(from, schedule.timezone);
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const date = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    const dayNumber = date.getTime() / DAY_MS;
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+
+    if (!compiled.matchesDay(dayNumber, month, day, date.getUTCDay())) {
+      continue;
+    }
+
+    for (const minutes of compiled.times) {
+      const occurrence = zonedTimeToUtc(date.getUTCFullYear(), month, day, minutes, schedule.timezone);
+      if (occurrence <= from) continue;
+      return occurrence > end ? null : new Date(occurrence);
+    }
+
+    if (Date.UTC(date.getUTCFullYear(), month - 1, day) - DAY_MS > end) {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+function toSchedule(definition: {
+  scheduleType: string;
+  scheduleExpression: string;
+  timezone: string;
+  startDate: Date;
+  endDate?: Date | null;
+}): RecurrenceSchedule {
+  return {
+    scheduleType: definition.scheduleType as RecurrenceScheduleType,
+    scheduleExpression: definition.scheduleExpression,
+    timezone: definition.timezone,
+    startDate: definition.startDate,
+    endDate: definition.endDate,
+  };
+}
+
+function formatOccurrence(date: Date, timezone: string): string {
+  const local = getZonedParts(date.getTime(), timezone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(local.day)}/${pad(local.month)}/${local.year} ${pad(local.hour)}:${pad(local.minute)}`;
+}
+
+export const recurringCampaignService = {
+  /**
+   * Valida a recorrência e retorna as próximas ocorrências (pré-visualização no formulário)
+   */
+  previewOccurrences(schedule: RecurrenceSchedule, count = 5): Date[] {
+    const occurrences: Date[] = [];
+    let cursor = new Date();
+
+    for (let i = 0; i < count; i++) {
+      const next = findNextOccurrence(schedule, cursor, i);
+      if (!next) break;
+      occurrences.push(next);
+      cursor = next;
+    }
+
+    return occurrences;
+  },
+
+  /**
+   * Normaliza a entrada da API em dados do Prisma (valida recorrência e janela de envio)
+   */
+  buildData(input: RecurringCampaignInput, current?: { scheduleType: string; scheduleExpression: string; timezone: string; startDate: Date; endDate: Date | null }) {
+    const data: Record<string, any> = {};
+
+    if (input.nome !== undefined) data.nome = String(input.nome).trim();
+    if (input.targetTags !== undefined) data.targetTags = JSON.stringify(input.targetTags);
+    if (input.sessionNames !== undefined) data.sessionNames = JSON.stringify(input.sessionNames);
+    if (input.messageType !== undefined) data.messageType = input.messageType;
+    if (input.messageContent !== undefined) data.messageContent = JSON.stringify(input.messageContent);
+    if (input.randomDelay !== undefined) data.randomDelay = Number(input.randomDelay) || 0;
+    if (input.sendingWindow !== undefined) data.sendingWindow = sendingWindowService.normalize(input.sendingWindow) ?? Prisma.DbNull;
+
+    const schedule: RecurrenceSchedule = {
+      scheduleType: (input.scheduleType ?? current?.scheduleType ?? 'CRON') as RecurrenceScheduleType,
+      scheduleExpression: String(input.scheduleExpression ?? current?.scheduleExpression ?? '').trim(),
+      timezone: input.timezone || current?.timezone || DEFAULT_SENDING_TIMEZONE,
+      startDate: input.startDate ? new Date(input.startDate) : current?.startDate || new Date(),
+      endDate: input.endDate !== undefined ? (input.endDate ? new Date(input.endDate) : null) : current?.endDate || null,
+    };
+
+    if (isNaN(schedule.startDate.getTime()) || (schedule.endDate && isNaN(schedule.endDate.getTime()))) {
+      throw new Error('Datas de início/fim inválidas');
+    }
+    if (schedule.endDate && schedule.endDate <= schedule.startDate) {
+      throw new Error('A data de fim deve ser posterior à data de início');
+    }
+
+    compileSchedule(schedule);
+    return { data: { ...data, ...schedule }, schedule };
+  },
+
+  async list(tenantId: string) {
+    const definitions = await prisma.recurringCampaign.findMany({
+      where: { tenantId },
+      orderBy: { criadoEm: 'desc' },
+      include: { _count: { select: { campaigns: true } } },
+    });
+
+    return definitions.map(definition => this.serialize(definition));
+  },
+
+  /**
+   * Definição com o histórico de execuções e as métricas somadas
+   */
+  async get(id: string, tenantId: string) {
+    const definition = await prisma.recurringCampaign.findFirst({
+      where: { id, tenantId },
+      include: { _count: { select: { campaigns: true } } },
+    });
+    if (!definition) {
+      return null;
+    }
+
+    const [runs, totals] = await Promise.all([
+      prisma.campaign.findMany({
+        where: { recurringCampaignId: id },
+        orderBy: { criadoEm: 'desc' },
+        take: 100,
+        select: {
+          id: true,
+          nome: true,
+          status: true,
+          totalContacts: true,
+          sentCount: true,
+          failedCount: true,
+          startedAt: true,
+          completedAt: true,
+          criadoEm: true,
+        },
+      }),
+      prisma.campaign.aggregate({
+        where: { recurringCampaignId: id },
+        _sum: { totalContacts: true, sentCount: true, failedCount: true },
+        _count: true,
+      }),
+    ]);
+
+    return {
+      ...this.serialize(definition),
+      runs,
+      metrics: {
+        runs: totals._count,
+        totalContacts: totals._sum.totalContacts || 0,
+        sent: totals._sum.sentCount || 0,
+        failed: totals._sum.failedCount || 0,
+      },
+    };
+  },
+
+  async create(tenantId: string, input: RecurringCampaignInput, user?: { id?: string; nome?: string }) {
+    const { data, schedule } = this.buildData(input);
+
+    const definition = await prisma.recurringCampaign.create({
+      data: {
+        ...(data as any),
+        nextRunAt: findNextOccurrence(schedule, new Date()),
+        createdBy: user?.id || null,
+        createdByName: user?.nome || null,
+        tenantId,
+      },
+    });
+
+    console.log(`🔁 Campanha recorrente ${definition.id} criada (${schedule.scheduleType} "${schedule.scheduleExpression}") - próxima execução: ${definition.nextRunAt?.toISOString() || 'nenhuma'}`);
+    return this.serialize(definition);
+  },
+
+  async update(id: string, tenantId: string, input: RecurringCampaignInput) {
+    const current = await prisma.recurringCampaign.findFirst({ where: { id, tenantId } });
+    if (!current) {
+      throw new Error('Campanha recorrente não encontrada');
+    }
+
+    const { data, schedule } = this.buildData(input, current);
+    const definition = await prisma.recurringCampaign.update({
+      where: { id },
+      data: {
+        ...(data as any),
+        nextRunAt: current.active ? findNextOccurrence(schedule, new Date(), current.runCount) : null,
+      },
+    });
+
+    return this.serialize(definition);
+  },
+
+  /**
+   * Pausa/retoma a recorrência; ao retomar, ocorrências perdidas não são executadas
+   */
+  async setActive(id: string, tenantId: string, active: boolean) {
+    const current = await prisma.recurringCampaign.findFirst({ where: { id, tenantId } });
+    if (!current) {
+      throw new Error('Campanha recorrente não encontrada');
+    }
+
+    const definition = await prisma.recurringCampaign.update({
+      where: { id },
+      data: {
+        active,
+        nextRunAt: active ? findNextOccurrence(toSchedule(current), new Date(), current.runCount) : null,
+      },
+    });
+
+    return this.serialize(definition);
+  },
+
+  /**
+   * Remove a definição; as campanhas já geradas continuam no histórico de campanhas
+   */
+  async remove(id: string, tenantId: string) {
+    const result = await prisma.recurringCampaign.deleteMany({ where: { id, tenantId } });
+    if (result.count === 0) {
+      throw new Error('Campanha recorrente não encontrada');
+    }
+  },
+
+  /**
+   * Chamado pelo ciclo do scheduler: materializa as ocorrências vencidas.
+   * O avanço de nextRunAt é condicional ao valor lido, então só uma instância executa cada ocorrência.
+   */
+  async processDueRuns() {
+    const now = new Date();
+    const due = await prisma.recurringCampaign.findMany({
+      where: { active: true, nextRunAt: { lte: now } },
+      take: 20,
+    });
+
+    for (const definition of due) {
+      // Ocorrências perdidas (servidor parado) geram uma única execução
+      const nextRunAt = findNextOccurrence(toSchedule(definition), now, definition.runCount + 1);
+
+      const claimed = await prisma.recurringCampaign.updateMany({
+        where: { id: definition.id, nextRunAt: definition.nextRunAt },
+        data: { nextRunAt, lastRunAt: now, runCount: { increment: 1 } },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      try {
+        const campaign = await this.materializeRun(definition, definition.nextRunAt || now);
+        await prisma.recurringCampaign.update({
+          where: { id: definition.id },
+          data: { lastError: null },
+        });
+        console.log(`🔁 Campanha recorrente ${definition.id}: execução ${campaign.id} criada (${campaign.totalContacts} contatos)`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Campanha recorrente ${definition.id}: execução não criada - ${message}`);
+        await prisma.recurringCampaign.update({
+          where: { id: definition.id },
+          data: { lastError: message },
+        });
+      }
+    }
+  },
+
+  /**
+   * Cria a Campaign da ocorrência já em execução, com os contatos atuais das categorias
+   */
+  async materializeRun(definition: any, occurrence: Date) {
+    const targetTags: string[] = JSON.parse(definition.targetTags);
+    const sessionNames: string[] = JSON.parse(definition.sessionNames);
+
+    const tenantQuota = await prisma.tenantQuota.findUnique({
+      where: { tenantId: definition.tenantId },
+      select: { maxCampaigns: true },
+    });
+    if (tenantQuota) {
+      const campaignCount = await prisma.campaign.count({ where: { tenantId: definition.tenantId } });
+      if (campaignCount >= tenantQuota.maxCampaigns) {
+        throw new Error(`Limite de campanhas atingido (${campaignCount}/${tenantQuota.maxCampaigns})`);
+      }
+    }
+
+    const sessions = await prisma.whatsAppSession.findMany({
+      where: { name: { in: sessionNames }, tenantId: definition.tenantId, status: 'WORKING' },
+      select: { name: true },
+    });
+    if (sessions.length === 0) {
+      throw new Error('Nenhuma sessão WhatsApp ativa entre as selecionadas');
+    }
+
+    const contacts = await prisma.contact.findMany({
+      where: { categoriaId: { in: targetTags }, tenantId: definition.tenantId },
+      select: { id: true, nome: true, telefone: true },
+    });
+    if (contacts.length === 0) {
+      throw new Error('Nenhum contato encontrado nas categorias selecionadas');
+    }
+
+    const activeSessionNames = sessions.map(session => session.name);
+    const campaign = await prisma.campaign.create({
+      data: {
+        nome: `${definition.nome} - ${formatOccurrence(occurrence, definition.timezone)}`,
+        targetTags: definition.targetTags,
+        sessionNames: JSON.stringify(activeSessionNames),
+        sessionName: activeSessionNames[0],
+        messageType: definition.messageType,
+        messageContent: definition.messageContent,
+        randomDelay: definition.randomDelay,
+        startImmediately: true,
+        sendingWindow: definition.sendingWindow ?? undefined,
+        totalContacts: contacts.length,
+        status: 'RUNNING',
+        startedAt: new Date(),
+        createdBy: definition.createdBy,
+        createdByName: definition.createdByName,
+        tenantId: definition.tenantId,
+        recurringCampaignId: definition.id,
+      },
+    });
+
+    await prisma.campaignMessage.createMany({
+      data: contacts.map(contact => ({
+        campaignId: campaign.id,
+        contactId: contact.id,
+        contactPhone: contact.telefone,
+        contactName: contact.nome,
+        tenantId: campaign.tenantId,
+      })),
+    });
+
+    if (websocketService.isInitialized) {
+      await websocketService.notifyTenant(definition.tenantId, {
+        title: 'Campanha Recorrente Iniciada',
+        message: `A execução "${campaign.nome}" foi iniciada com ${contacts.length} contatos.`,
+        type: 'CAMPAIGN',
+        data: { campaignId: campaign.id, campaignName: campaign.nome, recurringCampaignId: definition.id, status: 'RUNNING' },
+      });
+    }
+
+    return campaign;
+  },
+
+  serialize(definition: any) {
+    const { _count, ...rest } = definition;
+    return {
+      ...rest,
+      targetTags: JSON.parse(definition.targetTags),
+      sessionNames: JSON.parse(definition.sessionNames),
+      messageContent: JSON.parse(definition.messageContent),
+      ...(_count ? { runsCount: _count.campaigns } : {}),
+    };
+  },
+};
@@ -398,7 +398,7 @@ export class ReportingService {
       total: messages.length,
       sent: messages.filter(m => ['SENT', 'DELIVERED', 'READ'].includes(m.status)).length,
       delivered: messages.filter(m => ['DELIVERED', 'READ'].includes(m.status)).length,
-      read: messages.filter(m => m.status === 'read').length,
+      read: messages.filter(m => m.status === 'READ').length,
       failed: messages.filter(m => m.status === 'FAILED').length
     };
   }
@@ -439,9 +439,9 @@ export class ReportingService {
       SELECT
         DATE(cm.sent_at) as date,
         COUNT(*) as sent,
-        SUM(CASE WHEN cm.status IN ('DELIVERED', 'read') THEN 1 ELSE 0 END) as delivered,
+        SUM(CASE WHEN cm.status IN ('DELIVERED', 'READ') THEN 1 ELSE 0 END) as delivered,
         SUM(CASE WHEN cm.status = 'FAILED' THEN 1 ELSE 0 END) as failed,
-        SUM(CASE WHEN cm.status = 'read' THEN 1 ELSE 0 END) as read
+        SUM(CASE WHEN cm.status = 'READ' THEN 1 ELSE 0 END) as read
       FROM campaign_messages cm
       JOIN campaigns c ON cm.campaign_id = c.id
       WHERE c.tenant_id = ${tenantId}
@@ -0,0 +1,299 @@
+/**
+ * Sandbox Service
+ * Provider WhatsApp simulado (SANDBOX) para desenvolvimento local e testes automatizados:
+ * os envios ficam numa caixa de saída consultável, os acks de entrega/leitura/falha são
+ * gerados conforme a configuração da sessão e respostas de contatos podem ser injetadas.
+ */
+
+import crypto from 'crypto';
+import { WhatsAppSession } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import type { AckStatus, ProviderMessage, InboundMedia } from './whatsappProviders/types';
+import { normalizeInboundMediaType, assertPublicUrl } from './whatsappProviders/utils';
+import { describeInteractive } from './whatsappProviders/interactiveMessages';
+
+export interface SandboxAckConfig {
+  deliveredAfterSeconds: number | null; // null = a entrega nunca é confirmada
+  readAfterSeconds: number | null; // null = a mensagem nunca é lida
+  failureRate: number; // % dos envios que recebem ack FAILED em vez de entrega
+  failureMessage: string;
+}
+
+export const DEFAULT_SANDBOX_ACK_CONFIG: SandboxAckConfig = {
+  deliveredAfterSeconds: 2,
+  readAfterSeconds: 5,
+  failureRate: 0,
+  failureMessage: 'Falha de entrega simulada pelo sandbox',
+};
+
+// Status da caixa de saída que cada ack pode substituir (um ack nunca faz a mensagem regredir)
+const ACK_ALLOWED_FROM: Record<AckStatus, string[]> = {
+  DELIVERED: ['SENT'],
+  READ: ['SENT', 'DELIVERED'],
+  FAILED: ['SENT', 'DELIVERED'],
+};
+
+const MAX_ACK_DELAY_SECONDS = 24 * 60 * 60;
+
+function generateMessageId(): string {
+  return `sandbox_${crypto.randomBytes(10).toString('hex')}`;
+}
+
+function toPhone(value: string): string {
+  return String(value || '').split('@')[0].replace(/\D/g, '');
+}
+
+function parseDelay(value: any, fallback: number | null): number | null {
+  if (value === null) return null;
+  if (value === undefined || value === '') return fallback;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0 || seconds > MAX_ACK_DELAY_SECONDS) {
+    throw new Error(`Atraso de ack deve estar entre 0 e ${MAX_ACK_DELAY_SECONDS} segundos`);
+  }
+  return seconds;
+}
+
+/**
+ * Tipo e resumo legível do payload enviado (para a listagem da caixa de saída)
+ */
+function describeMessage(message: ProviderMessage): { type: string; content: string | null } {
+  if (message.template && !message.text && !message.image && !message.video && !message.audio && !message.document) {
+    return { type: 'template', content: message.template.name };
+  }
+  const interactive = describeInteractive(message);
+  if (interactive) {
+    return interactive;
+  }
+  for (const type of ['image', 'video', 'audio', 'document'] as const) {
+    if (message[type]?.url) {
+      return { type, content: message.caption || message.fileName || message[type]!.url };
+    }
+  }
+  return { type: 'text', content: message.text ?? null };
+}
+
+export const sandboxService = {
+  /**
+   * Configuração de acks da sessão, completada com os valores padrão
+   */
+  getAckConfig(session: Pick<WhatsAppSession, 'sandboxConfig'>): SandboxAckConfig {
+    return { ...DEFAULT_SANDBOX_ACK_CONFIG, ...((session.sandboxConfig as any) || {}) };
+  },
+
+  /**
+   * Valida a configuração enviada pela API; lança erro com a mensagem para o usuário
+   */
+  normalizeAckConfig(input: any, current: SandboxAckConfig = DEFAULT_SANDBOX_ACK_CONFIG): SandboxAckConfig {
+    const failureRate = input?.failureRate === undefined ? current.failureRate : Number(input.failureRate);
+    if (!Number.isFinite(failureRate) || failureRate < 0 || failureRate > 100) {
+      throw new Error('Taxa de falha deve estar entre 0 e 100');
+    }
+
+    return {
+      deliveredAfterSeconds: parseDelay(input?.deliveredAfterSeconds, current.deliveredAfterSeconds),
+      readAfterSeconds: parseDelay(input?.readAfterSeconds, current.readAfterSeconds),
+      failureRate,
+      failureMessage: String(input?.failureMessage ?? current.failureMessage).trim() || DEFAULT_SANDBOX_ACK_CONFIG.failureMessage,
+    };
+  },
+
+  async updateAckConfig(sessionId: string, input: any): Promise<SandboxAckConfig> {
+    const session = await prisma.whatsAppSession.findUniqueOrThrow({ where: { id: sessionId } });
+    const config = this.normalizeAckConfig(input, this.getAckConfig(session));
+
+    await prisma.whatsAppSession.update({
+      where: { id: sessionId },
+      data: { sandboxConfig: config as any },
+    });
+
+    return config;
+  },
+
+  /**
+   * Registra um envio na caixa de saída e agenda os acks simulados
+   */
+  async recordOutbound(sessionName: string, to: string, message: ProviderMessage) {
+    const session = await prisma.whatsAppSession.findUnique({ where: { name: sessionName } });
+    if (!session) {
+      throw new Error(`Sessão sandbox ${sessionName} não encontrada`);
+    }
+    if (session.status !== 'WORKING') {
+      throw new Error(`Sessão ${sessionName} não está conectada (${session.status})`);
+    }
+
+    const { type, content } = describeMessage(message);
+    const record = await prisma.sandboxMessage.create({
+      data: {
+        sessionId: session.id,
+        direction: 'OUTBOUND',
+        phone: toPhone(to),
+        type,
+        content,
+        payload: message as any,
+        providerMessageId: generateMessageId(),
+        status: 'SENT',
+      },
+    });
+
+    console.log(`🧪 [SANDBOX] ${session.name} → ${record.phone}: ${type}${content ? ` "${content.substring(0, 50)}"` : ''}`);
+
+    this.scheduleAcks(session, record.providerMessageId);
+    return record;
+  },
+
+  /**
+   * Agenda os acks conforme a configuração (timers em memória: acks pendentes se perdem ao reiniciar)
+   */
+  scheduleAcks(session: WhatsAppSession, providerMessageId: string) {
+    const config = this.getAckConfig(session);
+
+    // Atraso mínimo de 1s: quem enviou ainda precisa gravar o messageId antes do ack chegar
+    const schedule = (status: AckStatus, seconds: number, error?: string) => {
+      setTimeout(() => {
+        this.emitAck(session.name, providerMessageId, status, error).catch((ackError: any) => {
+          console.error(`❌ [SANDBOX] Erro ao gerar ack ${status} para ${providerMessageId}:`, ackError.message);
+        });
+      }, Math.max(1, seconds) * 1000);
+    };
+
+    if (Math.random() * 100 < config.failureRate) {
+      schedule('FAILED', config.deliveredAfterSeconds ?? DEFAULT_SANDBOX_ACK_CONFIG.deliveredAfterSeconds!, config.failureMessage);
+      return;
+    }
+
+    if (config.deliveredAfterSeconds !== null) {
+      schedule('DELIVERED', config.deliveredAfterSeconds);
+    }
+    if (config.readAfterSeconds !== null) {
+      schedule('READ', config.readAfterSeconds);
+    }
+  },
+
+  /**
+   * Atualiza a mensagem na caixa de saída e entrega o ack pelo mesmo caminho dos webhooks reais.
+   * Retorna false quando o ack faria o status regredir (ex.: DELIVERED depois de READ).
+   */
+  async emitAck(sessionName: string, providerMessageId: string, status: AckStatus, error?: string): Promise<boolean> {
+    const failure = status === 'FAILED' ? error || DEFAULT_SANDBOX_ACK_CONFIG.failureMessage : undefined;
+
+    const result = await prisma.sandboxMessage.updateMany({
+      where: { providerMessageId, direction: 'OUTBOUND', status: { in: ACK_ALLOWED_FROM[status] } },
+      data: { status, error: failure ?? null },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    // Import tardio: messageAckService → whatsappProviders → sandboxProvider → sandboxService
+    const { messageAckService } = await import('./messageAckService');
+    await messageAckService.handleWebhookAck('SANDBOX', {
+      event: 'sandbox.ack',
+      session: sessionName,
+      payload: { id: providerMessageId, status, error: failure, timestamp: Date.now() },
+    });
+
+    return true;
+  },
+
+  /**
+   * Registra a resposta simulada de um contato e retorna o payload de webhook equivalente.
+   * selectionId simula o clique num botão/linha de lista/opção de enquete enviada pela sessão
+   * e media um anexo recebido (o arquivo é baixado da URL informada).
+   */
+  async recordInbound(
+    session: WhatsAppSession,
+    input: { from: string; text: string; fromName?: string; selectionId?: string; media?: InboundMedia }
+  ) {
+    const from = toPhone(input.from);
+    if (from.length < 8) {
+      throw new Error('Telefone do contato inválido');
+    }
+
+    const media = input.media ? this.normalizeMedia(input.media) : null;
+    const type = media?.type || (input.selectionId ? 'selection' : 'text');
+
+    const record = await prisma.sandboxMessage.create({
+      data: {
+        sessionId: session.id,
+        direction: 'INBOUND',
+        phone: from,
+        type,
+        content: input.text || media?.url || null,
+        payload: input as any,
+        providerMessageId: generateMessageId(),
+        status: 'RECEIVED',
+      },
+    });
+
+    console.log(`🧪 [SANDBOX] ${from} → ${session.name}: ${media ? `${type} ` : ''}"${(input.text || '').substring(0, 50)}"`);
+
+    const payload = {
+      event: 'sandbox.message',
+      session: session.name,
+      payload: {
+        id: record.providerMessageId,
+        from,
+        fromName: input.fromName || null,
+        fromMe: false,
+        type,
+        body: input.text,
+        selectionId: input.selectionId || null,
+        media,
+        timestamp: Math.floor(record.createdAt.getTime() / 1000),
+      },
+    };
+
+    return { record, payload };
+  },
+
+  /**
+   * Valida o anexo simulado; lança erro com a mensagem para o usuário
+   */
+  normalizeMedia(input: any): InboundMedia {
+    const type = normalizeInboundMediaType(input?.type);
+    if (!type) {
+      throw new Error('Tipo de mídia inválido (use image, video, audio, document, sticker, location ou contact)');
+    }
+
+    if (type === 'location') {
+      const latitude = Number(input.latitude);
+      const longitude = Number(input.longitude);
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+        throw new Error('Localização precisa de latitude e longitude válidas');
+      }
+      return { type, latitude, longitude };
+    }
+    if (type === 'contact') {
+      return { type };
+    }
+    if (!input.url) {
+      throw new Error('Mídia simulada precisa de uma URL http(s) para download');
+    }
+    // A URL é baixada pelo servidor: recusa a rede interna já na injeção
+    assertPublicUrl(String(input.url));
+    return {
+      type,
+      url: String(input.url),
+      mimetype: input.mimetype ? String(input.mimetype) : null,
+      fileName: input.fileName ? String(input.fileName) : null,
+    };
+  },
+
+  async listMessages(sessionId: string, options: { direction?: string; phone?: string; limit?: number } = {}) {
+    return prisma.sandboxMessage.findMany({
+      where: {
+        sessionId,
+        ...(options.direction && { direction: options.direction }),
+        ...(options.phone && { phone: { contains: toPhone(options.phone) } }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(options.limit || 100, 1), 500),
+    });
+  },
+
+  async clearMessages(sessionId: string): Promise<number> {
+    const result = await prisma.sandboxMessage.deleteMany({ where: { sessionId } });
+    return result.count;
+  },
+};
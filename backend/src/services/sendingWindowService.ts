@@ -0,0 +1,253 @@
+/**
+ * Sending Window Service
+ * Janelas de envio (dias da semana, faixas de horário, fuso e feriados) das campanhas.
+ * A campanha usa a própria janela quando configurada; senão herda a padrão do tenant.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getZonedParts, isValidTimezone, zonedTimeToUtc } from '../lib/timezone';
+
+const prisma = new PrismaClient();
+
+export const DEFAULT_SENDING_TIMEZONE = 'America/Sao_Paulo';
+
+// Intervalo mínimo considerado por mensagem na projeção (envio + confirmação do provider)
+const MIN_SEND_INTERVAL_MS = 1000;
+
+// Limite de busca da próxima abertura (janela sem nenhum dia válido no próximo ano)
+const MAX_LOOKAHEAD_DAYS = 370;
+
+export interface SendingWindowRange {
+  start: string; // HH:mm
+  end: string; // HH:mm (24:00 = fim do dia)
+}
+
+export interface SendingWindow {
+  enabled: boolean;
+  timezone: string;
+  weekdays: number[]; // 0 = domingo ... 6 = sábado
+  ranges: SendingWindowRange[];
+  holidays: string[]; // YYYY-MM-DD no fuso da janela
+}
+
+interface OpenInterval {
+  start: number;
+  end: number;
+}
+
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Faixa aberta que contém `from` ou a próxima a abrir depois dele
+ */
+function findOpenInterval(window: SendingWindow, from: number): OpenInterval | null {
+  const local = getZonedParts(from, window.timezone);
+  const ranges = [...window.ranges].sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    if (!window.weekdays.includes(day.getUTCDay()) || window.holidays.includes(day.toISOString().slice(0, 10))) {
+      continue;
+    }
+
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    const date = day.getUTCDate();
+
+    for (const range of ranges) {
+      const start = zonedTimeToUtc(year, month, date, toMinutes(range.start), window.timezone);
+      const end = zonedTimeToUtc(year, month, date, toMinutes(range.end), window.timezone);
+      if (end > from) {
+        return { start: Math.max(start, from), end };
+      }
+    }
+  }
+
+  return null;
+}
+
+export const sendingWindowService = {
+  /**
+   * Valida e normaliza a janela recebida da API. Retorna null quando não informada.
+   */
+  normalize(input: unknown): SendingWindow | null {
+    if (input === undefined || input === null || input === '') {
+      return null;
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      throw new Error('Janela de envio inválida');
+    }
+
+    const value = input as Record<string, any>;
+    const enabled = value.enabled !== false;
+    const timezone = String(value.timezone || DEFAULT_SENDING_TIMEZONE);
+
+    if (!isValidTimezone(timezone)) {
+      throw new Error(`Fuso horário inválido: ${timezone}`);
+    }
+
+    const weekdays = Array.from(new Set<number>((Array.isArray(value.weekdays) ? value.weekdays : []).map(Number)))
+      .filter(day => Number.isInteger(day) && day >= 0 && day <= 6)
+      .sort((a, b) => a - b);
+
+    const ranges: SendingWindowRange[] = (Array.isArray(value.ranges) ? value.ranges : []).map((range: any) => {
+      const start = String(range?.start || '');
+      const end = String(range?.end || '');
+      if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+        throw new Error('Horários da janela devem estar no formato HH:mm');
+      }
+      if (toMinutes(end) <= toMinutes(start)) {
+        throw new Error(`Faixa ${start}-${end} inválida: o fim deve ser depois do início`);
+      }
+      return { start, end };
+    });
+
+    const holidays = Array.from(new Set<string>((Array.isArray(value.holidays) ? value.holidays : []).map(String)));
+    const invalidHoliday = holidays.find(holiday => !DATE_PATTERN.test(holiday) || isNaN(Date.parse(holiday)));
+    if (invalidHoliday) {
+      throw new Error(`Feriado inválido: ${invalidHoliday} (use AAAA-MM-DD)`);
+    }
+
+    if (enabled && weekdays.length === 0) {
+      throw new Error('Selecione pelo menos um dia da semana na janela de envio');
+    }
+    if (enabled && ranges.length === 0) {
+      throw new Error('Informe pelo menos uma faixa de horário na janela de envio');
+    }
+
+    return { enabled, timezone, weekdays, ranges, holidays: holidays.sort() };
+  },
+
+  /**
+   * Lê uma janela persistida; registros inválidos são ignorados (sem restrição)
+   */
+  parse(value: Prisma.JsonValue | null | undefined): SendingWindow | null {
+    try {
+      return this.normalize(value);
+    } catch (error) {
+      console.warn('⚠️ Janela de envio inválida ignorada:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  },
+
+  async getTenantDefault(tenantId: string | null | undefined): Promise<SendingWindow | null> {
+    if (!tenantId) {
+      return null;
+    }
+
+    const settings = await prisma.tenantSettings.findUnique({
+      where: { tenantId },
+      select: { sendingWindow: true },
+    });
+    return this.parse(settings?.sendingWindow);
+  },
+
+  /**
+   * Janela efetiva da campanha (null = envia a qualquer hora).
+   * Uma janela própria desativada dispensa também a padrão do tenant.
+   */
+  async resolveForCampaign(campaign: { sendingWindow?: Prisma.JsonValue | null; tenantId?: string | null }): Promise<SendingWindow | null> {
+    const own = this.parse(campaign.sendingWindow);
+    const window = own || await this.getTenantDefault(campaign.tenantId);
+    return window?.enabled ? window : null;
+  },
+
+  isOpen(window: SendingWindow | null, date: Date = new Date()): boolean {
+    if (!window) {
+      return true;
+    }
+    const interval = findOpenInterval(window, date.getTime());
+    return !!interval && interval.start <= date.getTime();
+  },
+
+  /**
+   * Próximo instante em que a janela está aberta (o próprio `from` quando já está).
+   * Retorna null se a janela não abre no próximo ano.
+   */
+  nextOpening(window: SendingWindow | null, from: Date = new Date()): Date | null {
+    if (!window) {
+      return from;
+    }
+    const interval = findOpenInterval(window, from.getTime());
+    return interval ? new Date(interval.start) : null;
+  },
+
+  /**
+   * Estima quando as mensagens pendentes terminam de sair: cada sessão envia em sequência
+   * com o delay médio da campanha, somente dentro das faixas abertas da janela
+   */
+  projectCompletion(
+    window: SendingWindow | null,
+    pendingCount: number,
+    sessionCount: number,
+    randomDelay: number,
+    from: Date = new Date()
+  ): Date | null {
+    if (pendingCount <= 0) {
+      return null;
+    }
+
+    const intervalMs = Math.max((randomDelay || 0) * 1000 / 2, MIN_SEND_INTERVAL_MS);
+    let remaining = Math.ceil(pendingCount / Math.max(sessionCount, 1));
+
+    if (!window) {
+      return new Date(from.getTime() + remaining * intervalMs);
+    }
+
+    let cursor = from.getTime();
+    for (let guard = 0; guard < 5000; guard++) {
+      const interval = findOpenInterval(window, cursor);
+      if (!interval) {
+        return null;
+      }
+
+      const fits = Math.floor((interval.end - interval.start) / intervalMs);
+      if (remaining <= fits) {
+        return new Date(interval.start + remaining * intervalMs);
+      }
+
+      remaining -= fits;
+      cursor = interval.end;
+    }
+
+    return null;
+  },
+
+  /**
+   * Situação da janela para o detalhe/relatório da campanha, com a previsão de término
+   * das mensagens pendentes (somente campanhas em execução ou agendadas)
+   */
+  async describeCampaign(
+    campaign: {
+      status: string;
+      randomDelay: number;
+      scheduledFor?: Date | null;
+      sendingWindow?: Prisma.JsonValue | null;
+      tenantId?: string | null;
+    },
+    pendingCount: number,
+    sessionCount: number
+  ) {
+    const window = await this.resolveForCampaign(campaign);
+    const now = new Date();
+    const startFrom = campaign.status === 'PENDING' && campaign.scheduledFor && campaign.scheduledFor > now
+      ? campaign.scheduledFor
+      : now;
+
+    return {
+      window,
+      source: this.parse(campaign.sendingWindow) ? 'CAMPAIGN' : window ? 'TENANT' : null,
+      isOpen: this.isOpen(window, now),
+      nextOpeningAt: this.nextOpening(window, now),
+      projectedCompletionAt: ['RUNNING', 'PENDING'].includes(campaign.status)
+        ? this.projectCompletion(window, pendingCount, sessionCount, campaign.randomDelay, startFrom)
+        : null,
+    };
+  },
+};
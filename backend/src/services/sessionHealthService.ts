@@ -0,0 +1,268 @@
+/**
+ * Session Health Service
+ * Score de saúde das sessões WhatsApp a partir de falhas de envio, números inexistentes e quedas recentes.
+ * Sessões sem saúde saem da rotação das campanhas por um período; campanhas pausadas por falta de sessão
+ * são retomadas automaticamente quando alguma sessão volta a ficar disponível.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { createSystemAlert } from '../controllers/alertsController';
+import { websocketService } from './websocketService';
+
+const prisma = new PrismaClient();
+
+export type SessionHealthEventType = 'SEND_FAILURE' | 'CONTACT_NOT_FOUND' | 'DISCONNECT';
+export type SessionHealthStatus = 'HEALTHY' | 'DEGRADED' | 'UNHEALTHY';
+
+// Motivo gravado na campanha quando ela é pausada por falta de sessão disponível
+export const NO_HEALTHY_SESSION_PAUSE_REASON = 'NO_HEALTHY_SESSION';
+
+const HEALTH_WINDOW_MS = 30 * 60 * 1000;
+const QUARANTINE_MS = 15 * 60 * 1000;
+const EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Poucos envios na janela não devem derrubar o score com uma única falha
+const MIN_SAMPLE = 10;
+const FAILURE_WEIGHT = 100;
+const CONTACT_NOT_FOUND_WEIGHT = 60;
+const DISCONNECT_PENALTY = 25;
+const MAX_DISCONNECT_PENALTY = 50;
+
+const DEGRADED_BELOW = 85;
+const UNHEALTHY_BELOW = 60;
+
+let lastPruneAt = 0;
+
+interface HealthCounters {
+  attempts: number;
+  failures: number;
+  notFound: number;
+  disconnects: number;
+}
+
+function calculateScore(counters: HealthCounters): number {
+  const sample = Math.max(counters.attempts, MIN_SAMPLE);
+  const penalty =
+    (FAILURE_WEIGHT * counters.failures) / sample +
+    (CONTACT_NOT_FOUND_WEIGHT * counters.notFound) / sample +
+    Math.min(counters.disconnects * DISCONNECT_PENALTY, MAX_DISCONNECT_PENALTY);
+
+  return Math.max(0, Math.min(100, Math.round(100 - penalty)));
+}
+
+function classifyScore(score: number): SessionHealthStatus {
+  if (score < UNHEALTHY_BELOW) return 'UNHEALTHY';
+  if (score < DEGRADED_BELOW) return 'DEGRADED';
+  return 'HEALTHY';
+}
+
+export const sessionHealthService = {
+  /**
+   * Filtro das sessões que podem receber envios de campanha (conectadas e fora de quarentena)
+   */
+  availableSessionsWhere(sessionNames: string[], now: Date = new Date()): Prisma.WhatsAppSessionWhereInput {
+    return {
+      name: { in: sessionNames },
+      status: 'WORKING',
+      OR: [{ quarantinedUntil: null }, { quarantinedUntil: { lte: now } }],
+    };
+  },
+
+  /**
+   * Registra uma ocorrência negativa da sessão. Nunca interrompe o envio que a originou.
+   */
+  async recordEvent(sessionName: string, type: SessionHealthEventType, detail?: string) {
+    try {
+      const session = await prisma.whatsAppSession.findUnique({ where: { name: sessionName }, select: { id: true } });
+      if (!session) return;
+
+      await prisma.sessionHealthEvent.create({
+        data: { sessionId: session.id, type, detail: detail ? detail.slice(0, 500) : null },
+      });
+    } catch (error) {
+      console.error(`❌ Erro ao registrar evento de saúde da sessão ${sessionName}:`, error);
+    }
+  },
+
+  /**
+   * Ciclo do monitor (chamado pelo scheduler de campanhas)
+   */
+  async process(now: Date = new Date()) {
+    try {
+      await this.detectStatusChanges(now);
+      await this.evaluateSessions(now);
+      await this.resumePausedCampaigns(now);
+      await this.pruneOldEvents(now);
+    } catch (error) {
+      console.error('❌ Erro no monitor de saúde das sessões:', error);
+    }
+  },
+
+  /**
+   * Compara o status atual com o último observado: quedas viram evento DISCONNECT e,
+   * se a sessão estava em uso por campanhas em execução, um alerta SESSION_FAILED
+   */
+  async detectStatusChanges(now: Date) {
+    const sessions = await prisma.whatsAppSession.findMany({
+      select: { id: true, name: true, displayName: true, status: true, lastObservedStatus: true, tenantId: true },
+    });
+
+    for (const session of sessions) {
+      if (session.lastObservedStatus === session.status) continue;
+
+      await prisma.whatsAppSession.update({
+        where: { id: session.id },
+        data: { lastObservedStatus: session.status },
+      });
+
+      if (session.lastObservedStatus !== 'WORKING' || session.status === 'WORKING') continue;
+
+      console.warn(`📉 Sessão ${session.name} caiu (${session.lastObservedStatus} → ${session.status})`);
+      await prisma.sessionHealthEvent.create({
+        data: { sessionId: session.id, type: 'DISCONNECT', detail: `${session.lastObservedStatus} → ${session.status}`, createdAt: now },
+      });
+
+      const affectedCampaigns = await prisma.campaign.findMany({
+        where: {
+          status: 'RUNNING',
+          OR: [{ sessionName: session.name }, { sessionNames: { contains: `"${session.name}"` } }],
+        },
+        select: { id: true, nome: true },
+      });
+
+      if (affectedCampaigns.length === 0) continue;
+
+      try {
+        await createSystemAlert(
+          'SESSION_FAILED',
+          'HIGH',
+          'Sessão WhatsApp caiu durante campanha',
+          `Sessão "${session.displayName || session.name}" ficou ${session.status} com ${affectedCampaigns.length} campanha(s) em execução: ${affectedCampaigns.map(c => c.nome).join(', ')}`,
+          {
+            resourceId: session.id,
+            sessionId: session.id,
+            sessionName: session.name,
+            status: session.status,
+            campaigns: affectedCampaigns,
+          },
+          session.tenantId || undefined
+        );
+      } catch (error) {
+        console.error(`❌ Erro ao criar alerta de queda da sessão ${session.name}:`, error);
+      }
+    }
+  },
+
+  /**
+   * Recalcula o score de todas as sessões e coloca em quarentena as que ficaram sem saúde
+   */
+  async evaluateSessions(now: Date) {
+    const since = new Date(now.getTime() - HEALTH_WINDOW_MS);
+
+    const [sessions, attempts, events] = await Promise.all([
+      prisma.whatsAppSession.findMany({
+        select: { id: true, name: true, healthScore: true, healthStatus: true, quarantinedUntil: true },
+      }),
+      prisma.sessionSendBucket.groupBy({
+        by: ['sessionId'],
+        where: { bucketStart: { gte: since } },
+        _sum: { count: true },
+      }),
+      prisma.sessionHealthEvent.groupBy({
+        by: ['sessionId', 'type'],
+        where: { createdAt: { gte: since } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const attemptsBySession = new Map(attempts.map(row => [row.sessionId, row._sum.count || 0]));
+
+    for (const session of sessions) {
+      const countOf = (type: SessionHealthEventType) =>
+        events.find(row => row.sessionId === session.id && row.type === type)?._count._all || 0;
+
+      const score = calculateScore({
+        attempts: attemptsBySession.get(session.id) || 0,
+        failures: countOf('SEND_FAILURE'),
+        notFound: countOf('CONTACT_NOT_FOUND'),
+        disconnects: countOf('DISCONNECT'),
+      });
+      const healthStatus = classifyScore(score);
+
+      const quarantined = !!session.quarantinedUntil && session.quarantinedUntil > now;
+      const quarantinedUntil = healthStatus === 'UNHEALTHY' && !quarantined
+        ? new Date(now.getTime() + QUARANTINE_MS)
+        : session.quarantinedUntil;
+
+      if (score === session.healthScore && healthStatus === session.healthStatus && quarantinedUntil === session.quarantinedUntil) {
+        continue;
+      }
+
+      await prisma.whatsAppSession.update({
+        where: { id: session.id },
+        data: { healthScore: score, healthStatus, quarantinedUntil },
+      });
+
+      if (quarantinedUntil !== session.quarantinedUntil) {
+        console.warn(`🩺 Sessão ${session.name} sem saúde (score ${score}) - fora da rotação até ${quarantinedUntil!.toISOString()}`);
+      } else if (healthStatus !== session.healthStatus) {
+        console.log(`🩺 Sessão ${session.name}: ${session.healthStatus} → ${healthStatus} (score ${score})`);
+      }
+    }
+  },
+
+  /**
+   * Retoma campanhas pausadas automaticamente assim que alguma das suas sessões estiver disponível
+   */
+  async resumePausedCampaigns(now: Date) {
+    const pausedCampaigns = await prisma.campaign.findMany({
+      where: { status: 'PAUSED', pauseReason: NO_HEALTHY_SESSION_PAUSE_REASON },
+      select: { id: true, nome: true, sessionName: true, sessionNames: true, tenantId: true },
+    });
+
+    for (const campaign of pausedCampaigns) {
+      let sessionNames: string[] = [];
+      try {
+        sessionNames = campaign.sessionNames ? JSON.parse(campaign.sessionNames) : [campaign.sessionName];
+      } catch {
+        sessionNames = campaign.sessionName ? [campaign.sessionName] : [];
+      }
+
+      const available = await prisma.whatsAppSession.count({
+        where: this.availableSessionsWhere(sessionNames.filter(Boolean), now),
+      });
+      if (available === 0) continue;
+
+      // Condicionado ao motivo para não retomar campanha pausada manualmente nesse meio-tempo
+      const { count } = await prisma.campaign.updateMany({
+        where: { id: campaign.id, status: 'PAUSED', pauseReason: NO_HEALTHY_SESSION_PAUSE_REASON },
+        data: { status: 'RUNNING', pauseReason: null },
+      });
+      if (count === 0) continue;
+
+      console.log(`▶️ Campanha ${campaign.id} retomada automaticamente - sessão disponível novamente`);
+
+      if (campaign.tenantId && websocketService.isInitialized) {
+        await websocketService.notifyTenant(campaign.tenantId, {
+          title: 'Campanha Retomada',
+          message: `A campanha "${campaign.nome}" foi retomada: uma sessão WhatsApp voltou a ficar disponível.`,
+          type: 'CAMPAIGN',
+          data: { campaignId: campaign.id, campaignName: campaign.nome, status: 'RUNNING' }
+        });
+      }
+    }
+  },
+
+  /**
+   * Remove eventos fora da janela de cálculo (no máximo uma vez por hora)
+   */
+  async pruneOldEvents(now: Date) {
+    if (now.getTime() - lastPruneAt < PRUNE_INTERVAL_MS) return;
+    lastPruneAt = now.getTime();
+
+    await prisma.sessionHealthEvent.deleteMany({
+      where: { createdAt: { lt: new Date(now.getTime() - EVENT_RETENTION_MS) } },
+    });
+  },
+};
@@ -0,0 +1,405 @@
+/**
+ * Session Rate Limit Service
+ * Orçamento de envio por sessão WhatsApp (mensagens por minuto, hora e dia) e curva de aquecimento
+ * que reduz o teto diário nas primeiras semanas do número.
+ * Todo envio que passa pela sessão consome o mesmo orçamento: campanhas, campanhas interativas e automações.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Buckets fora da janela diária não são mais consultados
+const BUCKET_RETENTION_MS = 2 * DAY_MS;
+const PRUNE_INTERVAL_MS = HOUR_MS;
+const MAX_WARMUP_STEPS = 20;
+
+let lastPruneAt = 0;
+
+export type RateLimitWindow = 'MINUTE' | 'HOUR' | 'DAY';
+
+export interface WarmupStep {
+  untilDay: number; // Último dia (1 = dia do início do aquecimento) em que o teto vale
+  dailyCap: number;
+}
+
+export interface EffectiveSessionLimits {
+  perMinute: number | null;
+  perHour: number | null;
+  perDay: number | null; // Menor valor entre o limite diário configurado e o teto do aquecimento
+  warmupDay: number | null; // Dia atual do aquecimento (null = sem aquecimento em andamento)
+  warmupCap: number | null;
+}
+
+export type SendReservation =
+  | { allowed: true; sessionName: string; sessionId: string | null; bucketStart: Date }
+  | { allowed: false; sessionName: string; window: RateLimitWindow; retryAt: Date };
+
+export interface SessionSendBudget {
+  sessionName: string;
+  limits: EffectiveSessionLimits;
+  config: {
+    rateLimitPerMinute: number | null;
+    rateLimitPerHour: number | null;
+    rateLimitPerDay: number | null;
+    warmupPlan: WarmupStep[] | null;
+    warmupStartedAt: Date | null;
+  };
+  usage: { minute: number; hour: number; day: number };
+  blocked: { window: RateLimitWindow; retryAt: Date } | null;
+}
+
+interface SessionLimitFields {
+  rateLimitPerMinute: number | null;
+  rateLimitPerHour: number | null;
+  rateLimitPerDay: number | null;
+  warmupPlan: Prisma.JsonValue;
+  warmupStartedAt: Date | null;
+}
+
+interface UsageBucket {
+  bucketStart: Date;
+  count: number;
+}
+
+const LIMIT_FIELDS = {
+  rateLimitPerMinute: true,
+  rateLimitPerHour: true,
+  rateLimitPerDay: true,
+  warmupPlan: true,
+  warmupStartedAt: true,
+} as const;
+
+const WINDOW_LABELS: Record<RateLimitWindow, string> = {
+  MINUTE: 'por minuto',
+  HOUR: 'por hora',
+  DAY: 'diário',
+};
+
+function floorToMinute(timestamp: number): number {
+  return timestamp - (timestamp % MINUTE_MS);
+}
+
+function normalizeLimit(value: any, label: string): number | null {
+  if (value === undefined || value === null || value === '' || value === 0 || value === '0') {
+    return null;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Limite ${label} deve ser um número inteiro positivo`);
+  }
+  return parsed;
+}
+
+function parseWarmupPlan(value: Prisma.JsonValue | undefined): WarmupStep[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const steps = value
+    .map((step: any) => ({ untilDay: Number(step?.untilDay), dailyCap: Number(step?.dailyCap) }))
+    .filter(step => Number.isInteger(step.untilDay) && step.untilDay >= 1 && Number.isInteger(step.dailyCap) && step.dailyCap >= 1)
+    .sort((a, b) => a.untilDay - b.untilDay);
+
+  return steps.length > 0 ? steps : null;
+}
+
+/**
+ * Envios das janelas (minuto atual, últimos 60 minutos, últimas 24 horas)
+ */
+function sumUsage(buckets: UsageBucket[], currentBucket: number) {
+  const usage = { minute: 0, hour: 0, day: 0 };
+  for (const bucket of buckets) {
+    const start = bucket.bucketStart.getTime();
+    if (start > currentBucket - DAY_MS) usage.day += bucket.count;
+    if (start > currentBucket - HOUR_MS) usage.hour += bucket.count;
+    if (start === currentBucket) usage.minute += bucket.count;
+  }
+  return usage;
+}
+
+/**
+ * Momento em que buckets suficientes saem da janela para liberar um novo envio
+ * (buckets em ordem crescente; um bucket sai da janela windowMs depois do seu início)
+ */
+function findRetryAt(buckets: UsageBucket[], currentBucket: number, windowMs: number, limit: number): Date {
+  const inWindow = buckets.filter(bucket => bucket.bucketStart.getTime() > currentBucket - windowMs);
+  let remaining = inWindow.reduce((sum, bucket) => sum + bucket.count, 0);
+
+  for (const bucket of inWindow) {
+    remaining -= bucket.count;
+    if (remaining < limit) {
+      return new Date(bucket.bucketStart.getTime() + windowMs);
+    }
+  }
+  return new Date(currentBucket + windowMs);
+}
+
+async function incrementBucket(client: Prisma.TransactionClient, sessionId: string, bucketStart: Date) {
+  await client.$executeRaw`
+    INSERT INTO session_send_buckets (session_id, bucket_start, count)
+    VALUES (${sessionId}, ${bucketStart}, 1)
+    ON CONFLICT (session_id, bucket_start) DO UPDATE SET count = session_send_buckets.count + 1
+  `;
+}
+
+function findBlockingWindow(buckets: UsageBucket[], limits: EffectiveSessionLimits, currentBucket: number) {
+  const usage = sumUsage(buckets, currentBucket);
+  const checks: Array<[RateLimitWindow, number, number | null, number]> = [
+    ['DAY', usage.day, limits.perDay, DAY_MS],
+    ['HOUR', usage.hour, limits.perHour, HOUR_MS],
+    ['MINUTE', usage.minute, limits.perMinute, MINUTE_MS],
+  ];
+
+  // A janela mais longa esgotada define a espera
+  for (const [window, used, limit, windowMs] of checks) {
+    if (limit !== null && used >= limit) {
+      return { window, retryAt: findRetryAt(buckets, currentBucket, windowMs, limit) };
+    }
+  }
+  return null;
+}
+
+export const sessionRateLimitService = {
+  /**
+   * Valida a configuração enviada pela API e monta os campos da sessão.
+   * O aquecimento começa agora quando o plano é criado ou quando restartWarmup é informado.
+   */
+  normalizeLimits(input: any, current: { warmupPlan: Prisma.JsonValue; warmupStartedAt: Date | null }) {
+    const warmupPlanInput = input?.warmupPlan;
+    let warmupPlan: WarmupStep[] | null = null;
+
+    if (warmupPlanInput !== undefined && warmupPlanInput !== null && !(Array.isArray(warmupPlanInput) && warmupPlanInput.length === 0)) {
+      if (!Array.isArray(warmupPlanInput)) {
+        throw new Error('Plano de aquecimento deve ser uma lista de etapas');
+      }
+      if (warmupPlanInput.length > MAX_WARMUP_STEPS) {
+        throw new Error(`Plano de aquecimento aceita no máximo ${MAX_WARMUP_STEPS} etapas`);
+      }
+
+      warmupPlan = warmupPlanInput.map((step: any, index: number) => {
+        const untilDay = Number(step?.untilDay);
+        const dailyCap = Number(step?.dailyCap);
+        if (!Number.isInteger(untilDay) || untilDay < 1) {
+          throw new Error(`Etapa ${index + 1} do aquecimento: dia final deve ser um inteiro maior que zero`);
+        }
+        if (!Number.isInteger(dailyCap) || dailyCap < 1) {
+          throw new Error(`Etapa ${index + 1} do aquecimento: limite diário deve ser um inteiro maior que zero`);
+        }
+        return { untilDay, dailyCap };
+      }).sort((a, b) => a.untilDay - b.untilDay);
+
+      if (new Set(warmupPlan.map(step => step.untilDay)).size !== warmupPlan.length) {
+        throw new Error('Plano de aquecimento possui etapas repetidas para o mesmo dia');
+      }
+    }
+
+    let warmupStartedAt: Date | null = null;
+    if (warmupPlan) {
+      if (input?.warmupStartedAt) {
+        warmupStartedAt = new Date(input.warmupStartedAt);
+        if (isNaN(warmupStartedAt.getTime())) {
+          throw new Error('Data de início do aquecimento inválida');
+        }
+      } else if (input?.restartWarmup || !parseWarmupPlan(current.warmupPlan) || !current.warmupStartedAt) {
+        warmupStartedAt = new Date();
+      } else {
+        warmupStartedAt = current.warmupStartedAt;
+      }
+    }
+
+    return {
+      rateLimitPerMinute: normalizeLimit(input?.rateLimitPerMinute, WINDOW_LABELS.MINUTE),
+      rateLimitPerHour: normalizeLimit(input?.rateLimitPerHour, WINDOW_LABELS.HOUR),
+      rateLimitPerDay: normalizeLimit(input?.rateLimitPerDay, WINDOW_LABELS.DAY),
+      warmupPlan: (warmupPlan ?? Prisma.DbNull) as any,
+      warmupStartedAt,
+    };
+  },
+
+  /**
+   * Limites vigentes da sessão no instante informado (aquecimento aplicado ao teto diário)
+   */
+  getEffectiveLimits(session: SessionLimitFields, now: Date = new Date()): EffectiveSessionLimits {
+    const plan = parseWarmupPlan(session.warmupPlan);
+    let warmupDay: number | null = null;
+    let warmupCap: number | null = null;
+
+    if (plan && session.warmupStartedAt) {
+      const day = Math.floor((now.getTime() - session.warmupStartedAt.getTime()) / DAY_MS) + 1;
+      const step = plan.find(s => day >= 1 && day <= s.untilDay);
+      if (step) {
+        warmupDay = day;
+        warmupCap = step.dailyCap;
+      }
+    }
+
+    const perDay = [session.rateLimitPerDay, warmupCap].filter((value): value is number => value !== null);
+
+    return {
+      perMinute: session.rateLimitPerMinute,
+      perHour: session.rateLimitPerHour,
+      perDay: perDay.length > 0 ? Math.min(...perDay) : null,
+      warmupDay,
+      warmupCap,
+    };
+  },
+
+  /**
+   * Reserva um envio no orçamento da sessão. Quando algum limite está esgotado,
+   * nada é consumido e retryAt indica quando a sessão volta a ter orçamento.
+   * Sessões desconhecidas (ex.: conexões sem WhatsAppSession) não são limitadas.
+   */
+  async reserve(sessionName: string, now: Date = new Date()): Promise<SendReservation> {
+    const session = await prisma.whatsAppSession.findUnique({
+      where: { name: sessionName },
+      select: { id: true, ...LIMIT_FIELDS },
+    });
+
+    const currentBucket = floorToMinute(now.getTime());
+    const bucketStart = new Date(currentBucket);
+
+    if (!session) {
+      return { allowed: true, sessionName, sessionId: null, bucketStart };
+    }
+
+    this.pruneOldBuckets(now).catch(error => console.error('❌ Erro ao limpar buckets de envio:', error));
+
+    const limits = this.getEffectiveLimits(session, now);
+
+    if (limits.perMinute === null && limits.perHour === null && limits.perDay === null) {
+      await incrementBucket(prisma, session.id, bucketStart);
+      return { allowed: true, sessionName, sessionId: session.id, bucketStart };
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Serializa reservas da mesma sessão entre workers e processos
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${session.id}))`;
+
+      const buckets = await tx.sessionSendBucket.findMany({
+        where: { sessionId: session.id, bucketStart: { gt: new Date(currentBucket - DAY_MS) } },
+        select: { bucketStart: true, count: true },
+        orderBy: { bucketStart: 'asc' },
+      });
+
+      const blocked = findBlockingWindow(buckets, limits, currentBucket);
+      if (blocked) {
+        return { allowed: false as const, sessionName, ...blocked };
+      }
+
+      await incrementBucket(tx, session.id, bucketStart);
+      return { allowed: true as const, sessionName, sessionId: session.id, bucketStart };
+    });
+  },
+
+  /**
+   * Reserva na primeira sessão da lista com orçamento disponível.
+   * Se todas estiverem esgotadas, retorna a que libera primeiro.
+   */
+  async reserveFirstAvailable(sessionNames: string[], now: Date = new Date()): Promise<SendReservation> {
+    let earliest: SendReservation | null = null;
+
+    for (const sessionName of sessionNames) {
+      const reservation = await this.reserve(sessionName, now);
+      if (reservation.allowed) {
+        return reservation;
+      }
+      if (!earliest || (!earliest.allowed && reservation.retryAt < earliest.retryAt)) {
+        earliest = reservation;
+      }
+    }
+
+    if (!earliest) {
+      throw new Error('Nenhuma sessão informada para reserva de envio');
+    }
+    return earliest;
+  },
+
+  /**
+   * Devolve uma reserva que não virou envio (ex.: número inexistente no WhatsApp)
+   */
+  async release(reservation: SendReservation) {
+    if (!reservation.allowed || !reservation.sessionId) return;
+
+    await prisma.sessionSendBucket.updateMany({
+      where: { sessionId: reservation.sessionId, bucketStart: reservation.bucketStart, count: { gt: 0 } },
+      data: { count: { decrement: 1 } },
+    });
+  },
+
+  /**
+   * Registra um envio sem verificar limites (ex.: respostas dentro de uma conversa já iniciada).
+   * Falhas são apenas registradas no log: a mensagem já foi enviada.
+   */
+  async recordSend(sessionName: string, now: Date = new Date()) {
+    try {
+      const session = await prisma.whatsAppSession.findUnique({ where: { name: sessionName }, select: { id: true } });
+      if (!session) return;
+      await incrementBucket(prisma, session.id, new Date(floorToMinute(now.getTime())));
+    } catch (error) {
+      console.error(`❌ Erro ao registrar envio da sessão ${sessionName}:`, error);
+    }
+  },
+
+  /**
+   * Orçamento e consumo atual das sessões (exibidos na tela de conexões)
+   */
+  async getBudgets(tenantId?: string, now: Date = new Date()): Promise<SessionSendBudget[]> {
+    const sessions = await prisma.whatsAppSession.findMany({
+      where: tenantId ? { tenantId } : {},
+      select: { id: true, name: true, ...LIMIT_FIELDS },
+      orderBy: { name: 'asc' },
+    });
+
+    if (sessions.length === 0) {
+      return [];
+    }
+
+    const currentBucket = floorToMinute(now.getTime());
+    const buckets = await prisma.sessionSendBucket.findMany({
+      where: { sessionId: { in: sessions.map(s => s.id) }, bucketStart: { gt: new Date(currentBucket - DAY_MS) } },
+      select: { sessionId: true, bucketStart: true, count: true },
+      orderBy: { bucketStart: 'asc' },
+    });
+
+    return sessions.map(session => {
+      const sessionBuckets = buckets.filter(bucket => bucket.sessionId === session.id);
+      const limits = this.getEffectiveLimits(session, now);
+
+      return {
+        sessionName: session.name,
+        limits,
+        config: {
+          rateLimitPerMinute: session.rateLimitPerMinute,
+          rateLimitPerHour: session.rateLimitPerHour,
+          rateLimitPerDay: session.rateLimitPerDay,
+          warmupPlan: parseWarmupPlan(session.warmupPlan),
+          warmupStartedAt: session.warmupStartedAt,
+        },
+        usage: sumUsage(sessionBuckets, currentBucket),
+        blocked: findBlockingWindow(sessionBuckets, limits, currentBucket),
+      };
+    });
+  },
+
+  describeWindow(window: RateLimitWindow): string {
+    return WINDOW_LABELS[window];
+  },
+
+  /**
+   * Remove buckets que já saíram de todas as janelas (no máximo uma vez por hora)
+   */
+  async pruneOldBuckets(now: Date = new Date()) {
+    if (now.getTime() - lastPruneAt < PRUNE_INTERVAL_MS) return;
+    lastPruneAt = now.getTime();
+
+    const { count } = await prisma.sessionSendBucket.deleteMany({
+      where: { bucketStart: { lt: new Date(now.getTime() - BUCKET_RETENTION_MS) } },
+    });
+    if (count > 0) {
+      console.log(`🧹 ${count} buckets antigos de envio por sessão removidos`);
+    }
+  },
+};
@@ -1,5 +1,7 @@
 import { prisma } from '../lib/prisma';
 
+const DEFAULT_CLOUD_API_GRAPH_URL = 'https://graph.facebook.com/v21.0';
+
 export class SettingsService {
   private static instance: SettingsService;
   private cachedSettings: any = null;
@@ -56,6 +58,9 @@ export class SettingsService {
         quepasaUrl: '',
         quepasaLogin: '',
         quepasaPassword: '',
+        cloudApiGraphUrl: DEFAULT_CLOUD_API_GRAPH_URL,
+        cloudApiAppSecret: '',
+        cloudApiVerifyToken: '',
         companyName: '',
         logoUrl: null,
         faviconUrl: '/api/uploads/default_favicon.png',
@@ -81,6 +86,9 @@ export class SettingsService {
     quepasaUrl?: string;
     quepasaLogin?: string;
     quepasaPassword?: string;
+    cloudApiGraphUrl?: string;
+    cloudApiAppSecret?: string;
+    cloudApiVerifyToken?: string;
     logoUrl?: string | null;
     companyName?: string;
     faviconUrl?: string | null;
@@ -104,6 +112,9 @@ export class SettingsService {
             quepasaUrl: data.quepasaUrl !== undefined ? data.quepasaUrl : settings.quepasaUrl,
             quepasaLogin: data.quepasaLogin !== undefined ? data.quepasaLogin : settings.quepasaLogin,
             quepasaPassword: data.quepasaPassword !== undefined ? data.quepasaPassword : settings.quepasaPassword,
+            cloudApiGraphUrl: data.cloudApiGraphUrl !== undefined ? data.cloudApiGraphUrl || DEFAULT_CLOUD_API_GRAPH_URL : settings.cloudApiGraphUrl,
+            cloudApiAppSecret: data.cloudApiAppSecret !== undefined ? data.cloudApiAppSecret : settings.cloudApiAppSecret,
+            cloudApiVerifyToken: data.cloudApiVerifyToken !== undefined ? data.cloudApiVerifyToken : settings.cloudApiVerifyToken,
             logoUrl: data.logoUrl !== undefined ? data.logoUrl : settings.logoUrl,
             companyName: data.companyName !== undefined ? data.companyName : settings.companyName,
             faviconUrl: data.faviconUrl !== undefined ? data.faviconUrl : settings.faviconUrl,
@@ -124,6 +135,9 @@ export class SettingsService {
             quepasaUrl: data.quepasaUrl || '',
             quepasaLogin: data.quepasaLogin || '',
             quepasaPassword: data.quepasaPassword || '',
+            cloudApiGraphUrl: data.cloudApiGraphUrl || DEFAULT_CLOUD_API_GRAPH_URL,
+            cloudApiAppSecret: data.cloudApiAppSecret || '',
+            cloudApiVerifyToken: data.cloudApiVerifyToken || '',
             logoUrl: data.logoUrl || null,
             companyName: data.companyName || 'Astra Campaign',
             faviconUrl: data.faviconUrl || '/api/uploads/default_favicon.png',
@@ -177,6 +191,16 @@ export class SettingsService {
       password: settings.quepasaPassword
     };
   }
+
+  // Método para obter configurações da WhatsApp Cloud API (Meta) especificamente
+  async getCloudApiConfig() {
+    const settings = await this.getSettings();
+    return {
+      graphUrl: (settings.cloudApiGraphUrl || DEFAULT_CLOUD_API_GRAPH_URL).replace(/\/+$/, ''),
+      appSecret: settings.cloudApiAppSecret,
+      verifyToken: settings.cloudApiVerifyToken
+    };
+  }
 }
 
 export const settingsService = SettingsService.getInstance();
\ No newline at end of file
@@ -0,0 +1,99 @@
+/**
+ * Template Variable Service
+ * Resolvedor único das variáveis {{campo}} usadas nas mensagens (campanhas, templates,
+ * fluxos interativos e prompts de IA): campos nativos do contato + campos personalizados do tenant.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ContactFieldService } from './contactFieldService';
+
+const prisma = new PrismaClient();
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type TemplateVariables = Record<string, string>;
+
+export const templateVariableService = {
+  /**
+   * Monta o mapa de variáveis de um contato. Campos personalizados definidos no tenant
+   * sempre existem no mapa (vazios quando o contato não tem valor), assim {{campo}} nunca vaza na mensagem.
+   */
+  async getContactVariables(contact: any, tenantId?: string | null): Promise<TemplateVariables> {
+    const data = contact || {};
+    const fields = await ContactFieldService.getCachedFields(tenantId || data.tenantId);
+
+    let categoria = typeof data.categoria === 'string' ? data.categoria : data.categoria?.nome;
+    if (categoria === undefined && data.categoriaId) {
+      const category = await prisma.category.findUnique({
+        where: { id: data.categoriaId },
+        select: { nome: true },
+      });
+      categoria = category?.nome;
+    }
+
+    const variables: TemplateVariables = {
+      nome: data.nome || '',
+      telefone: data.telefone || '',
+      email: data.email || '',
+      observacoes: data.observacoes || '',
+      categoria: categoria || '',
+    };
+
+    const customValues = (data.customFields as Record<string, any>) || {};
+    for (const field of fields) {
+      variables[field.key] = this.formatValue(field.type, customValues[field.key]);
+    }
+
+    return variables;
+  },
+
+  /**
+   * Formata o valor armazenado para exibição na mensagem (datas em DD/MM/AAAA)
+   */
+  formatValue(type: string, value: any): string {
+    if (value === undefined || value === null) return '';
+
+    if (type === 'date') {
+      const match = String(value).match(/^(\d{4})-(\d{2})-(\d{2})/);
+      return match ? `${match[3]}/${match[2]}/${match[1]}` : String(value);
+    }
+
+    if (type === 'number' && typeof value === 'number') {
+      return value.toLocaleString('pt-BR');
+    }
+
+    return String(value);
+  },
+
+  /**
+   * Substitui {{variavel}} no texto. Variáveis desconhecidas são mantidas como estão.
+   */
+  render(text: string, variables: TemplateVariables): string {
+    if (typeof text !== 'string' || !text) return text;
+
+    return text.replace(VARIABLE_PATTERN, (match, name: string) => {
+      const key = name.toLowerCase();
+      return Object.prototype.hasOwnProperty.call(variables, key) ? variables[key] : match;
+    });
+  },
+
+  /**
+   * Aplica render em todas as strings de um conteúdo (objetos de mensagem, sequências, variações)
+   */
+  renderContent(content: any, variables: TemplateVariables): any {
+    if (typeof content === 'string') {
+      return this.render(content, variables);
+    }
+    if (Array.isArray(content)) {
+      return content.map(item => this.renderContent(item, variables));
+    }
+    if (content && typeof content === 'object') {
+      const rendered: any = {};
+      for (const [key, value] of Object.entries(content)) {
+        rendered[key] = this.renderContent(value, variables);
+      }
+      return rendered;
+    }
+    return content;
+  },
+};
@@ -44,6 +44,13 @@ export class TenantSettingsService {
     chatwootApiToken?: string | null;
     perfexUrl?: string | null;
     perfexToken?: string | null;
+    sendingWindow?: any;
+    smtpHost?: string | null;
+    smtpPort?: number | null;
+    smtpSecure?: boolean;
+    smtpUser?: string | null;
+    smtpPassword?: string | null;
+    smtpFrom?: string | null;
   }) {
     try {
       const settings = await prisma.tenantSettings.upsert({
@@ -56,7 +63,14 @@ export class TenantSettingsService {
           chatwootAccountId: data.chatwootAccountId !== undefined ? data.chatwootAccountId : undefined,
           chatwootApiToken: data.chatwootApiToken !== undefined ? data.chatwootApiToken : undefined,
           perfexUrl: data.perfexUrl !== undefined ? data.perfexUrl : undefined,
-          perfexToken: data.perfexToken !== undefined ? data.perfexToken : undefined
+          perfexToken: data.perfexToken !== undefined ? data.perfexToken : undefined,
+          sendingWindow: data.sendingWindow !== undefined ? data.sendingWindow : undefined,
+          smtpHost: data.smtpHost !== undefined ? data.smtpHost : undefined,
+          smtpPort: data.smtpPort !== undefined ? data.smtpPort : undefined,
+          smtpSecure: data.smtpSecure !== undefined ? data.smtpSecure : undefined,
+          smtpUser: data.smtpUser !== undefined ? data.smtpUser : undefined,
+          smtpPassword: data.smtpPassword !== undefined ? data.smtpPassword : undefined,
+          smtpFrom: data.smtpFrom !== undefined ? data.smtpFrom : undefined
         },
         create: {
           tenantId,
@@ -67,7 +81,14 @@ export class TenantSettingsService {
           chatwootAccountId: data.chatwootAccountId || null,
           chatwootApiToken: data.chatwootApiToken || null,
           perfexUrl: data.perfexUrl || null,
-          perfexToken: data.perfexToken || null
+          perfexToken: data.perfexToken || null,
+          sendingWindow: data.sendingWindow || undefined,
+          smtpHost: data.smtpHost || null,
+          smtpPort: data.smtpPort || null,
+          smtpSecure: data.smtpSecure || false,
+          smtpUser: data.smtpUser || null,
+          smtpPassword: data.smtpPassword || null,
+          smtpFrom: data.smtpFrom || null
         }
       });
 
@@ -1,5 +1,6 @@
 // Serviço para comunicação com a API WAHA
 import { settingsService } from './settingsService';
+import type { PollMessage, LocationMessage, ContactCardMessage, ReactionMessage } from './whatsappProviders/types';
 
 // Função para normalizar números brasileiros
 function normalizeBrazilianPhone(phone: string): string {
@@ -19,6 +20,10 @@ interface WAHAMessage {
   document?: { url: string };
   fileName?: string;
   caption?: string;
+  poll?: PollMessage;
+  location?: LocationMessage;
+  contact?: ContactCardMessage;
+  reaction?: ReactionMessage;
 }
 
 export async function sendMessage(sessionName: string, phone: string, message: WAHAMessage, validatedChatId?: string) {
@@ -30,12 +35,54 @@ export async function sendMessage(sessionName: string, phone: string, message: W
     const chatId = validatedChatId || `${normalizeBrazilianPhone(phone)}@c.us`;
 
     let endpoint = '';
+    let method = 'POST';
     let requestBody: any = {
       chatId: chatId,
       session: sessionName
     };
 
-    if (message.text) {
+    if (message.poll) {
+      endpoint = '/api/sendPoll';
+      requestBody = {
+        chatId: chatId,
+        poll: {
+          name: message.poll.name,
+          options: message.poll.options.map(option => option.title),
+          multipleAnswers: (message.poll.selectableCount || 1) > 1
+        },
+        session: sessionName
+      };
+    } else if (message.location) {
+      endpoint = '/api/sendLocation';
+      requestBody = {
+        chatId: chatId,
+        latitude: message.location.latitude,
+        longitude: message.location.longitude,
+        title: message.location.name || message.location.address || '',
+        session: sessionName
+      };
+    } else if (message.contact) {
+      endpoint = '/api/sendContactVcard';
+      requestBody = {
+        chatId: chatId,
+        contacts: [{
+          fullName: message.contact.fullName,
+          organization: message.contact.organization || '',
+          phoneNumber: `+${message.contact.phone}`,
+          whatsappId: message.contact.phone
+        }],
+        session: sessionName
+      };
+    } else if (message.reaction) {
+      // Reação é aplicada sobre uma mensagem existente do chat
+      endpoint = '/api/reaction';
+      method = 'PUT';
+      requestBody = {
+        messageId: message.reaction.messageId,
+        reaction: message.reaction.emoji,
+        session: sessionName
+      };
+    } else if (message.text) {
       endpoint = '/api/sendText';
       requestBody = {
         chatId: chatId,
@@ -103,7 +150,7 @@ export async function sendMessage(sessionName: string, phone: string, message: W
     console.log(`WAHA API - Request body:`, JSON.stringify(requestBody, null, 2));
 
     const response = await fetch(`${wahaConfig.host}${endpoint}`, {
-      method: 'POST',
+      method,
       headers: {
         'Content-Type': 'application/json',
         'X-Api-Key': wahaConfig.apiKey
@@ -119,7 +119,7 @@ export class WahaSyncService {
       sessionData.config.webhooks = [
         {
           url: webhookUrl,
-          events: ['message.any'],
+          events: ['message.any', 'message.ack', 'poll.vote'],
           hmac: null,
           retries: null,
           customHeaders: null,
@@ -0,0 +1,482 @@
+import crypto from 'crypto';
+import { WhatsAppSession } from '@prisma/client';
+import { settingsService } from '../settingsService';
+import { WhatsAppSessionService } from '../whatsappSessionService';
+import { conversationService } from '../conversationService';
+import { prisma } from '../../lib/prisma';
+import {
+  WhatsAppProvider,
+  ProviderSession,
+  ProviderMessage,
+  TemplateMessage,
+  AckStatus,
+  MessageAck,
+  InboundMedia,
+  QrCodeUnavailableError,
+  CustomerServiceWindowClosedError,
+} from './types';
+import { parseProviderTimestamp, normalizeInboundMediaType, downloadFromUrl } from './utils';
+import { buildTextFallback, hasInteractiveContent } from './interactiveMessages';
+
+const fetch = require('node-fetch');
+
+// Mensagens livres só podem ser enviadas até 24h após a última mensagem do contato
+const CUSTOMER_SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Erro da Graph API para mensagem livre fora da janela de atendimento (re-engagement)
+const REENGAGEMENT_ERROR_CODE = 131047;
+
+// Limites das mensagens interativas da Cloud API
+const MAX_REPLY_BUTTONS = 3;
+const MAX_LIST_ROWS = 10;
+
+/**
+ * Erro retornado pela Graph API ({ error: { message, code } })
+ */
+class GraphApiError extends Error {
+  constructor(public code: number | undefined, message: string) {
+    super(message);
+    this.name = 'GraphApiError';
+  }
+}
+
+/**
+ * Cloud API status: sent, delivered, read, failed
+ */
+function mapCloudApiStatus(status: any): AckStatus | null {
+  const name = String(status || '').toLowerCase();
+  if (name === 'read') return 'READ';
+  if (name === 'delivered') return 'DELIVERED';
+  if (name === 'failed') return 'FAILED';
+  return null;
+}
+
+async function graphRequest(path: string, accessToken: string, options: { method?: string; body?: any } = {}) {
+  const { graphUrl } = await settingsService.getCloudApiConfig();
+
+  const response = await fetch(`${graphUrl}/${path}`, {
+    method: options.method || 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: options.body ? JSON.stringify(options.body) : undefined
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || data?.error) {
+    const error = data?.error || {};
+    throw new GraphApiError(error.code, `Cloud API: ${error.message || response.statusText} (${error.code || response.status})`);
+  }
+
+  return data;
+}
+
+/**
+ * Credenciais da sessão: vêm da WhatsAppSession ou, para conexões convertidas, são buscadas pelo nome
+ */
+async function resolveCredentials(session: ProviderSession) {
+  if (session.id && session.cloudPhoneNumberId && session.cloudAccessToken) {
+    return { sessionId: session.id, phoneNumberId: session.cloudPhoneNumberId, accessToken: session.cloudAccessToken };
+  }
+
+  const saved = await prisma.whatsAppSession.findUnique({
+    where: { name: session.name },
+    select: { id: true, cloudPhoneNumberId: true, cloudAccessToken: true }
+  });
+
+  if (!saved?.cloudPhoneNumberId || !saved.cloudAccessToken) {
+    throw new Error(`Sessão ${session.name} não tem credenciais da WhatsApp Cloud API`);
+  }
+
+  return { sessionId: saved.id, phoneNumberId: saved.cloudPhoneNumberId, accessToken: saved.cloudAccessToken };
+}
+
+// A Cloud API recebe o número em formato internacional, somente dígitos
+function toRecipient(phone: string): string {
+  return String(phone || '').split('@')[0].replace(/\D/g, '');
+}
+
+/**
+ * Janela de atendimento aberta = o contato enviou alguma mensagem para a sessão nas últimas 24h
+ */
+async function isCustomerServiceWindowOpen(sessionId: string, recipient: string): Promise<boolean> {
+  const lastInbound = await prisma.message.findFirst({
+    where: {
+      sessionId,
+      contactPhone: conversationService.normalizePhone(recipient),
+      direction: 'INBOUND',
+      timestamp: { gte: new Date(Date.now() - CUSTOMER_SERVICE_WINDOW_MS) }
+    },
+    select: { id: true }
+  });
+  return !!lastInbound;
+}
+
+function mediaTypeFromUrl(url: string): 'image' | 'video' | 'audio' | 'document' {
+  const extension = String(url || '').split('?')[0].split('.').pop()?.toLowerCase() || '';
+  if (['mp4', '3gp', 'mov'].includes(extension)) return 'video';
+  if (['mp3', 'ogg', 'opus', 'aac', 'amr', 'm4a'].includes(extension)) return 'audio';
+  if (['jpg', 'jpeg', 'png', 'webp', 'gif'].includes(extension)) return 'image';
+  return 'document';
+}
+
+/**
+ * Converte o payload do sistema ({ text } | { image, caption } ...) no corpo de mensagem da Graph API
+ */
+function buildInteractiveBody(message: ProviderMessage): Record<string, any> | null {
+  const footer = (text?: string) => (text ? { footer: { text: text.substring(0, 60) } } : {});
+
+  if (message.buttons && message.buttons.buttons.length <= MAX_REPLY_BUTTONS) {
+    return {
+      type: 'interactive',
+      interactive: {
+        type: 'button',
+        body: { text: message.buttons.text },
+        ...footer(message.buttons.footer),
+        action: {
+          buttons: message.buttons.buttons.map(button => ({
+            type: 'reply',
+            reply: { id: button.id, title: button.title.substring(0, 20) }
+          }))
+        }
+      }
+    };
+  }
+
+  // Mais de 3 botões não cabem em reply buttons: enviados como lista
+  const list = message.list || (message.buttons && {
+    text: message.buttons.text,
+    footer: message.buttons.footer,
+    buttonText: 'Ver opções',
+    sections: [{ rows: message.buttons.buttons }]
+  });
+  if (list) {
+    const rowCount = list.sections.reduce((total, section) => total + section.rows.length, 0);
+    if (rowCount > MAX_LIST_ROWS) return null;
+    return {
+      type: 'interactive',
+      interactive: {
+        type: 'list',
+        body: { text: list.text },
+        ...footer(list.footer),
+        action: {
+          button: list.buttonText.substring(0, 20),
+          sections: list.sections.map(section => ({
+            ...(section.title && { title: section.title.substring(0, 24) }),
+            rows: section.rows.map(row => ({
+              id: row.id,
+              title: row.title.substring(0, 24),
+              ...(row.description && { description: row.description.substring(0, 72) })
+            }))
+          }))
+        }
+      }
+    };
+  }
+
+  if (message.location) {
+    return { type: 'location', location: message.location };
+  }
+  if (message.contact) {
+    const { fullName, phone, organization, email } = message.contact;
+    return {
+      type: 'contacts',
+      contacts: [{
+        name: { formatted_name: fullName, first_name: fullName.split(' ')[0] },
+        phones: [{ phone: `+${phone}`, wa_id: phone, type: 'CELL' }],
+        ...(organization && { org: { company: organization } }),
+        ...(email && { emails: [{ email, type: 'WORK' }] })
+      }]
+    };
+  }
+  if (message.reaction) {
+    return { type: 'reaction', reaction: { message_id: message.reaction.messageId, emoji: message.reaction.emoji } };
+  }
+  return null;
+}
+
+function buildContentBody(message: ProviderMessage): Record<string, any> | null {
+  if (hasInteractiveContent(message)) {
+    // Enquetes (e listas acima do limite de linhas) não existem na Cloud API: seguem como texto numerado
+    return buildInteractiveBody(message) || buildContentBody(buildTextFallback(message));
+  }
+  if (message.image?.url) {
+    return { type: 'image', image: { link: message.image.url, caption: message.caption || undefined } };
+  }
+  if (message.video?.url) {
+    return { type: 'video', video: { link: message.video.url, caption: message.caption || undefined } };
+  }
+  if (message.audio?.url) {
+    return { type: 'audio', audio: { link: message.audio.url } };
+  }
+  if (message.document?.url) {
+    return {
+      type: 'document',
+      document: { link: message.document.url, filename: message.fileName || undefined, caption: message.caption || undefined }
+    };
+  }
+  if (message.media?.url) {
+    // Formato { media: { url, caption } } usado no disparo das campanhas interativas
+    const type = mediaTypeFromUrl(message.media.url);
+    const caption = type === 'audio' ? undefined : message.media.caption || undefined;
+    return { type, [type]: { link: message.media.url, caption } };
+  }
+  if (message.text) {
+    return { type: 'text', text: { body: message.text, preview_url: /https?:\/\//i.test(message.text) } };
+  }
+  return null;
+}
+
+function buildTemplateBody(template: TemplateMessage): Record<string, any> {
+  const parameters = (template.parameters || []).map(text => ({ type: 'text', text: String(text ?? '') }));
+  return {
+    type: 'template',
+    template: {
+      name: template.name,
+      language: { code: template.language || 'pt_BR' },
+      ...(parameters.length > 0 && { components: [{ type: 'body', parameters }] })
+    }
+  };
+}
+
+/**
+ * Id da opção escolhida em respostas interativas (botão, lista) ou payload do botão de template
+ */
+function extractSelectionId(message: any): string | null {
+  const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+  return reply?.id || message.button?.payload || null;
+}
+
+/**
+ * Mídia, localização ou contato recebido; arquivos vêm só com o id da mídia, baixada pela Graph API
+ */
+function extractMedia(message: any): InboundMedia | null {
+  const type = normalizeInboundMediaType(message.type);
+  if (type === 'location') {
+    return { type, latitude: Number(message.location?.latitude), longitude: Number(message.location?.longitude) };
+  }
+  if (type === 'contact') {
+    return { type };
+  }
+  const file = type ? message[message.type] : null;
+  if (!type || !file?.id) {
+    return null;
+  }
+  return {
+    type,
+    mimetype: file.mime_type || null,
+    fileName: file.filename || null,
+    providerMediaId: file.id,
+  };
+}
+
+/**
+ * Texto da mensagem recebida (corpo, legenda, botão de template ou resposta interativa)
+ */
+function extractContent(message: any): string {
+  const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+  return message.text?.body ||
+    message[message.type]?.caption ||
+    message.button?.text ||
+    reply?.title ||
+    message.reaction?.emoji ||
+    message.location?.name ||
+    '';
+}
+
+/**
+ * Valida o cabeçalho X-Hub-Signature-256 (HMAC SHA-256 do corpo bruto com o App Secret)
+ */
+export function verifyCloudApiSignature(rawBody: Buffer | string, signature: string | undefined, appSecret: string): boolean {
+  if (!signature || !appSecret) return false;
+
+  const expected = `sha256=${crypto.createHmac('sha256', appSecret).update(rawBody).digest('hex')}`;
+  const received = Buffer.from(signature);
+  const computed = Buffer.from(expected);
+  return received.length === computed.length && crypto.timingSafeEqual(received, computed);
+}
+
+/**
+ * Um webhook da Meta pode trazer várias mensagens e status de números diferentes.
+ * Separa em payloads de um único evento, no mesmo formato, com o phone_number_id que identifica a sessão.
+ */
+export function splitCloudApiWebhook(payload: any): Array<{ phoneNumberId: string; payload: any }> {
+  const events: Array<{ phoneNumberId: string; payload: any }> = [];
+
+  for (const entry of payload?.entry || []) {
+    for (const change of entry.changes || []) {
+      const value = change.value || {};
+      const phoneNumberId = value.metadata?.phone_number_id;
+      if (change.field !== 'messages' || !phoneNumberId) continue;
+
+      const wrap = (partial: any) => ({
+        phoneNumberId,
+        payload: {
+          object: payload.object,
+          entry: [{ id: entry.id, changes: [{ field: change.field, value: { messaging_product: value.messaging_product, metadata: value.metadata, ...partial } }] }]
+        }
+      });
+
+      for (const message of value.messages || []) {
+        events.push(wrap({ contacts: value.contacts, messages: [message] }));
+      }
+      if (value.statuses?.length) {
+        events.push(wrap({ statuses: value.statuses }));
+      }
+    }
+  }
+
+  return events;
+}
+
+function firstChangeValue(payload: any): any {
+  return payload?.entry?.[0]?.changes?.[0]?.value;
+}
+
+export const cloudApiProvider: WhatsAppProvider = {
+  name: 'CLOUD_API',
+
+  async sendMessage(session, to, message) {
+    const credentials = await resolveCredentials(session);
+    const recipient = toRecipient(to);
+    const content = buildContentBody(message);
+
+    let body: Record<string, any>;
+    if (!content) {
+      if (!message.template) {
+        throw new Error('Mensagem sem conteúdo para a WhatsApp Cloud API');
+      }
+      body = buildTemplateBody(message.template);
+    } else if (await isCustomerServiceWindowOpen(credentials.sessionId, recipient)) {
+      body = content;
+    } else if (message.template) {
+      console.log(`📋 Janela de 24h fechada para ${recipient}: enviando template ${message.template.name}`);
+      body = buildTemplateBody(message.template);
+    } else {
+      throw new CustomerServiceWindowClosedError(recipient, `Janela de atendimento de 24h fechada para ${recipient}: envie um template aprovado`);
+    }
+
+    try {
+      const result = await graphRequest(`${credentials.phoneNumberId}/messages`, credentials.accessToken, {
+        method: 'POST',
+        body: { messaging_product: 'whatsapp', recipient_type: 'individual', to: recipient, ...body }
+      });
+      return { messageId: result?.messages?.[0]?.id || null, raw: result };
+    } catch (error) {
+      if (error instanceof GraphApiError && error.code === REENGAGEMENT_ERROR_CODE) {
+        throw new CustomerServiceWindowClosedError(recipient, `Janela de atendimento de 24h fechada para ${recipient}: envie um template aprovado`);
+      }
+      throw error;
+    }
+  },
+
+  async checkNumber(session, phone) {
+    // A Cloud API não tem consulta de contatos: números sem WhatsApp falham no envio
+    const recipient = toRecipient(phone);
+    return { exists: recipient.length >= 8, recipient };
+  },
+
+  /**
+   * Formato da Meta:
+   * { object: 'whatsapp_business_account', entry: [{ changes: [{ field: 'messages', value: {
+   *   metadata: { phone_number_id }, contacts: [{ wa_id, profile }], messages: [{ from, id, timestamp, type, text: { body } }]
+   * } }] }] }
+   */
+  parseInbound(payload) {
+    try {
+      if (payload?.object !== 'whatsapp_business_account') return null;
+
+      const message = firstChangeValue(payload)?.messages?.[0];
+      if (!message) return null;
+
+      const media = extractMedia(message);
+      return {
+        messageId: message.id,
+        from: message.from,
+        fromNumber: message.from,
+        timestamp: message.timestamp,
+        type: media?.type || message.type || 'text',
+        content: extractContent(message),
+        selectionId: extractSelectionId(message),
+        media,
+        isFromMe: false,
+        raw: payload
+      };
+    } catch (error) {
+      console.error('Erro ao extrair mensagem Cloud API:', error);
+      return null;
+    }
+  },
+
+  async downloadMedia(session, message) {
+    if (!message.media?.providerMediaId) return null;
+    const credentials = await resolveCredentials(session);
+
+    // A Graph API informa uma URL temporária, que também exige o token de acesso
+    const info = await graphRequest(message.media.providerMediaId, credentials.accessToken);
+    const downloaded = await downloadFromUrl(info.url, { 'Authorization': `Bearer ${credentials.accessToken}` });
+    return { ...downloaded, mimetype: info.mime_type || downloaded.mimetype, fileName: message.media.fileName };
+  },
+
+  parseAck(payload) {
+    // { ...value: { statuses: [{ id, status, timestamp, recipient_id }] } }
+    if (payload?.object !== 'whatsapp_business_account') return null;
+    const statuses = firstChangeValue(payload)?.statuses;
+    if (!Array.isArray(statuses)) return null;
+    return statuses
+      .map((status: any) => ({
+        messageId: status.id,
+        status: mapCloudApiStatus(status.status),
+        timestamp: parseProviderTimestamp(Number(status.timestamp) || status.timestamp),
+        ...(status.errors?.[0] && { error: `${status.errors[0].title || status.errors[0].message} (${status.errors[0].code})` }),
+      }))
+      .filter((ack: any): ack is MessageAck => !!ack.messageId && !!ack.status);
+  },
+
+  async createSession(session: WhatsAppSession) {
+    // Não há pareamento: a sessão conecta assim que as credenciais são validadas na Graph API
+    return this.startSession(session);
+  },
+
+  async startSession(session) {
+    const credentials = await resolveCredentials(session);
+
+    try {
+      const info = await graphRequest(`${credentials.phoneNumberId}?fields=display_phone_number,verified_name`, credentials.accessToken);
+      const phoneNumber = toRecipient(info.display_phone_number || '');
+
+      await WhatsAppSessionService.updateStatusFast(session.name, 'WORKING', {
+        id: phoneNumber,
+        pushName: info.verified_name || '',
+        jid: `${phoneNumber}@s.whatsapp.net`
+      }, { qr: null, qrExpiresAt: null });
+      console.log(`✅ Sessão Cloud API ${session.name} conectada (${info.display_phone_number})`);
+
+      return { status: 'WORKING', phoneNumber: info.display_phone_number, verifiedName: info.verified_name };
+    } catch (error) {
+      await WhatsAppSessionService.updateStatusFast(session.name, 'FAILED');
+      throw error;
+    }
+  },
+
+  async stopSession(session) {
+    // O número continua registrado na Meta: a sessão só sai da rotação de envios
+    await WhatsAppSessionService.updateStatusFast(session.name, 'STOPPED');
+    return { message: 'Sessão Cloud API parada' };
+  },
+
+  async restartSession(session) {
+    return this.startSession(session);
+  },
+
+  async deleteSession(session) {
+    // O número pertence à conta WhatsApp Business da Meta e não é removido por aqui
+    console.log(`🗑️ Sessão Cloud API ${session.name} removida (número mantido na conta da Meta)`);
+  },
+
+  async getQR(session) {
+    throw new QrCodeUnavailableError(session.status || 'WORKING', 'Sessões da WhatsApp Cloud API não usam QR Code');
+  }
+};
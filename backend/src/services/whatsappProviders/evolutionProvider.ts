@@ -0,0 +1,218 @@
+import { WhatsAppSession } from '@prisma/client';
+import {
+  sendMessageViaEvolution,
+  checkContactExistsEvolution,
+  downloadMediaViaEvolution,
+  getEvolutionCredentialsFromSession,
+} from '../evolutionMessageService';
+import { evolutionApiService } from '../evolutionApiService';
+import { WhatsAppSessionService } from '../whatsappSessionService';
+import { WhatsAppProvider, ProviderSession, AckStatus, MessageAck, InboundMedia, QR_CODE_TTL_MS } from './types';
+import { parseProviderTimestamp, normalizeInboundMediaType } from './utils';
+
+const FILE_MESSAGE_KEYS = ['imageMessage', 'videoMessage', 'audioMessage', 'documentMessage', 'stickerMessage'];
+
+/**
+ * Evolution/Baileys status: SERVER_ACK, DELIVERY_ACK, READ, PLAYED (ou numérico 2..5)
+ */
+function mapEvolutionStatus(status: any): AckStatus | null {
+  if (typeof status === 'number') {
+    if (status >= 4) return 'READ';
+    if (status === 3) return 'DELIVERED';
+    return null;
+  }
+  const name = String(status || '').toUpperCase();
+  if (name === 'READ' || name === 'PLAYED') return 'READ';
+  if (name === 'DELIVERY_ACK' || name === 'DELIVERED') return 'DELIVERED';
+  return null;
+}
+
+/**
+ * Id e título da opção escolhida em respostas de botão, lista ou botão de template
+ */
+function extractSelection(message: any): { id: string; title: string } | null {
+  const buttons = message?.buttonsResponseMessage;
+  if (buttons?.selectedButtonId) {
+    return { id: buttons.selectedButtonId, title: buttons.selectedDisplayText || '' };
+  }
+  const list = message?.listResponseMessage;
+  if (list?.singleSelectReply?.selectedRowId) {
+    return { id: list.singleSelectReply.selectedRowId, title: list.title || '' };
+  }
+  const template = message?.templateButtonReplyMessage;
+  if (template?.selectedId) {
+    return { id: template.selectedId, title: template.selectedDisplayText || '' };
+  }
+  return null;
+}
+
+/**
+ * Mídia, localização ou contato recebido. O arquivo só vem embutido (base64) quando o
+ * webhook_base64 da instância está habilitado; caso contrário é baixado pela API.
+ */
+function extractMedia(data: any): InboundMedia | null {
+  const content = data.message || {};
+  const location = content.locationMessage || content.liveLocationMessage;
+  if (location) {
+    return { type: 'location', latitude: Number(location.degreesLatitude), longitude: Number(location.degreesLongitude) };
+  }
+  if (content.contactMessage || content.contactsArrayMessage) {
+    return { type: 'contact' };
+  }
+
+  const fileKey = FILE_MESSAGE_KEYS.find(key => content[key]);
+  const file = fileKey ? content[fileKey] : content.documentWithCaptionMessage?.message?.documentMessage;
+  if (!file) {
+    return null;
+  }
+  return {
+    type: normalizeInboundMediaType(fileKey) || 'document',
+    mimetype: file.mimetype || null,
+    fileName: file.fileName || null,
+    base64: content.base64 || data.base64 || null,
+  };
+}
+
+// Sessões importadas usam as credenciais da Evolution externa; as demais, as globais do sistema
+function credentials(session: ProviderSession) {
+  return getEvolutionCredentialsFromSession(session) || undefined;
+}
+
+export const evolutionProvider: WhatsAppProvider = {
+  name: 'EVOLUTION',
+
+  async sendMessage(session, to, message) {
+    const result: any = await sendMessageViaEvolution(session.name, to, message, credentials(session));
+    return { messageId: result?.key?.id || result?.id || null, raw: result };
+  },
+
+  async checkNumber(session, phone) {
+    const check = await checkContactExistsEvolution(session.name, phone, credentials(session));
+    return { exists: check.exists, recipient: check.validPhone };
+  },
+
+  parseInbound(payload) {
+    try {
+      // Evolution API format: { event: 'messages.upsert', data: { ... } }
+      if (payload?.event === 'messages.upsert' && payload.data) {
+        const message = payload.data;
+        const selection = extractSelection(message.message);
+        const media = extractMedia(message);
+        return {
+          messageId: message.key?.id,
+          from: message.key?.remoteJid,
+          fromNumber: message.key?.remoteJid?.split('@')[0],
+          timestamp: message.messageTimestamp,
+          type: media?.type || message.messageType || 'text',
+          content: message.message?.conversation ||
+                   message.message?.extendedTextMessage?.text ||
+                   message.message?.imageMessage?.caption ||
+                   message.message?.videoMessage?.caption ||
+                   message.message?.documentMessage?.caption ||
+                   message.message?.documentWithCaptionMessage?.message?.documentMessage?.caption ||
+                   selection?.title ||
+                   '',
+          selectionId: selection?.id || null,
+          media,
+          isFromMe: message.key?.fromMe || false,
+          raw: payload
+        };
+      }
+      return null;
+    } catch (error) {
+      console.error('Erro ao extrair mensagem Evolution:', error);
+      return null;
+    }
+  },
+
+  async downloadMedia(session, message) {
+    if (!message.messageId) return null;
+    const result = await downloadMediaViaEvolution(session.name, message.messageId, credentials(session));
+    return {
+      buffer: Buffer.from(result.base64, 'base64'),
+      mimetype: result.mimetype || message.media?.mimetype || null,
+      fileName: result.fileName || message.media?.fileName || null,
+    };
+  },
+
+  parseAck(payload) {
+    // { event: 'messages.update', data: { keyId, status } } (data pode ser uma lista)
+    const event = String(payload?.event || '').toLowerCase().replace('_', '.');
+    if (event !== 'messages.update' || !payload.data) return null;
+    const updates = Array.isArray(payload.data) ? payload.data : [payload.data];
+    return updates
+      .map((update: any) => ({
+        messageId: update.keyId || update.key?.id || update.messageId,
+        status: mapEvolutionStatus(update.status ?? update.update?.status),
+        timestamp: parseProviderTimestamp(update.datetime || update.messageTimestamp),
+      }))
+      .filter((ack: any): ack is MessageAck => !!ack.messageId && !!ack.status);
+  },
+
+  async createSession(session: WhatsAppSession, webhookUrl?: string) {
+    const result = await evolutionApiService.createInstance(session.name, webhookUrl);
+
+    // Extrair QR code da resposta da criação (se disponível)
+    let qrCode: string | undefined;
+    let qrExpiresAt: Date | undefined;
+
+    if (result.qrcode?.base64) {
+      qrCode = result.qrcode.base64.startsWith('data:image/')
+        ? result.qrcode.base64
+        : `data:image/png;base64,${result.qrcode.base64}`;
+      qrExpiresAt = new Date(Date.now() + QR_CODE_TTL_MS);
+      console.log(`✅ QR Code Evolution recebido na criação para ${session.name}`);
+    }
+
+    await WhatsAppSessionService.updateStatusFast(session.name, 'SCAN_QR_CODE', undefined, {
+      qr: qrCode || null,
+      qrExpiresAt: qrExpiresAt || null
+    });
+
+    return result;
+  },
+
+  async startSession(session) {
+    console.log(`🔄 Conectando instância Evolution ${session.name}...`);
+    const qr = await this.getQR(session);
+
+    if (qr) {
+      await WhatsAppSessionService.updateStatusFast(session.name, 'SCAN_QR_CODE', undefined, {
+        qr,
+        qrExpiresAt: new Date(Date.now() + QR_CODE_TTL_MS)
+      });
+      console.log(`✅ Sessão Evolution ${session.name} iniciada com QR Code salvo`);
+    }
+
+    return { qr, status: 'SCAN_QR_CODE' };
+  },
+
+  async stopSession(session) {
+    // Evolution API não tem stop específico: a sessão só é marcada como parada
+    await WhatsAppSessionService.updateStatusFast(session.name, 'STOPPED');
+    return { message: 'Sessão Evolution parada (conceitual)' };
+  },
+
+  async restartSession(session) {
+    await evolutionApiService.restartInstance(session.name, credentials(session));
+    await WhatsAppSessionService.updateStatusFast(session.name, 'SCAN_QR_CODE');
+    return { message: 'Instance restarted' };
+  },
+
+  async deleteSession(session) {
+    try {
+      await evolutionApiService.deleteInstance(session.name, credentials(session));
+      console.log(`✅ Sessão ${session.name} deletada da Evolution API`);
+    } catch (error) {
+      console.warn(`⚠️ Erro ao deletar ${session.name} da Evolution API:`, error);
+    }
+  },
+
+  async getQR(session) {
+    return evolutionApiService.getQRCode(session.name, credentials(session));
+  },
+
+  async setWebhook(session, webhookUrl) {
+    await evolutionApiService.setWebhook(session.name, webhookUrl, credentials(session));
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * Registro dos provedores WhatsApp, indexado pelo valor de WhatsAppSession.provider.
+ * Para adicionar um provedor basta implementar WhatsAppProvider e registrá-lo aqui.
+ */
+
+import { WhatsAppProvider, WhatsAppProviderName, ProviderSession } from './types';
+import { wahaProvider } from './wahaProvider';
+import { evolutionProvider } from './evolutionProvider';
+import { quepasaProvider } from './quepasaProvider';
+import { cloudApiProvider } from './cloudApiProvider';
+import { sandboxProvider } from './sandboxProvider';
+
+export * from './types';
+export * from './interactiveMessages';
+
+const providers: Record<WhatsAppProviderName, WhatsAppProvider> = {
+  WAHA: wahaProvider,
+  EVOLUTION: evolutionProvider,
+  QUEPASA: quepasaProvider,
+  CLOUD_API: cloudApiProvider,
+  SANDBOX: sandboxProvider,
+};
+
+// Sessões antigas sem provider gravado são WAHA
+const DEFAULT_PROVIDER: WhatsAppProviderName = 'WAHA';
+
+export const SUPPORTED_PROVIDERS = Object.keys(providers) as WhatsAppProviderName[];
+
+export function isSupportedProvider(name: unknown): name is WhatsAppProviderName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(providers, name);
+}
+
+/**
+ * Adaptador do provider informado; lança erro para providers desconhecidos
+ */
+export function getProvider(name: string | null | undefined): WhatsAppProvider {
+  const key = name || DEFAULT_PROVIDER;
+  if (!isSupportedProvider(key)) {
+    throw new Error(`Provider ${key} não suportado`);
+  }
+  return providers[key];
+}
+
+/**
+ * Converte uma Connection (ou WhatsAppSession convertida para o formato de Connection) em sessão do provider
+ */
+export function connectionToProviderSession(connection: {
+  instanceName: string;
+  provider: string;
+  config?: any;
+  quepasaToken?: string | null;
+}): ProviderSession {
+  return {
+    name: connection.instanceName,
+    provider: connection.provider,
+    config: connection.config,
+    quepasaToken: connection.quepasaToken,
+  };
+}
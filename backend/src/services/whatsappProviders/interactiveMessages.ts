@@ -0,0 +1,198 @@
+/**
+ * Mensagens interativas (botões, listas, enquetes, localização, contatos e reações):
+ * montagem do payload a partir da configuração de campanhas/nós de fluxo e o texto
+ * equivalente enviado pelos providers que não suportam o tipo nativamente.
+ */
+
+import { ProviderMessage, MessageOption } from './types';
+
+export const INTERACTIVE_MESSAGE_TYPES = ['buttons', 'list', 'poll', 'location', 'contact', 'reaction'] as const;
+
+export type InteractiveMessageType = typeof INTERACTIVE_MESSAGE_TYPES[number];
+
+export function isInteractiveMessageType(type: unknown): type is InteractiveMessageType {
+  return INTERACTIVE_MESSAGE_TYPES.includes(type as InteractiveMessageType);
+}
+
+/**
+ * Configuração de um envio interativo como salva no nó do fluxo ou no item da sequência da campanha
+ */
+export interface InteractiveConfig {
+  text?: string;
+  footer?: string;
+  buttonText?: string;
+  sectionTitle?: string;
+  options?: Array<{ id?: string; title?: string; description?: string }>;
+  selectableCount?: number;
+  latitude?: number | string;
+  longitude?: number | string;
+  locationName?: string;
+  address?: string;
+  contactName?: string;
+  contactPhone?: string;
+  organization?: string;
+  email?: string;
+  emoji?: string;
+}
+
+/**
+ * Opções com id e título preenchidos; opções sem id recebem opt_1, opt_2...
+ */
+export function normalizeOptions(options: InteractiveConfig['options']): MessageOption[] {
+  return (options || [])
+    .map((option, index) => ({
+      id: String(option?.id || '').trim() || `opt_${index + 1}`,
+      title: String(option?.title || '').trim(),
+      ...(option?.description?.trim() && { description: option.description.trim() })
+    }))
+    .filter(option => option.title);
+}
+
+/**
+ * Monta o payload do tipo interativo; lança erro com a mensagem para o usuário quando falta configuração.
+ * render aplica as variáveis do contato ({{nome}}...) nos textos.
+ * A reação precisa do id da mensagem alvo, resolvido por quem envia (última mensagem recebida do contato).
+ */
+export function buildInteractiveMessage(
+  type: InteractiveMessageType,
+  config: InteractiveConfig,
+  render: (value: string) => string = value => value,
+  reactionTargetId?: string | null
+): ProviderMessage {
+  const text = render(config.text || '').trim();
+  const options = normalizeOptions(config.options).map(option => ({
+    ...option,
+    title: render(option.title),
+    ...(option.description && { description: render(option.description) })
+  }));
+  const footer = config.footer ? render(config.footer) : undefined;
+
+  switch (type) {
+    case 'buttons':
+      if (!text || options.length === 0) throw new Error('Mensagem com botões precisa de texto e ao menos um botão');
+      return { buttons: { text, footer, buttons: options } };
+
+    case 'list':
+      if (!text || options.length === 0) throw new Error('Lista precisa de texto e ao menos uma opção');
+      return {
+        list: {
+          text,
+          footer,
+          buttonText: render(config.buttonText || '').trim() || 'Ver opções',
+          sections: [{ title: config.sectionTitle ? render(config.sectionTitle) : undefined, rows: options }]
+        }
+      };
+
+    case 'poll':
+      if (!text || options.length < 2) throw new Error('Enquete precisa de pergunta e ao menos duas opções');
+      return { poll: { name: text, options, selectableCount: Math.max(1, Number(config.selectableCount) || 1) } };
+
+    case 'location': {
+      const latitude = Number(config.latitude);
+      const longitude = Number(config.longitude);
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        throw new Error('Localização precisa de latitude e longitude válidas');
+      }
+      return {
+        location: {
+          latitude,
+          longitude,
+          name: config.locationName ? render(config.locationName) : undefined,
+          address: config.address ? render(config.address) : undefined
+        }
+      };
+    }
+
+    case 'contact': {
+      const fullName = render(config.contactName || '').trim();
+      const phone = render(config.contactPhone || '').replace(/\D/g, '');
+      if (!fullName || !phone) throw new Error('Contato precisa de nome e telefone');
+      return {
+        contact: {
+          fullName,
+          phone,
+          organization: config.organization ? render(config.organization) : undefined,
+          email: config.email ? render(config.email) : undefined
+        }
+      };
+    }
+
+    case 'reaction': {
+      const emoji = String(config.emoji || '').trim();
+      if (!emoji) throw new Error('Reação precisa de um emoji');
+      if (!reactionTargetId) throw new Error('Nenhuma mensagem do contato para reagir');
+      return { reaction: { messageId: reactionTargetId, emoji } };
+    }
+  }
+}
+
+/**
+ * Opções enviadas na mensagem (botões, linhas da lista ou opções da enquete)
+ */
+export function getMessageOptions(message: ProviderMessage): MessageOption[] {
+  if (message.buttons) return message.buttons.buttons;
+  if (message.list) return message.list.sections.flatMap(section => section.rows);
+  if (message.poll) return message.poll.options;
+  return [];
+}
+
+export function hasInteractiveContent(message: ProviderMessage): boolean {
+  return INTERACTIVE_MESSAGE_TYPES.some(type => !!message[type]);
+}
+
+function numberedOptions(options: MessageOption[]): string {
+  return options
+    .map((option, index) => `${index + 1}. ${option.title}${option.description ? ` - ${option.description}` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Texto equivalente para providers sem suporte ao tipo interativo. As opções viram uma lista
+ * numerada: a resposta com o número (ou o título) é reconhecida pelos fluxos interativos.
+ * Mensagens não interativas são retornadas sem alteração.
+ */
+export function buildTextFallback(message: ProviderMessage): ProviderMessage {
+  const footer = (value?: string) => (value ? `\n\n_${value}_` : '');
+
+  if (message.buttons) {
+    const { text, buttons } = message.buttons;
+    return { text: `${text}\n\n${numberedOptions(buttons)}\n\nResponda com o número da opção.${footer(message.buttons.footer)}` };
+  }
+  if (message.list) {
+    const options = getMessageOptions(message);
+    return { text: `${message.list.text}\n\n${numberedOptions(options)}\n\nResponda com o número da opção.${footer(message.list.footer)}` };
+  }
+  if (message.poll) {
+    const hint = (message.poll.selectableCount || 1) > 1 ? 'Responda com os números das opções.' : 'Responda com o número da opção.';
+    return { text: `📊 ${message.poll.name}\n\n${numberedOptions(message.poll.options)}\n\n${hint}` };
+  }
+  if (message.location) {
+    const { latitude, longitude, name, address } = message.location;
+    const header = [name, address].filter(Boolean).join('\n');
+    return { text: `📍 ${header ? `${header}\n` : ''}https://maps.google.com/?q=${latitude},${longitude}` };
+  }
+  if (message.contact) {
+    const { fullName, phone, organization, email } = message.contact;
+    return { text: [`👤 ${fullName}`, organization, `+${phone}`, email].filter(Boolean).join('\n') };
+  }
+  if (message.reaction) {
+    return { text: message.reaction.emoji };
+  }
+  return message;
+}
+
+/**
+ * Tipo e resumo legível da mensagem interativa (caixa de entrada e sandbox); null para os demais tipos
+ */
+export function describeInteractive(message: ProviderMessage): { type: InteractiveMessageType; content: string } | null {
+  if (message.buttons) return { type: 'buttons', content: message.buttons.text };
+  if (message.list) return { type: 'list', content: message.list.text };
+  if (message.poll) return { type: 'poll', content: message.poll.name };
+  if (message.location) {
+    const { latitude, longitude, name } = message.location;
+    return { type: 'location', content: name || `${latitude}, ${longitude}` };
+  }
+  if (message.contact) return { type: 'contact', content: message.contact.fullName };
+  if (message.reaction) return { type: 'reaction', content: message.reaction.emoji };
+  return null;
+}
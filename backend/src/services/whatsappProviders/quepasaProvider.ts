@@ -0,0 +1,301 @@
+import crypto from 'crypto';
+import { WhatsAppSession } from '@prisma/client';
+import { sendMessageViaQuepasa, checkContactExistsQuepasa, configureQuepasaWebhook, downloadMediaViaQuepasa } from '../quepasaMessageService';
+import { settingsService } from '../settingsService';
+import { WhatsAppSessionService } from '../whatsappSessionService';
+import { prisma } from '../../lib/prisma';
+import { WhatsAppProvider, ProviderSession, AckStatus, InboundMedia, QR_CODE_TTL_MS } from './types';
+import { parseProviderTimestamp, imageResponseToDataUrl, normalizeInboundMediaType } from './utils';
+import { buildTextFallback } from './interactiveMessages';
+
+const fetch = require('node-fetch');
+
+/**
+ * QuePasa envia confirmações com status textual (delivered/read)
+ */
+function mapQuepasaStatus(status: any): AckStatus | null {
+  const name = String(status || '').toLowerCase();
+  if (name === 'read' || name === 'played') return 'READ';
+  if (name === 'delivered' || name === 'delivery') return 'DELIVERED';
+  return null;
+}
+
+/**
+ * Mídia, localização ou contato recebido: o arquivo fica na Quepasa e é baixado pelo id da mensagem
+ */
+function extractMedia(message: any): InboundMedia | null {
+  const type = normalizeInboundMediaType(message.type);
+  const attachment = message.attachment || {};
+  if (type === 'location') {
+    return {
+      type,
+      latitude: Number(attachment.latitude ?? message.latitude),
+      longitude: Number(attachment.longitude ?? message.longitude),
+    };
+  }
+  if (type === 'contact') {
+    return { type };
+  }
+  if (!type && !message.attachment) {
+    return null;
+  }
+  return {
+    type: type || normalizeInboundMediaType(attachment.mime?.split('/')[0]) || 'document',
+    mimetype: attachment.mime || attachment.mimetype || null,
+    fileName: attachment.filename || null,
+    url: attachment.url || null,
+  };
+}
+
+// Token aleatório que identifica a sessão na Quepasa
+function generateQuepasaToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Token da sessão: vem da WhatsAppSession ou, para conexões sem token carregado, é buscado pelo nome
+ */
+async function resolveToken(session: ProviderSession): Promise<string | undefined> {
+  if (session.quepasaToken) {
+    return session.quepasaToken;
+  }
+
+  const saved = await prisma.whatsAppSession.findFirst({
+    where: { name: session.name },
+    select: { quepasaToken: true }
+  });
+  return saved?.quepasaToken || undefined;
+}
+
+/**
+ * Garante um token para a sessão, gerando e salvando um novo para sessões criadas sem token
+ */
+async function ensureToken(session: ProviderSession): Promise<string> {
+  const existing = await resolveToken(session);
+  if (existing) {
+    return existing;
+  }
+
+  const token = generateQuepasaToken();
+  console.log(`🔑 Gerando novo token para sessão ${session.name} (sessão sem token): ${token.substring(0, 16)}...`);
+
+  await prisma.whatsAppSession.update({
+    where: { name: session.name },
+    data: { quepasaToken: token }
+  });
+  return token;
+}
+
+async function getQuepasaConfig() {
+  const quepasaConfig = await settingsService.getQuepasaConfig();
+
+  if (!quepasaConfig.url || !quepasaConfig.login) {
+    throw new Error('Configure as credenciais Quepasa nas configurações do sistema');
+  }
+
+  return quepasaConfig;
+}
+
+export const quepasaProvider: WhatsAppProvider = {
+  name: 'QUEPASA',
+
+  async sendMessage(session, to, message) {
+    // QuePasa só envia texto e mídia: tipos interativos seguem como texto
+    const result = await sendMessageViaQuepasa(session.name, to, buildTextFallback(message), await resolveToken(session));
+    if (!result.success) {
+      throw new Error(result.error || 'Erro ao enviar mensagem via QuePasa');
+    }
+    return { messageId: result.id || null, raw: result };
+  },
+
+  async checkNumber(session, phone) {
+    const check = await checkContactExistsQuepasa(session.name, phone, await resolveToken(session));
+    return { exists: check.exists, recipient: check.validPhone };
+  },
+
+  /**
+   * Formato real do QuePasa:
+   * {
+   *   "id": "3EB08C1240B8974B5F48B6",
+   *   "timestamp": "2025-12-10T09:24:19...",
+   *   "type": "text",
+   *   "chat": {
+   *     "id": "556196878959@s.whatsapp.net",
+   *     "phone": "+556196878959",
+   *     "title": "Raphael"
+   *   },
+   *   "text": "oi",
+   *   "fromme": false,
+   *   "frominternal": false,
+   *   "wid": "556793363369:3@s.whatsapp.net"
+   * }
+   */
+  parseInbound(payload) {
+    try {
+      // Formato direto do QuePasa (novo formato)
+      if (payload?.chat && payload.id) {
+        const fromNumber = payload.chat.phone
+          ? payload.chat.phone.replace(/\D/g, '') // Remove +, -, espaços
+          : payload.chat.id?.split('@')[0];
+        const media = extractMedia(payload);
+
+        return {
+          messageId: payload.id,
+          from: payload.chat.id,
+          fromNumber: fromNumber,
+          timestamp: payload.timestamp || Date.now(),
+          type: media?.type || payload.type || 'text',
+          content: payload.text || payload.caption || '',
+          media,
+          isFromMe: payload.fromme === true || payload.frominternal === true,
+          raw: payload
+        };
+      }
+
+      // Formato antigo (fallback): { message: { ... }, source: { ... } }
+      if (payload?.message) {
+        const message = payload.message;
+        const media = extractMedia(message);
+        return {
+          messageId: message.id,
+          from: message.wid || message.chatId,
+          fromNumber: (message.wid || message.chatId)?.split('@')[0],
+          timestamp: message.timestamp || Date.now(),
+          type: media?.type || message.type || 'text',
+          content: message.text || message.caption || '',
+          media,
+          isFromMe: message.fromme === true,
+          raw: payload
+        };
+      }
+
+      console.warn('⚠️ Formato de payload QuePasa não reconhecido:', JSON.stringify(payload, null, 2));
+      return null;
+    } catch (error) {
+      console.error('Erro ao extrair mensagem QuePasa:', error);
+      return null;
+    }
+  },
+
+  async downloadMedia(session, message) {
+    if (!message.messageId) return null;
+    const token = await resolveToken(session);
+    if (!token) {
+      throw new Error(`Sessão ${session.name} não tem token Quepasa`);
+    }
+    return downloadMediaViaQuepasa(message.messageId, token);
+  },
+
+  parseAck(payload) {
+    // { id, type: 'ack'|'receipt', status: 'delivered'|'read' } ou { ack: { id, status } }
+    const ack = payload?.ack && typeof payload.ack === 'object' ? payload.ack : payload;
+    const type = String(ack?.type || '').toLowerCase();
+    const isAck = payload?.ack !== undefined || ['ack', 'receipt', 'status'].includes(type);
+    if (!isAck) return null;
+    const status = mapQuepasaStatus(ack.status || ack.state);
+    const messageId = ack.id || ack.messageid || ack.messageId;
+    if (!status || !messageId) return [];
+    return [{ messageId, status, timestamp: parseProviderTimestamp(ack.timestamp) }];
+  },
+
+  async createSession(session: WhatsAppSession, webhookUrl?: string) {
+    // O QR code é gerado quando o usuário clicar para conectar; o webhook é configurado
+    // quando a sessão conectar (status WORKING), pois precisa do token ativo
+    const token = generateQuepasaToken();
+    console.log(`🔑 Token único gerado para sessão QuePasa ${session.name}: ${token.substring(0, 16)}...`);
+
+    await WhatsAppSessionService.updateStatusFast(session.name, 'STOPPED', undefined, { quepasaToken: token });
+
+    return { name: session.name, status: 'STOPPED', provider: 'QUEPASA', token, webhookUrl };
+  },
+
+  async startSession(session) {
+    console.log(`🔄 Conectando instância Quepasa ${session.name}...`);
+    const qr = await this.getQR(session);
+
+    await WhatsAppSessionService.updateStatusFast(session.name, 'SCAN_QR_CODE', undefined, {
+      qr,
+      qrExpiresAt: new Date(Date.now() + QR_CODE_TTL_MS)
+    });
+    console.log(`✅ Sessão Quepasa ${session.name} iniciada com QR Code salvo`);
+
+    return { qr, status: 'SCAN_QR_CODE' };
+  },
+
+  async stopSession(session) {
+    // Quepasa não tem stop específico: a sessão só é marcada como parada
+    await WhatsAppSessionService.updateStatusFast(session.name, 'STOPPED');
+    return { message: 'Sessão Quepasa parada' };
+  },
+
+  async restartSession(session) {
+    // Reiniciar = gerar um novo QR Code para parear novamente
+    return this.startSession(session);
+  },
+
+  async deleteSession(session) {
+    try {
+      const quepasaConfig = await settingsService.getQuepasaConfig();
+      const token = await resolveToken(session);
+
+      if (!quepasaConfig.url || !quepasaConfig.login) {
+        return;
+      }
+
+      if (!token) {
+        console.warn(`⚠️ Sessão ${session.name} não tem token Quepasa salvo, pulando deleção na API`);
+        return;
+      }
+
+      // Deletar o servidor no Quepasa usando DELETE /info
+      const deleteResponse = await fetch(`${quepasaConfig.url}/info`, {
+        method: 'DELETE',
+        headers: {
+          'Accept': 'application/json',
+          'X-QUEPASA-TOKEN': token
+        }
+      });
+
+      if (deleteResponse.ok) {
+        console.log(`✅ Servidor Quepasa da sessão ${session.name} deletado`);
+      } else {
+        const errorText = await deleteResponse.text();
+        console.warn(`⚠️ Erro ao deletar do Quepasa: ${deleteResponse.status} - ${errorText}`);
+      }
+    } catch (quepasaError) {
+      console.warn(`⚠️ Erro ao deletar ${session.name} do Quepasa:`, quepasaError);
+    }
+  },
+
+  async getQR(session) {
+    const quepasaConfig = await getQuepasaConfig();
+    const token = await ensureToken(session);
+
+    const qrResponse = await fetch(`${quepasaConfig.url}/scan`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'X-QUEPASA-USER': quepasaConfig.login,
+        'X-QUEPASA-TOKEN': token
+      }
+    });
+
+    if (!qrResponse.ok) {
+      throw new Error(`Erro ao gerar QR Code Quepasa: ${qrResponse.status} ${qrResponse.statusText}`);
+    }
+
+    return imageResponseToDataUrl(qrResponse);
+  },
+
+  async setWebhook(session, webhookUrl) {
+    const token = await resolveToken(session);
+    if (!token) {
+      throw new Error(`Sessão ${session.name} não tem token Quepasa`);
+    }
+
+    const result = await configureQuepasaWebhook(token, webhookUrl);
+    if (!result.success) {
+      throw new Error(result.error || 'Erro ao configurar webhook QuePasa');
+    }
+  }
+};
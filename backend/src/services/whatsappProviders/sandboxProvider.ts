@@ -0,0 +1,87 @@
+import { sandboxService } from '../sandboxService';
+import { WhatsAppSessionService } from '../whatsappSessionService';
+import { WhatsAppProvider, AckStatus, MessageAck, QrCodeUnavailableError } from './types';
+import { parseProviderTimestamp } from './utils';
+
+const ACK_STATUSES: AckStatus[] = ['DELIVERED', 'READ', 'FAILED'];
+
+/**
+ * Provider simulado: nada sai da máquina. Os envios ficam na caixa de saída do sandbox
+ * e os webhooks (acks e respostas) são gerados pelo sandboxService.
+ */
+export const sandboxProvider: WhatsAppProvider = {
+  name: 'SANDBOX',
+
+  async sendMessage(session, to, message) {
+    const record = await sandboxService.recordOutbound(session.name, to, message);
+    return { messageId: record.providerMessageId, raw: { id: record.providerMessageId, status: record.status } };
+  },
+
+  async checkNumber(_session, phone) {
+    // Todo número com DDI + DDD + telefone "existe" no sandbox
+    const digits = String(phone || '').replace(/\D/g, '');
+    return { exists: digits.length >= 8, recipient: digits };
+  },
+
+  parseInbound(payload) {
+    // { event: 'sandbox.message', session: '...', payload: { id, from, fromName, fromMe, type, body, selectionId, media, timestamp } }
+    if (payload?.event !== 'sandbox.message' || !payload.payload) return null;
+    const message = payload.payload;
+    return {
+      messageId: message.id || null,
+      from: message.from,
+      fromNumber: message.from,
+      timestamp: message.timestamp,
+      type: message.type || 'text',
+      content: message.body || '',
+      selectionId: message.selectionId || null,
+      media: message.media || null,
+      isFromMe: message.fromMe || false,
+      raw: payload
+    };
+  },
+
+  parseAck(payload) {
+    // { event: 'sandbox.ack', session: '...', payload: { id, status, error, timestamp } }
+    if (payload?.event !== 'sandbox.ack' || !payload.payload) return null;
+    const ack = payload.payload;
+    if (!ack.id || !ACK_STATUSES.includes(ack.status)) return [];
+    const parsed: MessageAck = { messageId: ack.id, status: ack.status, timestamp: parseProviderTimestamp(ack.timestamp) };
+    if (ack.error) parsed.error = ack.error;
+    return [parsed];
+  },
+
+  async createSession(session) {
+    return this.startSession(session);
+  },
+
+  async startSession(session) {
+    // Sem pareamento: a sessão conecta na hora com um número fictício
+    await WhatsAppSessionService.updateStatusFast(session.name, 'WORKING', {
+      id: '5500000000000',
+      pushName: 'Sandbox',
+      jid: '5500000000000@s.whatsapp.net'
+    }, { qr: null, qrExpiresAt: null });
+    console.log(`🧪 Sessão sandbox ${session.name} conectada`);
+
+    return { status: 'WORKING' };
+  },
+
+  async stopSession(session) {
+    await WhatsAppSessionService.updateStatusFast(session.name, 'STOPPED');
+    return { message: 'Sessão sandbox parada' };
+  },
+
+  async restartSession(session) {
+    return this.startSession(session);
+  },
+
+  async deleteSession(session) {
+    // A caixa de saída é removida em cascata junto com a sessão
+    console.log(`🗑️ Sessão sandbox ${session.name} removida`);
+  },
+
+  async getQR(session) {
+    throw new QrCodeUnavailableError(session.status || 'WORKING', 'Sessões sandbox não usam QR Code');
+  }
+};
@@ -0,0 +1,225 @@
+/**
+ * Contrato comum dos provedores WhatsApp (WAHA, Evolution, Quepasa, Cloud API, Sandbox...).
+ * Envio, verificação de número, interpretação de webhooks e ciclo de vida da sessão
+ * passam por esta interface; cada provedor é um adaptador registrado em ./index.ts.
+ */
+
+import type { WhatsAppSession } from '@prisma/client';
+
+export type WhatsAppProviderName = 'WAHA' | 'EVOLUTION' | 'QUEPASA' | 'CLOUD_API' | 'SANDBOX';
+
+export type AckStatus = 'DELIVERED' | 'READ' | 'FAILED';
+
+export interface MessageAck {
+  messageId: string;
+  status: AckStatus;
+  timestamp: Date;
+  error?: string; // Motivo informado pelo provider quando status = FAILED
+}
+
+/**
+ * Dados mínimos da sessão usados pelos adaptadores.
+ * Aceita tanto WhatsAppSession quanto Connection convertida (instanceName → name).
+ */
+export interface ProviderSession {
+  id?: string;
+  name: string;
+  provider?: string | null;
+  status?: string;
+  tenantId?: string | null;
+  config?: any; // Credenciais de sessões Evolution importadas (string JSON ou objeto)
+  quepasaToken?: string | null;
+  cloudPhoneNumberId?: string | null;
+  cloudAccessToken?: string | null;
+}
+
+/**
+ * Template aprovado pela Meta (WhatsApp Cloud API); parâmetros preenchem {{1}}, {{2}}... do corpo
+ */
+export interface TemplateMessage {
+  name: string;
+  language: string;
+  parameters?: string[];
+}
+
+/**
+ * Opção de botão, linha de lista ou opção de enquete. O id volta no webhook quando o
+ * contato seleciona a opção e é usado pelas condições dos fluxos interativos.
+ */
+export interface MessageOption {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface ButtonsMessage {
+  text: string;
+  footer?: string;
+  buttons: MessageOption[];
+}
+
+export interface ListMessage {
+  text: string;
+  buttonText: string;
+  footer?: string;
+  sections: { title?: string; rows: MessageOption[] }[];
+}
+
+export interface PollMessage {
+  name: string;
+  options: MessageOption[];
+  selectableCount?: number; // 1 = escolha única
+}
+
+export interface LocationMessage {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+export interface ContactCardMessage {
+  fullName: string;
+  phone: string;
+  organization?: string;
+  email?: string;
+}
+
+export interface ReactionMessage {
+  messageId: string; // Id no provider da mensagem que recebe a reação
+  emoji: string;
+}
+
+/**
+ * Payload de envio no formato usado em todo o sistema ({ text } | { image, caption } | { buttons } ...)
+ */
+export interface ProviderMessage {
+  text?: string;
+  image?: { url: string };
+  video?: { url: string };
+  audio?: { url: string };
+  document?: { url: string };
+  fileName?: string;
+  caption?: string;
+  // Somente template: sempre envia o template. Com conteúdo: template usado fora da janela de 24h
+  // (providers não oficiais ignoram o template e enviam o conteúdo)
+  template?: TemplateMessage;
+  // Tipos interativos: providers sem suporte nativo enviam o texto de buildTextFallback()
+  buttons?: ButtonsMessage;
+  list?: ListMessage;
+  poll?: PollMessage;
+  location?: LocationMessage;
+  contact?: ContactCardMessage;
+  reaction?: ReactionMessage;
+  [key: string]: any;
+}
+
+export interface SendResult {
+  messageId: string | null; // Id do provider, usado para casar os acks de entrega/leitura
+  raw: any;
+}
+
+export interface NumberCheckResult {
+  exists: boolean;
+  recipient?: string; // Destino validado pelo provider (chatId na WAHA, número nos demais)
+}
+
+export type InboundMediaType = 'image' | 'video' | 'audio' | 'document' | 'sticker' | 'location' | 'contact';
+
+/**
+ * Mídia, localização ou contato recebido. Para arquivos, o webhook informa como obter o conteúdo:
+ * base64 já embutido, URL de download ou o id da mídia para baixar pela API do provider.
+ */
+export interface InboundMedia {
+  type: InboundMediaType;
+  mimetype?: string | null;
+  fileName?: string | null;
+  url?: string | null;
+  base64?: string | null;
+  providerMediaId?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface InboundMessage {
+  messageId: string | null;
+  from: string;
+  fromNumber: string;
+  timestamp: any;
+  type: string;
+  content: string;
+  selectionId?: string | null; // Id da opção escolhida (botão, lista ou enquete), quando o provider informa
+  media?: InboundMedia | null;
+  isFromMe: boolean;
+  raw: any;
+}
+
+export interface DownloadedMedia {
+  buffer: Buffer;
+  mimetype?: string | null;
+  fileName?: string | null;
+}
+
+export interface StartSessionResult {
+  status: string;
+  qr?: string;
+  [key: string]: any;
+}
+
+export interface WhatsAppProvider {
+  readonly name: WhatsAppProviderName;
+
+  /** Envia a mensagem; lança erro quando o provider recusa o envio */
+  sendMessage(session: ProviderSession, to: string, message: ProviderMessage): Promise<SendResult>;
+
+  /** Verifica se o número tem WhatsApp; nunca lança (falhas retornam exists = false) */
+  checkNumber(session: ProviderSession, phone: string): Promise<NumberCheckResult>;
+
+  /** Extrai a mensagem recebida do webhook; null quando o payload não é uma mensagem */
+  parseInbound(payload: any): InboundMessage | null;
+
+  /** Baixa o arquivo de uma mídia recebida que não veio embutida no webhook; null quando não há o que baixar */
+  downloadMedia?(session: ProviderSession, message: InboundMessage): Promise<DownloadedMedia | null>;
+
+  /** Extrai confirmações de entrega/leitura; null quando o payload não é um evento de ack */
+  parseAck(payload: any): MessageAck[] | null;
+
+  /** Cria a sessão no provider a partir do registro já criado no banco */
+  createSession(session: WhatsAppSession, webhookUrl?: string): Promise<any>;
+
+  startSession(session: ProviderSession): Promise<StartSessionResult | any>;
+  stopSession(session: ProviderSession): Promise<any>;
+  restartSession(session: ProviderSession): Promise<any>;
+
+  /** Remove a sessão do provider (o registro no banco é removido por quem chamou) */
+  deleteSession(session: ProviderSession): Promise<void>;
+
+  /** Obtém o QR Code (data URL base64) para parear a sessão */
+  getQR(session: ProviderSession): Promise<string>;
+
+  /** Aponta os webhooks da sessão para a URL informada (quando o provider permite) */
+  setWebhook?(session: ProviderSession, webhookUrl: string): Promise<void>;
+}
+
+/**
+ * A sessão não está aguardando pareamento (ex.: já conectada), então não há QR Code
+ */
+export class QrCodeUnavailableError extends Error {
+  constructor(public sessionStatus: string, message: string) {
+    super(message);
+    this.name = 'QrCodeUnavailableError';
+  }
+}
+
+/**
+ * Cloud API: a janela de atendimento de 24h do contato está fechada e a mensagem não tem template
+ */
+export class CustomerServiceWindowClosedError extends Error {
+  constructor(public recipient: string, message: string) {
+    super(message);
+    this.name = 'CustomerServiceWindowClosedError';
+  }
+}
+
+// QR Codes expiram em 5 minutos
+export const QR_CODE_TTL_MS = 300000;
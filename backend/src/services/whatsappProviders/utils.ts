@@ -0,0 +1,164 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { InboundMediaType, DownloadedMedia } from './types';
+
+const fetch = require('node-fetch');
+
+/**
+ * Limite das mídias baixadas dos providers (mesmo limite do upload de mídias)
+ */
+export const MAX_INBOUND_MEDIA_BYTES = 50 * 1024 * 1024;
+
+const MEDIA_DOWNLOAD_TIMEOUT_MS = 120000;
+
+/**
+ * Converte timestamps dos providers (segundos, milissegundos ou ISO) para Date
+ */
+export function parseProviderTimestamp(value: any): Date {
+  if (!value) return new Date();
+  if (typeof value === 'number') {
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? new Date() : parsed;
+}
+
+/**
+ * Id da chave da mensagem no provider: o WAHA serializa ids como "true_5511999999999@c.us_3EB0..."
+ * enquanto os demais formatos já são só o id da chave
+ */
+export function providerMessageKeyId(messageId: string): string {
+  return messageId.includes('@') ? messageId.split('_').pop() || messageId : messageId;
+}
+
+/**
+ * Converte a imagem do QR Code retornada pelo provider em data URL base64
+ */
+export async function imageResponseToDataUrl(response: { arrayBuffer(): Promise<ArrayBuffer> }): Promise<string> {
+  const imageBuffer = await response.arrayBuffer();
+  return `data:image/png;base64,${Buffer.from(imageBuffer).toString('base64')}`;
+}
+
+/**
+ * Tipo da mídia recebida a partir do tipo informado pelo provider (image, imageMessage, ptt, vcard...); null para texto
+ */
+export function normalizeInboundMediaType(type: string | null | undefined): InboundMediaType | null {
+  const name = String(type || '').toLowerCase().replace(/message$/, '');
+  if (['image', 'video', 'document', 'sticker'].includes(name)) return name as InboundMediaType;
+  if (['audio', 'ptt', 'voice'].includes(name)) return 'audio';
+  if (name === 'gif') return 'video';
+  if (['file', 'documentwithcaption'].includes(name)) return 'document';
+  if (['location', 'livelocation'].includes(name)) return 'location';
+  if (['contact', 'contacts', 'contactsarray', 'vcard', 'multi_vcard'].includes(name)) return 'contact';
+  return null;
+}
+
+/**
+ * Endereços internos (loopback, redes privadas, link-local, multicast) que não podem ser acessados por URLs vindas de usuários
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const high = parseInt(mappedHex[1], 16);
+      const low = parseInt(mappedHex[2], 16);
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return normalized === '::' || normalized === '::1' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+  }
+  return true;
+}
+
+// Resolução de DNS que recusa nomes apontando para a rede interna (o IP conectado é o mesmo que foi validado)
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`Endereço interno não permitido: ${hostname}`), '', 0);
+    }
+    if ((options as dns.LookupOptions).all) {
+      return (callback as any)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicHttpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const publicHttpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+/**
+ * Valida uma URL informada por usuário antes do download: somente http(s) e sem IPs internos
+ */
+export function assertPublicUrl(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('URL inválida');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Somente URLs http(s) são permitidas');
+  }
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || (net.isIP(hostname) && isPrivateAddress(hostname))) {
+    throw new Error(`Endereço interno não permitido: ${hostname}`);
+  }
+}
+
+/**
+ * Baixa o arquivo de uma URL do provider (com os cabeçalhos de autenticação informados).
+ * O corpo é limitado a MAX_INBOUND_MEDIA_BYTES; publicOnly bloqueia a rede interna (URLs vindas de usuários).
+ */
+export async function downloadFromUrl(url: string, headers: Record<string, string> = {}, options: { publicOnly?: boolean } = {}): Promise<DownloadedMedia> {
+  if (options.publicOnly) {
+    assertPublicUrl(url);
+  }
+
+  const response = await fetch(url, {
+    headers,
+    size: MAX_INBOUND_MEDIA_BYTES,
+    timeout: MEDIA_DOWNLOAD_TIMEOUT_MS,
+    ...(options.publicOnly && {
+      agent: (parsedUrl: URL) => parsedUrl.protocol === 'https:' ? publicHttpsAgent : publicHttpAgent,
+      redirect: 'error',
+    }),
+  });
+  if (!response.ok) {
+    response.body?.destroy?.();
+    throw new Error(`Download da mídia falhou: ${response.status} ${response.statusText}`);
+  }
+  if (Number(response.headers.get('content-length') || 0) > MAX_INBOUND_MEDIA_BYTES) {
+    response.body?.destroy?.();
+    throw new Error(`Mídia excede o limite de ${MAX_INBOUND_MEDIA_BYTES} bytes`);
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = await response.buffer();
+  } catch (error) {
+    // Limite excedido durante o download (ou timeout): interrompe a conexão em vez de drenar o restante
+    response.body?.destroy?.();
+    throw error;
+  }
+
+  const disposition = response.headers.get('content-disposition') || '';
+  return {
+    buffer,
+    mimetype: response.headers.get('content-type')?.split(';')[0] || null,
+    fileName: disposition.match(/filename="?([^";]+)"?/)?.[1] || null,
+  };
+}
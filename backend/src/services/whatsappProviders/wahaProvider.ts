@@ -0,0 +1,210 @@
+import { WhatsAppSession } from '@prisma/client';
+import { sendMessage, checkContactExists } from '../wahaApiService';
+import { WahaSyncService } from '../wahaSyncService';
+import { WhatsAppSessionService } from '../whatsappSessionService';
+import { settingsService } from '../settingsService';
+import { wahaRequest } from '../../lib/wahaRequest';
+import { WhatsAppProvider, AckStatus, InboundMedia, QrCodeUnavailableError } from './types';
+import { parseProviderTimestamp, imageResponseToDataUrl, normalizeInboundMediaType, downloadFromUrl } from './utils';
+import { buildTextFallback } from './interactiveMessages';
+
+const fetch = require('node-fetch');
+
+/**
+ * Id da opção escolhida em respostas de botão/lista (vem nos dados brutos do WhatsApp Web/NOWEB)
+ */
+function extractSelectionId(message: any): string | null {
+  const data = message._data || {};
+  return data.selectedButtonId ||
+    data.listResponse?.singleSelectReply?.selectedRowId ||
+    data.message?.buttonsResponseMessage?.selectedButtonId ||
+    data.message?.listResponseMessage?.singleSelectReply?.selectedRowId ||
+    data.message?.templateButtonReplyMessage?.selectedId ||
+    null;
+}
+
+/**
+ * Mídia, localização ou contato recebido. A WAHA baixa o arquivo e informa a URL em media.url
+ * (exige a API key); localização e contato vêm apenas nos dados brutos em algumas engines.
+ */
+function extractMedia(message: any): InboundMedia | null {
+  const data = message._data || {};
+  const location = message.location || (data.lat !== undefined ? { latitude: data.lat, longitude: data.lng } : null);
+  if (location) {
+    return { type: 'location', latitude: Number(location.latitude), longitude: Number(location.longitude) };
+  }
+  if (normalizeInboundMediaType(data.type) === 'contact') {
+    return { type: 'contact' };
+  }
+  if (!message.hasMedia) {
+    return null;
+  }
+  return {
+    type: normalizeInboundMediaType(data.type || message.media?.mimetype?.split('/')[0]) || 'document',
+    mimetype: message.media?.mimetype || data.mimetype || null,
+    fileName: message.media?.filename || data.filename || null,
+    url: message.media?.url || null,
+  };
+}
+
+/**
+ * WAHA ack: -1 ERROR, 0 PENDING, 1 SERVER, 2 DEVICE, 3 READ, 4 PLAYED
+ */
+function mapWahaAck(ack: any, ackName?: string): AckStatus | null {
+  const name = String(ackName || '').toUpperCase();
+  if (name === 'READ' || name === 'PLAYED' || ack >= 3) return 'READ';
+  if (name === 'DEVICE' || ack === 2) return 'DELIVERED';
+  return null;
+}
+
+export const wahaProvider: WhatsAppProvider = {
+  name: 'WAHA',
+
+  async sendMessage(session, to, message) {
+    // Botões e listas foram descontinuados pelo WhatsApp Web: enviados como texto numerado
+    const payload = message.buttons || message.list ? buildTextFallback(message) : message;
+
+    // Destino já validado pela WAHA vem como chatId (ex.: 5511999999999@c.us)
+    const result: any = await sendMessage(session.name, to, payload, to.includes('@') ? to : undefined);
+    const id = typeof result?.id === 'object' ? result.id?._serialized || result.id?.id : result?.id;
+    return { messageId: id || result?.messageId || null, raw: result };
+  },
+
+  async checkNumber(session, phone) {
+    const check = await checkContactExists(session.name, phone);
+    return { exists: check.exists, recipient: check.chatId };
+  },
+
+  parseInbound(payload) {
+    try {
+      // WAHA format: { event: 'message.any', session: '...', payload: { ... } }
+      if (payload?.event === 'message.any' && payload.payload) {
+        const message = payload.payload;
+        const media = extractMedia(message);
+        return {
+          messageId: message.id,
+          from: message.from,
+          fromNumber: message.from?.split('@')[0],
+          timestamp: message.timestamp,
+          type: media?.type || message.type || 'text',
+          // Em localizações o body traz a miniatura do mapa, não texto
+          content: media?.type === 'location' ? message.location?.description || '' : message.body || message.caption || '',
+          selectionId: extractSelectionId(message),
+          media,
+          isFromMe: message.fromMe || false,
+          raw: payload
+        };
+      }
+
+      // Voto em enquete: { event: 'poll.vote', payload: { vote: { id, from, fromMe, selectedOptions, timestamp }, poll } }
+      if (payload?.event === 'poll.vote' && payload.payload?.vote) {
+        const vote = payload.payload.vote;
+        return {
+          messageId: typeof vote.id === 'object' ? vote.id?._serialized : vote.id,
+          from: vote.from,
+          fromNumber: vote.from?.split('@')[0],
+          timestamp: vote.timestamp,
+          type: 'poll_vote',
+          content: (vote.selectedOptions || []).join(', '),
+          isFromMe: vote.fromMe || false,
+          raw: payload
+        };
+      }
+      return null;
+    } catch (error) {
+      console.error('Erro ao extrair mensagem WAHA:', error);
+      return null;
+    }
+  },
+
+  async downloadMedia(session, message) {
+    if (!message.media?.url) return null;
+    const config = await settingsService.getWahaConfig();
+    const apiKey = config.apiKey || process.env.WAHA_API_KEY || process.env.DEFAULT_WAHA_API_KEY || '';
+    return downloadFromUrl(message.media.url, { 'X-Api-Key': apiKey });
+  },
+
+  parseAck(payload) {
+    // { event: 'message.ack', session: '...', payload: { id, ack, ackName, fromMe } }
+    if (payload?.event !== 'message.ack' || !payload.payload) return null;
+    const ack = payload.payload;
+    const status = mapWahaAck(ack.ack, ack.ackName);
+    const messageId = typeof ack.id === 'object' ? ack.id?._serialized : ack.id;
+    if (!status || !messageId) return [];
+    return [{ messageId, status, timestamp: parseProviderTimestamp(ack.timestamp) }];
+  },
+
+  async createSession(session: WhatsAppSession, webhookUrl?: string) {
+    const result = await WahaSyncService.createSession(session.name, webhookUrl);
+
+    // createSession da WAHA regrava o registro; restaurar os dados da sessão do tenant
+    await WhatsAppSessionService.createOrUpdateSession({
+      name: session.name,
+      displayName: session.displayName || undefined,
+      status: 'SCAN_QR_CODE',
+      provider: 'WAHA',
+      tenantId: session.tenantId || undefined,
+      interactiveCampaignEnabled: session.interactiveCampaignEnabled,
+      webhookSecret: session.webhookSecret || undefined
+    });
+
+    return result;
+  },
+
+  async startSession(session) {
+    return wahaRequest(`/api/sessions/${session.name}/start`, {
+      method: 'POST'
+    });
+  },
+
+  async stopSession(session) {
+    return WahaSyncService.stopSession(session.name);
+  },
+
+  async restartSession(session) {
+    return WahaSyncService.restartSession(session.name);
+  },
+
+  async deleteSession(session) {
+    try {
+      await wahaRequest(`/api/sessions/${session.name}`, { method: 'DELETE' });
+    } catch (wahaError) {
+      console.warn(`Erro ao remover da WAHA API: ${wahaError}`);
+    }
+  },
+
+  async getQR(session) {
+    // Status do banco SCAN_QR_CODE tem prioridade; senão confirmar com a WAHA
+    if (session.status !== 'SCAN_QR_CODE') {
+      const remote = await wahaRequest(`/api/sessions/${session.name}`);
+      console.log(`🔍 Status da sessão ${session.name} na WAHA: ${remote.status}`);
+
+      if (remote.status === 'WORKING') {
+        throw new QrCodeUnavailableError(remote.status, 'Sessão já está conectada');
+      }
+      if (remote.status !== 'SCAN_QR_CODE') {
+        throw new QrCodeUnavailableError(remote.status, 'Sessão não está disponível para QR code');
+      }
+    }
+
+    const config = await settingsService.getWahaConfig();
+    const WAHA_BASE_URL = config.host || process.env.WAHA_BASE_URL || process.env.DEFAULT_WAHA_HOST || '';
+    const WAHA_API_KEY = config.apiKey || process.env.WAHA_API_KEY || process.env.DEFAULT_WAHA_API_KEY || '';
+
+    const qrImageUrl = `${WAHA_BASE_URL}/api/${session.name}/auth/qr?format=image`;
+    console.log(`📱 Buscando QR image da WAHA: ${qrImageUrl}`);
+
+    const response = await fetch(qrImageUrl, {
+      headers: {
+        'X-API-KEY': WAHA_API_KEY,
+        'Accept': 'image/png'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Erro ao buscar QR da WAHA: ${response.status} ${response.statusText}`);
+    }
+
+    return imageResponseToDataUrl(response);
+  }
+};
@@ -1,10 +1,11 @@
 import { prisma } from '../lib/prisma';
+import type { WhatsAppProviderName } from './whatsappProviders/types';
 
 export interface WhatsAppSessionData {
   name: string; // Nome real usado na API (ex: vendas_c52982e8)
   displayName?: string; // Nome exibido ao usuário (ex: vendas)
   status: 'WORKING' | 'SCAN_QR_CODE' | 'STOPPED' | 'FAILED';
-  provider: 'WAHA' | 'EVOLUTION' | 'QUEPASA';
+  provider: WhatsAppProviderName;
   config?: any;
   me?: {
     id: string;
@@ -34,10 +35,11 @@ export class WhatsAppSessionService {
     });
 
     return sessions.map(session => ({
+      id: session.id,
       name: session.name,
       displayName: session.displayName || session.name,
       status: session.status,
-      provider: session.provider as 'WAHA' | 'EVOLUTION' | 'QUEPASA',
+      provider: session.provider as WhatsAppProviderName,
       config: session.config ? JSON.parse(session.config) : {},
       me: session.meId ? {
         id: session.meId,
@@ -49,7 +51,10 @@ export class WhatsAppSessionService {
       qrExpiresAt: session.qrExpiresAt,
       assignedWorker: session.assignedWorker,
       tenantId: session.tenantId,
-      quepasaToken: session.quepasaToken
+      quepasaToken: session.quepasaToken,
+      healthScore: session.healthScore,
+      healthStatus: session.healthStatus,
+      quarantinedUntil: session.quarantinedUntil
     }));
   }
 
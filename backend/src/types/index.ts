@@ -18,6 +18,7 @@ export interface ContactInput {
   tags?: string[];
   categoriaId?: string;
   tenantId?: string;
+  customFields?: Record<string, any>;
 }
 
 export interface ContactsResponse {
@@ -43,6 +44,17 @@ export interface CategoryInput {
   descricao?: string;
 }
 
+export type ContactFieldType = 'text' | 'number' | 'date' | 'select';
+
+export interface ContactFieldInput {
+  key?: string;
+  label: string;
+  type: ContactFieldType;
+  options?: string[];
+  required?: boolean;
+  order?: number;
+}
+
 export interface CategoriesResponse {
   categories: Category[];
   total: number;
@@ -56,11 +68,10 @@ export interface ApiError {
   details?: any;
 }
 
-export interface ImportResult {
-  success: boolean;
-  totalRows: number;
-  successfulImports: number;
-  failedImports: number;
-  errors: string[];
-  message?: string;
+export type ContactImportStrategy = 'SKIP' | 'UPDATE' | 'MERGE_TAGS';
+
+export interface ContactImportOptions {
+  mapping: Record<string, string>; // Coluna do CSV -> campo do contato ('' ignora a coluna)
+  strategy: ContactImportStrategy;
+  categoryId?: string;
 }
\ No newline at end of file
@@ -0,0 +1,241 @@
+/**
+ * Testes do motor de automação: compilação das ações em programa linear (ramificações viram saltos),
+ * execução com esperas persistidas e validação/avaliação da regex do trigger no RE2
+ */
+
+import { prismaStub } from './prismaStub';
+import { afterEach, before, beforeEach, describe, mock, Mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { jobQueueService, JobDeferredError } from '../../src/services/jobQueueService';
+import type { AutomationService } from '../../src/services/automationService';
+
+let automationService: AutomationService;
+
+const action = (type: string, name: string, order: number, extra: Record<string, any> = {}) => ({ type, order, config: { name }, ...extra });
+
+const branch = (order: number, trueActions: any[], falseActions: any[] = []) => ({
+  type: 'CONDITIONAL_BRANCH',
+  order,
+  config: { conditions: [{ field: 'plan', type: 'EQUALS', value: 'pro' }], trueActions, falseActions },
+});
+
+function compile(actions: any[]) {
+  return automationService['compileActions'](actions);
+}
+
+function buildContext(actions: any[], variables: Record<string, any> = {}): any {
+  return { flowId: 'flow-1', tenantId: 'tenant-1', triggerData: {}, variables, program: compile(actions), pc: 0, steps: [] };
+}
+
+before(async () => {
+  // O serviço carrega os fluxos ativos ao ser importado
+  prismaStub.model('automationFlow').findMany = async () => [];
+  mock.method(console, 'log', () => undefined);
+  ({ automationService } = await import('../../src/services/automationService'));
+  mock.restoreAll();
+});
+
+describe('automationService.compileActions', () => {
+  test('Should flatten branches into conditional and unconditional jumps', () => {
+    const program = compile([
+      action('ADD_TAG', 'E', 3),
+      action('SEND_MESSAGE', 'A', 1),
+      branch(2, [action('SEND_MESSAGE', 'B', 1), action('ADD_TAG', 'C', 2)], [action('SEND_EMAIL', 'D', 1)]),
+    ]);
+
+    assert.deepEqual(
+      program.map(instruction => [instruction.path, instruction.type, instruction.config.name ?? null, instruction.target ?? null]),
+      [
+        ['0', 'SEND_MESSAGE', 'A', null],
+        ['1', 'CONDITIONAL_BRANCH', null, 5],
+        ['1.true.0', 'SEND_MESSAGE', 'B', null],
+        ['1.true.1', 'ADD_TAG', 'C', null],
+        ['1', 'JUMP', null, 6],
+        ['1.false.0', 'SEND_EMAIL', 'D', null],
+        ['2', 'ADD_TAG', 'E', null],
+      ]
+    );
+  });
+
+  test('Should skip the jump when the branch has no false actions', () => {
+    const program = compile([branch(1, [action('ADD_TAG', 'B', 1)]), action('ADD_TAG', 'C', 2)]);
+
+    assert.deepEqual(program.map(instruction => [instruction.type, instruction.target ?? null]), [
+      ['CONDITIONAL_BRANCH', 2],
+      ['ADD_TAG', null],
+      ['ADD_TAG', null],
+    ]);
+  });
+
+  test('Should offset the jumps of nested branches', () => {
+    const program = compile([
+      action('ADD_TAG', 'A', 1),
+      branch(2, [branch(1, [action('ADD_TAG', 'B', 1)], [action('ADD_TAG', 'C', 1)])], [action('ADD_TAG', 'D', 1)]),
+    ]);
+
+    assert.deepEqual(program.map(instruction => [instruction.path, instruction.type, instruction.target ?? null]), [
+      ['0', 'ADD_TAG', null],
+      ['1', 'CONDITIONAL_BRANCH', 7],
+      ['1.true.0', 'CONDITIONAL_BRANCH', 5],
+      ['1.true.0.true.0', 'ADD_TAG', null],
+      ['1.true.0', 'JUMP', 6],
+      ['1.true.0.false.0', 'ADD_TAG', null],
+      ['1', 'JUMP', 8],
+      ['1.false.0', 'ADD_TAG', null],
+    ]);
+  });
+});
+
+describe('automationService.runExecution', () => {
+  let executed: string[];
+  let update: Mock<(...args: any[]) => Promise<any>>;
+  let enqueue: Mock<(...args: any[]) => Promise<any>>;
+
+  beforeEach(() => {
+    executed = [];
+    update = mock.fn(async (..._args: any[]) => ({}));
+    prismaStub.model('automationExecution').update = update;
+    enqueue = mock.method(jobQueueService, 'enqueue', async () => ({ id: 'job-1' })) as any;
+    mock.method(automationService as any, 'executeAction', async (instruction: any) => {
+      executed.push(instruction.config.name);
+      return { detail: `${instruction.config.name} ok` };
+    });
+    mock.method(console, 'log', () => undefined);
+  });
+
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  const FLOW = [
+    action('SEND_MESSAGE', 'A', 1),
+    branch(2, [action('ADD_TAG', 'B', 1)], [action('ADD_TAG', 'C', 1)]),
+    action('SEND_EMAIL', 'D', 3),
+  ];
+
+  function finalStatus() {
+    return (update.mock.calls.at(-1)!.arguments as any[])[0].data.status;
+  }
+
+  test('Should follow the true branch and finish the execution', async () => {
+    const context = buildContext(FLOW, { plan: 'pro' });
+
+    await automationService['runExecution']('execution-1', new Date(), context);
+
+    assert.deepEqual(executed, ['A', 'B', 'D']);
+    assert.deepEqual(context.steps.map((step: any) => [step.path, step.status]), [
+      ['0', 'SUCCESS'],
+      ['1', 'SUCCESS'],
+      ['1.true.0', 'SUCCESS'],
+      ['2', 'SUCCESS'],
+    ]);
+    assert.equal(finalStatus(), 'SUCCESS');
+  });
+
+  test('Should jump to the false branch when the condition fails', async () => {
+    const context = buildContext(FLOW, { plan: 'free' });
+
+    await automationService['runExecution']('execution-1', new Date(), context);
+
+    assert.deepEqual(executed, ['A', 'C', 'D']);
+    assert.equal(context.steps[1].detail, 'Condição falsa');
+  });
+
+  test('Should suspend on delays and resume after the wait without repeating it', async () => {
+    const context = buildContext([
+      action('SEND_MESSAGE', 'A', 1),
+      { type: 'DELAY', order: 2, config: { minutes: 30 } },
+      action('SEND_MESSAGE', 'B', 3),
+    ]);
+    const before = Date.now();
+
+    await automationService['runExecution']('execution-1', new Date(), context);
+
+    assert.deepEqual(executed, ['A']);
+    assert.equal(context.pc, 1);
+    assert.equal(context.delayServed, true);
+    assert.equal(finalStatus(), 'WAITING');
+
+    const [queue, payload, options] = enqueue.mock.calls[0].arguments as any[];
+    assert.equal(queue, 'automation-step');
+    assert.deepEqual(payload, { executionId: 'execution-1' });
+    assert.ok(options.runAt.getTime() - before >= 30 * 60000);
+
+    // Retomada pela fila
+    await automationService['runExecution']('execution-1', new Date(), context);
+
+    assert.deepEqual(executed, ['A', 'B']);
+    assert.equal(enqueue.mock.callCount(), 1);
+    assert.equal(finalStatus(), 'SUCCESS');
+  });
+
+  test('Should wait before actions with their own delay', async () => {
+    const context = buildContext([action('SEND_MESSAGE', 'A', 1, { delay: 5 })]);
+
+    await automationService['runExecution']('execution-1', new Date(), context);
+
+    assert.deepEqual(executed, []);
+    assert.equal(context.steps[0].status, 'WAITING');
+  });
+
+  test('Should retry deferred actions at the informed time', async () => {
+    const runAt = new Date(Date.now() + 3600000);
+    mock.method(automationService as any, 'executeAction', async () => {
+      throw new JobDeferredError(runAt, 'Sessão sem orçamento de envio');
+    });
+    const context = buildContext([action('SEND_MESSAGE', 'A', 1)]);
+
+    await automationService['runExecution']('execution-1', new Date(), context);
+
+    assert.equal(context.pc, 0);
+    assert.equal(finalStatus(), 'WAITING');
+    assert.equal((enqueue.mock.calls[0].arguments as any[])[2].runAt, runAt);
+  });
+
+  test('Should record the failed step and stop the execution', async () => {
+    mock.method(automationService as any, 'executeAction', async () => {
+      throw new Error('Sessão desconectada');
+    });
+    const context = buildContext([action('SEND_MESSAGE', 'A', 1), action('ADD_TAG', 'B', 2)]);
+
+    await assert.rejects(automationService['runExecution']('execution-1', new Date(), context), /Sessão desconectada/);
+    assert.deepEqual(context.steps.map((step: any) => [step.path, step.status, step.detail]), [['0', 'FAILED', 'Sessão desconectada']]);
+  });
+});
+
+describe('automationService trigger patterns', () => {
+  test('Should accept simple and repeated-group patterns', () => {
+    assert.equal(automationService['validateTriggerPattern']('^(sim|quero)\\b'), null);
+    assert.equal(automationService['validateTriggerPattern']('pedido\\s+\\d+'), null);
+    assert.equal(automationService['validateTriggerPattern']('(\\w+\\s?){12}!'), null);
+  });
+
+  test('Should reject invalid, long and unsupported patterns', () => {
+    assert.match(automationService['validateTriggerPattern']('(abc') || '', /inválida/);
+    assert.match(automationService['validateTriggerPattern']('a'.repeat(201)) || '', /até 200 caracteres/);
+    for (const pattern of ['(a)\\1', '(?<nome>a)\\k<nome>', 'pedido(?=\\d)', '(?<!não )quero']) {
+      assert.match(automationService['validateTriggerPattern'](pattern) || '', /inválida/, pattern);
+    }
+  });
+
+  test('Should match case-insensitively and skip invalid stored patterns', () => {
+    mock.method(console, 'warn', () => undefined);
+    assert.equal(automationService['matchesPattern']('^pedido \\d+', 'PEDIDO 123'), true);
+    assert.equal(automationService['matchesPattern']('(a)\\1', 'aa'), false);
+    mock.restoreAll();
+  });
+
+  test('Should match patterns prone to backtracking in linear time', () => {
+    const startedAt = Date.now();
+
+    assert.equal(automationService['matchesPattern']('(\\w+\\s?){12}!', 'a'.repeat(40)), false);
+    assert.equal(automationService['matchesPattern']('(a+)+$', `${'a'.repeat(900)}b`), false);
+    assert.equal(automationService['matchesPattern']('(a|aa)+$', 'a'.repeat(30)), true);
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+
+  test('Should only evaluate the beginning of long messages', () => {
+    assert.equal(automationService['matchesPattern']('fim$', `${'x'.repeat(5000)} fim`), false);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Testes da requisição dos nós HTTP REST: interpolação de variáveis na URL, corpo e headers,
+ * mapeamento da resposta e limite de tamanho do corpo
+ */
+
+import { prismaStub } from './prismaStub';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { interactiveCampaignFlowEngine } from '../../src/services/interactiveCampaignFlowEngine';
+
+function httpNode(config: Record<string, any>) {
+  return { id: 'http-1', data: { nodeType: 'httprest', config } };
+}
+
+describe('interactiveCampaignFlowEngine.performHttpRequest', () => {
+  let requests: Array<{ url: string; init: any }>;
+  let respond: () => Response;
+
+  beforeEach(() => {
+    requests = [];
+    respond = () => Response.json({ order: { id: 42, status: 'pago' } });
+    mock.method(globalThis, 'fetch', async (url: string, init: any) => {
+      requests.push({ url: String(url), init });
+      return respond();
+    });
+    mock.method(console, 'log', () => undefined);
+  });
+
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  test('Should encode contact variables interpolated in the URL', async () => {
+    await interactiveCampaignFlowEngine.performHttpRequest(
+      httpNode({ url: 'https://api.loja.com/pedidos/{{pedido}}?cliente={cliente}&status={{resposta.status}}' }),
+      { pedido: '123/../../admin', cliente: 'Ana&admin=1', resposta: { status: 'a b#c' } }
+    );
+
+    assert.equal(
+      requests[0].url,
+      'https://api.loja.com/pedidos/123%2F..%2F..%2Fadmin?cliente=Ana%26admin%3D1&status=a%20b%23c'
+    );
+  });
+
+  test('Should escape variables interpolated in the JSON body', async () => {
+    await interactiveCampaignFlowEngine.performHttpRequest(
+      httpNode({ url: 'https://api.loja.com/leads', method: 'POST', body: '{"nome": "{{nome}}"}' }),
+      { nome: 'Ana "admin": true' }
+    );
+
+    assert.deepEqual(JSON.parse(requests[0].init.body), { nome: 'Ana "admin": true' });
+    assert.equal(requests[0].init.headers['Content-Type'], 'application/json');
+  });
+
+  test('Should map the response into session variables', async () => {
+    const result = await interactiveCampaignFlowEngine.performHttpRequest(
+      httpNode({ url: 'https://api.loja.com/pedido', responseVar: 'pedido', variableMappings: [{ variableName: 'statusPedido', jsonPath: 'order.status' }] }),
+      {}
+    );
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.variables, {
+      lastHttpStatus: 200,
+      lastHttpSuccess: true,
+      lastHttpError: null,
+      pedido: { order: { id: 42, status: 'pago' } },
+      statusPedido: 'pago',
+    });
+  });
+
+  test('Should reject response bodies above the size limit', async () => {
+    respond = () => new Response('x'.repeat(200 * 1024), { headers: { 'content-type': 'text/plain' } });
+
+    const result = await interactiveCampaignFlowEngine.performHttpRequest(
+      httpNode({ url: 'https://api.loja.com/relatorio', responseVar: 'relatorio' }),
+      {}
+    );
+
+    assert.equal(result.success, false);
+    assert.match(result.error || '', /Resposta maior que 100 KB/);
+    assert.equal(result.variables.relatorio, null);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Testes das sessões de campanhas interativas: reentrada de contatos, tempo máximo de vida,
+ * retomadas agendadas (lease e contagem de tentativas) e propagação de erros do fluxo retomado
+ */
+
+import { prismaStub } from './prismaStub';
+import { afterEach, beforeEach, describe, mock, Mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { interactiveCampaignSessionService } from '../../src/services/interactiveCampaignSessionService';
+import { interactiveCampaignFlowEngine } from '../../src/services/interactiveCampaignFlowEngine';
+
+const DUE_AT = new Date('2025-01-06T12:00:00Z');
+
+function dueSession(extra: Record<string, any> = {}) {
+  return { id: 'session-1', campaignId: 'campaign-1', wakeUpAt: DUE_AT, wakeUpNodeId: 'delay-1', wakeUpAttempts: 0, currentNodeId: 'delay-1', ...extra };
+}
+
+describe('interactiveCampaignSessionService.upsertSession', () => {
+  let upsert: Mock<(...args: any[]) => Promise<any>>;
+
+  beforeEach(() => {
+    upsert = mock.fn(async (..._args: any[]) => ({ id: 'session-1' }));
+    prismaStub.model('interactiveCampaignSession').upsert = upsert;
+    mock.method(console, 'log', () => undefined);
+  });
+
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  const session = (extra: Record<string, any> = {}) => ({
+    campaignId: 'campaign-1',
+    contactId: 'contact-1',
+    contactPhone: '5511988887777',
+    currentNodeId: 'trigger-1',
+    variables: { nome: 'Ana' },
+    ...extra,
+  });
+
+  test('Should restart an old session that re-enters the flow', async () => {
+    const before = new Date();
+
+    await interactiveCampaignSessionService.upsertSession(session());
+
+    const { update } = (upsert.mock.calls[0].arguments as any[])[0];
+    assert.ok(update.startedAt >= before);
+    assert.deepEqual({ ...update, startedAt: null, lastMessageAt: null }, {
+      currentNodeId: 'trigger-1',
+      contactPhone: '5511988887777',
+      lastMessageAt: null,
+      status: 'ACTIVE',
+      startedAt: null,
+      variables: { nome: 'Ana' },
+      visitedNodes: [],
+      lastResponse: null,
+      wakeUpAt: null,
+      wakeUpNodeId: null,
+      wakeUpAttempts: 0,
+    });
+  });
+
+  test('Should keep the previous state when only recording a final status', async () => {
+    await interactiveCampaignSessionService.upsertSession(session({ status: 'FAILED' }));
+
+    const { update } = (upsert.mock.calls[0].arguments as any[])[0];
+    assert.deepEqual(Object.keys(update), ['currentNodeId', 'lastMessageAt', 'status']);
+    assert.equal(update.status, 'FAILED');
+  });
+});
+
+describe('interactiveCampaignFlowEngine.expireSessionsPastLifetime', () => {
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  test('Should expire sessions by the time since they (re)entered the flow', async () => {
+    const updateMany = mock.fn(async (..._args: any[]) => ({ count: 0 }));
+    prismaStub.model('interactiveCampaign').findMany = async () => [{
+      id: 'campaign-1',
+      graph: { nodes: [{ id: 'trigger-1', data: { nodeType: 'trigger', config: { sessionMaxLifetimeValue: 2, sessionMaxLifetimeUnit: 'hours' } } }] },
+    }];
+    prismaStub.model('interactiveCampaignSession').updateMany = updateMany;
+    const before = Date.now();
+
+    await interactiveCampaignFlowEngine.expireSessionsPastLifetime();
+
+    const { where } = (updateMany.mock.calls[0].arguments as any[])[0];
+    assert.deepEqual(Object.keys(where), ['campaignId', 'status', 'startedAt']);
+    assert.ok(Math.abs(where.startedAt.lt.getTime() - (before - 2 * 3600 * 1000)) < 1000);
+  });
+});
+
+describe('interactiveCampaignSessionService wake-ups', () => {
+  let updates: any[];
+
+  beforeEach(() => {
+    updates = [];
+    prismaStub.model('interactiveCampaignSession').updateMany = async (args: any) => {
+      updates.push(args);
+      return { count: 1 };
+    };
+    mock.method(console, 'log', () => undefined);
+    mock.method(console, 'error', () => undefined);
+  });
+
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  test('Should lease due wake-ups and count the attempt', async () => {
+    prismaStub.model('interactiveCampaignSession').findMany = async () => [dueSession({ wakeUpAttempts: 2 })];
+
+    const [claimed] = await interactiveCampaignSessionService.claimDueWakeUps();
+
+    assert.equal(claimed.nodeId, 'delay-1');
+    assert.equal(claimed.attempts, 3);
+    assert.ok(claimed.leaseUntil > new Date());
+    assert.deepEqual(updates[0], {
+      where: { id: 'session-1', wakeUpAt: DUE_AT },
+      data: { wakeUpAt: claimed.leaseUntil, wakeUpAttempts: 3 },
+    });
+  });
+
+  test('Should only clear wake-ups of sessions that left the node', async () => {
+    prismaStub.model('interactiveCampaignSession').findMany = async () => [dueSession({ currentNodeId: 'wait-1' })];
+
+    assert.deepEqual(await interactiveCampaignSessionService.claimDueWakeUps(), []);
+    assert.deepEqual(updates[0].data, { wakeUpAt: null, wakeUpNodeId: null, wakeUpAttempts: 0 });
+  });
+
+  test('Should fail the session once the attempts are exhausted', async () => {
+    prismaStub.model('interactiveCampaignSession').findMany = async () => [dueSession({ wakeUpAttempts: 5 })];
+    prismaStub.model('interactiveCampaignSession').count = async () => 0;
+    prismaStub.model('interactiveCampaign').findUnique = async () => ({ status: 'PAUSED' });
+
+    assert.deepEqual(await interactiveCampaignSessionService.claimDueWakeUps(), []);
+    assert.deepEqual(updates[0].data, { status: 'FAILED', wakeUpAt: null, wakeUpNodeId: null });
+  });
+
+  test('Should return a failed wake-up to its node and keep the lease', async () => {
+    const leaseUntil = new Date('2025-01-06T12:05:00Z');
+
+    await interactiveCampaignSessionService.releaseFailedWakeUp('session-1', 'delay-1', leaseUntil, 3);
+
+    assert.deepEqual(updates[0], {
+      where: { id: 'session-1', status: 'ACTIVE', OR: [{ wakeUpAt: leaseUntil }, { wakeUpAt: null }] },
+      data: { currentNodeId: 'delay-1', wakeUpAt: leaseUntil, wakeUpNodeId: 'delay-1', wakeUpAttempts: 3 },
+    });
+  });
+});
+
+describe('interactiveCampaignFlowEngine.handleWakeUp', () => {
+  const graph = {
+    nodes: [
+      { id: 'delay-1', data: { nodeType: 'delay', config: { value: 10 } } },
+      { id: 'text-1', data: { nodeType: 'text', config: { content: 'Olá' } } },
+    ],
+    edges: [{ source: 'delay-1', target: 'text-1' }],
+  };
+
+  beforeEach(() => {
+    prismaStub.model('interactiveCampaignSession').findUnique = async () => ({
+      id: 'session-1',
+      status: 'ACTIVE',
+      currentNodeId: 'delay-1',
+      contactPhone: '5511988887777',
+      variables: {},
+      campaign: { graph },
+    });
+    mock.method(interactiveCampaignSessionService, 'updateSession', async () => ({}));
+    mock.method(console, 'log', () => undefined);
+    mock.method(console, 'error', () => undefined);
+  });
+
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  test('Should propagate send failures of the resumed flow', async () => {
+    mock.method(interactiveCampaignFlowEngine, 'sendNodeMessage', async () => {
+      throw new Error('Sessão desconectada');
+    });
+
+    await assert.rejects(interactiveCampaignFlowEngine.handleWakeUp('session-1', 'delay-1'), /Sessão desconectada/);
+  });
+
+  test('Should resolve when the resumed flow succeeds', async () => {
+    const sent = mock.method(interactiveCampaignFlowEngine, 'sendNodeMessage', async () => undefined);
+
+    await interactiveCampaignFlowEngine.handleWakeUp('session-1', 'delay-1');
+
+    assert.equal(sent.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Testes das mensagens interativas: montagem a partir da configuração, texto equivalente
+ * e o payload enviado por cada provider
+ */
+
+import { prismaStub } from './prismaStub';
+import { afterEach, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildInteractiveMessage,
+  buildTextFallback,
+  describeInteractive,
+  normalizeOptions,
+} from '../../src/services/whatsappProviders/interactiveMessages';
+import type { ProviderMessage } from '../../src/services/whatsappProviders/types';
+import { settingsService } from '../../src/services/settingsService';
+
+let getProvider: typeof import('../../src/services/whatsappProviders').getProvider;
+let sendMessageViaEvolution: typeof import('../../src/services/evolutionMessageService').sendMessageViaEvolution;
+
+const OPTIONS = [{ title: 'Sim' }, { id: 'nao', title: 'Não', description: 'Agora não' }, { title: '  ' }];
+
+const BUTTONS = buildInteractiveMessage('buttons', { text: 'Confirma?', footer: 'Loja', options: OPTIONS });
+const POLL = buildInteractiveMessage('poll', { text: 'Melhor dia?', options: [{ title: 'Sábado' }, { title: 'Domingo' }], selectableCount: 2 });
+const LOCATION = buildInteractiveMessage('location', { latitude: '-23.55', longitude: '-46.63', locationName: 'Loja Centro', address: 'Rua A, 1' });
+const CONTACT = buildInteractiveMessage('contact', { contactName: 'Suporte', contactPhone: '+55 (11) 99999-0000', organization: 'Loja' });
+const REACTION = buildInteractiveMessage('reaction', { emoji: '👍' }, undefined, 'MSG-1');
+
+describe('buildInteractiveMessage', () => {
+  test('Should number options without id and drop options without title', () => {
+    assert.deepEqual(normalizeOptions(OPTIONS), [
+      { id: 'opt_1', title: 'Sim' },
+      { id: 'nao', title: 'Não', description: 'Agora não' },
+    ]);
+  });
+
+  test('Should render contact variables in texts and options', () => {
+    const render = (value: string) => value.replace('{{nome}}', 'Ana');
+    const message = buildInteractiveMessage('list', { text: 'Olá {{nome}}', options: [{ title: 'Plano {{nome}}' }] }, render);
+
+    assert.deepEqual(message, {
+      list: {
+        text: 'Olá Ana',
+        footer: undefined,
+        buttonText: 'Ver opções',
+        sections: [{ title: undefined, rows: [{ id: 'opt_1', title: 'Plano Ana' }] }],
+      },
+    });
+  });
+
+  test('Should build each interactive type', () => {
+    assert.deepEqual(BUTTONS.buttons?.buttons.map(button => button.id), ['opt_1', 'nao']);
+    assert.deepEqual(POLL.poll, { name: 'Melhor dia?', options: [{ id: 'opt_1', title: 'Sábado' }, { id: 'opt_2', title: 'Domingo' }], selectableCount: 2 });
+    assert.deepEqual(LOCATION.location, { latitude: -23.55, longitude: -46.63, name: 'Loja Centro', address: 'Rua A, 1' });
+    assert.deepEqual(CONTACT.contact, { fullName: 'Suporte', phone: '5511999990000', organization: 'Loja', email: undefined });
+    assert.deepEqual(REACTION.reaction, { messageId: 'MSG-1', emoji: '👍' });
+  });
+
+  test('Should reject incomplete configurations', () => {
+    assert.throws(() => buildInteractiveMessage('buttons', { text: 'Confirma?' }), /ao menos um botão/);
+    assert.throws(() => buildInteractiveMessage('poll', { text: 'Dia?', options: [{ title: 'Sábado' }] }), /duas opções/);
+    assert.throws(() => buildInteractiveMessage('location', { latitude: 91, longitude: 0 }), /latitude e longitude/);
+    assert.throws(() => buildInteractiveMessage('contact', { contactName: 'Suporte' }), /nome e telefone/);
+    assert.throws(() => buildInteractiveMessage('reaction', { emoji: '👍' }), /Nenhuma mensagem do contato/);
+  });
+});
+
+describe('buildTextFallback', () => {
+  test('Should turn options into a numbered list', () => {
+    assert.deepEqual(buildTextFallback(BUTTONS), {
+      text: 'Confirma?\n\n1. Sim\n2. Não - Agora não\n\nResponda com o número da opção.\n\n_Loja_',
+    });
+    assert.deepEqual(buildTextFallback(POLL), {
+      text: '📊 Melhor dia?\n\n1. Sábado\n2. Domingo\n\nResponda com os números das opções.',
+    });
+  });
+
+  test('Should describe locations, contacts and reactions as text', () => {
+    assert.deepEqual(buildTextFallback(LOCATION), { text: '📍 Loja Centro\nRua A, 1\nhttps://maps.google.com/?q=-23.55,-46.63' });
+    assert.deepEqual(buildTextFallback(CONTACT), { text: '👤 Suporte\nLoja\n+5511999990000' });
+    assert.deepEqual(buildTextFallback(REACTION), { text: '👍' });
+  });
+
+  test('Should keep non interactive messages', () => {
+    const message: ProviderMessage = { text: 'Olá' };
+    assert.equal(buildTextFallback(message), message);
+  });
+
+  test('Should summarize interactive messages for the inbox', () => {
+    assert.deepEqual(describeInteractive(POLL), { type: 'poll', content: 'Melhor dia?' });
+    assert.deepEqual(describeInteractive(LOCATION), { type: 'location', content: 'Loja Centro' });
+    assert.equal(describeInteractive({ text: 'Olá' }), null);
+  });
+});
+
+describe('Provider mapping', () => {
+  let requests: Array<{ url: string; method: string; body: any }>;
+
+  before(async () => {
+    // Parte dos providers usa node-fetch: as chamadas passam pelo fetch global, que é substituído em cada teste
+    require.cache[require.resolve('node-fetch')] = { exports: (...args: any[]) => (globalThis.fetch as any)(...args) } as any;
+    ({ getProvider } = await import('../../src/services/whatsappProviders'));
+    ({ sendMessageViaEvolution } = await import('../../src/services/evolutionMessageService'));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    mock.method(globalThis, 'fetch', async (url: string, init: any) => {
+      requests.push({ url: String(url), method: init?.method, body: init?.body ? JSON.parse(init.body) : null });
+      return { ok: true, status: 200, statusText: 'OK', json: async () => ({ success: true, messages: [{ id: 'wamid.1' }] }), text: async () => '' };
+    });
+    mock.method(console, 'log', () => undefined);
+  });
+
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  describe('EVOLUTION', () => {
+    const send = (message: ProviderMessage) => sendMessageViaEvolution('inst', '5511988887777', message, { host: 'http://evolution', apiKey: 'key' });
+
+    test('Should use the native endpoint of each type', async () => {
+      await send(BUTTONS);
+      await send(buildInteractiveMessage('list', { text: 'Escolha', buttonText: 'Abrir', options: OPTIONS }));
+      await send(POLL);
+      await send(LOCATION);
+      await send(CONTACT);
+      await send(REACTION);
+
+      assert.deepEqual(requests.map(request => request.url.replace('http://evolution/message/', '')), [
+        'sendButtons/inst', 'sendList/inst', 'sendPoll/inst', 'sendLocation/inst', 'sendContact/inst', 'sendReaction/inst',
+      ]);
+      assert.deepEqual(requests[0].body.buttons, [
+        { type: 'reply', displayText: 'Sim', id: 'opt_1' },
+        { type: 'reply', displayText: 'Não', id: 'nao' },
+      ]);
+      assert.deepEqual(requests[2].body.values, ['Sábado', 'Domingo']);
+      assert.equal(requests[2].body.selectableCount, 2);
+      assert.deepEqual(requests[5].body.key.id, 'MSG-1');
+    });
+  });
+
+  describe('WAHA', () => {
+    beforeEach(() => {
+      mock.method(settingsService, 'getWahaConfig', async () => ({ host: 'http://waha', apiKey: 'key' }));
+    });
+
+    test('Should send buttons as numbered text and polls natively', async () => {
+      const waha = getProvider('WAHA');
+      await waha.sendMessage({ name: 'sessao' } as any, '5511988887777', BUTTONS);
+      await waha.sendMessage({ name: 'sessao' } as any, '5511988887777', POLL);
+
+      assert.equal(requests[0].url, 'http://waha/api/sendText');
+      assert.equal(requests[0].body.text, buildTextFallback(BUTTONS).text);
+      assert.equal(requests[1].url, 'http://waha/api/sendPoll');
+      assert.deepEqual(requests[1].body.poll, { name: 'Melhor dia?', options: ['Sábado', 'Domingo'], multipleAnswers: true });
+    });
+
+    test('Should react with PUT on the target message', async () => {
+      await getProvider('WAHA').sendMessage({ name: 'sessao' } as any, '5511988887777', REACTION);
+
+      assert.equal(requests[0].url, 'http://waha/api/reaction');
+      assert.equal(requests[0].method, 'PUT');
+      assert.deepEqual(requests[0].body, { messageId: 'MSG-1', reaction: '👍', session: 'sessao' });
+    });
+  });
+
+  describe('QUEPASA', () => {
+    test('Should send interactive messages as text', async () => {
+      mock.method(settingsService, 'getQuepasaConfig', async () => ({ url: 'http://quepasa', login: 'admin', password: '' }));
+
+      await getProvider('QUEPASA').sendMessage({ name: 'sessao', quepasaToken: 'token' } as any, '5511988887777', LOCATION);
+
+      assert.equal(requests[0].url, 'http://quepasa/send');
+      assert.deepEqual(requests[0].body, { text: buildTextFallback(LOCATION).text });
+    });
+  });
+
+  describe('CLOUD_API', () => {
+    const session = { id: 'session-1', name: 'cloud', cloudPhoneNumberId: '1234', cloudAccessToken: 'token' } as any;
+
+    beforeEach(() => {
+      mock.method(settingsService, 'getCloudApiConfig', async () => ({ graphUrl: 'http://graph', appSecret: '', verifyToken: '' }));
+      // Janela de atendimento de 24h aberta
+      prismaStub.model('message').findFirst = async () => ({ id: 'inbound-1' });
+    });
+
+    async function send(message: ProviderMessage) {
+      await getProvider('CLOUD_API').sendMessage(session, '5511988887777', message);
+      return requests[requests.length - 1].body;
+    }
+
+    test('Should send up to three buttons as reply buttons', async () => {
+      const body = await send(BUTTONS);
+
+      assert.equal(body.type, 'interactive');
+      assert.equal(body.interactive.type, 'button');
+      assert.deepEqual(body.interactive.action.buttons.map((button: any) => button.reply.id), ['opt_1', 'nao']);
+    });
+
+    test('Should send more than three buttons as a list', async () => {
+      const options = ['A', 'B', 'C', 'D'].map(title => ({ title }));
+      const body = await send(buildInteractiveMessage('buttons', { text: 'Escolha', options }));
+
+      assert.equal(body.interactive.type, 'list');
+      assert.equal(body.interactive.action.sections[0].rows.length, 4);
+    });
+
+    test('Should send polls as numbered text', async () => {
+      const body = await send(POLL);
+
+      assert.deepEqual(body.type, 'text');
+      assert.equal(body.text.body, buildTextFallback(POLL).text);
+    });
+
+    test('Should map locations, contacts and reactions to native messages', async () => {
+      assert.equal((await send(LOCATION)).type, 'location');
+      assert.equal((await send(CONTACT)).type, 'contacts');
+      assert.deepEqual((await send(REACTION)).reaction, { message_id: 'MSG-1', emoji: '👍' });
+    });
+  });
+});
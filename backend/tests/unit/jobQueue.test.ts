@@ -0,0 +1,142 @@
+/**
+ * Testes das transições de status da fila de jobs: conclusão, nova tentativa com backoff,
+ * dead-letter, adiamento sem consumir tentativa e descarte do resultado de quem perdeu o lock
+ */
+
+import { prismaStub } from './prismaStub';
+import { afterEach, beforeEach, describe, mock, Mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { jobQueueService, JobDeferredError, JobFailedError, QueueJob, QueueHandlerOptions } from '../../src/services/jobQueueService';
+
+const QUEUE = 'unit-test-queue';
+
+function buildJob(overrides: Partial<QueueJob> = {}): QueueJob {
+  return { id: 'job-1', queue: QUEUE, payload: {}, attempts: 1, maxAttempts: 3, groupKey: null, tenantId: null, ...overrides };
+}
+
+// Registra o handler e executa o job como o worker faria após reservá-lo
+async function run(job: QueueJob, handler: (job: QueueJob) => Promise<void>, options: QueueHandlerOptions = {}) {
+  jobQueueService.registerHandler(QUEUE, handler, options);
+  await jobQueueService['runJob'](jobQueueService['queues'].get(QUEUE)!, job);
+}
+
+describe('jobQueueService', () => {
+  let update: Mock<(...args: any[]) => Promise<any>>;
+
+  beforeEach(() => {
+    update = mock.fn(async (..._args: any[]) => ({ count: 1 }));
+    prismaStub.model('job').updateMany = update;
+    mock.method(console, 'log', () => undefined);
+    mock.method(console, 'warn', () => undefined);
+    mock.method(console, 'error', () => undefined);
+  });
+
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  test('Should mark the job as completed when the handler succeeds', async () => {
+    await run(buildJob(), async () => undefined);
+
+    assert.equal(update.mock.callCount(), 1);
+    const [args] = update.mock.calls[0].arguments as any[];
+    assert.deepEqual(args.where, { id: 'job-1', status: 'RUNNING', lockedBy: jobQueueService['workerId'] });
+    assert.equal(args.data.status, 'COMPLETED');
+    assert.equal(args.data.lockedBy, null);
+  });
+
+  test('Should reschedule a failed job with exponential backoff', async () => {
+    const before = Date.now();
+    await run(buildJob({ attempts: 2 }), async () => {
+      throw new Error('timeout');
+    }, { backoffBaseMs: 1000, backoffMaxMs: 60000 });
+
+    const [args] = update.mock.calls[0].arguments as any[];
+    assert.equal(args.data.status, 'PENDING');
+    assert.equal(args.data.lastError, 'timeout');
+
+    // 2ª tentativa: base * 2, com até 20% de jitter
+    const delay = args.data.runAt.getTime() - before;
+    assert.ok(delay >= 2000 - 50 && delay <= 2400 + 50, `delay fora do esperado: ${delay}`);
+  });
+
+  test('Should cap the backoff delay', () => {
+    for (let attempt = 1; attempt <= 20; attempt++) {
+      const delay = jobQueueService['getBackoffDelay'](attempt, 30000, 60000);
+      assert.ok(delay <= 72000, `tentativa ${attempt}: ${delay}`);
+    }
+    assert.ok(jobQueueService['getBackoffDelay'](20, 30000, 60000) >= 60000);
+  });
+
+  test('Should move the job to the dead-letter after the last attempt', async () => {
+    const onDead = mock.fn(async () => undefined);
+    await run(buildJob({ attempts: 3, maxAttempts: 3 }), async () => {
+      throw new Error('provider offline');
+    }, { onDead });
+
+    const [args] = update.mock.calls[0].arguments as any[];
+    assert.equal(args.data.status, 'DEAD');
+    assert.equal(args.data.lastError, 'provider offline');
+    assert.equal(onDead.mock.callCount(), 1);
+    assert.equal((onDead.mock.calls[0].arguments as any[])[1], 'provider offline');
+  });
+
+  test('Should dead-letter non-retryable failures on the first attempt', async () => {
+    await run(buildJob({ attempts: 1, maxAttempts: 5 }), async () => {
+      throw new JobFailedError('número inválido', { retryable: false });
+    });
+
+    const [args] = update.mock.calls[0].arguments as any[];
+    assert.equal(args.data.status, 'DEAD');
+  });
+
+  test('Should use the backoff of the failure when informed', async () => {
+    const before = Date.now();
+    await run(buildJob({ attempts: 1 }), async () => {
+      throw new JobFailedError('rate limited', { retryable: true, backoffBaseMs: 5 * 60000, backoffMaxMs: 10 * 60000 });
+    }, { backoffBaseMs: 1000 });
+
+    const [args] = update.mock.calls[0].arguments as any[];
+    assert.equal(args.data.status, 'PENDING');
+    assert.ok(args.data.runAt.getTime() - before >= 5 * 60000 - 50);
+  });
+
+  test('Should defer the job without consuming the attempt', async () => {
+    const runAt = new Date(Date.now() + 3600000);
+    await run(buildJob({ attempts: 3, maxAttempts: 3 }), async () => {
+      throw new JobDeferredError(runAt, 'Janela de envio fechada');
+    });
+
+    const [args] = update.mock.calls[0].arguments as any[];
+    assert.equal(args.data.status, 'PENDING');
+    assert.equal(args.data.runAt, runAt);
+    assert.deepEqual(args.data.attempts, { decrement: 1 });
+  });
+
+  test('Should discard the result of a worker that lost its lock', async () => {
+    update.mock.mockImplementation(async () => ({ count: 0 }));
+    const onDead = mock.fn(async () => undefined);
+
+    await run(buildJob({ attempts: 3, maxAttempts: 3 }), async () => {
+      throw new Error('provider offline');
+    }, { onDead });
+
+    assert.equal(update.mock.callCount(), 1);
+    assert.equal(onDead.mock.callCount(), 0);
+  });
+
+  test('Should only requeue stale jobs still held by the lock that was read', async () => {
+    const lockedAt = new Date(Date.now() - 3600000);
+    prismaStub.model('job').findMany = async () => [{
+      id: 'job-2', queue: QUEUE, payload: {}, attempts: 1, maxAttempts: 3, groupKey: null, tenantId: null, lockedBy: 'worker-antigo', lockedAt,
+    }];
+    jobQueueService.registerHandler(QUEUE, async () => undefined);
+
+    await jobQueueService['recoverStaleJobs']();
+
+    const [args] = update.mock.calls[0].arguments as any[];
+    assert.deepEqual(args.where, { id: 'job-2', status: 'RUNNING', lockedBy: 'worker-antigo', lockedAt });
+    assert.equal(args.data.status, 'PENDING');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Testes de interpretação de acks (entrega/leitura) por provider
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { messageAckService } from '../../src/services/messageAckService';
+import { providerMessageKeyId } from '../../src/services/whatsappProviders/utils';
+
+describe('messageAckService.parseAck', () => {
+  test('Should return null for unsupported providers', () => {
+    assert.equal(messageAckService.parseAck('UNKNOWN', { event: 'message.ack' }), null);
+  });
+
+  describe('WAHA', () => {
+    test('Should map ack levels and ack names', () => {
+      const delivered = messageAckService.parseAck('WAHA', {
+        event: 'message.ack',
+        payload: { id: { _serialized: 'true_5511999999999@c.us_3EB0AAA' }, ack: 2, timestamp: 1700000000 },
+      });
+      assert.deepEqual(delivered, [
+        { messageId: 'true_5511999999999@c.us_3EB0AAA', status: 'DELIVERED', timestamp: new Date(1700000000 * 1000) },
+      ]);
+
+      const played = messageAckService.parseAck('WAHA', { event: 'message.ack', payload: { id: 'ABC', ack: 1, ackName: 'PLAYED' } });
+      assert.equal(played?.[0].status, 'READ');
+    });
+
+    test('Should ignore server acks and other events', () => {
+      assert.deepEqual(messageAckService.parseAck('WAHA', { event: 'message.ack', payload: { id: 'ABC', ack: 1, ackName: 'SERVER' } }), []);
+      assert.equal(messageAckService.parseAck('WAHA', { event: 'message', payload: { id: 'ABC' } }), null);
+    });
+  });
+
+  describe('EVOLUTION', () => {
+    test('Should map numeric and named statuses from a list of updates', () => {
+      const acks = messageAckService.parseAck('EVOLUTION', {
+        event: 'MESSAGES_UPDATE',
+        data: [
+          { keyId: 'K1', status: 3 },
+          { key: { id: 'K2' }, status: 'READ' },
+          { keyId: 'K3', status: 'SERVER_ACK' },
+        ],
+      });
+      assert.deepEqual(acks?.map(ack => [ack.messageId, ack.status]), [['K1', 'DELIVERED'], ['K2', 'READ']]);
+    });
+  });
+
+  describe('QUEPASA', () => {
+    test('Should read receipts in both payload formats', () => {
+      const receipt = messageAckService.parseAck('QUEPASA', { id: 'Q1', type: 'receipt', status: 'delivered' });
+      assert.deepEqual(receipt?.map(ack => [ack.messageId, ack.status]), [['Q1', 'DELIVERED']]);
+
+      const nested = messageAckService.parseAck('QUEPASA', { ack: { messageid: 'Q2', status: 'read' } });
+      assert.deepEqual(nested?.map(ack => [ack.messageId, ack.status]), [['Q2', 'READ']]);
+    });
+
+    test('Should not treat inbound messages as acks', () => {
+      assert.equal(messageAckService.parseAck('QUEPASA', { id: 'Q3', type: 'text', text: 'oi' }), null);
+    });
+  });
+
+  describe('CLOUD_API', () => {
+    test('Should map statuses and keep the provider error on failures', () => {
+      const acks = messageAckService.parseAck('CLOUD_API', {
+        object: 'whatsapp_business_account',
+        entry: [{
+          changes: [{
+            value: {
+              statuses: [
+                { id: 'wamid.1', status: 'read', timestamp: '1700000000' },
+                { id: 'wamid.2', status: 'failed', timestamp: '1700000000', errors: [{ code: 131047, title: 'Re-engagement message' }] },
+                { id: 'wamid.3', status: 'sent', timestamp: '1700000000' },
+              ],
+            },
+          }],
+        }],
+      });
+
+      assert.deepEqual(acks, [
+        { messageId: 'wamid.1', status: 'READ', timestamp: new Date(1700000000 * 1000) },
+        { messageId: 'wamid.2', status: 'FAILED', timestamp: new Date(1700000000 * 1000), error: 'Re-engagement message (131047)' },
+      ]);
+    });
+  });
+
+  describe('SANDBOX', () => {
+    test('Should accept only known statuses', () => {
+      const acks = messageAckService.parseAck('SANDBOX', {
+        event: 'sandbox.ack',
+        payload: { id: 'sandbox_1', status: 'FAILED', error: 'Número bloqueado', timestamp: '2025-01-01T12:00:00.000Z' },
+      });
+      assert.deepEqual(acks, [
+        { messageId: 'sandbox_1', status: 'FAILED', timestamp: new Date('2025-01-01T12:00:00.000Z'), error: 'Número bloqueado' },
+      ]);
+
+      assert.deepEqual(messageAckService.parseAck('SANDBOX', { event: 'sandbox.ack', payload: { id: 'sandbox_1', status: 'SENT' } }), []);
+    });
+  });
+});
+
+describe('providerMessageKeyId', () => {
+  test('Should extract the key id from WAHA serialized ids', () => {
+    assert.equal(providerMessageKeyId('true_5511999999999@c.us_3EB0AAA'), '3EB0AAA');
+  });
+
+  test('Should keep ids that are already a key id', () => {
+    assert.equal(providerMessageKeyId('3EB0AAA'), '3EB0AAA');
+    assert.equal(providerMessageKeyId('wamid.HBgNNTUxMTk5OTk5OTk5OQ_AA'), 'wamid.HBgNNTUxMTk5OTk5OTk5OQ_AA');
+  });
+});
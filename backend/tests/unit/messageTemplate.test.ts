@@ -0,0 +1,43 @@
+/**
+ * Testes da substituição de variáveis dos templates de mensagem (campos do contato e variáveis avulsas)
+ */
+
+import { prismaStub } from './prismaStub';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { messageTemplateService } from '../../src/services/messageTemplateService';
+import { templateVariableService } from '../../src/services/templateVariableService';
+
+describe('messageTemplateService.processTemplate', () => {
+  beforeEach(() => {
+    mock.method(messageTemplateService, 'getTemplate', async () => ({
+      active: true,
+      content: 'Olá {{nome}}, seu plano {{plano}} vence em {{vencimento}}. Cupom: {{cupom}}',
+      mediaUrl: null,
+    }));
+    mock.method(templateVariableService, 'getContactVariables', async () => ({
+      nome: 'Ana',
+      telefone: '5511988887777',
+      plano: '',
+      vencimento: '10/02/2025',
+    }));
+  });
+
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  test('Should replace empty custom fields with an empty text', async () => {
+    const result = await messageTemplateService.processTemplate('template-1', 'tenant-1', { id: 'contact-1' }, { cupom: 'PROMO10' });
+
+    assert.equal(result.content, 'Olá Ana, seu plano  vence em 10/02/2025. Cupom: PROMO10');
+    assert.deepEqual(result.variables, { nome: 'Ana', plano: '', vencimento: '10/02/2025', cupom: 'PROMO10' });
+  });
+
+  test('Should keep unknown variables', async () => {
+    const result = await messageTemplateService.processTemplate('template-1', 'tenant-1', { id: 'contact-1' });
+
+    assert.match(result.content, /Cupom: \{\{cupom\}\}$/);
+  });
+});
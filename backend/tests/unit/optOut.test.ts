@@ -0,0 +1,68 @@
+/**
+ * Testes das palavras de descadastro (opt-out) recebidas pelos contatos
+ */
+
+import { prismaStub } from './prismaStub';
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_OPT_OUT_KEYWORDS, optOutService } from '../../src/services/optOutService';
+
+function useTenantKeywords(optOutKeywords: string[] | null) {
+  prismaStub.model('tenantSettings').findUnique = async () => (optOutKeywords ? { optOutKeywords } : null);
+}
+
+describe('optOutService.matchKeyword', () => {
+  afterEach(() => {
+    prismaStub.reset();
+    mock.restoreAll();
+  });
+
+  test('Should use the default keywords when the tenant has none', async () => {
+    useTenantKeywords(null);
+    assert.equal(await optOutService.matchKeyword('tenant-1', 'SAIR'), 'SAIR');
+    assert.ok(DEFAULT_OPT_OUT_KEYWORDS.includes('STOP'));
+    assert.equal(await optOutService.matchKeyword('tenant-1', 'stop'), 'STOP');
+  });
+
+  test('Should ignore case, accents and punctuation around the word', async () => {
+    useTenantKeywords(['DESCADASTRAR', 'NÃO QUERO']);
+    assert.equal(await optOutService.matchKeyword('tenant-1', '  Descadastrar!! '), 'DESCADASTRAR');
+    assert.equal(await optOutService.matchKeyword('tenant-1', 'nao quero.'), 'NÃO QUERO');
+  });
+
+  test('Should only match when the whole message is the keyword', async () => {
+    useTenantKeywords(['SAIR']);
+    assert.equal(await optOutService.matchKeyword('tenant-1', 'quero sair do grupo'), null);
+    assert.equal(await optOutService.matchKeyword('tenant-1', 'SAIRAM'), null);
+  });
+
+  test('Should not query the settings for empty messages', async () => {
+    const findUnique = mock.fn(async () => null);
+    prismaStub.model('tenantSettings').findUnique = findUnique;
+
+    assert.equal(await optOutService.matchKeyword('tenant-1', '!!!'), null);
+    assert.equal(await optOutService.matchKeyword('tenant-1', null), null);
+    assert.equal(findUnique.mock.callCount(), 0);
+  });
+});
+
+describe('optOutService.updateKeywords', () => {
+  afterEach(() => {
+    prismaStub.reset();
+  });
+
+  test('Should store normalized, unique keywords', async () => {
+    const upsert = mock.fn(async (..._args: any[]) => ({}));
+    prismaStub.model('tenantSettings').upsert = upsert;
+
+    const keywords = await optOutService.updateKeywords('tenant-1', ['Sair!', 'SAIR', ' parar ', '', 'Ação']);
+
+    assert.deepEqual(keywords, ['SAIR', 'PARAR', 'ACAO']);
+    assert.deepEqual((upsert.mock.calls[0].arguments as any[])[0].update, { optOutKeywords: ['SAIR', 'PARAR', 'ACAO'] });
+  });
+
+  test('Should fall back to the default keywords when the list is cleared', async () => {
+    prismaStub.model('tenantSettings').upsert = async () => ({});
+    assert.deepEqual(await optOutService.updateKeywords('tenant-1', []), DEFAULT_OPT_OUT_KEYWORDS);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * PrismaClient em memória para testes unitários. Deve ser importado ANTES dos serviços:
+ * cada `new PrismaClient()` passa a devolver o mesmo cliente stub, cujos models (prisma.job,
+ * prisma.whatsAppSession...) têm os métodos definidos pelo teste. Chamadas a métodos não definidos
+ * rejeitam, para o teste não passar por engano sem banco.
+ */
+
+type StubMethod = (...args: any[]) => any;
+type StubModel = Record<string, StubMethod>;
+
+const models = new Map<string, StubModel>();
+
+function notStubbed(model: string, method: string): StubMethod {
+  return async () => {
+    throw new Error(`prisma.${model}.${method} não definido no teste`);
+  };
+}
+
+function getModel(name: string): StubModel {
+  let model = models.get(name);
+  if (!model) {
+    const methods: StubModel = {};
+    model = new Proxy(methods, {
+      get: (target, method) => (typeof method === 'string' ? target[method] || notStubbed(name, method) : undefined),
+    });
+    models.set(name, model);
+  }
+  return model;
+}
+
+// Operações do cliente ($queryRaw, $executeRaw...). $transaction roda o callback com o próprio stub.
+const clientMethods: StubModel = {};
+
+const client: any = new Proxy({}, {
+  get: (_target, property) => {
+    if (typeof property !== 'string') {
+      return undefined;
+    }
+    if (property.startsWith('$')) {
+      if (clientMethods[property]) {
+        return clientMethods[property];
+      }
+      if (property === '$transaction') {
+        return (input: any) => (typeof input === 'function' ? input(client) : Promise.all(input));
+      }
+      if (property === '$connect' || property === '$disconnect' || property === '$on' || property === '$use') {
+        return async () => undefined;
+      }
+      return notStubbed('client', property);
+    }
+    return getModel(property);
+  },
+});
+
+class PrismaClientStub {
+  constructor() {
+    return client;
+  }
+}
+
+require('@prisma/client').PrismaClient = PrismaClientStub;
+
+export const prismaStub = {
+  model(name: string): StubModel {
+    return getModel(name);
+  },
+
+  client: clientMethods,
+
+  /**
+   * Remove os métodos definidos pelos testes anteriores
+   */
+  reset() {
+    for (const model of models.values()) {
+      for (const method of Object.keys(model)) {
+        delete model[method];
+      }
+    }
+    for (const method of Object.keys(clientMethods)) {
+      delete clientMethods[method];
+    }
+  },
+};
@@ -0,0 +1,83 @@
+/**
+ * Testes da configuração de acks simulados do provider SANDBOX
+ */
+
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SANDBOX_ACK_CONFIG, sandboxService } from '../../src/services/sandboxService';
+
+describe('sandboxService.normalizeAckConfig', () => {
+  test('Should keep the current values for fields not informed', () => {
+    const current = { deliveredAfterSeconds: 10, readAfterSeconds: null, failureRate: 25, failureMessage: 'Bloqueado' };
+    assert.deepEqual(sandboxService.normalizeAckConfig({}, current), current);
+  });
+
+  test('Should accept null delays to never confirm the ack', () => {
+    assert.deepEqual(sandboxService.normalizeAckConfig({ deliveredAfterSeconds: '0', readAfterSeconds: null, failureRate: '12.5' }), {
+      deliveredAfterSeconds: 0,
+      readAfterSeconds: null,
+      failureRate: 12.5,
+      failureMessage: DEFAULT_SANDBOX_ACK_CONFIG.failureMessage,
+    });
+  });
+
+  test('Should fall back to the default failure message when it is blank', () => {
+    assert.equal(sandboxService.normalizeAckConfig({ failureMessage: '   ' }).failureMessage, DEFAULT_SANDBOX_ACK_CONFIG.failureMessage);
+  });
+
+  test('Should reject out of range values', () => {
+    assert.throws(() => sandboxService.normalizeAckConfig({ failureRate: 101 }), /entre 0 e 100/);
+    assert.throws(() => sandboxService.normalizeAckConfig({ failureRate: 'muito' }), /entre 0 e 100/);
+    assert.throws(() => sandboxService.normalizeAckConfig({ deliveredAfterSeconds: -1 }), /Atraso de ack/);
+    assert.throws(() => sandboxService.normalizeAckConfig({ readAfterSeconds: 24 * 60 * 60 + 1 }), /Atraso de ack/);
+  });
+});
+
+describe('sandboxService.scheduleAcks', () => {
+  const session = (sandboxConfig: any) => ({ name: 'sandbox-1', sandboxConfig }) as any;
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  function scheduled(sandboxConfig: any, random: number) {
+    const emitted: Array<[string, string | undefined]> = [];
+    mock.timers.enable({ apis: ['setTimeout'] });
+    mock.method(Math, 'random', () => random);
+    mock.method(sandboxService, 'emitAck', async (_session: string, _id: string, status: string, error?: string) => {
+      emitted.push([status, error]);
+      return true;
+    });
+
+    sandboxService.scheduleAcks(session(sandboxConfig), 'sandbox_abc');
+    return emitted;
+  }
+
+  test('Should emit delivery and read acks after the configured delays', () => {
+    const emitted = scheduled({ deliveredAfterSeconds: 2, readAfterSeconds: 5, failureRate: 0 }, 0.5);
+
+    mock.timers.tick(1999);
+    assert.deepEqual(emitted, []);
+    mock.timers.tick(1);
+    assert.deepEqual(emitted, [['DELIVERED', undefined]]);
+    mock.timers.tick(3000);
+    assert.deepEqual(emitted, [['DELIVERED', undefined], ['READ', undefined]]);
+  });
+
+  test('Should wait at least one second before the first ack', () => {
+    const emitted = scheduled({ deliveredAfterSeconds: 0, readAfterSeconds: null }, 0.5);
+
+    mock.timers.tick(999);
+    assert.deepEqual(emitted, []);
+    mock.timers.tick(1);
+    assert.deepEqual(emitted, [['DELIVERED', undefined]]);
+  });
+
+  test('Should fail the configured share of messages instead of delivering them', () => {
+    const emitted = scheduled({ failureRate: 30, failureMessage: 'Número bloqueado' }, 0.2);
+
+    mock.timers.tick(60000);
+    assert.deepEqual(emitted, [['FAILED', 'Número bloqueado']]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Testes da janela de envio: validação, horários abertos, próxima abertura (inclusive com
+ * horário de verão) e previsão de término das mensagens pendentes
+ */
+
+import { describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sendingWindowService, SendingWindow } from '../../src/services/sendingWindowService';
+
+// Segunda a sexta, 09:00-12:00 e 13:00-18:00 em São Paulo (UTC-3, sem horário de verão)
+const BUSINESS_HOURS: SendingWindow = {
+  enabled: true,
+  timezone: 'America/Sao_Paulo',
+  weekdays: [1, 2, 3, 4, 5],
+  ranges: [{ start: '13:00', end: '18:00' }, { start: '09:00', end: '12:00' }],
+  holidays: ['2025-01-07'],
+};
+
+describe('sendingWindowService.normalize', () => {
+  test('Should return null when no window is informed', () => {
+    assert.equal(sendingWindowService.normalize(undefined), null);
+    assert.equal(sendingWindowService.normalize(''), null);
+  });
+
+  test('Should deduplicate and sort weekdays and holidays', () => {
+    const window = sendingWindowService.normalize({
+      timezone: 'America/Sao_Paulo',
+      weekdays: [5, 1, '3', 1, 9],
+      ranges: [{ start: '08:00', end: '24:00' }],
+      holidays: ['2025-12-25', '2025-01-01', '2025-12-25'],
+    });
+
+    assert.deepEqual(window, {
+      enabled: true,
+      timezone: 'America/Sao_Paulo',
+      weekdays: [1, 3, 5],
+      ranges: [{ start: '08:00', end: '24:00' }],
+      holidays: ['2025-01-01', '2025-12-25'],
+    });
+  });
+
+  test('Should reject invalid timezones, ranges and holidays', () => {
+    const base = { weekdays: [1], ranges: [{ start: '09:00', end: '18:00' }] };
+
+    assert.throws(() => sendingWindowService.normalize({ ...base, timezone: 'Mars/Olympus' }), /Fuso horário inválido/);
+    assert.throws(() => sendingWindowService.normalize({ ...base, ranges: [{ start: '18:00', end: '09:00' }] }), /o fim deve ser depois do início/);
+    assert.throws(() => sendingWindowService.normalize({ ...base, ranges: [{ start: '9h', end: '18:00' }] }), /HH:mm/);
+    assert.throws(() => sendingWindowService.normalize({ ...base, holidays: ['25/12/2025'] }), /Feriado inválido/);
+    assert.throws(() => sendingWindowService.normalize({ ...base, weekdays: [] }), /dia da semana/);
+  });
+
+  test('Should accept a disabled window without days or ranges', () => {
+    assert.deepEqual(sendingWindowService.normalize({ enabled: false }), {
+      enabled: false,
+      timezone: 'America/Sao_Paulo',
+      weekdays: [],
+      ranges: [],
+      holidays: [],
+    });
+  });
+
+  test('Should ignore invalid persisted windows', () => {
+    mock.method(console, 'warn', () => undefined);
+    assert.equal(sendingWindowService.parse({ weekdays: [], ranges: [] }), null);
+    mock.restoreAll();
+  });
+});
+
+describe('sendingWindowService.isOpen', () => {
+  test('Should be open inside a range on an allowed weekday', () => {
+    // Segunda-feira 06/01/2025 10:30 em São Paulo
+    assert.equal(sendingWindowService.isOpen(BUSINESS_HOURS, new Date('2025-01-06T13:30:00Z')), true);
+  });
+
+  test('Should be closed between ranges, on weekends and on holidays', () => {
+    assert.equal(sendingWindowService.isOpen(BUSINESS_HOURS, new Date('2025-01-06T15:30:00Z')), false); // 12:30
+    assert.equal(sendingWindowService.isOpen(BUSINESS_HOURS, new Date('2025-01-04T13:30:00Z')), false); // sábado
+    assert.equal(sendingWindowService.isOpen(BUSINESS_HOURS, new Date('2025-01-07T13:30:00Z')), false); // feriado
+  });
+
+  test('Should treat the end of a range as closed', () => {
+    assert.equal(sendingWindowService.isOpen(BUSINESS_HOURS, new Date('2025-01-06T20:59:59Z')), true); // 17:59:59
+    assert.equal(sendingWindowService.isOpen(BUSINESS_HOURS, new Date('2025-01-06T21:00:00Z')), false); // 18:00
+  });
+
+  test('Should always be open without a window', () => {
+    assert.equal(sendingWindowService.isOpen(null, new Date('2025-01-04T03:00:00Z')), true);
+  });
+});
+
+describe('sendingWindowService.nextOpening', () => {
+  test('Should return the same instant when the window is open', () => {
+    const from = new Date('2025-01-06T13:30:00Z');
+    assert.deepEqual(sendingWindowService.nextOpening(BUSINESS_HOURS, from), from);
+  });
+
+  test('Should skip to the next range of the day', () => {
+    assert.deepEqual(
+      sendingWindowService.nextOpening(BUSINESS_HOURS, new Date('2025-01-06T15:30:00Z')),
+      new Date('2025-01-06T16:00:00Z')
+    );
+  });
+
+  test('Should skip weekends and holidays', () => {
+    // Sexta 03/01 19:00 -> segunda 06/01 09:00
+    assert.deepEqual(
+      sendingWindowService.nextOpening(BUSINESS_HOURS, new Date('2025-01-03T22:00:00Z')),
+      new Date('2025-01-06T12:00:00Z')
+    );
+    // Segunda 06/01 19:00 -> terça é feriado -> quarta 08/01 09:00
+    assert.deepEqual(
+      sendingWindowService.nextOpening(BUSINESS_HOURS, new Date('2025-01-06T22:00:00Z')),
+      new Date('2025-01-08T12:00:00Z')
+    );
+  });
+
+  test('Should follow daylight saving time changes', () => {
+    const newYork: SendingWindow = {
+      enabled: true,
+      timezone: 'America/New_York',
+      weekdays: [0, 1, 2, 3, 4, 5, 6],
+      ranges: [{ start: '09:00', end: '17:00' }],
+      holidays: [],
+    };
+
+    // Sábado 08/03/2025 18:00 EST -> domingo 09/03 09:00 EDT (UTC-4, já no horário de verão)
+    assert.deepEqual(
+      sendingWindowService.nextOpening(newYork, new Date('2025-03-08T23:00:00Z')),
+      new Date('2025-03-09T13:00:00Z')
+    );
+    // Sábado 01/11/2025 18:00 EDT -> domingo 02/11 09:00 EST (UTC-5, fim do horário de verão)
+    assert.deepEqual(
+      sendingWindowService.nextOpening(newYork, new Date('2025-11-01T22:00:00Z')),
+      new Date('2025-11-02T14:00:00Z')
+    );
+  });
+
+  test('Should return null when the window never opens', () => {
+    const neverOpen: SendingWindow = { ...BUSINESS_HOURS, weekdays: [], ranges: [] };
+    assert.equal(sendingWindowService.nextOpening(neverOpen, new Date('2025-01-06T13:30:00Z')), null);
+  });
+});
+
+describe('sendingWindowService.projectCompletion', () => {
+  test('Should project a continuous send without a window', () => {
+    // 10 mensagens em 2 sessões com delay médio de 60s (intervalo = 30s): 5 envios por sessão
+    assert.deepEqual(
+      sendingWindowService.projectCompletion(null, 10, 2, 60, new Date('2025-01-06T12:00:00Z')),
+      new Date('2025-01-06T12:02:30Z')
+    );
+  });
+
+  test('Should carry the remaining messages to the next open ranges', () => {
+    const oneHour: SendingWindow = { ...BUSINESS_HOURS, ranges: [{ start: '09:00', end: '10:00' }], holidays: [] };
+
+    // Intervalo de 60s: 60 mensagens por faixa; 120 mensagens terminam no fim da faixa de terça
+    assert.deepEqual(
+      sendingWindowService.projectCompletion(oneHour, 120, 1, 120, new Date('2025-01-06T11:00:00Z')),
+      new Date('2025-01-07T13:00:00Z')
+    );
+  });
+
+  test('Should return null without pending messages', () => {
+    assert.equal(sendingWindowService.projectCompletion(BUSINESS_HOURS, 0, 1, 60), null);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Testes do orçamento de envio por sessão: limites por minuto/hora/dia em buckets de um minuto,
+ * momento de liberação e teto diário do aquecimento
+ */
+
+import { prismaStub } from './prismaStub';
+import { afterEach, beforeEach, describe, mock, Mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sessionRateLimitService } from '../../src/services/sessionRateLimitService';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const NOW = new Date('2025-01-06T12:00:30Z');
+const CURRENT_BUCKET = Date.parse('2025-01-06T12:00:00Z');
+
+type SessionLimits = Parameters<typeof sessionRateLimitService.getEffectiveLimits>[0];
+
+const NO_LIMITS: SessionLimits = {
+  rateLimitPerMinute: null,
+  rateLimitPerHour: null,
+  rateLimitPerDay: null,
+  warmupPlan: null,
+  warmupStartedAt: null,
+};
+
+function bucket(minutesAgo: number, count: number) {
+  return { bucketStart: new Date(CURRENT_BUCKET - minutesAgo * MINUTE_MS), count };
+}
+
+describe('sessionRateLimitService.getEffectiveLimits', () => {
+  const plan = [{ untilDay: 3, dailyCap: 20 }, { untilDay: 7, dailyCap: 50 }];
+
+  test('Should apply the warm-up step of the current day', () => {
+    const limits = sessionRateLimitService.getEffectiveLimits(
+      { ...NO_LIMITS, warmupPlan: plan, warmupStartedAt: new Date(NOW.getTime() - 4 * DAY_MS) },
+      NOW
+    );
+    assert.deepEqual(limits, { perMinute: null, perHour: null, perDay: 50, warmupDay: 5, warmupCap: 50 });
+  });
+
+  test('Should keep the lowest of the daily limit and the warm-up cap', () => {
+    const limits = sessionRateLimitService.getEffectiveLimits(
+      { ...NO_LIMITS, rateLimitPerDay: 10, warmupPlan: plan, warmupStartedAt: NOW },
+      NOW
+    );
+    assert.equal(limits.perDay, 10);
+    assert.equal(limits.warmupDay, 1);
+  });
+
+  test('Should stop capping after the last warm-up step', () => {
+    const limits = sessionRateLimitService.getEffectiveLimits(
+      { ...NO_LIMITS, rateLimitPerDay: 500, warmupPlan: plan, warmupStartedAt: new Date(NOW.getTime() - 7 * DAY_MS) },
+      NOW
+    );
+    assert.deepEqual(limits, { perMinute: null, perHour: null, perDay: 500, warmupDay: null, warmupCap: null });
+  });
+});
+
+describe('sessionRateLimitService.normalizeLimits', () => {
+  const current = { warmupPlan: null, warmupStartedAt: null };
+
+  test('Should treat empty and zero limits as unlimited', () => {
+    const fields = sessionRateLimitService.normalizeLimits({ rateLimitPerMinute: '0', rateLimitPerHour: '', rateLimitPerDay: 100 }, current);
+    assert.equal(fields.rateLimitPerMinute, null);
+    assert.equal(fields.rateLimitPerHour, null);
+    assert.equal(fields.rateLimitPerDay, 100);
+    assert.equal(fields.warmupStartedAt, null);
+  });
+
+  test('Should reject invalid limits and warm-up steps', () => {
+    assert.throws(() => sessionRateLimitService.normalizeLimits({ rateLimitPerHour: 2.5 }, current), /inteiro positivo/);
+    assert.throws(() => sessionRateLimitService.normalizeLimits({ warmupPlan: [{ untilDay: 0, dailyCap: 10 }] }, current), /Etapa 1/);
+    assert.throws(
+      () => sessionRateLimitService.normalizeLimits({ warmupPlan: [{ untilDay: 2, dailyCap: 10 }, { untilDay: 2, dailyCap: 20 }] }, current),
+      /repetidas/
+    );
+  });
+
+  test('Should keep the warm-up start unless it is restarted', () => {
+    const startedAt = new Date('2025-01-01T00:00:00Z');
+    const existing = { warmupPlan: [{ untilDay: 5, dailyCap: 30 }], warmupStartedAt: startedAt };
+    const input = { warmupPlan: [{ untilDay: 10, dailyCap: 40 }, { untilDay: 5, dailyCap: 30 }] };
+
+    const kept = sessionRateLimitService.normalizeLimits(input, existing);
+    assert.deepEqual(kept.warmupPlan, [{ untilDay: 5, dailyCap: 30 }, { untilDay: 10, dailyCap: 40 }]);
+    assert.equal(kept.warmupStartedAt, startedAt);
+
+    const restarted = sessionRateLimitService.normalizeLimits({ ...input, restartWarmup: true }, existing);
+    assert.ok(restarted.warmupStartedAt && restarted.warmupStartedAt > startedAt);
+  });
+});
+
+describe('sessionRateLimitService.reserve', () => {
+  let executeRaw: Mock<(...args: any[]) => Promise<number>>;
+
+  function useSession(limits: Partial<SessionLimits>, buckets: Array<{ bucketStart: Date; count: number }> = []) {
+    prismaStub.model('whatsAppSession').findUnique = async () => ({ id: 'session-1', ...NO_LIMITS, ...limits });
+    prismaStub.model('sessionSendBucket').findMany = async () => buckets;
+  }
+
+  // Incrementos de bucket feitos pela reserva (o advisory lock também passa por $executeRaw)
+  function increments() {
+    return executeRaw.mock.calls
+      .map(call => call.arguments as any[])
+      .filter(([strings]) => strings.join('?').includes('INSERT INTO session_send_buckets'))
+      .map(([, sessionId, bucketStart]) => ({ sessionId, bucketStart }));
+  }
+
+  beforeEach(() => {
+    executeRaw = mock.fn(async (..._args: any[]) => 1);
+    prismaStub.client.$executeRaw = executeRaw;
+    prismaStub.model('sessionSendBucket').deleteMany = async () => ({ count: 0 });
+  });
+
+  afterEach(() => {
+    prismaStub.reset();
+  });
+
+  test('Should not limit unknown sessions', async () => {
+    prismaStub.model('whatsAppSession').findUnique = async () => null;
+
+    const reservation = await sessionRateLimitService.reserve('conexao-externa', NOW);
+
+    assert.deepEqual(reservation, { allowed: true, sessionName: 'conexao-externa', sessionId: null, bucketStart: new Date(CURRENT_BUCKET) });
+    assert.equal(increments().length, 0);
+  });
+
+  test('Should count sends of sessions without limits', async () => {
+    useSession({});
+
+    const reservation = await sessionRateLimitService.reserve('sessao', NOW);
+
+    assert.equal(reservation.allowed, true);
+    assert.deepEqual(increments(), [{ sessionId: 'session-1', bucketStart: new Date(CURRENT_BUCKET) }]);
+  });
+
+  test('Should reserve while every window has budget', async () => {
+    useSession({ rateLimitPerMinute: 5, rateLimitPerHour: 50 }, [bucket(30, 20), bucket(0, 4)]);
+
+    const reservation = await sessionRateLimitService.reserve('sessao', NOW);
+
+    assert.equal(reservation.allowed, true);
+    assert.equal(increments().length, 1);
+  });
+
+  test('Should block until the next minute when the minute is exhausted', async () => {
+    useSession({ rateLimitPerMinute: 5 }, [bucket(1, 5), bucket(0, 5)]);
+
+    const reservation = await sessionRateLimitService.reserve('sessao', NOW);
+
+    assert.deepEqual(reservation, {
+      allowed: false,
+      sessionName: 'sessao',
+      window: 'MINUTE',
+      retryAt: new Date(CURRENT_BUCKET + MINUTE_MS),
+    });
+    assert.equal(increments().length, 0);
+  });
+
+  test('Should release the hour when enough old buckets leave the window', async () => {
+    // 10/h: 6 envios há 50 min + 4 há 20 min; liberar exige que o bucket de 50 min saia da janela
+    useSession({ rateLimitPerHour: 10 }, [bucket(90, 30), bucket(50, 6), bucket(20, 4)]);
+
+    const reservation = await sessionRateLimitService.reserve('sessao', NOW);
+
+    assert.equal(reservation.allowed, false);
+    assert.equal(!reservation.allowed && reservation.window, 'HOUR');
+    assert.deepEqual(!reservation.allowed && reservation.retryAt, new Date(CURRENT_BUCKET + 10 * MINUTE_MS));
+  });
+
+  test('Should report the longest exhausted window', async () => {
+    useSession({ rateLimitPerMinute: 1, rateLimitPerDay: 10 }, [bucket(600, 9), bucket(0, 1)]);
+
+    const reservation = await sessionRateLimitService.reserve('sessao', NOW);
+
+    assert.equal(!reservation.allowed && reservation.window, 'DAY');
+    assert.deepEqual(!reservation.allowed && reservation.retryAt, new Date(CURRENT_BUCKET - 600 * MINUTE_MS + DAY_MS));
+  });
+
+  test('Should apply the warm-up cap to the daily window', async () => {
+    useSession({ warmupPlan: [{ untilDay: 3, dailyCap: 20 }], warmupStartedAt: NOW }, [bucket(120, 20)]);
+
+    const reservation = await sessionRateLimitService.reserve('sessao', NOW);
+
+    assert.equal(!reservation.allowed && reservation.window, 'DAY');
+  });
+});
+
+describe('sessionRateLimitService.release', () => {
+  afterEach(() => {
+    prismaStub.reset();
+  });
+
+  test('Should return an allowed reservation to its bucket', async () => {
+    const updateMany = mock.fn(async (..._args: any[]) => ({ count: 1 }));
+    prismaStub.model('sessionSendBucket').updateMany = updateMany;
+
+    await sessionRateLimitService.release({ allowed: true, sessionName: 'sessao', sessionId: 'session-1', bucketStart: new Date(CURRENT_BUCKET) });
+    await sessionRateLimitService.release({ allowed: true, sessionName: 'externa', sessionId: null, bucketStart: new Date(CURRENT_BUCKET) });
+    await sessionRateLimitService.release({ allowed: false, sessionName: 'sessao', window: 'MINUTE', retryAt: NOW });
+
+    assert.equal(updateMany.mock.callCount(), 1);
+    assert.deepEqual((updateMany.mock.calls[0].arguments as any[])[0], {
+      where: { sessionId: 'session-1', bucketStart: new Date(CURRENT_BUCKET), count: { gt: 0 } },
+      data: { count: { decrement: 1 } },
+    });
+  });
+});
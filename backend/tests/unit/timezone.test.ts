@@ -0,0 +1,55 @@
+/**
+ * Testes das conversões entre horário local de um fuso IANA e UTC
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getZonedParts, isValidTimezone, zonedTimeToUtc } from '../../src/lib/timezone';
+
+// Minutos desde a meia-noite
+const at = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+describe('isValidTimezone', () => {
+  test('Should accept IANA timezones and reject unknown ones', () => {
+    assert.equal(isValidTimezone('America/Sao_Paulo'), true);
+    assert.equal(isValidTimezone('UTC'), true);
+    assert.equal(isValidTimezone('America/Atlantis'), false);
+  });
+});
+
+describe('getZonedParts', () => {
+  test('Should return the local date and time in the timezone', () => {
+    assert.deepEqual(getZonedParts(Date.parse('2025-01-01T02:30:15Z'), 'America/Sao_Paulo'), {
+      year: 2024, month: 12, day: 31, hour: 23, minute: 30, second: 15,
+    });
+  });
+
+  test('Should use 0-23 hours at midnight', () => {
+    assert.equal(getZonedParts(Date.parse('2025-01-01T03:00:00Z'), 'America/Sao_Paulo').hour, 0);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  test('Should convert fixed offset timezones', () => {
+    assert.equal(zonedTimeToUtc(2025, 1, 6, at(9), 'America/Sao_Paulo'), Date.parse('2025-01-06T12:00:00Z'));
+    assert.equal(zonedTimeToUtc(2025, 1, 6, at(24), 'America/Sao_Paulo'), Date.parse('2025-01-07T03:00:00Z'));
+  });
+
+  test('Should use the offset in effect on each side of a DST change', () => {
+    assert.equal(zonedTimeToUtc(2025, 3, 8, at(9), 'America/New_York'), Date.parse('2025-03-08T14:00:00Z'));
+    assert.equal(zonedTimeToUtc(2025, 3, 9, at(9), 'America/New_York'), Date.parse('2025-03-09T13:00:00Z'));
+    assert.equal(zonedTimeToUtc(2025, 3, 9, at(3, 30), 'America/New_York'), Date.parse('2025-03-09T07:30:00Z'));
+    assert.equal(zonedTimeToUtc(2025, 11, 2, at(3), 'America/New_York'), Date.parse('2025-11-02T08:00:00Z'));
+    assert.equal(zonedTimeToUtc(2025, 3, 30, at(12), 'Europe/Lisbon'), Date.parse('2025-03-30T11:00:00Z'));
+  });
+
+  test('Should move times skipped by the DST start forward', () => {
+    // 02:30 não existe em 09/03/2025 em Nova York (02:00 EST -> 03:00 EDT): vira 03:30 EDT
+    assert.equal(zonedTimeToUtc(2025, 3, 9, at(2, 30), 'America/New_York'), Date.parse('2025-03-09T07:30:00Z'));
+  });
+
+  test('Should use the first occurrence of times repeated by the DST end', () => {
+    // 01:30 acontece duas vezes em 02/11/2025 em Nova York: primeiro em EDT (UTC-4)
+    assert.equal(zonedTimeToUtc(2025, 11, 2, at(1, 30), 'America/New_York'), Date.parse('2025-11-02T05:30:00Z'));
+  });
+});
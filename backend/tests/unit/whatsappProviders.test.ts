@@ -0,0 +1,28 @@
+/**
+ * Testes do registro de providers WhatsApp
+ */
+
+import './prismaStub';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getProvider, isSupportedProvider, SUPPORTED_PROVIDERS } from '../../src/services/whatsappProviders';
+
+describe('whatsappProviders registry', () => {
+  test('Should accept only the registered providers', () => {
+    assert.deepEqual(SUPPORTED_PROVIDERS.filter(isSupportedProvider), SUPPORTED_PROVIDERS);
+    assert.equal(isSupportedProvider('TWILIO'), false);
+    assert.equal(isSupportedProvider('waha'), false);
+    assert.equal(isSupportedProvider(undefined), false);
+  });
+
+  test('Should not treat inherited object keys as providers', () => {
+    for (const name of ['constructor', 'toString', 'hasOwnProperty', '__proto__']) {
+      assert.equal(isSupportedProvider(name), false, name);
+      assert.throws(() => getProvider(name), /não suportado/, name);
+    }
+  });
+
+  test('Should fall back to the default provider', () => {
+    assert.equal(getProvider(null), getProvider('WAHA'));
+  });
+});
@@ -10,6 +10,7 @@ import { WhatsAppConnectionsPage } from './pages/WhatsAppConnectionsPage';
 import { CampaignsPage } from './pages/CampaignsPage';
 import { InteractiveCampaignPage } from './pages/InteractiveCampaignPage';
 import { FlowBuilderPage } from './pages/FlowBuilderPage';
+import { InboxPage } from './pages/InboxPage';
 import { SettingsPage } from './pages/SettingsPage';
 import { UsersPage } from './pages/UsersPage';
 import { LoginPage } from './pages/LoginPage';
@@ -144,6 +145,14 @@ function AppContent() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/conversas"
+            element={
+              <ProtectedRoute>
+                <InboxPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/configuracoes"
             element={
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import toast from 'react-hot-toast';
-import { ImportResult, Category } from '../types';
+import { Category, ContactField, ContactImport, ContactImportPreview, ContactImportStrategy } from '../types';
 import { apiService } from '../services/api';
 
 interface CSVImportModalProps {
@@ -9,11 +9,32 @@ interface CSVImportModalProps {
   onSuccess: () => void;
 }
 
+const CONTACT_TARGETS = [
+  { value: 'nome', label: 'Nome' },
+  { value: 'telefone', label: 'Telefone' },
+  { value: 'email', label: 'Email' },
+  { value: 'observacoes', label: 'Observações' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'categoria', label: 'Categoria (nome ou ID)' },
+];
+
+const STRATEGIES: { value: ContactImportStrategy; label: string; description: string }[] = [
+  { value: 'SKIP', label: 'Ignorar', description: 'Mantém o contato existente sem alterações' },
+  { value: 'UPDATE', label: 'Atualizar', description: 'Sobrescreve os campos mapeados' },
+  { value: 'MERGE_TAGS', label: 'Mesclar tags', description: 'Apenas adiciona as novas tags' },
+];
+
+const POLL_INTERVAL_MS = 2000;
+
 export function CSVImportModal({ isOpen, onClose, onSuccess }: CSVImportModalProps) {
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
-  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [preview, setPreview] = useState<ContactImportPreview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [strategy, setStrategy] = useState<ContactImportStrategy>('SKIP');
+  const [contactImport, setContactImport] = useState<ContactImport | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [customFields, setCustomFields] = useState<ContactField[]>([]);
   const [selectedCategoryId, setSelectedCategoryId] = useState<string>('');
 
   useEffect(() => {
@@ -21,9 +42,37 @@ export function CSVImportModal({ isOpen, onClose, onSuccess }: CSVImportModalPro
       apiService.getAllCategories()
         .then(setCategories)
         .catch((err) => console.error('Erro ao carregar categorias:', err));
+      apiService.getContactFields()
+        .then(setCustomFields)
+        .catch((err) => console.error('Erro ao carregar campos personalizados:', err));
     }
   }, [isOpen]);
 
+  // Acompanhar o processamento em segundo plano até a importação terminar
+  const importId = contactImport?.id;
+  const isProcessing = contactImport?.status === 'QUEUED' || contactImport?.status === 'PROCESSING';
+  useEffect(() => {
+    if (!importId || !isProcessing) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const current = await apiService.getCSVImport(importId);
+        setContactImport(current);
+
+        if (current.status === 'COMPLETED') {
+          toast.success(`Importação concluída! ${current.createdCount} criados, ${current.updatedCount} atualizados.`);
+          onSuccess();
+        } else if (current.status === 'FAILED') {
+          toast.error(current.errorMessage || 'Falha na importação');
+        }
+      } catch (err) {
+        console.error('Erro ao consultar importação:', err);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [importId, isProcessing, onSuccess]);
+
   if (!isOpen) return null;
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -34,11 +83,12 @@ export function CSVImportModal({ isOpen, onClose, onSuccess }: CSVImportModalPro
         return;
       }
       setFile(selectedFile);
-      setImportResult(null);
+      setPreview(null);
+      setContactImport(null);
     }
   };
 
-  const handleImport = async () => {
+  const handleUpload = async () => {
     if (!file) {
       toast.error('Selecione um arquivo CSV');
       return;
@@ -46,23 +96,35 @@ export function CSVImportModal({ isOpen, onClose, onSuccess }: CSVImportModalPro
 
     setIsUploading(true);
     try {
-      const result = await apiService.importCSV(file, selectedCategoryId || undefined);
-      setImportResult(result);
-
-      if (result.success) {
-        toast.success(`Importação concluída! ${result.successfulImports} contatos importados.`);
-        onSuccess();
-      } else {
-        toast(`Importação parcial: ${result.successfulImports} sucessos, ${result.failedImports} erros.`, {
-          icon: '⚠️',
-          style: {
-            border: '1px solid #f59e0b',
-            color: '#92400e',
-          },
-        });
-      }
+      const result = await apiService.uploadCSVImport(file);
+      setPreview(result);
+      setMapping(result.suggestedMapping);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Erro ao ler arquivo';
+      toast.error(errorMessage);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleStartImport = async () => {
+    if (!preview) return;
+
+    if (!Object.values(mapping).includes('telefone')) {
+      toast.error('Mapeie uma coluna para o telefone');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const started = await apiService.startCSVImport(preview.import.id, {
+        mapping,
+        strategy,
+        categoryId: selectedCategoryId || undefined,
+      });
+      setContactImport(started);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Erro ao importar arquivo';
+      const errorMessage = err instanceof Error ? err.message : 'Erro ao iniciar importação';
       toast.error(errorMessage);
     } finally {
       setIsUploading(false);
@@ -72,14 +134,7 @@ export function CSVImportModal({ isOpen, onClose, onSuccess }: CSVImportModalPro
   const handleDownloadTemplate = async () => {
     try {
       const blob = await apiService.downloadCSVTemplate();
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'template-contatos.csv';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      downloadBlob(blob, 'template-contatos.csv');
       toast.success('Template baixado com sucesso!');
     } catch (error) {
       console.error('Erro ao baixar template:', error);
@@ -87,16 +142,50 @@ export function CSVImportModal({ isOpen, onClose, onSuccess }: CSVImportModalPro
     }
   };
 
+  const handleDownloadErrors = async () => {
+    if (!contactImport) return;
+
+    try {
+      const blob = await apiService.downloadCSVImportErrors(contactImport.id);
+      downloadBlob(blob, `erros-importacao-${contactImport.id}.csv`);
+    } catch (error) {
+      console.error('Erro ao baixar relatório:', error);
+      toast.error('Erro ao baixar relatório de erros');
+    }
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  };
+
   const handleClose = () => {
+    // Importação enviada mas não iniciada: descartar o arquivo no servidor
+    if (preview && !contactImport) {
+      apiService.cancelCSVImport(preview.import.id).catch(() => undefined);
+    }
     setFile(null);
-    setImportResult(null);
+    setPreview(null);
+    setMapping({});
+    setStrategy('SKIP');
+    setContactImport(null);
     setSelectedCategoryId('');
     onClose();
   };
 
+  const progress = contactImport && contactImport.totalRows > 0
+    ? Math.min(100, Math.round((contactImport.processedRows / contactImport.totalRows) * 100))
+    : 0;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm overflow-y-auto">
-      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl border border-gray-100 my-8" role="dialog" aria-labelledby="import-title">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl border border-gray-100 my-8" role="dialog" aria-labelledby="import-title">
         <div className="p-6">
           <div className="flex justify-between items-start mb-6">
             <div>
@@ -119,6 +208,8 @@ export function CSVImportModal({ isOpen, onClose, onSuccess }: CSVImportModalPro
           </div>
 
           <div className="space-y-4">
+          {!preview && (
+          <>
           {/* Template Download */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <div className="flex items-center justify-between">
@@ -176,69 +267,166 @@ export function CSVImportModal({ isOpen, onClose, onSuccess }: CSVImportModalPro
             )}
           </div>
 
-          {/* Category Selector */}
-          <div>
-            <label htmlFor="category-select" className="block text-sm font-medium text-gray-700 mb-2">
-              Categoria (opcional)
-            </label>
-            <select
-              id="category-select"
-              value={selectedCategoryId}
-              onChange={(e) => setSelectedCategoryId(e.target.value)}
-              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="">Nenhuma categoria</option>
-              {categories.map((cat) => (
-                <option key={cat.id} value={cat.id}>
-                  {cat.nome}
-                </option>
-              ))}
-            </select>
-            <p className="text-xs text-gray-400 mt-1">
-              Aplica a categoria selecionada a todos os contatos importados
-            </p>
-          </div>
-
           {/* Import Instructions */}
           <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
             <h3 className="font-medium text-gray-900 text-sm mb-2">ℹ️ Instruções</h3>
             <ul className="text-xs text-gray-600 space-y-1">
-              <li>• Colunas obrigatórias: <strong>nome</strong> e <strong>telefone</strong></li>
-              <li>• Opcionais: email, observacoes</li>
+              <li>• A primeira linha deve conter o nome das colunas</li>
+              <li>• Após o envio, você escolhe qual campo do contato cada coluna preenche</li>
+              <li>• Obrigatórios: <strong>telefone</strong> e, para novos contatos, <strong>nome</strong></li>
               <li>• Use o template como referência</li>
             </ul>
           </div>
+          </>
+          )}
+
+          {/* Column Mapping */}
+          {preview && !contactImport && (
+            <>
+              <div className="text-sm text-gray-600">
+                <strong>{preview.import.fileName}</strong> — {preview.import.totalRows} linha(s) encontradas
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-medium text-gray-700">Coluna do arquivo</th>
+                      <th className="text-left px-3 py-2 font-medium text-gray-700">Exemplos</th>
+                      <th className="text-left px-3 py-2 font-medium text-gray-700">Importar como</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.columns.map((column) => (
+                      <tr key={column} className="border-t border-gray-100">
+                        <td className="px-3 py-2 font-medium text-gray-900">{column}</td>
+                        <td className="px-3 py-2 text-xs text-gray-500 max-w-xs truncate">
+                          {preview.sampleRows.map((row) => row[column]).filter(Boolean).slice(0, 3).join(' · ') || '—'}
+                        </td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={mapping[column] || ''}
+                            onChange={(e) => setMapping((prev) => ({ ...prev, [column]: e.target.value }))}
+                            className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            <option value="">Não importar</option>
+                            <optgroup label="Contato">
+                              {CONTACT_TARGETS.map((target) => (
+                                <option key={target.value} value={target.value}>{target.label}</option>
+                              ))}
+                            </optgroup>
+                            {customFields.length > 0 && (
+                              <optgroup label="Campos personalizados">
+                                {customFields.map((field) => (
+                                  <option key={field.id} value={`custom:${field.key}`}>{field.label}</option>
+                                ))}
+                              </optgroup>
+                            )}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Duplicate Strategy */}
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-2">
+                  Contatos já cadastrados (mesmo telefone)
+                </span>
+                <div className="grid grid-cols-3 gap-2">
+                  {STRATEGIES.map((option) => (
+                    <label
+                      key={option.value}
+                      className={`border rounded-lg p-3 cursor-pointer transition-colors ${strategy === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'}`}
+                    >
+                      <input
+                        type="radio"
+                        name="import-strategy"
+                        value={option.value}
+                        checked={strategy === option.value}
+                        onChange={() => setStrategy(option.value)}
+                        className="sr-only"
+                      />
+                      <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                      <div className="text-xs text-gray-500 mt-1">{option.description}</div>
+                    </label>
+                  ))}
+                </div>
+              </div>
 
-          {/* Import Result */}
-          {importResult && (
-            <div className={`border rounded-lg p-4 ${importResult.success ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'}`}>
-              <h3 className={`font-medium text-sm mb-3 ${importResult.success ? 'text-green-900' : 'text-yellow-900'}`}>
-                {importResult.success ? '✅' : '⚠️'} Resultado da Importação
+              {/* Category Selector */}
+              <div>
+                <label htmlFor="category-select" className="block text-sm font-medium text-gray-700 mb-2">
+                  Categoria (opcional)
+                </label>
+                <select
+                  id="category-select"
+                  value={selectedCategoryId}
+                  onChange={(e) => setSelectedCategoryId(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Nenhuma categoria</option>
+                  {categories.map((cat) => (
+                    <option key={cat.id} value={cat.id}>
+                      {cat.nome}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">
+                  Aplica a categoria selecionada a todos os contatos importados
+                </p>
+              </div>
+            </>
+          )}
+
+          {/* Import Progress */}
+          {contactImport && (
+            <div className={`border rounded-lg p-4 ${contactImport.status === 'FAILED' ? 'bg-red-50 border-red-200' : contactImport.status === 'COMPLETED' ? 'bg-green-50 border-green-200' : 'bg-blue-50 border-blue-200'}`}>
+              <h3 className="font-medium text-sm mb-3 text-gray-900">
+                {contactImport.status === 'COMPLETED' && '✅ Importação concluída'}
+                {contactImport.status === 'FAILED' && `❌ ${contactImport.errorMessage || 'Falha na importação'}`}
+                {isProcessing && `⏳ Importando... ${contactImport.processedRows}/${contactImport.totalRows}`}
               </h3>
-              <div className="grid grid-cols-3 gap-2 mb-3">
+
+              {isProcessing && (
+                <div className="w-full bg-white rounded-full h-2 mb-3">
+                  <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${progress}%` }} />
+                </div>
+              )}
+
+              <div className="grid grid-cols-4 gap-2 mb-3">
+                <div className="bg-white rounded p-2 text-center">
+                  <div className="text-lg font-bold text-green-600">{contactImport.createdCount}</div>
+                  <div className="text-xs text-gray-600">Criados</div>
+                </div>
                 <div className="bg-white rounded p-2 text-center">
-                  <div className="text-lg font-bold text-gray-900">{importResult.totalRows}</div>
-                  <div className="text-xs text-gray-600">Total</div>
+                  <div className="text-lg font-bold text-blue-600">{contactImport.updatedCount}</div>
+                  <div className="text-xs text-gray-600">Atualizados</div>
                 </div>
                 <div className="bg-white rounded p-2 text-center">
-                  <div className="text-lg font-bold text-green-600">{importResult.successfulImports}</div>
-                  <div className="text-xs text-gray-600">Sucessos</div>
+                  <div className="text-lg font-bold text-gray-600">{contactImport.skippedCount}</div>
+                  <div className="text-xs text-gray-600">Ignorados</div>
                 </div>
                 <div className="bg-white rounded p-2 text-center">
-                  <div className="text-lg font-bold text-red-600">{importResult.failedImports}</div>
+                  <div className="text-lg font-bold text-red-600">{contactImport.failedCount}</div>
                   <div className="text-xs text-gray-600">Erros</div>
                 </div>
               </div>
 
-              {importResult.errors.length > 0 && (
-                <details className="cursor-pointer">
-                  <summary className="text-xs font-medium text-red-700 hover:text-red-800">Ver erros ({importResult.errors.length})</summary>
-                  <div className="mt-2 bg-red-50 border border-red-200 rounded p-2 max-h-32 overflow-y-auto">
-                    {importResult.errors.map((error, index) => (
-                      <div key={index} className="text-xs text-red-600 py-1">{error}</div>
-                    ))}
-                  </div>
-                </details>
+              {contactImport.failedCount > 0 && !isProcessing && (
+                <button
+                  onClick={handleDownloadErrors}
+                  className="text-xs font-medium text-red-700 hover:text-red-800 underline"
+                >
+                  Baixar relatório de erros ({contactImport.failedCount})
+                </button>
+              )}
+              {isProcessing && (
+                <p className="text-xs text-gray-500">
+                  Você pode fechar esta janela: a importação continua em segundo plano.
+                </p>
               )}
             </div>
           )}
@@ -253,28 +441,30 @@ export function CSVImportModal({ isOpen, onClose, onSuccess }: CSVImportModalPro
             >
               Fechar
             </button>
-            <button
-              onClick={handleImport}
-              disabled={!file || isUploading}
-              className="btn-primary flex-1 py-2 px-4 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm"
-            >
-              {isUploading ? (
-                <>
-                  <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Importando...
-                </>
-              ) : (
-                <>
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
-                  </svg>
-                  Importar
-                </>
-              )}
-            </button>
+            {!contactImport && (
+              <button
+                onClick={preview ? handleStartImport : handleUpload}
+                disabled={!file || isUploading}
+                className="btn-primary flex-1 py-2 px-4 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm"
+              >
+                {isUploading ? (
+                  <>
+                    <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    {preview ? 'Iniciando...' : 'Lendo arquivo...'}
+                  </>
+                ) : (
+                  <>
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
+                    </svg>
+                    {preview ? 'Importar' : 'Continuar'}
+                  </>
+                )}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ContactField, ContactFieldInput, ContactFieldType } from '../types';
+import { apiService } from '../services/api';
+
+interface ContactFieldsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FIELD_TYPE_LABELS: Record<ContactFieldType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  date: 'Data',
+  select: 'Seleção',
+};
+
+const emptyForm: ContactFieldInput = {
+  label: '',
+  type: 'text',
+  options: [],
+  required: false,
+};
+
+export function ContactFieldsModal({ isOpen, onClose }: ContactFieldsModalProps) {
+  const [fields, setFields] = useState<ContactField[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingField, setEditingField] = useState<ContactField | null>(null);
+  const [form, setForm] = useState<ContactFieldInput>(emptyForm);
+  const [optionsText, setOptionsText] = useState('');
+
+  const loadFields = async () => {
+    try {
+      setLoading(true);
+      setFields(await apiService.getContactFields());
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao carregar campos personalizados');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadFields();
+    }
+  }, [isOpen]);
+
+  const resetForm = () => {
+    setEditingField(null);
+    setForm(emptyForm);
+    setOptionsText('');
+  };
+
+  const handleEdit = (field: ContactField) => {
+    setEditingField(field);
+    setForm({ label: field.label, type: field.type, options: field.options, required: field.required, order: field.order });
+    setOptionsText(field.options.join('\n'));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.label.trim()) {
+      toast.error('Informe o nome do campo');
+      return;
+    }
+
+    const data: ContactFieldInput = {
+      ...form,
+      options: form.type === 'select' ? optionsText.split('\n').map(option => option.trim()).filter(Boolean) : [],
+    };
+
+    setSaving(true);
+    try {
+      if (editingField) {
+        await apiService.updateContactField(editingField.id, data);
+        toast.success('Campo atualizado com sucesso');
+      } else {
+        await apiService.createContactField({ ...data, order: fields.length });
+        toast.success('Campo criado com sucesso');
+      }
+      resetForm();
+      await loadFields();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao salvar campo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: ContactField) => {
+    if (!confirm(`Excluir o campo "${field.label}"? Mensagens que usam {{${field.key}}} ficarão sem o valor.`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteContactField(field.id);
+      toast.success('Campo excluído com sucesso');
+      if (editingField?.id === field.id) {
+        resetForm();
+      }
+      await loadFields();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao excluir campo');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col border border-gray-100">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-6 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Campos Personalizados</h2>
+            <p className="text-gray-600 text-sm mt-1">
+              Campos extras dos contatos, usados nas mensagens como <code className="bg-white px-1 rounded">{'{{chave}}'}</code>
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="bg-gray-100 text-gray-700 py-2 px-4 rounded-xl hover:bg-gray-200 font-medium transition-all duration-200 border border-gray-200"
+          >
+            Fechar
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 bg-gray-50 space-y-6">
+          {/* Formulário */}
+          <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+            <h3 className="text-sm font-semibold text-gray-800">
+              {editingField ? `Editar campo {{${editingField.key}}}` : 'Novo campo'}
+            </h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="sm:col-span-2">
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Nome *</label>
+                <input
+                  type="text"
+                  value={form.label}
+                  onChange={e => setForm({ ...form, label: e.target.value })}
+                  className="input-field text-sm"
+                  placeholder="Ex: Data de nascimento"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Tipo</label>
+                <select
+                  value={form.type}
+                  onChange={e => setForm({ ...form, type: e.target.value as ContactFieldType })}
+                  className="input-field text-sm"
+                >
+                  {Object.entries(FIELD_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {form.type === 'select' && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Opções (uma por linha)</label>
+                <textarea
+                  value={optionsText}
+                  onChange={e => setOptionsText(e.target.value)}
+                  rows={3}
+                  className="input-field text-sm resize-none"
+                  placeholder={'Bronze\nPrata\nOuro'}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.required || false}
+                  onChange={e => setForm({ ...form, required: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Obrigatório
+              </label>
+              <div className="flex gap-2">
+                {editingField && (
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                  >
+                    Cancelar
+                  </button>
+                )}
+                <button type="submit" disabled={saving} className="btn-primary px-4 py-2 text-sm disabled:opacity-50">
+                  {saving ? 'Salvando...' : editingField ? 'Salvar' : '+ Adicionar'}
+                </button>
+              </div>
+            </div>
+          </form>
+
+          {/* Lista */}
+          {loading ? (
+            <p className="text-sm text-gray-500">Carregando campos...</p>
+          ) : fields.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum campo personalizado criado.</p>
+          ) : (
+            <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+              {fields.map(field => (
+                <div key={field.id} className="flex items-center justify-between px-4 py-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {field.label}
+                      {field.required && <span className="text-red-500 ml-1">*</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      <code>{`{{${field.key}}}`}</code> · {FIELD_TYPE_LABELS[field.type]}
+                      {field.type === 'select' && ` (${field.options.join(', ')})`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => handleEdit(field)} className="text-sm text-blue-600 hover:text-blue-800">
+                      Editar
+                    </button>
+                    <button onClick={() => handleDelete(field)} className="text-sm text-red-600 hover:text-red-800">
+                      Excluir
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
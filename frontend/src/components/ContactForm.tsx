@@ -3,7 +3,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useState, useEffect } from 'react';
 import toast from 'react-hot-toast';
-import { ContactInput, Contact } from '../types';
+import { ContactInput, Contact, ContactField } from '../types';
 import { apiService } from '../services/api';
 import { validatePhone } from '../utils/phoneUtils';
 
@@ -33,6 +33,10 @@ interface ContactFormProps {
 export function ContactForm({ contact, onSuccess, onCancel }: ContactFormProps) {
   const [categories, setCategories] = useState<Category[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(true);
+  const [customFieldDefs, setCustomFieldDefs] = useState<ContactField[]>([]);
+  const [customValues, setCustomValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(contact?.customFields || {}).map(([key, value]) => [key, String(value)]))
+  );
 
   const {
     register,
@@ -53,6 +57,9 @@ export function ContactForm({ contact, onSuccess, onCancel }: ContactFormProps)
 
   useEffect(() => {
     loadCategories();
+    apiService.getContactFields()
+      .then(setCustomFieldDefs)
+      .catch(error => console.error('Erro ao carregar campos personalizados:', error));
   }, []);
 
   // Reset form when contact changes AND categories are loaded
@@ -101,6 +108,12 @@ export function ContactForm({ contact, onSuccess, onCancel }: ContactFormProps)
   };
 
   const onSubmit = async (data: ContactFormData) => {
+    const missingField = customFieldDefs.find(field => field.required && !customValues[field.key]?.trim());
+    if (missingField) {
+      toast.error(`O campo "${missingField.label}" é obrigatório`);
+      return;
+    }
+
     try {
       const contactInput: ContactInput = {
         nome: data.nome,
@@ -108,6 +121,7 @@ export function ContactForm({ contact, onSuccess, onCancel }: ContactFormProps)
         email: data.email || undefined,
         observacoes: data.observacoes || undefined,
         categoriaId: data.categoriaId || undefined,
+        customFields: customValues,
       };
 
       if (contact) {
@@ -230,6 +244,36 @@ export function ContactForm({ contact, onSuccess, onCancel }: ContactFormProps)
             </select>
           </div>
 
+          {customFieldDefs.map((field) => (
+            <div key={field.id}>
+              <label htmlFor={`custom-${field.key}`} className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1.5 sm:mb-2">
+                {field.label}{field.required && ' *'}
+              </label>
+              {field.type === 'select' ? (
+                <select
+                  id={`custom-${field.key}`}
+                  value={customValues[field.key] || ''}
+                  onChange={(e) => setCustomValues({ ...customValues, [field.key]: e.target.value })}
+                  className="input-field text-sm sm:text-base"
+                >
+                  <option value="">Selecione</option>
+                  {field.options.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  id={`custom-${field.key}`}
+                  type={field.type}
+                  step={field.type === 'number' ? 'any' : undefined}
+                  value={customValues[field.key] || ''}
+                  onChange={(e) => setCustomValues({ ...customValues, [field.key]: e.target.value })}
+                  className="input-field text-sm sm:text-base"
+                />
+              )}
+            </div>
+          ))}
+
           <div>
             <label htmlFor="observacoes" className="block text-xs sm:text-sm font-semibold text-gray-700 mb-1.5 sm:mb-2">
               Observações
@@ -1,25 +1,42 @@
 import { useState, useEffect, useRef } from 'react';
 import { Node, Edge } from 'reactflow';
 import EmojiPicker, { EmojiClickData } from 'emoji-picker-react';
+import { interactiveCampaignApi, SimulationResult, SimulationStep, SimulationVisit } from '../services/interactiveCampaignApi';
 
 interface FlowPreviewModalProps {
+  campaignId: string;
   nodes: Node[];
   edges: Edge[];
   onClose: () => void;
 }
 
-interface Message {
-  id: string;
-  type: 'bot' | 'user';
-  content: string;
-  timestamp: Date;
-}
-
-export function FlowPreviewModal({ nodes, edges, onClose }: FlowPreviewModalProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+const VISIT_ICONS: Record<SimulationVisit['result'], string> = {
+  sent: '📤',
+  executed: '⚙️',
+  skipped: '⏭️',
+  waiting: '⏸️',
+  evaluated: '🔀',
+  completed: '🏁',
+  error: '❌',
+};
+
+const describePayload = (payload: any): string => {
+  if (payload?.text) return payload.text;
+  if (payload?.image) return `🖼️ Imagem${payload.caption ? `\n${payload.caption}` : ''}`;
+  if (payload?.video) return `🎬 Vídeo${payload.caption ? `\n${payload.caption}` : ''}`;
+  if (payload?.audio) return '🎵 Áudio';
+  if (payload?.document) return `📄 ${payload.fileName || 'Documento'}`;
+  return JSON.stringify(payload);
+};
+
+export function FlowPreviewModal({ campaignId, nodes, edges, onClose }: FlowPreviewModalProps) {
+  const [script, setScript] = useState<string[]>([]);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [userInput, setUserInput] = useState('');
-  const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [executeExternal, setExecuteExternal] = useState(false);
+  const [expandedSteps, setExpandedSteps] = useState<number[]>([]);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const emojiPickerRef = useRef<HTMLDivElement>(null);
@@ -30,17 +47,17 @@ export function FlowPreviewModal({ nodes, edges, onClose }: FlowPreviewModalProp
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [result]);
 
   useEffect(() => {
-    // Iniciar o fluxo com o trigger
-    startFlow();
+    // Iniciar a conversa simulando o disparo da campanha
+    runSimulation([]);
   }, []);
 
   // Fechar emoji picker ao clicar fora
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (emojiPickerRef.current && !emojiPickerRef.current.contains(event.target as Node)) {
+      if (emojiPickerRef.current && !emojiPickerRef.current.contains(event.target as any)) {
         setShowEmojiPicker(false);
       }
     };
@@ -54,170 +71,84 @@ export function FlowPreviewModal({ nodes, edges, onClose }: FlowPreviewModalProp
     };
   }, [showEmojiPicker]);
 
-  const startFlow = () => {
-    // Encontrar nó trigger
-    const triggerNode = nodes.find(n => n.data?.nodeType === 'trigger');
-    if (!triggerNode) {
-      addMessage('bot', '⚠️ Nenhum nó Trigger encontrado no fluxo.');
-      return;
-    }
-
-    // Encontrar próximo nó após o trigger
-    const nextEdge = edges.find(e => e.source === triggerNode.id);
-    if (!nextEdge) {
-      addMessage('bot', '⚠️ Trigger não está conectado a nenhum nó.');
-      return;
-    }
-
-    const nextNode = nodes.find(n => n.id === nextEdge.target);
-    if (nextNode) {
-      processNode(nextNode);
-    }
-  };
-
-  const processNode = (node: Node) => {
-    setCurrentNodeId(node.id);
-
-    if (node.data?.nodeType === 'action') {
-      // Enviar mensagem do bot
-      const content = node.data.config?.content || node.data.config?.message || 'Mensagem não configurada';
-      addMessage('bot', content);
-
-      // Verificar próximo nó
-      const nextEdge = edges.find(e => e.source === node.id);
-      if (nextEdge) {
-        const nextNode = nodes.find(n => n.id === nextEdge.target);
-        if (nextNode?.data?.nodeType === 'condition') {
-          // Aguardar resposta do usuário para condição
-          return;
-        } else if (nextNode) {
-          // Continuar automaticamente para próximo nó
-          setTimeout(() => processNode(nextNode), 500);
-        }
-      } else {
-        // Fim do fluxo
-        setTimeout(() => {
-          addMessage('bot', '✅ Fim do fluxo.');
-        }, 500);
-      }
-    } else if (node.data?.nodeType === 'condition') {
-      // Aguardar resposta do usuário
-      return;
+  // O simulador é stateless: cada envio reexecuta o fluxo com todo o roteiro da conversa
+  const runSimulation = async (messages: string[], external = executeExternal) => {
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const data = await interactiveCampaignApi.simulateCampaign(campaignId, {
+        messages,
+        executeExternal: external,
+        graph: {
+          nodes: nodes.map(({ id, type, data }) => ({ id, type, data })),
+          edges: edges.map(({ id, source, target, sourceHandle, label }) => ({ id, source, target, sourceHandle, label })),
+        },
+      });
+      setScript(messages);
+      setResult(data);
+    } catch (err: any) {
+      setError(err.message || 'Erro ao simular fluxo');
+    } finally {
+      setIsProcessing(false);
     }
   };
 
-  const addMessage = (type: 'bot' | 'user', content: string) => {
-    setMessages(prev => [
-      ...prev,
-      {
-        id: Date.now().toString(),
-        type,
-        content,
-        timestamp: new Date(),
-      },
-    ]);
-  };
-
   const handleSendMessage = () => {
-    if (!userInput.trim() || isProcessing) return;
+    if (!userInput.trim() || isProcessing || result?.status !== 'WAITING') return;
 
-    setIsProcessing(true);
     const input = userInput.trim();
-    addMessage('user', input);
     setUserInput('');
-
-    // Processar resposta
-    setTimeout(() => {
-      processUserResponse(input);
-      setIsProcessing(false);
-    }, 300);
+    runSimulation([...script, input]);
   };
 
-  const processUserResponse = (input: string) => {
-    if (!currentNodeId) {
-      addMessage('bot', '⚠️ Nenhum nó ativo.');
-      return;
-    }
-
-    // Encontrar próximas edges do nó atual
-    const nextEdges = edges.filter(e => e.source === currentNodeId);
-
-    if (nextEdges.length === 0) {
-      addMessage('bot', '✅ Fim do fluxo.');
-      return;
-    }
+  const handleRestart = () => {
+    setExpandedSteps([]);
+    runSimulation([]);
+  };
 
-    // Se tem condição
-    const currentNode = nodes.find(n => n.id === currentNodeId);
-    const isConditionNode = currentNode?.data?.nodeType === 'condition';
-
-    if (isConditionNode) {
-      const config = currentNode.data.config;
-      const operator = config?.operator || 'contains';
-      const value = config?.value?.toLowerCase() || '';
-      const normalizedInput = input.toLowerCase();
-
-      let conditionMet = false;
-
-      switch (operator) {
-        case 'equals':
-        case '==':
-          conditionMet = normalizedInput === value;
-          break;
-        case 'contains':
-          conditionMet = normalizedInput.includes(value);
-          break;
-        case 'startsWith':
-          conditionMet = normalizedInput.startsWith(value);
-          break;
-        case 'endsWith':
-          conditionMet = normalizedInput.endsWith(value);
-          break;
-        case 'notEquals':
-        case '!=':
-          conditionMet = normalizedInput !== value;
-          break;
-        default:
-          conditionMet = normalizedInput.includes(value);
-      }
+  const handleToggleExternal = () => {
+    const external = !executeExternal;
+    setExecuteExternal(external);
+    runSimulation(script, external);
+  };
 
-      // Encontrar edge correspondente
-      const targetEdge = nextEdges.find(e => {
-        const label = e.label?.toString().toLowerCase();
-        return conditionMet
-          ? (label === 'true' || label === 'sim' || label === 'yes' || label === 'verdadeiro')
-          : (label === 'false' || label === 'não' || label === 'no' || label === 'falso');
-      });
+  const toggleStep = (index: number) => {
+    setExpandedSteps(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]));
+  };
 
-      if (targetEdge) {
-        const nextNode = nodes.find(n => n.id === targetEdge.target);
-        if (nextNode) {
-          setTimeout(() => processNode(nextNode), 500);
-          return;
-        }
-      }
+  const renderStepDetails = (step: SimulationStep) => (
+    <div className="mt-2 p-3 bg-gray-100 border border-gray-200 rounded-lg text-xs text-gray-700 space-y-2">
+      <div>
+        <p className="font-semibold mb-1">Nós visitados</p>
+        {step.visitedNodes.length === 0 && <p className="text-gray-400">Nenhum</p>}
+        {step.visitedNodes.map((visit, i) => (
+          <p key={i}>
+            {VISIT_ICONS[visit.result]} {visit.label || visit.nodeType} <span className="text-gray-400">({visit.nodeType})</span>
+            {visit.message && <span className="text-gray-500"> — {visit.message}</span>}
+          </p>
+        ))}
+      </div>
 
-      // Fallback: usar primeira edge
-      if (nextEdges.length > 0) {
-        const nextNode = nodes.find(n => n.id === nextEdges[0].target);
-        if (nextNode) {
-          setTimeout(() => processNode(nextNode), 500);
-          return;
-        }
-      }
-    } else {
-      // Não é condição, seguir para próximo nó
-      if (nextEdges.length > 0) {
-        const nextNode = nodes.find(n => n.id === nextEdges[0].target);
-        if (nextNode) {
-          setTimeout(() => processNode(nextNode), 500);
-          return;
-        }
-      }
-    }
+      {step.conditions.length > 0 && (
+        <div>
+          <p className="font-semibold mb-1">Condições</p>
+          {step.conditions.map((condition, i) => (
+            <p key={i}>
+              🔀 {condition.label || condition.nodeId}: "{condition.evaluation.input}" →{' '}
+              <strong>{String(condition.evaluation.result)}</strong>
+              {condition.evaluation.handle && <span className="text-gray-500"> (saída {condition.evaluation.handle})</span>}
+            </p>
+          ))}
+        </div>
+      )}
 
-    addMessage('bot', '✅ Fim do fluxo.');
-  };
+      <div>
+        <p className="font-semibold mb-1">Variáveis</p>
+        <pre className="whitespace-pre-wrap break-all font-mono text-[11px]">{JSON.stringify(step.variables, null, 2)}</pre>
+      </div>
+    </div>
+  );
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -241,46 +172,102 @@ export function FlowPreviewModal({ nodes, edges, onClose }: FlowPreviewModalProp
           </div>
           <div>
             <h2 className="text-lg font-bold text-white">Preview do Bot</h2>
-            <p className="text-xs text-purple-100">Teste o fluxo antes de publicar</p>
+            <p className="text-xs text-purple-100">Simulação sem envio de mensagens</p>
           </div>
         </div>
-        <button
-          onClick={onClose}
-          className="text-white hover:bg-white/20 rounded-lg p-2 transition-colors"
-        >
-          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-          </svg>
-        </button>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={handleRestart}
+            disabled={isProcessing}
+            className="text-white hover:bg-white/20 rounded-lg p-2 transition-colors disabled:opacity-50"
+            title="Reiniciar conversa"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+          </button>
+          <button
+            onClick={onClose}
+            className="text-white hover:bg-white/20 rounded-lg p-2 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
       </div>
 
+      {/* Opções da simulação */}
+      <label className="px-6 py-2 border-b border-gray-200 flex items-center space-x-2 text-xs text-gray-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={executeExternal}
+          onChange={handleToggleExternal}
+          disabled={isProcessing}
+          className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+        />
+        <span>Executar requisições HTTP e nós de IA de verdade</span>
+      </label>
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-6 space-y-4 bg-gray-50">
-        {messages.length === 0 && (
+        {!result && !error && (
           <div className="text-center text-gray-400 mt-10">
             <p className="text-sm">Iniciando conversa...</p>
           </div>
         )}
 
-        {messages.map((message) => (
-          <div
-            key={message.id}
-            className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
-          >
-            <div
-              className={`max-w-[70%] rounded-2xl px-4 py-3 ${
-                message.type === 'user'
-                  ? 'bg-purple-600 text-white rounded-br-none'
-                  : 'bg-white text-gray-800 shadow-sm rounded-bl-none border border-gray-200'
-              }`}
-            >
-              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-              <p className={`text-xs mt-1 ${message.type === 'user' ? 'text-purple-100' : 'text-gray-400'}`}>
-                {message.timestamp.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}
-              </p>
+        {result?.steps.map((step) => (
+          <div key={step.index} className="space-y-3">
+            {step.input !== null && (
+              <div className="flex justify-end">
+                <div className="max-w-[70%] rounded-2xl px-4 py-3 bg-purple-600 text-white rounded-br-none">
+                  <p className="text-sm whitespace-pre-wrap">{step.input}</p>
+                </div>
+              </div>
+            )}
+
+            {step.messages.map((message, i) => (
+              <div key={i} className="flex justify-start">
+                <div className="max-w-[70%] rounded-2xl px-4 py-3 bg-white text-gray-800 shadow-sm rounded-bl-none border border-gray-200">
+                  <p className="text-sm whitespace-pre-wrap">{describePayload(message.payload)}</p>
+                </div>
+              </div>
+            ))}
+
+            <div>
+              <button
+                onClick={() => toggleStep(step.index)}
+                className="text-xs text-purple-600 hover:text-purple-800"
+              >
+                {expandedSteps.includes(step.index) ? '▾' : '▸'} {step.visitedNodes.length} nó(s) · {step.conditions.length} condição(ões)
+              </button>
+              {expandedSteps.includes(step.index) && renderStepDetails(step)}
+            </div>
+          </div>
+        ))}
+
+        {result?.unprocessedMessages.map((message, i) => (
+          <div key={`ignored-${i}`} className="flex justify-end">
+            <div className="max-w-[70%] rounded-2xl px-4 py-3 bg-gray-200 text-gray-500 rounded-br-none">
+              <p className="text-sm whitespace-pre-wrap">{message}</p>
+              <p className="text-xs mt-1">Ignorada (fluxo encerrado)</p>
             </div>
           </div>
         ))}
+
+        {result?.status === 'COMPLETED' && (
+          <p className="text-center text-xs text-gray-500">✅ Fim do fluxo.</p>
+        )}
+
+        {result?.status === 'ERROR' && (
+          <p className="text-center text-xs text-red-600">❌ A simulação parou com erro. Veja os detalhes da última etapa.</p>
+        )}
+
+        {error && (
+          <p className="text-center text-xs text-red-600">⚠️ {error}</p>
+        )}
+
         <div ref={messagesEndRef} />
       </div>
 
@@ -306,13 +293,13 @@ export function FlowPreviewModal({ nodes, edges, onClose }: FlowPreviewModalProp
             value={userInput}
             onChange={(e) => setUserInput(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder="Digite sua mensagem..."
-            disabled={isProcessing}
+            placeholder={result && result.status !== 'WAITING' ? 'Fluxo encerrado' : 'Digite sua mensagem...'}
+            disabled={isProcessing || result?.status !== 'WAITING'}
             className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-gray-100 text-sm"
           />
           <button
             onClick={handleSendMessage}
-            disabled={!userInput.trim() || isProcessing}
+            disabled={!userInput.trim() || isProcessing || result?.status !== 'WAITING'}
             className="px-4 py-3 bg-purple-600 text-white rounded-xl font-medium hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,293 @@
+import { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { SuppressedContact, SuppressionReason } from '../types';
+import { apiService } from '../services/api';
+
+interface OptOutModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<SuppressionReason, string> = {
+  KEYWORD: 'Pediu pelo WhatsApp',
+  MANUAL: 'Adicionado manualmente',
+  IMPORT: 'Importado',
+};
+
+const PAGE_SIZE = 30;
+
+export function OptOutModal({ isOpen, onClose }: OptOutModalProps) {
+  const [items, setItems] = useState<SuppressedContact[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [phone, setPhone] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [keywordsText, setKeywordsText] = useState('');
+  const [savingKeywords, setSavingKeywords] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadItems = async (targetPage = page, targetSearch = search) => {
+    try {
+      setLoading(true);
+      const result = await apiService.getOptOuts({ search: targetSearch, page: targetPage, pageSize: PAGE_SIZE });
+      setItems(result.items);
+      setTotal(result.total);
+      setTotalPages(Math.max(result.totalPages, 1));
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao carregar lista de supressão');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setPage(1);
+      loadItems(1, search);
+      apiService.getOptOutKeywords()
+        .then(result => setKeywordsText(result.keywords.join(', ')))
+        .catch(err => console.error('Erro ao carregar palavras de descadastro:', err));
+    }
+  }, [isOpen]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    loadItems(1, search);
+  };
+
+  const handlePageChange = (newPage: number) => {
+    setPage(newPage);
+    loadItems(newPage, search);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!phone.trim()) {
+      toast.error('Informe o telefone');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await apiService.addOptOut(phone.trim(), note.trim() || undefined);
+      toast.success('Telefone adicionado à lista');
+      setPhone('');
+      setNote('');
+      await loadItems(1, search);
+      setPage(1);
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao adicionar telefone');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (item: SuppressedContact) => {
+    if (!confirm(`Remover ${item.phone} da lista? O contato voltará a receber campanhas.`)) {
+      return;
+    }
+
+    try {
+      await apiService.removeOptOut(item.id);
+      toast.success('Telefone removido da lista');
+      await loadItems();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao remover telefone');
+    }
+  };
+
+  const handleSaveKeywords = async () => {
+    setSavingKeywords(true);
+    try {
+      const keywords = keywordsText.split(/[,\n]/).map(keyword => keyword.trim()).filter(Boolean);
+      const result = await apiService.updateOptOutKeywords(keywords);
+      setKeywordsText(result.keywords.join(', '));
+      toast.success('Palavras de descadastro salvas');
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao salvar palavras');
+    } finally {
+      setSavingKeywords(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await apiService.importOptOuts(file);
+      toast.success(`${result.added} adicionados, ${result.existing} já existentes, ${result.invalid} inválidos`);
+      setPage(1);
+      await loadItems(1, search);
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao importar lista');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const blob = await apiService.exportOptOuts();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'lista-supressao.csv';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Erro ao exportar lista:', error);
+      toast.error('Erro ao exportar lista de supressão');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col border border-gray-100">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-6 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Lista de Supressão</h2>
+            <p className="text-gray-600 text-sm mt-1">
+              Telefones descadastrados não recebem campanhas ({total})
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="bg-gray-100 text-gray-700 py-2 px-4 rounded-xl hover:bg-gray-200 font-medium transition-all duration-200 border border-gray-200"
+          >
+            Fechar
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 bg-gray-50 space-y-6">
+          {/* Palavras de descadastro */}
+          <div className="bg-white rounded-xl border border-gray-200 p-4 space-y-2">
+            <h3 className="text-sm font-semibold text-gray-800">Palavras de descadastro</h3>
+            <p className="text-xs text-gray-500">
+              Quando o contato responde exatamente uma destas palavras, o telefone entra na lista. Separe por vírgula; deixe vazio para usar o padrão.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={keywordsText}
+                onChange={e => setKeywordsText(e.target.value)}
+                className="input-field text-sm flex-1"
+                placeholder="SAIR, PARAR, STOP"
+              />
+              <button
+                onClick={handleSaveKeywords}
+                disabled={savingKeywords}
+                className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                {savingKeywords ? 'Salvando...' : 'Salvar'}
+              </button>
+            </div>
+          </div>
+
+          {/* Adicionar manualmente */}
+          <form onSubmit={handleAdd} className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-800">Adicionar telefone</h3>
+              <div className="flex gap-3">
+                <button type="button" onClick={() => fileInputRef.current?.click()} className="text-sm text-blue-600 hover:text-blue-800">
+                  Importar CSV
+                </button>
+                <button type="button" onClick={handleExport} className="text-sm text-blue-600 hover:text-blue-800">
+                  Exportar CSV
+                </button>
+                <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleImport} className="hidden" />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={phone}
+                onChange={e => setPhone(e.target.value)}
+                className="input-field text-sm"
+                placeholder="+55 11 99999-9999"
+              />
+              <input
+                type="text"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                className="input-field text-sm"
+                placeholder="Observação (opcional)"
+              />
+              <button type="submit" disabled={saving} className="btn-primary px-4 py-2 text-sm disabled:opacity-50">
+                {saving ? 'Adicionando...' : '+ Adicionar'}
+              </button>
+            </div>
+          </form>
+
+          {/* Lista */}
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <input
+              type="text"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              className="input-field text-sm flex-1"
+              placeholder="Buscar telefone"
+            />
+            <button type="submit" className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200">
+              Buscar
+            </button>
+          </form>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Carregando...</p>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum telefone na lista de supressão.</p>
+          ) : (
+            <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+              {items.map(item => (
+                <div key={item.id} className="flex items-center justify-between px-4 py-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{item.phone}</div>
+                    <div className="text-xs text-gray-500">
+                      {REASON_LABELS[item.reason] || item.reason}
+                      {item.keyword && ` ("${item.keyword}")`}
+                      {item.note && ` · ${item.note}`}
+                      {' · '}{new Date(item.criadoEm).toLocaleString('pt-BR')}
+                    </div>
+                  </div>
+                  <button onClick={() => handleRemove(item)} className="text-sm text-red-600 hover:text-red-800">
+                    Remover
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <button
+                onClick={() => handlePageChange(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 rounded-lg bg-white border border-gray-200 disabled:opacity-50"
+              >
+                Anterior
+              </button>
+              <span>Página {page} de {totalPages}</span>
+              <button
+                onClick={() => handlePageChange(page + 1)}
+                disabled={page >= totalPages}
+                className="px-3 py-1 rounded-lg bg-white border border-gray-200 disabled:opacity-50"
+              >
+                Próxima
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
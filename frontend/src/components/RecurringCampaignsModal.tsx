@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { RecurringCampaign, RecurringCampaignDetail } from '../types';
+import { apiService } from '../services/api';
+
+interface RecurringCampaignsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RUN_STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Aguardando',
+  RUNNING: 'Executando',
+  COMPLETED: 'Concluída',
+  PAUSED: 'Pausada',
+  FAILED: 'Falha',
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString('pt-BR') : '-');
+
+export function RecurringCampaignsModal({ isOpen, onClose }: RecurringCampaignsModalProps) {
+  const [definitions, setDefinitions] = useState<RecurringCampaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [detail, setDetail] = useState<RecurringCampaignDetail | null>(null);
+  const [detailLoadingId, setDetailLoadingId] = useState<string | null>(null);
+
+  const loadDefinitions = async () => {
+    try {
+      setLoading(true);
+      setDefinitions(await apiService.getRecurringCampaigns());
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao carregar campanhas recorrentes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setDetail(null);
+      loadDefinitions();
+    }
+  }, [isOpen]);
+
+  const handleShowHistory = async (definition: RecurringCampaign) => {
+    if (detail?.id === definition.id) {
+      setDetail(null);
+      return;
+    }
+
+    setDetailLoadingId(definition.id);
+    try {
+      setDetail(await apiService.getRecurringCampaign(definition.id));
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao carregar histórico');
+    } finally {
+      setDetailLoadingId(null);
+    }
+  };
+
+  const handleToggle = async (definition: RecurringCampaign) => {
+    try {
+      await apiService.toggleRecurringCampaign(definition.id, !definition.active);
+      toast.success(definition.active ? 'Recorrência pausada' : 'Recorrência retomada');
+      await loadDefinitions();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao alterar recorrência');
+    }
+  };
+
+  const handleDelete = async (definition: RecurringCampaign) => {
+    if (!confirm(`Excluir a recorrência "${definition.nome}"? As campanhas já executadas serão mantidas.`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteRecurringCampaign(definition.id);
+      toast.success('Recorrência excluída');
+      if (detail?.id === definition.id) setDetail(null);
+      await loadDefinitions();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao excluir recorrência');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col border border-gray-100">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-6 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Campanhas Recorrentes</h2>
+            <p className="text-gray-600 text-sm mt-1">
+              Cada ocorrência cria uma nova campanha com os contatos atuais das categorias
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="bg-gray-100 text-gray-700 py-2 px-4 rounded-xl hover:bg-gray-200 font-medium transition-all duration-200 border border-gray-200"
+          >
+            Fechar
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 bg-gray-50 space-y-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">Carregando...</p>
+          ) : definitions.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Nenhuma campanha recorrente. Crie uma em "Nova Campanha" escolhendo "Recorrente" em Quando Enviar.
+            </p>
+          ) : (
+            definitions.map(definition => (
+              <div key={definition.id} className="bg-white rounded-xl border border-gray-200">
+                <div className="flex items-start justify-between p-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-semibold text-gray-900">{definition.nome}</span>
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
+                        definition.active ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {definition.active ? 'Ativa' : 'Pausada'}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {definition.scheduleType}: <code>{definition.scheduleExpression}</code> · {definition.timezone}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Próxima execução: {definition.active ? formatDate(definition.nextRunAt) : '-'}
+                      {' · '}Execuções: {definition.runsCount ?? definition.runCount}
+                    </div>
+                    {definition.lastError && (
+                      <div className="text-xs text-red-600 mt-1">Última falha: {definition.lastError}</div>
+                    )}
+                  </div>
+                  <div className="flex gap-3 text-sm">
+                    <button onClick={() => handleShowHistory(definition)} className="text-blue-600 hover:text-blue-800">
+                      {detail?.id === definition.id ? 'Ocultar' : 'Histórico'}
+                    </button>
+                    <button onClick={() => handleToggle(definition)} className="text-yellow-600 hover:text-yellow-800">
+                      {definition.active ? 'Pausar' : 'Retomar'}
+                    </button>
+                    <button onClick={() => handleDelete(definition)} className="text-red-600 hover:text-red-800">
+                      Excluir
+                    </button>
+                  </div>
+                </div>
+
+                {detailLoadingId === definition.id && (
+                  <p className="px-4 pb-4 text-sm text-gray-500">Carregando histórico...</p>
+                )}
+
+                {detail?.id === definition.id && (
+                  <div className="border-t border-gray-100 p-4 space-y-3">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                      <div className="bg-blue-50 rounded-lg p-2">
+                        <div className="text-lg font-bold text-blue-600">{detail.metrics.runs}</div>
+                        <div className="text-xs text-blue-800">Execuções</div>
+                      </div>
+                      <div className="bg-gray-50 rounded-lg p-2">
+                        <div className="text-lg font-bold text-gray-700">{detail.metrics.totalContacts}</div>
+                        <div className="text-xs text-gray-600">Contatos</div>
+                      </div>
+                      <div className="bg-green-50 rounded-lg p-2">
+                        <div className="text-lg font-bold text-green-600">{detail.metrics.sent}</div>
+                        <div className="text-xs text-green-800">Enviadas</div>
+                      </div>
+                      <div className="bg-red-50 rounded-lg p-2">
+                        <div className="text-lg font-bold text-red-600">{detail.metrics.failed}</div>
+                        <div className="text-xs text-red-800">Falharam</div>
+                      </div>
+                    </div>
+
+                    {detail.runs.length === 0 ? (
+                      <p className="text-sm text-gray-500">Nenhuma execução ainda.</p>
+                    ) : (
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-gray-500 uppercase">
+                            <th className="py-2">Execução</th>
+                            <th className="py-2">Status</th>
+                            <th className="py-2">Contatos</th>
+                            <th className="py-2">Enviadas</th>
+                            <th className="py-2">Falharam</th>
+                            <th className="py-2">Concluída em</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {detail.runs.map(run => (
+                            <tr key={run.id}>
+                              <td className="py-2 text-gray-900">{run.nome}</td>
+                              <td className="py-2 text-gray-700">{RUN_STATUS_LABELS[run.status] || run.status}</td>
+                              <td className="py-2 text-gray-700">{run.totalContacts}</td>
+                              <td className="py-2 text-green-700">{run.sentCount}</td>
+                              <td className="py-2 text-red-700">{run.failedCount}</td>
+                              <td className="py-2 text-gray-700">{formatDate(run.completedAt)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
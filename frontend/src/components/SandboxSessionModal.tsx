@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { SandboxAckConfig, SandboxMessage, SandboxMessageStatus } from '../types';
+import { apiService } from '../services/api';
+import { Portal } from './Portal';
+
+interface SandboxSessionModalProps {
+  sessionName: string;
+  displayName: string;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<SandboxMessageStatus, string> = {
+  SENT: 'bg-gray-100 text-gray-700',
+  DELIVERED: 'bg-blue-100 text-blue-800',
+  READ: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  RECEIVED: 'bg-amber-100 text-amber-800',
+};
+
+const STATUS_LABELS: Record<SandboxMessageStatus, string> = {
+  SENT: 'Enviada',
+  DELIVERED: 'Entregue',
+  READ: 'Lida',
+  FAILED: 'Falhou',
+  RECEIVED: 'Recebida',
+};
+
+const toInput = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+const toDelay = (value: string) => (value.trim() ? Number(value) : null);
+
+// Opções de botões, listas e enquetes enviadas: clicar simula a escolha do contato
+const getPayloadOptions = (payload: any): Array<{ id: string; title: string }> => {
+  if (payload?.buttons) return payload.buttons.buttons || [];
+  if (payload?.list) return (payload.list.sections || []).flatMap((section: any) => section.rows || []);
+  if (payload?.poll) return payload.poll.options || [];
+  return [];
+};
+
+export function SandboxSessionModal({ sessionName, displayName, onClose }: SandboxSessionModalProps) {
+  const [messages, setMessages] = useState<SandboxMessage[]>([]);
+  const [config, setConfig] = useState<SandboxAckConfig | null>(null);
+  const [deliveredAfter, setDeliveredAfter] = useState('');
+  const [readAfter, setReadAfter] = useState('');
+  const [failureRate, setFailureRate] = useState('0');
+  const [failureMessage, setFailureMessage] = useState('');
+  const [savingConfig, setSavingConfig] = useState(false);
+  const [replyFrom, setReplyFrom] = useState('');
+  const [replyText, setReplyText] = useState('');
+  const [sendingReply, setSendingReply] = useState(false);
+
+  const loadMessages = async () => {
+    try {
+      setMessages(await apiService.getSandboxMessages(sessionName, { limit: 100 }));
+    } catch (error) {
+      console.error('Erro ao carregar mensagens do sandbox:', error);
+    }
+  };
+
+  useEffect(() => {
+    apiService.getSandboxConfig(sessionName)
+      .then(loaded => {
+        setConfig(loaded);
+        setDeliveredAfter(toInput(loaded.deliveredAfterSeconds));
+        setReadAfter(toInput(loaded.readAfterSeconds));
+        setFailureRate(String(loaded.failureRate));
+        setFailureMessage(loaded.failureMessage);
+      })
+      .catch((error: any) => toast.error(error.message || 'Erro ao carregar configuração do sandbox'));
+
+    // Acks simulados chegam em segundos: manter a lista atualizada enquanto o modal está aberto
+    loadMessages();
+    const interval = setInterval(loadMessages, 3000);
+    return () => clearInterval(interval);
+  }, [sessionName]);
+
+  const handleSaveConfig = async () => {
+    setSavingConfig(true);
+    try {
+      const saved = await apiService.updateSandboxConfig(sessionName, {
+        deliveredAfterSeconds: toDelay(deliveredAfter),
+        readAfterSeconds: toDelay(readAfter),
+        failureRate: Number(failureRate) || 0,
+        failureMessage,
+      });
+      setConfig(saved);
+      toast.success('Configuração do sandbox salva');
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao salvar configuração do sandbox');
+    } finally {
+      setSavingConfig(false);
+    }
+  };
+
+  const handleSendReply = async () => {
+    if (!replyFrom.trim() || !replyText.trim()) {
+      toast.error('Informe o telefone e o texto da resposta');
+      return;
+    }
+
+    setSendingReply(true);
+    try {
+      await apiService.injectSandboxInbound(sessionName, { from: replyFrom, text: replyText });
+      setReplyText('');
+      loadMessages();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao simular resposta');
+    } finally {
+      setSendingReply(false);
+    }
+  };
+
+  const handleSelectOption = async (message: SandboxMessage, option: { id: string; title: string }) => {
+    try {
+      await apiService.injectSandboxInbound(sessionName, { from: message.phone, text: option.title, selectionId: option.id });
+      loadMessages();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao simular escolha');
+    }
+  };
+
+  const handleAck = async (message: SandboxMessage, status: 'DELIVERED' | 'READ' | 'FAILED') => {
+    try {
+      await apiService.ackSandboxMessage(sessionName, message.id, status);
+      loadMessages();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao gerar ack');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Limpar todas as mensagens do sandbox desta sessão?')) return;
+    try {
+      await apiService.clearSandboxMessages(sessionName);
+      setMessages([]);
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao limpar mensagens');
+    }
+  };
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center backdrop-blur-sm" style={{ zIndex: 9999 }}>
+        <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-3xl border border-gray-100 m-4 max-h-[90vh] overflow-y-auto" role="dialog" aria-labelledby="sandbox-title">
+          <div className="flex items-start justify-between">
+            <div>
+              <h2 id="sandbox-title" className="text-2xl font-bold text-gray-900">Simulador Sandbox</h2>
+              <p className="text-gray-500 mt-1 text-sm">
+                {displayName} — nenhuma mensagem sai para o WhatsApp. Os envios aparecem abaixo e as respostas simuladas
+                passam pelo mesmo processamento das reais (caixa de entrada, fluxos interativos e automações).
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl ml-4" aria-label="Fechar">✕</button>
+          </div>
+
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="border border-gray-200 rounded-xl p-4">
+              <h3 className="text-sm font-semibold text-gray-700">Acks simulados</h3>
+              <p className="text-xs text-gray-500 mt-1">Deixe o atraso em branco para nunca confirmar.</p>
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Entregue após (s)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={deliveredAfter}
+                    onChange={e => setDeliveredAfter(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Lida após (s)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={readAfter}
+                    onChange={e => setReadAfter(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Taxa de falha (%)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={failureRate}
+                    onChange={e => setFailureRate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Motivo da falha</label>
+                  <input
+                    type="text"
+                    value={failureMessage}
+                    onChange={e => setFailureMessage(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={handleSaveConfig}
+                disabled={savingConfig || !config}
+                className="mt-3 px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {savingConfig ? 'Salvando...' : 'Salvar'}
+              </button>
+            </div>
+
+            <div className="border border-gray-200 rounded-xl p-4">
+              <h3 className="text-sm font-semibold text-gray-700">Simular resposta do contato</h3>
+              <div className="space-y-3 mt-3">
+                <input
+                  type="text"
+                  value={replyFrom}
+                  onChange={e => setReplyFrom(e.target.value)}
+                  placeholder="Telefone (ex: 5511999999999)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <textarea
+                  value={replyText}
+                  onChange={e => setReplyText(e.target.value)}
+                  placeholder="Texto da mensagem"
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm resize-none"
+                />
+                <button
+                  type="button"
+                  onClick={handleSendReply}
+                  disabled={sendingReply}
+                  className="px-4 py-2 bg-amber-500 text-white text-sm rounded-md hover:bg-amber-600 disabled:opacity-50"
+                >
+                  {sendingReply ? 'Enviando...' : 'Enviar como contato'}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-700">Mensagens ({messages.length})</h3>
+              {messages.length > 0 && (
+                <button type="button" onClick={handleClear} className="text-xs text-red-600 hover:text-red-800">
+                  Limpar
+                </button>
+              )}
+            </div>
+
+            {messages.length === 0 ? (
+              <p className="text-sm text-gray-500 py-6 text-center border border-dashed border-gray-200 rounded-xl">
+                Nenhuma mensagem ainda. Envie uma campanha usando esta sessão ou simule uma resposta.
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+                {messages.map(message => (
+                  <div key={message.id} className="p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="text-gray-400">{message.direction === 'OUTBOUND' ? '→' : '←'}</span>
+                        <span className="font-medium text-gray-800">{message.phone}</span>
+                        <span className="text-xs text-gray-500">{message.type}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[message.status]}`}>
+                          {STATUS_LABELS[message.status]}
+                        </span>
+                      </div>
+                      <span className="text-xs text-gray-400 whitespace-nowrap">
+                        {new Date(message.createdAt).toLocaleTimeString('pt-BR')}
+                      </span>
+                    </div>
+                    {message.content && (
+                      <p className="text-gray-700 mt-1 whitespace-pre-wrap break-words">{message.content}</p>
+                    )}
+                    {message.error && <p className="text-xs text-red-600 mt-1">{message.error}</p>}
+                    {message.direction === 'OUTBOUND' && getPayloadOptions(message.payload).length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {getPayloadOptions(message.payload).map(option => (
+                          <button
+                            key={option.id}
+                            type="button"
+                            onClick={() => handleSelectOption(message, option)}
+                            title="Simular a escolha desta opção pelo contato"
+                            className="px-3 py-1 text-xs border border-amber-300 text-amber-700 rounded-full hover:bg-amber-50"
+                          >
+                            {option.title}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {message.direction === 'OUTBOUND' && (message.status === 'SENT' || message.status === 'DELIVERED') && (
+                      <div className="flex gap-3 mt-2 text-xs">
+                        {message.status === 'SENT' && (
+                          <button type="button" onClick={() => handleAck(message, 'DELIVERED')} className="text-blue-600 hover:text-blue-800">
+                            Marcar entregue
+                          </button>
+                        )}
+                        <button type="button" onClick={() => handleAck(message, 'READ')} className="text-green-600 hover:text-green-800">
+                          Marcar lida
+                        </button>
+                        <button type="button" onClick={() => handleAck(message, 'FAILED')} className="text-red-600 hover:text-red-800">
+                          Marcar falha
+                        </button>
+                        <button type="button" onClick={() => setReplyFrom(message.phone)} className="text-amber-600 hover:text-amber-800">
+                          Responder
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Portal>
+  );
+}
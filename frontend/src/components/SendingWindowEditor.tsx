@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { SendingWindow } from '../types';
+
+interface SendingWindowEditorProps {
+  value: SendingWindow;
+  onChange: (value: SendingWindow) => void;
+}
+
+export const DEFAULT_SENDING_WINDOW: SendingWindow = {
+  enabled: true,
+  timezone: 'America/Sao_Paulo',
+  weekdays: [1, 2, 3, 4, 5],
+  ranges: [{ start: '08:00', end: '20:00' }],
+  holidays: [],
+};
+
+const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const TIMEZONES = [
+  'America/Sao_Paulo',
+  'America/Manaus',
+  'America/Cuiaba',
+  'America/Belem',
+  'America/Fortaleza',
+  'America/Recife',
+  'America/Bahia',
+  'America/Rio_Branco',
+  'America/Noronha',
+  'America/Argentina/Buenos_Aires',
+  'America/Santiago',
+  'America/Bogota',
+  'America/Mexico_City',
+  'America/New_York',
+  'Europe/Lisbon',
+  'UTC',
+];
+
+export function SendingWindowEditor({ value, onChange }: SendingWindowEditorProps) {
+  const [holidayInput, setHolidayInput] = useState('');
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter(d => d !== day)
+      : [...value.weekdays, day].sort((a, b) => a - b);
+    onChange({ ...value, weekdays });
+  };
+
+  const updateRange = (index: number, field: 'start' | 'end', time: string) => {
+    onChange({
+      ...value,
+      ranges: value.ranges.map((range, i) => (i === index ? { ...range, [field]: time } : range)),
+    });
+  };
+
+  const addHoliday = () => {
+    if (!holidayInput || value.holidays.includes(holidayInput)) return;
+    onChange({ ...value, holidays: [...value.holidays, holidayInput].sort() });
+    setHolidayInput('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <span className="block text-xs font-medium text-gray-600 mb-1">Dias permitidos</span>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`px-3 py-1 text-sm rounded-lg border ${
+                value.weekdays.includes(day)
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-xs font-medium text-gray-600 mb-1">Faixas de horário</span>
+        <div className="space-y-2">
+          {value.ranges.map((range, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="time"
+                value={range.start}
+                onChange={e => updateRange(index, 'start', e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <span className="text-sm text-gray-500">até</span>
+              <input
+                type="time"
+                value={range.end}
+                onChange={e => updateRange(index, 'end', e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              {value.ranges.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...value, ranges: value.ranges.filter((_, i) => i !== index) })}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Remover
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, ranges: [...value.ranges, { start: '13:00', end: '18:00' }] })}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Adicionar faixa
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-xs font-medium text-gray-600 mb-1">Fuso horário</span>
+        <select
+          value={value.timezone}
+          onChange={e => onChange({ ...value, timezone: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {(TIMEZONES.includes(value.timezone) ? TIMEZONES : [value.timezone, ...TIMEZONES]).map(timezone => (
+            <option key={timezone} value={timezone}>{timezone}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <span className="block text-xs font-medium text-gray-600 mb-1">Feriados (sem envio)</span>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={holidayInput}
+            onChange={e => setHolidayInput(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button
+            type="button"
+            onClick={addHoliday}
+            className="px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            Adicionar
+          </button>
+        </div>
+        {value.holidays.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {value.holidays.map(holiday => (
+              <span key={holiday} className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full">
+                {holiday.split('-').reverse().join('/')}
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...value, holidays: value.holidays.filter(h => h !== holiday) })}
+                  className="text-gray-500 hover:text-red-600"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
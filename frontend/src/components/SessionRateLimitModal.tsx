@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { SessionSendBudget, WarmupStep } from '../types';
+import { apiService } from '../services/api';
+import { Portal } from './Portal';
+
+interface SessionRateLimitModalProps {
+  sessionName: string;
+  displayName: string;
+  budget: SessionSendBudget | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Curva sugerida para números novos: teto diário sobe ao longo das primeiras quatro semanas
+export const DEFAULT_WARMUP_PLAN: WarmupStep[] = [
+  { untilDay: 3, dailyCap: 20 },
+  { untilDay: 7, dailyCap: 50 },
+  { untilDay: 14, dailyCap: 150 },
+  { untilDay: 21, dailyCap: 400 },
+  { untilDay: 28, dailyCap: 800 },
+];
+
+const toInput = (value: number | null | undefined) => (value ? String(value) : '');
+const toLimit = (value: string) => (value.trim() ? parseInt(value, 10) : null);
+
+export function SessionRateLimitModal({ sessionName, displayName, budget, onClose, onSaved }: SessionRateLimitModalProps) {
+  // Valores iniciais do orçamento atual (o modal é montado a cada abertura)
+  const [perMinute, setPerMinute] = useState(toInput(budget?.config.rateLimitPerMinute));
+  const [perHour, setPerHour] = useState(toInput(budget?.config.rateLimitPerHour));
+  const [perDay, setPerDay] = useState(toInput(budget?.config.rateLimitPerDay));
+  const [warmupEnabled, setWarmupEnabled] = useState(!!budget?.config.warmupPlan);
+  const [warmupPlan, setWarmupPlan] = useState<WarmupStep[]>(budget?.config.warmupPlan || DEFAULT_WARMUP_PLAN);
+  const [restartWarmup, setRestartWarmup] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const updateStep = (index: number, field: keyof WarmupStep, value: string) => {
+    setWarmupPlan(warmupPlan.map((step, i) => (i === index ? { ...step, [field]: parseInt(value, 10) || 0 } : step)));
+  };
+
+  const addStep = () => {
+    const last = warmupPlan[warmupPlan.length - 1];
+    setWarmupPlan([...warmupPlan, { untilDay: (last?.untilDay || 0) + 7, dailyCap: (last?.dailyCap || 50) * 2 }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await apiService.updateSessionRateLimit(sessionName, {
+        rateLimitPerMinute: toLimit(perMinute),
+        rateLimitPerHour: toLimit(perHour),
+        rateLimitPerDay: toLimit(perDay),
+        warmupPlan: warmupEnabled ? warmupPlan : null,
+        restartWarmup,
+      });
+      toast.success('Limites de envio salvos');
+      onSaved();
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao salvar limites de envio');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center backdrop-blur-sm" style={{ zIndex: 9999 }}>
+        <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-lg border border-gray-100 m-4 max-h-[90vh] overflow-y-auto" role="dialog" aria-labelledby="rate-limit-title">
+          <h2 id="rate-limit-title" className="text-2xl font-bold text-gray-900">Limites de Envio</h2>
+          <p className="text-gray-500 mt-1 text-sm">
+            {displayName} — vale para campanhas, campanhas interativas e automações desta sessão. Deixe em branco para não limitar.
+          </p>
+
+          <div className="grid grid-cols-3 gap-3 mt-6">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Por minuto</label>
+              <input
+                type="number"
+                min={1}
+                value={perMinute}
+                onChange={e => setPerMinute(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Por hora</label>
+              <input
+                type="number"
+                min={1}
+                value={perHour}
+                onChange={e => setPerHour(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Por dia (24h)</label>
+              <input
+                type="number"
+                min={1}
+                value={perDay}
+                onChange={e => setPerDay(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="mt-6 border-t border-gray-100 pt-4">
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <input type="checkbox" checked={warmupEnabled} onChange={e => setWarmupEnabled(e.target.checked)} />
+              Aquecimento do número
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              Limita o envio diário nas primeiras semanas. Após a última etapa vale apenas o limite por dia.
+            </p>
+
+            {warmupEnabled && (
+              <div className="mt-3 space-y-2">
+                {warmupPlan.map((step, index) => (
+                  <div key={index} className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-600">Até o dia</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={step.untilDay}
+                      onChange={e => updateStep(index, 'untilDay', e.target.value)}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                    <span className="text-gray-600">no máximo</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={step.dailyCap}
+                      onChange={e => updateStep(index, 'dailyCap', e.target.value)}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                    <span className="text-gray-600">por dia</span>
+                    {warmupPlan.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setWarmupPlan(warmupPlan.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Remover
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button type="button" onClick={addStep} className="text-sm text-blue-600 hover:text-blue-800">
+                  + Adicionar etapa
+                </button>
+
+                {budget?.config.warmupPlan && budget.config.warmupStartedAt && (
+                  <div className="text-xs text-gray-500">
+                    Iniciado em {new Date(budget.config.warmupStartedAt).toLocaleDateString('pt-BR')}
+                    {budget.limits.warmupDay ? ` · dia ${budget.limits.warmupDay}` : ' · concluído'}
+                    <label className="flex items-center gap-2 mt-1">
+                      <input type="checkbox" checked={restartWarmup} onChange={e => setRestartWarmup(e.target.checked)} />
+                      Reiniciar aquecimento a partir de hoje
+                    </label>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-4 pt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-xl hover:bg-gray-200 font-medium transition-all duration-200 border border-gray-200"
+              disabled={saving}
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 bg-blue-600 text-white py-3 px-6 rounded-xl hover:bg-blue-700 font-medium transition-all duration-200 disabled:opacity-50"
+            >
+              {saving ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Portal>
+  );
+}
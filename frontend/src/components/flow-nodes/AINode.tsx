@@ -9,7 +9,10 @@ export const AINode = memo((props: NodeProps) => {
 
     if (provider && prompt) {
       const providerLabel = provider === 'openai' ? 'OpenAI' : 'Groq';
-      return `${providerLabel}: ${prompt.substring(0, 20)}${prompt.length > 20 ? '...' : ''}`;
+      const output = props.data.config?.outputMode === 'variable'
+        ? ` → {{${props.data.config?.outputVariable || 'resposta_ia'}}}`
+        : '';
+      return `${providerLabel}: ${prompt.substring(0, 20)}${prompt.length > 20 ? '...' : ''}${output}`;
     }
 
     if (provider) {
@@ -1,6 +1,12 @@
 import { memo, useState, useRef, useEffect } from 'react';
 import { Handle, Position, NodeProps, useReactFlow } from 'reactflow';
 
+export interface BaseNodeOutput {
+  id: string;
+  title: string;
+  className: string;
+}
+
 interface BaseNodeProps extends NodeProps {
   icon: string;
   label: string;
@@ -9,9 +15,11 @@ interface BaseNodeProps extends NodeProps {
   preview?: React.ReactNode;
   onClick?: () => void;
   onDelete?: () => void;
+  outputs?: BaseNodeOutput[];
+  extraOutputs?: BaseNodeOutput[]; // Saídas laterais além da saída padrão inferior
 }
 
-export const BaseNode = memo(({ id, data, icon, label, color, description, preview, onClick, onDelete }: BaseNodeProps & { id: string; data: any }) => {
+export const BaseNode = memo(({ id, data, icon, label, color, description, preview, onClick, onDelete, outputs, extraOutputs }: BaseNodeProps & { id: string; data: any }) => {
   const isConfigured = data.config && Object.keys(data.config).length > 0;
   const [isEditing, setIsEditing] = useState(false);
   const [customLabel, setCustomLabel] = useState(data.customLabel || '');
@@ -139,12 +147,38 @@ export const BaseNode = memo(({ id, data, icon, label, color, description, previ
         )}
       </div>
 
-      {/* Handle de saída */}
-      <Handle
-        type="source"
-        position={Position.Bottom}
-        className="w-3 h-3 !bg-gray-400 !border-2 !border-white"
-      />
+      {/* Handles de saída */}
+      {outputs && outputs.length > 0 ? (
+        outputs.map((output, index) => (
+          <Handle
+            key={output.id}
+            type="source"
+            position={Position.Right}
+            id={output.id}
+            className={`w-3 h-3 ${output.className} !border-2 !border-white`}
+            style={{ top: `${((index + 1) * 100) / (outputs.length + 1)}%` }}
+            title={output.title}
+          />
+        ))
+      ) : (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          className="w-3 h-3 !bg-gray-400 !border-2 !border-white"
+        />
+      )}
+
+      {extraOutputs?.map((output, index) => (
+        <Handle
+          key={output.id}
+          type="source"
+          position={Position.Right}
+          id={output.id}
+          className={`w-3 h-3 ${output.className} !border-2 !border-white`}
+          style={{ top: `${((index + 1) * 100) / (extraOutputs.length + 1)}%` }}
+          title={output.title}
+        />
+      ))}
     </div>
   );
 });
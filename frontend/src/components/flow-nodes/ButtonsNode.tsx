@@ -0,0 +1,27 @@
+import { memo } from 'react';
+import { NodeProps } from 'reactflow';
+import { BaseNode } from './BaseNode';
+
+export const ButtonsNode = memo((props: NodeProps) => {
+  const getDescription = () => {
+    const options = props.data.config?.options?.filter((option: any) => option.title) || [];
+    if (options.length > 0) {
+      return `${options.length} botão${options.length > 1 ? 'ões' : ''}: ${options.map((option: any) => option.title).join(', ').substring(0, 30)}`;
+    }
+
+    return 'Configure os botões';
+  };
+
+  return (
+    <BaseNode
+      {...props}
+      icon="🔘"
+      label="Botões"
+      color="#14b8a6"
+      description={getDescription()}
+      onDelete={props.data.onDelete}
+    />
+  );
+});
+
+ButtonsNode.displayName = 'ButtonsNode';
@@ -18,6 +18,7 @@ export const ConditionNode = memo((props: NodeProps) => {
       equals: 'Igual a',
       regex: 'Expressão regular',
       variable: 'Variável',
+      replyType: 'Tipo da resposta',
     };
 
     return labels[type] || type;
@@ -153,6 +154,17 @@ export const ConditionNode = memo((props: NodeProps) => {
           />
         </>
       )}
+
+      {/* Saída "sem resposta" (timeout configurado) */}
+      {props.data.config?.timeoutValue && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id="timeout"
+          className="w-3 h-3 !bg-orange-500 !border-2 !border-white"
+          title="Sem resposta (timeout)"
+        />
+      )}
     </div>
   );
 });
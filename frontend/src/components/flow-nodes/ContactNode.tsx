@@ -0,0 +1,27 @@
+import { memo } from 'react';
+import { NodeProps } from 'reactflow';
+import { BaseNode } from './BaseNode';
+
+export const ContactNode = memo((props: NodeProps) => {
+  const getDescription = () => {
+    const contactName = props.data.config?.contactName;
+    if (contactName) {
+      return contactName.substring(0, 30) + (contactName.length > 30 ? '...' : '');
+    }
+
+    return 'Configure o contato';
+  };
+
+  return (
+    <BaseNode
+      {...props}
+      icon="👤"
+      label="Contato"
+      color="#84cc16"
+      description={getDescription()}
+      onDelete={props.data.onDelete}
+    />
+  );
+});
+
+ContactNode.displayName = 'ContactNode';
@@ -1,6 +1,11 @@
 import { memo } from 'react';
 import { NodeProps } from 'reactflow';
-import { BaseNode } from './BaseNode';
+import { BaseNode, BaseNodeOutput } from './BaseNode';
+
+const HTTP_OUTPUTS: BaseNodeOutput[] = [
+  { id: 'success', title: 'Sucesso (2xx)', className: '!bg-green-500' },
+  { id: 'error', title: 'Erro (falha ou status não-2xx)', className: '!bg-red-500' },
+];
 
 export const HttpRestNode = memo((props: NodeProps) => {
   const getDescription = () => {
@@ -20,6 +25,7 @@ export const HttpRestNode = memo((props: NodeProps) => {
       color="#f59e0b"
       description={getDescription()}
       onDelete={props.data.onDelete}
+      outputs={HTTP_OUTPUTS}
     />
   );
 });
@@ -0,0 +1,27 @@
+import { memo } from 'react';
+import { NodeProps } from 'reactflow';
+import { BaseNode } from './BaseNode';
+
+export const ListNode = memo((props: NodeProps) => {
+  const getDescription = () => {
+    const options = props.data.config?.options?.filter((option: any) => option.title) || [];
+    if (options.length > 0) {
+      return `${options.length} opç${options.length > 1 ? 'ões' : 'ão'}`;
+    }
+
+    return 'Configure a lista';
+  };
+
+  return (
+    <BaseNode
+      {...props}
+      icon="📋"
+      label="Lista"
+      color="#0ea5e9"
+      description={getDescription()}
+      onDelete={props.data.onDelete}
+    />
+  );
+});
+
+ListNode.displayName = 'ListNode';
@@ -0,0 +1,30 @@
+import { memo } from 'react';
+import { NodeProps } from 'reactflow';
+import { BaseNode } from './BaseNode';
+
+export const LocationNode = memo((props: NodeProps) => {
+  const getDescription = () => {
+    const { locationName, latitude, longitude } = props.data.config || {};
+    if (locationName) {
+      return locationName.substring(0, 30) + (locationName.length > 30 ? '...' : '');
+    }
+    if (latitude && longitude) {
+      return `${latitude}, ${longitude}`;
+    }
+
+    return 'Configure a localização';
+  };
+
+  return (
+    <BaseNode
+      {...props}
+      icon="📍"
+      label="Localização"
+      color="#ef4444"
+      description={getDescription()}
+      onDelete={props.data.onDelete}
+    />
+  );
+});
+
+LocationNode.displayName = 'LocationNode';
@@ -8,6 +8,19 @@ interface Category {
   nome: string;
 }
 
+// Tipos de resposta do contato (condição "Tipo da resposta" e tipo exigido no Aguardar Resposta)
+const REPLY_TYPE_OPTIONS = [
+  { value: 'text', label: '💬 Texto' },
+  { value: 'media', label: '📎 Qualquer arquivo' },
+  { value: 'image', label: '🖼️ Imagem' },
+  { value: 'audio', label: '🎵 Áudio' },
+  { value: 'video', label: '🎬 Vídeo' },
+  { value: 'document', label: '📄 Documento' },
+  { value: 'sticker', label: '🏷️ Figurinha' },
+  { value: 'location', label: '📍 Localização' },
+  { value: 'contact', label: '👤 Contato' },
+];
+
 interface NodeConfigSidebarProps {
   node: Node | null;
   nodes: Node[];
@@ -403,6 +416,34 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
           <p className="text-xs text-orange-600 mt-1">⚠️ Selecione ao menos uma conexão</p>
         )}
       </div>
+
+      {/* Duração máxima da sessão */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Duração máxima da sessão <span className="text-gray-400">(opcional)</span>
+        </label>
+        <div className="flex space-x-2">
+          <input
+            type="number"
+            min="1"
+            placeholder="—"
+            value={config.sessionMaxLifetimeValue || ''}
+            onChange={(e) => setConfig({ ...config, sessionMaxLifetimeValue: parseInt(e.target.value) || '' })}
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+          />
+          <select
+            value={config.sessionMaxLifetimeUnit || 'hours'}
+            onChange={(e) => setConfig({ ...config, sessionMaxLifetimeUnit: e.target.value })}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+          >
+            <option value="hours">Horas</option>
+            <option value="days">Dias</option>
+          </select>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Contatos que ainda estiverem no fluxo após este tempo têm a sessão marcada como expirada.
+        </p>
+      </div>
     </div>
   );
 
@@ -922,6 +963,68 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
   };
 
   // Renderizar configuração de nó de Texto
+  // Template aprovado enviado pela WhatsApp Cloud API quando a janela de 24h está fechada
+  const renderTemplateFallbackConfig = () => {
+    const template = config.template || null;
+
+    const updateTemplate = (changes: Record<string, any>) => {
+      setConfig({ ...config, template: { name: '', language: 'pt_BR', parameters: [], ...template, ...changes } });
+    };
+
+    return (
+      <div className="space-y-3 p-3 border border-gray-200 rounded-lg">
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="useTemplateFallback"
+            checked={!!template}
+            onChange={(e) => {
+              setConfig({
+                ...config,
+                template: e.target.checked ? { name: '', language: 'pt_BR', parameters: [] } : undefined
+              });
+            }}
+            className="rounded text-brand-primary focus:ring-brand-primary"
+          />
+          <label htmlFor="useTemplateFallback" className="text-sm font-medium text-gray-700">
+            Template fora da janela de 24h (Cloud API)
+          </label>
+        </div>
+
+        {template && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={template.name || ''}
+                onChange={(e) => updateTemplate({ name: e.target.value })}
+                placeholder="Nome do template"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary text-sm"
+              />
+              <input
+                type="text"
+                value={template.language || ''}
+                onChange={(e) => updateTemplate({ language: e.target.value })}
+                placeholder="pt_BR"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary text-sm"
+              />
+            </div>
+            <textarea
+              value={(template.parameters || []).join('\n')}
+              onChange={(e) => updateTemplate({ parameters: e.target.value.split('\n') })}
+              placeholder={'Um parâmetro por linha ({{1}}, {{2}}...)\nEx.: {{nome}}'}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary resize-none text-sm"
+            />
+            <p className="text-xs text-gray-500">
+              Usado apenas em sessões Cloud API quando o contato não respondeu nas últimas 24h.
+            </p>
+          </>
+        )}
+      </div>
+    );
+  };
+
   const renderTextConfig = () => {
     return (
       <div className="space-y-4">
@@ -1077,6 +1180,8 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
             </button>
           ))}
         </div>
+
+        {renderTemplateFallbackConfig()}
       </div>
     );
   };
@@ -1326,25 +1431,343 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
           </select>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Modelo
+          </label>
+          <input
+            type="text"
+            value={config.model || ''}
+            onChange={(e) => setConfig({ ...config, model: e.target.value })}
+            placeholder={(config.aiProvider || 'openai') === 'groq' ? 'llama-3.1-8b-instant' : 'gpt-4o-mini'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Deixe em branco para usar o modelo padrão do provedor
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Prompt do Sistema
+          </label>
+          <textarea
+            value={config.systemPrompt || ''}
+            onChange={(e) => handleInputChange(e, 'systemPrompt')}
+            onKeyDown={handleInputKeyDown}
+            placeholder="Ex: Você é um assistente prestativo que responde dúvidas sobre nossos produtos..."
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary resize-none"
+          />
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Prompt/Instrução
           </label>
           <textarea
             value={config.prompt || ''}
-            onChange={(e) => setConfig({ ...config, prompt: e.target.value })}
+            onChange={(e) => handleInputChange(e, 'prompt')}
+            onKeyDown={handleInputKeyDown}
             placeholder="Digite o prompt para a IA processar..."
             rows={6}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary resize-none"
           />
           <p className="text-xs text-gray-500 mt-2">
-            Use variáveis: {'{{nome}}, {{telefone}}, {{mensagem_usuario}}'}
+            Use variáveis: {'{{nome}}, {{telefone}}, {{mensagem_usuario}}'} ou digite {'{{'} para ver sugestões
           </p>
         </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Resultado
+          </label>
+          <select
+            value={config.outputMode || 'send'}
+            onChange={(e) => setConfig({ ...config, outputMode: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+          >
+            <option value="send">Enviar resposta ao contato</option>
+            <option value="variable">Salvar resposta em variável</option>
+          </select>
+        </div>
+
+        {config.outputMode === 'variable' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Nome da Variável
+            </label>
+            <input
+              type="text"
+              value={config.outputVariable || ''}
+              onChange={(e) => setConfig({ ...config, outputVariable: e.target.value.replace(/[^a-zA-Z0-9_]/g, '') })}
+              placeholder="resposta_ia"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use nos próximos nós como: <code className="bg-gray-200 px-1 rounded">{'{{'}{config.outputVariable || 'resposta_ia'}{'}}'}</code>
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary';
+
+  // Opções de botões, listas e enquetes: o ID volta quando o contato escolhe a opção e pode ser usado nas condições
+  const renderOptionsEditor = (label: string, maxOptions: number, withDescription: boolean) => {
+    const options: Array<{ id: string; title: string; description?: string }> = config.options || [];
+
+    const updateOption = (index: number, field: string, value: string) => {
+      const newOptions = [...options];
+      newOptions[index] = { ...newOptions[index], [field]: value };
+      setConfig({ ...config, options: newOptions });
+    };
+
+    const addOption = () => {
+      // Próximo ID livre (opt_N) para não repetir IDs após remoções
+      let next = options.length + 1;
+      while (options.some(option => option.id === `opt_${next}`)) next++;
+      setConfig({ ...config, options: [...options, { id: `opt_${next}`, title: '' }] });
+    };
+
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-gray-700">
+            {label} ({options.length}/{maxOptions})
+          </label>
+          <button
+            type="button"
+            onClick={addOption}
+            disabled={options.length >= maxOptions}
+            className="text-xs px-3 py-1 bg-brand-primary text-white rounded-lg hover:opacity-90 disabled:opacity-50"
+          >
+            + Adicionar
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {options.map((option, index) => (
+            <div key={index} className="p-2 border border-gray-200 rounded-lg bg-gray-50 space-y-1">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={option.title || ''}
+                  onChange={(e) => updateOption(index, 'title', e.target.value)}
+                  placeholder={`Opção ${index + 1}`}
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-brand-primary"
+                />
+                <input
+                  type="text"
+                  value={option.id || ''}
+                  onChange={(e) => updateOption(index, 'id', e.target.value.replace(/[^a-zA-Z0-9_-]/g, ''))}
+                  placeholder="ID"
+                  title="ID da opção (usado nas condições)"
+                  className="w-24 px-2 py-1 text-xs font-mono border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-brand-primary"
+                />
+                <button
+                  type="button"
+                  onClick={() => setConfig({ ...config, options: options.filter((_, i) => i !== index) })}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              {withDescription && (
+                <input
+                  type="text"
+                  value={option.description || ''}
+                  onChange={(e) => updateOption(index, 'description', e.target.value)}
+                  placeholder="Descrição (opcional)"
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-brand-primary"
+                />
+              )}
+            </div>
+          ))}
+
+          {options.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-2">Nenhuma opção adicionada.</p>
+          )}
+        </div>
       </div>
     );
   };
 
+  const renderSelectionHint = () => (
+    <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+      <p className="text-xs text-blue-700">
+        💡 Conecte um nó <strong>Condição</strong> ou <strong>Aguardar Resposta</strong> em seguida. A opção escolhida fica em{' '}
+        <code className="bg-blue-100 px-1 rounded">{'{{selectedOptionId}}'}</code> e{' '}
+        <code className="bg-blue-100 px-1 rounded">{'{{selectedOptionTitle}}'}</code>, e os IDs podem ser usados como valor nas condições.
+        Conexões sem suporte nativo recebem as opções numeradas em texto.
+      </p>
+    </div>
+  );
+
+  const renderButtonsConfig = () => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Mensagem</label>
+        <textarea
+          value={config.text || ''}
+          onChange={(e) => handleInputChange(e, 'text')}
+          onKeyDown={handleInputKeyDown}
+          placeholder="Ex: Olá {{nome}}, podemos confirmar seu horário?"
+          rows={4}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+      {renderOptionsEditor('Botões', 10, false)}
+      <p className="text-xs text-gray-500">A WhatsApp Cloud API exibe até 3 botões; acima disso a mensagem é enviada como lista.</p>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Rodapé (opcional)</label>
+        <input type="text" value={config.footer || ''} onChange={(e) => setConfig({ ...config, footer: e.target.value })} className={inputClass} />
+      </div>
+      {renderSelectionHint()}
+    </div>
+  );
+
+  const renderListConfig = () => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Mensagem</label>
+        <textarea
+          value={config.text || ''}
+          onChange={(e) => handleInputChange(e, 'text')}
+          onKeyDown={handleInputKeyDown}
+          placeholder="Ex: Escolha o assunto do atendimento"
+          rows={4}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Texto do botão</label>
+          <input type="text" value={config.buttonText || ''} onChange={(e) => setConfig({ ...config, buttonText: e.target.value })} placeholder="Ver opções" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Título da seção</label>
+          <input type="text" value={config.sectionTitle || ''} onChange={(e) => setConfig({ ...config, sectionTitle: e.target.value })} placeholder="Opcional" className={inputClass} />
+        </div>
+      </div>
+      {renderOptionsEditor('Opções', 10, true)}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Rodapé (opcional)</label>
+        <input type="text" value={config.footer || ''} onChange={(e) => setConfig({ ...config, footer: e.target.value })} className={inputClass} />
+      </div>
+      {renderSelectionHint()}
+    </div>
+  );
+
+  const renderPollConfig = () => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Pergunta</label>
+        <textarea
+          value={config.text || ''}
+          onChange={(e) => handleInputChange(e, 'text')}
+          onKeyDown={handleInputKeyDown}
+          placeholder="Ex: Qual o melhor horário para contato?"
+          rows={3}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+      {renderOptionsEditor('Opções', 12, false)}
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="pollMultiple"
+          checked={(config.selectableCount || 1) > 1}
+          onChange={(e) => setConfig({ ...config, selectableCount: e.target.checked ? (config.options || []).length || 2 : 1 })}
+          className="rounded text-brand-primary focus:ring-brand-primary"
+        />
+        <label htmlFor="pollMultiple" className="text-sm text-gray-700">Permitir várias respostas</label>
+      </div>
+      {renderSelectionHint()}
+    </div>
+  );
+
+  const renderLocationConfig = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Latitude</label>
+          <input type="number" step="any" value={config.latitude ?? ''} onChange={(e) => setConfig({ ...config, latitude: e.target.value })} placeholder="-23.5505" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Longitude</label>
+          <input type="number" step="any" value={config.longitude ?? ''} onChange={(e) => setConfig({ ...config, longitude: e.target.value })} placeholder="-46.6333" className={inputClass} />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Nome do local</label>
+        <input type="text" value={config.locationName || ''} onChange={(e) => handleInputChange(e, 'locationName')} onKeyDown={handleInputKeyDown} placeholder="Ex: Loja Centro" className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Endereço</label>
+        <input type="text" value={config.address || ''} onChange={(e) => handleInputChange(e, 'address')} onKeyDown={handleInputKeyDown} placeholder="Ex: Av. Paulista, 1000 - São Paulo" className={inputClass} />
+      </div>
+    </div>
+  );
+
+  const renderContactConfig = () => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Nome</label>
+        <input type="text" value={config.contactName || ''} onChange={(e) => handleInputChange(e, 'contactName')} onKeyDown={handleInputKeyDown} placeholder="Ex: Suporte Comercial" className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Telefone (com DDI)</label>
+        <input type="text" value={config.contactPhone || ''} onChange={(e) => setConfig({ ...config, contactPhone: e.target.value })} placeholder="5511999999999" className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Empresa (opcional)</label>
+        <input type="text" value={config.organization || ''} onChange={(e) => setConfig({ ...config, organization: e.target.value })} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Email (opcional)</label>
+        <input type="email" value={config.email || ''} onChange={(e) => setConfig({ ...config, email: e.target.value })} className={inputClass} />
+      </div>
+    </div>
+  );
+
+  const renderReactionConfig = () => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Emoji</label>
+        <div className="flex flex-wrap gap-2">
+          {['👍', '❤️', '😂', '😮', '🙏', '✅'].map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => setConfig({ ...config, emoji })}
+              className={`text-2xl px-2 py-1 rounded-lg border ${config.emoji === emoji ? 'border-brand-primary bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+            >
+              {emoji}
+            </button>
+          ))}
+          <input
+            type="text"
+            value={config.emoji || ''}
+            onChange={(e) => setConfig({ ...config, emoji: e.target.value })}
+            placeholder="Outro"
+            className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-center"
+          />
+        </div>
+      </div>
+      <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+        <p className="text-xs text-blue-700">
+          💡 A reação é aplicada na última mensagem recebida do contato, por isso este nó deve vir depois de uma resposta.
+          Conexões sem suporte a reações enviam o emoji como texto.
+        </p>
+      </div>
+    </div>
+  );
+
   const renderConditionConfig = () => {
     const mode = config.mode || 'simple';
     const cases = config.cases || [];
@@ -1395,33 +1818,50 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
               </label>
               <select
                 value={config.conditionType || 'contains'}
-                onChange={(e) => setConfig({ ...config, conditionType: e.target.value })}
+                onChange={(e) => {
+                  const isReplyType = e.target.value === 'replyType';
+                  const value = isReplyType ? 'media' : config.conditionType === 'replyType' ? '' : config.value;
+                  setConfig({ ...config, conditionType: e.target.value, value });
+                }}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
               >
                 <option value="contains">Contém texto</option>
                 <option value="equals">Igual a</option>
                 <option value="regex">Expressão regular</option>
                 <option value="variable">Comparar variável</option>
+                <option value="replyType">Tipo da resposta (imagem, áudio, localização...)</option>
               </select>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Valor a comparar
+                {config.conditionType === 'replyType' ? 'A resposta é' : 'Valor a comparar'}
               </label>
-              <input
-                type="text"
-                value={config.value || ''}
-                onChange={(e) => setConfig({ ...config, value: e.target.value })}
-                placeholder={
-                  config.conditionType === 'regex'
-                    ? 'Ex: ^[0-9]+$'
-                    : config.conditionType === 'variable'
-                    ? 'Ex: {{status}}'
-                    : 'Ex: sim'
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
-              />
+              {config.conditionType === 'replyType' ? (
+                <select
+                  value={config.value || 'media'}
+                  onChange={(e) => setConfig({ ...config, value: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                >
+                  {REPLY_TYPE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={config.value || ''}
+                  onChange={(e) => setConfig({ ...config, value: e.target.value })}
+                  placeholder={
+                    config.conditionType === 'regex'
+                      ? 'Ex: ^[0-9]+$'
+                      : config.conditionType === 'variable'
+                      ? 'Ex: {{status}}'
+                      : 'Ex: sim'
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                />
+              )}
             </div>
 
             <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
@@ -1429,6 +1869,8 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
                 💡 Conecte a saída <strong>verde</strong> (verdadeiro) e <strong>vermelha</strong> (falso) a blocos diferentes.
               </p>
             </div>
+
+            {renderUpstreamOptions()}
           </>
         ) : (
           // Configuração switch
@@ -1482,12 +1924,20 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
                       </label>
                       <select
                         value={caseItem.conditionType || 'equals'}
-                        onChange={(e) => updateCase(index, 'conditionType', e.target.value)}
+                        onChange={(e) => {
+                          // O valor de um case "Tipo da resposta" vem da lista de tipos, não é texto livre
+                          const newCases = [...cases];
+                          const isReplyType = e.target.value === 'replyType';
+                          const value = isReplyType ? 'media' : caseItem.conditionType === 'replyType' ? '' : caseItem.value;
+                          newCases[index] = { ...caseItem, conditionType: e.target.value, value };
+                          setConfig({ ...config, cases: newCases });
+                        }}
                         className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-brand-primary"
                       >
                         <option value="equals">Igual a</option>
                         <option value="contains">Contém</option>
                         <option value="regex">Regex</option>
+                        <option value="replyType">Tipo da resposta</option>
                       </select>
                     </div>
 
@@ -1495,13 +1945,25 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
                       <label className="block text-xs font-medium text-gray-600 mb-1">
                         Valor
                       </label>
-                      <input
-                        type="text"
-                        value={caseItem.value || ''}
-                        onChange={(e) => updateCase(index, 'value', e.target.value)}
-                        placeholder="Valor a comparar"
-                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-brand-primary"
-                      />
+                      {caseItem.conditionType === 'replyType' ? (
+                        <select
+                          value={caseItem.value || 'media'}
+                          onChange={(e) => updateCase(index, 'value', e.target.value)}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-brand-primary"
+                        >
+                          {REPLY_TYPE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type="text"
+                          value={caseItem.value || ''}
+                          onChange={(e) => updateCase(index, 'value', e.target.value)}
+                          placeholder="Valor a comparar"
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-brand-primary"
+                        />
+                      )}
                     </div>
                   </div>
                 ))}
@@ -1519,8 +1981,14 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
                 💡 Cada condição terá uma saída <strong>colorida</strong>. A saída <strong>cinza</strong> é executada se nenhuma condição for atendida (padrão).
               </p>
             </div>
+
+            {renderUpstreamOptions()}
           </>
         )}
+
+        <div className="pt-4 border-t border-gray-200">
+          {renderReplyTimeoutConfig()}
+        </div>
       </div>
     );
   };
@@ -1558,6 +2026,73 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
     </div>
   );
 
+  // Timeout de resposta, lembretes e saída "sem resposta" (waitreply e condição)
+  const renderReplyTimeoutConfig = () => (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Timeout <span className="text-gray-400">(opcional)</span>
+        </label>
+        <div className="flex space-x-2">
+          <input
+            type="number"
+            min="1"
+            placeholder="—"
+            value={config.timeoutValue || ''}
+            onChange={(e) => setConfig({ ...config, timeoutValue: parseInt(e.target.value) || '' })}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+          />
+          <select
+            value={config.timeoutUnit || 'hours'}
+            onChange={(e) => setConfig({ ...config, timeoutUnit: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+          >
+            <option value="minutes">Minutos</option>
+            <option value="hours">Horas</option>
+            <option value="days">Dias</option>
+          </select>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Tempo máximo para aguardar resposta. Sem resposta, o fluxo segue pela saída <strong className="text-orange-600">laranja</strong> ("sem resposta"); se ela não estiver conectada, a sessão expira.
+        </p>
+      </div>
+
+      {config.timeoutValue && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Lembretes <span className="text-gray-400">(opcional)</span>
+          </label>
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min="0"
+              max="5"
+              value={config.reminderCount ?? 0}
+              onChange={(e) => setConfig({ ...config, reminderCount: Math.min(5, Math.max(0, parseInt(e.target.value) || 0)) })}
+              className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            />
+            <span className="text-sm text-gray-600">lembrete(s) antes do timeout</span>
+          </div>
+          <textarea
+            rows={2}
+            placeholder="Ex: Oi {{nome}}, ainda está por aí?"
+            value={config.reminderMessage || ''}
+            onChange={(e) => setConfig({ ...config, reminderMessage: e.target.value })}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+          />
+          <p className="text-xs text-gray-500">
+            Os lembretes são enviados em intervalos iguais dentro do timeout.
+          </p>
+          {(config.reminderCount ?? 0) > 0 && !String(config.reminderMessage || '').trim() && (
+            <p className="text-xs text-amber-600">
+              Escreva a mensagem do lembrete: sem ela, nenhum lembrete é enviado.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   const renderWaitReplyConfig = () => (
     <div className="space-y-4">
       {/* Banner explicativo */}
@@ -1585,36 +2120,45 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
         />
         <p className="text-xs text-gray-500 mt-1">
           Use <code className="bg-gray-100 px-1 rounded">{'{variavel}'}</code> nos blocos seguintes para inserir a resposta do lead.
+          Para mídias, a variável recebe o link do arquivo (ou as coordenadas da localização).
         </p>
       </div>
 
-      {/* Campo timeout */}
+      {/* Tipo de resposta exigido */}
       <div>
-        <label className="block text-sm font-medium text-gray-700 mb-1">
-          Timeout <span className="text-gray-400">(opcional)</span>
-        </label>
-        <div className="flex space-x-2">
-          <input
-            type="number"
-            min="1"
-            placeholder="—"
-            value={config.timeoutValue || ''}
-            onChange={(e) => setConfig({ ...config, timeoutValue: parseInt(e.target.value) || '' })}
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
-          />
-          <select
-            value={config.timeoutUnit || 'hours'}
-            onChange={(e) => setConfig({ ...config, timeoutUnit: e.target.value })}
-            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
-          >
-            <option value="hours">Horas</option>
-            <option value="days">Dias</option>
-          </select>
-        </div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Aceitar somente</label>
+        <select
+          value={config.requiredReplyType || ''}
+          onChange={(e) => setConfig({ ...config, requiredReplyType: e.target.value || undefined })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+        >
+          <option value="">Qualquer resposta</option>
+          {REPLY_TYPE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
         <p className="text-xs text-gray-500 mt-1">
-          Tempo máximo para aguardar resposta. Se não responder, o fluxo será encerrado.
+          Respostas de outro tipo são ignoradas e o fluxo continua aguardando (o tempo limite segue valendo).
         </p>
       </div>
+
+      {config.requiredReplyType && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Mensagem para resposta inválida <span className="text-gray-400">(opcional)</span>
+          </label>
+          <textarea
+            value={config.invalidReplyMessage || ''}
+            onChange={(e) => handleInputChange(e, 'invalidReplyMessage')}
+            onKeyDown={handleInputKeyDown}
+            placeholder="Ex: Por favor, envie uma foto do comprovante."
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary resize-none"
+          />
+        </div>
+      )}
+
+      {renderReplyTimeoutConfig()}
     </div>
   );
 
@@ -1794,6 +2338,71 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
     return paths;
   };
 
+  // Função recursiva para encontrar nós anteriores
+  const getPreviousNodes = (nodeId: string, visited: Set<string> = new Set()): Node[] => {
+    if (visited.has(nodeId)) return [];
+    visited.add(nodeId);
+
+    const incomingEdges = edges.filter(edge => edge.target === nodeId);
+    let previousNodes: Node[] = [];
+
+    for (const edge of incomingEdges) {
+      const sourceNode = nodes.find(n => n.id === edge.source);
+      if (sourceNode) {
+        previousNodes.push(sourceNode);
+        previousNodes = [...previousNodes, ...getPreviousNodes(sourceNode.id, visited)];
+      }
+    }
+
+    return previousNodes;
+  };
+
+  // Opções de botões/listas/enquetes anteriores: clicar preenche o valor da condição com o ID
+  const renderUpstreamOptions = () => {
+    const optionNodes = getPreviousNodes(node.id).filter(prevNode =>
+      ['buttons', 'list', 'poll'].includes(prevNode.data?.nodeType) && prevNode.data?.config?.options?.length
+    );
+    if (optionNodes.length === 0) return null;
+
+    const applyOption = (optionId: string) => {
+      if ((config.mode || 'simple') === 'switch') {
+        const cases = config.cases || [];
+        const emptyIndex = cases.findIndex((caseItem: any) => !caseItem.value);
+        const newCase = { value: optionId, label: optionId, conditionType: 'equals' };
+        setConfig({
+          ...config,
+          cases: emptyIndex >= 0
+            ? cases.map((caseItem: any, i: number) => (i === emptyIndex ? { ...caseItem, value: optionId, conditionType: 'equals' } : caseItem))
+            : [...cases, newCase],
+        });
+      } else {
+        setConfig({ ...config, conditionType: 'equals', value: optionId });
+      }
+    };
+
+    return (
+      <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+        <p className="text-xs font-medium text-gray-700 mb-2">Opções enviadas antes desta condição</p>
+        {optionNodes.map(prevNode => (
+          <div key={prevNode.id} className="flex flex-wrap gap-1 mb-1">
+            {prevNode.data.config.options.filter((option: any) => option.title).map((option: any) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => applyOption(option.id)}
+                title={`Usar o ID ${option.id}`}
+                className="text-xs px-2 py-1 bg-white border border-gray-300 rounded-full hover:border-brand-primary"
+              >
+                {option.title} <span className="font-mono text-gray-400">{option.id}</span>
+              </button>
+            ))}
+          </div>
+        ))}
+        <p className="text-xs text-gray-500 mt-1">O contato pode tocar na opção, digitar o título ou o número: todos casam com o ID.</p>
+      </div>
+    );
+  };
+
   // Função para coletar variáveis disponíveis de nós anteriores
   const getAvailableVariables = (): Array<{ name: string; description: string }> => {
     if (!node) return [];
@@ -1804,30 +2413,36 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
       { name: 'email', description: 'Email do contato' },
     ];
 
-    // Função recursiva para encontrar nós anteriores
-    const getPreviousNodes = (nodeId: string, visited: Set<string> = new Set()): Node[] => {
-      if (visited.has(nodeId)) return [];
-      visited.add(nodeId);
-
-      const incomingEdges = edges.filter(edge => edge.target === nodeId);
-      let previousNodes: Node[] = [];
+    // Obter todos os nós anteriores ao nó atual
+    const previousNodes = getPreviousNodes(node.id);
 
-      for (const edge of incomingEdges) {
-        const sourceNode = nodes.find(n => n.id === edge.source);
-        if (sourceNode) {
-          previousNodes.push(sourceNode);
-          previousNodes = [...previousNodes, ...getPreviousNodes(sourceNode.id, visited)];
-        }
+    // Extrair variáveis de nós HTTP REST e IA anteriores
+    previousNodes.forEach(prevNode => {
+      if (prevNode.data?.nodeType === 'ai' && prevNode.data?.config?.outputMode === 'variable') {
+        variables.push({
+          name: prevNode.data.config.outputVariable || 'resposta_ia',
+          description: 'Resposta gerada pela IA',
+        });
       }
 
-      return previousNodes;
-    };
+      if (['buttons', 'list', 'poll'].includes(prevNode.data?.nodeType)) {
+        variables.push(
+          { name: 'selectedOptionId', description: 'ID da opção escolhida pelo contato' },
+          { name: 'selectedOptionTitle', description: 'Título da opção escolhida pelo contato' },
+        );
+      }
 
-    // Obter todos os nós anteriores ao nó atual
-    const previousNodes = getPreviousNodes(node.id);
+      if (['waitreply', 'condition'].includes(prevNode.data?.nodeType)) {
+        variables.push(
+          { name: 'lastReplyType', description: 'Tipo da última resposta (text, image, audio, location...)' },
+          { name: 'lastMediaUrl', description: 'Link do arquivo enviado pelo contato' },
+          { name: 'lastMediaMimetype', description: 'Formato do arquivo (ex: image/jpeg)' },
+          { name: 'lastMediaFileName', description: 'Nome do arquivo enviado' },
+          { name: 'lastLatitude', description: 'Latitude da localização enviada' },
+          { name: 'lastLongitude', description: 'Longitude da localização enviada' },
+        );
+      }
 
-    // Extrair variáveis de nós HTTP REST anteriores
-    previousNodes.forEach(prevNode => {
       if (prevNode.data?.nodeType === 'httprest') {
         const prevConfig = prevNode.data?.config;
         if (prevConfig?.variableMappings && Array.isArray(prevConfig.variableMappings)) {
@@ -1843,7 +2458,8 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
       }
     });
 
-    return variables;
+    // Vários nós anteriores podem oferecer a mesma variável
+    return variables.filter((variable, index) => variables.findIndex(other => other.name === variable.name) === index);
   };
 
   // Função para adicionar mapeamento de variável
@@ -2279,6 +2895,9 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
         <p className="text-xs text-blue-700">
           💡 <strong>Dica:</strong> Teste a API primeiro, depois mapeie os campos que você quer usar como variáveis nos próximos nós do fluxo.
         </p>
+        <p className="text-xs text-blue-700 mt-2">
+          🔀 URL, headers e body aceitam {'{{variavel}}'}. Conecte a saída <strong className="text-green-700">verde</strong> para sucesso (2xx) e a <strong className="text-red-700">vermelha</strong> para erro. O status fica em {'{{lastHttpStatus}}'}.
+        </p>
       </div>
     </div>
   );
@@ -2578,6 +3197,12 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
       audio: '🎵',
       document: '📄',
       ai: '🤖',
+      buttons: '🔘',
+      list: '📋',
+      poll: '📊',
+      location: '📍',
+      contact: '👤',
+      reaction: '👍',
       action: '🚀',
       condition: '❓',
       delay: '⏱️',
@@ -2599,6 +3224,12 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
       audio: 'Áudio',
       document: 'Arquivo',
       ai: 'IA',
+      buttons: 'Botões',
+      list: 'Lista',
+      poll: 'Enquete',
+      location: 'Localização',
+      contact: 'Contato',
+      reaction: 'Reação',
       action: 'Ação',
       condition: 'Condição',
       delay: 'Delay',
@@ -2627,6 +3258,18 @@ export function NodeConfigSidebar({ node, nodes, edges, connections, categories
         return renderDocumentConfig();
       case 'ai':
         return renderAIConfig();
+      case 'buttons':
+        return renderButtonsConfig();
+      case 'list':
+        return renderListConfig();
+      case 'poll':
+        return renderPollConfig();
+      case 'location':
+        return renderLocationConfig();
+      case 'contact':
+        return renderContactConfig();
+      case 'reaction':
+        return renderReactionConfig();
       case 'condition':
         return renderConditionConfig();
       case 'delay':
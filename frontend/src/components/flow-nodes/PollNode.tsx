@@ -0,0 +1,27 @@
+import { memo } from 'react';
+import { NodeProps } from 'reactflow';
+import { BaseNode } from './BaseNode';
+
+export const PollNode = memo((props: NodeProps) => {
+  const getDescription = () => {
+    const question = props.data.config?.text;
+    if (question) {
+      return question.substring(0, 30) + (question.length > 30 ? '...' : '');
+    }
+
+    return 'Configure a enquete';
+  };
+
+  return (
+    <BaseNode
+      {...props}
+      icon="📊"
+      label="Enquete"
+      color="#6366f1"
+      description={getDescription()}
+      onDelete={props.data.onDelete}
+    />
+  );
+});
+
+PollNode.displayName = 'PollNode';
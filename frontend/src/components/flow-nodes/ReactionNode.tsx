@@ -0,0 +1,27 @@
+import { memo } from 'react';
+import { NodeProps } from 'reactflow';
+import { BaseNode } from './BaseNode';
+
+export const ReactionNode = memo((props: NodeProps) => {
+  const getDescription = () => {
+    const emoji = props.data.config?.emoji;
+    if (emoji) {
+      return `Reagir com ${emoji}`;
+    }
+
+    return 'Escolha o emoji';
+  };
+
+  return (
+    <BaseNode
+      {...props}
+      icon="👍"
+      label="Reação"
+      color="#f97316"
+      description={getDescription()}
+      onDelete={props.data.onDelete}
+    />
+  );
+});
+
+ReactionNode.displayName = 'ReactionNode';
@@ -1,23 +1,50 @@
 import { memo } from 'react';
 import { NodeProps } from 'reactflow';
-import { BaseNode } from './BaseNode';
+import { BaseNode, BaseNodeOutput } from './BaseNode';
+
+// Saída seguida quando o contato não responde dentro do timeout
+const NO_REPLY_OUTPUTS: BaseNodeOutput[] = [
+  { id: 'timeout', title: 'Sem resposta (timeout)', className: '!bg-orange-500' },
+];
+
+const REPLY_TYPE_LABELS: Record<string, string> = {
+  text: 'texto',
+  media: 'arquivos',
+  image: 'imagem',
+  audio: 'áudio',
+  video: 'vídeo',
+  document: 'documento',
+  sticker: 'figurinha',
+  location: 'localização',
+  contact: 'contato',
+};
 
 export const WaitReplyNode = memo((props: NodeProps) => {
   const getDescription = () => {
-    const { variableName, timeoutValue, timeoutUnit } = props.data.config || {};
+    const { variableName, timeoutValue, timeoutUnit, reminderCount, reminderMessage, requiredReplyType } = props.data.config || {};
 
     const parts: string[] = [];
 
+    if (requiredReplyType) {
+      parts.push(`Somente ${REPLY_TYPE_LABELS[requiredReplyType] || requiredReplyType}`);
+    }
+
     if (variableName) {
       parts.push(`Salva em {${variableName}}`);
     }
 
-    if (timeoutValue && timeoutUnit) {
+    if (timeoutValue) {
       const labels: Record<string, string> = {
+        minutes: 'minuto(s)',
         hours: 'hora(s)',
         days: 'dia(s)',
       };
-      parts.push(`Timeout: ${timeoutValue} ${labels[timeoutUnit] || timeoutUnit}`);
+      const unit = timeoutUnit || 'hours';
+      parts.push(`Timeout: ${timeoutValue} ${labels[unit] || unit}`);
+
+      if (String(reminderMessage || '').trim() && reminderCount > 0) {
+        parts.push(`${reminderCount} lembrete(s)`);
+      }
     }
 
     return parts.length > 0 ? parts.join(' · ') : 'Aguarda qualquer resposta';
@@ -31,6 +58,7 @@ export const WaitReplyNode = memo((props: NodeProps) => {
       color="#f59e0b"
       description={getDescription()}
       onDelete={props.data.onDelete}
+      extraOutputs={props.data.config?.timeoutValue ? NO_REPLY_OUTPUTS : undefined}
     />
   );
 });
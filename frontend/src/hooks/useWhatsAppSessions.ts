@@ -2,17 +2,22 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import toast from 'react-hot-toast';
 import { useTenant } from '../contexts/TenantContext';
 
+export type WhatsAppProviderName = 'WAHA' | 'EVOLUTION' | 'QUEPASA' | 'CLOUD_API' | 'SANDBOX';
+
 export interface WhatsAppSession {
   name: string;
   displayName?: string;
   status: 'WORKING' | 'SCAN_QR_CODE' | 'STOPPED' | 'FAILED';
-  provider: 'WAHA' | 'EVOLUTION' | 'QUEPASA';
+  provider: WhatsAppProviderName;
   qr?: string;
   qrExpiresAt?: Date;
   me?: {
     id: string;
     pushName: string;
   };
+  healthScore?: number;
+  healthStatus?: 'HEALTHY' | 'DEGRADED' | 'UNHEALTHY';
+  quarantinedUntil?: Date;
 }
 
 interface UseWhatsAppSessionsOptions {
@@ -29,6 +34,9 @@ function processSession(session: any): WhatsAppSession {
     me: session.me || null,
     qr: session.qr || null,
     qrExpiresAt: session.qrExpiresAt ? new Date(session.qrExpiresAt) : undefined,
+    healthScore: session.healthScore,
+    healthStatus: session.healthStatus,
+    quarantinedUntil: session.quarantinedUntil ? new Date(session.quarantinedUntil) : undefined,
   };
 }
 
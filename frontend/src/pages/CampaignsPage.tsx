@@ -2,6 +2,10 @@ import { useState, useEffect } from 'react';
 import toast from 'react-hot-toast';
 import { Header } from '../components/Header';
 import { Portal } from '../components/Portal';
+import { SendingWindowEditor, DEFAULT_SENDING_WINDOW } from '../components/SendingWindowEditor';
+import { RecurringCampaignsModal } from '../components/RecurringCampaignsModal';
+import { SendingWindow, SendingWindowStatus, RecurrenceScheduleType, FailureClass, RetryPolicy, CampaignFailureSummary, ExperimentConfig, WinnerMetric, CampaignExperimentReport } from '../types';
+import { apiService } from '../services/api';
 
 type MessageContent =
   | { text: string }
@@ -21,6 +25,7 @@ interface Campaign {
   startImmediately: boolean;
   scheduledFor: string | null;
   status: string;
+  pauseReason?: string | null;
   totalContacts: number;
   sentCount: number;
   failedCount: number;
@@ -40,6 +45,44 @@ interface Campaign {
   };
 }
 
+const FAILURE_CLASS_LABELS: Record<FailureClass | 'UNCLASSIFIED', string> = {
+  INVALID_NUMBER: 'Número inválido',
+  PROVIDER_TIMEOUT: 'Timeout do provedor',
+  SESSION_DISCONNECTED: 'Sessão desconectada',
+  MEDIA_FETCH_ERROR: 'Erro ao baixar mídia',
+  AI_GENERATION_ERROR: 'Erro na geração por IA',
+  PROVIDER_ERROR: 'Erro do provedor',
+  DUPLICATE_CONTACT: 'Contato duplicado',
+  SERVICE_WINDOW_CLOSED: 'Janela de 24h fechada',
+  UNCLASSIFIED: 'Não classificada',
+};
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  backoffSeconds: 30,
+  backoffMaxSeconds: 1800,
+  retryableClasses: ['PROVIDER_TIMEOUT', 'SESSION_DISCONNECTED', 'MEDIA_FETCH_ERROR', 'AI_GENERATION_ERROR', 'PROVIDER_ERROR'],
+};
+
+const WINNER_METRIC_LABELS: Record<WinnerMetric, string> = {
+  DELIVERED: 'Maior taxa de entrega',
+  READ: 'Maior taxa de leitura',
+  REPLIED: 'Maior taxa de resposta',
+  OPTED_OUT: 'Menor taxa de descadastro',
+};
+
+interface VariantDraft {
+  name: string;
+  weight: number;
+  sequence: Array<{ type: string; content: any }>;
+}
+
+// Uma mensagem é enviada com o próprio tipo; mais de uma vira sequência
+const toCampaignMessage = (sequence: Array<{ type: string; content: any }>) =>
+  sequence.length > 1
+    ? { messageType: 'sequence', messageContent: { sequence } }
+    : { messageType: sequence[0].type, messageContent: sequence[0].content };
+
 interface WhatsAppSession {
   name: string; // Nome real usado na API
   displayName?: string; // Nome exibido ao usuário
@@ -82,6 +125,23 @@ export function CampaignsPage() {
     startImmediately: true,
     scheduledFor: ''
   });
+  const [windowMode, setWindowMode] = useState<'TENANT' | 'CUSTOM' | 'NONE'>('TENANT');
+  const [sendingWindow, setSendingWindow] = useState<SendingWindow>(DEFAULT_SENDING_WINDOW);
+  const [customRetryPolicy, setCustomRetryPolicy] = useState(false);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  const [retryingFailed, setRetryingFailed] = useState(false);
+  const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>([]);
+  const [testPhaseEnabled, setTestPhaseEnabled] = useState(false);
+  const [experimentConfig, setExperimentConfig] = useState<ExperimentConfig>({ testPercentage: 20, waitMinutes: 60, winnerMetric: 'READ' });
+  const [showRecurringModal, setShowRecurringModal] = useState(false);
+  const [recurring, setRecurring] = useState(false);
+  const [recurrence, setRecurrence] = useState({
+    scheduleType: 'CRON' as RecurrenceScheduleType,
+    scheduleExpression: '0 9 * * 1',
+    startDate: '',
+    endDate: ''
+  });
+  const [recurrencePreview, setRecurrencePreview] = useState<string[]>([]);
 
   useEffect(() => {
     loadCampaigns();
@@ -199,26 +259,29 @@ export function CampaignsPage() {
       return;
     }
 
-    if (!('sequence' in formData.messageContent) || formData.messageContent.sequence.length === 0) {
+    const currentSequence = ('sequence' in formData.messageContent) ? formData.messageContent.sequence : [];
+
+    // Teste A/B (não disponível em recorrentes): a mensagem em edição também entra como variante
+    const variants = recurring
+      ? []
+      : variantDrafts.length > 0 && currentSequence.length > 0
+      ? [...variantDrafts, { name: `Variante ${String.fromCharCode(65 + variantDrafts.length)}`, weight: 1, sequence: currentSequence }]
+      : variantDrafts;
+
+    if (variants.length === 1) {
+      toast.error('O teste A/B precisa de pelo menos duas variantes');
+      return;
+    }
+
+    if (variants.length === 0 && currentSequence.length === 0) {
       toast.error('Adicione pelo menos uma mensagem à campanha');
       return;
     }
 
     try {
-      const sequence = formData.messageContent.sequence;
-      const isSequence = sequence.length > 1;
-
-      let finalMessageType: string;
-      let finalMessageContent: any;
-
-      if (isSequence) {
-        finalMessageType = 'sequence';
-        finalMessageContent = { sequence };
-      } else {
-        const singleMessage = sequence[0];
-        finalMessageType = singleMessage.type;
-        finalMessageContent = singleMessage.content;
-      }
+      // Com variantes, a primeira também é o conteúdo padrão da campanha
+      const { messageType: finalMessageType, messageContent: finalMessageContent } =
+        toCampaignMessage(variants.length > 0 ? variants[0].sequence : currentSequence);
 
       // Converter scheduledFor de datetime-local para ISO string
       let scheduledForISO = null;
@@ -236,13 +299,38 @@ export function CampaignsPage() {
         ...formData,
         messageType: finalMessageType,
         messageContent: finalMessageContent,
-        scheduledFor: scheduledForISO
+        scheduledFor: scheduledForISO,
+        // null = herda a janela padrão da organização
+        sendingWindow: windowMode === 'TENANT' ? null : { ...sendingWindow, enabled: windowMode === 'CUSTOM' },
+        // null = política padrão (5 tentativas, falhas de provedor/sessão/mídia/IA retentáveis)
+        retryPolicy: customRetryPolicy ? retryPolicy : null,
+        variants: variants.map(variant => ({ name: variant.name, weight: variant.weight, ...toCampaignMessage(variant.sequence) })),
+        experiment: variants.length > 0 && testPhaseEnabled ? experimentConfig : null
       };
 
-      const response = await authenticatedFetch('/api/campaigns', {
-        method: 'POST',
-        body: JSON.stringify(campaignData)
-      });
+      // Recorrente: salva a definição; cada ocorrência cria uma campanha nova
+      const response = recurring
+        ? await authenticatedFetch('/api/recurring-campaigns', {
+          method: 'POST',
+          body: JSON.stringify({
+            nome: campaignData.nome,
+            targetTags: campaignData.targetTags,
+            sessionNames: campaignData.sessionNames,
+            messageType: campaignData.messageType,
+            messageContent: campaignData.messageContent,
+            randomDelay: campaignData.randomDelay,
+            sendingWindow: campaignData.sendingWindow,
+            scheduleType: recurrence.scheduleType,
+            scheduleExpression: recurrence.scheduleExpression,
+            timezone: sendingWindow.timezone,
+            startDate: recurrence.startDate ? new Date(recurrence.startDate).toISOString() : undefined,
+            endDate: recurrence.endDate ? new Date(recurrence.endDate).toISOString() : null
+          })
+        })
+        : await authenticatedFetch('/api/campaigns', {
+          method: 'POST',
+          body: JSON.stringify(campaignData)
+        });
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -256,7 +344,7 @@ export function CampaignsPage() {
         }
       }
 
-      toast.success('Campanha criada com sucesso!');
+      toast.success(recurring ? 'Campanha recorrente criada com sucesso!' : 'Campanha criada com sucesso!');
       setShowCreateModal(false);
       resetForm();
       loadCampaigns();
@@ -278,11 +366,40 @@ export function CampaignsPage() {
       startImmediately: true,
       scheduledFor: ''
     });
+    setWindowMode('TENANT');
+    setSendingWindow(DEFAULT_SENDING_WINDOW);
+    setCustomRetryPolicy(false);
+    setRetryPolicy(DEFAULT_RETRY_POLICY);
+    setVariantDrafts([]);
+    setTestPhaseEnabled(false);
+    setExperimentConfig({ testPercentage: 20, waitMinutes: 60, winnerMetric: 'READ' });
+    setRecurring(false);
+    setRecurrence({ scheduleType: 'CRON', scheduleExpression: '0 9 * * 1', startDate: '', endDate: '' });
+    setRecurrencePreview([]);
     setUploadingFiles({});
     setFileInfos({});
     setDraggedIndex(null);
   };
 
+  const handlePreviewRecurrence = async () => {
+    try {
+      const result = await apiService.previewRecurrence({
+        scheduleType: recurrence.scheduleType,
+        scheduleExpression: recurrence.scheduleExpression,
+        timezone: sendingWindow.timezone,
+        startDate: recurrence.startDate ? new Date(recurrence.startDate).toISOString() : undefined,
+        endDate: recurrence.endDate ? new Date(recurrence.endDate).toISOString() : null
+      });
+      setRecurrencePreview(result.occurrences);
+      if (result.occurrences.length === 0) {
+        toast.error('A recorrência não tem próximas ocorrências');
+      }
+    } catch (error) {
+      setRecurrencePreview([]);
+      toast.error(error instanceof Error ? error.message : 'Expressão de recorrência inválida');
+    }
+  };
+
   const handleDragStart = (index: number) => {
     setDraggedIndex(index);
   };
@@ -521,6 +638,59 @@ export function CampaignsPage() {
     }
   };
 
+  const handleRetryFailed = async () => {
+    if (!currentReportCampaignId) return;
+
+    setRetryingFailed(true);
+    try {
+      const response = await authenticatedFetch(`/api/campaigns/${currentReportCampaignId}/retry-failed`, {
+        method: 'POST'
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      toast.success(data.message);
+      await handleRefreshReport();
+      loadCampaigns();
+    } catch (error) {
+      console.error('Erro ao reenviar falhas:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao reenviar falhas');
+    } finally {
+      setRetryingFailed(false);
+    }
+  };
+
+  // Guarda a mensagem em edição como variante e limpa o editor para a próxima
+  const handleSaveVariant = () => {
+    const currentSequence = ('sequence' in formData.messageContent) ? formData.messageContent.sequence : [];
+    if (currentSequence.length === 0) {
+      toast.error('Monte a mensagem da variante antes de salvá-la');
+      return;
+    }
+
+    setVariantDrafts([...variantDrafts, { name: `Variante ${String.fromCharCode(65 + variantDrafts.length)}`, weight: 1, sequence: currentSequence }]);
+    setFormData(prev => ({ ...prev, messageContent: { sequence: [] } }));
+  };
+
+  const handleEditVariant = (index: number) => {
+    setFormData(prev => ({ ...prev, messageContent: { sequence: variantDrafts[index].sequence } }));
+    setVariantDrafts(variantDrafts.filter((_, i) => i !== index));
+  };
+
+  const updateVariantDraft = (index: number, changes: Partial<VariantDraft>) => {
+    setVariantDrafts(variantDrafts.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const toggleRetryableClass = (failureClass: FailureClass) => {
+    const retryableClasses = retryPolicy.retryableClasses.includes(failureClass)
+      ? retryPolicy.retryableClasses.filter(c => c !== failureClass)
+      : [...retryPolicy.retryableClasses, failureClass];
+    setRetryPolicy({ ...retryPolicy, retryableClasses });
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'PENDING':
@@ -697,12 +867,20 @@ export function CampaignsPage() {
         title="Campanhas"
         subtitle={`${campaigns.length} campanhas ativas`}
         actions={
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="btn-primary"
-          >
-            + Nova Campanha
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setShowRecurringModal(true)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium transition-colors"
+            >
+              🔁 Recorrentes
+            </button>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="btn-primary"
+            >
+              + Nova Campanha
+            </button>
+          </div>
         }
       />
 
@@ -727,6 +905,11 @@ export function CampaignsPage() {
                       <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(campaign.status)}`}>
                         {getStatusText(campaign.status)}
                       </span>
+                      {campaign.status === 'PAUSED' && campaign.pauseReason === 'NO_HEALTHY_SESSION' && (
+                        <span className="text-xs text-orange-600 truncate" title="A campanha será retomada automaticamente quando uma das sessões voltar a ficar disponível">
+                          Aguardando sessão disponível
+                        </span>
+                      )}
                     </div>
 
                     {/* Informações essenciais */}
@@ -982,8 +1165,11 @@ export function CampaignsPage() {
                         <label className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-gray-50 cursor-pointer">
                           <input
                             type="radio"
-                            checked={formData.startImmediately}
-                            onChange={() => setFormData(prev => ({ ...prev, startImmediately: true }))}
+                            checked={formData.startImmediately && !recurring}
+                            onChange={() => {
+                              setRecurring(false);
+                              setFormData(prev => ({ ...prev, startImmediately: true }));
+                            }}
                             className="text-blue-600 focus:ring-blue-500"
                           />
                           <div>
@@ -994,8 +1180,11 @@ export function CampaignsPage() {
                         <label className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-gray-50 cursor-pointer">
                           <input
                             type="radio"
-                            checked={!formData.startImmediately}
-                            onChange={() => setFormData(prev => ({ ...prev, startImmediately: false }))}
+                            checked={!formData.startImmediately && !recurring}
+                            onChange={() => {
+                              setRecurring(false);
+                              setFormData(prev => ({ ...prev, startImmediately: false }));
+                            }}
                             className="text-blue-600 focus:ring-blue-500"
                           />
                           <div>
@@ -1003,17 +1192,196 @@ export function CampaignsPage() {
                             <p className="text-xs text-gray-500">Escolha data e hora específicas</p>
                           </div>
                         </label>
-                        {!formData.startImmediately && (
+                        {!formData.startImmediately && !recurring && (
                           <input
                             type="datetime-local"
                             value={formData.scheduledFor}
                             onChange={(e) => setFormData(prev => ({ ...prev, scheduledFor: e.target.value }))}
                             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ml-6"
-                            required={!formData.startImmediately}
+                            required={!formData.startImmediately && !recurring}
                           />
                         )}
+                        <label className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-gray-50 cursor-pointer">
+                          <input
+                            type="radio"
+                            checked={recurring}
+                            onChange={() => setRecurring(true)}
+                            className="text-blue-600 focus:ring-blue-500"
+                          />
+                          <div>
+                            <span className="text-sm font-medium text-gray-700">🔁 Recorrente</span>
+                            <p className="text-xs text-gray-500">Cria uma nova execução a cada ocorrência (cron ou RRULE)</p>
+                          </div>
+                        </label>
+                        {recurring && (
+                          <div className="ml-6 space-y-3 p-3 border rounded-lg">
+                            <div className="flex gap-2">
+                              <select
+                                value={recurrence.scheduleType}
+                                onChange={(e) => {
+                                  const scheduleType = e.target.value as RecurrenceScheduleType;
+                                  setRecurrence(prev => ({
+                                    ...prev,
+                                    scheduleType,
+                                    scheduleExpression: scheduleType === 'CRON' ? '0 9 * * 1' : 'FREQ=WEEKLY;BYDAY=MO;BYHOUR=9;BYMINUTE=0'
+                                  }));
+                                  setRecurrencePreview([]);
+                                }}
+                                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                              >
+                                <option value="CRON">Cron</option>
+                                <option value="RRULE">RRULE</option>
+                              </select>
+                              <input
+                                type="text"
+                                value={recurrence.scheduleExpression}
+                                onChange={(e) => {
+                                  setRecurrence(prev => ({ ...prev, scheduleExpression: e.target.value }));
+                                  setRecurrencePreview([]);
+                                }}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                                required={recurring}
+                              />
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              {recurrence.scheduleType === 'CRON'
+                                ? 'minuto hora dia mês dia-da-semana (ex.: 0 9 * * 1 = segundas às 9h)'
+                                : 'FREQ=DAILY|WEEKLY|MONTHLY com INTERVAL, BYDAY, BYMONTHDAY, BYHOUR, BYMINUTE, COUNT, UNTIL'}
+                              {' '}· Fuso: {sendingWindow.timezone}
+                            </p>
+                            <div className="grid grid-cols-2 gap-2">
+                              <div>
+                                <span className="block text-xs text-gray-600 mb-1">Início</span>
+                                <input
+                                  type="datetime-local"
+                                  value={recurrence.startDate}
+                                  onChange={(e) => setRecurrence(prev => ({ ...prev, startDate: e.target.value }))}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                                />
+                              </div>
+                              <div>
+                                <span className="block text-xs text-gray-600 mb-1">Fim (opcional)</span>
+                                <input
+                                  type="datetime-local"
+                                  value={recurrence.endDate}
+                                  onChange={(e) => setRecurrence(prev => ({ ...prev, endDate: e.target.value }))}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                                />
+                              </div>
+                            </div>
+                            <button
+                              type="button"
+                              onClick={handlePreviewRecurrence}
+                              className="text-sm text-blue-600 hover:text-blue-800"
+                            >
+                              Ver próximas ocorrências
+                            </button>
+                            {recurrencePreview.length > 0 && (
+                              <ul className="text-xs text-gray-700 list-disc ml-4">
+                                {recurrencePreview.map(occurrence => (
+                                  <li key={occurrence}>{new Date(occurrence).toLocaleString('pt-BR')}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
+
+                    {/* Janela de Envio */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Janela de Envio
+                      </label>
+                      <select
+                        value={windowMode}
+                        onChange={(e) => setWindowMode(e.target.value as 'TENANT' | 'CUSTOM' | 'NONE')}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="TENANT">Usar padrão da organização</option>
+                        <option value="CUSTOM">Definir janela para esta campanha</option>
+                        <option value="NONE">Sem restrição de horário</option>
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        🌙 Fora da janela os envios ficam em espera e retomam automaticamente na próxima abertura
+                      </p>
+                      {windowMode === 'CUSTOM' && (
+                        <div className="mt-3 p-3 border rounded-lg">
+                          <SendingWindowEditor value={sendingWindow} onChange={setSendingWindow} />
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Política de Retentativa */}
+                    {!recurring && (
+                      <div>
+                        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={customRetryPolicy}
+                            onChange={(e) => setCustomRetryPolicy(e.target.checked)}
+                          />
+                          Personalizar política de retentativa
+                        </label>
+                        <p className="text-xs text-gray-500 mt-1">
+                          🔁 Padrão: até {DEFAULT_RETRY_POLICY.maxAttempts} tentativas; número inválido e contato duplicado não são reenviados
+                        </p>
+                        {customRetryPolicy && (
+                          <div className="mt-3 p-3 border rounded-lg space-y-3">
+                            <div className="grid grid-cols-3 gap-3">
+                              <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">Tentativas</label>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={20}
+                                  value={retryPolicy.maxAttempts}
+                                  onChange={(e) => setRetryPolicy({ ...retryPolicy, maxAttempts: parseInt(e.target.value, 10) || 1 })}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">Espera inicial (s)</label>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  value={retryPolicy.backoffSeconds}
+                                  onChange={(e) => setRetryPolicy({ ...retryPolicy, backoffSeconds: parseInt(e.target.value, 10) || 1 })}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-xs font-medium text-gray-600 mb-1">Espera máxima (s)</label>
+                                <input
+                                  type="number"
+                                  min={1}
+                                  value={retryPolicy.backoffMaxSeconds}
+                                  onChange={(e) => setRetryPolicy({ ...retryPolicy, backoffMaxSeconds: parseInt(e.target.value, 10) || 1 })}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                                />
+                              </div>
+                            </div>
+                            <div>
+                              <span className="block text-xs font-medium text-gray-600 mb-1">Reenviar automaticamente quando a falha for:</span>
+                              <div className="grid grid-cols-2 gap-1">
+                                {(Object.keys(FAILURE_CLASS_LABELS) as Array<FailureClass | 'UNCLASSIFIED'>)
+                                  .filter((c): c is FailureClass => c !== 'UNCLASSIFIED')
+                                  .map(failureClass => (
+                                    <label key={failureClass} className="flex items-center gap-2 text-sm text-gray-700">
+                                      <input
+                                        type="checkbox"
+                                        checked={retryPolicy.retryableClasses.includes(failureClass)}
+                                        onChange={() => toggleRetryableClass(failureClass)}
+                                      />
+                                      {FAILURE_CLASS_LABELS[failureClass]}
+                                    </label>
+                                  ))}
+                              </div>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   {/* COLUNA DIREITA - Mensagens */}
@@ -1125,6 +1493,23 @@ export function CampaignsPage() {
                                       case 'wait':
                                         newContent = { waitTime: 30 };
                                         break;
+                                      case 'template':
+                                        newContent = { template: { name: '', language: 'pt_BR', parameters: [] } };
+                                        break;
+                                      case 'buttons':
+                                      case 'list':
+                                      case 'poll':
+                                        newContent = { text: '', options: [{ id: 'opt_1', title: '' }, { id: 'opt_2', title: '' }] };
+                                        break;
+                                      case 'location':
+                                        newContent = { latitude: '', longitude: '', locationName: '', address: '' };
+                                        break;
+                                      case 'contact':
+                                        newContent = { contactName: '', contactPhone: '' };
+                                        break;
+                                      case 'reaction':
+                                        newContent = { emoji: '👍' };
+                                        break;
                                       default:
                                         newContent = { url: '', caption: '' };
                                         break;
@@ -1149,6 +1534,13 @@ export function CampaignsPage() {
                                   <option value="openai">🤖 OpenAI</option>
                                   <option value="groq">⚡ Groq AI</option>
                                   <option value="wait">⏱️ Espera</option>
+                                  <option value="template">📋 Template (Cloud API)</option>
+                                  <option value="buttons">🔘 Botões</option>
+                                  <option value="list">📋 Lista de opções</option>
+                                  <option value="poll">📊 Enquete</option>
+                                  <option value="location">📍 Localização</option>
+                                  <option value="contact">👤 Contato</option>
+                                  <option value="reaction">👍 Reação</option>
                                 </select>
 
                                 {item.type === 'text' && (
@@ -2037,6 +2429,182 @@ export function CampaignsPage() {
                                   </div>
                                 )}
 
+                                {item.type === 'template' && (
+                                  <div className="space-y-3 bg-emerald-50 border border-emerald-200 rounded-lg p-4">
+                                    <p className="text-xs text-emerald-700">
+                                      Template aprovado pela Meta, exigido pela WhatsApp Cloud API para contatos fora da janela de 24h.
+                                      Os parâmetros preenchem {'{{1}}'}, {'{{2}}'}... do corpo e aceitam variáveis como {'{{nome}}'}.
+                                    </p>
+                                    {(() => {
+                                      const template = item.content.template || { name: '', language: 'pt_BR', parameters: [] };
+                                      const updateTemplate = (changes: Record<string, any>) => {
+                                        const currentSequence = ('sequence' in formData.messageContent) ? formData.messageContent.sequence : [];
+                                        const newSequence = currentSequence.map((seqItem, i) =>
+                                          i === index ? { ...seqItem, content: { template: { ...template, ...changes } } } : seqItem
+                                        );
+                                        setFormData(prev => ({
+                                          ...prev,
+                                          messageContent: { sequence: newSequence }
+                                        }));
+                                      };
+
+                                      return (
+                                        <>
+                                          <div className="grid grid-cols-3 gap-3">
+                                            <input
+                                              type="text"
+                                              value={template.name}
+                                              onChange={(e) => updateTemplate({ name: e.target.value })}
+                                              placeholder="Nome do template"
+                                              className="col-span-2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                            />
+                                            <input
+                                              type="text"
+                                              value={template.language}
+                                              onChange={(e) => updateTemplate({ language: e.target.value })}
+                                              placeholder="pt_BR"
+                                              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                            />
+                                          </div>
+                                          <textarea
+                                            value={(template.parameters || []).join('\n')}
+                                            onChange={(e) => updateTemplate({ parameters: e.target.value.split('\n') })}
+                                            placeholder="Um parâmetro por linha (ex: {{nome}})"
+                                            rows={3}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                          />
+                                        </>
+                                      );
+                                    })()}
+                                  </div>
+                                )}
+
+                                {['buttons', 'list', 'poll', 'location', 'contact', 'reaction'].includes(item.type) && (
+                                  <div className="space-y-3 bg-teal-50 border border-teal-200 rounded-lg p-4">
+                                    {(() => {
+                                      const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+                                      const options: Array<{ id: string; title: string; description?: string }> = item.content.options || [];
+                                      const updateContent = (changes: Record<string, any>) => {
+                                        const currentSequence = ('sequence' in formData.messageContent) ? formData.messageContent.sequence : [];
+                                        const newSequence = currentSequence.map((seqItem, i) =>
+                                          i === index ? { ...seqItem, content: { ...seqItem.content, ...changes } } : seqItem
+                                        );
+                                        setFormData(prev => ({
+                                          ...prev,
+                                          messageContent: { sequence: newSequence }
+                                        }));
+                                      };
+                                      const updateOption = (optionIndex: number, changes: Record<string, string>) =>
+                                        updateContent({ options: options.map((option, i) => (i === optionIndex ? { ...option, ...changes } : option)) });
+
+                                      if (item.type === 'location') {
+                                        return (
+                                          <>
+                                            <div className="grid grid-cols-2 gap-3">
+                                              <input type="number" step="any" value={item.content.latitude ?? ''} onChange={(e) => updateContent({ latitude: e.target.value })} placeholder="Latitude" className={inputClass} />
+                                              <input type="number" step="any" value={item.content.longitude ?? ''} onChange={(e) => updateContent({ longitude: e.target.value })} placeholder="Longitude" className={inputClass} />
+                                            </div>
+                                            <input type="text" value={item.content.locationName || ''} onChange={(e) => updateContent({ locationName: e.target.value })} placeholder="Nome do local (opcional)" className={inputClass} />
+                                            <input type="text" value={item.content.address || ''} onChange={(e) => updateContent({ address: e.target.value })} placeholder="Endereço (opcional)" className={inputClass} />
+                                          </>
+                                        );
+                                      }
+
+                                      if (item.type === 'contact') {
+                                        return (
+                                          <>
+                                            <input type="text" value={item.content.contactName || ''} onChange={(e) => updateContent({ contactName: e.target.value })} placeholder="Nome do contato" className={inputClass} />
+                                            <input type="text" value={item.content.contactPhone || ''} onChange={(e) => updateContent({ contactPhone: e.target.value })} placeholder="Telefone com DDI (ex: 5511999999999)" className={inputClass} />
+                                            <div className="grid grid-cols-2 gap-3">
+                                              <input type="text" value={item.content.organization || ''} onChange={(e) => updateContent({ organization: e.target.value })} placeholder="Empresa (opcional)" className={inputClass} />
+                                              <input type="email" value={item.content.email || ''} onChange={(e) => updateContent({ email: e.target.value })} placeholder="Email (opcional)" className={inputClass} />
+                                            </div>
+                                          </>
+                                        );
+                                      }
+
+                                      if (item.type === 'reaction') {
+                                        return (
+                                          <>
+                                            <input type="text" value={item.content.emoji || ''} onChange={(e) => updateContent({ emoji: e.target.value })} placeholder="Emoji" className="w-24 px-3 py-2 border border-gray-300 rounded-md text-center text-xl" />
+                                            <p className="text-xs text-teal-700">
+                                              Reage à última mensagem recebida do contato; sem mensagem recebida o envio falha para esse contato.
+                                            </p>
+                                          </>
+                                        );
+                                      }
+
+                                      return (
+                                        <>
+                                          <textarea
+                                            value={item.content.text || ''}
+                                            onChange={(e) => updateContent({ text: e.target.value })}
+                                            placeholder={item.type === 'poll' ? 'Pergunta da enquete' : 'Mensagem (aceita variáveis como {{nome}})'}
+                                            rows={3}
+                                            className={inputClass}
+                                          />
+                                          {item.type === 'list' && (
+                                            <input type="text" value={item.content.buttonText || ''} onChange={(e) => updateContent({ buttonText: e.target.value })} placeholder="Texto do botão da lista (ex: Ver opções)" className={inputClass} />
+                                          )}
+                                          {options.map((option, optionIndex) => (
+                                            <div key={optionIndex} className="flex gap-2">
+                                              <input
+                                                type="text"
+                                                value={option.title}
+                                                onChange={(e) => updateOption(optionIndex, { title: e.target.value })}
+                                                placeholder={`Opção ${optionIndex + 1}`}
+                                                className={inputClass}
+                                              />
+                                              {item.type === 'list' && (
+                                                <input
+                                                  type="text"
+                                                  value={option.description || ''}
+                                                  onChange={(e) => updateOption(optionIndex, { description: e.target.value })}
+                                                  placeholder="Descrição"
+                                                  className={inputClass}
+                                                />
+                                              )}
+                                              <button
+                                                type="button"
+                                                onClick={() => updateContent({ options: options.filter((_, i) => i !== optionIndex) })}
+                                                className="text-red-600 hover:text-red-800 px-2"
+                                              >
+                                                ✕
+                                              </button>
+                                            </div>
+                                          ))}
+                                          <div className="flex items-center justify-between">
+                                            <button
+                                              type="button"
+                                              onClick={() => {
+                                                let next = options.length + 1;
+                                                while (options.some(option => option.id === `opt_${next}`)) next++;
+                                                updateContent({ options: [...options, { id: `opt_${next}`, title: '' }] });
+                                              }}
+                                              className="text-sm text-teal-700 hover:text-teal-900"
+                                            >
+                                              + Adicionar opção
+                                            </button>
+                                            {item.type === 'poll' && (
+                                              <label className="flex items-center gap-2 text-sm text-gray-700">
+                                                <input
+                                                  type="checkbox"
+                                                  checked={(item.content.selectableCount || 1) > 1}
+                                                  onChange={(e) => updateContent({ selectableCount: e.target.checked ? options.length : 1 })}
+                                                />
+                                                Várias respostas
+                                              </label>
+                                            )}
+                                          </div>
+                                          <p className="text-xs text-teal-700">
+                                            Conexões sem suporte nativo recebem as opções numeradas em texto.
+                                          </p>
+                                        </>
+                                      );
+                                    })()}
+                                  </div>
+                                )}
+
                                 {item.type === 'wait' && (
                                   <div className="space-y-3">
                                     <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
@@ -2094,6 +2662,111 @@ export function CampaignsPage() {
                         </div>
                       </div>
                     </div>
+
+                    {/* Teste A/B */}
+                    {!recurring && (
+                      <div className="border rounded-lg p-4 space-y-3">
+                        <div className="flex justify-between items-center">
+                          <div>
+                            <h4 className="text-sm font-semibold text-gray-900">🧪 Teste A/B</h4>
+                            <p className="text-xs text-gray-500">
+                              Salve a mensagem acima como variante e monte a próxima. Cada contato recebe uma variante conforme o peso.
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={handleSaveVariant}
+                            className="px-3 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700 whitespace-nowrap"
+                          >
+                            Salvar como variante
+                          </button>
+                        </div>
+
+                        {variantDrafts.map((variant, index) => (
+                          <div key={index} className="flex items-center gap-2 text-sm">
+                            <input
+                              type="text"
+                              value={variant.name}
+                              onChange={(e) => updateVariantDraft(index, { name: e.target.value })}
+                              className="flex-1 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                            <span className="text-gray-600">Peso</span>
+                            <input
+                              type="number"
+                              min={1}
+                              max={100}
+                              value={variant.weight}
+                              onChange={(e) => updateVariantDraft(index, { weight: parseInt(e.target.value, 10) || 1 })}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                            <span className="text-xs text-gray-500">{variant.sequence.length} msg</span>
+                            <button type="button" onClick={() => handleEditVariant(index)} className="text-blue-600 hover:text-blue-800">
+                              Editar
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setVariantDrafts(variantDrafts.filter((_, i) => i !== index))}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              Remover
+                            </button>
+                          </div>
+                        ))}
+
+                        {variantDrafts.length > 0 && (
+                          <>
+                            <p className="text-xs text-gray-500">
+                              A mensagem que estiver no editor ao criar a campanha entra como mais uma variante (peso 1).
+                            </p>
+                            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={testPhaseEnabled}
+                                onChange={(e) => setTestPhaseEnabled(e.target.checked)}
+                              />
+                              Fase de teste com escolha automática do vencedor
+                            </label>
+                            {testPhaseEnabled && (
+                              <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                  <label className="block text-xs font-medium text-gray-600 mb-1">Contatos no teste (%)</label>
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    max={99}
+                                    value={experimentConfig.testPercentage}
+                                    onChange={(e) => setExperimentConfig({ ...experimentConfig, testPercentage: parseInt(e.target.value, 10) || 1 })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="block text-xs font-medium text-gray-600 mb-1">Aguardar (min)</label>
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    value={experimentConfig.waitMinutes}
+                                    onChange={(e) => setExperimentConfig({ ...experimentConfig, waitMinutes: parseInt(e.target.value, 10) || 0 })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="block text-xs font-medium text-gray-600 mb-1">Vencedor</label>
+                                  <select
+                                    value={experimentConfig.winnerMetric}
+                                    onChange={(e) => setExperimentConfig({ ...experimentConfig, winnerMetric: e.target.value as WinnerMetric })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                                  >
+                                    {(Object.keys(WINNER_METRIC_LABELS) as WinnerMetric[]).map(metric => (
+                                      <option key={metric} value={metric}>{WINNER_METRIC_LABELS[metric]}</option>
+                                    ))}
+                                  </select>
+                                </div>
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -2189,6 +2862,34 @@ export function CampaignsPage() {
                             {reportData.campaign.completedAt ? new Date(reportData.campaign.completedAt).toLocaleString('pt-BR') : 'N/A'}
                           </span>
                         </div>
+                        {reportData.sendingWindowStatus && (() => {
+                          const windowStatus: SendingWindowStatus = reportData.sendingWindowStatus;
+                          return (
+                            <>
+                              <div>
+                                <span className="font-medium text-gray-700">Janela de Envio:</span>
+                                <span className="ml-2 text-gray-900">
+                                  {!windowStatus.window
+                                    ? 'Sem restrição'
+                                    : `${windowStatus.window.ranges.map(range => `${range.start}-${range.end}`).join(', ')} (${windowStatus.source === 'CAMPAIGN' ? 'campanha' : 'padrão da organização'})`}
+                                </span>
+                                {windowStatus.window && !windowStatus.isOpen && reportData.campaign.status === 'RUNNING' && (
+                                  <span className="block text-xs text-yellow-700 mt-1">
+                                    🌙 Fora da janela{windowStatus.nextOpeningAt ? ` - retoma em ${new Date(windowStatus.nextOpeningAt).toLocaleString('pt-BR')}` : ''}
+                                  </span>
+                                )}
+                              </div>
+                              {windowStatus.projectedCompletionAt && (
+                                <div>
+                                  <span className="font-medium text-gray-700">Previsão de Término:</span>
+                                  <span className="ml-2 text-gray-900">
+                                    {new Date(windowStatus.projectedCompletionAt).toLocaleString('pt-BR')}
+                                  </span>
+                                </div>
+                              )}
+                            </>
+                          );
+                        })()}
                       </div>
                     </div>
 
@@ -2215,6 +2916,94 @@ export function CampaignsPage() {
                       </div>
                     </div>
 
+                    {/* Teste A/B */}
+                    {reportData.experiment && (() => {
+                      const experiment: CampaignExperimentReport = reportData.experiment;
+                      return (
+                        <div>
+                          <h4 className="text-lg font-semibold text-gray-900 mb-1">Teste A/B</h4>
+                          <p className="text-sm text-gray-600 mb-3">
+                            {!experiment.config
+                              ? 'Contatos divididos entre as variantes conforme o peso'
+                              : experiment.winnerVariantId
+                                ? `Vencedor escolhido em ${new Date(experiment.winnerSelectedAt!).toLocaleString('pt-BR')} (${WINNER_METRIC_LABELS[experiment.config.winnerMetric].toLowerCase()})`
+                                : experiment.testEndsAt
+                                  ? `Fase de teste concluída - vencedor será escolhido em ${new Date(experiment.testEndsAt).toLocaleString('pt-BR')}`
+                                  : `Fase de teste em andamento com ${experiment.config.testPercentage}% dos contatos - ${experiment.heldCount} aguardando o vencedor`}
+                          </p>
+                          <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm bg-white border border-gray-200 rounded-lg">
+                              <thead className="bg-gray-50">
+                                <tr className="text-left text-xs text-gray-500 uppercase">
+                                  <th className="px-3 py-2">Variante</th>
+                                  <th className="px-3 py-2">Peso</th>
+                                  <th className="px-3 py-2">Contatos</th>
+                                  <th className="px-3 py-2">Enviadas</th>
+                                  <th className="px-3 py-2">Entregues</th>
+                                  <th className="px-3 py-2">Lidas</th>
+                                  <th className="px-3 py-2">Respostas</th>
+                                  <th className="px-3 py-2">Descadastros</th>
+                                </tr>
+                              </thead>
+                              <tbody className="divide-y divide-gray-100">
+                                {experiment.variants.map(variant => (
+                                  <tr key={variant.id} className={variant.isWinner ? 'bg-green-50' : ''}>
+                                    <td className="px-3 py-2 font-medium text-gray-900">
+                                      {variant.isWinner && '🏆 '}{variant.name}
+                                    </td>
+                                    <td className="px-3 py-2 text-gray-700">{variant.weight}</td>
+                                    <td className="px-3 py-2 text-gray-700">{variant.metrics.assigned}</td>
+                                    <td className="px-3 py-2 text-gray-700">{variant.metrics.sent}</td>
+                                    <td className="px-3 py-2 text-gray-700">{variant.metrics.delivered} ({variant.rates.delivered}%)</td>
+                                    <td className="px-3 py-2 text-gray-700">{variant.metrics.read} ({variant.rates.read}%)</td>
+                                    <td className="px-3 py-2 text-gray-700">{variant.metrics.replied} ({variant.rates.replied}%)</td>
+                                    <td className="px-3 py-2 text-gray-700">{variant.metrics.optedOut} ({variant.rates.optedOut}%)</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        </div>
+                      );
+                    })()}
+
+                    {/* Falhas por Classe */}
+                    {reportData.failureSummary && reportData.failureSummary.byClass.length > 0 && (() => {
+                      const failureSummary: CampaignFailureSummary = reportData.failureSummary;
+                      return (
+                        <div>
+                          <div className="flex items-center justify-between mb-3">
+                            <h4 className="text-lg font-semibold text-gray-900">Falhas por Motivo</h4>
+                            {failureSummary.retryableCount > 0 && (
+                              <button
+                                onClick={handleRetryFailed}
+                                disabled={retryingFailed || reportData.campaign.status === 'PENDING'}
+                                className="px-3 py-1.5 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+                              >
+                                {retryingFailed ? 'Reenviando...' : `🔁 Reenviar ${failureSummary.retryableCount} falha(s)`}
+                              </button>
+                            )}
+                          </div>
+                          <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+                            {failureSummary.byClass.map(row => (
+                              <div key={row.failureClass} className="flex items-center justify-between px-4 py-2 text-sm">
+                                <span className="text-gray-900">{FAILURE_CLASS_LABELS[row.failureClass] || row.failureClass}</span>
+                                <span className="flex items-center gap-3">
+                                  <span className={`text-xs ${row.retryable ? 'text-orange-700' : 'text-gray-500'}`}>
+                                    {row.retryable ? 'Retentável' : 'Não retentável'}
+                                  </span>
+                                  <span className="font-semibold text-red-600">{row.count}</span>
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Política: até {failureSummary.policy.maxAttempts} tentativas, espera de {failureSummary.policy.backoffSeconds}s a {failureSummary.policy.backoffMaxSeconds}s
+                          </p>
+                        </div>
+                      );
+                    })()}
+
                     {/* Mensagens por Sessão */}
                     {Object.keys(reportData.messagesBySession).length > 0 && (
                       <div>
@@ -2293,10 +3082,12 @@ export function CampaignsPage() {
                                         <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
                                           message.status === 'SENT' ? 'bg-green-100 text-green-800' :
                                           message.status === 'FAILED' ? 'bg-red-100 text-red-800' :
+                                          message.status === 'SKIPPED_OPTOUT' ? 'bg-gray-100 text-gray-800' :
                                           'bg-yellow-100 text-yellow-800'
                                         }`}>
                                           {message.status === 'SENT' ? 'Enviada' :
-                                           message.status === 'FAILED' ? 'Falhou' : 'Pendente'}
+                                           message.status === 'FAILED' ? 'Falhou' :
+                                           message.status === 'SKIPPED_OPTOUT' ? 'Descadastrado' : 'Pendente'}
                                         </span>
                                       </td>
                                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{message.sessionName || 'N/A'}</td>
@@ -2444,6 +3235,14 @@ export function CampaignsPage() {
           </div>
           </Portal>
         )}
+
+        <RecurringCampaignsModal
+          isOpen={showRecurringModal}
+          onClose={() => {
+            setShowRecurringModal(false);
+            loadCampaigns();
+          }}
+        />
       </div>
     </>
   );
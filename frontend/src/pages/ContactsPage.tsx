@@ -1,8 +1,10 @@
-import { useState } from 'react';
+import { useState, useCallback } from 'react';
 import { useContacts } from '../hooks/useContacts';
 import { ContactList } from '../components/ContactList';
 import { ContactForm } from '../components/ContactForm';
 import { CategoryModal } from '../components/CategoryModal';
+import { ContactFieldsModal } from '../components/ContactFieldsModal';
+import { OptOutModal } from '../components/OptOutModal';
 import { CSVImportModal } from '../components/CSVImportModal';
 import { BulkEditModal } from '../components/BulkEditModal';
 import { ChatwootSyncModal } from '../components/ChatwootSyncModal';
@@ -19,6 +21,8 @@ export function ContactsPage() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingContact, setEditingContact] = useState<Contact | undefined>();
   const [isCategoryModalOpen, setIsCategoryModalOpen] = useState(false);
+  const [isFieldsModalOpen, setIsFieldsModalOpen] = useState(false);
+  const [isOptOutModalOpen, setIsOptOutModalOpen] = useState(false);
   const [isCSVImportModalOpen, setIsCSVImportModalOpen] = useState(false);
   const [isBulkEditModalOpen, setIsBulkEditModalOpen] = useState(false);
   const [isChatwootSyncModalOpen, setIsChatwootSyncModalOpen] = useState(false);
@@ -92,10 +96,9 @@ export function ContactsPage() {
     setIsCSVImportModalOpen(false);
   };
 
-  const handleCSVImportSuccess = () => {
+  const handleCSVImportSuccess = useCallback(() => {
     refresh();
-    setIsCSVImportModalOpen(false);
-  };
+  }, [refresh]);
 
   const handleToggleSelectContact = (contactId: string) => {
     setSelectedContactIds((prev) =>
@@ -196,6 +199,13 @@ export function ContactsPage() {
                 >
                   Categorias
                 </button>
+                <button
+                  onClick={() => setIsFieldsModalOpen(true)}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-medium transition-colors"
+                  aria-label="Gerenciar campos personalizados"
+                >
+                  Campos
+                </button>
                 <button
                   onClick={handleNewContact}
                   className="btn-primary"
@@ -248,6 +258,16 @@ export function ContactsPage() {
                           <span>🔧</span>
                           <span>Perfex CRM</span>
                         </button>
+                        <button
+                          onClick={() => {
+                            setIsOptOutModalOpen(true);
+                            setIsMenuOpen(false);
+                          }}
+                          className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 transition-colors flex items-center gap-2"
+                        >
+                          <span>🚫</span>
+                          <span>Descadastrados</span>
+                        </button>
                       </div>
                     </>
                   )}
@@ -325,6 +345,16 @@ export function ContactsPage() {
         onClose={handleCloseCategoryModal}
       />
 
+      <ContactFieldsModal
+        isOpen={isFieldsModalOpen}
+        onClose={() => setIsFieldsModalOpen(false)}
+      />
+
+      <OptOutModal
+        isOpen={isOptOutModalOpen}
+        onClose={() => setIsOptOutModalOpen(false)}
+      />
+
       <CSVImportModal
         isOpen={isCSVImportModalOpen}
         onClose={handleCloseCSVImportModal}
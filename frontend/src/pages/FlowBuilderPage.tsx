@@ -28,6 +28,12 @@ import { VideoNode } from '../components/flow-nodes/VideoNode';
 import { AudioNode } from '../components/flow-nodes/AudioNode';
 import { DocumentNode } from '../components/flow-nodes/DocumentNode';
 import { AINode } from '../components/flow-nodes/AINode';
+import { ButtonsNode } from '../components/flow-nodes/ButtonsNode';
+import { ListNode } from '../components/flow-nodes/ListNode';
+import { PollNode } from '../components/flow-nodes/PollNode';
+import { LocationNode } from '../components/flow-nodes/LocationNode';
+import { ContactNode } from '../components/flow-nodes/ContactNode';
+import { ReactionNode } from '../components/flow-nodes/ReactionNode';
 import { ActionNode } from '../components/flow-nodes/ActionNode';
 import { ConditionNode } from '../components/flow-nodes/ConditionNode';
 import { DelayNode } from '../components/flow-nodes/DelayNode';
@@ -50,6 +56,12 @@ const NODE_TYPES_CONFIG = {
   audio: { label: '🎵 Áudio', color: '#f59e0b', description: 'Áudio' },
   document: { label: '📄 Arquivo', color: '#ec4899', description: 'Doc' },
   ai: { label: '🤖 IA', color: '#8b5cf6', description: 'IA' },
+  buttons: { label: '🔘 Botões', color: '#14b8a6', description: 'Opções' },
+  list: { label: '📋 Lista', color: '#0ea5e9', description: 'Menu' },
+  poll: { label: '📊 Enquete', color: '#6366f1', description: 'Votação' },
+  location: { label: '📍 Localização', color: '#ef4444', description: 'Mapa' },
+  contact: { label: '👤 Contato', color: '#84cc16', description: 'vCard' },
+  reaction: { label: '👍 Reação', color: '#f97316', description: 'Emoji' },
   condition: { label: '❓ Condição', color: '#ffd700', description: 'Condição' },
   delay: { label: '⏱️ Delay', color: '#ff7a7a', description: 'Espera' },
   waitreply: { label: '⏳ Aguardar Resposta', color: '#f59e0b', description: 'Espera resposta' },
@@ -147,6 +159,12 @@ function FlowBuilderPageInner() {
       audio: AudioNode,
       document: DocumentNode,
       ai: AINode,
+      buttons: ButtonsNode,
+      list: ListNode,
+      poll: PollNode,
+      location: LocationNode,
+      contact: ContactNode,
+      reaction: ReactionNode,
       action: ActionNode,
       condition: ConditionNode,
       delay: DelayNode,
@@ -724,8 +742,9 @@ function FlowBuilderPageInner() {
           />
         )}
 
-        {showPreview && (
+        {showPreview && campaign && (
           <FlowPreviewModal
+            campaignId={campaign.id}
             nodes={nodes}
             edges={edges}
             onClose={() => setShowPreview(false)}
@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Header } from '../components/Header';
+import {
+  conversationApi,
+  ConversationMessage,
+  ConversationSummary,
+  ConversationThread,
+  MessageSource,
+} from '../services/conversationApi';
+
+// Intervalo de atualização automática da caixa de entrada
+const POLL_INTERVAL_MS = 5000;
+
+const SOURCE_LABELS: Record<MessageSource, string> = {
+  CONTACT: 'Contato',
+  CAMPAIGN: 'Campanha',
+  INTERACTIVE_CAMPAIGN: 'Campanha interativa',
+  MANUAL: 'Resposta manual',
+  AUTOMATION: 'Automação',
+};
+
+const STATUS_ICONS: Record<string, string> = {
+  sent: '✓',
+  delivered: '✓✓',
+  read: '✓✓',
+  failed: '⚠️',
+};
+
+interface SessionOption {
+  id: string;
+  name: string;
+  displayName?: string;
+  status?: string;
+}
+
+function formatTime(value: string) {
+  const date = new Date(value);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+}
+
+function describeMessage(message: { type: string; content: string }) {
+  if (message.content) return message.content;
+  return message.type === 'text' ? '' : `[${message.type}]`;
+}
+
+export function InboxPage() {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [search, setSearch] = useState('');
+  const [loadingList, setLoadingList] = useState(true);
+  const [selectedPhone, setSelectedPhone] = useState<string | null>(null);
+  const [thread, setThread] = useState<ConversationThread | null>(null);
+  const [loadingThread, setLoadingThread] = useState(false);
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [replySessionId, setReplySessionId] = useState('');
+  const [replyText, setReplyText] = useState('');
+  const [sending, setSending] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const result = await conversationApi.getConversations({ search: search || undefined });
+      setConversations(result.conversations);
+    } catch (error: any) {
+      console.error('Erro ao carregar conversas:', error);
+    } finally {
+      setLoadingList(false);
+    }
+  }, [search]);
+
+  const loadThread = useCallback(async (phone: string) => {
+    try {
+      const result = await conversationApi.getMessages(phone);
+      setThread(prev => {
+        // Evitar re-render (e scroll) quando nada mudou
+        const prevLast = prev?.messages[prev.messages.length - 1];
+        const nextLast = result.messages[result.messages.length - 1];
+        if (prev && prev.contactPhone === result.contactPhone && prev.messages.length === result.messages.length &&
+          prevLast?.id === nextLast?.id && prevLast?.status === nextLast?.status) {
+          return prev;
+        }
+        return result;
+      });
+
+      if (result.messages.some(message => message.direction === 'INBOUND' && message.status === 'received')) {
+        await conversationApi.markAsRead(phone);
+        setConversations(prev => prev.map(conversation =>
+          conversation.contactPhone === phone ? { ...conversation, unreadCount: 0 } : conversation
+        ));
+      }
+    } catch (error: any) {
+      console.error('Erro ao carregar mensagens:', error);
+    }
+  }, []);
+
+  // Lista de conversas com polling
+  useEffect(() => {
+    setLoadingList(true);
+    const timeout = setTimeout(loadConversations, 300);
+    const interval = setInterval(loadConversations, POLL_INTERVAL_MS);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [loadConversations]);
+
+  // Conversa selecionada com polling
+  useEffect(() => {
+    if (!selectedPhone) return;
+
+    setLoadingThread(true);
+    setThread(null);
+    loadThread(selectedPhone).finally(() => setLoadingThread(false));
+
+    const interval = setInterval(() => loadThread(selectedPhone), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [selectedPhone, loadThread]);
+
+  // Sessões disponíveis para resposta manual
+  useEffect(() => {
+    const token = localStorage.getItem('auth_token');
+    fetch('/api/waha/sessions', {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    })
+      .then(response => (response.ok ? response.json() : []))
+      .then(data => setSessions(Array.isArray(data) ? data : []))
+      .catch(() => setSessions([]));
+  }, []);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [thread]);
+
+  const selectedConversation = conversations.find(conversation => conversation.contactPhone === selectedPhone);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedPhone || !replyText.trim()) return;
+
+    setSending(true);
+    try {
+      await conversationApi.sendReply(selectedPhone, {
+        content: replyText.trim(),
+        sessionId: replySessionId || undefined,
+      });
+      setReplyText('');
+      await Promise.all([loadThread(selectedPhone), loadConversations()]);
+    } catch (error: any) {
+      toast.error(error.message || 'Erro ao enviar mensagem');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderMessage = (message: ConversationMessage) => {
+    const outbound = message.direction === 'OUTBOUND';
+    return (
+      <div key={message.id} className={`flex ${outbound ? 'justify-end' : 'justify-start'}`}>
+        <div
+          className={`max-w-[70%] rounded-lg px-3 py-2 shadow-sm ${
+            outbound ? 'bg-green-100 text-gray-900' : 'bg-white text-gray-900'
+          }`}
+        >
+          {outbound && message.source && message.source !== 'MANUAL' && (
+            <div className="text-[10px] font-semibold uppercase text-green-700 mb-1">
+              {SOURCE_LABELS[message.source]}
+            </div>
+          )}
+          <div className="text-sm whitespace-pre-wrap break-words">{describeMessage(message)}</div>
+          <div className="flex items-center justify-end gap-1 mt-1 text-[10px] text-gray-500">
+            {message.session && <span>{message.session.displayName || message.session.name} ·</span>}
+            <span>{formatTime(message.timestamp)}</span>
+            {outbound && message.status && (
+              <span className={message.status === 'read' ? 'text-blue-500' : ''}>
+                {STATUS_ICONS[message.status] || ''}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Header title="Conversas" subtitle="Mensagens recebidas e enviadas em todas as sessões" />
+
+      <div className="flex flex-1 min-h-0 p-6 gap-4" style={{ height: 'calc(100vh - 88px)' }}>
+        {/* Lista de conversas */}
+        <div className="w-80 flex-shrink-0 bg-white rounded-lg shadow flex flex-col">
+          <div className="p-3 border-b border-gray-200">
+            <input
+              type="text"
+              placeholder="Buscar por nome ou telefone..."
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {loadingList && conversations.length === 0 ? (
+              <div className="p-4 text-sm text-gray-500">Carregando conversas...</div>
+            ) : conversations.length === 0 ? (
+              <div className="p-4 text-sm text-gray-500">Nenhuma conversa encontrada</div>
+            ) : (
+              conversations.map(conversation => (
+                <button
+                  key={conversation.contactPhone}
+                  onClick={() => setSelectedPhone(conversation.contactPhone)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${
+                    selectedPhone === conversation.contactPhone ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-sm text-gray-900 truncate">
+                      {conversation.contact?.nome || conversation.contactPhone}
+                    </span>
+                    <span className="text-xs text-gray-400 ml-2 flex-shrink-0">
+                      {formatTime(conversation.lastMessage.timestamp)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between mt-1">
+                    <span className="text-xs text-gray-500 truncate">
+                      {conversation.lastMessage.direction === 'OUTBOUND' ? 'Você: ' : ''}
+                      {describeMessage(conversation.lastMessage)}
+                    </span>
+                    {conversation.unreadCount > 0 && (
+                      <span className="ml-2 flex-shrink-0 bg-green-500 text-white text-xs font-semibold rounded-full px-2 py-0.5">
+                        {conversation.unreadCount}
+                      </span>
+                    )}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Conversa selecionada */}
+        <div className="flex-1 bg-white rounded-lg shadow flex flex-col min-w-0">
+          {!selectedPhone ? (
+            <div className="flex-1 flex items-center justify-center text-gray-500 text-sm">
+              Selecione uma conversa
+            </div>
+          ) : (
+            <>
+              <div className="px-4 py-3 border-b border-gray-200">
+                <div className="font-medium text-gray-900">
+                  {thread?.contact?.nome || selectedConversation?.contact?.nome || selectedPhone}
+                </div>
+                <div className="text-xs text-gray-500">{selectedPhone}</div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-2 bg-gray-50">
+                {loadingThread && !thread ? (
+                  <div className="text-sm text-gray-500">Carregando mensagens...</div>
+                ) : (
+                  thread?.messages.map(renderMessage)
+                )}
+                <div ref={messagesEndRef} />
+              </div>
+
+              <form onSubmit={handleSend} className="p-3 border-t border-gray-200 flex items-end gap-2">
+                <select
+                  value={replySessionId}
+                  onChange={e => setReplySessionId(e.target.value)}
+                  className="px-2 py-2 border border-gray-300 rounded-lg text-sm max-w-[180px]"
+                  title="Sessão usada para responder"
+                >
+                  <option value="">Sessão da conversa</option>
+                  {sessions.map(session => (
+                    <option key={session.id} value={session.id}>
+                      {session.displayName || session.name}
+                    </option>
+                  ))}
+                </select>
+                <textarea
+                  value={replyText}
+                  onChange={e => setReplyText(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSend(e);
+                    }
+                  }}
+                  rows={1}
+                  placeholder="Digite uma mensagem..."
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={sending || !replyText.trim()}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium transition-colors"
+                >
+                  {sending ? 'Enviando...' : 'Enviar'}
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
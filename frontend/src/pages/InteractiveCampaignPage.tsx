@@ -198,7 +198,8 @@ export function InteractiveCampaignPage() {
           'Telefone': cleanPhoneNumber(session.contactPhone),
           'Status': session.status === 'ACTIVE' ? 'Ativa' :
                     session.status === 'COMPLETED' ? 'Concluída' :
-                    session.status === 'FAILED' ? 'Falhada' : 'Expirada',
+                    session.status === 'FAILED' ? 'Falhada' :
+                    session.status === 'SKIPPED_OPTOUT' ? 'Descadastrado' : 'Expirada',
         };
 
         // Adicionar colunas para cada nó do fluxo
@@ -890,6 +891,31 @@ export function InteractiveCampaignPage() {
                           </div>
                         </div>
 
+                        {/* Contatos aguardando em nós de delay */}
+                        {reportData.delayNodes && reportData.delayNodes.length > 0 && (
+                          <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+                            <h4 className="text-lg font-bold text-gray-900 mb-4 flex items-center gap-2">
+                              <span className="text-2xl">⏱️</span>
+                              Aguardando Delay
+                            </h4>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                              {reportData.delayNodes.map((node: any) => (
+                                <div key={node.id} className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+                                  <div className="flex items-center justify-between">
+                                    <span className="font-medium text-gray-700 truncate">{node.label}</span>
+                                    <span className="text-xs text-amber-700">{node.delaySeconds}s</span>
+                                  </div>
+                                  <div className="text-2xl font-bold text-amber-700 mt-1">{node.waiting}</div>
+                                  <p className="text-xs text-amber-700">
+                                    {node.waiting === 1 ? 'contato aguardando' : 'contatos aguardando'}
+                                    {node.nextWakeUpAt && ` · próxima retomada ${new Date(node.nextWakeUpAt).toLocaleTimeString('pt-BR')}`}
+                                  </p>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Funil de Conversão por Nó */}
                         {reportData.flowNodes && reportData.flowNodes.length > 0 && (
                           <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
@@ -1282,17 +1308,20 @@ export function InteractiveCampaignPage() {
                                       session.status === 'ACTIVE' ? 'bg-green-100 text-green-800' :
                                       session.status === 'COMPLETED' ? 'bg-purple-100 text-purple-800' :
                                       session.status === 'FAILED' ? 'bg-red-100 text-red-800' :
+                                      session.status === 'SKIPPED_OPTOUT' ? 'bg-gray-100 text-gray-800' :
                                       'bg-yellow-100 text-yellow-800'
                                     }`}
                                     title={session.status === 'FAILED' && session.variables?.errorReason
                                       ? `❌ ${session.variables.errorReason}`
                                       : session.status === 'ACTIVE' ? 'Sessão ativa' :
                                         session.status === 'COMPLETED' ? 'Fluxo concluído' :
-                                        session.status === 'FAILED' ? 'Falha no envio' : 'Sessão expirada'}
+                                        session.status === 'FAILED' ? 'Falha no envio' :
+                                        session.status === 'SKIPPED_OPTOUT' ? 'Contato descadastrado (opt-out)' : 'Sessão expirada'}
                                   >
                                     {session.status === 'ACTIVE' ? 'Ativa' :
                                      session.status === 'COMPLETED' ? 'Concluída' :
-                                     session.status === 'FAILED' ? 'Falhada' : 'Expirada'}
+                                     session.status === 'FAILED' ? 'Falhada' :
+                                     session.status === 'SKIPPED_OPTOUT' ? 'Descadastrado' : 'Expirada'}
                                   </span>
                                 </td>
                                 <td className="px-4 py-3 bg-white max-w-xs">
@@ -6,6 +6,8 @@ import toast from 'react-hot-toast';
 import { Header } from '../components/Header';
 import { useAuth } from '../contexts/AuthContext';
 import { PerfexSyncModal } from '../components/PerfexSyncModal';
+import { SendingWindowEditor, DEFAULT_SENDING_WINDOW } from '../components/SendingWindowEditor';
+import { SendingWindow } from '../types';
 
 interface Settings {
   id: string;
@@ -16,8 +18,33 @@ interface Settings {
   chatwootApiToken?: string;
   perfexUrl?: string;
   perfexToken?: string;
+  sendingWindow?: SendingWindow | null;
+  smtpHost?: string | null;
+  smtpPort?: number | null;
+  smtpSecure?: boolean;
+  smtpUser?: string | null;
+  smtpPassword?: string | null;
+  smtpFrom?: string | null;
 }
 
+interface SmtpForm {
+  smtpHost: string;
+  smtpPort: string;
+  smtpSecure: boolean;
+  smtpUser: string;
+  smtpPassword: string;
+  smtpFrom: string;
+}
+
+const EMPTY_SMTP_FORM: SmtpForm = {
+  smtpHost: '',
+  smtpPort: '',
+  smtpSecure: false,
+  smtpUser: '',
+  smtpPassword: '',
+  smtpFrom: '',
+};
+
 const settingsSchema = z.object({
   openaiApiKey: z.string().optional(),
   groqApiKey: z.string().optional(),
@@ -34,6 +61,12 @@ export function SettingsPage() {
   const [settings, setSettings] = useState<Settings | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeModal, setActiveModal] = useState<'openai' | 'groq' | 'chatwoot' | 'perfex' | null>(null);
+  const [windowEnabled, setWindowEnabled] = useState(false);
+  const [defaultWindow, setDefaultWindow] = useState<SendingWindow>(DEFAULT_SENDING_WINDOW);
+  const [savingWindow, setSavingWindow] = useState(false);
+  const [smtpForm, setSmtpForm] = useState<SmtpForm>(EMPTY_SMTP_FORM);
+  const [savingSmtp, setSavingSmtp] = useState(false);
+  const [testingSmtp, setTestingSmtp] = useState(false);
   const { user } = useAuth();
 
   // Helper para fazer requisições autenticadas
@@ -103,6 +136,16 @@ export function SettingsPage() {
         setValue('chatwootApiToken', data.chatwootApiToken || '');
         setValue('perfexUrl', data.perfexUrl || '');
         setValue('perfexToken', data.perfexToken || '');
+        setWindowEnabled(!!data.sendingWindow?.enabled);
+        setDefaultWindow(data.sendingWindow || DEFAULT_SENDING_WINDOW);
+        setSmtpForm({
+          smtpHost: data.smtpHost || '',
+          smtpPort: data.smtpPort ? String(data.smtpPort) : '',
+          smtpSecure: !!data.smtpSecure,
+          smtpUser: data.smtpUser || '',
+          smtpPassword: data.smtpPassword || '',
+          smtpFrom: data.smtpFrom || '',
+        });
       }
     } catch (error) {
       console.error('Erro ao carregar configurações:', error);
@@ -197,6 +240,101 @@ export function SettingsPage() {
     }
   };
 
+  const saveSendingWindow = async () => {
+    setSavingWindow(true);
+    try {
+      const requestData: any = {
+        sendingWindow: windowEnabled ? { ...defaultWindow, enabled: true } : null
+      };
+
+      if (user?.role === 'SUPERADMIN') {
+        const selectedTenantId = localStorage.getItem('superadmin_selected_tenant');
+        if (selectedTenantId) {
+          requestData.tenantId = selectedTenantId;
+        }
+      }
+
+      const response = await authenticatedFetch('/api/settings', {
+        method: 'PUT',
+        body: JSON.stringify(requestData),
+      });
+
+      if (response.ok) {
+        toast.success('Janela de envio salva com sucesso');
+        await loadSettings();
+      } else {
+        const errorData = await response.json();
+        const validationError = errorData.errors?.map((err: any) => err.msg).join(', ');
+        toast.error(validationError || errorData.error || 'Erro ao salvar janela de envio');
+      }
+    } catch (error) {
+      console.error('Erro ao salvar janela de envio:', error);
+      toast.error('Erro ao salvar janela de envio');
+    } finally {
+      setSavingWindow(false);
+    }
+  };
+
+  const withSelectedTenant = (requestData: any) => {
+    if (user?.role === 'SUPERADMIN') {
+      const selectedTenantId = localStorage.getItem('superadmin_selected_tenant');
+      if (selectedTenantId) {
+        requestData.tenantId = selectedTenantId;
+      }
+    }
+    return requestData;
+  };
+
+  const saveSmtp = async () => {
+    setSavingSmtp(true);
+    try {
+      const requestData = withSelectedTenant({
+        ...smtpForm,
+        smtpPort: smtpForm.smtpPort ? Number(smtpForm.smtpPort) : null,
+      });
+
+      const response = await authenticatedFetch('/api/settings', {
+        method: 'PUT',
+        body: JSON.stringify(requestData),
+      });
+
+      if (response.ok) {
+        toast.success('Configuração SMTP salva com sucesso');
+        await loadSettings();
+      } else {
+        const errorData = await response.json();
+        const validationError = errorData.errors?.map((err: any) => err.msg).join(', ');
+        toast.error(validationError || errorData.error || 'Erro ao salvar configuração SMTP');
+      }
+    } catch (error) {
+      console.error('Erro ao salvar configuração SMTP:', error);
+      toast.error('Erro ao salvar configuração SMTP');
+    } finally {
+      setSavingSmtp(false);
+    }
+  };
+
+  const testSmtp = async () => {
+    setTestingSmtp(true);
+    try {
+      const response = await authenticatedFetch('/api/settings/smtp/test', {
+        method: 'POST',
+        body: JSON.stringify(withSelectedTenant({})),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message || 'Conexão SMTP realizada com sucesso');
+      } else {
+        toast.error(data.error || 'Erro ao conectar ao SMTP');
+      }
+    } catch (error) {
+      console.error('Erro ao testar SMTP:', error);
+      toast.error('Erro ao testar SMTP');
+    } finally {
+      setTestingSmtp(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -367,6 +505,130 @@ export function SettingsPage() {
             </div>
           </div>
 
+          {/* Janela de Envio Padrão */}
+          <div className="bg-white rounded-lg shadow p-6 mt-6">
+            <h2 className="text-lg font-semibold mb-6 text-gray-900">
+              🌙 Janela de Envio Padrão
+            </h2>
+            <p className="text-gray-600 mb-6">
+              Dias e horários em que as campanhas podem enviar mensagens. Campanhas podem definir uma janela própria.
+            </p>
+
+            <label className="flex items-center space-x-2 mb-4">
+              <input
+                type="checkbox"
+                checked={windowEnabled}
+                onChange={(e) => setWindowEnabled(e.target.checked)}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">Restringir envios das campanhas a esta janela</span>
+            </label>
+
+            {windowEnabled && (
+              <div className="border border-gray-200 rounded-lg p-4 mb-4">
+                <SendingWindowEditor value={defaultWindow} onChange={setDefaultWindow} />
+              </div>
+            )}
+
+            <button
+              onClick={saveSendingWindow}
+              disabled={savingWindow}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {savingWindow ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+
+          {/* SMTP */}
+          <div className="bg-white rounded-lg shadow p-6 mt-6">
+            <h2 className="text-lg font-semibold mb-6 text-gray-900">
+              📧 Servidor de Email (SMTP)
+            </h2>
+            <p className="text-gray-600 mb-6">
+              Usado pelas ações "Enviar Email" das automações. Sem servidor configurado, é usado o SMTP padrão do sistema (se houver).
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Servidor</label>
+                <input
+                  type="text"
+                  value={smtpForm.smtpHost}
+                  onChange={(e) => setSmtpForm({ ...smtpForm, smtpHost: e.target.value })}
+                  placeholder="smtp.seudominio.com"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Porta</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={65535}
+                  value={smtpForm.smtpPort}
+                  onChange={(e) => setSmtpForm({ ...smtpForm, smtpPort: e.target.value })}
+                  placeholder={smtpForm.smtpSecure ? '465' : '587'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Usuário</label>
+                <input
+                  type="text"
+                  value={smtpForm.smtpUser}
+                  onChange={(e) => setSmtpForm({ ...smtpForm, smtpUser: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Senha</label>
+                <input
+                  type="password"
+                  value={smtpForm.smtpPassword}
+                  onChange={(e) => setSmtpForm({ ...smtpForm, smtpPassword: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Remetente</label>
+                <input
+                  type="text"
+                  value={smtpForm.smtpFrom}
+                  onChange={(e) => setSmtpForm({ ...smtpForm, smtpFrom: e.target.value })}
+                  placeholder="Empresa <contato@seudominio.com>"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2 mb-4">
+              <input
+                type="checkbox"
+                checked={smtpForm.smtpSecure}
+                onChange={(e) => setSmtpForm({ ...smtpForm, smtpSecure: e.target.checked })}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">Conexão segura (SSL/TLS)</span>
+            </label>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={saveSmtp}
+                disabled={savingSmtp}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {savingSmtp ? 'Salvando...' : 'Salvar'}
+              </button>
+              <button
+                onClick={testSmtp}
+                disabled={testingSmtp}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                {testingSmtp ? 'Testando...' : 'Testar conexão'}
+              </button>
+            </div>
+          </div>
+
         </div>
       </div>
 
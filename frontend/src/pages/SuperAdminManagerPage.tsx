@@ -13,7 +13,7 @@ interface Tenant {
   name: string;
   domain?: string;
   active: boolean;
-  allowedProviders?: string[]; // ['WAHA', 'EVOLUTION', 'QUEPASA']
+  allowedProviders?: string[]; // ['WAHA', 'EVOLUTION', 'QUEPASA', 'CLOUD_API', 'SANDBOX']
   createdAt: string;
   updatedAt: string;
   _count?: {
@@ -60,7 +60,7 @@ interface TenantFormData {
     maxCampaigns: string;
     maxConnections: string;
   };
-  allowedProviders: string[]; // ['WAHA', 'EVOLUTION', 'QUEPASA']
+  allowedProviders: string[]; // ['WAHA', 'EVOLUTION', 'QUEPASA', 'CLOUD_API', 'SANDBOX']
 }
 
 interface UserFormData {
@@ -135,6 +135,10 @@ interface Settings {
   quepasaUrl?: string;
   quepasaLogin?: string;
   quepasaPassword?: string;
+  cloudApiGraphUrl?: string;
+  cloudApiAppSecret?: string;
+  cloudApiVerifyToken?: string;
+  appUrl?: string;
   logoUrl?: string;
   companyName?: string;
   faviconUrl?: string;
@@ -162,6 +166,11 @@ const settingsSchema = z.object({
   }),
   quepasaLogin: z.string().optional(),
   quepasaPassword: z.string().optional(),
+  cloudApiGraphUrl: z.string().refine((val) => !val || z.string().url().safeParse(val).success, {
+    message: 'URL deve ser uma URL válida ou vazio'
+  }),
+  cloudApiAppSecret: z.string().optional(),
+  cloudApiVerifyToken: z.string().optional(),
 });
 
 const generalSettingsSchema = z.object({
@@ -203,7 +212,7 @@ export function SuperAdminManagerPage() {
       maxCampaigns: '50',
       maxConnections: '5'
     },
-    allowedProviders: ['WAHA', 'EVOLUTION', 'QUEPASA']
+    allowedProviders: ['WAHA', 'EVOLUTION', 'QUEPASA', 'CLOUD_API']
   });
   const [userFormData, setUserFormData] = useState<UserFormData>({
     nome: '',
@@ -216,7 +225,7 @@ export function SuperAdminManagerPage() {
   });
   const [tenantSearchQuery, setTenantSearchQuery] = useState('');
 
-  const [activeModal, setActiveModal] = useState<'waha' | 'evolution' | 'quepasa' | null>(null);
+  const [activeModal, setActiveModal] = useState<'waha' | 'evolution' | 'quepasa' | 'cloudApi' | null>(null);
   const [integrationSettings, setIntegrationSettings] = useState<Settings | null>(null);
 
   // General settings states
@@ -349,6 +358,9 @@ export function SuperAdminManagerPage() {
         setValue('quepasaUrl', data.quepasaUrl || '');
         setValue('quepasaLogin', data.quepasaLogin || '');
         setValue('quepasaPassword', data.quepasaPassword || '');
+        setValue('cloudApiGraphUrl', data.cloudApiGraphUrl || '');
+        setValue('cloudApiAppSecret', data.cloudApiAppSecret || '');
+        setValue('cloudApiVerifyToken', data.cloudApiVerifyToken || '');
       }
     } catch (error) {
       console.error('Erro ao carregar configurações de integração:', error);
@@ -639,7 +651,7 @@ export function SuperAdminManagerPage() {
         maxCampaigns: '50',
         maxConnections: '5'
       },
-      allowedProviders: ['WAHA', 'EVOLUTION', 'QUEPASA']
+      allowedProviders: ['WAHA', 'EVOLUTION', 'QUEPASA', 'CLOUD_API']
     });
     setIsModalOpen(true);
   };
@@ -659,7 +671,7 @@ export function SuperAdminManagerPage() {
         maxCampaigns: tenant.quota?.maxCampaigns?.toString() || '50',
         maxConnections: tenant.quota?.maxConnections?.toString() || '5'
       },
-      allowedProviders: tenant.allowedProviders || ['WAHA', 'EVOLUTION', 'QUEPASA']
+      allowedProviders: tenant.allowedProviders || ['WAHA', 'EVOLUTION', 'QUEPASA', 'CLOUD_API']
     });
     setIsModalOpen(true);
   };
@@ -1510,7 +1522,7 @@ export function SuperAdminManagerPage() {
                       <button
                         type="button"
                         onClick={() => {
-                          const allProviders = ['WAHA', 'EVOLUTION', 'QUEPASA'];
+                          const allProviders = ['WAHA', 'EVOLUTION', 'QUEPASA', 'CLOUD_API', 'SANDBOX'];
                           const allSelected = allProviders.every(p => formData.allowedProviders.includes(p));
                           setFormData({
                             ...formData,
@@ -1519,7 +1531,7 @@ export function SuperAdminManagerPage() {
                         }}
                         className="text-xs text-blue-600 hover:text-blue-800 font-medium"
                       >
-                        {formData.allowedProviders.length === 3 ? 'Desmarcar Todos' : 'Selecionar Todos'}
+                        {formData.allowedProviders.length === 5 ? 'Desmarcar Todos' : 'Selecionar Todos'}
                       </button>
                     </div>
                     <div className="space-y-2">
@@ -1571,6 +1583,38 @@ export function SuperAdminManagerPage() {
                         <img src="/iconequepasa.png" alt="Quepasa" className="w-6 h-6 object-contain" />
                         <span className="text-sm font-medium text-gray-700">Quepasa</span>
                       </label>
+                      <label className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 cursor-pointer border border-gray-200">
+                        <input
+                          type="checkbox"
+                          checked={formData.allowedProviders.includes('CLOUD_API')}
+                          onChange={(e) => {
+                            if (e.target.checked) {
+                              setFormData({ ...formData, allowedProviders: [...formData.allowedProviders, 'CLOUD_API'] });
+                            } else {
+                              setFormData({ ...formData, allowedProviders: formData.allowedProviders.filter(p => p !== 'CLOUD_API') });
+                            }
+                          }}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <img src="/iconecloudapi.svg" alt="WhatsApp Cloud API" className="w-6 h-6 object-contain" />
+                        <span className="text-sm font-medium text-gray-700">WhatsApp Cloud API (oficial)</span>
+                      </label>
+                      <label className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 cursor-pointer border border-gray-200">
+                        <input
+                          type="checkbox"
+                          checked={formData.allowedProviders.includes('SANDBOX')}
+                          onChange={(e) => {
+                            if (e.target.checked) {
+                              setFormData({ ...formData, allowedProviders: [...formData.allowedProviders, 'SANDBOX'] });
+                            } else {
+                              setFormData({ ...formData, allowedProviders: formData.allowedProviders.filter(p => p !== 'SANDBOX') });
+                            }
+                          }}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <img src="/iconesandbox.svg" alt="Sandbox" className="w-6 h-6 object-contain" />
+                        <span className="text-sm font-medium text-gray-700">Sandbox (desenvolvimento e testes)</span>
+                      </label>
                     </div>
                     {formData.allowedProviders.length === 0 && (
                       <p className="text-xs text-red-500 mt-2">Selecione pelo menos um provedor</p>
@@ -1865,7 +1909,7 @@ export function SuperAdminManagerPage() {
           </div>
 
           <div className="p-6">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               {/* WAHA Card */}
               <div
                 onClick={() => setActiveModal('waha')}
@@ -1943,6 +1987,32 @@ export function SuperAdminManagerPage() {
                   </span>
                 </div>
               </div>
+
+              {/* WhatsApp Cloud API Card */}
+              <div
+                onClick={() => setActiveModal('cloudApi')}
+                className="bg-gray-50 hover:bg-gray-100 border-2 border-gray-200 hover:border-green-300 rounded-lg p-6 cursor-pointer transition-all duration-200 flex flex-col items-center min-h-[180px] group"
+              >
+                <div className="flex-1 flex items-center justify-center">
+                  <div className="w-28 h-16 flex items-center justify-center group-hover:scale-110 transition-transform">
+                    <img
+                      src="/iconecloudapi.svg"
+                      alt="WhatsApp Cloud API"
+                      className="w-full h-full object-contain"
+                    />
+                  </div>
+                </div>
+                <div className="mt-auto text-center">
+                  <p className="text-xs text-gray-500 mb-2">WhatsApp Cloud API (Meta)</p>
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                    integrationSettings?.cloudApiAppSecret && integrationSettings?.cloudApiVerifyToken
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-gray-100 text-gray-600'
+                  }`}>
+                    {integrationSettings?.cloudApiAppSecret && integrationSettings?.cloudApiVerifyToken ? 'Configurado' : 'Não configurado'}
+                  </span>
+                </div>
+              </div>
             </div>
           </div>
         </div>
@@ -2457,6 +2527,102 @@ export function SuperAdminManagerPage() {
           </div>
         </div>
       )}
+
+      {/* Modal WhatsApp Cloud API */}
+      {activeModal === 'cloudApi' && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+            <div className="flex justify-between items-center mb-4">
+              <div className="flex items-center gap-2">
+                <img src="/iconecloudapi.svg" alt="WhatsApp Cloud API" className="w-6 h-6 object-contain" />
+                <h3 className="text-lg font-semibold text-gray-900">Configurar WhatsApp Cloud API</h3>
+              </div>
+              <button
+                onClick={() => setActiveModal(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ✕
+              </button>
+            </div>
+
+            <form onSubmit={handleFormSubmit(onIntegrationSubmit)} className="space-y-4">
+              <div>
+                <label htmlFor="cloudApiGraphUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                  URL da Graph API
+                </label>
+                <input
+                  id="cloudApiGraphUrl"
+                  type="url"
+                  {...register('cloudApiGraphUrl')}
+                  placeholder="https://graph.facebook.com/v21.0"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Aponte para um mock local (npm run mock:graph) para testes
+                </p>
+                {errors.cloudApiGraphUrl && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {errors.cloudApiGraphUrl.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="cloudApiAppSecret" className="block text-sm font-medium text-gray-700 mb-1">
+                  App Secret *
+                </label>
+                <input
+                  id="cloudApiAppSecret"
+                  type="password"
+                  {...register('cloudApiAppSecret')}
+                  placeholder="••••••••••••••••"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Usado para validar a assinatura dos webhooks da Meta
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="cloudApiVerifyToken" className="block text-sm font-medium text-gray-700 mb-1">
+                  Verify Token *
+                </label>
+                <input
+                  id="cloudApiVerifyToken"
+                  type="text"
+                  {...register('cloudApiVerifyToken')}
+                  placeholder="token-de-verificacao"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-3">
+                <p className="text-xs font-medium text-gray-700 mb-1">URL de callback do webhook (painel da Meta)</p>
+                <code className="text-xs text-gray-600 break-all">
+                  {`${integrationSettings?.appUrl || window.location.origin}/api/webhooks/cloud-api`}
+                </code>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setActiveModal(null)}
+                  className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Salvando...' : 'Salvar'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
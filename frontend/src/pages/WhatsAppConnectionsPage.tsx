@@ -5,7 +5,35 @@ import { Portal } from '../components/Portal';
 import { useSettings } from '../hooks/useSettings';
 import { useTenant } from '../contexts/TenantContext';
 import { useWhatsAppSessions } from '../hooks/useWhatsAppSessions';
-import type { WhatsAppSession } from '../hooks/useWhatsAppSessions';
+import type { WhatsAppSession, WhatsAppProviderName } from '../hooks/useWhatsAppSessions';
+import { SessionRateLimitModal } from '../components/SessionRateLimitModal';
+import { SandboxSessionModal } from '../components/SandboxSessionModal';
+import { apiService } from '../services/api';
+import type { SessionSendBudget } from '../types';
+
+const BUDGET_WINDOW_LABELS: Record<string, string> = {
+  MINUTE: 'por minuto',
+  HOUR: 'por hora',
+  DAY: 'diário',
+};
+
+// Barra de consumo de uma janela do orçamento de envio
+function BudgetBar({ label, used, limit }: { label: string; used: number; limit: number | null }) {
+  const percent = limit ? Math.min(100, Math.round((used / limit) * 100)) : 0;
+  const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+
+  return (
+    <div className="w-32">
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{label}</span>
+        <span>{used}{limit ? `/${limit}` : ''}</span>
+      </div>
+      <div className="h-1.5 bg-gray-200 rounded-full mt-1">
+        {limit && <div className={`h-1.5 rounded-full ${color}`} style={{ width: `${percent}%` }} />}
+      </div>
+    </div>
+  );
+}
 
 // Componente para exibir contador do QR Code
 function QRCountdown({ expiresAt }: { expiresAt: Date }) {
@@ -52,15 +80,19 @@ export function WhatsAppConnectionsPage() {
     pollSessionStatus, authenticatedFetch
   } = useWhatsAppSessions({ listIntervalMs: 5000, syncIntervalMs: 60000 });
   const [newSessionName, setNewSessionName] = useState('');
-  const [newSessionProvider, setNewSessionProvider] = useState<'WAHA' | 'EVOLUTION' | 'QUEPASA'>('WAHA');
+  const [newSessionProvider, setNewSessionProvider] = useState<WhatsAppProviderName>('WAHA');
   const [interactiveCampaignEnabled, setInteractiveCampaignEnabled] = useState(false);
+  // Credenciais da WhatsApp Cloud API (Meta)
+  const [cloudPhoneNumberId, setCloudPhoneNumberId] = useState('');
+  const [cloudAccessToken, setCloudAccessToken] = useState('');
+  const [cloudWabaId, setCloudWabaId] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [loadingQR, setLoadingQR] = useState<string | null>(null);
   const [qrModalOpen, setQrModalOpen] = useState(false);
   const [currentQRSession, setCurrentQRSession] = useState<WhatsAppSession | null>(null);
   const [createSessionModalOpen, setCreateSessionModalOpen] = useState(false);
   const [providerDropdownOpen, setProviderDropdownOpen] = useState(false);
-  const [allowedProviders, setAllowedProviders] = useState<string[]>(['WAHA', 'EVOLUTION', 'QUEPASA']);
+  const [allowedProviders, setAllowedProviders] = useState<string[]>(['WAHA', 'EVOLUTION', 'QUEPASA', 'CLOUD_API']);
 
   // States for Import Evolution modal
   const [importEvolutionModalOpen, setImportEvolutionModalOpen] = useState(false);
@@ -70,12 +102,37 @@ export function WhatsAppConnectionsPage() {
   const [importEvolutionDisplayName, setImportEvolutionDisplayName] = useState('');
   const [isImporting, setIsImporting] = useState(false);
 
+  // Orçamento de envio por sessão (limites, aquecimento e consumo)
+  const [sendBudgets, setSendBudgets] = useState<Record<string, SessionSendBudget>>({});
+  const [rateLimitSession, setRateLimitSession] = useState<WhatsAppSession | null>(null);
+
+  // Caixa de saída e simulador de respostas das sessões SANDBOX
+  const [sandboxSession, setSandboxSession] = useState<WhatsAppSession | null>(null);
+
+  const loadSendBudgets = async () => {
+    try {
+      const budgets = await apiService.getSessionSendBudgets();
+      setSendBudgets(Object.fromEntries(budgets.map(budget => [budget.sessionName, budget])));
+    } catch (error) {
+      console.error('Erro ao carregar limites de envio:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (tenantLoading) return;
+    loadSendBudgets();
+    const interval = setInterval(loadSendBudgets, 30000);
+    return () => clearInterval(interval);
+  }, [selectedTenantId, tenantLoading]);
+
   // Preload das imagens dos provedores para carregamento instantâneo
   useEffect(() => {
     const images = [
       '/iconewaha.png',
       '/iconeevolutionapi.png',
-      '/iconequepasa.png'
+      '/iconequepasa.png',
+      '/iconecloudapi.svg',
+      '/iconesandbox.svg'
     ];
 
     images.forEach(src => {
@@ -94,7 +151,7 @@ export function WhatsAppConnectionsPage() {
           setAllowedProviders(data.allowedProviders);
           // Definir o primeiro provedor permitido como padrão
           if (data.allowedProviders.length > 0 && !data.allowedProviders.includes(newSessionProvider)) {
-            setNewSessionProvider(data.allowedProviders[0] as 'WAHA' | 'EVOLUTION' | 'QUEPASA');
+            setNewSessionProvider(data.allowedProviders[0] as WhatsAppProviderName);
           }
         }
       }
@@ -188,6 +245,11 @@ export function WhatsAppConnectionsPage() {
       return;
     }
 
+    if (newSessionProvider === 'CLOUD_API' && (!cloudPhoneNumberId.trim() || !cloudAccessToken.trim())) {
+      toast.error('Informe o ID do número e o token de acesso da WhatsApp Cloud API');
+      return;
+    }
+
     setIsCreating(true);
     try {
       const response = await authenticatedFetch('/api/waha/sessions', {
@@ -195,7 +257,12 @@ export function WhatsAppConnectionsPage() {
         body: JSON.stringify({
           name: newSessionName.trim(),
           provider: newSessionProvider,
-          interactiveCampaignEnabled
+          interactiveCampaignEnabled,
+          ...(newSessionProvider === 'CLOUD_API' && {
+            cloudPhoneNumberId: cloudPhoneNumberId.trim(),
+            cloudAccessToken: cloudAccessToken.trim(),
+            cloudWabaId: cloudWabaId.trim()
+          })
         })
       });
 
@@ -219,6 +286,9 @@ export function WhatsAppConnectionsPage() {
       toast.success(`Sessão ${newSessionProvider} criada com sucesso`);
       setNewSessionName('');
       setNewSessionProvider('WAHA');
+      setCloudPhoneNumberId('');
+      setCloudAccessToken('');
+      setCloudWabaId('');
 
       // Recarregar imediatamente
       await listSessions(true);
@@ -310,6 +380,14 @@ export function WhatsAppConnectionsPage() {
         throw new Error(errorData.error || `HTTP ${startResponse.status}`);
       }
 
+      // Cloud API e Sandbox não têm pareamento: a sessão conecta direto
+      const provider = sessions.find(s => s.name === sessionName)?.provider;
+      if (provider === 'CLOUD_API' || provider === 'SANDBOX') {
+        toast.success('Sessão conectada');
+        listSessions(false);
+        return;
+      }
+
       toast.success('QR Code solicitado. Aguarde...');
 
       // Aguardar um pouco e abrir modal para mostrar QR
@@ -495,12 +573,16 @@ export function WhatsAppConnectionsPage() {
                       <span className={`inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-medium ${
                         session.provider === 'EVOLUTION' ? 'bg-blue-100 text-blue-800' :
                         session.provider === 'QUEPASA' ? 'bg-purple-100 text-purple-800' :
+                        session.provider === 'CLOUD_API' ? 'bg-emerald-100 text-emerald-800' :
+                        session.provider === 'SANDBOX' ? 'bg-amber-100 text-amber-800' :
                         'bg-green-100 text-green-800'
                       }`}>
                         <img
                           src={
                             session.provider === 'EVOLUTION' ? '/iconeevolutionapi.png' :
                             session.provider === 'QUEPASA' ? '/iconequepasa.png' :
+                            session.provider === 'CLOUD_API' ? '/iconecloudapi.svg' :
+                            session.provider === 'SANDBOX' ? '/iconesandbox.svg' :
                             '/iconewaha.png'
                           }
                           alt={session.provider}
@@ -508,18 +590,57 @@ export function WhatsAppConnectionsPage() {
                         />
                         {session.provider === 'EVOLUTION' ? 'Evolution API' :
                          session.provider === 'QUEPASA' ? 'Quepasa' :
+                         session.provider === 'CLOUD_API' ? 'Cloud API' :
+                         session.provider === 'SANDBOX' ? 'Sandbox' :
                          'Waha'}
                       </span>
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(session.status)}`}>
                         {getStatusText(session.status)}
                       </span>
+                      {session.healthStatus && session.healthStatus !== 'HEALTHY' && (
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            session.healthStatus === 'UNHEALTHY' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                          }`}
+                          title="Score calculado a partir de falhas de envio, números inexistentes e quedas nos últimos 30 minutos"
+                        >
+                          Saúde {session.healthScore ?? '-'}/100
+                        </span>
+                      )}
                     </div>
 
+                    {session.quarantinedUntil && session.quarantinedUntil > new Date() && (
+                      <p className="text-xs text-red-600 mb-1">
+                        Fora da rotação das campanhas até {session.quarantinedUntil.toLocaleTimeString('pt-BR')} por excesso de falhas
+                      </p>
+                    )}
+
                     {session.me && (
                       <p className="text-sm text-gray-600">
                         Conectado como: <span className="font-medium">{session.me.pushName}</span> ({session.me.id})
                       </p>
                     )}
+
+                    {sendBudgets[session.name] && (
+                      <div className="mt-3">
+                        <div className="flex flex-wrap gap-4">
+                          <BudgetBar label="Minuto" used={sendBudgets[session.name].usage.minute} limit={sendBudgets[session.name].limits.perMinute} />
+                          <BudgetBar label="Hora" used={sendBudgets[session.name].usage.hour} limit={sendBudgets[session.name].limits.perHour} />
+                          <BudgetBar label="24h" used={sendBudgets[session.name].usage.day} limit={sendBudgets[session.name].limits.perDay} />
+                        </div>
+                        {sendBudgets[session.name].limits.warmupDay && (
+                          <p className="text-xs text-orange-600 mt-1">
+                            🔥 Aquecimento: dia {sendBudgets[session.name].limits.warmupDay} (máx. {sendBudgets[session.name].limits.warmupCap}/dia)
+                          </p>
+                        )}
+                        {sendBudgets[session.name].blocked && (
+                          <p className="text-xs text-red-600 mt-1">
+                            Limite {BUDGET_WINDOW_LABELS[sendBudgets[session.name].blocked!.window]} atingido — envios retomam às{' '}
+                            {new Date(sendBudgets[session.name].blocked!.retryAt).toLocaleTimeString('pt-BR')}
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex gap-2 ml-4">
@@ -540,6 +661,20 @@ export function WhatsAppConnectionsPage() {
                         Ver QR Code
                       </button>
                     )}
+                    {session.provider === 'SANDBOX' && (
+                      <button
+                        onClick={() => setSandboxSession(session)}
+                        className="px-3 py-1 bg-amber-500 text-white text-sm rounded-md hover:bg-amber-600"
+                      >
+                        Simulador
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setRateLimitSession(session)}
+                      className="px-3 py-1 bg-gray-600 text-white text-sm rounded-md hover:bg-gray-700"
+                    >
+                      Limites
+                    </button>
                     <button
                       onClick={() => restartSession(session.name)}
                       className="px-3 py-1 bg-yellow-600 text-white text-sm rounded-md hover:bg-yellow-700"
@@ -561,6 +696,29 @@ export function WhatsAppConnectionsPage() {
         )}
       </div>
 
+      {/* Modal Limites de Envio */}
+      {rateLimitSession && (
+        <SessionRateLimitModal
+          sessionName={rateLimitSession.name}
+          displayName={rateLimitSession.displayName || rateLimitSession.name}
+          budget={sendBudgets[rateLimitSession.name] || null}
+          onClose={() => setRateLimitSession(null)}
+          onSaved={() => {
+            setRateLimitSession(null);
+            loadSendBudgets();
+          }}
+        />
+      )}
+
+      {/* Modal Simulador Sandbox */}
+      {sandboxSession && (
+        <SandboxSessionModal
+          sessionName={sandboxSession.name}
+          displayName={sandboxSession.displayName || sandboxSession.name}
+          onClose={() => setSandboxSession(null)}
+        />
+      )}
+
       {/* Modal Importar Sessão Evolution */}
       {importEvolutionModalOpen && (
         <Portal>
@@ -712,6 +870,8 @@ export function WhatsAppConnectionsPage() {
                         src={
                           newSessionProvider === 'EVOLUTION' ? '/iconeevolutionapi.png' :
                           newSessionProvider === 'QUEPASA' ? '/iconequepasa.png' :
+                          newSessionProvider === 'CLOUD_API' ? '/iconecloudapi.svg' :
+                          newSessionProvider === 'SANDBOX' ? '/iconesandbox.svg' :
                           '/iconewaha.png'
                         }
                         alt={newSessionProvider}
@@ -719,6 +879,8 @@ export function WhatsAppConnectionsPage() {
                       />
                       {newSessionProvider === 'EVOLUTION' ? 'Evolution API' :
                        newSessionProvider === 'QUEPASA' ? 'Quepasa' :
+                       newSessionProvider === 'CLOUD_API' ? 'WhatsApp Cloud API (oficial)' :
+                       newSessionProvider === 'SANDBOX' ? 'Sandbox (simulado, sem WhatsApp real)' :
                        'Waha'}
                     </span>
                     <svg className={`w-4 h-4 text-gray-400 transition-transform ${providerDropdownOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -778,6 +940,36 @@ export function WhatsAppConnectionsPage() {
                             <span className="text-sm">Quepasa</span>
                           </button>
                         )}
+                        {allowedProviders.includes('CLOUD_API') && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setNewSessionProvider('CLOUD_API');
+                              setProviderDropdownOpen(false);
+                            }}
+                            className={`w-full px-4 py-3 text-left flex items-center gap-3 hover:bg-blue-50 transition-colors ${
+                              newSessionProvider === 'CLOUD_API' ? 'bg-blue-50' : ''
+                            }`}
+                          >
+                            <img src="/iconecloudapi.svg" alt="WhatsApp Cloud API" className="w-5 h-5 object-contain" />
+                            <span className="text-sm">WhatsApp Cloud API (oficial)</span>
+                          </button>
+                        )}
+                        {allowedProviders.includes('SANDBOX') && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setNewSessionProvider('SANDBOX');
+                              setProviderDropdownOpen(false);
+                            }}
+                            className={`w-full px-4 py-3 text-left flex items-center gap-3 hover:bg-blue-50 transition-colors ${
+                              newSessionProvider === 'SANDBOX' ? 'bg-blue-50' : ''
+                            }`}
+                          >
+                            <img src="/iconesandbox.svg" alt="Sandbox" className="w-5 h-5 object-contain" />
+                            <span className="text-sm">Sandbox (simulado, sem WhatsApp real)</span>
+                          </button>
+                        )}
                       </div>
                     </>
                   )}
@@ -806,6 +998,56 @@ export function WhatsAppConnectionsPage() {
                 </p>
               </div>
 
+              {newSessionProvider === 'CLOUD_API' && (
+                <div className="space-y-4 bg-emerald-50 p-4 rounded-xl border border-emerald-200">
+                  <div>
+                    <label htmlFor="cloud-phone-number-id" className="block text-sm font-semibold text-gray-700 mb-2">
+                      ID do número de telefone *
+                    </label>
+                    <input
+                      id="cloud-phone-number-id"
+                      type="text"
+                      value={cloudPhoneNumberId}
+                      onChange={(e) => setCloudPhoneNumberId(e.target.value)}
+                      placeholder="Ex: 106540352242922"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent text-sm"
+                      disabled={isCreating}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="cloud-access-token" className="block text-sm font-semibold text-gray-700 mb-2">
+                      Token de acesso *
+                    </label>
+                    <input
+                      id="cloud-access-token"
+                      type="password"
+                      value={cloudAccessToken}
+                      onChange={(e) => setCloudAccessToken(e.target.value)}
+                      placeholder="Token permanente do System User"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent text-sm"
+                      disabled={isCreating}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="cloud-waba-id" className="block text-sm font-semibold text-gray-700 mb-2">
+                      ID da conta WhatsApp Business
+                    </label>
+                    <input
+                      id="cloud-waba-id"
+                      type="text"
+                      value={cloudWabaId}
+                      onChange={(e) => setCloudWabaId(e.target.value)}
+                      placeholder="Opcional"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent text-sm"
+                      disabled={isCreating}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-600">
+                    Dados do painel do app na Meta (WhatsApp &gt; Configuração da API). Mensagens fora da janela de 24h exigem templates aprovados.
+                  </p>
+                </div>
+              )}
+
               <div className="bg-gradient-to-br from-blue-50 to-indigo-50 p-4 rounded-xl border border-blue-200">
                 <div className="flex items-start justify-between gap-3">
                   <div className="flex-1">
@@ -849,6 +1091,9 @@ export function WhatsAppConnectionsPage() {
                     setNewSessionName('');
                     setNewSessionProvider('WAHA');
                     setInteractiveCampaignEnabled(false);
+                    setCloudPhoneNumberId('');
+                    setCloudAccessToken('');
+                    setCloudWabaId('');
                   }}
                   className="flex-1 bg-gray-100 text-gray-700 py-3 px-6 rounded-xl hover:bg-gray-200 font-medium transition-all duration-200 border border-gray-200"
                   disabled={isCreating}
@@ -1,4 +1,4 @@
-import { Contact, ContactInput, ContactsResponse, Category, CategoryInput, CategoriesResponse, ImportResult } from '../types';
+import { Contact, ContactInput, ContactsResponse, Category, CategoryInput, CategoriesResponse, ContactField, ContactFieldInput, ContactImport, ContactImportPreview, ContactImportStrategy, SuppressedContact, SuppressedContactsResponse, RecurringCampaign, RecurringCampaignDetail, RecurrenceScheduleType, SessionSendBudget, WarmupStep, SandboxMessage, SandboxAckConfig } from '../types';
 
 const API_BASE_URL = '/api';
 
@@ -132,13 +132,35 @@ class ApiService {
     });
   }
 
+  // Contact custom field methods
+  async getContactFields(): Promise<ContactField[]> {
+    return this.request<ContactField[]>('/campos-personalizados');
+  }
+
+  async createContactField(data: ContactFieldInput): Promise<ContactField> {
+    return this.request<ContactField>('/campos-personalizados', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateContactField(id: string, data: ContactFieldInput): Promise<ContactField> {
+    return this.request<ContactField>(`/campos-personalizados/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteContactField(id: string): Promise<void> {
+    await this.request<void>(`/campos-personalizados/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // CSV Import methods
-  async importCSV(file: File, categoryId?: string): Promise<ImportResult> {
+  async uploadCSVImport(file: File): Promise<ContactImportPreview> {
     const formData = new FormData();
     formData.append('csv', file);
-    if (categoryId) {
-      formData.append('categoryId', categoryId);
-    }
 
     const token = localStorage.getItem('auth_token');
     const headers: HeadersInit = {};
@@ -147,7 +169,7 @@ class ApiService {
       (headers as Record<string, string>).Authorization = `Bearer ${token}`;
     }
 
-    const response = await fetch(`${API_BASE_URL}/csv/import`, {
+    const response = await fetch(`${API_BASE_URL}/csv/imports`, {
       method: 'POST',
       headers,
       body: formData,
@@ -161,6 +183,46 @@ class ApiService {
     return response.json();
   }
 
+  async startCSVImport(id: string, options: {
+    mapping: Record<string, string>;
+    strategy: ContactImportStrategy;
+    categoryId?: string;
+  }): Promise<ContactImport> {
+    return this.request<ContactImport>(`/csv/imports/${id}/start`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  async getCSVImport(id: string): Promise<ContactImport> {
+    return this.request<ContactImport>(`/csv/imports/${id}`);
+  }
+
+  async cancelCSVImport(id: string): Promise<void> {
+    await this.request<void>(`/csv/imports/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async downloadCSVImportErrors(id: string): Promise<Blob> {
+    const token = localStorage.getItem('auth_token');
+    const headers: HeadersInit = {};
+
+    if (token) {
+      (headers as Record<string, string>).Authorization = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${API_BASE_URL}/csv/imports/${id}/errors`, {
+      headers
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
   async downloadCSVTemplate(): Promise<Blob> {
     const token = localStorage.getItem('auth_token');
     const headers: HeadersInit = {};
@@ -180,6 +242,181 @@ class ApiService {
     return response.blob();
   }
 
+  // Opt-out / suppression list
+  async getOptOuts(params?: { search?: string; page?: number; pageSize?: number }): Promise<SuppressedContactsResponse> {
+    const searchParams = new URLSearchParams();
+
+    if (params?.search) searchParams.set('search', params.search);
+    if (params?.page) searchParams.set('page', params.page.toString());
+    if (params?.pageSize) searchParams.set('pageSize', params.pageSize.toString());
+
+    const queryString = searchParams.toString();
+    return this.request<SuppressedContactsResponse>(`/opt-outs${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async addOptOut(phone: string, note?: string): Promise<SuppressedContact> {
+    return this.request<SuppressedContact>('/opt-outs', {
+      method: 'POST',
+      body: JSON.stringify({ phone, note }),
+    });
+  }
+
+  async removeOptOut(id: string): Promise<void> {
+    await this.request<void>(`/opt-outs/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getOptOutKeywords(): Promise<{ keywords: string[] }> {
+    return this.request('/opt-outs/keywords');
+  }
+
+  async updateOptOutKeywords(keywords: string[]): Promise<{ keywords: string[] }> {
+    return this.request('/opt-outs/keywords', {
+      method: 'PUT',
+      body: JSON.stringify({ keywords }),
+    });
+  }
+
+  async importOptOuts(file: File): Promise<{ added: number; existing: number; invalid: number }> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const token = localStorage.getItem('auth_token');
+    const headers: HeadersInit = {};
+
+    if (token) {
+      (headers as Record<string, string>).Authorization = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${API_BASE_URL}/opt-outs/import`, {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Erro desconhecido' }));
+      throw new Error(error.error || `HTTP ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async exportOptOuts(): Promise<Blob> {
+    const token = localStorage.getItem('auth_token');
+    const headers: HeadersInit = {};
+
+    if (token) {
+      (headers as Record<string, string>).Authorization = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${API_BASE_URL}/opt-outs/export`, {
+      headers
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    return response.blob();
+  }
+
+  // Campanhas recorrentes
+  async getRecurringCampaigns(): Promise<RecurringCampaign[]> {
+    return this.request<RecurringCampaign[]>('/recurring-campaigns');
+  }
+
+  async getRecurringCampaign(id: string): Promise<RecurringCampaignDetail> {
+    return this.request<RecurringCampaignDetail>(`/recurring-campaigns/${id}`);
+  }
+
+  async previewRecurrence(data: {
+    scheduleType: RecurrenceScheduleType;
+    scheduleExpression: string;
+    timezone: string;
+    startDate?: string;
+    endDate?: string | null;
+  }): Promise<{ occurrences: string[] }> {
+    return this.request('/recurring-campaigns/preview', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async toggleRecurringCampaign(id: string, active: boolean): Promise<RecurringCampaign> {
+    return this.request<RecurringCampaign>(`/recurring-campaigns/${id}/toggle`, {
+      method: 'PATCH',
+      body: JSON.stringify({ active }),
+    });
+  }
+
+  async deleteRecurringCampaign(id: string): Promise<void> {
+    await this.request<void>(`/recurring-campaigns/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Session send budgets
+  async getSessionSendBudgets(): Promise<SessionSendBudget[]> {
+    return this.request<SessionSendBudget[]>('/waha/rate-limits');
+  }
+
+  async updateSessionRateLimit(sessionName: string, data: {
+    rateLimitPerMinute: number | null;
+    rateLimitPerHour: number | null;
+    rateLimitPerDay: number | null;
+    warmupPlan: WarmupStep[] | null;
+    restartWarmup?: boolean;
+  }): Promise<SessionSendBudget> {
+    return this.request<SessionSendBudget>(`/waha/sessions/${encodeURIComponent(sessionName)}/rate-limit`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Sandbox provider
+  async getSandboxMessages(sessionName: string, params?: { direction?: 'OUTBOUND' | 'INBOUND'; phone?: string; limit?: number }): Promise<SandboxMessage[]> {
+    const searchParams = new URLSearchParams();
+    if (params?.direction) searchParams.append('direction', params.direction);
+    if (params?.phone) searchParams.append('phone', params.phone);
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+
+    const query = searchParams.toString();
+    return this.request<SandboxMessage[]>(`/sandbox/sessions/${encodeURIComponent(sessionName)}/messages${query ? `?${query}` : ''}`);
+  }
+
+  async clearSandboxMessages(sessionName: string): Promise<{ deleted: number }> {
+    return this.request<{ deleted: number }>(`/sandbox/sessions/${encodeURIComponent(sessionName)}/messages`, {
+      method: 'DELETE',
+    });
+  }
+
+  async ackSandboxMessage(sessionName: string, messageId: string, status: 'DELIVERED' | 'READ' | 'FAILED', error?: string): Promise<SandboxMessage> {
+    return this.request<SandboxMessage>(`/sandbox/sessions/${encodeURIComponent(sessionName)}/messages/${messageId}/ack`, {
+      method: 'POST',
+      body: JSON.stringify({ status, error }),
+    });
+  }
+
+  async injectSandboxInbound(sessionName: string, data: { from: string; text: string; fromName?: string; selectionId?: string }): Promise<{ message: SandboxMessage; result: any }> {
+    return this.request<{ message: SandboxMessage; result: any }>(`/sandbox/sessions/${encodeURIComponent(sessionName)}/inbound`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getSandboxConfig(sessionName: string): Promise<SandboxAckConfig> {
+    return this.request<SandboxAckConfig>(`/sandbox/sessions/${encodeURIComponent(sessionName)}/config`);
+  }
+
+  async updateSandboxConfig(sessionName: string, data: SandboxAckConfig): Promise<SandboxAckConfig> {
+    return this.request<SandboxAckConfig>(`/sandbox/sessions/${encodeURIComponent(sessionName)}/config`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
   // Bulk operations
   async post(endpoint: string, data: any): Promise<any> {
     return this.request(endpoint, {
@@ -0,0 +1,117 @@
+const API_BASE_URL = '/api';
+
+export type MessageDirection = 'INBOUND' | 'OUTBOUND';
+export type MessageSource = 'CONTACT' | 'CAMPAIGN' | 'INTERACTIVE_CAMPAIGN' | 'MANUAL' | 'AUTOMATION';
+
+export interface ConversationSession {
+  id: string;
+  name: string;
+  displayName?: string | null;
+  provider?: string | null;
+}
+
+export interface ConversationContact {
+  id: string;
+  nome: string;
+  telefone: string;
+  tags?: string[];
+}
+
+export interface ConversationSummary {
+  contactPhone: string;
+  contact: ConversationContact | null;
+  session: ConversationSession | null;
+  lastMessage: {
+    id: string;
+    direction: MessageDirection;
+    type: string;
+    content: string;
+    status: string | null;
+    timestamp: string;
+  };
+  unreadCount: number;
+}
+
+export interface ConversationMessage {
+  id: string;
+  direction: MessageDirection;
+  type: string;
+  content: string;
+  status: string | null;
+  source: MessageSource | null;
+  campaignId: string | null;
+  sentByUserId: string | null;
+  timestamp: string;
+  session: ConversationSession | null;
+}
+
+export interface ConversationThread {
+  contactPhone: string;
+  contact: ConversationContact | null;
+  messages: ConversationMessage[];
+  hasMore: boolean;
+}
+
+class ConversationApiService {
+  private async request<T>(endpoint: string, options?: RequestInit): Promise<T> {
+    const url = `${API_BASE_URL}${endpoint}`;
+    const token = localStorage.getItem('auth_token');
+
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+      ...options?.headers,
+    };
+
+    if (token) {
+      (headers as Record<string, string>).Authorization = `Bearer ${token}`;
+    }
+
+    const response = await fetch(url, {
+      ...options,
+      headers,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Erro desconhecido' }));
+      throw new Error(error.error || error.message || `HTTP ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async getConversations(params: { search?: string; page?: number; pageSize?: number } = {}): Promise<{
+    conversations: ConversationSummary[];
+    page: number;
+    pageSize: number;
+  }> {
+    const query = new URLSearchParams();
+    if (params.search) query.set('search', params.search);
+    if (params.page) query.set('page', String(params.page));
+    if (params.pageSize) query.set('pageSize', String(params.pageSize));
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return this.request(`/conversations${queryString}`);
+  }
+
+  async getMessages(phone: string, params: { before?: string; limit?: number } = {}): Promise<ConversationThread> {
+    const query = new URLSearchParams();
+    if (params.before) query.set('before', params.before);
+    if (params.limit) query.set('limit', String(params.limit));
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return this.request<ConversationThread>(`/conversations/${encodeURIComponent(phone)}/messages${queryString}`);
+  }
+
+  async sendReply(phone: string, data: { content: string; sessionId?: string }): Promise<ConversationMessage> {
+    return this.request<ConversationMessage>(`/conversations/${encodeURIComponent(phone)}/messages`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async markAsRead(phone: string): Promise<{ success: boolean; count: number }> {
+    return this.request(`/conversations/${encodeURIComponent(phone)}/read`, {
+      method: 'POST',
+    });
+  }
+}
+
+export const conversationApi = new ConversationApiService();
@@ -2,7 +2,7 @@ const API_BASE_URL = '/api';
 
 export interface Connection {
   id: string;
-  provider: 'EVOLUTION' | 'WAHA' | 'QUEPASA';
+  provider: 'EVOLUTION' | 'WAHA' | 'QUEPASA' | 'CLOUD_API' | 'SANDBOX';
   instanceName: string;
   phoneNumber: string;
   status: 'ACTIVE' | 'INACTIVE' | 'ERROR';
@@ -28,8 +28,38 @@ export interface InteractiveCampaign {
   connection?: Connection;
 }
 
+export interface SimulationVisit {
+  nodeId: string;
+  nodeType: string;
+  label?: string;
+  result: 'sent' | 'executed' | 'skipped' | 'waiting' | 'evaluated' | 'completed' | 'error';
+  message?: string;
+}
+
+export interface SimulationStep {
+  index: number;
+  input: string | null;
+  visitedNodes: SimulationVisit[];
+  messages: Array<{ nodeId: string; nodeType: string; payload: any }>;
+  conditions: Array<{ nodeId: string; label?: string; evaluation: Record<string, any>; nextNodeId: string | null }>;
+  variables: Record<string, any>;
+  currentNodeId: string | null;
+  status: 'WAITING' | 'COMPLETED' | 'ERROR';
+}
+
+export interface SimulationResult {
+  success: boolean;
+  status: 'WAITING' | 'COMPLETED' | 'ERROR';
+  currentNodeId: string | null;
+  variables: Record<string, any>;
+  steps: SimulationStep[];
+  unprocessedMessages: string[];
+  executionTrace: SimulationVisit[];
+  message: string;
+}
+
 export interface CreateConnectionDto {
-  provider: 'EVOLUTION' | 'WAHA' | 'QUEPASA';
+  provider: 'EVOLUTION' | 'WAHA' | 'QUEPASA' | 'CLOUD_API' | 'SANDBOX';
   instanceName: string;
   phoneNumber: string;
 }
@@ -163,12 +193,16 @@ class InteractiveCampaignApiService {
 
   async simulateCampaign(
     id: string,
-    data: { from: string; text: string }
-  ): Promise<{
-    success: boolean;
-    executionTrace: any[];
-    message: string;
-  }> {
+    data: {
+      messages?: string[];
+      from?: string;
+      text?: string;
+      contactName?: string;
+      variables?: Record<string, any>;
+      executeExternal?: boolean;
+      graph?: { nodes: any[]; edges: any[] };
+    }
+  ): Promise<SimulationResult> {
     return this.request(`/interactive-campaigns/${id}/simulate`, {
       method: 'POST',
       body: JSON.stringify(data),
@@ -7,6 +7,7 @@ export interface Contact {
   categoriaId?: string | null;
   categoria?: Category | null;
   perfexLeadId?: string | null;
+  customFields?: Record<string, string | number> | null;
   criadoEm: string;
   atualizadoEm: string;
 }
@@ -17,6 +18,30 @@ export interface ContactInput {
   email?: string;
   observacoes?: string;
   categoriaId?: string;
+  customFields?: Record<string, string | number>;
+}
+
+export type ContactFieldType = 'text' | 'number' | 'date' | 'select';
+
+export interface ContactField {
+  id: string;
+  key: string;
+  label: string;
+  type: ContactFieldType;
+  options: string[];
+  required: boolean;
+  order: number;
+  criadoEm: string;
+  atualizadoEm: string;
+}
+
+export interface ContactFieldInput {
+  key?: string;
+  label: string;
+  type: ContactFieldType;
+  options?: string[];
+  required?: boolean;
+  order?: number;
 }
 
 export interface ContactsResponse {
@@ -55,13 +80,236 @@ export interface ApiError {
   details?: any;
 }
 
-export interface ImportResult {
-  success: boolean;
+export type ContactImportStrategy = 'SKIP' | 'UPDATE' | 'MERGE_TAGS';
+
+export type ContactImportStatus = 'UPLOADED' | 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+export interface ContactImport {
+  id: string;
+  fileName: string;
+  columns: string[];
   totalRows: number;
-  successfulImports: number;
-  failedImports: number;
-  errors: string[];
-  message?: string;
+  status: ContactImportStatus;
+  mapping?: Record<string, string> | null;
+  strategy: ContactImportStrategy;
+  categoryId?: string | null;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  errorMessage?: string | null;
+  criadoEm: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
+}
+
+export interface ContactImportPreview {
+  import: ContactImport;
+  columns: string[];
+  sampleRows: Record<string, string>[];
+  suggestedMapping: Record<string, string>;
+}
+
+export type SuppressionReason = 'KEYWORD' | 'MANUAL' | 'IMPORT';
+
+export interface SuppressedContact {
+  id: string;
+  phone: string;
+  reason: SuppressionReason;
+  keyword?: string | null;
+  note?: string | null;
+  criadoEm: string;
+}
+
+export interface SuppressedContactsResponse {
+  items: SuppressedContact[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface SendingWindowRange {
+  start: string;
+  end: string;
+}
+
+export interface SendingWindow {
+  enabled: boolean;
+  timezone: string;
+  weekdays: number[];
+  ranges: SendingWindowRange[];
+  holidays: string[];
+}
+
+export interface SendingWindowStatus {
+  window: SendingWindow | null;
+  source: 'CAMPAIGN' | 'TENANT' | null;
+  isOpen: boolean;
+  nextOpeningAt: string | null;
+  projectedCompletionAt: string | null;
+}
+
+export type FailureClass =
+  | 'INVALID_NUMBER'
+  | 'PROVIDER_TIMEOUT'
+  | 'SESSION_DISCONNECTED'
+  | 'MEDIA_FETCH_ERROR'
+  | 'AI_GENERATION_ERROR'
+  | 'PROVIDER_ERROR'
+  | 'DUPLICATE_CONTACT'
+  | 'SERVICE_WINDOW_CLOSED';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoffSeconds: number;
+  backoffMaxSeconds: number;
+  retryableClasses: FailureClass[];
+}
+
+export interface CampaignFailureSummary {
+  policy: RetryPolicy;
+  byClass: Array<{ failureClass: FailureClass | 'UNCLASSIFIED'; count: number; retryable: boolean }>;
+  retryableCount: number;
+}
+
+export type WinnerMetric = 'DELIVERED' | 'READ' | 'REPLIED' | 'OPTED_OUT';
+
+export interface ExperimentConfig {
+  testPercentage: number;
+  waitMinutes: number;
+  winnerMetric: WinnerMetric;
+}
+
+export interface CampaignVariantReport {
+  id: string;
+  name: string;
+  weight: number;
+  messageType: string;
+  messageContent: any;
+  isWinner: boolean;
+  metrics: {
+    assigned: number;
+    sent: number;
+    delivered: number;
+    read: number;
+    replied: number;
+    optedOut: number;
+  };
+  rates: {
+    delivered: number;
+    read: number;
+    replied: number;
+    optedOut: number;
+  };
+}
+
+export interface CampaignExperimentReport {
+  config: ExperimentConfig | null;
+  testEndsAt: string | null;
+  winnerVariantId: string | null;
+  winnerSelectedAt: string | null;
+  heldCount: number;
+  variants: CampaignVariantReport[];
+}
+
+export type RateLimitWindow = 'MINUTE' | 'HOUR' | 'DAY';
+
+export interface WarmupStep {
+  untilDay: number;
+  dailyCap: number;
+}
+
+export interface SessionSendBudget {
+  sessionName: string;
+  limits: {
+    perMinute: number | null;
+    perHour: number | null;
+    perDay: number | null;
+    warmupDay: number | null;
+    warmupCap: number | null;
+  };
+  config: {
+    rateLimitPerMinute: number | null;
+    rateLimitPerHour: number | null;
+    rateLimitPerDay: number | null;
+    warmupPlan: WarmupStep[] | null;
+    warmupStartedAt: string | null;
+  };
+  usage: { minute: number; hour: number; day: number };
+  blocked: { window: RateLimitWindow; retryAt: string } | null;
+}
+
+export type SandboxMessageStatus = 'SENT' | 'DELIVERED' | 'READ' | 'FAILED' | 'RECEIVED';
+
+export interface SandboxMessage {
+  id: string;
+  sessionId: string;
+  direction: 'OUTBOUND' | 'INBOUND';
+  phone: string;
+  type: string;
+  content: string | null;
+  payload: any;
+  providerMessageId: string;
+  status: SandboxMessageStatus;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SandboxAckConfig {
+  deliveredAfterSeconds: number | null;
+  readAfterSeconds: number | null;
+  failureRate: number;
+  failureMessage: string;
+}
+
+export type RecurrenceScheduleType = 'CRON' | 'RRULE';
+
+export interface RecurringCampaign {
+  id: string;
+  nome: string;
+  targetTags: string[];
+  sessionNames: string[];
+  messageType: string;
+  randomDelay: number;
+  sendingWindow: SendingWindow | null;
+  scheduleType: RecurrenceScheduleType;
+  scheduleExpression: string;
+  timezone: string;
+  startDate: string;
+  endDate: string | null;
+  active: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  runCount: number;
+  lastError: string | null;
+  createdByName: string | null;
+  criadoEm: string;
+  runsCount?: number;
+}
+
+export interface RecurringCampaignRun {
+  id: string;
+  nome: string;
+  status: string;
+  totalContacts: number;
+  sentCount: number;
+  failedCount: number;
+  startedAt: string | null;
+  completedAt: string | null;
+  criadoEm: string;
+}
+
+export interface RecurringCampaignDetail extends RecurringCampaign {
+  runs: RecurringCampaignRun[];
+  metrics: {
+    runs: number;
+    totalContacts: number;
+    sent: number;
+    failed: number;
+  };
 }
 
 export interface User {